@@ -41,6 +41,30 @@ export const config = {
         maxSize: parseInt(process.env.MAX_FILE_SIZE || '52428800', 10), // 50MB
     },
 
+    // Background jobs
+    scheduler: {
+        enabled: process.env.SCHEDULER_ENABLED !== 'false',
+        tickIntervalMs: parseInt(process.env.SCHEDULER_TICK_MS || '60000', 10), // 1 minute
+        lockTtlMs: parseInt(process.env.SCHEDULER_LOCK_TTL_MS || '900000', 10), // 15 minutes
+    },
+
+    // PDF rendering (a Unicode TTF enables the rupee sign and Devanagari text)
+    pdf: {
+        logoPath: path.resolve(process.cwd(), process.env.PDF_LOGO_PATH || './assets/csir-logo.jpg'),
+        fontPath: process.env.PDF_FONT_PATH || '',
+        boldFontPath: process.env.PDF_BOLD_FONT_PATH || '',
+    },
+
+    // Consultancy invoicing (the institute's GST registration)
+    invoicing: {
+        gstin: process.env.INVOICE_GSTIN || '',
+        pan: process.env.INVOICE_PAN || '',
+        stateCode: process.env.INVOICE_STATE_CODE || '33', // Tamil Nadu
+        defaultGstRate: parseFloat(process.env.INVOICE_GST_RATE || '18'),
+        sac: process.env.INVOICE_SAC || '998341', // Research and development services
+        paymentTermsDays: parseInt(process.env.INVOICE_PAYMENT_DAYS || '30', 10),
+    },
+
     // 2FA
     twoFa: {
         issuer: process.env.TWO_FA_ISSUER || 'CSIR-SERC Portal',
@@ -49,6 +73,12 @@ export const config = {
     // Paths
     paths: {
         uploads: path.resolve(process.cwd(), process.env.UPLOAD_DIR || './uploads'),
+        // Generated monthly reports; kept outside the public /uploads mount
+        monthlyReports: path.resolve(process.cwd(), process.env.MONTHLY_REPORT_DIR || './storage/monthly-reports'),
+        // Generated utilization certificates, served only through the documents API
+        certificates: path.resolve(process.cwd(), process.env.CERTIFICATE_DIR || './storage/certificates'),
+        // Issued invoices and credit notes, served only through the documents API
+        invoices: path.resolve(process.cwd(), process.env.INVOICE_DIR || './storage/invoices'),
     },
 };
 
@@ -1,104 +1,170 @@
 import { UserRole } from '@prisma/client';
 
-export interface Permission {
-    create: boolean;
-    read: boolean;
-    update: boolean;
-    delete: boolean;
-    approve: boolean;
-}
+export const PERMISSION_ACTIONS = ['read', 'create', 'update', 'delete', 'approve', 'manage'] as const;
+
+export type PermissionAction = typeof PERMISSION_ACTIONS[number];
 
-export interface RolePermissions {
-    users: Permission;
-    projects: Permission;
-    finance: Permission;
-    rcMeetings: Permission;
-    documents: Permission;
-    reports: Permission;
-    settings: Permission;
+export interface ResourceDefinition {
+    label: string;
+    // Actions that mean something for this resource, with what each one allows
+    actions: Partial<Record<PermissionAction, string>>;
 }
 
-export const rolePermissions: Record<UserRole, RolePermissions> = {
-    ADMIN: {
-        users: { create: true, read: true, update: true, delete: true, approve: true },
-        projects: { create: true, read: true, update: true, delete: true, approve: true },
-        finance: { create: true, read: true, update: true, delete: true, approve: true },
-        rcMeetings: { create: true, read: true, update: true, delete: true, approve: true },
-        documents: { create: true, read: true, update: true, delete: true, approve: true },
-        reports: { create: true, read: true, update: true, delete: true, approve: true },
-        settings: { create: true, read: true, update: true, delete: true, approve: true },
+/**
+ * Every resource the permission matrix covers. `read` doubles as page access in
+ * the frontend; the other actions are checked by `requirePermission` on routes.
+ * Within a single project, its PI, Co-PIs, members and viewers are authorized by
+ * their project role instead (see `requireProjectRole`); there these grants only
+ * let institute-wide roles act on projects they are not part of.
+ */
+export const PERMISSION_RESOURCES = {
+    'dashboard': { label: 'Dashboard', actions: { read: 'Open the dashboard' } },
+    'dg-dashboard': { label: 'DG Analytics', actions: { read: 'View institute-wide analytics' } },
+    'projects': {
+        label: 'Projects',
+        actions: {
+            read: 'View projects',
+            create: 'Create projects',
+            update: 'Edit projects, team, milestones and risks',
+            delete: 'Delete projects',
+            manage: 'Assign and remove project staff in bulk or across projects',
+        },
+    },
+    'comments': {
+        label: 'Project Journal',
+        actions: { read: 'Read journal entries', create: 'Post journal entries', delete: 'Delete journal entries' },
+    },
+    'finance': {
+        label: 'Finance & Costing',
+        actions: {
+            read: 'Open the finance pages',
+            create: 'Record budgets, expenses and cash flow; raise indents; generate utilization certificates; record sponsor funding schedules and claims; prepare quotations and draft invoices',
+            manage: 'View the cash flow register and costing summary; pay and reverse expenses; issue purchase orders; manage clients, issue invoices and credit notes, record client payments; set proposal costing terms; allocate and transfer budgets, review budget requests and close the fiscal year',
+        },
+    },
+    'proposals': {
+        label: 'Project Proposals',
+        actions: {
+            update: 'Screen submitted proposals (BKMD review)',
+            approve: 'Record the Director\'s and Research Council\'s decisions',
+            manage: 'Convert approved proposals into projects',
+        },
     },
-    DIRECTOR: {
-        users: { create: false, read: true, update: false, delete: false, approve: true },
-        projects: { create: true, read: true, update: true, delete: false, approve: true },
-        finance: { create: true, read: true, update: true, delete: false, approve: true },
-        rcMeetings: { create: true, read: true, update: true, delete: false, approve: true },
-        documents: { create: true, read: true, update: true, delete: false, approve: true },
-        reports: { create: true, read: true, update: true, delete: false, approve: true },
-        settings: { create: false, read: true, update: false, delete: false, approve: false },
+    'finance-overview': { label: 'Finance Overview', actions: { read: 'View the institute finance dashboard' } },
+    'staff': { label: 'Staff & Teams', actions: { read: 'Open the staff directory' } },
+    'rc-meetings': {
+        label: 'RC Meetings',
+        actions: {
+            read: 'View meetings',
+            create: 'Schedule meetings',
+            update: 'Edit meetings, agenda and minutes',
+            approve: 'Comment on agenda items',
+            manage: 'Generate meeting packs and agenda PDFs',
+        },
     },
-    SUPERVISOR: {
-        users: { create: false, read: true, update: false, delete: false, approve: false },
-        projects: { create: true, read: true, update: true, delete: false, approve: true },
-        finance: { create: true, read: true, update: true, delete: false, approve: true },
-        rcMeetings: { create: true, read: true, update: true, delete: false, approve: false },
-        documents: { create: true, read: true, update: true, delete: false, approve: false },
-        reports: { create: true, read: true, update: false, delete: false, approve: false },
-        settings: { create: false, read: false, update: false, delete: false, approve: false },
+    'documents': {
+        label: 'Document Vault',
+        actions: { read: 'View documents', create: 'Upload documents', delete: 'Delete documents' },
     },
-    PROJECT_HEAD: {
-        users: { create: false, read: true, update: false, delete: false, approve: false },
-        projects: { create: false, read: true, update: true, delete: false, approve: false },
-        finance: { create: true, read: true, update: true, delete: false, approve: false },
-        rcMeetings: { create: false, read: true, update: false, delete: false, approve: false },
-        documents: { create: true, read: true, update: true, delete: false, approve: false },
-        reports: { create: true, read: true, update: false, delete: false, approve: false },
-        settings: { create: false, read: false, update: false, delete: false, approve: false },
+    'reports': {
+        label: 'Reports & Analytics',
+        actions: { read: 'Open reports', create: 'Submit project reports', approve: 'Review reports awaiting approval' },
     },
-    EMPLOYEE: {
-        users: { create: false, read: false, update: false, delete: false, approve: false },
-        projects: { create: false, read: true, update: false, delete: false, approve: false },
-        finance: { create: false, read: false, update: false, delete: false, approve: false },
-        rcMeetings: { create: false, read: false, update: false, delete: false, approve: false },
-        documents: { create: true, read: true, update: false, delete: false, approve: false },
-        reports: { create: false, read: true, update: false, delete: false, approve: false },
-        settings: { create: false, read: false, update: false, delete: false, approve: false },
+    'monthly-reports': {
+        label: 'Monthly Reports',
+        actions: {
+            read: 'View generated monthly reports',
+            create: 'Generate and email monthly reports',
+            manage: 'Edit report distribution lists',
+        },
     },
-    EXTERNAL_OWNER: {
-        users: { create: false, read: false, update: false, delete: false, approve: false },
-        projects: { create: false, read: true, update: false, delete: false, approve: false },
-        finance: { create: false, read: false, update: false, delete: false, approve: false },
-        rcMeetings: { create: false, read: false, update: false, delete: false, approve: false },
-        documents: { create: true, read: true, update: false, delete: false, approve: false },
-        reports: { create: false, read: false, update: false, delete: false, approve: false },
-        settings: { create: false, read: false, update: false, delete: false, approve: false },
+    'timeline': { label: 'Visual Timeline', actions: { read: 'Open the timeline' } },
+    'archive': {
+        label: 'Project Archive',
+        actions: { read: 'Browse the archive', create: 'Archive projects', manage: 'Restore archived records' },
     },
-    DIRECTOR_GENERAL: {
-        // DG has read-only access for analytics and oversight
-        users: { create: false, read: true, update: false, delete: false, approve: false },
-        projects: { create: false, read: true, update: false, delete: false, approve: false },
-        finance: { create: false, read: true, update: false, delete: false, approve: false },
-        rcMeetings: { create: false, read: true, update: false, delete: false, approve: false },
-        documents: { create: false, read: true, update: false, delete: false, approve: false },
-        reports: { create: false, read: true, update: false, delete: false, approve: false },
-        settings: { create: false, read: false, update: false, delete: false, approve: false },
+    'users': {
+        label: 'User Management',
+        actions: { read: 'List users', create: 'Register users', update: 'Edit users, change their roles and reset passwords' },
     },
-    RC_MEMBER: {
-        // RC Members can read projects and participate in meetings
-        users: { create: false, read: true, update: false, delete: false, approve: false },
-        projects: { create: false, read: true, update: false, delete: false, approve: true },
-        finance: { create: false, read: true, update: false, delete: false, approve: false },
-        rcMeetings: { create: false, read: true, update: true, delete: false, approve: false },
-        documents: { create: false, read: true, update: false, delete: false, approve: false },
-        reports: { create: false, read: true, update: false, delete: false, approve: false },
-        settings: { create: false, read: false, update: false, delete: false, approve: false },
+    'bulk-import': {
+        label: 'Bulk Import',
+        actions: { read: 'Export projects', create: 'Import users and projects', manage: 'Export users' },
+    },
+    'audit-logs': { label: 'Audit Logs', actions: { read: 'View the audit trail' } },
+    'settings': {
+        label: 'System Settings',
+        actions: {
+            read: 'Open system settings',
+            manage: 'Change settings, approval rules, jobs, master data and permissions',
+        },
+    },
+    'profile': {
+        label: 'Profile',
+        actions: { read: 'View own profile', update: 'Edit own profile', manage: 'Set up two-factor sign-in' },
+    },
+} satisfies Record<string, ResourceDefinition>;
+
+export type PermissionResource = keyof typeof PERMISSION_RESOURCES;
+
+export type RoleGrants = Partial<Record<PermissionResource, PermissionAction[]>>;
+
+const ALL_ROLES = Object.values(UserRole);
+const OVERSIGHT: UserRole[] = ['ADMIN', 'DIRECTOR', 'DIRECTOR_GENERAL', 'SUPERVISOR'];
+const MANAGEMENT: UserRole[] = ['ADMIN', 'DIRECTOR', 'SUPERVISOR'];
+const PROJECT_LEADS: UserRole[] = [...MANAGEMENT, 'PROJECT_HEAD'];
+
+// Default grants, written as "who may" per resource action
+const DEFAULT_GRANTS: Record<PermissionResource, Partial<Record<PermissionAction, UserRole[]>>> = {
+    'dashboard': { read: ALL_ROLES },
+    'dg-dashboard': { read: ['ADMIN', 'DIRECTOR', 'DIRECTOR_GENERAL'] },
+    'projects': { read: ALL_ROLES, create: MANAGEMENT, update: PROJECT_LEADS, delete: ['ADMIN'], manage: OVERSIGHT },
+    'comments': { read: ALL_ROLES, create: [...PROJECT_LEADS, 'RC_MEMBER'], delete: PROJECT_LEADS },
+    'finance': { read: [...OVERSIGHT, 'PROJECT_HEAD'], create: PROJECT_LEADS, manage: MANAGEMENT },
+    'proposals': { update: ['ADMIN', 'SUPERVISOR'], approve: ['ADMIN', 'DIRECTOR'], manage: ['ADMIN', 'DIRECTOR'] },
+    'finance-overview': { read: ['ADMIN', 'DIRECTOR'] },
+    'staff': { read: [...OVERSIGHT, 'PROJECT_HEAD'] },
+    'rc-meetings': {
+        read: [...OVERSIGHT, 'PROJECT_HEAD', 'RC_MEMBER'],
+        create: MANAGEMENT,
+        update: MANAGEMENT,
+        approve: [...MANAGEMENT, 'RC_MEMBER'],
+        manage: MANAGEMENT,
     },
+    'documents': { read: ALL_ROLES, create: [...PROJECT_LEADS, 'EMPLOYEE'], delete: PROJECT_LEADS },
+    'reports': { read: ALL_ROLES.filter(r => r !== 'EMPLOYEE'), create: PROJECT_LEADS, approve: MANAGEMENT },
+    'monthly-reports': { read: OVERSIGHT, create: MANAGEMENT, manage: ['ADMIN'] },
+    'timeline': { read: ALL_ROLES },
+    'archive': { read: OVERSIGHT, create: MANAGEMENT, manage: ['ADMIN', 'DIRECTOR'] },
+    'users': { read: MANAGEMENT, create: ['ADMIN'], update: ['ADMIN'] },
+    'bulk-import': { read: MANAGEMENT, create: ['ADMIN', 'SUPERVISOR'], manage: ['ADMIN', 'SUPERVISOR'] },
+    'audit-logs': { read: ['ADMIN', 'DIRECTOR'] },
+    'settings': { read: ['ADMIN'], manage: ['ADMIN'] },
+    'profile': { read: ALL_ROLES, update: ALL_ROLES, manage: ['ADMIN', 'DIRECTOR'] },
 };
 
-export const hasPermission = (
-    role: UserRole,
-    resource: keyof RolePermissions,
-    action: keyof Permission
-): boolean => {
-    return rolePermissions[role]?.[resource]?.[action] || false;
+// Grants that cannot be revoked, so the matrix can always be edited again
+export const LOCKED_GRANTS: Partial<Record<UserRole, RoleGrants>> = {
+    ADMIN: { settings: ['read', 'manage'] },
 };
+
+export const defaultRolePermissions = (): Record<UserRole, RoleGrants> => {
+    const matrix = Object.fromEntries(ALL_ROLES.map(role => [role, {}])) as Record<UserRole, RoleGrants>;
+
+    for (const [resource, grants] of Object.entries(DEFAULT_GRANTS) as Array<[PermissionResource, Partial<Record<PermissionAction, UserRole[]>>]>) {
+        for (const action of PERMISSION_ACTIONS) {
+            for (const role of grants[action] ?? []) {
+                (matrix[role][resource] ??= []).push(action);
+            }
+        }
+    }
+
+    return matrix;
+};
+
+export const isPermissionResource = (value: string): value is PermissionResource =>
+    Object.prototype.hasOwnProperty.call(PERMISSION_RESOURCES, value);
+
+// True when the action is defined for the resource
+export const isResourceAction = (resource: PermissionResource, action: string): action is PermissionAction =>
+    action in PERMISSION_RESOURCES[resource].actions;
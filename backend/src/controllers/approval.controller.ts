@@ -0,0 +1,221 @@
+import { Response } from 'express';
+import { ApprovalType } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { approvalService, ApprovalError } from '../services/approval.service.js';
+import { z } from 'zod';
+
+const APPROVAL_TYPES = ['BUDGET_ALLOCATION', 'PROJECT_APPROVAL', 'REPORT_APPROVAL', 'EXPENSE_APPROVAL', 'MOU_APPROVAL', 'PURCHASE_INDENT', 'UTILIZATION_CERTIFICATE'] as const;
+const ROLES = ['ADMIN', 'DIRECTOR', 'DIRECTOR_GENERAL', 'SUPERVISOR', 'PROJECT_HEAD', 'EMPLOYEE', 'RC_MEMBER', 'EXTERNAL_OWNER'] as const;
+
+// Validation schemas
+const actSchema = z.object({
+    action: z.enum(['APPROVED', 'REJECTED', 'REVISION_REQUESTED']),
+    comments: z.string().optional(),
+    data: z.record(z.unknown()).optional(),
+});
+
+const rulesSchema = z.object({
+    rules: z.array(z.object({
+        name: z.string().min(1),
+        approverRole: z.enum(ROLES),
+        minAmount: z.number().min(0).nullable().optional(),
+        maxAmount: z.number().positive().nullable().optional(),
+        slaHours: z.number().int().positive().default(72),
+        escalateToRole: z.enum(ROLES).nullable().optional(),
+    })),
+});
+
+const delegationSchema = z.object({
+    toUserId: z.string().uuid(),
+    type: z.enum(APPROVAL_TYPES).nullable().optional(),
+    startDate: z.string(),
+    endDate: z.string(),
+    reason: z.string().optional(),
+});
+
+const handleApprovalError = (error: unknown, res: Response): boolean => {
+    if (error instanceof ApprovalError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// Get approvals awaiting the current user ("My Approvals")
+export const getInbox = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { type } = req.query;
+
+        const inbox = await approvalService.getInbox({ userId: req.user!.userId, role: req.user!.role });
+        res.json(type ? inbox.filter(w => w.type === type) : inbox);
+    } catch (error) {
+        console.error('Get approval inbox error:', error);
+        res.status(500).json({ error: 'Failed to fetch approvals' });
+    }
+};
+
+// Get approvals requested by the current user
+export const getMyRequests = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { status } = req.query;
+
+        const workflows = await approvalService.getRequested(req.user!.userId, status as string | undefined);
+        res.json(workflows);
+    } catch (error) {
+        console.error('Get approval requests error:', error);
+        res.status(500).json({ error: 'Failed to fetch approval requests' });
+    }
+};
+
+// Get a workflow with its steps
+export const getWorkflow = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const workflow = await approvalService.getWorkflow(req.params.id);
+
+        if (!workflow) {
+            res.status(404).json({ error: 'Approval not found' });
+            return;
+        }
+
+        res.json(workflow);
+    } catch (error) {
+        console.error('Get approval error:', error);
+        res.status(500).json({ error: 'Failed to fetch approval' });
+    }
+};
+
+// Get the approval history of an entity
+export const getEntityWorkflows = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { entityType, entityId } = req.params;
+
+        const workflows = await approvalService.getEntityWorkflows(entityType, entityId);
+        res.json(workflows);
+    } catch (error) {
+        console.error('Get entity approvals error:', error);
+        res.status(500).json({ error: 'Failed to fetch approvals' });
+    }
+};
+
+// Approve, reject or return the current step of a workflow
+export const actOnWorkflow = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const { action, comments, data } = actSchema.parse(req.body);
+
+        const workflow = await approvalService.act(
+            id,
+            { userId: req.user!.userId, role: req.user!.role },
+            action,
+            comments,
+            data
+        );
+
+        await createAuditLog(
+            req.user?.userId,
+            action === 'APPROVED' ? 'APPROVE' : action === 'REJECTED' ? 'REJECT' : 'RETURN',
+            workflow.entityType,
+            workflow.entityId,
+            undefined,
+            { workflowId: workflow.id, step: workflow.currentStep, status: workflow.status, comments },
+            req
+        );
+
+        res.json(workflow);
+    } catch (error) {
+        if (handleApprovalError(error, res)) return;
+        console.error('Act on approval error:', error);
+        res.status(500).json({ error: 'Failed to process approval' });
+    }
+};
+
+// ============================================
+// RULES (ADMIN)
+// ============================================
+
+export const getRules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const rules = await Promise.all(APPROVAL_TYPES.map(type => approvalService.getRules(type)));
+        res.json(rules);
+    } catch (error) {
+        console.error('Get approval rules error:', error);
+        res.status(500).json({ error: 'Failed to fetch approval rules' });
+    }
+};
+
+export const setRules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const type = z.enum(APPROVAL_TYPES).parse(req.params.type) as ApprovalType;
+        const { rules } = rulesSchema.parse(req.body);
+
+        const before = await approvalService.getRules(type);
+        // Step order follows the order of the submitted list
+        const result = await approvalService.setRules(type, rules.map((rule, index) => ({ ...rule, stepOrder: index + 1 })));
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'ApprovalRule', type, { rules: before.rules }, { rules: result.rules }, req);
+
+        res.json(result);
+    } catch (error) {
+        if (handleApprovalError(error, res)) return;
+        console.error('Set approval rules error:', error);
+        res.status(500).json({ error: 'Failed to update approval rules' });
+    }
+};
+
+// ============================================
+// DELEGATION
+// ============================================
+
+export const getDelegations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const delegations = await approvalService.getDelegations(req.user!.userId);
+        res.json(delegations);
+    } catch (error) {
+        console.error('Get delegations error:', error);
+        res.status(500).json({ error: 'Failed to fetch delegations' });
+    }
+};
+
+export const createDelegation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = delegationSchema.parse(req.body);
+
+        const delegation = await approvalService.createDelegation(req.user!.userId, {
+            toUserId: data.toUserId,
+            type: data.type ?? null,
+            startDate: new Date(data.startDate),
+            endDate: new Date(data.endDate),
+            reason: data.reason,
+        });
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'ApprovalDelegation', delegation.id, undefined, data, req);
+
+        res.status(201).json(delegation);
+    } catch (error) {
+        if (handleApprovalError(error, res)) return;
+        console.error('Create delegation error:', error);
+        res.status(500).json({ error: 'Failed to create delegation' });
+    }
+};
+
+export const revokeDelegation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const delegation = await approvalService.revokeDelegation(req.params.id, {
+            userId: req.user!.userId,
+            role: req.user!.role,
+        });
+
+        await createAuditLog(req.user?.userId, 'DELETE', 'ApprovalDelegation', delegation.id, { isActive: true }, { isActive: false }, req);
+
+        res.json({ message: 'Delegation revoked' });
+    } catch (error) {
+        if (handleApprovalError(error, res)) return;
+        console.error('Revoke delegation error:', error);
+        res.status(500).json({ error: 'Failed to revoke delegation' });
+    }
+};
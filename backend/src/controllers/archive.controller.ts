@@ -0,0 +1,161 @@
+import { Response } from 'express';
+import prisma from '../config/database.js';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { archiveService, ArchiveError, ArchiveType } from '../services/archive.service.js';
+import { buildProjectWhere } from './project.controller.js';
+import { z } from 'zod';
+
+const ARCHIVE_TYPES = ['projects', 'reports', 'documents', 'budgets', 'minutes'] as const;
+
+// Roles that see every project (no role-based narrowing in buildProjectWhere)
+const fullAccessRoles = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'];
+
+// Validation schemas
+const restoreSchema = z.object({
+    reason: z.string().min(5),
+});
+
+const archiveProjectSchema = z.object({
+    reason: z.string().optional(),
+});
+
+const handleArchiveError = (error: unknown, res: Response): boolean => {
+    if (error instanceof ArchiveError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+const searchArchive = async (req: AuthenticatedRequest, res: Response, type: ArchiveType): Promise<void> => {
+    const { year, category, verticalId, vertical, search, page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+
+    const projectWhere = buildProjectWhere(req.user, { category, verticalId, vertical });
+    const projectScoped = !fullAccessRoles.includes(req.user?.role || '')
+        || [category, verticalId, vertical].some(v => v && v !== 'ALL');
+
+    const result = await archiveService.search(
+        { type, year, search, projectScoped, page: parseInt(page, 10), limit: parseInt(limit, 10) },
+        projectWhere
+    );
+
+    res.json(result);
+};
+
+// Search archived records by year, category and vertical
+export const getArchive = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const type = z.enum(ARCHIVE_TYPES).parse(req.query.type ?? 'projects');
+        await searchArchive(req, res, type);
+    } catch (error) {
+        if (handleArchiveError(error, res)) return;
+        console.error('Search archive error:', error);
+        res.status(500).json({ error: 'Failed to search archive' });
+    }
+};
+
+// Archived project reports
+export const getArchivedReports = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        await searchArchive(req, res, 'reports');
+    } catch (error) {
+        console.error('Get archived reports error:', error);
+        res.status(500).json({ error: 'Failed to fetch archived reports' });
+    }
+};
+
+// Closed (archived) projects
+export const getArchivedProjects = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        await searchArchive(req, res, 'projects');
+    } catch (error) {
+        console.error('Get archived projects error:', error);
+        res.status(500).json({ error: 'Failed to fetch archived projects' });
+    }
+};
+
+// List archival events (project closures and fiscal year closes)
+export const getArchiveRecords = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { scope, projectId, includeRestored } = req.query;
+
+        const records = await archiveService.getRecords({
+            scope: scope === 'PROJECT' || scope === 'FISCAL_YEAR' ? scope : undefined,
+            projectId: projectId as string | undefined,
+            includeRestored: includeRestored === 'true',
+        });
+
+        res.json(records);
+    } catch (error) {
+        console.error('Get archive records error:', error);
+        res.status(500).json({ error: 'Failed to fetch archive records' });
+    }
+};
+
+// Archive a closed project by hand (projects closed before archiving existed)
+export const archiveProject = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { projectId } = req.params;
+        const { reason } = archiveProjectSchema.parse(req.body);
+
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            select: { id: true, code: true, status: true },
+        });
+
+        if (!project) {
+            res.status(404).json({ error: 'Project not found' });
+            return;
+        }
+
+        if (project.status !== 'COMPLETED' && project.status !== 'CANCELLED') {
+            res.status(400).json({ error: 'Only completed or cancelled projects can be archived' });
+            return;
+        }
+
+        const record = await archiveService.archiveProject(project.id, req.user!.userId, reason || project.status);
+
+        await createAuditLog(req.user?.userId, 'ARCHIVE', 'Project', project.id, undefined, {
+            archiveId: record.id,
+            projectCode: project.code,
+            summary: record.summary,
+        }, req);
+
+        res.status(201).json(record);
+    } catch (error) {
+        if (handleArchiveError(error, res)) return;
+        console.error('Archive project error:', error);
+        res.status(500).json({ error: 'Failed to archive project' });
+    }
+};
+
+// Restore (unarchive) a project or fiscal year, making its records editable again
+export const restoreArchive = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const { reason } = restoreSchema.parse(req.body);
+
+        const record = await archiveService.restore(id, req.user!.userId, reason);
+
+        await createAuditLog(
+            req.user?.userId,
+            'RESTORE',
+            record.scope === 'PROJECT' ? 'Project' : 'FiscalYear',
+            record.projectId ?? record.fiscalYear ?? record.id,
+            { archiveId: record.id, archivedAt: record.archivedAt, summary: record.summary },
+            { restoredAt: record.restoredAt, reason },
+            req
+        );
+
+        res.json(record);
+    } catch (error) {
+        if (handleArchiveError(error, res)) return;
+        console.error('Restore archive error:', error);
+        res.status(500).json({ error: 'Failed to restore archive' });
+    }
+};
@@ -0,0 +1,98 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { baselineService, BaselineError } from '../services/baseline.service.js';
+
+// Validation schemas
+const captureBaselineSchema = z.object({
+    name: z.string().trim().min(2).max(100),
+    description: z.string().optional(),
+    isPrimary: z.boolean().optional(),
+});
+
+const updateBaselineSchema = z.object({
+    isPrimary: z.literal(true),
+});
+
+const handleBaselineError = (error: unknown, res: Response): boolean => {
+    if (error instanceof BaselineError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// List the baselines captured for a project
+export const getBaselines = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const baselines = await baselineService.list(req.params.id);
+        res.json(baselines);
+    } catch (error) {
+        console.error('Get baselines error:', error);
+        res.status(500).json({ error: 'Failed to fetch baselines' });
+    }
+};
+
+// Snapshot the current milestone dates and budget as a named baseline
+export const captureBaseline = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = captureBaselineSchema.parse(req.body);
+        const baseline = await baselineService.capture(req.params.id, data, req.user!.userId);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'ProjectBaseline', baseline.id, undefined, baseline, req);
+
+        res.status(201).json(baseline);
+    } catch (error) {
+        if (handleBaselineError(error, res)) return;
+        console.error('Capture baseline error:', error);
+        res.status(500).json({ error: 'Failed to capture baseline' });
+    }
+};
+
+// Make a baseline the project's primary one
+export const updateBaseline = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        updateBaselineSchema.parse(req.body);
+        const baseline = await baselineService.setPrimary(req.params.id, req.params.baselineId);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'ProjectBaseline', baseline.id, undefined, { isPrimary: true }, req);
+
+        res.json(baseline);
+    } catch (error) {
+        if (handleBaselineError(error, res)) return;
+        console.error('Update baseline error:', error);
+        res.status(500).json({ error: 'Failed to update baseline' });
+    }
+};
+
+export const deleteBaseline = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const baseline = await baselineService.remove(req.params.id, req.params.baselineId);
+
+        await createAuditLog(req.user?.userId, 'DELETE', 'ProjectBaseline', baseline.id, baseline, undefined, req);
+
+        res.json({ message: 'Baseline deleted successfully' });
+    } catch (error) {
+        if (handleBaselineError(error, res)) return;
+        console.error('Delete baseline error:', error);
+        res.status(500).json({ error: 'Failed to delete baseline' });
+    }
+};
+
+// Schedule and cost variance against ?baselineId, or the primary baseline
+export const getVariance = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const baselineId = typeof req.query.baselineId === 'string' ? req.query.baselineId : undefined;
+        const variance = await baselineService.variance(req.params.id, baselineId);
+        res.json(variance);
+    } catch (error) {
+        if (handleBaselineError(error, res)) return;
+        console.error('Get variance error:', error);
+        res.status(500).json({ error: 'Failed to compute variance' });
+    }
+};
@@ -6,16 +6,13 @@ import prisma from '../config/database.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { createAuditLog } from '../middleware/audit.middleware.js';
 import { z } from 'zod';
-import nodemailer from 'nodemailer';
-
-// Email transporter
-const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-        user: process.env.SMTP_USER || 'ictserc@gmail.com',
-        pass: process.env.SMTP_PASS || 'yyhoakynckydyybm'
-    }
-});
+import { approvalService, ApprovalContext, ApprovalError } from '../services/approval.service.js';
+import { archiveService, ArchiveError } from '../services/archive.service.js';
+import { ledgerService, LedgerError } from '../services/ledger.service.js';
+import { notificationService } from '../services/notification.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+import { yearEndService, YearEndError } from '../services/year-end.service.js';
+import { ProjectCategory } from '@prisma/client';
 
 // Validation schemas
 const budgetRequestSchema = z.object({
@@ -40,19 +37,16 @@ const budgetAllocationSchema = z.object({
     fiscalYear: z.string().regex(/^\d{4}-\d{2}$/, 'Fiscal year must be in format YYYY-YY (e.g., 2024-25)')
 });
 
-// Permission checks
-const canManageBudget = (role: string): boolean => {
-    return ['ADMIN', 'SUPERVISOR'].includes(role);
-};
+const yearEndSchema = z.object({
+    fiscalYear: z.string().regex(/^\d{4}-\d{2}$/, 'Fiscal year must be in format YYYY-YY (e.g., 2024-25)'),
+    carryForwardPercent: z.coerce.number().min(0).max(100).default(100)
+});
 
-const canRequestBudget = async (userId: string, projectId: string): Promise<boolean> => {
-    const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: { staff: { where: { userId, isActive: true } } }
-    });
-    if (!project) return false;
-    return project.projectHeadId === userId || project.staff.length > 0;
-};
+const carryForwardRuleSchema = z.object({
+    projectId: z.string().uuid().nullish(),
+    category: z.nativeEnum(ProjectCategory).nullish(),
+    carryForwardPercent: z.number().min(0).max(100)
+});
 
 // Get current fiscal year
 const getCurrentFiscalYear = (): string => {
@@ -66,19 +60,122 @@ const getCurrentFiscalYear = (): string => {
     return `${year - 1}-${year.toString().slice(2)}`;
 };
 
+// Applies the outcome of a budget request's approval workflow
+const decideBudgetRequest = async (requestId: string, ctx: ApprovalContext, approved: boolean): Promise<void> => {
+    const request = await prisma.budgetRequest.findUnique({
+        where: { id: requestId },
+        include: {
+            project: { select: { code: true, title: true } },
+            requestedBy: { select: { firstName: true, lastName: true, email: true } }
+        }
+    });
+    if (!request) return;
+
+    // A lower amount may be approved; anything else falls back to the requested amount
+    const requestedPartial = ctx.data.approvedAmount;
+    const approvedAmount = approved
+        ? (typeof requestedPartial === 'number' && requestedPartial > 0 && requestedPartial < request.amount ? requestedPartial : request.amount)
+        : null;
+    const label = !approved ? 'REJECTED' : approvedAmount! < request.amount ? 'PARTIALLY APPROVED' : 'APPROVED';
+
+    // Decision, budget row and ledger allocation commit together
+    await prisma.$transaction(async (tx) => {
+        await tx.budgetRequest.update({
+            where: { id: requestId },
+            data: {
+                status: approved ? 'APPROVED' : 'REJECTED',
+                approvedById: ctx.actorId,
+                approvedAmount,
+                approvedAt: new Date(),
+                comments: ctx.comments
+            }
+        });
+
+        if (!approved || !approvedAmount) return;
+
+        // Approval adds to the current year's budget for the category
+        const fiscalYear = getCurrentFiscalYear();
+        const existingBudget = await tx.budget.findFirst({
+            where: {
+                projectId: request.projectId,
+                category: request.category,
+                fiscalYear
+            }
+        });
+
+        if (existingBudget) {
+            await tx.budget.update({
+                where: { id: existingBudget.id },
+                data: { amountINR: { increment: approvedAmount } }
+            });
+        } else {
+            await tx.budget.create({
+                data: {
+                    projectId: request.projectId,
+                    category: request.category,
+                    fiscalYear,
+                    amountINR: approvedAmount
+                }
+            });
+        }
+
+        await ledgerService.allocate(tx, { projectId: request.projectId, fiscalYear, category: request.category }, approvedAmount, {
+            description: `Budget request approved for ${request.category}`,
+            sourceType: 'BudgetRequest',
+            sourceId: requestId,
+            createdById: ctx.actorId
+        });
+    });
+
+    void realtimeService.projectUpdated({
+        projectId: request.projectId, entity: 'budget', action: approved ? 'approved' : 'rejected', entityId: requestId, actorId: ctx.actorId,
+    });
+
+    // Notify requester
+    await notificationService.createNotification({
+        userId: request.requestedById,
+        type: 'BUDGET_REQUEST',
+        title: `Budget Request ${label}`,
+        message: `Your budget request for ${request.project.code} has been ${label.toLowerCase()}.${ctx.comments ? ' Comments: ' + ctx.comments : ''}`,
+        link: `/projects/${request.projectId}`,
+        sendEmail: true,
+        emailBody: `
+            <p>Your budget request has been processed:</p>
+            <table style="border-collapse: collapse; margin: 16px 0;">
+                <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Project:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">${request.project.code}</td></tr>
+                <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Category:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">${request.category}</td></tr>
+                <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Requested:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">₹${request.amount.toLocaleString('en-IN')}</td></tr>
+                <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Status:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">${label}</td></tr>
+                ${approvedAmount ? `<tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Approved Amount:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">₹${approvedAmount.toLocaleString('en-IN')}</td></tr>` : ''}
+            </table>
+            ${ctx.comments ? `<p><strong>Comments:</strong> ${ctx.comments}</p>` : ''}
+        `,
+    });
+};
+
+approvalService.registerHandler('BUDGET_ALLOCATION', {
+    onApproved: (ctx) => decideBudgetRequest(ctx.workflow.entityId, ctx, true),
+    onRejected: (ctx) => decideBudgetRequest(ctx.workflow.entityId, ctx, false),
+});
+
+const startBudgetWorkflow = (request: { id: string; projectId: string; requestedById: string; amount: number; category: string }, projectCode: string) =>
+    approvalService.start({
+        type: 'BUDGET_ALLOCATION',
+        entityType: 'BudgetRequest',
+        entityId: request.id,
+        requesterId: request.requestedById,
+        title: `Budget request of ₹${request.amount.toLocaleString('en-IN')} for ${request.category} in project ${projectCode}`,
+        link: `/projects/${request.projectId}`,
+        amount: request.amount
+    });
+
 export const budgetController = {
-    // Request budget (project members)
+    // Request budget (PI, Co-PIs and members; checked on the route)
     async requestBudget(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
             const { projectId } = req.params;
             const userId = req.user!.userId;
 
-            const canRequest = await canRequestBudget(userId, projectId);
-            if (!canRequest) {
-                res.status(403).json({ error: 'You are not authorized to request budget for this project' });
-                return;
-            }
-
             const validation = budgetRequestSchema.safeParse(req.body);
             if (!validation.success) {
                 res.status(400).json({ error: validation.error.errors });
@@ -97,6 +194,8 @@ export const budgetController = {
                 return;
             }
 
+            await archiveService.assertProjectWritable(projectId);
+
             const request = await prisma.budgetRequest.create({
                 data: {
                     projectId,
@@ -108,23 +207,12 @@ export const budgetController = {
                 }
             });
 
-            // Notify BKMD Head
-            const supervisors = await prisma.user.findMany({
-                where: { role: 'SUPERVISOR', isActive: true }
-            });
+            // Route through the approval workflow (notifies the first approvers)
+            await startBudgetWorkflow(request, project.code);
 
-            for (const supervisor of supervisors) {
-                await prisma.notification.create({
-                    data: {
-                        userId: supervisor.id,
-                        type: 'BUDGET_REQUEST',
-                        title: 'Budget Request - Approval Required',
-                        message: `Budget request of ₹${amount.toLocaleString('en-IN')} for ${category} in project ${project.code}`,
-                        link: `/finance/requests/${request.id}`,
-                        isRead: false
-                    }
-                });
-            }
+            void realtimeService.projectUpdated({
+                projectId, entity: 'budget', action: 'submitted', entityId: request.id, actorId: userId,
+            });
 
             await createAuditLog(userId, 'CREATE', 'BudgetRequest', request.id, undefined, {
                 projectCode: project.code,
@@ -134,19 +222,18 @@ export const budgetController = {
 
             res.status(201).json(request);
         } catch (error) {
+            if (error instanceof ApprovalError || error instanceof ArchiveError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Budget request error:', error);
             res.status(500).json({ error: 'Failed to submit budget request' });
         }
     },
 
-    // Approve/Reject budget request (BKMD Head)
+    // Approve/Reject the current approval step of a budget request
     async approveBudgetRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageBudget(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const { requestId } = req.params;
             const { action, approvedAmount, comments } = req.body;
 
@@ -157,10 +244,7 @@ export const budgetController = {
 
             const request = await prisma.budgetRequest.findUnique({
                 where: { id: requestId },
-                include: {
-                    project: { select: { code: true, title: true } },
-                    requestedBy: { select: { firstName: true, lastName: true, email: true } }
-                }
+                include: { project: { select: { code: true } } }
             });
 
             if (!request) {
@@ -168,82 +252,41 @@ export const budgetController = {
                 return;
             }
 
-            const updatedRequest = await prisma.budgetRequest.update({
-                where: { id: requestId },
-                data: {
-                    status: action,
-                    approvedById: req.user!.userId,
-                    approvedAmount: action === 'PARTIALLY_APPROVED' ? approvedAmount : (action === 'APPROVED' ? request.amount : null),
-                    approvedAt: new Date(),
-                    comments
-                }
-            });
+            if (request.status !== 'PENDING') {
+                res.status(400).json({ error: 'Request has already been processed' });
+                return;
+            }
 
-            // If approved, update budget allocation
-            if (action === 'APPROVED' || action === 'PARTIALLY_APPROVED') {
-                const finalAmount = action === 'PARTIALLY_APPROVED' ? approvedAmount : request.amount;
-                const fiscalYear = getCurrentFiscalYear();
+            // Approval adds to the current year's budget, which must still be open
+            await archiveService.assertBudgetWritable(request.projectId, getCurrentFiscalYear());
 
-                // Update or create budget entry
-                const existingBudget = await prisma.budget.findFirst({
-                    where: {
-                        projectId: request.projectId,
-                        category: request.category,
-                        fiscalYear
-                    }
-                });
-
-                if (existingBudget) {
-                    await prisma.budget.update({
-                        where: { id: existingBudget.id },
-                        data: { amountINR: existingBudget.amountINR + finalAmount }
-                    });
-                } else {
-                    await prisma.budget.create({
-                        data: {
-                            projectId: request.projectId,
-                            category: request.category,
-                            fiscalYear,
-                            amountINR: finalAmount
-                        }
-                    });
-                }
+            if (action === 'PARTIALLY_APPROVED' && !(typeof approvedAmount === 'number' && approvedAmount > 0 && approvedAmount < request.amount)) {
+                res.status(400).json({ error: 'Approved amount must be positive and less than the requested amount' });
+                return;
             }
 
-            // Notify requester
-            await prisma.notification.create({
-                data: {
-                    userId: request.requestedById,
-                    type: 'BUDGET_REQUEST',
-                    title: `Budget Request ${action}`,
-                    message: `Your budget request for ${request.project.code} has been ${action.toLowerCase()}.${comments ? ' Comments: ' + comments : ''}`,
-                    link: `/projects/${request.projectId}`,
-                    isRead: false
-                }
-            });
+            // Requests raised before the approval workflow existed get one on first action
+            const workflow = await approvalService.getActiveWorkflow('BudgetRequest', requestId)
+                ?? await startBudgetWorkflow(request, request.project.code);
 
-            // Send email
-            await transporter.sendMail({
-                from: '"CSIR-SERC PMS" <ictserc@gmail.com>',
-                to: request.requestedBy.email,
-                subject: `Budget Request ${action}: ${request.project.code}`,
-                html: `
-                    <h2>Budget Request ${action}</h2>
-                    <p>Dear ${request.requestedBy.firstName},</p>
-                    <p>Your budget request has been processed:</p>
-                    <table style="border-collapse: collapse; margin: 16px 0;">
-                        <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Project:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">${request.project.code}</td></tr>
-                        <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Category:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">${request.category}</td></tr>
-                        <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Requested:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">₹${request.amount.toLocaleString('en-IN')}</td></tr>
-                        <tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Status:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">${action}</td></tr>
-                        ${approvedAmount ? `<tr><td style="padding: 8px; border: 1px solid #ddd;"><strong>Approved Amount:</strong></td><td style="padding: 8px; border: 1px solid #ddd;">₹${approvedAmount.toLocaleString('en-IN')}</td></tr>` : ''}
-                    </table>
-                    ${comments ? `<p><strong>Comments:</strong> ${comments}</p>` : ''}
-                `
-            }).catch((err: Error) => console.error('Email error:', err));
+            await approvalService.act(
+                workflow.id,
+                { userId: req.user!.userId, role: req.user!.role },
+                action === 'REJECTED' ? 'REJECTED' : 'APPROVED',
+                comments,
+                action === 'PARTIALLY_APPROVED' ? { approvedAmount } : {}
+            );
 
+            await createAuditLog(req.user?.userId, action === 'REJECTED' ? 'REJECT' : 'APPROVE', 'BudgetRequest', requestId,
+                { status: request.status }, { action, approvedAmount, comments }, req);
+
+            const updatedRequest = await prisma.budgetRequest.findUnique({ where: { id: requestId } });
             res.json(updatedRequest);
         } catch (error) {
+            if (error instanceof ApprovalError || error instanceof ArchiveError || error instanceof LedgerError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Approve budget error:', error);
             res.status(500).json({ error: 'Failed to process budget request' });
         }
@@ -252,11 +295,6 @@ export const budgetController = {
     // Transfer budget between projects/categories
     async transferBudget(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageBudget(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const validation = budgetTransferSchema.safeParse(req.body);
             if (!validation.success) {
                 res.status(400).json({ error: validation.error.errors });
@@ -276,51 +314,76 @@ export const budgetController = {
                 return;
             }
 
-            // Create transfer record
-            const transfer = await prisma.budgetTransfer.create({
-                data: {
-                    fromProjectId,
-                    toProjectId,
-                    fromCategory: fromCategory as any,
-                    toCategory: toCategory as any,
-                    amount,
-                    amountINR: amount, // Assuming INR
-                    reason,
-                    transferredById: req.user!.userId,
-                    fiscalYear
-                }
-            });
-
-            // Update source budget (decrease)
-            if (fromProjectId && fromCategory) {
-                await prisma.budget.updateMany({
-                    where: { projectId: fromProjectId, category: fromCategory, fiscalYear },
-                    data: { amountINR: { decrement: amount } }
-                });
-            }
+            await archiveService.assertBudgetWritable(fromProjectId, fiscalYear);
+            await archiveService.assertBudgetWritable(toProjectId, fiscalYear);
 
-            // Update destination budget (increase)
-            if (toProjectId && toCategory) {
-                const existingBudget = await prisma.budget.findFirst({
-                    where: { projectId: toProjectId, category: toCategory, fiscalYear }
+            // Transfer record, both budget rows and the ledger posting commit together
+            const transfer = await prisma.$transaction(async (tx) => {
+                const created = await tx.budgetTransfer.create({
+                    data: {
+                        fromProjectId,
+                        toProjectId,
+                        fromCategory: fromCategory as any,
+                        toCategory: toCategory as any,
+                        amount,
+                        amountINR: amount, // Assuming INR
+                        reason,
+                        transferredById: req.user!.userId,
+                        fiscalYear
+                    }
                 });
 
-                if (existingBudget) {
-                    await prisma.budget.update({
-                        where: { id: existingBudget.id },
-                        data: { amountINR: { increment: amount } }
+                // Update source budget (decrease); only what is uncommitted and unspent can move
+                if (fromProjectId && fromCategory) {
+                    const source = await tx.budget.findFirst({
+                        where: { projectId: fromProjectId, category: fromCategory, fiscalYear }
                     });
-                } else {
-                    await prisma.budget.create({
-                        data: {
-                            projectId: toProjectId,
-                            category: toCategory,
-                            fiscalYear,
-                            amountINR: amount
-                        }
+                    if (!source) {
+                        throw new LedgerError(`The source project has no ${fromCategory} budget for ${fiscalYear}`, 404);
+                    }
+                    const available = await ledgerService.available(tx, { projectId: fromProjectId, category: fromCategory, fiscalYear });
+                    if (amount > available + 0.01) {
+                        throw new LedgerError(`Only ₹${Math.max(available, 0).toLocaleString('en-IN')} of the source ${fromCategory} budget is available to transfer`, 409);
+                    }
+                    await tx.budget.update({
+                        where: { id: source.id },
+                        data: { amountINR: { decrement: amount } }
                     });
                 }
-            }
+
+                // Update destination budget (increase)
+                if (toProjectId && toCategory) {
+                    const existingBudget = await tx.budget.findFirst({
+                        where: { projectId: toProjectId, category: toCategory, fiscalYear }
+                    });
+
+                    if (existingBudget) {
+                        await tx.budget.update({
+                            where: { id: existingBudget.id },
+                            data: { amountINR: { increment: amount } }
+                        });
+                    } else {
+                        await tx.budget.create({
+                            data: {
+                                projectId: toProjectId,
+                                category: toCategory,
+                                fiscalYear,
+                                amountINR: amount
+                            }
+                        });
+                    }
+                }
+
+                await ledgerService.transfer(
+                    tx,
+                    { projectId: fromProjectId, category: fromCategory },
+                    { projectId: toProjectId, category: toCategory },
+                    fiscalYear,
+                    amount,
+                    { description: reason, sourceType: 'BudgetTransfer', sourceId: created.id, createdById: req.user!.userId }
+                );
+                return created;
+            });
 
             await createAuditLog(req.user?.userId, 'TRANSFER', 'Budget', transfer.id, undefined, {
                 fromProjectId,
@@ -333,6 +396,10 @@ export const budgetController = {
 
             res.status(201).json(transfer);
         } catch (error) {
+            if (error instanceof ArchiveError || error instanceof LedgerError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Budget transfer error:', error);
             res.status(500).json({ error: 'Failed to transfer budget' });
         }
@@ -341,11 +408,6 @@ export const budgetController = {
     // Allocate budget to project
     async allocateBudget(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageBudget(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const validation = budgetAllocationSchema.safeParse(req.body);
             if (!validation.success) {
                 res.status(400).json({ error: validation.error.errors });
@@ -354,32 +416,44 @@ export const budgetController = {
 
             const { projectId, category, amount, fiscalYear } = validation.data;
 
-            // Check if budget already exists
-            const existing = await prisma.budget.findFirst({
-                where: { projectId, category, fiscalYear }
-            });
+            await archiveService.assertBudgetWritable(projectId, fiscalYear);
 
-            let budget;
-            if (existing) {
-                budget = await prisma.budget.update({
-                    where: { id: existing.id },
-                    data: { amountINR: existing.amountINR + amount }
+            const budget = await prisma.$transaction(async (tx) => {
+                const existing = await tx.budget.findFirst({
+                    where: { projectId, category, fiscalYear }
                 });
-            } else {
-                budget = await prisma.budget.create({
-                    data: {
-                        projectId,
-                        category,
-                        fiscalYear,
-                        amountINR: amount
-                    }
+
+                const saved = existing
+                    ? await tx.budget.update({
+                        where: { id: existing.id },
+                        data: { amountINR: { increment: amount } }
+                    })
+                    : await tx.budget.create({
+                        data: {
+                            projectId,
+                            category,
+                            fiscalYear,
+                            amountINR: amount
+                        }
+                    });
+
+                await ledgerService.allocate(tx, { projectId, fiscalYear, category }, amount, {
+                    description: `Budget allocated for ${category}`,
+                    sourceType: 'Budget',
+                    sourceId: saved.id,
+                    createdById: req.user!.userId
                 });
-            }
+                return saved;
+            });
 
             await createAuditLog(req.user?.userId, 'ALLOCATE', 'Budget', budget.id, undefined, { projectId, category, amount, fiscalYear }, req);
 
             res.status(201).json(budget);
         } catch (error) {
+            if (error instanceof ArchiveError || error instanceof LedgerError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Allocate budget error:', error);
             res.status(500).json({ error: 'Failed to allocate budget' });
         }
@@ -388,11 +462,6 @@ export const budgetController = {
     // Get all pending budget requests
     async getPendingRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageBudget(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const requests = await prisma.budgetRequest.findMany({
                 where: { status: 'PENDING' },
                 include: {
@@ -450,54 +519,128 @@ export const budgetController = {
         }
     },
 
-    // Archive budgets and carry forward
-    async archiveYearEnd(req: AuthenticatedRequest, res: Response): Promise<void> {
+    // Preview the year-end close: what each head would carry forward and return
+    async previewYearEnd(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageBudget(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
+            const validation = yearEndSchema.safeParse(req.query);
+            if (!validation.success) {
+                res.status(400).json({ error: validation.error.errors });
                 return;
             }
 
-            const { fiscalYear, carryForwardPercent = 100 } = req.body;
-
-            const budgets = await prisma.budget.findMany({
-                where: { fiscalYear }
-            });
+            const { fiscalYear, carryForwardPercent } = validation.data;
+            const [plan, archive] = await Promise.all([
+                yearEndService.plan(fiscalYear, carryForwardPercent),
+                archiveService.getActiveYearArchive(fiscalYear)
+            ]);
 
-            const archives = [];
-            for (const budget of budgets) {
-                const remaining = budget.amountINR - budget.utilized;
-                const carryForward = (remaining * carryForwardPercent) / 100;
+            res.json({ ...plan, closed: !!archive });
+        } catch (error) {
+            if (error instanceof YearEndError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
+            console.error('Year-end preview error:', error);
+            res.status(500).json({ error: 'Failed to preview the year-end close' });
+        }
+    },
 
-                const archive = await prisma.budgetArchive.create({
-                    data: {
-                        projectId: budget.projectId,
-                        fiscalYear,
-                        category: budget.category as any,
-                        allocatedAmount: budget.amountINR,
-                        utilizedAmount: budget.utilized,
-                        carriedForward: carryForward,
-                        returnedToCSIR: remaining - carryForward
-                    }
-                });
-                archives.push(archive);
+    // Close the fiscal year: carry forward per the rules, then archive it
+    async archiveYearEnd(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const validation = yearEndSchema.safeParse(req.body);
+            if (!validation.success) {
+                res.status(400).json({ error: validation.error.errors });
+                return;
             }
 
+            const { fiscalYear, carryForwardPercent } = validation.data;
+            const { plan, archive } = await yearEndService.close(fiscalYear, carryForwardPercent, req.user!.userId);
+
             await createAuditLog(req.user?.userId, 'ARCHIVE', 'Budget', fiscalYear, undefined, {
-                budgetCount: archives.length,
-                carryForwardPercent
+                budgetCount: plan.lines.length,
+                carryForwardPercent,
+                totals: plan.totals,
+                commitmentsMoved: plan.commitments.length,
+                archiveId: archive.id,
+                frozen: archive.summary
             }, req);
 
             res.json({
-                message: `Archived ${archives.length} budget entries for ${fiscalYear}`,
-                archives
+                message: `Closed ${fiscalYear}: ${plan.lines.length} budget heads, ${plan.commitments.length} indents and orders moved to ${plan.nextFiscalYear}`,
+                plan,
+                archive
             });
         } catch (error) {
+            if (error instanceof YearEndError || error instanceof ArchiveError || error instanceof LedgerError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Archive error:', error);
             res.status(500).json({ error: 'Failed to archive budgets' });
         }
     },
 
+    // A project's budget by fiscal year and head, with carry-forwards
+    async getPhasing(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            res.json(await yearEndService.phasing(req.params.projectId));
+        } catch (error) {
+            console.error('Get phasing error:', error);
+            res.status(500).json({ error: 'Failed to fetch budget phasing' });
+        }
+    },
+
+    async getCarryForwardRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            res.json(await yearEndService.listRules());
+        } catch (error) {
+            console.error('Get carry-forward rules error:', error);
+            res.status(500).json({ error: 'Failed to fetch carry-forward rules' });
+        }
+    },
+
+    // Set the carry-forward percentage of one project or one project category
+    async saveCarryForwardRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const validation = carryForwardRuleSchema.safeParse(req.body);
+            if (!validation.success) {
+                res.status(400).json({ error: validation.error.errors });
+                return;
+            }
+
+            const rule = await yearEndService.saveRule(validation.data);
+
+            await createAuditLog(req.user?.userId, 'UPDATE', 'CarryForwardRule', rule.id, undefined, rule, req);
+
+            res.json(rule);
+        } catch (error) {
+            if (error instanceof YearEndError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
+            console.error('Save carry-forward rule error:', error);
+            res.status(500).json({ error: 'Failed to save carry-forward rule' });
+        }
+    },
+
+    async deleteCarryForwardRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const rule = await yearEndService.deleteRule(req.params.ruleId);
+
+            await createAuditLog(req.user?.userId, 'DELETE', 'CarryForwardRule', rule.id, rule, undefined, req);
+
+            res.json({ message: 'Carry-forward rule removed' });
+        } catch (error) {
+            if (error instanceof YearEndError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
+            console.error('Delete carry-forward rule error:', error);
+            res.status(500).json({ error: 'Failed to remove carry-forward rule' });
+        }
+    },
+
     // Get budget transfers history
     async getTransfers(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
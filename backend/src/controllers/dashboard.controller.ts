@@ -2,6 +2,33 @@ import { Response } from 'express';
 import prisma from '../config/database.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { currencyService } from '../services/currency.service.js';
+import { evmService } from '../services/evm.service.js';
+import { Prisma, ProjectCategory, ProjectStatus, RiskStatus } from '@prisma/client';
+import { bookedExpenses } from '../services/expense.service.js';
+import { z } from 'zod';
+
+// Projects visible to the user, mirroring the role rules of the project list
+const projectScope = (user: AuthenticatedRequest['user']): Prisma.ProjectWhereInput => {
+    const fullAccessRoles = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'];
+    if (fullAccessRoles.includes(user?.role || '')) return {};
+
+    switch (user?.role) {
+        case 'PROJECT_HEAD':
+        case 'EXTERNAL_OWNER':
+            return {
+                OR: [
+                    { projectHeadId: user.userId },
+                    { staff: { some: { userId: user.userId, isActive: true } } },
+                ],
+            };
+        case 'EMPLOYEE':
+            return { staff: { some: { userId: user.userId, isActive: true } } };
+        case 'RC_MEMBER':
+            return { status: { in: ['ACTIVE', 'COMPLETED', 'PENDING_APPROVAL'] } };
+        default:
+            return { id: 'no-access' };
+    }
+};
 
 // Get director dashboard
 export const getDirectorDashboard = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
@@ -25,6 +52,7 @@ export const getDirectorDashboard = async (req: AuthenticatedRequest, res: Respo
         });
 
         const expenses = await prisma.expense.aggregate({
+            where: bookedExpenses,
             _sum: { amountINR: true },
         });
 
@@ -258,7 +286,7 @@ export const getProjectHeadDashboard = async (req: AuthenticatedRequest, res: Re
                     select: { staff: true, milestones: true },
                 },
                 budgets: true,
-                expenses: true,
+                expenses: { where: bookedExpenses },
             },
         });
 
@@ -359,6 +387,7 @@ export const getLiveStats = async (req: AuthenticatedRequest, res: Response): Pr
             }),
             prisma.expense.aggregate({
                 where: {
+                    ...bookedExpenses,
                     createdAt: { gte: new Date(new Date().setHours(0, 0, 0, 0)) },
                 },
                 _sum: { amountINR: true },
@@ -377,3 +406,162 @@ export const getLiveStats = async (req: AuthenticatedRequest, res: Response): Pr
         res.status(500).json({ error: 'Failed to fetch live statistics' });
     }
 };
+
+const evmQuerySchema = z.object({
+    verticalId: z.string().optional(),
+    category: z.nativeEnum(ProjectCategory).optional(),
+    status: z.nativeEnum(ProjectStatus).optional(),
+    asOf: z.coerce.date().optional(),
+    months: z.coerce.number().int().min(1).max(60).default(12),
+});
+
+const riskQuerySchema = z.object({
+    likelihood: z.coerce.number().int().min(1).max(5).optional(),
+    impact: z.coerce.number().int().min(1).max(5).optional(),
+    status: z.nativeEnum(RiskStatus).optional(),
+    projectId: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Get portfolio earned value metrics
+export const getPortfolioEVM = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { verticalId, category, status, asOf, months } = evmQuerySchema.parse(req.query);
+
+        const where: Prisma.ProjectWhereInput = {
+            AND: [
+                projectScope(req.user),
+                {
+                    // Drafts and proposals have no baseline to measure against
+                    status: status ?? { in: ['ACTIVE', 'ON_HOLD', 'COMPLETED'] },
+                    ...(verticalId ? { verticalId } : {}),
+                    ...(category ? { category } : {}),
+                },
+            ],
+        };
+
+        const evm = await evmService.getPortfolioEVM(where, { asOf, months });
+
+        res.json(evm);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Get portfolio EVM error:', error);
+        res.status(500).json({ error: 'Failed to compute earned value metrics' });
+    }
+};
+
+// Get earned value metrics for a single project
+export const getProjectEVM = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const { asOf } = evmQuerySchema.pick({ asOf: true }).parse(req.query);
+
+        const visible = await prisma.project.count({
+            where: { AND: [{ id }, projectScope(req.user)] },
+        });
+        if (!visible) {
+            res.status(404).json({ error: 'Project not found' });
+            return;
+        }
+
+        const evm = await evmService.getProjectEVM(id, asOf);
+        res.json(evm);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Get project EVM error:', error);
+        res.status(500).json({ error: 'Failed to compute earned value metrics' });
+    }
+};
+
+// Get portfolio risk heat map (open risks by likelihood x impact)
+export const getRiskHeatmap = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { verticalId, category } = req.query;
+
+        const where: Prisma.RiskWhereInput = {
+            status: { in: ['OPEN', 'MITIGATING'] },
+            project: {
+                AND: [
+                    projectScope(req.user),
+                    {
+                        ...(verticalId ? { verticalId: verticalId as string } : {}),
+                        ...(category ? { category: category as ProjectCategory } : {}),
+                    },
+                ],
+            },
+        };
+
+        const entries = await prisma.risk.groupBy({
+            by: ['projectId', 'likelihood', 'impact'],
+            where,
+            _count: { id: true },
+        });
+
+        const cells: Record<string, { likelihood: number; impact: number; count: number }> = {};
+        const projects: Record<string, { projectId: string; openRisks: number; maxScore: number }> = {};
+        entries.forEach(e => {
+            const key = `${e.likelihood}-${e.impact}`;
+            cells[key] = cells[key] || { likelihood: e.likelihood, impact: e.impact, count: 0 };
+            cells[key].count += e._count.id;
+
+            projects[e.projectId] = projects[e.projectId] || { projectId: e.projectId, openRisks: 0, maxScore: 0 };
+            projects[e.projectId].openRisks += e._count.id;
+            projects[e.projectId].maxScore = Math.max(projects[e.projectId].maxScore, e.likelihood * e.impact);
+        });
+
+        res.json({
+            totalOpen: entries.reduce((sum, e) => sum + e._count.id, 0),
+            cells: Object.values(cells),
+            entries: entries.map(e => ({
+                projectId: e.projectId,
+                likelihood: e.likelihood,
+                impact: e.impact,
+                count: e._count.id,
+            })),
+            projects: Object.values(projects),
+        });
+    } catch (error) {
+        console.error('Get risk heatmap error:', error);
+        res.status(500).json({ error: 'Failed to fetch risk heat map' });
+    }
+};
+
+// Get risks across the portfolio (heat map drill-down)
+export const getPortfolioRisks = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { likelihood, impact, status, projectId, limit } = riskQuerySchema.parse(req.query);
+
+        const where: Prisma.RiskWhereInput = {
+            status: status ?? { in: ['OPEN', 'MITIGATING'] },
+            project: projectScope(req.user),
+        };
+        if (likelihood) where.likelihood = likelihood;
+        if (impact) where.impact = impact;
+        if (projectId) where.projectId = projectId;
+
+        const risks = await prisma.risk.findMany({
+            where,
+            take: limit,
+            orderBy: [{ score: 'desc' }, { reviewDate: 'asc' }],
+            include: {
+                project: { select: { id: true, code: true, title: true } },
+                owner: { select: { firstName: true, lastName: true } },
+            },
+        });
+
+        res.json(risks);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Get portfolio risks error:', error);
+        res.status(500).json({ error: 'Failed to fetch risks' });
+    }
+};
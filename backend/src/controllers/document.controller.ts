@@ -4,6 +4,7 @@ import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { calculateFileHash } from '../utils/helpers.js';
 import { createAuditLog } from '../middleware/audit.middleware.js';
 import { notificationService } from '../services/notification.service.js';
+import { archiveService, ArchiveError } from '../services/archive.service.js';
 import { DocumentType } from '@prisma/client';
 import path from 'path';
 import fs from 'fs';
@@ -68,6 +69,8 @@ export const uploadDocument = async (req: AuthenticatedRequest, res: Response):
             return;
         }
 
+        await archiveService.assertProjectWritable(projectId);
+
         // Calculate file hash
         const sha256Hash = await calculateFileHash(req.file.path);
 
@@ -98,6 +101,11 @@ export const uploadDocument = async (req: AuthenticatedRequest, res: Response):
 
         res.status(201).json(document);
     } catch (error) {
+        if (error instanceof ArchiveError) {
+            fs.unlink(req.file!.path, () => undefined);
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
         console.error('Upload document error:', error);
         res.status(500).json({ error: 'Failed to upload document' });
     }
@@ -143,6 +151,26 @@ export const deleteDocument = async (req: AuthenticatedRequest, res: Response):
             return;
         }
 
+        archiveService.assertNotFrozen(document, 'Document');
+
+        // Generated certificates are the record of their sign-off
+        const certificate = await prisma.utilizationCertificate.findUnique({ where: { documentId: id }, select: { ucNumber: true } });
+        if (certificate) {
+            res.status(409).json({ error: `This document is utilization certificate ${certificate.ucNumber} and cannot be deleted` });
+            return;
+        }
+
+        // Issued invoices and credit notes are tax records
+        const [invoice, creditNote] = await Promise.all([
+            prisma.invoice.findUnique({ where: { documentId: id }, select: { invoiceNumber: true } }),
+            prisma.creditNote.findUnique({ where: { documentId: id }, select: { creditNoteNumber: true } }),
+        ]);
+        if (invoice || creditNote) {
+            const label = invoice ? `invoice ${invoice.invoiceNumber}` : `credit note ${creditNote!.creditNoteNumber}`;
+            res.status(409).json({ error: `This document is ${label} and cannot be deleted` });
+            return;
+        }
+
         // Delete file from disk
         if (fs.existsSync(document.filePath)) {
             fs.unlinkSync(document.filePath);
@@ -164,6 +192,10 @@ export const deleteDocument = async (req: AuthenticatedRequest, res: Response):
 
         res.json({ message: 'Document deleted successfully' });
     } catch (error) {
+        if (error instanceof ArchiveError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
         console.error('Delete document error:', error);
         res.status(500).json({ error: 'Failed to delete document' });
     }
@@ -0,0 +1,270 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { approvalService, ApprovalContext, ApprovalError } from '../services/approval.service.js';
+import { ArchiveError } from '../services/archive.service.js';
+import { CurrencyError } from '../services/currency.service.js';
+import { expenseService, ExpenseError } from '../services/expense.service.js';
+import { LedgerError } from '../services/ledger.service.js';
+import { notificationService } from '../services/notification.service.js';
+import { ProcurementError } from '../services/procurement.service.js';
+import { projectAccessService } from '../services/project-access.service.js';
+import { realtimeService, ProjectEvent } from '../services/realtime.service.js';
+
+// Validation schemas
+const expenseSchema = z.object({
+    description: z.string().min(1),
+    category: z.string(),
+    amount: z.number().positive(),
+    currency: z.string().trim().toUpperCase().length(3).default('INR'),
+    vendor: z.string().optional(),
+    invoiceNumber: z.string().optional(),
+    invoiceDate: z.string().optional(),
+    purchaseOrderId: z.string().uuid().nullish(),
+});
+
+const updateExpenseSchema = expenseSchema.partial();
+
+const reviewSchema = z.object({
+    action: z.enum(['APPROVE', 'REJECT']),
+    comments: z.string().optional(),
+});
+
+const paySchema = z.object({
+    paymentReference: z.string().optional(),
+    paidAt: z.string().optional(),
+});
+
+const reverseSchema = z.object({
+    reason: z.string().trim().min(3),
+});
+
+const handleExpenseError = (error: unknown, res: Response): boolean => {
+    if (
+        error instanceof ExpenseError || error instanceof ArchiveError || error instanceof LedgerError ||
+        error instanceof ApprovalError || error instanceof ProcurementError || error instanceof CurrencyError
+    ) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+const announce = (expense: { id: string; projectId: string }, action: ProjectEvent['action'], actorId?: string) => {
+    void realtimeService.projectUpdated({ projectId: expense.projectId, entity: 'expense', action, entityId: expense.id, actorId });
+};
+
+// BKMD's decision on the EXPENSE_APPROVAL workflow
+const decideExpense = async (ctx: ApprovalContext, approved: boolean) => {
+    const expenseId = ctx.workflow.entityId;
+    const expense = approved
+        ? await expenseService.book(expenseId, ctx.actorId)
+        : await expenseService.returnToDraft(expenseId, ctx.actorId, ctx.comments ?? 'Returned by BKMD');
+
+    await createAuditLog(ctx.actorId, approved ? 'APPROVE' : 'REJECT', 'Expense', expenseId, undefined, {
+        status: expense.status,
+        comments: ctx.comments ?? null,
+    });
+    announce(expense, approved ? 'approved' : 'returned', ctx.actorId);
+
+    if (approved && expense.createdById) {
+        await notificationService.createNotification({
+            userId: expense.createdById,
+            type: 'PROJECT_UPDATE',
+            title: 'Expense Approved',
+            message: `Your expense "${expense.description}" of ₹${expense.amountINR.toLocaleString('en-IN')} has been approved and booked.`,
+            link: `/projects/${expense.projectId}`,
+        });
+    }
+};
+
+approvalService.registerHandler('EXPENSE_APPROVAL', {
+    onApproved: (ctx) => decideExpense(ctx, true),
+    onRejected: (ctx) => decideExpense(ctx, false),
+    onRevisionRequested: (ctx) => decideExpense(ctx, false),
+});
+
+// Drafts may be changed by whoever recorded them or by the PI / Co-PIs
+const assertCanEditDraft = async (req: AuthenticatedRequest, expense: { createdById: string | null; projectId: string }) => {
+    if (expense.createdById === req.user!.userId) return;
+    if (await projectAccessService.can(req.user!, expense.projectId, 'manage', ['finance', 'create'])) return;
+    throw new ExpenseError('Only the recorder or the project PI can change this expense', 403);
+};
+
+// List a project's expenses, optionally by status
+export const getExpenses = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const status = z.enum(['DRAFT', 'SUBMITTED', 'APPROVED', 'PAID', 'REVERSED']).optional().parse(req.query.status);
+        const expenses = await expenseService.list(req.params.projectId, status);
+        res.json(expenses);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Get expenses error:', error);
+        res.status(500).json({ error: 'Failed to fetch expenses' });
+    }
+};
+
+// Record an expense as a draft; it is booked only once approved
+export const addExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = expenseSchema.parse(req.body);
+        const expense = await expenseService.create(req.params.projectId, data, req.user!.userId);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'Expense', expense.id, undefined, expense, req);
+        announce(expense, 'created', req.user?.userId);
+
+        res.status(201).json(expense);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Add expense error:', error);
+        res.status(500).json({ error: 'Failed to add expense' });
+    }
+};
+
+export const updateExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = updateExpenseSchema.parse(req.body);
+        const current = await expenseService.get(req.params.expenseId);
+        await assertCanEditDraft(req, current);
+
+        const { before, expense } = await expenseService.update(current.id, data);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'Expense', expense.id, before, expense, req);
+        announce(expense, 'updated', req.user?.userId);
+
+        res.json(expense);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Update expense error:', error);
+        res.status(500).json({ error: 'Failed to update expense' });
+    }
+};
+
+export const deleteExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const current = await expenseService.get(req.params.expenseId);
+        await assertCanEditDraft(req, current);
+
+        const expense = await expenseService.remove(current.id);
+
+        await createAuditLog(req.user?.userId, 'DELETE', 'Expense', expense.id, expense, undefined, req);
+        announce(expense, 'deleted', req.user?.userId);
+
+        res.json({ message: 'Expense deleted successfully' });
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Delete expense error:', error);
+        res.status(500).json({ error: 'Failed to delete expense' });
+    }
+};
+
+// Attach the invoice or receipt scan
+export const uploadReceipt = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.file) {
+            res.status(400).json({ error: 'No file uploaded' });
+            return;
+        }
+        const current = await expenseService.get(req.params.expenseId);
+        await assertCanEditDraft(req, current);
+
+        const expense = await expenseService.attachReceipt(current.id, `/uploads/${req.file.filename}`);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'Expense', expense.id, { receiptUrl: current.receiptUrl }, { receiptUrl: expense.receiptUrl }, req);
+        announce(expense, 'updated', req.user?.userId);
+
+        res.json(expense);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Upload receipt error:', error);
+        res.status(500).json({ error: 'Failed to upload receipt' });
+    }
+};
+
+export const submitExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const current = await expenseService.get(req.params.expenseId);
+        await assertCanEditDraft(req, current);
+
+        const expense = await expenseService.submit(current.id, req.user!);
+
+        await createAuditLog(req.user?.userId, 'SUBMIT', 'Expense', expense.id, { status: current.status }, {
+            status: expense.status,
+            piApproved: !!expense.piApprovedAt,
+        }, req);
+        announce(expense, 'submitted', req.user?.userId);
+
+        res.json(expense);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Submit expense error:', error);
+        res.status(500).json({ error: 'Failed to submit expense' });
+    }
+};
+
+// PI / Co-PI review before the expense goes to BKMD
+export const reviewExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { action, comments } = reviewSchema.parse(req.body);
+        const approved = action === 'APPROVE';
+        const expense = await expenseService.piReview(req.params.expenseId, req.user!, approved, comments);
+
+        await createAuditLog(req.user?.userId, approved ? 'APPROVE' : 'REJECT', 'Expense', expense.id, { status: 'SUBMITTED' }, {
+            status: expense.status,
+            step: 'PI Review',
+            comments: comments ?? null,
+        }, req);
+        announce(expense, approved ? 'updated' : 'returned', req.user?.userId);
+
+        res.json(expense);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Review expense error:', error);
+        res.status(500).json({ error: 'Failed to review expense' });
+    }
+};
+
+export const payExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = paySchema.parse(req.body);
+        const { before, expense } = await expenseService.markPaid(req.params.expenseId, data);
+
+        await createAuditLog(req.user?.userId, 'PAY', 'Expense', expense.id, { status: before.status }, {
+            status: expense.status,
+            paidAt: expense.paidAt,
+            paymentReference: expense.paymentReference,
+        }, req);
+        announce(expense, 'updated', req.user?.userId);
+
+        res.json(expense);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Pay expense error:', error);
+        res.status(500).json({ error: 'Failed to mark expense as paid' });
+    }
+};
+
+// Undo a booked expense with reversing entries; the expense itself is kept
+export const reverseExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { reason } = reverseSchema.parse(req.body);
+        const { before, expense } = await expenseService.reverse(req.params.expenseId, req.user!.userId, reason);
+
+        await createAuditLog(req.user?.userId, 'REVERSE', 'Expense', expense.id, { status: before.status }, {
+            status: expense.status,
+            reversalReason: reason,
+        }, req);
+        announce(expense, 'updated', req.user?.userId);
+
+        res.json(expense);
+    } catch (error) {
+        if (handleExpenseError(error, res)) return;
+        console.error('Reverse expense error:', error);
+        res.status(500).json({ error: 'Failed to reverse expense' });
+    }
+};
@@ -1,10 +1,17 @@
 import { Response } from 'express';
 import prisma from '../config/database.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
-import { currencyService } from '../services/currency.service.js';
+import { currencyService, CurrencyError } from '../services/currency.service.js';
+import { archiveService, ArchiveError } from '../services/archive.service.js';
+import { ledgerService, LedgerError } from '../services/ledger.service.js';
+import { fundingService, FundingError } from '../services/funding.service.js';
+import { costingService } from '../services/costing.service.js';
+import { forecastService } from '../services/forecast.service.js';
 import { createAuditLog } from '../middleware/audit.middleware.js';
-import { Currency } from '@prisma/client';
+import { getFiscalYear } from '../utils/helpers.js';
+import { Prisma, ProjectCategory } from '@prisma/client';
 import { z } from 'zod';
+import { bookedExpenses } from '../services/expense.service.js';
 
 // Validation schemas
 const budgetSchema = z.object({
@@ -14,23 +21,49 @@ const budgetSchema = z.object({
     amountUSD: z.number().positive().optional(),
 });
 
-const expenseSchema = z.object({
-    description: z.string().min(1),
-    category: z.string(),
-    amount: z.number().positive(),
-    currency: z.enum(['INR', 'USD']).default('INR'),
-    vendor: z.string().optional(),
-    invoiceNumber: z.string().optional(),
-    invoiceDate: z.string().optional(),
-});
-
 const cashFlowSchema = z.object({
     type: z.enum(['RECEIVED', 'UTILIZED']),
     source: z.string().optional(),
     description: z.string(),
     amount: z.number().positive(),
-    currency: z.enum(['INR', 'USD']).default('INR'),
+    currency: z.string().trim().toUpperCase().length(3).default('INR'),
     transactionDate: z.string(),
+    instalmentId: z.string().uuid().optional(), // Sponsor instalment the receipt settles
+});
+
+const currencySchema = z.object({
+    code: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code'),
+    name: z.string().trim().min(1),
+    symbol: z.string().trim().min(1).max(4),
+    decimals: z.number().int().min(0).max(4).default(2),
+    isActive: z.boolean().default(true),
+});
+
+const currencyRateSchema = z.object({
+    currency: z.string().trim().toUpperCase().length(3),
+    rateDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD'),
+    rate: z.number().positive(),
+});
+
+const costingRuleSchema = z.object({
+    overheadPercent: z.number().min(0).max(100),
+    overheadExcludesEquipment: z.boolean().default(false),
+    contingencyCapPercent: z.number().min(0).max(100),
+    gstPercent: z.number().min(0).max(100).default(0),
+});
+
+const categorySchema = z.nativeEnum(ProjectCategory);
+
+// Calendar dates are read as local midnight, like the rate days
+const localDay = (value: string) => new Date(`${value}T00:00:00`);
+
+const forecastQuerySchema = z.object({
+    verticalId: z.string().optional(),
+    category: categorySchema.optional(),
+    asOf: z.string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+        .refine(value => !isNaN(localDay(value).getTime()), 'Invalid date')
+        .optional(),
 });
 
 // Get financial dashboard (director)
@@ -42,22 +75,25 @@ export const getFinanceDashboard = async (req: AuthenticatedRequest, res: Respon
         // Get all projects with financial data
         const projects = await prisma.project.findMany({
             where: { status: { in: ['ACTIVE', 'ON_HOLD'] } },
-            include: {
-                budgets: true,
-                expenses: true,
-                cashFlows: true,
-            },
+            include: { cashFlows: true },
         });
 
+        // Budgets, commitments and spend are the ledger's balances
+        const ledgerTotals = await ledgerService.totalsByProject(projects.map(p => p.id));
+
         // Calculate totals
         let totalBudgetINR = 0;
         let totalExpensesINR = 0;
+        let totalCommittedINR = 0;
+        let totalAvailableINR = 0;
         let totalReceivedINR = 0;
         let totalUtilizedINR = 0;
 
         const projectFinancials = projects.map(project => {
-            const budget = project.budgets.reduce((sum, b) => sum + b.amountINR, 0);
-            const expenses = project.expenses.reduce((sum, e) => sum + e.amountINR, 0);
+            const totals = ledgerTotals.get(project.id);
+            const budget = totals?.allocatedINR ?? 0;
+            const expenses = totals?.spentINR ?? 0;
+            const projectCommitted = totals?.committedINR ?? 0;
             const received = project.cashFlows
                 .filter(cf => cf.type === 'RECEIVED')
                 .reduce((sum, cf) => sum + cf.amountINR, 0);
@@ -67,6 +103,8 @@ export const getFinanceDashboard = async (req: AuthenticatedRequest, res: Respon
 
             totalBudgetINR += budget;
             totalExpensesINR += expenses;
+            totalCommittedINR += projectCommitted;
+            totalAvailableINR += totals?.availableINR ?? 0;
             totalReceivedINR += received;
             totalUtilizedINR += utilized;
 
@@ -76,6 +114,8 @@ export const getFinanceDashboard = async (req: AuthenticatedRequest, res: Respon
                 projectTitle: project.title,
                 budget,
                 expenses,
+                committed: projectCommitted,
+                available: totals?.availableINR ?? 0,
                 utilization: budget > 0 ? Math.round((expenses / budget) * 100) : 0,
             };
         });
@@ -94,6 +134,7 @@ export const getFinanceDashboard = async (req: AuthenticatedRequest, res: Respon
             by: ['createdAt'],
             _sum: { amountINR: true },
             where: {
+                ...bookedExpenses,
                 createdAt: { gte: twelveMonthsAgo },
             },
             orderBy: { createdAt: 'asc' },
@@ -113,6 +154,8 @@ export const getFinanceDashboard = async (req: AuthenticatedRequest, res: Respon
                     ? Math.round((totalExpensesINR / totalBudgetINR) * 100)
                     : 0,
                 remainingBudgetINR: totalBudgetINR - totalExpensesINR,
+                totalCommittedINR,
+                availableBudgetINR: totalAvailableINR,
             },
             cashFlow: {
                 totalReceivedINR,
@@ -152,17 +195,31 @@ export const getProjectBudget = async (req: AuthenticatedRequest, res: Response)
             orderBy: { createdAt: 'desc' },
         });
 
-        const totalBudget = budgets.reduce((sum, b) => sum + b.amountINR, 0);
-        const totalExpenses = expenses.reduce((sum, e) => sum + e.amountINR, 0);
+        // Balances come from the ledger, per head; Budget rows only name the heads
+        const { heads, totals } = await ledgerService.balances(projectId);
+        const headOf = new Map(heads.map(h => [`${h.fiscalYear}|${h.category}`, h]));
+
+        const totalBudget = totals.allocatedINR;
+        const totalExpenses = totals.spentINR;
 
         res.json({
-            budgets,
+            budgets: budgets.map(b => {
+                const head = headOf.get(`${b.fiscalYear}|${b.category.trim().toUpperCase()}`);
+                return {
+                    ...b,
+                    committed: head?.committedINR ?? 0,
+                    spent: head?.spentINR ?? 0,
+                    available: head?.availableINR ?? 0,
+                };
+            }),
             expenses,
             summary: {
                 totalBudget,
                 totalExpenses,
+                totalCommitted: totals.committedINR,
                 utilization: totalBudget > 0 ? Math.round((totalExpenses / totalBudget) * 100) : 0,
                 remaining: totalBudget - totalExpenses,
+                available: totals.availableINR,
             },
         });
     } catch (error) {
@@ -177,6 +234,8 @@ export const upsertBudget = async (req: AuthenticatedRequest, res: Response): Pr
         const { projectId } = req.params;
         const data = budgetSchema.parse(req.body);
 
+        await archiveService.assertBudgetWritable(projectId, data.fiscalYear);
+
         // Get exchange rate if USD not provided
         let amountUSD = data.amountUSD;
         let exchangeRate: number | undefined;
@@ -195,28 +254,47 @@ export const upsertBudget = async (req: AuthenticatedRequest, res: Response): Pr
             },
         });
 
-        let budget;
-        if (existingBudget) {
-            budget = await prisma.budget.update({
-                where: { id: existingBudget.id },
-                data: {
-                    amountINR: data.amountINR,
-                    amountUSD,
-                    exchangeRate,
-                },
-            });
-        } else {
-            budget = await prisma.budget.create({
-                data: {
-                    projectId,
-                    fiscalYear: data.fiscalYear,
-                    category: data.category,
-                    amountINR: data.amountINR,
-                    amountUSD,
-                    exchangeRate,
-                },
-            });
-        }
+        // The ledger records the change in allocation, not the new total
+        const budget = await prisma.$transaction(async (tx) => {
+            // A cut may only take what is neither committed nor spent
+            const change = data.amountINR - (existingBudget?.amountINR ?? 0);
+            if (change < 0) {
+                const available = await ledgerService.available(tx, { projectId, fiscalYear: data.fiscalYear, category: data.category });
+                if (-change > available + 0.01) {
+                    throw new LedgerError(`Only ₹${Math.max(available, 0).toLocaleString('en-IN')} of the ${data.category} budget is uncommitted and unspent; it cannot be cut by ₹${(-change).toLocaleString('en-IN')}`, 409);
+                }
+            }
+
+            const saved = existingBudget
+                ? await tx.budget.update({
+                    where: { id: existingBudget.id },
+                    data: {
+                        amountINR: data.amountINR,
+                        amountUSD,
+                        exchangeRate,
+                    },
+                })
+                : await tx.budget.create({
+                    data: {
+                        projectId,
+                        fiscalYear: data.fiscalYear,
+                        category: data.category,
+                        amountINR: data.amountINR,
+                        amountUSD,
+                        exchangeRate,
+                    },
+                });
+
+            if (change !== 0) {
+                await ledgerService.allocate(tx, { projectId, fiscalYear: data.fiscalYear, category: data.category }, change, {
+                    description: existingBudget ? `Budget revised for ${data.category}` : `Budget allocated for ${data.category}`,
+                    sourceType: 'Budget',
+                    sourceId: saved.id,
+                    createdById: req.user?.userId,
+                });
+            }
+            return saved;
+        });
 
         await createAuditLog(
             req.user?.userId,
@@ -234,115 +312,201 @@ export const upsertBudget = async (req: AuthenticatedRequest, res: Response): Pr
             res.status(400).json({ error: 'Validation failed', details: error.errors });
             return;
         }
+        if (error instanceof ArchiveError || error instanceof LedgerError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
         console.error('Upsert budget error:', error);
         res.status(500).json({ error: 'Failed to save budget' });
     }
 };
 
-// Add expense
-export const addExpense = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Get the exchange rate of a currency in INR (USD by default) on a date (today by default)
+export const getExchangeRate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-        const { projectId } = req.params;
-        const data = expenseSchema.parse(req.body);
-
-        // Convert to INR if needed
-        const { amountINR, rate } = await currencyService.convertToINR(
-            data.amount,
-            data.currency as Currency
-        );
+        const { currency = 'USD', date } = req.query as Record<string, string | undefined>;
+        const quote = await currencyService.rateToINR(currency, date ? localDay(date) : new Date());
 
-        const expense = await prisma.expense.create({
-            data: {
-                projectId,
-                description: data.description,
-                category: data.category,
-                amount: data.amount,
-                currency: data.currency as Currency,
-                amountINR,
-                exchangeRate: data.currency === 'USD' ? rate : undefined,
-                vendor: data.vendor,
-                invoiceNumber: data.invoiceNumber,
-                invoiceDate: data.invoiceDate ? new Date(data.invoiceDate) : undefined,
-            },
+        res.json({
+            base: quote.currency,
+            target: 'INR',
+            rate: quote.rate,
+            rateDate: quote.rateDate,
+            source: quote.source,
+            updatedAt: new Date().toISOString(),
         });
+    } catch (error) {
+        if (error instanceof CurrencyError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
+        console.error('Get exchange rate error:', error);
+        res.status(500).json({ error: 'Failed to fetch exchange rate' });
+    }
+};
 
-        // Update budget utilization
-        const budget = await prisma.budget.findFirst({
-            where: { projectId, category: data.category },
-        });
+// Convert currency, at the rate of `date` when given
+export const convertCurrency = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { amount, from, to, date } = req.body;
 
-        if (budget) {
-            await prisma.budget.update({
-                where: { id: budget.id },
-                data: {
-                    utilized: { increment: amountINR },
-                },
-            });
+        if (!amount || !from || !to) {
+            res.status(400).json({ error: 'Amount, from, and to currencies required' });
+            return;
         }
 
-        await createAuditLog(req.user?.userId, 'CREATE', 'Expense', expense.id, undefined, expense, req);
+        const converted = await currencyService.convert(amount, from, to, date ? localDay(date) : new Date());
 
-        res.status(201).json(expense);
+        res.json({
+            input: { amount, currency: from },
+            output: { amount: converted.amount, currency: to },
+            rate: converted.rate,
+            convertedAt: new Date().toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof CurrencyError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
+        console.error('Convert currency error:', error);
+        res.status(500).json({ error: 'Failed to convert currency' });
+    }
+};
+
+// Currencies accepted on entries; ?all=true includes deactivated ones
+export const getCurrencies = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const currencies = await currencyService.listCurrencies(req.query.all === 'true');
+        res.json(currencies);
+    } catch (error) {
+        console.error('Get currencies error:', error);
+        res.status(500).json({ error: 'Failed to fetch currencies' });
+    }
+};
+
+// Add a currency or change one, including the built-in ones
+export const saveCurrency = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = currencySchema.parse(req.body);
+        const currency = await currencyService.saveCurrency(data);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'CurrencyDefinition', currency.code, undefined, currency, req);
+
+        res.json(currency);
     } catch (error) {
         if (error instanceof z.ZodError) {
             res.status(400).json({ error: 'Validation failed', details: error.errors });
             return;
         }
-        console.error('Add expense error:', error);
-        res.status(500).json({ error: 'Failed to add expense' });
+        if (error instanceof CurrencyError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
+        console.error('Save currency error:', error);
+        res.status(500).json({ error: 'Failed to save currency' });
     }
 };
 
-// Get current exchange rate
-export const getExchangeRate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Stored INR rates of a currency, newest first
+export const getCurrencyRates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-        const usdToInr = await currencyService.getExchangeRate('USD', 'INR');
-
-        res.json({
-            base: 'USD',
-            target: 'INR',
-            rate: usdToInr,
-            updatedAt: new Date().toISOString(),
-        });
+        const { currency = 'USD', from, to } = req.query as Record<string, string | undefined>;
+        const rates = await currencyService.getRateHistory(currency, from ? localDay(from) : undefined, to ? localDay(to) : undefined);
+        res.json(rates);
     } catch (error) {
-        console.error('Get exchange rate error:', error);
-        res.status(500).json({ error: 'Failed to fetch exchange rate' });
+        if (error instanceof CurrencyError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
+        console.error('Get currency rates error:', error);
+        res.status(500).json({ error: 'Failed to fetch currency rates' });
     }
 };
 
-// Convert currency
-export const convertCurrency = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Enter a rate by hand, e.g. when the rate API is unreachable
+export const addCurrencyRate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-        const { amount, from, to } = req.body;
+        const data = currencyRateSchema.parse(req.body);
+        const quote = await currencyService.setManualRate(data.currency, localDay(data.rateDate), data.rate, req.user!.userId);
 
-        if (!amount || !from || !to) {
-            res.status(400).json({ error: 'Amount, from, and to currencies required' });
+        await createAuditLog(req.user?.userId, 'CREATE', 'CurrencyRate', undefined, undefined, {
+            currency: quote.currency,
+            rateDate: data.rateDate,
+            rate: quote.rate,
+        }, req);
+
+        res.status(201).json(quote);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        if (error instanceof CurrencyError) {
+            res.status(error.statusCode).json({ error: error.message });
             return;
         }
+        console.error('Add currency rate error:', error);
+        res.status(500).json({ error: 'Failed to save currency rate' });
+    }
+};
+
+// Forex gain/loss on foreign-currency receipts, revalued at the rate of ?asOf (today by default)
+export const getRevaluation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { asOf, projectId } = req.query as Record<string, string | undefined>;
+        const report = await currencyService.revaluation(asOf ? localDay(asOf) : new Date(), projectId);
+        res.json(report);
+    } catch (error) {
+        console.error('Get revaluation error:', error);
+        res.status(500).json({ error: 'Failed to generate revaluation report' });
+    }
+};
+
+// Overhead, contingency and GST terms proposals of each category are costed under
+export const getCostingRules = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        res.json(await costingService.listRules());
+    } catch (error) {
+        console.error('Get costing rules error:', error);
+        res.status(500).json({ error: 'Failed to fetch costing rules' });
+    }
+};
+
+export const saveCostingRule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const category = categorySchema.parse(req.params.category);
+        const data = costingRuleSchema.parse(req.body);
+        const rule = await costingService.saveRule(category, data);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'CostingRule', category, undefined, rule, req);
 
-        let result: number;
-        let rate: number;
-
-        if (from === 'USD' && to === 'INR') {
-            rate = await currencyService.getExchangeRate('USD', 'INR');
-            result = amount * rate;
-        } else if (from === 'INR' && to === 'USD') {
-            rate = await currencyService.getExchangeRate('INR', 'USD');
-            result = amount * rate;
-        } else {
-            res.status(400).json({ error: 'Only USD/INR conversion supported' });
+        res.json(rule);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
             return;
         }
+        console.error('Save costing rule error:', error);
+        res.status(500).json({ error: 'Failed to save costing rule' });
+    }
+};
 
-        res.json({
-            input: { amount, currency: from },
-            output: { amount: result, currency: to },
-            rate,
-            convertedAt: new Date().toISOString(),
-        });
+// Return a category to the default terms
+export const resetCostingRule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const category = categorySchema.parse(req.params.category);
+        const rule = await costingService.resetRule(category);
+
+        await createAuditLog(req.user?.userId, 'DELETE', 'CostingRule', category, undefined, undefined, req);
+
+        res.json(rule);
     } catch (error) {
-        console.error('Convert currency error:', error);
-        res.status(500).json({ error: 'Failed to convert currency' });
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Reset costing rule error:', error);
+        res.status(500).json({ error: 'Failed to reset costing rule' });
     }
 };
 
@@ -396,23 +560,48 @@ export const addCashFlow = async (req: AuthenticatedRequest, res: Response): Pro
         const { projectId } = req.params;
         const data = cashFlowSchema.parse(req.body);
 
-        const { amountINR, rate } = await currencyService.convertToINR(
-            data.amount,
-            data.currency as Currency
-        );
+        if (data.instalmentId && data.type !== 'RECEIVED') {
+            res.status(400).json({ error: 'Only receipts can settle a sponsor instalment' });
+            return;
+        }
 
-        const cashFlow = await prisma.cashFlow.create({
-            data: {
-                projectId,
-                type: data.type,
-                source: data.source,
-                description: data.description,
-                amount: data.amount,
-                currency: data.currency as Currency,
-                amountINR,
-                exchangeRate: data.currency === 'USD' ? rate : undefined,
-                transactionDate: new Date(data.transactionDate),
-            },
+        await currencyService.assertActive(data.currency);
+        const transactionDate = new Date(data.transactionDate);
+        await archiveService.assertBudgetWritable(projectId, getFiscalYear(transactionDate));
+
+        // Converted at the rate of the transaction date
+        const { amountINR, rate } = await currencyService.convertToINR(data.amount, data.currency, transactionDate);
+
+        // Money received from the sponsor is a ledger receipt; spending is recorded through expenses
+        const cashFlow = await prisma.$transaction(async (tx) => {
+            const created = await tx.cashFlow.create({
+                data: {
+                    projectId,
+                    type: data.type,
+                    source: data.source,
+                    description: data.description,
+                    amount: data.amount,
+                    currency: data.currency,
+                    amountINR,
+                    exchangeRate: data.currency === 'INR' ? undefined : rate,
+                    transactionDate,
+                    instalmentId: data.instalmentId,
+                },
+            });
+
+            if (data.instalmentId) {
+                await fundingService.applyReceipt(tx, data.instalmentId, { projectId, currency: data.currency, amount: data.amount });
+            }
+
+            if (data.type === 'RECEIVED') {
+                await ledgerService.recordReceipt(tx, projectId, getFiscalYear(transactionDate), amountINR, {
+                    description: data.source ? `${data.description} (${data.source})` : data.description,
+                    sourceType: 'CashFlow',
+                    sourceId: created.id,
+                    createdById: req.user?.userId,
+                });
+            }
+            return created;
         });
 
         await createAuditLog(req.user?.userId, 'CREATE', 'CashFlow', cashFlow.id, undefined, cashFlow, req);
@@ -423,17 +612,101 @@ export const addCashFlow = async (req: AuthenticatedRequest, res: Response): Pro
             res.status(400).json({ error: 'Validation failed', details: error.errors });
             return;
         }
+        if (error instanceof LedgerError || error instanceof CurrencyError || error instanceof FundingError || error instanceof ArchiveError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
         console.error('Add cash flow error:', error);
         res.status(500).json({ error: 'Failed to add cash flow' });
     }
 };
 
+// Project ledger: derived balances per head plus the transactions behind them
+export const getProjectLedger = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { projectId } = req.params;
+        const { fiscalYear, page = '1', limit = '50' } = req.query as Record<string, string | undefined>;
+
+        const [balances, history] = await Promise.all([
+            ledgerService.balances(projectId, fiscalYear),
+            ledgerService.transactions(projectId, { fiscalYear, page: parseInt(page, 10), limit: parseInt(limit, 10) }),
+        ]);
+
+        res.json({ ...balances, ...history });
+    } catch (error) {
+        console.error('Get project ledger error:', error);
+        res.status(500).json({ error: 'Failed to fetch project ledger' });
+    }
+};
+
+// Budget rows that disagree with the ledger (all projects, or ?projectId=)
+export const getReconciliation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+        res.json(await ledgerService.reconcile(projectId));
+    } catch (error) {
+        console.error('Get reconciliation error:', error);
+        res.status(500).json({ error: 'Failed to reconcile budgets' });
+    }
+};
+
+// Bring budgets recorded before the ledger existed into it
+export const postOpeningBalances = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const posted = await ledgerService.postOpeningBalances(req.user!.userId);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'LedgerTransaction', undefined, undefined, { openingBalances: posted }, req);
+
+        res.json({ message: `Posted opening balances for ${posted} budget heads`, posted });
+    } catch (error) {
+        if (error instanceof LedgerError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
+        console.error('Post opening balances error:', error);
+        res.status(500).json({ error: 'Failed to post opening balances' });
+    }
+};
+
+// Spend forecast for the fiscal year: lapse and overrun risks per project
+export const getForecast = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { verticalId, category, asOf } = forecastQuerySchema.parse(req.query);
+        const user = req.user!;
+
+        // Project heads see the projects they lead or work on; institute roles see all
+        const scope: Prisma.ProjectWhereInput = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'].includes(user.role)
+            ? {}
+            : { OR: [{ projectHeadId: user.userId }, { staff: { some: { userId: user.userId, isActive: true } } }] };
+
+        const forecast = await forecastService.getPortfolioForecast({
+            AND: [
+                scope,
+                {
+                    status: { in: ['ACTIVE', 'ON_HOLD'] },
+                    ...(verticalId ? { verticalId } : {}),
+                    ...(category ? { category } : {}),
+                },
+            ],
+        }, asOf ? localDay(asOf) : undefined);
+
+        res.json(forecast);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Get forecast error:', error);
+        res.status(500).json({ error: 'Failed to compute spend forecast' });
+    }
+};
+
 // Get costing summary for reports
 export const getCostingSummary = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const { startDate, endDate, projectId } = req.query;
 
-        const where: any = {};
+        const where: any = { ...bookedExpenses };
         if (projectId) where.projectId = projectId;
         if (startDate || endDate) {
             where.createdAt = {};
@@ -0,0 +1,213 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { ArchiveError } from '../services/archive.service.js';
+import { CurrencyError } from '../services/currency.service.js';
+import { fundingService, FundingError } from '../services/funding.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+// Validation schemas
+const instalmentSchema = z.object({
+    description: z.string().trim().min(1),
+    amount: z.number().positive(),
+    dueDate: day.nullable().optional(),
+    milestoneId: z.string().uuid().nullable().optional(),
+});
+
+const agreementSchema = z.object({
+    sponsorName: z.string().trim().min(1),
+    referenceNumber: z.string().trim().nullable().optional(),
+    currency: z.string().trim().toUpperCase().length(3).default('INR'),
+    signedDate: day,
+    notes: z.string().nullable().optional(),
+});
+
+const createAgreementSchema = agreementSchema.extend({
+    instalments: z.array(instalmentSchema).min(1),
+});
+
+const claimSchema = z.object({
+    claimReference: z.string().trim().min(1),
+    claimedAt: day.optional(),
+});
+
+const reasonSchema = z.object({
+    reason: z.string().trim().min(3),
+});
+
+const handleFundingError = (error: unknown, res: Response): boolean => {
+    if (error instanceof FundingError || error instanceof ArchiveError || error instanceof CurrencyError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// Expected funding is part of the project's finances
+const announce = (projectId: string, entityId: string, action: 'created' | 'updated' | 'deleted', actorId?: string) => {
+    void realtimeService.projectUpdated({ projectId, entity: 'budget', action, entityId, actorId });
+};
+
+// Local midnight, so the date is not shifted into the previous day
+const toDate = (value: string) => new Date(`${value}T00:00:00`);
+
+// Keeps null (clear the date) apart from undefined (leave it)
+const toDueDate = (value: string | null | undefined) => (value == null ? value : toDate(value));
+
+export const getAgreements = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const agreements = await fundingService.listAgreements(req.params.projectId);
+        res.json(agreements);
+    } catch (error) {
+        console.error('Get funding agreements error:', error);
+        res.status(500).json({ error: 'Failed to fetch funding agreements' });
+    }
+};
+
+// Record a sponsor agreement with its instalment schedule
+export const createAgreement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { instalments, ...data } = createAgreementSchema.parse(req.body);
+        const agreement = await fundingService.createAgreement(
+            req.params.projectId,
+            { ...data, signedDate: toDate(data.signedDate) },
+            instalments.map(i => ({ ...i, dueDate: toDueDate(i.dueDate) })),
+            req.user!.userId
+        );
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'FundingAgreement', agreement.id, undefined, agreement, req);
+        announce(agreement.projectId, agreement.id, 'created', req.user?.userId);
+
+        res.status(201).json(agreement);
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Create funding agreement error:', error);
+        res.status(500).json({ error: 'Failed to create funding agreement' });
+    }
+};
+
+export const updateAgreement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = agreementSchema.partial().parse(req.body);
+        const before = await fundingService.getAgreement(req.params.agreementId);
+        const agreement = await fundingService.updateAgreement(before.id, {
+            ...data,
+            signedDate: data.signedDate ? toDate(data.signedDate) : undefined,
+        });
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'FundingAgreement', agreement.id, before, agreement, req);
+        announce(agreement.projectId, agreement.id, 'updated', req.user?.userId);
+
+        res.json(agreement);
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Update funding agreement error:', error);
+        res.status(500).json({ error: 'Failed to update funding agreement' });
+    }
+};
+
+export const deleteAgreement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const agreement = await fundingService.deleteAgreement(req.params.agreementId);
+
+        await createAuditLog(req.user?.userId, 'DELETE', 'FundingAgreement', agreement.id, agreement, undefined, req);
+        announce(agreement.projectId, agreement.id, 'deleted', req.user?.userId);
+
+        res.json({ message: 'Funding agreement deleted' });
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Delete funding agreement error:', error);
+        res.status(500).json({ error: 'Failed to delete funding agreement' });
+    }
+};
+
+export const addInstalment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = instalmentSchema.parse(req.body);
+        const instalment = await fundingService.addInstalment(req.params.agreementId, { ...data, dueDate: toDueDate(data.dueDate) });
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'FundingInstalment', instalment.id, undefined, instalment, req);
+        announce(instalment.projectId, instalment.id, 'created', req.user?.userId);
+
+        res.status(201).json(instalment);
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Add instalment error:', error);
+        res.status(500).json({ error: 'Failed to add instalment' });
+    }
+};
+
+export const updateInstalment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = instalmentSchema.partial().parse(req.body);
+        const before = await fundingService.getInstalment(req.params.instalmentId);
+        const instalment = await fundingService.updateInstalment(before.id, { ...data, dueDate: toDueDate(data.dueDate) });
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'FundingInstalment', instalment.id, before, instalment, req);
+        announce(instalment.projectId, instalment.id, 'updated', req.user?.userId);
+
+        res.json(instalment);
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Update instalment error:', error);
+        res.status(500).json({ error: 'Failed to update instalment' });
+    }
+};
+
+// The PI records the claim or invoice sent to the sponsor
+export const claimInstalment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { claimReference, claimedAt } = claimSchema.parse(req.body);
+        const instalment = await fundingService.markClaimed(req.params.instalmentId, claimReference, claimedAt ? toDate(claimedAt) : undefined);
+
+        await createAuditLog(req.user?.userId, 'CLAIM', 'FundingInstalment', instalment.id, undefined, {
+            status: instalment.status,
+            claimReference,
+            claimedAt: instalment.claimedAt,
+        }, req);
+        announce(instalment.projectId, instalment.id, 'updated', req.user?.userId);
+
+        res.json(instalment);
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Claim instalment error:', error);
+        res.status(500).json({ error: 'Failed to record claim' });
+    }
+};
+
+export const waiveInstalment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { reason } = reasonSchema.parse(req.body);
+        const before = await fundingService.getInstalment(req.params.instalmentId);
+        const instalment = await fundingService.waive(before.id, reason);
+
+        await createAuditLog(req.user?.userId, 'WAIVE', 'FundingInstalment', instalment.id, { status: before.status }, { status: instalment.status, reason }, req);
+        announce(instalment.projectId, instalment.id, 'updated', req.user?.userId);
+
+        res.json(instalment);
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Waive instalment error:', error);
+        res.status(500).json({ error: 'Failed to waive instalment' });
+    }
+};
+
+// Overdue receivables ageing across projects, or one project
+export const getReceivables = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { asOf, projectId } = z.object({ asOf: day.optional(), projectId: z.string().optional() }).parse(req.query);
+        const report = await fundingService.receivables(asOf ? toDate(asOf) : new Date(), projectId);
+        res.json(report);
+    } catch (error) {
+        if (handleFundingError(error, res)) return;
+        console.error('Get receivables error:', error);
+        res.status(500).json({ error: 'Failed to build receivables ageing' });
+    }
+};
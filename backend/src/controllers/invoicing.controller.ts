@@ -0,0 +1,383 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { ArchiveError } from '../services/archive.service.js';
+import { invoicingService, InvoicingError } from '../services/invoicing.service.js';
+import { LedgerError } from '../services/ledger.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+import { getFiscalYear } from '../utils/helpers.js';
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+// Validation schemas
+const clientSchema = z.object({
+    name: z.string().trim().min(1),
+    gstin: z.string().trim().regex(/^\d{2}[A-Za-z0-9]{13}$/, 'A GSTIN has 15 characters starting with the state code').nullable().optional(),
+    pan: z.string().trim().regex(/^[A-Za-z]{5}\d{4}[A-Za-z]$/, 'Invalid PAN').nullable().optional(),
+    stateCode: z.string().regex(/^\d{2}$/, 'Expected a two-digit GST state code'),
+    address: z.string().trim().nullable().optional(),
+    contactName: z.string().trim().nullable().optional(),
+    email: z.string().email().nullable().optional(),
+    phone: z.string().trim().nullable().optional(),
+    isActive: z.boolean().optional(),
+}).refine(c => !c.gstin || c.gstin.startsWith(c.stateCode), {
+    message: 'The GSTIN must start with the client\'s state code',
+    path: ['gstin'],
+});
+
+const quotationSchema = z.object({
+    clientId: z.string().uuid(),
+    title: z.string().trim().min(1),
+    scope: z.string().nullable().optional(),
+    amountINR: z.number().positive(),
+    validUntil: day.nullable().optional(),
+});
+
+const quotationUpdateSchema = quotationSchema.partial().extend({
+    status: z.enum(['DRAFT', 'SENT', 'ACCEPTED', 'DECLINED']).optional(),
+});
+
+const workOrderSchema = z.object({
+    clientId: z.string().uuid(),
+    quotationId: z.string().uuid().nullable().optional(),
+    orderNumber: z.string().trim().min(1),
+    orderDate: day,
+    valueINR: z.number().positive(),
+    notes: z.string().nullable().optional(),
+});
+
+const invoiceSchema = z.object({
+    clientId: z.string().uuid(),
+    workOrderId: z.string().uuid().nullable().optional(),
+    lines: z.array(z.object({
+        description: z.string().trim().min(1),
+        sac: z.string().trim().optional(),
+        quantity: z.number().positive(),
+        rate: z.number().positive(),
+    })).min(1),
+    gstRate: z.number().min(0).max(28).optional(),
+    notes: z.string().nullable().optional(),
+});
+
+const paymentSchema = z.object({
+    receivedDate: day,
+    amountINR: z.number().positive(),
+    tdsINR: z.number().nonnegative().default(0),
+    tdsSection: z.string().trim().nullable().optional(),
+    reference: z.string().trim().nullable().optional(),
+});
+
+const creditNoteSchema = z.object({
+    taxableINR: z.number().positive(),
+    reason: z.string().trim().min(3),
+    noteDate: day,
+});
+
+const handleInvoicingError = (error: unknown, res: Response): boolean => {
+    if (error instanceof InvoicingError || error instanceof ArchiveError || error instanceof LedgerError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// Billing is part of the project's finances
+const announce = (projectId: string, entityId: string, action: 'created' | 'updated' | 'deleted', actorId?: string) => {
+    void realtimeService.projectUpdated({ projectId, entity: 'budget', action, entityId, actorId });
+};
+
+// Local midnight, so the date is not shifted into the previous day
+const toDate = (value: string) => new Date(`${value}T00:00:00`);
+
+export const getClients = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const clients = await invoicingService.listClients(req.query.includeInactive === 'true');
+        res.json(clients);
+    } catch (error) {
+        console.error('Get clients error:', error);
+        res.status(500).json({ error: 'Failed to fetch clients' });
+    }
+};
+
+export const createClient = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = clientSchema.parse(req.body);
+        const client = await invoicingService.saveClient(undefined, data);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'Client', client.id, undefined, client, req);
+        res.status(201).json(client);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Create client error:', error);
+        res.status(500).json({ error: 'Failed to create client' });
+    }
+};
+
+export const updateClient = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = clientSchema.parse(req.body);
+        const before = await invoicingService.getClient(req.params.clientId);
+        const client = await invoicingService.saveClient(before.id, data);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'Client', client.id, before, client, req);
+        res.json(client);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Update client error:', error);
+        res.status(500).json({ error: 'Failed to update client' });
+    }
+};
+
+// Invoices, credit notes and payments with a running balance
+export const getClientLedger = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { from, to } = z.object({ from: day.optional(), to: day.optional() }).parse(req.query);
+        const ledger = await invoicingService.clientLedger(req.params.clientId, {
+            from: from ? toDate(from) : undefined,
+            to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+        });
+        res.json(ledger);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Get client ledger error:', error);
+        res.status(500).json({ error: 'Failed to fetch client ledger' });
+    }
+};
+
+export const getTdsRegister = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const fiscalYear = (req.query.fiscalYear as string | undefined) || getFiscalYear(new Date());
+        const register = await invoicingService.tdsRegister(fiscalYear);
+        res.json(register);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Get TDS register error:', error);
+        res.status(500).json({ error: 'Failed to fetch TDS register' });
+    }
+};
+
+export const getProjectInvoicing = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const book = await invoicingService.projectBook(req.params.projectId);
+        res.json(book);
+    } catch (error) {
+        console.error('Get project invoicing error:', error);
+        res.status(500).json({ error: 'Failed to fetch invoicing' });
+    }
+};
+
+export const createQuotation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = quotationSchema.parse(req.body);
+        const quotation = await invoicingService.createQuotation(
+            req.params.projectId,
+            { ...data, validUntil: data.validUntil ? toDate(data.validUntil) : null },
+            req.user!.userId
+        );
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'Quotation', quotation.id, undefined, quotation, req);
+        announce(quotation.projectId, quotation.id, 'created', req.user?.userId);
+
+        res.status(201).json(quotation);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Create quotation error:', error);
+        res.status(500).json({ error: 'Failed to create quotation' });
+    }
+};
+
+export const updateQuotation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { validUntil, ...data } = quotationUpdateSchema.parse(req.body);
+        const before = await invoicingService.getQuotation(req.params.quotationId);
+        const quotation = await invoicingService.updateQuotation(before.id, {
+            ...data,
+            ...(validUntil !== undefined && { validUntil: validUntil ? toDate(validUntil) : null }),
+        });
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'Quotation', quotation.id, before, quotation, req);
+        announce(quotation.projectId, quotation.id, 'updated', req.user?.userId);
+
+        res.json(quotation);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Update quotation error:', error);
+        res.status(500).json({ error: 'Failed to update quotation' });
+    }
+};
+
+export const createWorkOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = workOrderSchema.parse(req.body);
+        const workOrder = await invoicingService.createWorkOrder(
+            req.params.projectId,
+            { ...data, orderDate: toDate(data.orderDate) },
+            req.user!.userId
+        );
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'WorkOrder', workOrder.id, undefined, workOrder, req);
+        announce(workOrder.projectId, workOrder.id, 'created', req.user?.userId);
+
+        res.status(201).json(workOrder);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Create work order error:', error);
+        res.status(500).json({ error: 'Failed to record work order' });
+    }
+};
+
+export const updateWorkOrderStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { status } = z.object({ status: z.enum(['OPEN', 'COMPLETED', 'CANCELLED']) }).parse(req.body);
+        const before = await invoicingService.getWorkOrder(req.params.workOrderId);
+        const workOrder = await invoicingService.setWorkOrderStatus(before.id, status);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'WorkOrder', workOrder.id, { status: before.status }, { status }, req);
+        announce(workOrder.projectId, workOrder.id, 'updated', req.user?.userId);
+
+        res.json(workOrder);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Update work order error:', error);
+        res.status(500).json({ error: 'Failed to update work order' });
+    }
+};
+
+export const createInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = invoiceSchema.parse(req.body);
+        const invoice = await invoicingService.createInvoice(req.params.projectId, data, req.user!.userId);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'Invoice', invoice.id, undefined, invoice, req);
+        announce(invoice.projectId, invoice.id, 'created', req.user?.userId);
+
+        res.status(201).json(invoice);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Create invoice error:', error);
+        res.status(500).json({ error: 'Failed to create invoice' });
+    }
+};
+
+export const updateInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = invoiceSchema.partial().parse(req.body);
+        const before = await invoicingService.getInvoice(req.params.invoiceId);
+        const invoice = await invoicingService.updateInvoice(before.id, data);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'Invoice', invoice.id, before, invoice, req);
+        announce(invoice.projectId, invoice.id, 'updated', req.user?.userId);
+
+        res.json(invoice);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Update invoice error:', error);
+        res.status(500).json({ error: 'Failed to update invoice' });
+    }
+};
+
+export const deleteInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const invoice = await invoicingService.deleteInvoice(req.params.invoiceId);
+
+        await createAuditLog(req.user?.userId, 'DELETE', 'Invoice', invoice.id, invoice, undefined, req);
+        announce(invoice.projectId, invoice.id, 'deleted', req.user?.userId);
+
+        res.json({ message: 'Draft invoice deleted' });
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Delete invoice error:', error);
+        res.status(500).json({ error: 'Failed to delete invoice' });
+    }
+};
+
+// Numbers the draft and files the tax invoice PDF
+export const issueInvoice = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { invoiceDate } = z.object({ invoiceDate: day.optional() }).parse(req.body);
+        const invoice = await invoicingService.issueInvoice(
+            req.params.invoiceId,
+            invoiceDate ? toDate(invoiceDate) : new Date(),
+            req.user!.userId
+        );
+
+        await createAuditLog(req.user?.userId, 'ISSUE', 'Invoice', invoice.id, { status: 'DRAFT' }, {
+            status: invoice.status,
+            invoiceNumber: invoice.invoiceNumber,
+            totalINR: invoice.totalINR,
+        }, req);
+        announce(invoice.projectId, invoice.id, 'updated', req.user?.userId);
+
+        res.json(invoice);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Issue invoice error:', error);
+        res.status(500).json({ error: 'Failed to issue invoice' });
+    }
+};
+
+export const recordPayment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = paymentSchema.parse(req.body);
+        const invoice = await invoicingService.recordPayment(
+            req.params.invoiceId,
+            { ...data, receivedDate: toDate(data.receivedDate) },
+            req.user!.userId
+        );
+
+        await createAuditLog(req.user?.userId, 'PAYMENT', 'Invoice', invoice.id, undefined, {
+            ...data,
+            status: invoice.status,
+        }, req);
+        announce(invoice.projectId, invoice.id, 'updated', req.user?.userId);
+
+        res.status(201).json(invoice);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Record client payment error:', error);
+        res.status(500).json({ error: 'Failed to record payment' });
+    }
+};
+
+export const recordTdsCertificate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { reference, receivedAt } = z.object({ reference: z.string().trim().min(1), receivedAt: day }).parse(req.body);
+        const payment = await invoicingService.recordTdsCertificate(req.params.paymentId, reference, toDate(receivedAt));
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'ClientPayment', payment.id, undefined, { tdsCertificateRef: reference, receivedAt }, req);
+        res.json(payment);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Record TDS certificate error:', error);
+        res.status(500).json({ error: 'Failed to record TDS certificate' });
+    }
+};
+
+export const issueCreditNote = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = creditNoteSchema.parse(req.body);
+        const invoice = await invoicingService.issueCreditNote(
+            req.params.invoiceId,
+            { ...data, noteDate: toDate(data.noteDate) },
+            req.user!.userId
+        );
+
+        await createAuditLog(req.user?.userId, 'CREDIT', 'Invoice', invoice.id, undefined, {
+            ...data,
+            creditedINR: invoice.creditedINR,
+            status: invoice.status,
+        }, req);
+        announce(invoice.projectId, invoice.id, 'updated', req.user?.userId);
+
+        res.status(201).json(invoice);
+    } catch (error) {
+        if (handleInvoicingError(error, res)) return;
+        console.error('Issue credit note error:', error);
+        res.status(500).json({ error: 'Failed to issue credit note' });
+    }
+};
@@ -0,0 +1,181 @@
+import { Response } from 'express';
+import fs from 'fs';
+import prisma from '../config/database.js';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import {
+    monthlyReportService,
+    MonthlyReportError,
+    MONTHLY_REPORT_TYPES,
+} from '../services/monthly-report.service.js';
+import { z } from 'zod';
+
+// Validation schemas
+const generateSchema = z.object({
+    month: z.number().int().min(1).max(12),
+    year: z.number().int().min(2000).max(2100),
+    types: z.array(z.enum(MONTHLY_REPORT_TYPES)).min(1).optional(),
+    send: z.boolean().optional(),
+});
+
+const sendSchema = z.object({
+    recipients: z.array(z.string().email()).min(1).optional(),
+});
+
+const recipientsSchema = z.record(z.enum(MONTHLY_REPORT_TYPES), z.array(z.string().email()));
+
+const handleMonthlyReportError = (error: unknown, res: Response): boolean => {
+    if (error instanceof MonthlyReportError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// Generation history (?year=&type=)
+export const getMonthlyReports = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { year, type } = req.query;
+
+        const reports = await monthlyReportService.getHistory({
+            year: year ? parseInt(year as string, 10) : undefined,
+            type: MONTHLY_REPORT_TYPES.find(t => t === type),
+        });
+
+        res.json(reports);
+    } catch (error) {
+        console.error('Get monthly reports error:', error);
+        res.status(500).json({ error: 'Failed to fetch monthly reports' });
+    }
+};
+
+// Single report with its Markdown content
+export const getMonthlyReport = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const report = await prisma.monthlyReport.findUnique({ where: { id: req.params.id } });
+
+        if (!report) {
+            res.status(404).json({ error: 'Monthly report not found' });
+            return;
+        }
+
+        res.json(report);
+    } catch (error) {
+        console.error('Get monthly report error:', error);
+        res.status(500).json({ error: 'Failed to fetch monthly report' });
+    }
+};
+
+// Download the rendered PDF, or the Markdown source with ?format=md
+export const downloadMonthlyReport = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const report = await prisma.monthlyReport.findUnique({ where: { id: req.params.id } });
+
+        if (!report) {
+            res.status(404).json({ error: 'Monthly report not found' });
+            return;
+        }
+
+        const baseName = `${report.type}_${report.year}-${String(report.month).padStart(2, '0')}`;
+
+        if (req.query.format === 'md') {
+            res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="${baseName}.md"`);
+            res.send(report.content ?? '');
+            return;
+        }
+
+        if (!report.filePath || !fs.existsSync(report.filePath)) {
+            res.status(404).json({ error: 'File not found on server' });
+            return;
+        }
+
+        res.download(report.filePath, `${baseName}.pdf`);
+    } catch (error) {
+        console.error('Download monthly report error:', error);
+        res.status(500).json({ error: 'Failed to download monthly report' });
+    }
+};
+
+// Generate (or regenerate) a month's reports on demand, optionally mailing them
+export const generateMonthlyReports = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { month, year, types, send } = generateSchema.parse(req.body);
+        const generatedBy = req.user?.email;
+
+        const reports = [];
+        const failures: Array<{ type: string; error: string }> = [];
+        for (const type of types ?? MONTHLY_REPORT_TYPES) {
+            let report = await monthlyReportService.generate(month, year, type, { generatedBy });
+            if (send) {
+                try {
+                    report = await monthlyReportService.send(report.id);
+                } catch (error) {
+                    if (!(error instanceof MonthlyReportError)) throw error;
+                    failures.push({ type, error: error.message });
+                }
+            }
+            reports.push(report);
+        }
+
+        await createAuditLog(req.user?.userId, 'GENERATE', 'MonthlyReport', `${year}-${String(month).padStart(2, '0')}`, undefined, {
+            types: reports.map(r => r.type),
+            sent: !!send,
+        }, req);
+
+        res.status(201).json({ reports, failures });
+    } catch (error) {
+        if (handleMonthlyReportError(error, res)) return;
+        console.error('Generate monthly reports error:', error);
+        res.status(500).json({ error: 'Failed to generate monthly reports' });
+    }
+};
+
+// Email a report to its configured list, or to the given recipients
+export const sendMonthlyReport = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { recipients } = sendSchema.parse(req.body ?? {});
+
+        const report = await monthlyReportService.send(req.params.id, recipients);
+
+        await createAuditLog(req.user?.userId, 'SEND', 'MonthlyReport', report.id, undefined, {
+            recipients: recipients ?? 'configured',
+        }, req);
+
+        res.json(report);
+    } catch (error) {
+        if (handleMonthlyReportError(error, res)) return;
+        console.error('Send monthly report error:', error);
+        res.status(500).json({ error: 'Failed to send monthly report' });
+    }
+};
+
+export const getRecipients = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        res.json(await monthlyReportService.getRecipients());
+    } catch (error) {
+        console.error('Get monthly report recipients error:', error);
+        res.status(500).json({ error: 'Failed to fetch recipients' });
+    }
+};
+
+export const updateRecipients = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const recipients = recipientsSchema.parse(req.body);
+        const old = await monthlyReportService.getRecipients();
+
+        const updated = await monthlyReportService.setRecipients(recipients);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'SystemConfig', 'monthly_report_recipients', old, updated, req);
+
+        res.json(updated);
+    } catch (error) {
+        if (handleMonthlyReportError(error, res)) return;
+        console.error('Update monthly report recipients error:', error);
+        res.status(500).json({ error: 'Failed to update recipients' });
+    }
+};
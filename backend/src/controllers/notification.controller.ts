@@ -0,0 +1,118 @@
+import { Response } from 'express';
+import { NotificationChannel, NotificationType } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { notificationService } from '../services/notification.service.js';
+import { z } from 'zod';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+// Validation schemas
+const preferencesSchema = z.object({
+    preferences: z.record(z.nativeEnum(NotificationType), z.nativeEnum(NotificationChannel).nullable()).optional(),
+    quietHoursStart: timeOfDay.nullable().optional(),
+    quietHoursEnd: timeOfDay.nullable().optional(),
+}).refine(
+    data => (data.quietHoursStart === undefined) === (data.quietHoursEnd === undefined)
+        && (data.quietHoursStart === null) === (data.quietHoursEnd === null),
+    { message: 'Quiet hours need both a start and an end', path: ['quietHoursEnd'] }
+);
+
+const unsubscribeSchema = z.object({
+    token: z.string().min(1),
+    type: z.nativeEnum(NotificationType).optional(),
+});
+
+// Latest in-app notifications of the current user (?limit=, default 20)
+export const getNotifications = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const userId = req.user!.userId;
+        const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 100);
+
+        const [notifications, unreadCount] = await Promise.all([
+            notificationService.getNotifications(userId, limit),
+            notificationService.getUnreadCount(userId),
+        ]);
+
+        res.json({ notifications, unreadCount });
+    } catch (error) {
+        console.error('Get notifications error:', error);
+        res.status(500).json({ error: 'Failed to fetch notifications' });
+    }
+};
+
+export const markAsRead = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        await notificationService.markAsRead(req.params.id, req.user!.userId);
+        res.json({ message: 'Notification marked as read' });
+    } catch (error) {
+        console.error('Mark notification read error:', error);
+        res.status(500).json({ error: 'Failed to update notification' });
+    }
+};
+
+export const markAllAsRead = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        await notificationService.markAllAsRead(req.user!.userId);
+        res.json({ message: 'All notifications marked as read' });
+    } catch (error) {
+        console.error('Mark all notifications read error:', error);
+        res.status(500).json({ error: 'Failed to update notifications' });
+    }
+};
+
+// Current user's delivery channel per notification type and quiet hours
+export const getPreferences = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        res.json(await notificationService.getPreferences(req.user!.userId));
+    } catch (error) {
+        console.error('Get notification preferences error:', error);
+        res.status(500).json({ error: 'Failed to fetch notification preferences' });
+    }
+};
+
+export const updatePreferences = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = preferencesSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const old = await notificationService.getPreferences(userId);
+        const updated = await notificationService.updatePreferences(userId, data);
+
+        await createAuditLog(userId, 'UPDATE', 'NotificationPreference', userId, old, updated, req);
+
+        res.json(updated);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Update notification preferences error:', error);
+        res.status(500).json({ error: 'Failed to update notification preferences' });
+    }
+};
+
+// Public: target of the unsubscribe link in notification emails
+export const unsubscribe = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { token, type } = unsubscribeSchema.parse(req.body);
+
+        const result = await notificationService.unsubscribe(token, type);
+        if (!result) {
+            res.status(404).json({ error: 'Invalid or expired unsubscribe link' });
+            return;
+        }
+
+        res.json({
+            message: type ? `You will no longer receive ${type} emails` : 'You will no longer receive notification emails',
+            ...result,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Unsubscribe error:', error);
+        res.status(500).json({ error: 'Failed to unsubscribe' });
+    }
+};
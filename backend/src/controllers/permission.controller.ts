@@ -0,0 +1,82 @@
+import { Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { permissionService, PermissionError } from '../services/permission.service.js';
+import { PERMISSION_ACTIONS, PERMISSION_RESOURCES, LOCKED_GRANTS } from '../config/permissions.js';
+import { z } from 'zod';
+
+// Validation schemas ({ role: { resource: [actions] } }; resources and actions are checked against the catalog)
+const matrixSchema = z.object({
+    matrix: z.record(z.nativeEnum(UserRole), z.record(z.string(), z.array(z.string()))),
+});
+
+const handlePermissionError = (error: unknown, res: Response): boolean => {
+    if (error instanceof PermissionError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// Grants of the current user's role (drives page guards and menus in the frontend)
+export const getMyPermissions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const role = req.user!.role;
+        res.json({ role, permissions: await permissionService.getRolePermissions(role) });
+    } catch (error) {
+        console.error('Get my permissions error:', error);
+        res.status(500).json({ error: 'Failed to fetch permissions' });
+    }
+};
+
+// Full matrix with the resource catalog, for the editor in Settings
+export const getPermissionMatrix = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        res.json({
+            roles: Object.values(UserRole),
+            actions: PERMISSION_ACTIONS,
+            resources: PERMISSION_RESOURCES,
+            locked: LOCKED_GRANTS,
+            matrix: await permissionService.getMatrix(),
+        });
+    } catch (error) {
+        console.error('Get permission matrix error:', error);
+        res.status(500).json({ error: 'Failed to fetch permission matrix' });
+    }
+};
+
+export const updatePermissionMatrix = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { matrix } = matrixSchema.parse(req.body);
+
+        const old = await permissionService.getMatrix();
+        const updated = await permissionService.updateMatrix(matrix);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'RolePermission', undefined, old, updated, req);
+
+        res.json(updated);
+    } catch (error) {
+        if (handlePermissionError(error, res)) return;
+        console.error('Update permission matrix error:', error);
+        res.status(500).json({ error: 'Failed to update permission matrix' });
+    }
+};
+
+export const resetPermissionMatrix = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const old = await permissionService.getMatrix();
+        const updated = await permissionService.resetToDefaults();
+
+        await createAuditLog(req.user?.userId, 'RESET', 'RolePermission', undefined, old, updated, req);
+
+        res.json(updated);
+    } catch (error) {
+        console.error('Reset permission matrix error:', error);
+        res.status(500).json({ error: 'Failed to reset permission matrix' });
+    }
+};
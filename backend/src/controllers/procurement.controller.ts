@@ -0,0 +1,194 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { approvalService, ApprovalContext, ApprovalError } from '../services/approval.service.js';
+import { ArchiveError } from '../services/archive.service.js';
+import { LedgerError } from '../services/ledger.service.js';
+import { notificationService } from '../services/notification.service.js';
+import { procurementService, ProcurementError } from '../services/procurement.service.js';
+import { projectAccessService } from '../services/project-access.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+
+// Validation schemas
+const indentSchema = z.object({
+    category: z.string().min(1),
+    description: z.string().min(1),
+    justification: z.string().optional(),
+    vendor: z.string().optional(),
+    estimatedINR: z.number().positive(),
+    fiscalYear: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+});
+
+const purchaseOrderSchema = z.object({
+    poNumber: z.string().trim().min(1),
+    vendor: z.string().trim().min(1),
+    amountINR: z.number().positive(),
+});
+
+const reasonSchema = z.object({
+    reason: z.string().trim().min(3),
+});
+
+const closeSchema = z.object({
+    comments: z.string().optional(),
+});
+
+const handleProcurementError = (error: unknown, res: Response): boolean => {
+    if (
+        error instanceof ProcurementError || error instanceof ArchiveError ||
+        error instanceof LedgerError || error instanceof ApprovalError
+    ) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// Commitments change the project's available budget
+const announce = (projectId: string, entityId: string, action: 'created' | 'updated' | 'approved' | 'rejected', actorId?: string) => {
+    void realtimeService.projectUpdated({ projectId, entity: 'budget', action, entityId, actorId });
+};
+
+const decideIndent = async (ctx: ApprovalContext, approved: boolean) => {
+    const indent = await procurementService.decideIndent(ctx.workflow.entityId, ctx.actorId, approved, ctx.comments);
+
+    await createAuditLog(ctx.actorId, approved ? 'APPROVE' : 'REJECT', 'PurchaseIndent', indent.id, undefined, {
+        status: indent.status,
+        comments: ctx.comments ?? null,
+    });
+    announce(indent.projectId, indent.id, approved ? 'approved' : 'rejected', ctx.actorId);
+
+    await notificationService.createNotification({
+        userId: indent.requestedById,
+        type: 'BUDGET_REQUEST',
+        title: `Indent ${approved ? 'Approved' : 'Rejected'}`,
+        message: `Indent ${indent.indentNumber} has been ${approved ? 'approved and its amount committed' : 'rejected'}.${ctx.comments ? ' Comments: ' + ctx.comments : ''}`,
+        link: `/projects/${indent.projectId}`,
+    });
+};
+
+approvalService.registerHandler('PURCHASE_INDENT', {
+    onApproved: (ctx) => decideIndent(ctx, true),
+    onRejected: (ctx) => decideIndent(ctx, false),
+});
+
+export const getIndents = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const indents = await procurementService.listIndents(req.params.projectId);
+        res.json(indents);
+    } catch (error) {
+        console.error('Get indents error:', error);
+        res.status(500).json({ error: 'Failed to fetch indents' });
+    }
+};
+
+export const getPurchaseOrders = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const status = z.enum(['OPEN', 'CLOSED', 'CANCELLED']).optional().parse(req.query.status);
+        const orders = await procurementService.listOrders(req.params.projectId, status);
+        res.json(orders);
+    } catch (error) {
+        if (handleProcurementError(error, res)) return;
+        console.error('Get purchase orders error:', error);
+        res.status(500).json({ error: 'Failed to fetch purchase orders' });
+    }
+};
+
+// Raise a purchase indent; it commits funds once approved
+export const raiseIndent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = indentSchema.parse(req.body);
+        const indent = await procurementService.raiseIndent(req.params.projectId, data, req.user!.userId);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'PurchaseIndent', indent.id, undefined, indent, req);
+        announce(indent.projectId, indent.id, 'created', req.user?.userId);
+
+        res.status(201).json(indent);
+    } catch (error) {
+        if (handleProcurementError(error, res)) return;
+        console.error('Raise indent error:', error);
+        res.status(500).json({ error: 'Failed to raise indent' });
+    }
+};
+
+// The requester or the PI / Co-PIs may cancel an indent that has not been ordered
+export const cancelIndent = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { reason } = reasonSchema.parse(req.body);
+        const current = await procurementService.getIndent(req.params.indentId);
+        if (
+            current.requestedById !== req.user!.userId &&
+            !(await projectAccessService.can(req.user!, current.projectId, 'manage', ['finance', 'manage']))
+        ) {
+            res.status(403).json({ error: 'Only the requester or the project PI can cancel this indent' });
+            return;
+        }
+
+        const { before, indent } = await procurementService.cancelIndent(current.id, req.user!.userId, reason);
+
+        await createAuditLog(req.user?.userId, 'CANCEL', 'PurchaseIndent', indent.id, { status: before.status }, { status: indent.status, reason }, req);
+        announce(indent.projectId, indent.id, 'updated', req.user?.userId);
+
+        res.json(indent);
+    } catch (error) {
+        if (handleProcurementError(error, res)) return;
+        console.error('Cancel indent error:', error);
+        res.status(500).json({ error: 'Failed to cancel indent' });
+    }
+};
+
+export const issuePurchaseOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = purchaseOrderSchema.parse(req.body);
+        const order = await procurementService.issueOrder(req.params.indentId, data, req.user!.userId);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'PurchaseOrder', order.id, undefined, order, req);
+        announce(order.projectId, order.id, 'created', req.user?.userId);
+
+        res.status(201).json(order);
+    } catch (error) {
+        if (handleProcurementError(error, res)) return;
+        console.error('Issue purchase order error:', error);
+        res.status(500).json({ error: 'Failed to issue purchase order' });
+    }
+};
+
+export const closePurchaseOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { comments } = closeSchema.parse(req.body);
+        const { before, order } = await procurementService.closeOrder(req.params.orderId, req.user!.userId, comments);
+
+        await createAuditLog(req.user?.userId, 'CLOSE', 'PurchaseOrder', order.id, { status: before.status }, {
+            status: order.status,
+            releasedINR: Math.max(before.amountINR - before.invoicedINR, 0),
+        }, req);
+        announce(order.projectId, order.id, 'updated', req.user?.userId);
+
+        res.json(order);
+    } catch (error) {
+        if (handleProcurementError(error, res)) return;
+        console.error('Close purchase order error:', error);
+        res.status(500).json({ error: 'Failed to close purchase order' });
+    }
+};
+
+export const cancelPurchaseOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { reason } = reasonSchema.parse(req.body);
+        const { before, order } = await procurementService.cancelOrder(req.params.orderId, req.user!.userId, reason);
+
+        await createAuditLog(req.user?.userId, 'CANCEL', 'PurchaseOrder', order.id, { status: before.status }, { status: order.status, reason }, req);
+        announce(order.projectId, order.id, 'updated', req.user?.userId);
+
+        res.json(order);
+    } catch (error) {
+        if (handleProcurementError(error, res)) return;
+        console.error('Cancel purchase order error:', error);
+        res.status(500).json({ error: 'Failed to cancel purchase order' });
+    }
+};
@@ -1,10 +1,16 @@
 import { Response } from 'express';
 import prisma from '../config/database.js';
-import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { AuthenticatedRequest, JwtPayload } from '../middleware/auth.middleware.js';
 import { createAuditLog } from '../middleware/audit.middleware.js';
 import { generateProjectCode } from '../utils/helpers.js';
+import { archiveService } from '../services/archive.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+import { projectAccessService } from '../services/project-access.service.js';
+import { scheduleService } from '../services/schedule.service.js';
+import { bookedExpenses } from '../services/expense.service.js';
+import { fundingService } from '../services/funding.service.js';
 import { z } from 'zod';
-import { ProjectCategory, ProjectStatus } from '@prisma/client';
+import { Prisma, ProjectCategory, ProjectStatus } from '@prisma/client';
 
 // Validation schemas - more flexible to handle custom categories
 const createProjectSchema = z.object({
@@ -27,6 +33,99 @@ const updateProjectSchema = createProjectSchema.partial().extend({
     progress: z.number().min(0).max(100).optional(),
 });
 
+const projectRoleSchema = z.enum(['CO_PI', 'MEMBER', 'VIEWER']);
+
+
+export interface ProjectListFilters {
+    category?: string;
+    status?: string;
+    verticalId?: string;
+    vertical?: string;
+    search?: string;
+    projectHeadId?: string;
+}
+
+/**
+ * Where clause for project listings: the caller's role-based visibility plus the
+ * Projects page filters. Shared by the project list and the report exports so an
+ * export always contains exactly what the user can see on screen.
+ */
+export const buildProjectWhere = (user: JwtPayload | undefined, filters: ProjectListFilters): Prisma.ProjectWhereInput => {
+    const conditions: Prisma.ProjectWhereInput[] = [];
+
+    // Role-based access control
+    // Full access: ADMIN, SUPERVISOR, DIRECTOR, DIRECTOR_GENERAL
+    // Restricted access: PROJECT_HEAD, EMPLOYEE, RC_MEMBER, EXTERNAL_OWNER
+    const fullAccessRoles = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'];
+
+    if (!fullAccessRoles.includes(user?.role || '')) {
+        if (user?.role === 'PROJECT_HEAD') {
+            // Project heads see projects they head OR are staff on
+            conditions.push({
+                OR: [
+                    { projectHeadId: user.userId },
+                    { staff: { some: { userId: user.userId, isActive: true } } },
+                ],
+            });
+        } else if (user?.role === 'EMPLOYEE') {
+            // Employees only see projects they are actively assigned to
+            conditions.push({ staff: { some: { userId: user.userId, isActive: true } } });
+        } else if (user?.role === 'RC_MEMBER') {
+            // RC Members can see all active/completed projects for review purposes
+            conditions.push({ status: { in: ['ACTIVE', 'COMPLETED', 'PENDING_APPROVAL'] } });
+        } else if (user?.role === 'EXTERNAL_OWNER') {
+            // External owners can only see projects they're linked to
+            conditions.push({
+                OR: [
+                    { projectHeadId: user.userId },
+                    { staff: { some: { userId: user.userId } } },
+                ],
+            });
+        } else {
+            // Unknown role - no access
+            conditions.push({ id: 'no-access' });
+        }
+    }
+    // Full access roles see all projects (no additional filtering)
+
+    // Apply filters; 'ALL' is what the Projects page sends for an unset dropdown
+    const value = (v?: string) => (v && v !== 'ALL' ? v : undefined);
+
+    if (value(filters.category)) conditions.push({ category: filters.category as ProjectCategory });
+    if (value(filters.status)) conditions.push({ status: filters.status as ProjectStatus });
+    if (value(filters.verticalId)) conditions.push({ verticalId: filters.verticalId });
+    if (value(filters.vertical)) {
+        conditions.push({ OR: [{ verticalId: filters.vertical }, { vertical: { code: filters.vertical } }] });
+    }
+    if (value(filters.projectHeadId)) conditions.push({ projectHeadId: filters.projectHeadId });
+    if (value(filters.search)) {
+        const search = filters.search!.trim();
+        const [first, ...rest] = search.split(/\s+/);
+        conditions.push({
+            OR: [
+                { title: { contains: search, mode: 'insensitive' } },
+                { code: { contains: search, mode: 'insensitive' } },
+                { description: { contains: search, mode: 'insensitive' } },
+                // Project head by name, e.g. "Saptarshi" or "Saptarshi Sasmal"
+                {
+                    projectHead: rest.length
+                        ? {
+                            firstName: { contains: first, mode: 'insensitive' },
+                            lastName: { contains: rest.join(' '), mode: 'insensitive' },
+                        }
+                        : {
+                            OR: [
+                                { firstName: { contains: first, mode: 'insensitive' } },
+                                { lastName: { contains: first, mode: 'insensitive' } },
+                            ],
+                        },
+                },
+            ],
+        });
+    }
+
+    return { AND: conditions };
+};
 
 // Get all projects (filtered by role)
 export const getProjects = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
@@ -40,60 +139,13 @@ export const getProjects = async (req: AuthenticatedRequest, res: Response): Pro
             verticalId,
             search,
             projectHeadId
-        } = req.query;
+        } = req.query as Record<string, string | undefined>;
 
         const pageNum = parseInt(page as string, 10);
         const limitNum = parseInt(limit as string, 10);
         const skip = (pageNum - 1) * limitNum;
 
-        // Build where clause based on role
-        const where: any = {};
-
-        // Role-based access control
-        // Full access: ADMIN, SUPERVISOR, DIRECTOR, DIRECTOR_GENERAL
-        // Restricted access: PROJECT_HEAD, EMPLOYEE, RC_MEMBER, EXTERNAL_OWNER
-        const fullAccessRoles = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'];
-
-        if (!fullAccessRoles.includes(user?.role || '')) {
-            if (user?.role === 'PROJECT_HEAD') {
-                // Project heads see projects they head OR are staff on
-                where.OR = [
-                    { projectHeadId: user.userId },
-                    { staff: { some: { userId: user.userId, isActive: true } } },
-                ];
-            } else if (user?.role === 'EMPLOYEE') {
-                // Employees only see projects they are actively assigned to
-                where.staff = {
-                    some: { userId: user.userId, isActive: true },
-                };
-            } else if (user?.role === 'RC_MEMBER') {
-                // RC Members can see all active/completed projects for review purposes
-                where.status = { in: ['ACTIVE', 'COMPLETED', 'PENDING_APPROVAL'] };
-            } else if (user?.role === 'EXTERNAL_OWNER') {
-                // External owners can only see projects they're linked to
-                where.OR = [
-                    { projectHeadId: user.userId },
-                    { staff: { some: { userId: user.userId } } },
-                ];
-            } else {
-                // Unknown role - no access
-                where.id = 'no-access';
-            }
-        }
-        // Full access roles see all projects (no additional filtering)
-
-        // Apply filters
-        if (category) where.category = category as ProjectCategory;
-        if (status) where.status = status as ProjectStatus;
-        if (verticalId) where.verticalId = verticalId;
-        if (projectHeadId) where.projectHeadId = projectHeadId;
-        if (search) {
-            where.OR = [
-                { title: { contains: search as string, mode: 'insensitive' } },
-                { code: { contains: search as string, mode: 'insensitive' } },
-                { description: { contains: search as string, mode: 'insensitive' } },
-            ];
-        }
+        const where = buildProjectWhere(user, { category, status, verticalId, search, projectHeadId });
 
         const [projects, total] = await Promise.all([
             prisma.project.findMany({
@@ -194,7 +246,18 @@ export const getProject = async (req: AuthenticatedRequest, res: Response): Prom
             return;
         }
 
-        res.json(project);
+        // What the caller may do here, so the page only offers actions the API will accept
+        const user = req.user!;
+        const [membership, canManage, canContribute] = await Promise.all([
+            projectAccessService.getAccess(user.userId, id),
+            projectAccessService.can(user, id, 'manage', ['projects', 'update']),
+            projectAccessService.can(user, id, 'contribute', ['comments', 'create']),
+        ]);
+
+        res.json({
+            ...project,
+            access: { role: membership?.role ?? null, canManage: !!canManage, canContribute: !!canContribute },
+        });
     } catch (error) {
         console.error('Get project error:', error);
         res.status(500).json({ error: 'Failed to fetch project' });
@@ -299,12 +362,12 @@ export const updateProject = async (req: AuthenticatedRequest, res: Response): P
             return;
         }
 
-        // Check permission
-        if (
-            req.user?.role === 'PROJECT_HEAD' &&
-            existingProject.projectHeadId !== req.user.userId
-        ) {
-            res.status(403).json({ error: 'Not authorized to update this project' });
+        const closedStatuses = ['COMPLETED', 'CANCELLED'];
+        const closing = !!data.status && closedStatuses.includes(data.status) && !closedStatuses.includes(existingProject.status);
+
+        // An archived project can only be reopened through a restore
+        if (existingProject.archivedAt && data.status && !closedStatuses.includes(data.status)) {
+            res.status(423).json({ error: 'Project is archived; restore it from the archive before reopening it' });
             return;
         }
 
@@ -338,6 +401,15 @@ export const updateProject = async (req: AuthenticatedRequest, res: Response): P
             req
         );
 
+        // Closing a project freezes its reports, documents, budgets and minutes
+        if (closing) {
+            const archive = await archiveService.archiveProject(project.id, req.user!.userId, data.status!);
+            await createAuditLog(req.user?.userId, 'ARCHIVE', 'Project', project.id, undefined, {
+                archiveId: archive.id,
+                summary: archive.summary,
+            }, req);
+        }
+
         res.json(project);
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -394,7 +466,7 @@ export const getProjectStats = async (req: AuthenticatedRequest, res: Response):
             include: {
                 staff: { where: { isActive: true } },
                 budgets: true,
-                expenses: true,
+                expenses: { where: bookedExpenses },
                 outputs: true,
                 milestones: true,
             },
@@ -462,6 +534,13 @@ export const addProjectStaff = async (req: AuthenticatedRequest, res: Response):
         const { id } = req.params;
         const { userId, role } = req.body;
 
+        const parsedRole = projectRoleSchema.optional().safeParse(req.body.projectRole);
+        if (!parsedRole.success) {
+            res.status(400).json({ error: 'Validation failed', details: parsedRole.error.errors });
+            return;
+        }
+        const projectRole = parsedRole.data;
+
         const project = await prisma.project.findUnique({
             where: { id },
         });
@@ -471,6 +550,11 @@ export const addProjectStaff = async (req: AuthenticatedRequest, res: Response):
             return;
         }
 
+        if (userId === project.projectHeadId) {
+            res.status(400).json({ error: 'The project head is already the PI of this project' });
+            return;
+        }
+
         const existingStaff = await prisma.projectStaff.findUnique({
             where: {
                 projectId_userId: { projectId: id, userId },
@@ -485,7 +569,7 @@ export const addProjectStaff = async (req: AuthenticatedRequest, res: Response):
             // Reactivate
             await prisma.projectStaff.update({
                 where: { id: existingStaff.id },
-                data: { isActive: true, leftAt: null, role },
+                data: { isActive: true, leftAt: null, role, projectRole },
             });
         } else {
             await prisma.projectStaff.create({
@@ -493,6 +577,7 @@ export const addProjectStaff = async (req: AuthenticatedRequest, res: Response):
                     projectId: id,
                     userId,
                     role,
+                    projectRole,
                 },
             });
         }
@@ -527,6 +612,48 @@ export const removeProjectStaff = async (req: AuthenticatedRequest, res: Respons
     }
 };
 
+// Change a team member's project role (Co-PI, member or viewer)
+export const updateProjectStaffRole = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, userId } = req.params;
+
+        const parsedRole = projectRoleSchema.safeParse(req.body.projectRole);
+        if (!parsedRole.success) {
+            res.status(400).json({ error: 'Validation failed', details: parsedRole.error.errors });
+            return;
+        }
+
+        const existingStaff = await prisma.projectStaff.findUnique({
+            where: { projectId_userId: { projectId: id, userId } },
+        });
+
+        if (!existingStaff || !existingStaff.isActive) {
+            res.status(404).json({ error: 'Staff member not found on this project' });
+            return;
+        }
+
+        const staff = await prisma.projectStaff.update({
+            where: { id: existingStaff.id },
+            data: { projectRole: parsedRole.data },
+        });
+
+        await createAuditLog(
+            req.user?.userId,
+            'UPDATE_PROJECT_ROLE',
+            'ProjectStaff',
+            staff.id,
+            { projectRole: existingStaff.projectRole },
+            { projectRole: staff.projectRole },
+            req
+        );
+
+        res.json(staff);
+    } catch (error) {
+        console.error('Update staff role error:', error);
+        res.status(500).json({ error: 'Failed to update staff role' });
+    }
+};
+
 // Bulk add staff to project
 export const bulkAddProjectStaff = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -538,6 +665,13 @@ export const bulkAddProjectStaff = async (req: AuthenticatedRequest, res: Respon
             return;
         }
 
+        const parsedRole = projectRoleSchema.optional().safeParse(req.body.projectRole);
+        if (!parsedRole.success) {
+            res.status(400).json({ error: 'Validation failed', details: parsedRole.error.errors });
+            return;
+        }
+        const projectRole = parsedRole.data;
+
         const project = await prisma.project.findUnique({
             where: { id },
             include: { projectHead: true },
@@ -564,7 +698,7 @@ export const bulkAddProjectStaff = async (req: AuthenticatedRequest, res: Respon
                         // Reactivate
                         await prisma.projectStaff.update({
                             where: { id: existingStaff.id },
-                            data: { isActive: true, leftAt: null, role },
+                            data: { isActive: true, leftAt: null, role, projectRole },
                         });
                         addedCount++;
                     } else {
@@ -576,6 +710,7 @@ export const bulkAddProjectStaff = async (req: AuthenticatedRequest, res: Respon
                             projectId: id,
                             userId,
                             role,
+                            projectRole,
                         },
                     });
                     addedCount++;
@@ -614,6 +749,10 @@ export const addMilestone = async (req: AuthenticatedRequest, res: Response): Pr
             },
         });
 
+        void realtimeService.projectUpdated({
+            projectId: id, entity: 'milestone', action: 'created', entityId: milestone.id, actorId: req.user?.userId,
+        });
+
         res.status(201).json(milestone);
     } catch (error) {
         console.error('Add milestone error:', error);
@@ -627,6 +766,17 @@ export const updateMilestone = async (req: AuthenticatedRequest, res: Response):
         const { id, milestoneId } = req.params;
         const { title, description, startDate, endDate, status, progress, order } = req.body;
 
+        // Access was checked against the project in the URL, so the milestone must belong to it
+        const existing = await prisma.milestone.findFirst({
+            where: { id: milestoneId, projectId: id },
+            select: { id: true, status: true },
+        });
+
+        if (!existing) {
+            res.status(404).json({ error: 'Milestone not found' });
+            return;
+        }
+
         const milestone = await prisma.milestone.update({
             where: { id: milestoneId },
             data: {
@@ -640,7 +790,19 @@ export const updateMilestone = async (req: AuthenticatedRequest, res: Response):
             },
         });
 
-        res.json(milestone);
+        // Successors follow a slipped milestone
+        const rescheduled = startDate || endDate ? await scheduleService.reschedule(id) : [];
+
+        // Sponsor instalments tied to the milestone become claimable
+        if (milestone.status === 'COMPLETED' && existing.status !== 'COMPLETED') {
+            await fundingService.milestoneCompleted(milestone.id);
+        }
+
+        void realtimeService.projectUpdated({
+            projectId: milestone.projectId, entity: 'milestone', action: 'updated', entityId: milestone.id, actorId: req.user?.userId,
+        });
+
+        res.json({ ...milestone, ...rescheduled.find(m => m.id === milestone.id), rescheduled });
     } catch (error) {
         console.error('Update milestone error:', error);
         res.status(500).json({ error: 'Failed to update milestone' });
@@ -738,6 +900,10 @@ export const addProjectComment = async (req: AuthenticatedRequest, res: Response
             },
         });
 
+        void realtimeService.projectUpdated({
+            projectId: id, entity: 'comment', action: 'created', entityId: comment.id, actorId: req.user?.userId, isPrivate: comment.isPrivate,
+        });
+
         res.status(201).json(comment);
     } catch (error) {
         console.error('Add project comment error:', error);
@@ -755,14 +921,14 @@ export const deleteProjectComment = async (req: AuthenticatedRequest, res: Respo
             where: { id: commentId },
         });
 
-        if (!comment) {
+        if (!comment || comment.projectId !== id) {
             res.status(404).json({ error: 'Comment not found' });
             return;
         }
 
-        // Only comment author or admins can delete
-        const canDelete = ['ADMIN', 'DIRECTOR', 'SUPERVISOR'].includes(user?.role || '') ||
-            comment.userId === user?.userId;
+        // The author, the PI and Co-PIs, or institute roles allowed to moderate the journal
+        const canDelete = comment.userId === user!.userId ||
+            !!(await projectAccessService.can(user!, id, 'manage', ['comments', 'delete']));
 
         if (!canDelete) {
             res.status(403).json({ error: 'Not authorized to delete this comment' });
@@ -773,6 +939,10 @@ export const deleteProjectComment = async (req: AuthenticatedRequest, res: Respo
             where: { id: commentId },
         });
 
+        void realtimeService.projectUpdated({
+            projectId: comment.projectId, entity: 'comment', action: 'deleted', entityId: comment.id, actorId: user?.userId, isPrivate: comment.isPrivate,
+        });
+
         res.json({ message: 'Comment deleted successfully' });
     } catch (error) {
         console.error('Delete project comment error:', error);
@@ -3,7 +3,12 @@ import prisma from '../config/database.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { createAuditLog } from '../middleware/audit.middleware.js';
 import { notificationService } from '../services/notification.service.js';
+import { reportPdfService } from '../services/report-pdf.service.js';
+import { isLetterheadTemplate } from '../services/pdf.service.js';
+import { archiveService, ArchiveError } from '../services/archive.service.js';
+import { baselineService } from '../services/baseline.service.js';
 import { z } from 'zod';
+import { bookedExpenses } from '../services/expense.service.js';
 
 // Validation schemas
 const createMeetingSchema = z.object({
@@ -294,6 +299,9 @@ export const recordMinutes = async (req: AuthenticatedRequest, res: Response): P
             orderBy: { version: 'desc' },
         });
 
+        // Minutes of an archived fiscal year cannot be revised
+        if (latestMinutes) archiveService.assertNotFrozen(latestMinutes, 'These minutes');
+
         const nextVersion = (latestMinutes?.version || 0) + 1;
 
         const minutes = await prisma.rCMinutes.create({
@@ -354,16 +362,38 @@ export const recordMinutes = async (req: AuthenticatedRequest, res: Response): P
             res.status(400).json({ error: 'Validation failed', details: error.errors });
             return;
         }
+        if (error instanceof ArchiveError) {
+            res.status(error.statusCode).json({ error: error.message });
+            return;
+        }
         console.error('Record minutes error:', error);
         res.status(500).json({ error: 'Failed to record minutes' });
     }
 };
 
-// Generate meeting pack (agenda + project stats)
+// Generate meeting pack (agenda + project stats) as PDF, or the raw data with ?format=json
 export const generateMeetingPack = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
 
+        if (req.query.format !== 'json') {
+            const pdf = await reportPdfService.meetingPack(id, {
+                detailed: true,
+                letterhead: isLetterheadTemplate(req.query.letterhead) ? req.query.letterhead : undefined,
+                generatedBy: req.user?.email,
+            });
+
+            if (!pdf) {
+                res.status(404).json({ error: 'Meeting not found' });
+                return;
+            }
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="rc_meeting_pack_${id}.pdf"`);
+            res.send(pdf);
+            return;
+        }
+
         const meeting = await prisma.rCMeeting.findUnique({
             where: { id },
             include: {
@@ -382,7 +412,7 @@ export const generateMeetingPack = async (req: AuthenticatedRequest, res: Respon
                                 },
                                 staff: { where: { isActive: true } },
                                 budgets: true,
-                                expenses: true,
+                                expenses: { where: bookedExpenses },
                                 milestones: true,
                                 outputs: true,
                             },
@@ -405,7 +435,7 @@ export const generateMeetingPack = async (req: AuthenticatedRequest, res: Respon
                 date: meeting.date,
                 venue: meeting.venue,
             },
-            agenda: meeting.agendaItems.map(item => {
+            agenda: await Promise.all(meeting.agendaItems.map(async item => {
                 const project = item.project;
                 let projectStats = null;
 
@@ -438,6 +468,8 @@ export const generateMeetingPack = async (req: AuthenticatedRequest, res: Respon
                             start: project.startDate,
                             end: project.endDate,
                         },
+                        // Against the primary baseline; null until one is captured
+                        variance: await baselineService.variance(project.id),
                     };
                 }
 
@@ -450,7 +482,7 @@ export const generateMeetingPack = async (req: AuthenticatedRequest, res: Respon
                     description: item.description,
                     projectStats,
                 };
-            }),
+            })),
             generatedAt: new Date().toISOString(),
             generatedBy: `${req.user?.email}`,
         };
@@ -648,79 +680,27 @@ export const finalizeAgendaItem = async (req: AuthenticatedRequest, res: Respons
     }
 };
 
-// Generate agenda PDF
+// Generate agenda PDF (agenda items with comments and decisions)
 export const generateAgendaPDF = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
 
-        const meeting = await prisma.rCMeeting.findUnique({
-            where: { id },
-            include: {
-                agendaItems: {
-                    orderBy: { itemNumber: 'asc' },
-                    include: {
-                        project: {
-                            include: {
-                                vertical: true,
-                                projectHead: {
-                                    select: { firstName: true, lastName: true, designation: true },
-                                },
-                            },
-                        },
-                        comments: {
-                            include: {
-                                user: {
-                                    select: { firstName: true, lastName: true, role: true },
-                                },
-                            },
-                        },
-                    },
-                },
-            },
+        const pdf = await reportPdfService.meetingPack(id, {
+            detailed: false,
+            letterhead: isLetterheadTemplate(req.query.letterhead) ? req.query.letterhead : undefined,
+            generatedBy: req.user?.email,
         });
 
-        if (!meeting) {
+        if (!pdf) {
             res.status(404).json({ error: 'Meeting not found' });
             return;
         }
 
-        // Generate HTML content for PDF (can be processed by client-side jsPDF or server-side puppeteer)
-        const pdfData = {
-            meeting: {
-                title: meeting.title,
-                number: meeting.meetingNumber,
-                date: meeting.date,
-                venue: meeting.venue,
-            },
-            agendaItems: meeting.agendaItems.map(item => ({
-                itemNumber: item.itemNumber,
-                title: item.title,
-                type: item.type,
-                presenter: item.presenter,
-                description: item.description,
-                status: item.status,
-                remarks: item.remarks,
-                project: item.project ? {
-                    code: item.project.code,
-                    title: item.project.title,
-                    pi: `${item.project.projectHead?.firstName} ${item.project.projectHead?.lastName}`,
-                    vertical: item.project.vertical?.name,
-                } : null,
-                comments: item.comments.map(c => ({
-                    content: c.content,
-                    author: `${c.user.firstName} ${c.user.lastName}`,
-                    role: c.user.role,
-                    isRecommendation: c.isRecommendation,
-                    date: c.createdAt,
-                })),
-            })),
-            generatedAt: new Date().toISOString(),
-            generatedBy: req.user?.email,
-        };
-
-        res.json(pdfData);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="rc_meeting_agenda_${id}.pdf"`);
+        res.send(pdf);
     } catch (error) {
         console.error('Generate agenda PDF error:', error);
-        res.status(500).json({ error: 'Failed to generate PDF data' });
+        res.status(500).json({ error: 'Failed to generate PDF' });
     }
 };
@@ -9,16 +9,14 @@ import { z } from 'zod';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import nodemailer from 'nodemailer';
-
-// Email transporter
-const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-        user: process.env.SMTP_USER || 'ictserc@gmail.com',
-        pass: process.env.SMTP_PASS || 'yyhoakynckydyybm'
-    }
-});
+import { approvalService, ApprovalContext, ApprovalError } from '../services/approval.service.js';
+import { reportPdfService } from '../services/report-pdf.service.js';
+import { isLetterheadTemplate } from '../services/pdf.service.js';
+import { archiveService, ArchiveError } from '../services/archive.service.js';
+import { notificationService } from '../services/notification.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+import { reportXlsxService } from '../services/report-xlsx.service.js';
+import { buildProjectWhere } from './project.controller.js';
 
 // File upload configuration
 const uploadDir = path.join(process.cwd(), 'uploads', 'reports');
@@ -58,40 +56,90 @@ const createReportSchema = z.object({
     period: z.string().optional()
 });
 
-// Check if user can manage reports
-const canApproveReports = (role: string): boolean => {
-    return ['ADMIN', 'SUPERVISOR', 'DIRECTOR'].includes(role);
-};
-
-// Check if user can submit reports for project
-const canSubmitReport = async (userId: string, projectId: string): Promise<boolean> => {
-    const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-            staff: { where: { userId, isActive: true } }
+// Applies the outcome of a report's approval workflow
+const decideReport = async (ctx: ApprovalContext, status: 'APPROVED' | 'REJECTED' | 'REVISION_REQUESTED'): Promise<void> => {
+    const report = await prisma.projectReport.findUnique({
+        where: { id: ctx.workflow.entityId },
+        include: { project: true }
+    });
+    if (!report) return;
+
+    await prisma.projectReport.update({
+        where: { id: report.id },
+        data: {
+            status,
+            approvedById: ctx.actorId,
+            approvedAt: new Date(),
+            comments: ctx.comments
         }
     });
 
-    if (!project) return false;
+    // If completion report approved, notify the project head to proceed with closure
+    if (report.reportType === 'COMPLETION' && status === 'APPROVED') {
+        await notificationService.createNotification({
+            userId: report.project.projectHeadId,
+            type: 'PROJECT_CLOSURE',
+            title: 'Completion Report Approved',
+            message: `Your completion report for ${report.project.code} has been approved. Proceed with final closure.`,
+            link: `/projects/${report.projectId}`,
+        });
+
+        // Update project status
+        await prisma.project.update({
+            where: { id: report.projectId },
+            data: { status: 'COMPLETED' }
+        });
+
+        // Closing the project freezes its records (including this report)
+        await archiveService.archiveProject(report.projectId, ctx.actorId, 'COMPLETED');
+    }
+
+    const outcome = status === 'REVISION_REQUESTED' ? 'returned for revision' : status.toLowerCase();
 
-    // Project head or active team member can submit
-    return project.projectHeadId === userId || project.staff.length > 0;
+    void realtimeService.projectUpdated({
+        projectId: report.projectId,
+        entity: 'report',
+        action: status === 'REVISION_REQUESTED' ? 'returned' : status === 'APPROVED' ? 'approved' : 'rejected',
+        entityId: report.id,
+        actorId: ctx.actorId,
+    });
+
+    // Notify submitter
+    await notificationService.createNotification({
+        userId: report.submittedById,
+        type: 'APPROVAL_REQUIRED',
+        title: `Report ${status === 'REVISION_REQUESTED' ? 'Returned' : status}`,
+        message: `Your ${report.reportType} report for ${report.project.code} has been ${outcome}.${ctx.comments ? ' Comments: ' + ctx.comments : ''}`,
+        link: `/projects/${report.projectId}`,
+    });
 };
 
+approvalService.registerHandler('REPORT_APPROVAL', {
+    onApproved: (ctx) => decideReport(ctx, 'APPROVED'),
+    onRejected: (ctx) => decideReport(ctx, 'REJECTED'),
+    onRevisionRequested: (ctx) => decideReport(ctx, 'REVISION_REQUESTED'),
+});
+
+const startReportWorkflow = (
+    report: { id: string; projectId: string; submittedById: string; reportType: string },
+    project: { code: string; title: string }
+) =>
+    approvalService.start({
+        type: 'REPORT_APPROVAL',
+        entityType: 'ProjectReport',
+        entityId: report.id,
+        requesterId: report.submittedById,
+        title: `${report.reportType === 'COMPLETION' ? 'Completion report' : 'Report'} for ${project.code}: ${project.title}`,
+        link: `/projects/${report.projectId}`
+    });
+
 export const reportController = {
-    // Create project report/update
+    // Create project report/update (PI, Co-PIs and members; checked on the route)
     async createReport(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
             const { projectId } = req.params;
             const userId = req.user!.userId;
 
-            // Check permission
-            const canSubmit = await canSubmitReport(userId, projectId);
-            if (!canSubmit) {
-                res.status(403).json({ error: 'You are not authorized to submit reports for this project' });
-                return;
-            }
-
             const validation = createReportSchema.safeParse(req.body);
             if (!validation.success) {
                 res.status(400).json({ error: validation.error.errors });
@@ -111,6 +159,8 @@ export const reportController = {
                 return;
             }
 
+            archiveService.assertNotFrozen(project, `Project ${project.code}`);
+
             // Create report
             const report = await prisma.projectReport.create({
                 data: {
@@ -130,38 +180,25 @@ export const reportController = {
                 data: { updatedAt: new Date() }
             });
 
-            // For completion reports, notify BKMD Head for approval
+            // Completion reports go through the approval workflow (notifies BKMD Head)
             if (reportType === 'COMPLETION') {
-                const supervisors = await prisma.user.findMany({
-                    where: { role: 'SUPERVISOR', isActive: true }
-                });
-
-                for (const supervisor of supervisors) {
-                    await prisma.notification.create({
-                        data: {
-                            userId: supervisor.id,
-                            type: 'APPROVAL_REQUIRED',
-                            title: 'Project Completion Report - Approval Required',
-                            message: `Completion report submitted for ${project.code}: ${project.title}`,
-                            link: `/projects/${projectId}/reports/${report.id}`,
-                            isRead: false
-                        }
-                    });
-                }
+                await startReportWorkflow(report, project);
 
                 // Also notify project head
-                await transporter.sendMail({
-                    from: '"CSIR-SERC PMS" <ictserc@gmail.com>',
-                    to: project.projectHead.email,
-                    subject: `Completion Report Submitted: ${project.code}`,
-                    html: `
-                        <h2>Completion Report Submitted</h2>
+                await notificationService.createNotification({
+                    userId: project.projectHeadId,
+                    type: 'PROJECT_CLOSURE',
+                    title: `Completion Report Submitted: ${project.code}`,
+                    message: `A completion report "${title}" has been submitted for ${project.code} and is pending approval from Head, BKMD.`,
+                    link: `/projects/${projectId}`,
+                    sendEmail: true,
+                    emailBody: `
                         <p>A completion report has been submitted for review:</p>
                         <p><strong>Project:</strong> ${project.code} - ${project.title}</p>
                         <p><strong>Title:</strong> ${title}</p>
                         <p>The report is pending approval from Head, BKMD.</p>
-                    `
-                }).catch((err: Error) => console.error('Email error:', err));
+                    `,
+                });
             }
 
             await createAuditLog(userId, 'CREATE', 'ProjectReport', report.id, undefined, {
@@ -170,8 +207,16 @@ export const reportController = {
                 title
             }, req);
 
+            void realtimeService.projectUpdated({
+                projectId, entity: 'report', action: 'submitted', entityId: report.id, actorId: userId,
+            });
+
             res.status(201).json(report);
         } catch (error) {
+            if (error instanceof ApprovalError || error instanceof ArchiveError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Create report error:', error);
             res.status(500).json({ error: 'Failed to create report' });
         }
@@ -231,28 +276,20 @@ export const reportController = {
         }
     },
 
-    // Approve/Reject report (BKMD Head, Director)
+    // Approve/Reject/Return the current approval step of a report
     async approveReport(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canApproveReports(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const { reportId } = req.params;
             const { action, comments } = req.body;
 
-            if (!['APPROVED', 'REJECTED'].includes(action)) {
-                res.status(400).json({ error: 'Invalid action. Use APPROVED or REJECTED' });
+            if (!['APPROVED', 'REJECTED', 'REVISION_REQUESTED'].includes(action)) {
+                res.status(400).json({ error: 'Invalid action. Use APPROVED, REJECTED or REVISION_REQUESTED' });
                 return;
             }
 
             const report = await prisma.projectReport.findUnique({
                 where: { id: reportId },
-                include: {
-                    project: { include: { projectHead: true } },
-                    submittedBy: true
-                }
+                include: { project: { select: { code: true, title: true } } }
             });
 
             if (!report) {
@@ -260,53 +297,34 @@ export const reportController = {
                 return;
             }
 
-            // Update report status
-            const updatedReport = await prisma.projectReport.update({
-                where: { id: reportId },
-                data: {
-                    status: action,
-                    approvedById: req.user!.userId,
-                    approvedAt: new Date(),
-                    comments
-                }
-            });
+            if (report.status !== 'PENDING') {
+                res.status(400).json({ error: 'Report is not pending approval' });
+                return;
+            }
 
-            // If completion report approved, notify BKMD Head for project closure
-            if (report.reportType === 'COMPLETION' && action === 'APPROVED') {
-                await prisma.notification.create({
-                    data: {
-                        userId: report.project.projectHeadId,
-                        type: 'PROJECT_CLOSURE',
-                        title: 'Completion Report Approved',
-                        message: `Your completion report for ${report.project.code} has been approved. Proceed with final closure.`,
-                        link: `/projects/${report.projectId}`,
-                        isRead: false
-                    }
-                });
+            archiveService.assertNotFrozen(report, 'Report');
 
-                // Update project status
-                await prisma.project.update({
-                    where: { id: report.projectId },
-                    data: { status: 'COMPLETED' }
-                });
-            }
+            // Reports submitted before the approval workflow existed get one on first action
+            const workflow = await approvalService.getActiveWorkflow('ProjectReport', reportId)
+                ?? await startReportWorkflow(report, report.project);
 
-            // Notify submitter
-            await prisma.notification.create({
-                data: {
-                    userId: report.submittedById,
-                    type: 'APPROVAL_REQUIRED',
-                    title: `Report ${action}`,
-                    message: `Your ${report.reportType} report for ${report.project.code} has been ${action.toLowerCase()}.${comments ? ' Comments: ' + comments : ''}`,
-                    link: `/projects/${report.projectId}/reports/${reportId}`,
-                    isRead: false
-                }
-            });
+            await approvalService.act(
+                workflow.id,
+                { userId: req.user!.userId, role: req.user!.role },
+                action,
+                comments
+            );
 
-            await createAuditLog(req.user?.userId, 'APPROVE', 'ProjectReport', reportId, { status: report.status }, { status: action }, req);
+            await createAuditLog(req.user?.userId, action === 'APPROVED' ? 'APPROVE' : action === 'REJECTED' ? 'REJECT' : 'RETURN',
+                'ProjectReport', reportId, { status: report.status }, { action }, req);
 
+            const updatedReport = await prisma.projectReport.findUnique({ where: { id: reportId } });
             res.json(updatedReport);
         } catch (error) {
+            if (error instanceof ApprovalError || error instanceof ArchiveError) {
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Approve report error:', error);
             res.status(500).json({ error: 'Failed to approve report' });
         }
@@ -329,6 +347,8 @@ export const reportController = {
                 return;
             }
 
+            archiveService.assertNotFrozen(report, 'Report');
+
             const attachment = await prisma.reportAttachment.create({
                 data: {
                     reportId,
@@ -341,6 +361,11 @@ export const reportController = {
 
             res.status(201).json(attachment);
         } catch (error) {
+            if (error instanceof ArchiveError) {
+                fs.unlink(req.file!.path, () => undefined);
+                res.status(error.statusCode).json({ error: error.message });
+                return;
+            }
             console.error('Upload attachment error:', error);
             res.status(500).json({ error: 'Failed to upload attachment' });
         }
@@ -349,11 +374,6 @@ export const reportController = {
     // Get all pending approval reports (for BKMD Head)
     async getPendingReports(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canApproveReports(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const reports = await prisma.projectReport.findMany({
                 where: { status: 'PENDING' },
                 include: {
@@ -381,219 +401,54 @@ export const reportController = {
                 return;
             }
 
-            // Fetch data based on type
-            let data: any = {};
-            const reportDate = new Date().toISOString().split('T')[0];
-
-            // Get projects summary
-            const projects = await prisma.project.findMany({
-                select: {
-                    code: true,
-                    title: true,
-                    category: true,
-                    status: true,
-                    progress: true,
-                    projectHead: { select: { firstName: true, lastName: true } },
-                    vertical: { select: { name: true } },
-                    startDate: true,
-                    endDate: true,
-                    _count: { select: { staff: true } }
-                },
-                orderBy: { code: 'asc' }
-            });
+            if (format === 'pdf') {
+                const pdf = await reportPdfService.dashboardReport({
+                    letterhead: isLetterheadTemplate(req.query.letterhead) ? req.query.letterhead : undefined,
+                    generatedBy: req.user?.email,
+                });
 
-            // Get budget summary
-            const budgets = await prisma.budget.groupBy({
-                by: ['category'],
-                _sum: { amountINR: true, utilized: true }
-            });
+                res.setHeader('Content-Type', 'application/pdf');
+                res.setHeader('Content-Disposition', `attachment; filename="report_${type || 'dashboard'}_${new Date().toISOString().split('T')[0]}.pdf"`);
+                res.send(pdf);
+                return;
+            }
 
-            // Get project counts by status
-            const projectCounts = await prisma.project.groupBy({
-                by: ['status'],
-                _count: true
-            });
+            // Excel: one sheet per dataset, scoped by the same filters as the Projects page
+            const { category, status, verticalId, vertical, search, projectHeadId } = req.query as Record<string, string | undefined>;
+            const where = buildProjectWhere(req.user, { category, status, verticalId, vertical, search, projectHeadId });
 
-            // Get project counts by category
-            const categoryCounts = await prisma.project.groupBy({
-                by: ['category'],
-                _count: true
-            });
+            const workbook = await reportXlsxService.projectWorkbook(where, { generatedBy: req.user?.email });
 
-            data = {
-                reportDate,
-                reportType: type || 'dashboard',
-                projects,
-                budgets,
-                projectCounts,
-                categoryCounts,
-                totalProjects: projects.length,
-                generatedBy: `${req.user?.email}`
-            };
-
-            if (format === 'excel') {
-                // Generate Excel using simple CSV format (no external lib needed)
-                let csvContent = 'CSIR-SERC Project Management Report\n';
-                csvContent += `Generated: ${reportDate}\n\n`;
-
-                csvContent += 'PROJECT SUMMARY\n';
-                csvContent += 'Code,Title,Category,Status,Progress,Project Head,Vertical,Start Date,End Date,Team Size\n';
-
-                for (const p of projects) {
-                    csvContent += `"${p.code}","${p.title}","${p.category}","${p.status}",${p.progress}%,"${p.projectHead?.firstName || ''} ${p.projectHead?.lastName || ''}","${p.vertical?.name || ''}","${p.startDate.toISOString().split('T')[0]}","${p.endDate.toISOString().split('T')[0]}",${p._count.staff}\n`;
-                }
-
-                csvContent += '\nBUDGET SUMMARY BY CATEGORY\n';
-                csvContent += 'Category,Allocated (INR),Utilized (INR)\n';
-                for (const b of budgets) {
-                    csvContent += `"${b.category}",${b._sum.amountINR || 0},${b._sum.utilized || 0}\n`;
-                }
+            res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+            res.setHeader('Content-Disposition', `attachment; filename="report_${type || 'projects'}_${new Date().toISOString().split('T')[0]}.xlsx"`);
+            res.send(workbook);
+        } catch (error) {
+            console.error('Export report error:', error);
+            res.status(500).json({ error: 'Failed to export report' });
+        }
+    },
 
-                csvContent += '\nPROJECT STATUS DISTRIBUTION\n';
-                csvContent += 'Status,Count\n';
-                for (const pc of projectCounts) {
-                    csvContent += `"${pc.status}",${pc._count}\n`;
-                }
+    // Export a project's progress report as PDF
+    async exportProjectReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+        try {
+            const { projectId } = req.params;
 
-                res.setHeader('Content-Type', 'text/csv');
-                res.setHeader('Content-Disposition', `attachment; filename="report_${type || 'dashboard'}_${reportDate}.csv"`);
-                res.send(csvContent);
-                return;
-            }
+            const pdf = await reportPdfService.projectProgressReport(projectId, {
+                letterhead: isLetterheadTemplate(req.query.letterhead) ? req.query.letterhead : undefined,
+                generatedBy: req.user?.email,
+            });
 
-            if (format === 'pdf') {
-                // Generate simple HTML that can be printed as PDF
-                const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="UTF-8">
-    <title>CSIR-SERC Project Report</title>
-    <style>
-        body { font-family: 'Segoe UI', Arial, sans-serif; padding: 40px; max-width: 1200px; margin: 0 auto; }
-        h1 { color: #0369cc; border-bottom: 2px solid #0369cc; padding-bottom: 10px; }
-        h2 { color: #374151; margin-top: 30px; }
-        table { width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 12px; }
-        th, td { border: 1px solid #e5e7eb; padding: 10px; text-align: left; }
-        th { background: #f3f4f6; font-weight: 600; }
-        tr:nth-child(even) { background: #f9fafb; }
-        .summary-card { display: inline-block; background: #f0f9ff; padding: 20px; margin: 10px; border-radius: 8px; min-width: 150px; }
-        .summary-card h3 { margin: 0; color: #64748b; font-size: 14px; }
-        .summary-card .value { font-size: 28px; font-weight: bold; color: #0369cc; }
-        .badge { padding: 4px 8px; border-radius: 4px; font-size: 11px; font-weight: 500; }
-        .badge-success { background: #dcfce7; color: #166534; }
-        .badge-warning { background: #fef3c7; color: #92400e; }
-        .badge-primary { background: #dbeafe; color: #1e40af; }
-        .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #64748b; font-size: 12px; }
-        @media print { body { padding: 20px; } }
-    </style>
-</head>
-<body>
-    <h1>CSIR-SERC Project Management Report</h1>
-    <p><strong>Report Date:</strong> ${reportDate}</p>
-    <p><strong>Generated By:</strong> ${req.user?.email}</p>
-    
-    <div style="margin: 30px 0;">
-        <div class="summary-card">
-            <h3>Total Projects</h3>
-            <div class="value">${projects.length}</div>
-        </div>
-        <div class="summary-card">
-            <h3>Active Projects</h3>
-            <div class="value">${projectCounts.find((p: any) => p.status === 'ACTIVE')?._count || 0}</div>
-        </div>
-        <div class="summary-card">
-            <h3>Completed</h3>
-            <div class="value">${projectCounts.find((p: any) => p.status === 'COMPLETED')?._count || 0}</div>
-        </div>
-    </div>
-    
-    <h2>Project Summary</h2>
-    <table>
-        <thead>
-            <tr>
-                <th>Code</th>
-                <th>Title</th>
-                <th>Category</th>
-                <th>Status</th>
-                <th>Progress</th>
-                <th>Project Head</th>
-                <th>End Date</th>
-            </tr>
-        </thead>
-        <tbody>
-            ${projects.slice(0, 50).map((p: any) => `
-            <tr>
-                <td>${p.code}</td>
-                <td>${p.title.substring(0, 50)}${p.title.length > 50 ? '...' : ''}</td>
-                <td>${p.category}</td>
-                <td><span class="badge badge-${p.status === 'ACTIVE' ? 'success' : p.status === 'COMPLETED' ? 'primary' : 'warning'}">${p.status}</span></td>
-                <td>${p.progress}%</td>
-                <td>${p.projectHead?.firstName || ''} ${p.projectHead?.lastName || ''}</td>
-                <td>${p.endDate.toISOString().split('T')[0]}</td>
-            </tr>
-            `).join('')}
-        </tbody>
-    </table>
-    ${projects.length > 50 ? '<p><em>Showing first 50 projects. Export to Excel for complete list.</em></p>' : ''}
-    
-    <h2>Budget Summary by Category</h2>
-    <table>
-        <thead>
-            <tr>
-                <th>Category</th>
-                <th>Allocated (₹ Lakhs)</th>
-                <th>Utilized (₹ Lakhs)</th>
-                <th>Utilization %</th>
-            </tr>
-        </thead>
-        <tbody>
-            ${budgets.map((b: any) => `
-            <tr>
-                <td>${b.category}</td>
-                <td>${((b._sum.amountINR || 0) / 100000).toFixed(2)}</td>
-                <td>${((b._sum.utilized || 0) / 100000).toFixed(2)}</td>
-                <td>${b._sum.amountINR ? ((b._sum.utilized || 0) / b._sum.amountINR * 100).toFixed(1) : 0}%</td>
-            </tr>
-            `).join('')}
-        </tbody>
-    </table>
-    
-    <h2>Projects by Category</h2>
-    <table style="width: 50%;">
-        <thead>
-            <tr><th>Category</th><th>Count</th></tr>
-        </thead>
-        <tbody>
-            ${categoryCounts.map((c: any) => `<tr><td>${c.category}</td><td>${c._count}</td></tr>`).join('')}
-        </tbody>
-    </table>
-    
-    <div class="footer">
-        <p>Generated by CSIR-SERC Project Management System</p>
-        <p>© ${new Date().getFullYear()} CSIR-Structural Engineering Research Centre, Chennai</p>
-    </div>
-    
-    <script>
-        // Auto-print when opened
-        window.onload = function() {
-            window.print();
-        }
-    </script>
-</body>
-</html>
-                `;
-
-                res.setHeader('Content-Type', 'text/html');
-                res.setHeader('Content-Disposition', `inline; filename="report_${type || 'dashboard'}_${reportDate}.html"`);
-                res.send(htmlContent);
+            if (!pdf) {
+                res.status(404).json({ error: 'Project not found' });
                 return;
             }
 
-            res.status(400).json({ error: 'Export failed' });
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="progress_report_${projectId}_${new Date().toISOString().split('T')[0]}.pdf"`);
+            res.send(pdf);
         } catch (error) {
-            console.error('Export report error:', error);
-            res.status(500).json({ error: 'Failed to export report' });
+            console.error('Export project report error:', error);
+            res.status(500).json({ error: 'Failed to export project report' });
         }
     }
 };
@@ -0,0 +1,290 @@
+import { Response } from 'express';
+import prisma from '../config/database.js';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { notificationService } from '../services/notification.service.js';
+import { z } from 'zod';
+import { Prisma, RiskStatus } from '@prisma/client';
+
+// Validation schemas
+const riskSchema = z.object({
+    title: z.string().min(1),
+    description: z.string().optional(),
+    category: z.string().optional(),
+    likelihood: z.number().int().min(1).max(5),
+    impact: z.number().int().min(1).max(5),
+    ownerId: z.string().uuid().nullable().optional(),
+    mitigation: z.string().optional(),
+    status: z.enum(['OPEN', 'MITIGATING', 'ACCEPTED', 'CLOSED']).optional(),
+    reviewDate: z.string().nullable().optional(),
+});
+
+const updateRiskSchema = riskSchema.partial().extend({
+    remarks: z.string().optional(),
+});
+
+const TRACKED_FIELDS = ['title', 'description', 'category', 'likelihood', 'impact', 'ownerId', 'mitigation', 'status', 'reviewDate'] as const;
+
+const riskInclude = {
+    owner: { select: { id: true, firstName: true, lastName: true, email: true } },
+    createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.RiskInclude;
+
+// Get risks for a project
+export const getProjectRisks = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const { status } = req.query;
+
+        const where: Prisma.RiskWhereInput = { projectId: id };
+        if (status && status !== 'ALL') where.status = status as RiskStatus;
+
+        const risks = await prisma.risk.findMany({
+            where,
+            include: riskInclude,
+            orderBy: [{ score: 'desc' }, { createdAt: 'desc' }],
+        });
+
+        res.json(risks);
+    } catch (error) {
+        console.error('Get project risks error:', error);
+        res.status(500).json({ error: 'Failed to fetch risks' });
+    }
+};
+
+// Add risk to a project
+export const addRisk = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const data = riskSchema.parse(req.body);
+
+        const project = await prisma.project.findUnique({
+            where: { id },
+            select: { id: true, title: true },
+        });
+
+        if (!project) {
+            res.status(404).json({ error: 'Project not found' });
+            return;
+        }
+
+        const risk = await prisma.risk.create({
+            data: {
+                projectId: id,
+                title: data.title,
+                description: data.description,
+                category: data.category,
+                likelihood: data.likelihood,
+                impact: data.impact,
+                score: data.likelihood * data.impact,
+                ownerId: data.ownerId || null,
+                mitigation: data.mitigation,
+                status: data.status || 'OPEN',
+                reviewDate: data.reviewDate ? new Date(data.reviewDate) : null,
+                createdById: req.user!.userId,
+                history: {
+                    create: {
+                        changedById: req.user!.userId,
+                        action: 'CREATE',
+                        likelihood: data.likelihood,
+                        impact: data.impact,
+                        status: data.status || 'OPEN',
+                    },
+                },
+            },
+            include: riskInclude,
+        });
+
+        await createAuditLog(
+            req.user?.userId,
+            'CREATE',
+            'Risk',
+            risk.id,
+            undefined,
+            { title: risk.title, likelihood: risk.likelihood, impact: risk.impact },
+            req
+        );
+
+        if (risk.ownerId && risk.ownerId !== req.user!.userId) {
+            await notificationService.createNotification({
+                userId: risk.ownerId,
+                type: 'ASSIGNMENT',
+                title: 'Risk Assigned',
+                message: `You are the owner of risk "${risk.title}" on project "${project.title}"`,
+                link: `/projects/${id}`,
+            });
+        }
+
+        res.status(201).json(risk);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Add risk error:', error);
+        res.status(500).json({ error: 'Failed to add risk' });
+    }
+};
+
+// Update risk (every change is recorded in the risk history)
+export const updateRisk = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, riskId } = req.params;
+        const { remarks, ...data } = updateRiskSchema.parse(req.body);
+
+        const existing = await prisma.risk.findFirst({
+            where: { id: riskId, projectId: id },
+        });
+
+        if (!existing) {
+            res.status(404).json({ error: 'Risk not found' });
+            return;
+        }
+
+        const next = {
+            ...data,
+            reviewDate: data.reviewDate === undefined ? undefined : data.reviewDate ? new Date(data.reviewDate) : null,
+        };
+
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+        for (const field of TRACKED_FIELDS) {
+            if (next[field] === undefined) continue;
+            const before = existing[field] instanceof Date ? (existing[field] as Date).toISOString() : existing[field];
+            const after = next[field] instanceof Date ? (next[field] as Date).toISOString() : next[field];
+            if (before !== after) changes[field] = { from: before, to: after };
+        }
+
+        const likelihood = data.likelihood ?? existing.likelihood;
+        const impact = data.impact ?? existing.impact;
+        const status = data.status ?? existing.status;
+
+        const action = changes.status
+            ? 'STATUS_CHANGE'
+            : Object.keys(changes).length === 0 || (Object.keys(changes).length === 1 && changes.reviewDate)
+                ? 'REVIEW'
+                : 'UPDATE';
+
+        const risk = await prisma.risk.update({
+            where: { id: riskId },
+            data: {
+                ...next,
+                score: likelihood * impact,
+                history: {
+                    create: {
+                        changedById: req.user!.userId,
+                        action,
+                        likelihood,
+                        impact,
+                        status,
+                        changes: Object.keys(changes).length > 0 ? (changes as Prisma.InputJsonValue) : undefined,
+                        remarks,
+                    },
+                },
+            },
+            include: riskInclude,
+        });
+
+        await createAuditLog(
+            req.user?.userId,
+            'UPDATE',
+            'Risk',
+            risk.id,
+            Object.fromEntries(Object.entries(changes).map(([k, v]) => [k, v.from])),
+            Object.fromEntries(Object.entries(changes).map(([k, v]) => [k, v.to])),
+            req
+        );
+
+        res.json(risk);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Update risk error:', error);
+        res.status(500).json({ error: 'Failed to update risk' });
+    }
+};
+
+// Close risk: the register keeps the risk and its history, so DELETE retires it instead
+export const deleteRisk = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, riskId } = req.params;
+
+        const risk = await prisma.risk.findFirst({
+            where: { id: riskId, projectId: id },
+        });
+
+        if (!risk) {
+            res.status(404).json({ error: 'Risk not found' });
+            return;
+        }
+        if (risk.status === 'CLOSED') {
+            res.status(409).json({ error: 'Risk is already closed' });
+            return;
+        }
+
+        const closed = await prisma.risk.update({
+            where: { id: riskId },
+            data: {
+                status: 'CLOSED',
+                history: {
+                    create: {
+                        changedById: req.user!.userId,
+                        action: 'STATUS_CHANGE',
+                        likelihood: risk.likelihood,
+                        impact: risk.impact,
+                        status: 'CLOSED',
+                        changes: { status: { from: risk.status, to: 'CLOSED' } },
+                        remarks: 'Closed from the risk register',
+                    },
+                },
+            },
+            include: riskInclude,
+        });
+
+        await createAuditLog(
+            req.user?.userId,
+            'UPDATE',
+            'Risk',
+            riskId,
+            { status: risk.status },
+            { status: 'CLOSED' },
+            req
+        );
+
+        res.json(closed);
+    } catch (error) {
+        console.error('Close risk error:', error);
+        res.status(500).json({ error: 'Failed to close risk' });
+    }
+};
+
+// Get history of a risk
+export const getRiskHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id, riskId } = req.params;
+
+        const risk = await prisma.risk.findFirst({
+            where: { id: riskId, projectId: id },
+            select: { id: true },
+        });
+
+        if (!risk) {
+            res.status(404).json({ error: 'Risk not found' });
+            return;
+        }
+
+        const history = await prisma.riskHistory.findMany({
+            where: { riskId },
+            include: {
+                changedBy: { select: { firstName: true, lastName: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        res.json(history);
+    } catch (error) {
+        console.error('Get risk history error:', error);
+        res.status(500).json({ error: 'Failed to fetch risk history' });
+    }
+};
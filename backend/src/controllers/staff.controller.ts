@@ -6,117 +6,68 @@ import prisma from '../config/database.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { createAuditLog } from '../middleware/audit.middleware.js';
 import { z } from 'zod';
-import nodemailer from 'nodemailer';
-
-// Email configuration
-const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-        user: process.env.SMTP_USER || 'ictserc@gmail.com',
-        pass: process.env.SMTP_PASS || 'yyhoakynckydyybm'
-    }
-});
+import { notificationService } from '../services/notification.service.js';
+import { permissionService } from '../services/permission.service.js';
 
 // Validation schemas
 const bulkAssignSchema = z.object({
     staffIds: z.array(z.string().uuid()).min(1, 'At least one staff member is required'),
     projectId: z.string().uuid(),
-    role: z.string().optional()
+    role: z.string().optional(),
+    projectRole: z.enum(['CO_PI', 'MEMBER', 'VIEWER']).optional()
 });
 
 const singleAssignSchema = z.object({
     projectId: z.string().uuid(),
-    role: z.string().optional()
+    role: z.string().optional(),
+    projectRole: z.enum(['CO_PI', 'MEMBER', 'VIEWER']).optional()
 });
 
-// Check if user has permission to manage staff assignments
-const canManageStaff = (role: string): boolean => {
-    return ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'].includes(role);
-};
-
-// Send assignment notification email
-async function sendAssignmentEmail(
-    staffEmail: string,
-    staffName: string,
-    projectCode: string,
-    projectTitle: string,
-    projectHeadName: string
-): Promise<boolean> {
-    try {
-        await transporter.sendMail({
-            from: '"CSIR-SERC PMS" <ictserc@gmail.com>',
-            to: staffEmail,
-            subject: `Project Assignment: ${projectCode}`,
-            html: `
-                <div style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                    <div style="background: linear-gradient(135deg, #0369cc 0%, #6366f1 100%); padding: 24px; border-radius: 12px 12px 0 0;">
-                        <h1 style="color: white; margin: 0;">Project Assignment Notification</h1>
-                    </div>
-                    <div style="background: #f8fafc; padding: 24px; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px;">
-                        <p>Dear ${staffName},</p>
-                        <p>You have been assigned to the following project:</p>
-                        <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
-                            <tr>
-                                <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff; font-weight: bold;">Project Code</td>
-                                <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff;">${projectCode}</td>
-                            </tr>
-                            <tr>
-                                <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff; font-weight: bold;">Project Title</td>
-                                <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff;">${projectTitle}</td>
-                            </tr>
-                            <tr>
-                                <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff; font-weight: bold;">Project Head</td>
-                                <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff;">${projectHeadName}</td>
-                            </tr>
-                        </table>
-                        <p>Please log in to the <a href="https://pms.serc.res.in" style="color: #0369cc;">CSIR-SERC Project Management Portal</a> to view project details.</p>
-                        <p style="color: #64748b; font-size: 14px;">This is an automated message from the PMS system.</p>
-                    </div>
-                </div>
-            `
-        });
-        return true;
-    } catch (error) {
-        console.error('Email send error:', error);
-        return false;
-    }
-}
-
-// Create in-app notification
-async function createAssignmentNotification(
+// Notify a staff member of a project assignment (in-app, plus email per their preferences).
+// Returns true when an email was sent or queued.
+async function notifyAssignment(
     userId: string,
-    projectId: string,
-    projectCode: string,
-    projectTitle: string
-) {
-    return prisma.notification.create({
-        data: {
-            userId,
-            type: 'ASSIGNMENT',
-            title: 'New Project Assignment',
-            message: `You have been assigned to project ${projectCode}: ${projectTitle}`,
-            link: `/projects/${projectId}`,
-            isRead: false
-        }
+    project: { id: string; code: string; title: string; projectHead: { firstName: string; lastName: string } }
+): Promise<boolean> {
+    const notification = await notificationService.createNotification({
+        userId,
+        type: 'ASSIGNMENT',
+        title: 'New Project Assignment',
+        message: `You have been assigned to project ${project.code}: ${project.title}`,
+        link: `/projects/${project.id}`,
+        sendEmail: true,
+        emailBody: `
+            <p>You have been assigned to the following project:</p>
+            <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">
+                <tr>
+                    <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff; font-weight: bold;">Project Code</td>
+                    <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff;">${project.code}</td>
+                </tr>
+                <tr>
+                    <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff; font-weight: bold;">Project Title</td>
+                    <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff;">${project.title}</td>
+                </tr>
+                <tr>
+                    <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff; font-weight: bold;">Project Head</td>
+                    <td style="padding: 8px; border: 1px solid #e2e8f0; background: #fff;">${project.projectHead.firstName} ${project.projectHead.lastName}</td>
+                </tr>
+            </table>
+        `,
     });
+    return !!notification && (notification.emailSent || notification.emailPending);
 }
 
 export const staffController = {
     // Bulk assign staff to project
     async bulkAssign(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageStaff(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied. Only Admin, BKMD Head, Director can assign staff.' });
-                return;
-            }
-
             const validation = bulkAssignSchema.safeParse(req.body);
             if (!validation.success) {
                 res.status(400).json({ error: validation.error.errors });
                 return;
             }
 
-            const { staffIds, projectId, role } = validation.data;
+            const { staffIds, projectId, role, projectRole } = validation.data;
 
             // Get project details
             const project = await prisma.project.findUnique({
@@ -160,7 +111,7 @@ export const staffController = {
                             // Reactivate
                             await prisma.projectStaff.update({
                                 where: { id: existing.id },
-                                data: { isActive: true, leftAt: null, role }
+                                data: { isActive: true, leftAt: null, role, projectRole }
                             });
                             results.assigned.push(staff.email);
                         } else {
@@ -174,23 +125,15 @@ export const staffController = {
                                 projectId,
                                 userId: staff.id,
                                 role: role || 'Team Member',
+                                projectRole,
                                 isActive: true
                             }
                         });
                         results.assigned.push(staff.email);
                     }
 
-                    // Create in-app notification
-                    await createAssignmentNotification(staff.id, projectId, project.code, project.title);
-
-                    // Send email notification
-                    const emailSent = await sendAssignmentEmail(
-                        staff.email,
-                        `${staff.firstName} ${staff.lastName}`,
-                        project.code,
-                        project.title,
-                        `${project.projectHead.firstName} ${project.projectHead.lastName}`
-                    );
+                    // Notify in-app and by email
+                    const emailSent = await notifyAssignment(staff.id, project);
 
                     if (emailSent) results.notified.push(staff.email);
                 } catch (error) {
@@ -200,15 +143,12 @@ export const staffController = {
 
             // Notify project head
             if (results.assigned.length > 0) {
-                await prisma.notification.create({
-                    data: {
-                        userId: project.projectHeadId,
-                        type: 'ASSIGNMENT',
-                        title: 'New Team Members Added',
-                        message: `${results.assigned.length} new team member(s) have been added to ${project.code}`,
-                        link: `/projects/${projectId}`,
-                        isRead: false
-                    }
+                await notificationService.createNotification({
+                    userId: project.projectHeadId,
+                    type: 'ASSIGNMENT',
+                    title: 'New Team Members Added',
+                    message: `${results.assigned.length} new team member(s) have been added to ${project.code}`,
+                    link: `/projects/${projectId}`,
                 });
             }
 
@@ -231,11 +171,6 @@ export const staffController = {
     // Single staff assignment
     async assignToProject(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageStaff(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const { userId } = req.params;
             const validation = singleAssignSchema.safeParse(req.body);
 
@@ -244,7 +179,7 @@ export const staffController = {
                 return;
             }
 
-            const { projectId, role } = validation.data;
+            const { projectId, role, projectRole } = validation.data;
 
             const user = await prisma.user.findUnique({ where: { id: userId } });
             if (!user) {
@@ -264,21 +199,12 @@ export const staffController = {
             // Upsert assignment
             const assignment = await prisma.projectStaff.upsert({
                 where: { projectId_userId: { projectId, userId } },
-                update: { isActive: true, leftAt: null, role: role || 'Team Member' },
-                create: { projectId, userId, role: role || 'Team Member', isActive: true }
+                update: { isActive: true, leftAt: null, role: role || 'Team Member', projectRole },
+                create: { projectId, userId, role: role || 'Team Member', projectRole, isActive: true }
             });
 
-            // Create notification
-            await createAssignmentNotification(userId, projectId, project.code, project.title);
-
-            // Send email
-            await sendAssignmentEmail(
-                user.email,
-                `${user.firstName} ${user.lastName}`,
-                project.code,
-                project.title,
-                `${project.projectHead.firstName} ${project.projectHead.lastName}`
-            );
+            // Notify in-app and by email
+            await notifyAssignment(userId, project);
 
             res.json({ message: 'Staff assigned successfully', assignment });
         } catch (error) {
@@ -290,11 +216,6 @@ export const staffController = {
     // Remove staff from project
     async removeFromProject(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            if (!canManageStaff(req.user!.role)) {
-                res.status(403).json({ error: 'Permission denied' });
-                return;
-            }
-
             const { projectId, userId } = req.params;
 
             const assignment = await prisma.projectStaff.findUnique({
@@ -408,39 +329,16 @@ export const staffController = {
 
             const uniqueHeadIds = [...new Set(projectHeads.map(p => p.projectHeadId))];
 
-            // Create notifications
-            await prisma.notification.createMany({
-                data: uniqueHeadIds.map(headId => ({
+            // Notify each head in-app and by email
+            for (const headId of uniqueHeadIds) {
+                await notificationService.createNotification({
                     userId: headId,
-                    type: 'PROJECT_UPDATE' as const,
+                    type: 'PROJECT_UPDATE',
                     title: 'Project Update Requested',
                     message: message || 'Please update your project status and submit progress report.',
                     link: '/projects',
-                    isRead: false
-                }))
-            });
-
-            // Optionally send emails
-            const heads = await prisma.user.findMany({
-                where: { id: { in: uniqueHeadIds } },
-                select: { email: true, firstName: true, lastName: true }
-            });
-
-            for (const head of heads) {
-                await transporter.sendMail({
-                    from: '"CSIR-SERC PMS" <ictserc@gmail.com>',
-                    to: head.email,
-                    subject: 'Project Update Request - PMS Portal',
-                    html: `
-                        <div style="font-family: 'Segoe UI', Arial, sans-serif;">
-                            <h2>Project Update Requested</h2>
-                            <p>Dear ${head.firstName} ${head.lastName},</p>
-                            <p>${message || 'Please update your project status and submit progress report.'}</p>
-                            <p><a href="https://pms.serc.res.in/projects">Click here to login and update</a></p>
-                            <p style="color: #64748b;">- CSIR-SERC PMS System</p>
-                        </div>
-                    `
-                }).catch((err: Error) => console.error('Email error:', err));
+                    sendEmail: true,
+                });
             }
 
             res.json({
@@ -453,18 +351,9 @@ export const staffController = {
         }
     },
 
-    // Update user role - ADMIN ONLY
+    // Update user role
     async updateUserRole(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            // Only ADMIN can change user roles
-            if (req.user!.role !== 'ADMIN') {
-                res.status(403).json({
-                    error: 'Access denied',
-                    message: 'Only System Administrator can manage user roles'
-                });
-                return;
-            }
-
             const { userId } = req.params;
             const { role } = req.body;
 
@@ -508,15 +397,12 @@ export const staffController = {
             await createAuditLog(req.user?.userId, 'UPDATE_ROLE', 'User', userId, { role: oldRole }, { role }, req);
 
             // Notify user of role change
-            await prisma.notification.create({
-                data: {
-                    userId,
-                    type: 'SYSTEM',
-                    title: 'Role Updated',
-                    message: `Your role has been updated from ${oldRole} to ${role}`,
-                    link: '/dashboard',
-                    isRead: false
-                }
+            await notificationService.createNotification({
+                userId,
+                type: 'SYSTEM',
+                title: 'Role Updated',
+                message: `Your role has been updated from ${oldRole} to ${role}`,
+                link: '/dashboard',
             });
 
             res.json({
@@ -534,28 +420,21 @@ export const staffController = {
     async getPagePermissions(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
             const role = req.user?.role || 'EMPLOYEE';
+            const permissions = await permissionService.getRolePermissions(role);
 
-            // Define page permissions by role
-            const pagePermissions: Record<string, string[]> = {
-                'ADMIN': ['dashboard', 'dg-dashboard', 'projects', 'staff', 'finance', 'reports', 'rc-meetings', 'documents', 'archive', 'settings'],
-                'SUPERVISOR': ['dashboard', 'dg-dashboard', 'projects', 'staff', 'finance', 'reports', 'rc-meetings', 'documents', 'archive'],
-                'DIRECTOR': ['dashboard', 'dg-dashboard', 'projects', 'staff', 'finance', 'reports', 'rc-meetings', 'documents', 'archive'],
-                'DIRECTOR_GENERAL': ['dashboard', 'dg-dashboard', 'projects', 'reports', 'rc-meetings'],
-                'PROJECT_HEAD': ['dashboard', 'projects', 'finance', 'documents', 'reports'],
-                'EMPLOYEE': ['dashboard', 'projects', 'documents'],
-                'RC_MEMBER': ['dashboard', 'projects', 'rc-meetings', 'reports'],
-                'EXTERNAL_OWNER': ['dashboard', 'projects', 'documents']
-            };
-
-            const allowedPages = pagePermissions[role] || pagePermissions['EMPLOYEE'];
+            // A page is reachable when the role may read its resource
+            const allowedPages = Object.entries(permissions)
+                .filter(([, actions]) => actions?.includes('read'))
+                .map(([resource]) => resource);
 
             res.json({
                 role,
                 allowedPages,
+                permissions,
                 isAdmin: role === 'ADMIN',
-                canManageStaff: ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'].includes(role),
-                canManageRoles: role === 'ADMIN',
-                canManageFinance: ['ADMIN', 'SUPERVISOR', 'DIRECTOR'].includes(role)
+                canManageStaff: !!permissions.projects?.includes('manage'),
+                canManageRoles: !!permissions.users?.includes('update'),
+                canManageFinance: !!permissions.finance?.includes('manage')
             });
         } catch (error) {
             console.error('Get permissions error:', error);
@@ -566,12 +445,6 @@ export const staffController = {
     // Get all users with their roles (for role management page)
     async getUsersForRoleManagement(req: AuthenticatedRequest, res: Response): Promise<void> {
         try {
-            // Only ADMIN can view this
-            if (req.user!.role !== 'ADMIN') {
-                res.status(403).json({ error: 'Access denied. Admin only.' });
-                return;
-            }
-
             const users = await prisma.user.findMany({
                 select: {
                     id: true,
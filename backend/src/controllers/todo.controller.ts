@@ -0,0 +1,437 @@
+import { Response } from 'express';
+import prisma from '../config/database.js';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { notificationService } from '../services/notification.service.js';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+
+// Empty string clears the date; anything else must parse
+const dueDateSchema = z.string()
+    .refine(v => v === '' || !isNaN(Date.parse(v)), { message: 'Invalid date' })
+    .nullable()
+    .optional();
+
+// Validation schemas
+const todoSchema = z.object({
+    title: z.string().min(1).max(500),
+    description: z.string().optional(),
+    priority: z.enum(PRIORITIES).optional(),
+    dueDate: dueDateSchema,
+    projectId: z.string().uuid().nullable().optional(),
+    assigneeId: z.string().uuid().nullable().optional(),
+});
+
+const updateTodoSchema = todoSchema.partial();
+
+// Shape of the items the TodoList component kept in localStorage ("csir-todos")
+const importSchema = z.object({
+    todos: z.array(z.object({
+        title: z.string().min(1).max(500),
+        description: z.string().optional(),
+        priority: z.enum(PRIORITIES).optional(),
+        dueDate: dueDateSchema,
+        completed: z.boolean().optional(),
+        projectId: z.string().optional(),
+        createdAt: z.string().optional(),
+    })).max(500),
+});
+
+const TRACKED_FIELDS = ['title', 'description', 'priority', 'dueDate', 'projectId', 'assigneeId'] as const;
+
+// Roles that may link to-dos to any project
+const fullAccessRoles = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'];
+
+const todoInclude = {
+    project: { select: { id: true, code: true, title: true } },
+    owner: { select: { id: true, firstName: true, lastName: true } },
+    assignee: { select: { id: true, firstName: true, lastName: true } },
+    completedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.TodoInclude;
+
+const parseDate = (value: string | null | undefined) => (value === undefined ? undefined : value ? new Date(value) : null);
+
+const startOfToday = () => new Date(new Date().setHours(0, 0, 0, 0));
+
+const startOfTomorrow = () => {
+    const date = startOfToday();
+    date.setDate(date.getDate() + 1);
+    return date;
+};
+
+// Project head or active staff member
+const isProjectMember = async (projectId: string, userId: string): Promise<boolean> => {
+    const project = await prisma.project.findFirst({
+        where: {
+            id: projectId,
+            OR: [
+                { projectHeadId: userId },
+                { staff: { some: { userId, isActive: true } } },
+            ],
+        },
+        select: { id: true },
+    });
+    return !!project;
+};
+
+// Checks the project link and assignee of a to-do; returns an error message or null
+const validateLinks = async (
+    user: { userId: string; role: string },
+    projectId: string | null,
+    assigneeId: string | null
+): Promise<string | null> => {
+    if (projectId) {
+        const project = await prisma.project.findUnique({ where: { id: projectId }, select: { id: true } });
+        if (!project) return 'Project not found';
+        if (!fullAccessRoles.includes(user.role) && !(await isProjectMember(projectId, user.userId))) {
+            return 'You are not a member of this project';
+        }
+    }
+
+    if (assigneeId && assigneeId !== user.userId) {
+        if (!projectId) return 'A to-do can only be assigned to someone else when it is linked to a project';
+        if (!(await isProjectMember(projectId, assigneeId))) return 'Assignee is not a member of this project';
+    }
+
+    return null;
+};
+
+const notifyAssignee = async (todo: { id: string; title: string; assigneeId: string | null; projectId: string | null }, assignerId: string) => {
+    if (!todo.assigneeId || todo.assigneeId === assignerId) return;
+
+    await notificationService.createNotification({
+        userId: todo.assigneeId,
+        type: 'ASSIGNMENT',
+        title: 'Task Assigned',
+        message: `You have been assigned the task "${todo.title}"`,
+        link: todo.projectId ? `/projects/${todo.projectId}` : '/dashboard',
+    });
+};
+
+// Get to-dos owned by or assigned to the current user
+export const getTodos = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const userId = req.user!.userId;
+        const { projectId, status, due, scope } = req.query;
+
+        const conditions: Prisma.TodoWhereInput[] = [];
+
+        if (scope === 'mine') conditions.push({ ownerId: userId });
+        else if (scope === 'assigned') conditions.push({ assigneeId: userId });
+        else conditions.push({ OR: [{ ownerId: userId }, { assigneeId: userId }] });
+
+        if (projectId) conditions.push({ projectId: projectId as string });
+        if (status === 'open') conditions.push({ completed: false });
+        if (status === 'completed') conditions.push({ completed: true });
+
+        if (due === 'today') {
+            conditions.push({ dueDate: { gte: startOfToday(), lt: startOfTomorrow() } });
+        } else if (due === 'overdue') {
+            conditions.push({ completed: false, dueDate: { lt: startOfToday() } });
+        }
+
+        const todos = await prisma.todo.findMany({
+            where: { AND: conditions },
+            include: todoInclude,
+            orderBy: [{ completed: 'asc' }, { dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+        });
+
+        res.json(todos);
+    } catch (error) {
+        console.error('Get todos error:', error);
+        res.status(500).json({ error: 'Failed to fetch to-dos' });
+    }
+};
+
+// Create a to-do
+export const createTodo = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = todoSchema.parse(req.body);
+        const projectId = data.projectId || null;
+        const assigneeId = data.assigneeId || null;
+
+        const invalid = await validateLinks(req.user!, projectId, assigneeId);
+        if (invalid) {
+            res.status(400).json({ error: invalid });
+            return;
+        }
+
+        const todo = await prisma.todo.create({
+            data: {
+                title: data.title,
+                description: data.description,
+                priority: data.priority || 'MEDIUM',
+                dueDate: parseDate(data.dueDate),
+                projectId,
+                assigneeId,
+                ownerId: req.user!.userId,
+                history: {
+                    create: { changedById: req.user!.userId, action: 'CREATE' },
+                },
+            },
+            include: todoInclude,
+        });
+
+        await notifyAssignee(todo, req.user!.userId);
+
+        res.status(201).json(todo);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Create todo error:', error);
+        res.status(500).json({ error: 'Failed to create to-do' });
+    }
+};
+
+// Update a to-do (owner only)
+export const updateTodo = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const data = updateTodoSchema.parse(req.body);
+
+        const existing = await prisma.todo.findFirst({
+            where: { id, ownerId: req.user!.userId },
+        });
+
+        if (!existing) {
+            res.status(404).json({ error: 'To-do not found' });
+            return;
+        }
+
+        const next = {
+            ...data,
+            dueDate: parseDate(data.dueDate),
+        };
+
+        const projectId = data.projectId === undefined ? existing.projectId : data.projectId;
+        // Unlinking the project also drops an assignment to someone else
+        const assigneeId = data.assigneeId === undefined
+            ? (projectId ? existing.assigneeId : null)
+            : data.assigneeId;
+
+        if (data.projectId !== undefined || data.assigneeId !== undefined) {
+            const invalid = await validateLinks(req.user!, projectId, assigneeId);
+            if (invalid) {
+                res.status(400).json({ error: invalid });
+                return;
+            }
+            next.assigneeId = assigneeId;
+        }
+
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+        for (const field of TRACKED_FIELDS) {
+            if (next[field] === undefined) continue;
+            const before = existing[field] instanceof Date ? (existing[field] as Date).toISOString() : existing[field];
+            const after = next[field] instanceof Date ? (next[field] as Date).toISOString() : next[field];
+            if (before !== after) changes[field] = { from: before, to: after };
+        }
+
+        const todo = await prisma.todo.update({
+            where: { id },
+            data: {
+                ...next,
+                history: Object.keys(changes).length > 0
+                    ? {
+                        create: {
+                            changedById: req.user!.userId,
+                            action: changes.assigneeId ? 'ASSIGN' : 'UPDATE',
+                            changes: changes as Prisma.InputJsonValue,
+                        },
+                    }
+                    : undefined,
+            },
+            include: todoInclude,
+        });
+
+        if (changes.assigneeId) await notifyAssignee(todo, req.user!.userId);
+
+        res.json(todo);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Update todo error:', error);
+        res.status(500).json({ error: 'Failed to update to-do' });
+    }
+};
+
+// Mark a to-do complete or reopen it (owner or assignee)
+export const toggleTodo = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const userId = req.user!.userId;
+
+        const existing = await prisma.todo.findFirst({
+            where: { id, OR: [{ ownerId: userId }, { assigneeId: userId }] },
+        });
+
+        if (!existing) {
+            res.status(404).json({ error: 'To-do not found' });
+            return;
+        }
+
+        const completed = !existing.completed;
+
+        const todo = await prisma.todo.update({
+            where: { id },
+            data: {
+                completed,
+                completedAt: completed ? new Date() : null,
+                completedById: completed ? userId : null,
+                history: {
+                    create: { changedById: userId, action: completed ? 'COMPLETE' : 'REOPEN' },
+                },
+            },
+            include: todoInclude,
+        });
+
+        // Let the owner know when an assignee finishes a delegated task
+        if (completed && existing.ownerId !== userId) {
+            await notificationService.createNotification({
+                userId: existing.ownerId,
+                type: 'PROJECT_UPDATE',
+                title: 'Task Completed',
+                message: `"${todo.title}" was completed by ${todo.completedBy?.firstName} ${todo.completedBy?.lastName}`,
+                link: todo.projectId ? `/projects/${todo.projectId}` : '/dashboard',
+            });
+        }
+
+        res.json(todo);
+    } catch (error) {
+        console.error('Toggle todo error:', error);
+        res.status(500).json({ error: 'Failed to update to-do' });
+    }
+};
+
+// Delete a to-do (owner only)
+export const deleteTodo = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const todo = await prisma.todo.findFirst({
+            where: { id, ownerId: req.user!.userId },
+        });
+
+        if (!todo) {
+            res.status(404).json({ error: 'To-do not found' });
+            return;
+        }
+
+        await prisma.todo.delete({ where: { id } });
+
+        await createAuditLog(
+            req.user?.userId,
+            'DELETE',
+            'Todo',
+            id,
+            { title: todo.title, completed: todo.completed, projectId: todo.projectId },
+            undefined,
+            req
+        );
+
+        res.json({ message: 'To-do deleted successfully' });
+    } catch (error) {
+        console.error('Delete todo error:', error);
+        res.status(500).json({ error: 'Failed to delete to-do' });
+    }
+};
+
+// Get completion and change history of a to-do
+export const getTodoHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const userId = req.user!.userId;
+
+        const todo = await prisma.todo.findFirst({
+            where: { id, OR: [{ ownerId: userId }, { assigneeId: userId }] },
+            select: { id: true },
+        });
+
+        if (!todo) {
+            res.status(404).json({ error: 'To-do not found' });
+            return;
+        }
+
+        const history = await prisma.todoHistory.findMany({
+            where: { todoId: id },
+            include: {
+                changedBy: { select: { firstName: true, lastName: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        res.json(history);
+    } catch (error) {
+        console.error('Get todo history error:', error);
+        res.status(500).json({ error: 'Failed to fetch to-do history' });
+    }
+};
+
+// One-time import of to-dos the TodoList component stored in the browser
+export const importTodos = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const userId = req.user!.userId;
+        const { todos } = importSchema.parse(req.body);
+
+        // Local items carried arbitrary project ids; keep only links the user may hold
+        const projectIds = Array.from(new Set(todos.map(t => t.projectId).filter((p): p is string => !!p && z.string().uuid().safeParse(p).success)));
+        const linkable = new Set<string>();
+        for (const projectId of projectIds) {
+            if (fullAccessRoles.includes(req.user!.role)
+                ? await prisma.project.count({ where: { id: projectId } })
+                : await isProjectMember(projectId, userId)) {
+                linkable.add(projectId);
+            }
+        }
+
+        // Skip anything already imported (same title and creation time), so a retry is harmless
+        const existing = await prisma.todo.findMany({
+            where: { ownerId: userId, title: { in: todos.map(t => t.title) } },
+            select: { title: true, createdAt: true },
+        });
+        const seen = new Set(existing.map(t => `${t.title}|${t.createdAt.toISOString()}`));
+
+        let imported = 0;
+        for (const item of todos) {
+            const createdAt = item.createdAt && !isNaN(Date.parse(item.createdAt)) ? new Date(item.createdAt) : new Date();
+            const key = `${item.title}|${createdAt.toISOString()}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            const dueDate = item.dueDate ? new Date(item.dueDate) : null;
+
+            await prisma.todo.create({
+                data: {
+                    title: item.title,
+                    description: item.description || null,
+                    priority: item.priority || 'MEDIUM',
+                    dueDate,
+                    completed: !!item.completed,
+                    completedAt: item.completed ? new Date() : null,
+                    completedById: item.completed ? userId : null,
+                    projectId: item.projectId && linkable.has(item.projectId) ? item.projectId : null,
+                    ownerId: userId,
+                    createdAt,
+                    history: {
+                        create: { changedById: userId, action: 'IMPORT' },
+                    },
+                },
+            });
+            imported++;
+        }
+
+        res.json({ imported, skipped: todos.length - imported });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        console.error('Import todos error:', error);
+        res.status(500).json({ error: 'Failed to import to-dos' });
+    }
+};
@@ -0,0 +1,120 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { approvalService, ApprovalContext, ApprovalError } from '../services/approval.service.js';
+import { ArchiveError } from '../services/archive.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+import { utilizationCertificateService, CertificateError } from '../services/utilization-certificate.service.js';
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+// Validation schemas
+const generateSchema = z.object({
+    periodStart: day,
+    periodEnd: day,
+});
+
+const signSchema = z.object({
+    approved: z.boolean(),
+    comments: z.string().optional(),
+});
+
+const handleCertificateError = (error: unknown, res: Response): boolean => {
+    if (error instanceof CertificateError || error instanceof ArchiveError || error instanceof ApprovalError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
+// Certificates are filed as project documents
+const announce = (projectId: string, entityId: string, action: 'created' | 'updated' | 'approved' | 'rejected', actorId?: string) => {
+    void realtimeService.projectUpdated({ projectId, entity: 'report', action, entityId, actorId });
+};
+
+// Local midnight, so the date is not shifted into the previous day
+const toDate = (value: string) => new Date(`${value}T00:00:00`);
+
+const decideCertificate = async (ctx: ApprovalContext, approved: boolean) => {
+    const certificate = await utilizationCertificateService.decide(ctx.workflow.entityId, approved, ctx.comments);
+
+    await createAuditLog(ctx.actorId, approved ? 'APPROVE' : 'REJECT', 'UtilizationCertificate', certificate.id, undefined, {
+        status: approved ? 'CERTIFIED' : 'REJECTED',
+        comments: ctx.comments ?? null,
+    });
+    announce(certificate.projectId, certificate.id, approved ? 'approved' : 'rejected', ctx.actorId);
+};
+
+approvalService.registerHandler('UTILIZATION_CERTIFICATE', {
+    // Each sign-off is printed on the certificate
+    onStepApproved: async (ctx) => {
+        await utilizationCertificateService.refresh(ctx.workflow.entityId);
+    },
+    onApproved: (ctx) => decideCertificate(ctx, true),
+    onRejected: (ctx) => decideCertificate(ctx, false),
+});
+
+export const getCertificates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const certificates = await utilizationCertificateService.list(req.params.projectId);
+        res.json(certificates);
+    } catch (error) {
+        console.error('Get utilization certificates error:', error);
+        res.status(500).json({ error: 'Failed to fetch utilization certificates' });
+    }
+};
+
+// Generate the UC and Statement of Expenditure for a period
+export const generateCertificate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const data = generateSchema.parse(req.body);
+        const certificate = await utilizationCertificateService.generate(
+            req.params.projectId,
+            toDate(data.periodStart),
+            toDate(data.periodEnd),
+            req.user!
+        );
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'UtilizationCertificate', certificate.id, undefined, {
+            ucNumber: certificate.ucNumber,
+            periodStart: data.periodStart,
+            periodEnd: data.periodEnd,
+            openingBalanceINR: certificate.openingBalanceINR,
+            receivedINR: certificate.receivedINR,
+            expenditureINR: certificate.expenditureINR,
+            closingBalanceINR: certificate.closingBalanceINR,
+        }, req);
+        announce(certificate.projectId, certificate.id, 'created', req.user?.userId);
+
+        res.status(201).json(certificate);
+    } catch (error) {
+        if (handleCertificateError(error, res)) return;
+        console.error('Generate utilization certificate error:', error);
+        res.status(500).json({ error: 'Failed to generate utilization certificate' });
+    }
+};
+
+// PI / Co-PI signature; signing sends the certificate to finance and the Director
+export const signCertificate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+        const { approved, comments } = signSchema.parse(req.body);
+        const certificate = await utilizationCertificateService.piSign(req.params.certificateId, req.user!, approved, comments);
+
+        await createAuditLog(req.user?.userId, approved ? 'SIGN' : 'REJECT', 'UtilizationCertificate', certificate.id, undefined, {
+            status: certificate.status,
+            comments: comments ?? null,
+        }, req);
+        announce(certificate.projectId, certificate.id, approved ? 'updated' : 'rejected', req.user?.userId);
+
+        res.json(certificate);
+    } catch (error) {
+        if (handleCertificateError(error, res)) return;
+        console.error('Sign utilization certificate error:', error);
+        res.status(500).json({ error: 'Failed to sign utilization certificate' });
+    }
+};
@@ -11,6 +11,8 @@ import fs from 'fs';
 import config from './config/index.js';
 import prisma from './config/database.js';
 import routes from './routes/index.js';
+import { schedulerService } from './services/scheduler.service.js';
+import { realtimeService, RealtimeServer } from './services/realtime.service.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -21,7 +23,7 @@ if (config.nodeEnv === 'production' || process.env.TRUST_PROXY === 'true') {
 }
 
 // Socket.IO for real-time updates
-const io = new SocketIOServer(httpServer, {
+const io: RealtimeServer = new SocketIOServer(httpServer, {
     cors: {
         origin: config.frontendUrl,
         methods: ['GET', 'POST'],
@@ -92,39 +94,12 @@ app.use('/uploads', express.static(config.paths.uploads));
 // API routes
 app.use('/api', routes);
 
-// WebSocket connection handling
-io.on('connection', (socket) => {
-    console.log('Client connected:', socket.id);
-
-    socket.on('subscribe:project', (projectId: string) => {
-        socket.join(`project:${projectId}`);
-    });
-
-    socket.on('subscribe:dashboard', (userId: string) => {
-        socket.join(`dashboard:${userId}`);
-    });
-
-    socket.on('disconnect', () => {
-        console.log('Client disconnected:', socket.id);
-    });
-});
+// WebSocket authentication, rooms and broadcasts
+realtimeService.attach(io);
 
 // Export io for use in other modules
 export { io };
 
-// Broadcast functions
-export const broadcastProjectUpdate = (projectId: string, data: any) => {
-    io.to(`project:${projectId}`).emit('project:updated', data);
-};
-
-export const broadcastDashboardUpdate = (userId: string, data: any) => {
-    io.to(`dashboard:${userId}`).emit('dashboard:updated', data);
-};
-
-export const broadcastNotification = (userId: string, notification: any) => {
-    io.to(`dashboard:${userId}`).emit('notification', notification);
-};
-
 // Error handling
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
     console.error('Error:', err.message);
@@ -145,6 +120,8 @@ app.use((req: express.Request, res: express.Response) => {
 const gracefulShutdown = async () => {
     console.log('Shutting down gracefully...');
 
+    schedulerService.stop();
+
     await prisma.$disconnect();
 
     httpServer.close(() => {
@@ -168,6 +145,8 @@ const startServer = async () => {
         await prisma.$connect();
         console.log('✅ Database connected');
 
+        await schedulerService.start();
+
         httpServer.listen(config.port, () => {
             console.log(`
 ╔════════════════════════════════════════════════════════════╗
@@ -3,6 +3,9 @@ import jwt from 'jsonwebtoken';
 import { config } from '../config/index.js';
 import prisma from '../config/database.js';
 import { UserRole } from '@prisma/client';
+import { PermissionAction, PermissionResource } from '../config/permissions.js';
+import { permissionService } from '../services/permission.service.js';
+import { ProjectAccessLevel, projectAccessService } from '../services/project-access.service.js';
 
 export interface JwtPayload {
     userId: string;
@@ -78,6 +81,34 @@ export const authorize = (...roles: UserRole[]) => {
     };
 };
 
+/**
+ * Checks the role's grants in the permission matrix (editable under Settings)
+ */
+export const requirePermission = (resource: PermissionResource, action: PermissionAction = 'read') => {
+    return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+        if (!req.user) {
+            res.status(401).json({ error: 'Not authenticated' });
+            return;
+        }
+
+        try {
+            if (!(await permissionService.can(req.user.role, resource, action))) {
+                res.status(403).json({
+                    error: 'Access denied',
+                    message: `This action requires the ${action} permission on ${resource}`
+                });
+                return;
+            }
+        } catch (error) {
+            console.error('Permission check error:', error);
+            res.status(500).json({ error: 'Authorization failed' });
+            return;
+        }
+
+        next();
+    };
+};
+
 export const optionalAuth = async (
     req: AuthenticatedRequest,
     res: Response,
@@ -102,69 +133,77 @@ export const optionalAuth = async (
     }
 };
 
+// Finds the project a request acts on: undefined when it is not project-scoped, null when the record it names does not exist
+export type ProjectIdResolver = (req: AuthenticatedRequest) => string | null | undefined | Promise<string | null | undefined>;
+
+export const projectIdFromParams: ProjectIdResolver = (req) => req.params.projectId || req.params.id;
+
+export const projectIdFromBody: ProjectIdResolver = (req) =>
+    typeof req.body?.projectId === 'string' && req.body.projectId ? req.body.projectId : undefined;
+
 /**
- * Middleware to check if user has access to a specific project
- * Should be used on routes with :id or :projectId parameter
+ * Checks the user's role on the project the route acts on (PI, Co-PI, member or
+ * viewer; see ProjectAccessService). `permission` is the matrix grant that lets
+ * institute roles act on any project, and the only check applied when the
+ * request turns out not to be project-scoped.
  */
-export const requireProjectMembership = async (
-    req: AuthenticatedRequest,
-    res: Response,
-    next: NextFunction
-): Promise<void> => {
-    try {
+export const requireProjectRole = (
+    level: ProjectAccessLevel,
+    permission?: [PermissionResource, PermissionAction],
+    resolveProjectId: ProjectIdResolver = projectIdFromParams
+) => {
+    return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
         const user = req.user;
         if (!user) {
             res.status(401).json({ error: 'Not authenticated' });
             return;
         }
 
-        const projectId = req.params.id || req.params.projectId;
-        if (!projectId) {
-            res.status(400).json({ error: 'Project ID required' });
-            return;
-        }
+        try {
+            const projectId = await resolveProjectId(req);
 
-        // Full access roles bypass this check
-        const fullAccessRoles: UserRole[] = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'];
-        if (fullAccessRoles.includes(user.role)) {
-            next();
-            return;
-        }
+            if (projectId === null) {
+                res.status(404).json({ error: 'Not found' });
+                return;
+            }
 
-        // Check if project exists
-        const project = await prisma.project.findUnique({
-            where: { id: projectId },
-            select: {
-                id: true,
-                projectHeadId: true,
-                staff: {
-                    where: { userId: user.userId, isActive: true },
-                    select: { id: true },
-                },
-            },
-        });
-
-        if (!project) {
-            res.status(404).json({ error: 'Project not found' });
-            return;
-        }
+            if (projectId === undefined) {
+                if (!permission) {
+                    res.status(400).json({ error: 'Project ID required' });
+                    return;
+                }
+                if (!(await permissionService.can(user.role, ...permission))) {
+                    res.status(403).json({
+                        error: 'Access denied',
+                        message: `This action requires the ${permission[1]} permission on ${permission[0]}`
+                    });
+                    return;
+                }
+                next();
+                return;
+            }
 
-        // Check membership
-        const isProjectHead = project.projectHeadId === user.userId;
-        const isStaffMember = project.staff.length > 0;
-        const isRCMember = user.role === 'RC_MEMBER'; // RC members can view for review
+            const allowed = await projectAccessService.can(user, projectId, level, permission);
 
-        if (!isProjectHead && !isStaffMember && !isRCMember) {
-            res.status(403).json({
-                error: 'Access denied',
-                message: 'You are not a member of this project',
-            });
-            return;
-        }
+            if (allowed === null) {
+                res.status(404).json({ error: 'Project not found' });
+                return;
+            }
 
-        next();
-    } catch (error) {
-        console.error('Project membership check error:', error);
-        res.status(500).json({ error: 'Access check failed' });
-    }
+            if (!allowed) {
+                res.status(403).json({
+                    error: 'Access denied',
+                    message: level === 'view'
+                        ? 'You are not a member of this project'
+                        : `This action requires ${level} access to the project`,
+                });
+                return;
+            }
+
+            next();
+        } catch (error) {
+            console.error('Project access check error:', error);
+            res.status(500).json({ error: 'Access check failed' });
+        }
+    };
 };
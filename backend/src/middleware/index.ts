@@ -1,4 +1,4 @@
-export { authenticate, authorize, optionalAuth, AuthenticatedRequest, JwtPayload } from './auth.middleware.js';
+export { authenticate, authorize, requirePermission, requireProjectRole, projectIdFromParams, projectIdFromBody, ProjectIdResolver, optionalAuth, AuthenticatedRequest, JwtPayload } from './auth.middleware.js';
 export { validate, validateBody } from './validation.middleware.js';
 export { auditLog, createAuditLog } from './audit.middleware.js';
 export { upload, uploadSingle, uploadMultiple } from './upload.middleware.js';
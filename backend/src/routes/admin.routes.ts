@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../config/database.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import { authenticate, requirePermission } from '../middleware/index.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { z } from 'zod';
+import { schedulerService } from '../services/scheduler.service.js';
 
 const router = Router();
 
@@ -27,7 +28,7 @@ router.get('/verticals', async (req: Request, res: Response) => {
     }
 });
 
-router.post('/verticals', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/verticals', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { name, code, description } = req.body;
 
@@ -41,7 +42,7 @@ router.post('/verticals', authorize('ADMIN'), async (req: AuthenticatedRequest,
     }
 });
 
-router.put('/verticals/:id', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/verticals/:id', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { id } = req.params;
         const { name, code, description, isActive } = req.body;
@@ -76,7 +77,7 @@ router.get('/special-areas', async (req: Request, res: Response) => {
     }
 });
 
-router.post('/special-areas', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/special-areas', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { name, description } = req.body;
 
@@ -162,7 +163,7 @@ router.put('/notifications/read-all', async (req: AuthenticatedRequest, res: Res
 // AUDIT LOGS
 // ============================================
 
-router.get('/audit-logs', authorize('ADMIN', 'DIRECTOR'), async (req: AuthenticatedRequest, res: Response) => {
+router.get('/audit-logs', requirePermission('audit-logs', 'read'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { entity, action, userId, startDate, endDate, page = '1', limit = '50' } = req.query;
 
@@ -213,7 +214,7 @@ router.get('/audit-logs', authorize('ADMIN', 'DIRECTOR'), async (req: Authentica
 // SYSTEM CONFIG
 // ============================================
 
-router.get('/config', authorize('ADMIN'), async (req: Request, res: Response) => {
+router.get('/config', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
     try {
         const configs = await prisma.systemConfig.findMany();
         res.json(configs);
@@ -222,7 +223,7 @@ router.get('/config', authorize('ADMIN'), async (req: Request, res: Response) =>
     }
 });
 
-router.put('/config/:key', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/config/:key', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { key } = req.params;
         const { value, description } = req.body;
@@ -239,4 +240,71 @@ router.put('/config/:key', authorize('ADMIN'), async (req: AuthenticatedRequest,
     }
 });
 
+// ============================================
+// BACKGROUND JOBS
+// ============================================
+
+router.get('/jobs', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
+    try {
+        const jobs = await schedulerService.getJobs();
+        res.json(jobs);
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch jobs' });
+    }
+});
+
+router.get('/jobs/:name/runs', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
+    try {
+        const { limit } = z.object({
+            limit: z.coerce.number().int().min(1).max(500).default(50),
+        }).parse(req.query);
+        const runs = await schedulerService.getJobRuns(req.params.name, limit);
+        res.json(runs);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Failed to fetch job runs' });
+    }
+});
+
+router.put('/jobs/:name', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { enabled } = z.object({ enabled: z.boolean() }).parse(req.body);
+
+        const job = await schedulerService.setEnabled(req.params.name, enabled);
+        if (!job) {
+            res.status(404).json({ error: 'Job not found' });
+            return;
+        }
+
+        res.json(job);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            res.status(400).json({ error: 'Validation failed', details: error.errors });
+            return;
+        }
+        res.status(500).json({ error: 'Failed to update job' });
+    }
+});
+
+router.post('/jobs/:name/run', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const run = await schedulerService.runNow(req.params.name);
+        if (run === null) {
+            res.status(404).json({ error: 'Job not found' });
+            return;
+        }
+        if (run === false) {
+            res.status(409).json({ error: 'Job is already running' });
+            return;
+        }
+
+        res.json(run);
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to run job' });
+    }
+});
+
 export default router;
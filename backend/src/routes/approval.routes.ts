@@ -0,0 +1,44 @@
+// Approval Routes
+import { Router } from 'express';
+import {
+    getInbox,
+    getMyRequests,
+    getWorkflow,
+    getEntityWorkflows,
+    actOnWorkflow,
+    getRules,
+    setRules,
+    getDelegations,
+    createDelegation,
+    revokeDelegation,
+} from '../controllers/approval.controller.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// "My Approvals" - workflows awaiting the current user
+router.get('/inbox', getInbox);
+
+// Workflows requested by the current user
+router.get('/requests', getMyRequests);
+
+// Approval rules per type (ADMIN)
+router.get('/rules', requirePermission('settings', 'manage'), getRules);
+router.put('/rules/:type', requirePermission('settings', 'manage'), setRules);
+
+// Delegation of approval authority
+router.get('/delegations', getDelegations);
+router.post('/delegations', createDelegation);
+router.delete('/delegations/:id', revokeDelegation);
+
+// Approval history of an entity
+router.get('/entity/:entityType/:entityId', getEntityWorkflows);
+
+// Single workflow and actions
+router.get('/:id', getWorkflow);
+router.post('/:id/act', actOnWorkflow);
+
+export default router;
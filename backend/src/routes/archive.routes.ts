@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import * as archiveController from '../controllers/archive.controller.js';
+import { authenticate, requirePermission } from '../middleware/index.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+// Search frozen records (?type=projects|reports|documents|budgets|minutes&year=&category=&vertical=)
+router.get('/', archiveController.getArchive);
+router.get('/projects', archiveController.getArchivedProjects);
+router.get('/reports', archiveController.getArchivedReports);
+
+// Archival events
+router.get('/records', archiveController.getArchiveRecords);
+router.post('/projects/:projectId', requirePermission('archive', 'create'), archiveController.archiveProject);
+router.post('/records/:id/restore', requirePermission('archive', 'manage'), archiveController.restoreArchive);
+
+export default router;
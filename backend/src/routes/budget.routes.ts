@@ -1,7 +1,7 @@
 // Budget Routes
 import { Router } from 'express';
 import { budgetController } from '../controllers/budget.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission, requireProjectRole } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -9,17 +9,24 @@ const router = Router();
 router.use(authenticate);
 
 // Budget requests
-router.get('/requests/pending', budgetController.getPendingRequests);
-router.post('/requests/:projectId', budgetController.requestBudget);
+router.get('/requests/pending', requirePermission('finance', 'manage'), budgetController.getPendingRequests);
+router.post('/requests/:projectId', requireProjectRole('contribute'), budgetController.requestBudget);
 router.post('/requests/:requestId/approve', budgetController.approveBudgetRequest);
 
 // Budget allocation and transfer
-router.post('/allocate', budgetController.allocateBudget);
-router.post('/transfer', budgetController.transferBudget);
+router.post('/allocate', requirePermission('finance', 'manage'), budgetController.allocateBudget);
+router.post('/transfer', requirePermission('finance', 'manage'), budgetController.transferBudget);
 router.get('/transfers', budgetController.getTransfers);
 
-// Yearly summary and archival
+// Yearly summary and phasing
 router.get('/summary/:year?', budgetController.getYearlySummary);
-router.post('/archive', budgetController.archiveYearEnd);
+router.get('/phasing/:projectId', requireProjectRole('view'), budgetController.getPhasing);
+
+// Year-end close: preview, carry-forward rules and archival
+router.get('/archive/preview', requirePermission('finance', 'manage'), budgetController.previewYearEnd);
+router.post('/archive', requirePermission('finance', 'manage'), budgetController.archiveYearEnd);
+router.get('/carry-forward-rules', requirePermission('finance', 'manage'), budgetController.getCarryForwardRules);
+router.put('/carry-forward-rules', requirePermission('finance', 'manage'), budgetController.saveCarryForwardRule);
+router.delete('/carry-forward-rules/:ruleId', requirePermission('finance', 'manage'), budgetController.deleteCarryForwardRule);
 
 export default router;
@@ -1,15 +1,23 @@
 import { Router } from 'express';
 import * as dashboardController from '../controllers/dashboard.controller.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import { authenticate, requirePermission } from '../middleware/index.js';
 
 const router = Router();
 
 router.use(authenticate);
 
 // Role-specific dashboards
-router.get('/director', authorize('ADMIN', 'DIRECTOR'), dashboardController.getDirectorDashboard);
-router.get('/supervisor', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), dashboardController.getSupervisorDashboard);
-router.get('/project-head', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), dashboardController.getProjectHeadDashboard);
+router.get('/director', requirePermission('dg-dashboard', 'read'), dashboardController.getDirectorDashboard);
+router.get('/supervisor', requirePermission('projects', 'manage'), dashboardController.getSupervisorDashboard);
+router.get('/project-head', requirePermission('projects', 'update'), dashboardController.getProjectHeadDashboard);
+
+// Earned value management
+router.get('/evm', dashboardController.getPortfolioEVM);
+router.get('/evm/projects/:id', dashboardController.getProjectEVM);
+
+// Risk register
+router.get('/risk-heatmap', dashboardController.getRiskHeatmap);
+router.get('/risks', dashboardController.getPortfolioRisks);
 
 // Live statistics (for WebSocket/polling)
 router.get('/live', dashboardController.getLiveStats);
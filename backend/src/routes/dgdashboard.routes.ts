@@ -3,8 +3,9 @@
 
 import { Router, Response } from 'express';
 import prisma from '../config/database.js';
-import { authenticate, authorize, AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission, AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { currencyService } from '../services/currency.service.js';
+import { bookedExpenses } from '../services/expense.service.js';
 
 const router = Router();
 
@@ -12,7 +13,7 @@ const router = Router();
 router.use(authenticate);
 
 // GET /api/dg-dashboard/overview - Comprehensive overview for DG
-router.get('/overview', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMIN'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/overview', requirePermission('dg-dashboard', 'read'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const now = new Date();
         const currentYear = now.getFullYear();
@@ -41,7 +42,7 @@ router.get('/overview', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMIN'), asyn
             prisma.project.count({ where: { status: 'PENDING_APPROVAL' } }),
             prisma.user.count({ where: { isActive: true, role: { in: ['EMPLOYEE', 'PROJECT_HEAD', 'SUPERVISOR'] } } }),
             prisma.budget.aggregate({ _sum: { amountINR: true } }),
-            prisma.expense.aggregate({ _sum: { amountINR: true } }),
+            prisma.expense.aggregate({ where: bookedExpenses, _sum: { amountINR: true } }),
             prisma.project.groupBy({ by: ['category'], _count: { id: true } }),
             prisma.project.groupBy({ by: ['status'], _count: { id: true } }),
             prisma.project.findMany({
@@ -135,7 +136,7 @@ router.get('/overview', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMIN'), asyn
 });
 
 // GET /api/dg-dashboard/financial-details - Detailed financial breakdown
-router.get('/financial-details', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMIN'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/financial-details', requirePermission('dg-dashboard', 'read'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const { year, month } = req.query;
         const fiscalYear = year as string || `${new Date().getFullYear()}-${(new Date().getFullYear() + 1).toString().slice(-2)}`;
@@ -171,6 +172,7 @@ router.get('/financial-details', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMI
         // Get expenses by category
         const expensesByCategory = await prisma.expense.groupBy({
             by: ['category'],
+            where: bookedExpenses,
             _sum: { amountINR: true },
         });
 
@@ -205,7 +207,7 @@ router.get('/financial-details', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMI
 });
 
 // GET /api/dg-dashboard/project-analytics - Project analytics with trends
-router.get('/project-analytics', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMIN'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/project-analytics', requirePermission('dg-dashboard', 'read'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         // Projects by vertical
         const projectsByVertical = await prisma.project.groupBy({
@@ -266,7 +268,7 @@ router.get('/project-analytics', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMI
 });
 
 // GET /api/dg-dashboard/staff-analytics - Staff and manpower analytics
-router.get('/staff-analytics', authorize('DIRECTOR_GENERAL', 'DIRECTOR', 'ADMIN'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/staff-analytics', requirePermission('dg-dashboard', 'read'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         // Staff by role
         const staffByRole = await prisma.user.groupBy({
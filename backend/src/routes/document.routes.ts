@@ -1,30 +1,46 @@
 import { Router } from 'express';
+import prisma from '../config/database.js';
 import * as documentController from '../controllers/document.controller.js';
-import { authenticate, authorize, uploadSingle } from '../middleware/index.js';
+import {
+    authenticate,
+    requireProjectRole,
+    projectIdFromBody,
+    ProjectIdResolver,
+    uploadSingle,
+} from '../middleware/index.js';
 
 const router = Router();
 
 router.use(authenticate);
 
-// Documents
+// Documents not filed under a project fall back to the documents permissions
+const projectIdOfDocument: ProjectIdResolver = async (req) => {
+    const document = await prisma.document.findUnique({
+        where: { id: req.params.id },
+        select: { projectId: true },
+    });
+    return document ? document.projectId ?? undefined : null;
+};
+
+// Documents (project fields arrive as multipart, so access is checked after the upload is parsed)
 router.get('/', documentController.getDocuments);
-router.post('/', uploadSingle, documentController.uploadDocument);
+router.post('/', uploadSingle, requireProjectRole('contribute', ['documents', 'create'], projectIdFromBody), documentController.uploadDocument);
 router.get('/:id/download', documentController.downloadDocument);
-router.delete('/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), documentController.deleteDocument);
+router.delete('/:id', requireProjectRole('manage', ['documents', 'delete'], projectIdOfDocument), documentController.deleteDocument);
 
 // MoUs
 router.get('/mous', documentController.getMoUs);
-router.post('/mous', uploadSingle, documentController.createMoU);
+router.post('/mous', uploadSingle, requireProjectRole('manage', ['documents', 'create'], projectIdFromBody), documentController.createMoU);
 
 // Project outputs
 router.get('/outputs', documentController.getProjectOutputs);
-router.post('/outputs', uploadSingle, documentController.addProjectOutput);
+router.post('/outputs', uploadSingle, requireProjectRole('contribute', ['documents', 'create'], projectIdFromBody), documentController.addProjectOutput);
 
 // QR Code for assets
 router.post('/qr/asset', documentController.generateAssetQR);
 
 // External feedback
-router.post('/feedback', uploadSingle, documentController.submitExternalFeedback);
-router.get('/feedback/:projectId', documentController.getExternalFeedback);
+router.post('/feedback', uploadSingle, requireProjectRole('view', undefined, projectIdFromBody), documentController.submitExternalFeedback);
+router.get('/feedback/:projectId', requireProjectRole('view'), documentController.getExternalFeedback);
 
 export default router;
@@ -1,28 +1,176 @@
 import { Router } from 'express';
+import prisma from '../config/database.js';
 import * as financeController from '../controllers/finance.controller.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import * as expenseController from '../controllers/expense.controller.js';
+import * as procurementController from '../controllers/procurement.controller.js';
+import * as certificateController from '../controllers/utilization-certificate.controller.js';
+import * as fundingController from '../controllers/funding.controller.js';
+import * as invoicingController from '../controllers/invoicing.controller.js';
+import { authenticate, requirePermission, requireProjectRole, ProjectIdResolver, uploadSingle } from '../middleware/index.js';
 
 const router = Router();
 
 router.use(authenticate);
 
+const projectIdOfExpense: ProjectIdResolver = async (req) => {
+    const expense = await prisma.expense.findUnique({
+        where: { id: req.params.expenseId },
+        select: { projectId: true },
+    });
+    return expense?.projectId ?? null;
+};
+
+const projectIdOfIndent: ProjectIdResolver = async (req) => {
+    const indent = await prisma.purchaseIndent.findUnique({
+        where: { id: req.params.indentId },
+        select: { projectId: true },
+    });
+    return indent?.projectId ?? null;
+};
+
+const projectIdOfCertificate: ProjectIdResolver = async (req) => {
+    const certificate = await prisma.utilizationCertificate.findUnique({
+        where: { id: req.params.certificateId },
+        select: { projectId: true },
+    });
+    return certificate?.projectId ?? null;
+};
+
+const projectIdOfAgreement: ProjectIdResolver = async (req) => {
+    const agreement = await prisma.fundingAgreement.findUnique({
+        where: { id: req.params.agreementId },
+        select: { projectId: true },
+    });
+    return agreement?.projectId ?? null;
+};
+
+const projectIdOfInstalment: ProjectIdResolver = async (req) => {
+    const instalment = await prisma.fundingInstalment.findUnique({
+        where: { id: req.params.instalmentId },
+        select: { projectId: true },
+    });
+    return instalment?.projectId ?? null;
+};
+
+const projectIdOfQuotation: ProjectIdResolver = async (req) => {
+    const quotation = await prisma.quotation.findUnique({
+        where: { id: req.params.quotationId },
+        select: { projectId: true },
+    });
+    return quotation?.projectId ?? null;
+};
+
+const projectIdOfWorkOrder: ProjectIdResolver = async (req) => {
+    const workOrder = await prisma.workOrder.findUnique({
+        where: { id: req.params.workOrderId },
+        select: { projectId: true },
+    });
+    return workOrder?.projectId ?? null;
+};
+
+const projectIdOfInvoice: ProjectIdResolver = async (req) => {
+    const invoice = await prisma.invoice.findUnique({
+        where: { id: req.params.invoiceId },
+        select: { projectId: true },
+    });
+    return invoice?.projectId ?? null;
+};
+
 // Dashboard (director only)
-router.get('/dashboard', authorize('ADMIN', 'DIRECTOR'), financeController.getFinanceDashboard);
+router.get('/dashboard', requirePermission('finance-overview', 'read'), financeController.getFinanceDashboard);
 
 // Currency
 router.get('/currency-rate', financeController.getExchangeRate);
 router.post('/convert', financeController.convertCurrency);
+router.get('/currencies', financeController.getCurrencies);
+router.post('/currencies', requirePermission('finance', 'manage'), financeController.saveCurrency);
+router.get('/currency-rates', requirePermission('finance', 'read'), financeController.getCurrencyRates);
+router.post('/currency-rates', requirePermission('finance', 'manage'), financeController.addCurrencyRate);
+router.get('/revaluation', requirePermission('finance', 'manage'), financeController.getRevaluation);
+
+// Proposal costing terms per project category
+router.get('/costing-rules', requirePermission('finance', 'read'), financeController.getCostingRules);
+router.put('/costing-rules/:category', requirePermission('finance', 'manage'), financeController.saveCostingRule);
+router.delete('/costing-rules/:category', requirePermission('finance', 'manage'), financeController.resetCostingRule);
 
 // Cash flow
-router.get('/cashflow', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), financeController.getCashFlow);
-router.post('/projects/:projectId/cashflow', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), financeController.addCashFlow);
+router.get('/cashflow', requirePermission('finance', 'manage'), financeController.getCashFlow);
+router.post('/projects/:projectId/cashflow', requireProjectRole('manage', ['finance', 'create']), financeController.addCashFlow);
+
+// Sponsor funding: agreements with instalment schedules; receipts are recorded as
+// cash flow against an instalment, and finance tracks what is overdue
+router.get('/projects/:projectId/funding', requireProjectRole('view', ['finance', 'read']), fundingController.getAgreements);
+router.post('/projects/:projectId/funding', requireProjectRole('manage', ['finance', 'create']), fundingController.createAgreement);
+router.put('/funding/:agreementId', requireProjectRole('manage', ['finance', 'create'], projectIdOfAgreement), fundingController.updateAgreement);
+router.delete('/funding/:agreementId', requireProjectRole('manage', ['finance', 'create'], projectIdOfAgreement), fundingController.deleteAgreement);
+router.post('/funding/:agreementId/instalments', requireProjectRole('manage', ['finance', 'create'], projectIdOfAgreement), fundingController.addInstalment);
+router.put('/instalments/:instalmentId', requireProjectRole('manage', ['finance', 'create'], projectIdOfInstalment), fundingController.updateInstalment);
+router.post('/instalments/:instalmentId/claim', requireProjectRole('manage', ['finance', 'create'], projectIdOfInstalment), fundingController.claimInstalment);
+router.post('/instalments/:instalmentId/waive', requirePermission('finance', 'manage'), fundingController.waiveInstalment);
+router.get('/receivables', requirePermission('finance', 'manage'), fundingController.getReceivables);
+
+// Project budget (PI and Co-PIs of the project)
+router.get('/projects/:projectId/budget', requireProjectRole('view', ['finance', 'read']), financeController.getProjectBudget);
+router.post('/projects/:projectId/budget', requireProjectRole('manage', ['finance', 'create']), financeController.upsertBudget);
+
+// Expenses: members record and submit drafts, the PI / Co-PIs review, BKMD approves
+// through the EXPENSE_APPROVAL workflow, and finance pays or reverses
+router.get('/projects/:projectId/expenses', requireProjectRole('view', ['finance', 'read']), expenseController.getExpenses);
+router.post('/projects/:projectId/expenses', requireProjectRole('contribute', ['finance', 'create']), expenseController.addExpense);
+router.put('/expenses/:expenseId', requireProjectRole('contribute', ['finance', 'create'], projectIdOfExpense), expenseController.updateExpense);
+router.delete('/expenses/:expenseId', requireProjectRole('contribute', ['finance', 'create'], projectIdOfExpense), expenseController.deleteExpense);
+router.post('/expenses/:expenseId/receipt', requireProjectRole('contribute', ['finance', 'create'], projectIdOfExpense), uploadSingle, expenseController.uploadReceipt);
+router.post('/expenses/:expenseId/submit', requireProjectRole('contribute', ['finance', 'create'], projectIdOfExpense), expenseController.submitExpense);
+router.post('/expenses/:expenseId/review', requireProjectRole('manage', undefined, projectIdOfExpense), expenseController.reviewExpense);
+router.post('/expenses/:expenseId/pay', requirePermission('finance', 'manage'), expenseController.payExpense);
+router.post('/expenses/:expenseId/reverse', requirePermission('finance', 'manage'), expenseController.reverseExpense);
+
+// Procurement: indents commit funds once approved (PURCHASE_INDENT workflow); the
+// purchase section issues, closes and cancels orders against them
+router.get('/projects/:projectId/indents', requireProjectRole('view', ['finance', 'read']), procurementController.getIndents);
+router.post('/projects/:projectId/indents', requireProjectRole('contribute', ['finance', 'create']), procurementController.raiseIndent);
+router.post('/indents/:indentId/cancel', requireProjectRole('contribute', ['finance', 'manage'], projectIdOfIndent), procurementController.cancelIndent);
+router.get('/projects/:projectId/purchase-orders', requireProjectRole('view', ['finance', 'read']), procurementController.getPurchaseOrders);
+router.post('/indents/:indentId/purchase-orders', requirePermission('finance', 'manage'), procurementController.issuePurchaseOrder);
+router.post('/purchase-orders/:orderId/close', requirePermission('finance', 'manage'), procurementController.closePurchaseOrder);
+router.post('/purchase-orders/:orderId/cancel', requirePermission('finance', 'manage'), procurementController.cancelPurchaseOrder);
+
+// Utilization certificates: signed by the PI, then finance and the Director
+// (UTILIZATION_CERTIFICATE workflow); the PDF is downloaded as a document
+router.get('/projects/:projectId/utilization-certificates', requireProjectRole('view', ['finance', 'read']), certificateController.getCertificates);
+router.post('/projects/:projectId/utilization-certificates', requireProjectRole('contribute', ['finance', 'create']), certificateController.generateCertificate);
+router.post('/utilization-certificates/:certificateId/sign', requireProjectRole('manage', undefined, projectIdOfCertificate), certificateController.signCertificate);
+
+// Consultancy invoicing (CNP / STS): the PI quotes, records the client's work
+// order and drafts invoices; finance issues them, records payments net of TDS
+// (posted as cash flow) and raises credit notes
+router.get('/clients', requirePermission('finance', 'read'), invoicingController.getClients);
+router.post('/clients', requirePermission('finance', 'manage'), invoicingController.createClient);
+router.put('/clients/:clientId', requirePermission('finance', 'manage'), invoicingController.updateClient);
+router.get('/clients/:clientId/ledger', requirePermission('finance', 'manage'), invoicingController.getClientLedger);
+router.get('/tds-register', requirePermission('finance', 'manage'), invoicingController.getTdsRegister);
+router.get('/projects/:projectId/invoicing', requireProjectRole('view', ['finance', 'read']), invoicingController.getProjectInvoicing);
+router.post('/projects/:projectId/quotations', requireProjectRole('manage', ['finance', 'create']), invoicingController.createQuotation);
+router.put('/quotations/:quotationId', requireProjectRole('manage', ['finance', 'create'], projectIdOfQuotation), invoicingController.updateQuotation);
+router.post('/projects/:projectId/work-orders', requireProjectRole('manage', ['finance', 'create']), invoicingController.createWorkOrder);
+router.put('/work-orders/:workOrderId/status', requireProjectRole('manage', ['finance', 'create'], projectIdOfWorkOrder), invoicingController.updateWorkOrderStatus);
+router.post('/projects/:projectId/invoices', requireProjectRole('manage', ['finance', 'create']), invoicingController.createInvoice);
+router.put('/invoices/:invoiceId', requireProjectRole('manage', ['finance', 'create'], projectIdOfInvoice), invoicingController.updateInvoice);
+router.delete('/invoices/:invoiceId', requireProjectRole('manage', ['finance', 'create'], projectIdOfInvoice), invoicingController.deleteInvoice);
+router.post('/invoices/:invoiceId/issue', requirePermission('finance', 'manage'), invoicingController.issueInvoice);
+router.post('/invoices/:invoiceId/payments', requirePermission('finance', 'manage'), invoicingController.recordPayment);
+router.post('/invoices/:invoiceId/credit-notes', requirePermission('finance', 'manage'), invoicingController.issueCreditNote);
+router.put('/client-payments/:paymentId/tds-certificate', requirePermission('finance', 'manage'), invoicingController.recordTdsCertificate);
+
+// Ledger and reconciliation against Budget rows
+router.get('/projects/:projectId/ledger', requireProjectRole('view', ['finance', 'read']), financeController.getProjectLedger);
+router.get('/reconciliation', requirePermission('finance', 'manage'), financeController.getReconciliation);
+router.post('/ledger/opening-balances', requirePermission('finance', 'manage'), financeController.postOpeningBalances);
 
-// Project budget
-router.get('/projects/:projectId/budget', financeController.getProjectBudget);
-router.post('/projects/:projectId/budget', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), financeController.upsertBudget);
-router.post('/projects/:projectId/expenses', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), financeController.addExpense);
+// Burn-rate forecast of month-end and year-end spend, flagging lapses and overruns
+router.get('/forecast', requirePermission('finance', 'read'), financeController.getForecast);
 
 // Reports
-router.get('/costing-summary', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), financeController.getCostingSummary);
+router.get('/costing-summary', requirePermission('finance', 'manage'), financeController.getCostingSummary);
 
 export default router;
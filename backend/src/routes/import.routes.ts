@@ -7,7 +7,7 @@ import path from 'path';
 import fs from 'fs';
 import argon2 from 'argon2';
 import prisma from '../config/database.js';
-import { authenticate, authorize, AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission, AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { createAuditLog } from '../middleware/audit.middleware.js';
 
 const router = Router();
@@ -76,7 +76,7 @@ function mapDesignationToRole(designation: string): string {
 }
 
 // POST /api/import/users - Bulk import users from CSV
-router.post('/users', authorize('ADMIN', 'SUPERVISOR'), upload.single('file'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.post('/users', requirePermission('bulk-import', 'create'), upload.single('file'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         if (!req.file) {
             res.status(400).json({ error: 'No file uploaded' });
@@ -161,7 +161,7 @@ router.post('/users', authorize('ADMIN', 'SUPERVISOR'), upload.single('file'), a
 });
 
 // POST /api/import/projects - Bulk import projects from CSV
-router.post('/projects', authorize('ADMIN', 'SUPERVISOR'), upload.single('file'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.post('/projects', requirePermission('bulk-import', 'create'), upload.single('file'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         if (!req.file) {
             res.status(400).json({ error: 'No file uploaded' });
@@ -275,7 +275,7 @@ router.post('/projects', authorize('ADMIN', 'SUPERVISOR'), upload.single('file')
 });
 
 // GET /api/import/template/users - Download user import template
-router.get('/template/users', authorize('ADMIN', 'SUPERVISOR'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/template/users', requirePermission('bulk-import', 'create'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const template = `email,first_name,last_name,designation,phone
 john.doe@serc.res.in,John,Doe,Senior Scientist,+91 9876543210
 jane.smith@serc.res.in,Jane,Smith,Principal Scientist,+91 9876543211
@@ -287,7 +287,7 @@ bob.kumar@serc.res.in,Bob,Kumar,Technical Officer,+91 9876543212`;
 });
 
 // GET /api/import/template/projects - Download project import template
-router.get('/template/projects', authorize('ADMIN', 'SUPERVISOR'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/template/projects', requirePermission('bulk-import', 'create'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const template = `code,title,description,category,start_date,end_date,status,project_head_email
 GAP-2025-001,Wind Load Assessment Study,Assessment of wind loads on tall buildings,GAP,2025-01-01,2026-12-31,ACTIVE,scientist@serc.res.in
 CNP-2025-001,Bridge Structural Analysis,Consultancy for bridge design,CNP,2025-02-01,2025-08-31,ACTIVE,pi@serc.res.in
@@ -299,7 +299,7 @@ EFP-2025-001,External Research Grant,Externally funded research project,EFP,2025
 });
 
 // GET /api/import/export/users - Export all users to CSV
-router.get('/export/users', authorize('ADMIN', 'SUPERVISOR'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/export/users', requirePermission('bulk-import', 'manage'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const users = await prisma.user.findMany({
             where: { isActive: true },
@@ -329,7 +329,7 @@ router.get('/export/users', authorize('ADMIN', 'SUPERVISOR'), async (req: Authen
 });
 
 // GET /api/import/export/projects - Export all projects to CSV
-router.get('/export/projects', authorize('ADMIN', 'SUPERVISOR', 'DIRECTOR'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/export/projects', requirePermission('bulk-import', 'read'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
         const projects = await prisma.project.findMany({
             include: {
@@ -15,6 +15,11 @@ import staffRoutes from './staff.routes.js';
 import reportRoutes from './report.routes.js';
 import budgetRoutes from './budget.routes.js';
 import proposalRoutes from './proposal.routes.js';
+import approvalRoutes from './approval.routes.js';
+import todoRoutes from './todo.routes.js';
+import archiveRoutes from './archive.routes.js';
+import notificationRoutes from './notification.routes.js';
+import permissionRoutes from './permission.routes.js';
 import prisma from '../config/database.js';
 
 const router = Router();
@@ -54,6 +59,11 @@ router.use('/staff', staffRoutes);
 router.use('/reports', reportRoutes);
 router.use('/budgets', budgetRoutes);
 router.use('/proposals', proposalRoutes);
+router.use('/approvals', approvalRoutes);
+router.use('/todos', todoRoutes);
+router.use('/archive', archiveRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/permissions', permissionRoutes);
 
 export default router;
 
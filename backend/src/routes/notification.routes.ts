@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import * as notificationController from '../controllers/notification.controller.js';
+import { authenticate } from '../middleware/index.js';
+
+const router = Router();
+
+// Unsubscribe links in emails work without a session (the token identifies the user)
+router.post('/unsubscribe', notificationController.unsubscribe);
+
+router.use(authenticate);
+
+// In-app notifications (new ones are also pushed over Socket.IO)
+router.get('/', notificationController.getNotifications);
+router.patch('/read-all', notificationController.markAllAsRead);
+router.patch('/:id/read', notificationController.markAsRead);
+
+// Per-user delivery preferences and quiet hours
+router.get('/preferences', notificationController.getPreferences);
+router.put('/preferences', notificationController.updatePreferences);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as permissionController from '../controllers/permission.controller.js';
+import { authenticate, requirePermission } from '../middleware/index.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/me', permissionController.getMyPermissions);
+
+// Permission matrix editor
+router.get('/', requirePermission('settings', 'manage'), permissionController.getPermissionMatrix);
+router.put('/', requirePermission('settings', 'manage'), permissionController.updatePermissionMatrix);
+router.post('/reset', requirePermission('settings', 'manage'), permissionController.resetPermissionMatrix);
+
+export default router;
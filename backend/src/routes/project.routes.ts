@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import * as projectController from '../controllers/project.controller.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import * as riskController from '../controllers/risk.controller.js';
+import * as baselineController from '../controllers/baseline.controller.js';
+import { getArchivedProjects } from '../controllers/archive.controller.js';
+import { authenticate, requirePermission, requireProjectRole } from '../middleware/index.js';
 
 const router = Router();
 
@@ -9,26 +12,42 @@ router.use(authenticate);
 
 // Project CRUD
 router.get('/', projectController.getProjects);
-router.get('/:id', projectController.getProject);
-router.post('/', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), projectController.createProject);
-router.put('/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), projectController.updateProject);
-router.delete('/:id', authorize('ADMIN'), projectController.deleteProject);
+router.get('/archived', getArchivedProjects);
+router.get('/:id', requireProjectRole('view', ['projects', 'read']), projectController.getProject);
+router.post('/', requirePermission('projects', 'create'), projectController.createProject);
+router.put('/:id', requireProjectRole('manage', ['projects', 'update']), projectController.updateProject);
+router.delete('/:id', requirePermission('projects', 'delete'), projectController.deleteProject);
 
 // Project statistics (for RC meetings)
-router.get('/:id/stats', projectController.getProjectStats);
+router.get('/:id/stats', requireProjectRole('view', ['projects', 'read']), projectController.getProjectStats);
 
-// Staff management
-router.post('/:id/staff', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), projectController.addProjectStaff);
-router.post('/:id/staff/bulk', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), projectController.bulkAddProjectStaff);
-router.delete('/:id/staff/:userId', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), projectController.removeProjectStaff);
+// Staff management (Co-PIs manage the team of their own project)
+router.post('/:id/staff', requireProjectRole('manage', ['projects', 'update']), projectController.addProjectStaff);
+router.post('/:id/staff/bulk', requirePermission('projects', 'manage'), projectController.bulkAddProjectStaff);
+router.patch('/:id/staff/:userId', requireProjectRole('manage', ['projects', 'update']), projectController.updateProjectStaffRole);
+router.delete('/:id/staff/:userId', requireProjectRole('manage', ['projects', 'update']), projectController.removeProjectStaff);
 
 // Milestones
-router.post('/:id/milestones', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), projectController.addMilestone);
-router.put('/:id/milestones/:milestoneId', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), projectController.updateMilestone);
+router.post('/:id/milestones', requireProjectRole('manage', ['projects', 'update']), projectController.addMilestone);
+router.put('/:id/milestones/:milestoneId', requireProjectRole('manage', ['projects', 'update']), projectController.updateMilestone);
+
+// Schedule baselines and variance
+router.get('/:id/baselines', requireProjectRole('view', ['projects', 'read']), baselineController.getBaselines);
+router.post('/:id/baselines', requireProjectRole('manage', ['projects', 'update']), baselineController.captureBaseline);
+router.patch('/:id/baselines/:baselineId', requireProjectRole('manage', ['projects', 'update']), baselineController.updateBaseline);
+router.delete('/:id/baselines/:baselineId', requirePermission('projects', 'delete'), baselineController.deleteBaseline);
+router.get('/:id/variance', requireProjectRole('view', ['projects', 'read']), baselineController.getVariance);
 
 // Project Comments/Journal
-router.get('/:id/comments', projectController.getProjectComments);
-router.post('/:id/comments', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD', 'RC_MEMBER'), projectController.addProjectComment);
-router.delete('/:id/comments/:commentId', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), projectController.deleteProjectComment);
+router.get('/:id/comments', requireProjectRole('view', ['comments', 'read']), projectController.getProjectComments);
+router.post('/:id/comments', requireProjectRole('contribute', ['comments', 'create']), projectController.addProjectComment);
+router.delete('/:id/comments/:commentId', requireProjectRole('contribute', ['comments', 'delete']), projectController.deleteProjectComment);
+
+// Risk register
+router.get('/:id/risks', requireProjectRole('view', ['projects', 'read']), riskController.getProjectRisks);
+router.post('/:id/risks', requireProjectRole('manage', ['projects', 'update']), riskController.addRisk);
+router.put('/:id/risks/:riskId', requireProjectRole('manage', ['projects', 'update']), riskController.updateRisk);
+router.delete('/:id/risks/:riskId', requireProjectRole('manage', ['projects', 'update']), riskController.deleteRisk);
+router.get('/:id/risks/:riskId/history', requireProjectRole('view', ['projects', 'read']), riskController.getRiskHistory);
 
 export default router;
@@ -1,10 +1,137 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../config/database.js';
-import { authenticate, authorize } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 import { ProposalStatus, UserRole } from '@prisma/client';
+import { approvalService, ApprovalAction, ApprovalContext, ApprovalError } from '../services/approval.service.js';
+import { notificationService } from '../services/notification.service.js';
+import { costingService, CostingError, COST_HEADS } from '../services/costing.service.js';
+import { ArchiveError } from '../services/archive.service.js';
+import { LedgerError } from '../services/ledger.service.js';
+import { z } from 'zod';
 
 const router = Router();
 
+const costItemSchema = z.object({
+    head: z.enum(COST_HEADS),
+    description: z.string().trim().min(1),
+    quantity: z.number().positive(),
+    months: z.number().positive().nullish(),
+    unitCostINR: z.number().min(0),
+    fiscalYear: z.string().regex(/^\d{4}-\d{2}$/, 'Expected a fiscal year like 2025-26').nullish(),
+}).refine(item => item.head !== 'MANPOWER' || item.months, {
+    message: 'Manpower lines need the number of months',
+    path: ['months'],
+});
+
+const costSheetSchema = z.object({
+    items: z.array(costItemSchema).min(1),
+    contingencyPercent: z.number().min(0).default(0),
+    notes: z.string().trim().nullish(),
+});
+
+// ============================================
+// APPROVAL WORKFLOW
+// ============================================
+
+// Records the reviewer of the step that was just actioned. The final step of the
+// PROJECT_APPROVAL workflow is the RC decision; earlier steps are BKMD or Director reviews.
+const reviewerData = (ctx: ApprovalContext) => {
+    const now = new Date();
+    if (ctx.step.stepOrder === ctx.workflow.totalSteps) {
+        return {
+            rcMeetingId: typeof ctx.data.rcMeetingId === 'string' && ctx.data.rcMeetingId ? ctx.data.rcMeetingId : null,
+            rcComments: ctx.comments,
+        };
+    }
+    if (ctx.step.approverRole === UserRole.SUPERVISOR) {
+        return { bkmdReviewerId: ctx.actorId, bkmdReviewedAt: now, bkmdComments: ctx.comments };
+    }
+    return { directorReviewerId: ctx.actorId, directorReviewedAt: now, directorComments: ctx.comments };
+};
+
+const notifySubmitter = async (ctx: ApprovalContext, outcome: string) => {
+    const proposal = await prisma.projectProposal.findUnique({
+        where: { id: ctx.workflow.entityId },
+        select: { id: true, title: true, submittedById: true },
+    });
+    if (!proposal) return;
+
+    await notificationService.createNotification({
+        userId: proposal.submittedById,
+        type: 'PROJECT_UPDATE',
+        title: `Proposal ${outcome}`,
+        message: `Your proposal "${proposal.title}" has been ${outcome.toLowerCase()} at ${ctx.step.name}.${ctx.comments ? ' Comments: ' + ctx.comments : ''}`,
+        link: `/proposals/${proposal.id}`,
+    });
+};
+
+approvalService.registerHandler('PROJECT_APPROVAL', {
+    async onStepApproved(ctx) {
+        const next = ctx.workflow.steps.find(s => s.stepOrder === ctx.workflow.currentStep);
+        const status = ctx.workflow.currentStep === ctx.workflow.totalSteps
+            ? ProposalStatus.DIRECTOR_APPROVED
+            : next?.approverRole === UserRole.SUPERVISOR ? ProposalStatus.BKMD_REVIEW : ProposalStatus.DIRECTOR_REVIEW;
+
+        await prisma.projectProposal.update({
+            where: { id: ctx.workflow.entityId },
+            data: { status, ...reviewerData(ctx) },
+        });
+    },
+    async onApproved(ctx) {
+        await prisma.projectProposal.update({
+            where: { id: ctx.workflow.entityId },
+            data: { status: ProposalStatus.RC_APPROVED, ...reviewerData(ctx) },
+        });
+        await notifySubmitter(ctx, 'Approved');
+    },
+    async onRejected(ctx) {
+        const status = ctx.step.stepOrder === ctx.workflow.totalSteps ? ProposalStatus.RC_REJECTED : ProposalStatus.DIRECTOR_REJECTED;
+        await prisma.projectProposal.update({
+            where: { id: ctx.workflow.entityId },
+            data: { status, ...reviewerData(ctx) },
+        });
+        await notifySubmitter(ctx, 'Rejected');
+    },
+    async onRevisionRequested(ctx) {
+        await prisma.projectProposal.update({
+            where: { id: ctx.workflow.entityId },
+            data: { status: ProposalStatus.DRAFT, ...reviewerData(ctx) },
+        });
+        await notifySubmitter(ctx, 'Returned for Revision');
+    },
+});
+
+const startProposalWorkflow = (proposal: { id: string; title: string; submittedById: string; estimatedBudget: number | null }) =>
+    approvalService.start({
+        type: 'PROJECT_APPROVAL',
+        entityType: 'ProjectProposal',
+        entityId: proposal.id,
+        requesterId: proposal.submittedById,
+        title: `Project proposal: ${proposal.title}`,
+        link: `/proposals/${proposal.id}`,
+        amount: proposal.estimatedBudget,
+    });
+
+// Acts on the current step of a proposal's workflow and returns the updated proposal
+const reviewProposal = async (
+    proposal: { id: string; title: string; submittedById: string; estimatedBudget: number | null },
+    user: { userId: string; role: UserRole },
+    action: ApprovalAction,
+    comments?: string,
+    data: Record<string, unknown> = {}
+) => {
+    // Proposals submitted before the approval workflow existed get one on first review
+    const workflow = await approvalService.getActiveWorkflow('ProjectProposal', proposal.id)
+        ?? await startProposalWorkflow(proposal);
+
+    await approvalService.act(workflow.id, user, action, comments, data);
+    return prisma.projectProposal.findUnique({ where: { id: proposal.id } });
+};
+
+// ============================================
+// PROPOSALS
+// ============================================
+
 // Get all proposals (filtered by role)
 router.get('/', authenticate, async (req: Request, res: Response) => {
     try {
@@ -26,12 +153,12 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
         // Role-based filtering
         if (user.role === UserRole.EMPLOYEE || user.role === UserRole.PROJECT_HEAD) {
             // Scientists/Employees see only their own proposals
-            where.submittedById = user.id;
+            where.submittedById = user.userId;
         } else if (user.role === UserRole.SUPERVISOR) {
             // BKMD sees SUBMITTED proposals and those they've reviewed
             where.OR = [
                 { status: ProposalStatus.SUBMITTED },
-                { bkmdReviewerId: user.id },
+                { bkmdReviewerId: user.userId },
                 { status: ProposalStatus.BKMD_REVIEW },
             ];
         } else if (user.role === UserRole.DIRECTOR) {
@@ -40,7 +167,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
                 { status: ProposalStatus.DIRECTOR_REVIEW },
                 { status: ProposalStatus.DIRECTOR_APPROVED },
                 { status: ProposalStatus.DIRECTOR_REJECTED },
-                { directorReviewerId: user.id },
+                { directorReviewerId: user.userId },
             ];
         }
         // ADMIN and SYS_ADMIN see all proposals
@@ -163,7 +290,7 @@ router.post('/', authenticate, async (req: Request, res: Response) => {
                 category,
                 verticalId,
                 specialAreaId: specialAreaId || null,
-                submittedById: user.id,
+                submittedById: user.userId,
                 objectives,
                 methodology,
                 expectedOutcome,
@@ -203,7 +330,7 @@ router.put('/:id', authenticate, async (req: Request, res: Response) => {
         }
 
         // Only submitter can update drafts
-        if (proposal.submittedById !== user.id && user.role !== UserRole.ADMIN && user.role !== UserRole.ADMIN) {
+        if (proposal.submittedById !== user.userId && user.role !== UserRole.ADMIN && user.role !== UserRole.ADMIN) {
             return res.status(403).json({ error: 'Not authorized to update this proposal' });
         }
 
@@ -211,6 +338,24 @@ router.put('/:id', authenticate, async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Only draft proposals can be edited' });
         }
 
+        // A cost sheet is costed under the category's terms for the proposed period, and
+        // sets the estimated budget; those stay as costed once a sheet exists
+        const costed = await prisma.proposalCostSheet.count({ where: { proposalId: id } });
+        if (costed > 0) {
+            const sameDay = (value: string, current: Date) => new Date(value).getTime() === current.getTime();
+            const locked = [
+                updateData.category !== undefined && updateData.category !== proposal.category && 'category',
+                updateData.proposedStartDate && !sameDay(updateData.proposedStartDate, proposal.proposedStartDate) && 'proposed start date',
+                updateData.proposedEndDate && !sameDay(updateData.proposedEndDate, proposal.proposedEndDate) && 'proposed end date',
+                updateData.estimatedBudget !== undefined && parseFloat(updateData.estimatedBudget) !== proposal.estimatedBudget && 'estimated budget',
+            ].filter(Boolean);
+            if (locked.length > 0) {
+                return res.status(409).json({
+                    error: `The ${locked.join(', ')} of a costed proposal cannot be edited; the estimated budget comes from its cost sheet`,
+                });
+            }
+        }
+
         const updated = await prisma.projectProposal.update({
             where: { id },
             data: {
@@ -234,6 +379,75 @@ router.put('/:id', authenticate, async (req: Request, res: Response) => {
     }
 });
 
+// ============================================
+// COST SHEETS
+// ============================================
+
+// Cost sheet versions of a proposal, newest first, with the terms its category is costed under
+router.get('/:id/cost-sheets', authenticate, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const proposal = await prisma.projectProposal.findUnique({
+            where: { id },
+            select: { category: true },
+        });
+
+        if (!proposal) {
+            return res.status(404).json({ error: 'Proposal not found' });
+        }
+
+        const [rule, sheets] = await Promise.all([
+            costingService.ruleFor(proposal.category),
+            costingService.listSheets(id),
+        ]);
+
+        res.json({ rule, sheets });
+    } catch (error) {
+        console.error('Error fetching cost sheets:', error);
+        res.status(500).json({ error: 'Failed to fetch cost sheets' });
+    }
+});
+
+// Save a new cost sheet version (drafts only, by the submitter); its budget becomes the estimate
+router.post('/:id/cost-sheets', authenticate, async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const { id } = req.params;
+
+        const proposal = await prisma.projectProposal.findUnique({
+            where: { id },
+            select: { submittedById: true },
+        });
+
+        if (!proposal) {
+            return res.status(404).json({ error: 'Proposal not found' });
+        }
+
+        if (proposal.submittedById !== user.userId && user.role !== UserRole.ADMIN) {
+            return res.status(403).json({ error: 'Not authorized to cost this proposal' });
+        }
+
+        const data = costSheetSchema.parse(req.body);
+        const sheet = await costingService.saveSheet(id, data, user.userId);
+
+        res.status(201).json(sheet);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        if (error instanceof CostingError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
+        console.error('Error saving cost sheet:', error);
+        res.status(500).json({ error: 'Failed to save cost sheet' });
+    }
+});
+
+// ============================================
+// REVIEW
+// ============================================
+
 // Submit proposal for BKMD review
 router.post('/:id/submit', authenticate, async (req: Request, res: Response) => {
     try {
@@ -248,7 +462,7 @@ router.post('/:id/submit', authenticate, async (req: Request, res: Response) =>
             return res.status(404).json({ error: 'Proposal not found' });
         }
 
-        if (proposal.submittedById !== user.id) {
+        if (proposal.submittedById !== user.userId) {
             return res.status(403).json({ error: 'Only the submitter can submit the proposal' });
         }
 
@@ -256,6 +470,9 @@ router.post('/:id/submit', authenticate, async (req: Request, res: Response) =>
             return res.status(400).json({ error: 'Only draft proposals can be submitted' });
         }
 
+        // Route through the approval workflow (notifies the first approvers)
+        await startProposalWorkflow(proposal);
+
         const updated = await prisma.projectProposal.update({
             where: { id },
             data: { status: ProposalStatus.SUBMITTED },
@@ -263,13 +480,16 @@ router.post('/:id/submit', authenticate, async (req: Request, res: Response) =>
 
         res.json({ message: 'Proposal submitted for BKMD review', proposal: updated });
     } catch (error) {
+        if (error instanceof ApprovalError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
         console.error('Error submitting proposal:', error);
         res.status(500).json({ error: 'Failed to submit proposal' });
     }
 });
 
 // BKMD review - forward to Director
-router.post('/:id/bkmd-review', authenticate, authorize(UserRole.SUPERVISOR, UserRole.ADMIN), async (req: Request, res: Response) => {
+router.post('/:id/bkmd-review', authenticate, requirePermission('proposals', 'update'), async (req: Request, res: Response) => {
     try {
         const user = (req as any).user;
         const { id } = req.params;
@@ -287,17 +507,7 @@ router.post('/:id/bkmd-review', authenticate, authorize(UserRole.SUPERVISOR, Use
             return res.status(400).json({ error: 'Proposal is not pending BKMD review' });
         }
 
-        const newStatus = action === 'forward' ? ProposalStatus.DIRECTOR_REVIEW : ProposalStatus.DRAFT;
-
-        const updated = await prisma.projectProposal.update({
-            where: { id },
-            data: {
-                status: newStatus,
-                bkmdReviewerId: user.id,
-                bkmdReviewedAt: new Date(),
-                bkmdComments: comments,
-            },
-        });
+        const updated = await reviewProposal(proposal, user, action === 'forward' ? 'APPROVED' : 'REVISION_REQUESTED', comments);
 
         const message = action === 'forward'
             ? 'Proposal forwarded to Director for review'
@@ -305,13 +515,16 @@ router.post('/:id/bkmd-review', authenticate, authorize(UserRole.SUPERVISOR, Use
 
         res.json({ message, proposal: updated });
     } catch (error) {
+        if (error instanceof ApprovalError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
         console.error('Error in BKMD review:', error);
         res.status(500).json({ error: 'Failed to process BKMD review' });
     }
 });
 
 // Director review - approve or reject
-router.post('/:id/director-review', authenticate, authorize(UserRole.DIRECTOR, UserRole.ADMIN), async (req: Request, res: Response) => {
+router.post('/:id/director-review', authenticate, requirePermission('proposals', 'approve'), async (req: Request, res: Response) => {
     try {
         const user = (req as any).user;
         const { id } = req.params;
@@ -329,17 +542,7 @@ router.post('/:id/director-review', authenticate, authorize(UserRole.DIRECTOR, U
             return res.status(400).json({ error: 'Proposal is not pending Director review' });
         }
 
-        const newStatus = action === 'approve' ? ProposalStatus.DIRECTOR_APPROVED : ProposalStatus.DIRECTOR_REJECTED;
-
-        const updated = await prisma.projectProposal.update({
-            where: { id },
-            data: {
-                status: newStatus,
-                directorReviewerId: user.id,
-                directorReviewedAt: new Date(),
-                directorComments: comments,
-            },
-        });
+        const updated = await reviewProposal(proposal, user, action === 'approve' ? 'APPROVED' : 'REJECTED', comments);
 
         const message = action === 'approve'
             ? 'Proposal approved by Director - pending RC approval'
@@ -347,14 +550,18 @@ router.post('/:id/director-review', authenticate, authorize(UserRole.DIRECTOR, U
 
         res.json({ message, proposal: updated });
     } catch (error) {
+        if (error instanceof ApprovalError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
         console.error('Error in Director review:', error);
         res.status(500).json({ error: 'Failed to process Director review' });
     }
 });
 
 // RC approval
-router.post('/:id/rc-review', authenticate, authorize(UserRole.DIRECTOR, UserRole.ADMIN), async (req: Request, res: Response) => {
+router.post('/:id/rc-review', authenticate, requirePermission('proposals', 'approve'), async (req: Request, res: Response) => {
     try {
+        const user = (req as any).user;
         const { id } = req.params;
         const { comments, action, rcMeetingId } = req.body; // action: 'approve' or 'reject'
 
@@ -370,16 +577,7 @@ router.post('/:id/rc-review', authenticate, authorize(UserRole.DIRECTOR, UserRol
             return res.status(400).json({ error: 'Proposal is not pending RC review' });
         }
 
-        const newStatus = action === 'approve' ? ProposalStatus.RC_APPROVED : ProposalStatus.RC_REJECTED;
-
-        const updated = await prisma.projectProposal.update({
-            where: { id },
-            data: {
-                status: newStatus,
-                rcMeetingId: rcMeetingId || null,
-                rcComments: comments,
-            },
-        });
+        const updated = await reviewProposal(proposal, user, action === 'approve' ? 'APPROVED' : 'REJECTED', comments, { rcMeetingId });
 
         const message = action === 'approve'
             ? 'Proposal approved by Research Council'
@@ -387,13 +585,16 @@ router.post('/:id/rc-review', authenticate, authorize(UserRole.DIRECTOR, UserRol
 
         res.json({ message, proposal: updated });
     } catch (error) {
+        if (error instanceof ApprovalError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
         console.error('Error in RC review:', error);
         res.status(500).json({ error: 'Failed to process RC review' });
     }
 });
 
 // Convert approved proposal to project
-router.post('/:id/convert-to-project', authenticate, authorize(UserRole.DIRECTOR, UserRole.ADMIN), async (req: Request, res: Response) => {
+router.post('/:id/convert-to-project', authenticate, requirePermission('proposals', 'manage'), async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
@@ -428,36 +629,50 @@ router.post('/:id/convert-to-project', authenticate, authorize(UserRole.DIRECTOR
 
         const projectCode = `${proposal.category}-${year}-${verticalCode}-${sequence.toString().padStart(3, '0')}`;
 
-        // Create the project
-        const project = await prisma.project.create({
-            data: {
-                code: projectCode,
-                title: proposal.title,
-                description: proposal.description,
-                category: proposal.category,
-                verticalId: proposal.verticalId,
-                specialAreaId: proposal.specialAreaId,
-                projectHeadId: proposal.submittedById,
-                objectives: proposal.objectives,
-                methodology: proposal.methodology,
-                expectedOutcome: proposal.expectedOutcome,
-                startDate: proposal.proposedStartDate,
-                endDate: proposal.proposedEndDate,
-                status: 'ACTIVE',
-            },
-        });
+        // The latest cost sheet becomes the project's budgets
+        const sheet = await costingService.latestSheet(id);
+        if (sheet) {
+            await costingService.assertBudgetable(sheet);
+        }
 
-        // Update proposal to mark as converted
-        await prisma.projectProposal.update({
-            where: { id },
-            data: {
-                status: ProposalStatus.CONVERTED,
-                convertedProjectId: project.id,
-            },
+        const { project, budgets } = await prisma.$transaction(async (tx) => {
+            const project = await tx.project.create({
+                data: {
+                    code: projectCode,
+                    title: proposal.title,
+                    description: proposal.description,
+                    category: proposal.category,
+                    verticalId: proposal.verticalId,
+                    specialAreaId: proposal.specialAreaId,
+                    projectHeadId: proposal.submittedById,
+                    objectives: proposal.objectives,
+                    methodology: proposal.methodology,
+                    expectedOutcome: proposal.expectedOutcome,
+                    startDate: proposal.proposedStartDate,
+                    endDate: proposal.proposedEndDate,
+                    status: 'ACTIVE',
+                },
+            });
+
+            const budgets = sheet ? await costingService.createBudgets(tx, project.id, sheet, (req as any).user?.userId) : [];
+
+            // Update proposal to mark as converted
+            await tx.projectProposal.update({
+                where: { id },
+                data: {
+                    status: ProposalStatus.CONVERTED,
+                    convertedProjectId: project.id,
+                },
+            });
+
+            return { project, budgets };
         });
 
-        res.json({ message: 'Proposal converted to project', project });
+        res.json({ message: 'Proposal converted to project', project, budgets });
     } catch (error) {
+        if (error instanceof ArchiveError || error instanceof LedgerError) {
+            return res.status(error.statusCode).json({ error: error.message });
+        }
         console.error('Error converting proposal to project:', error);
         res.status(500).json({ error: 'Failed to convert proposal to project' });
     }
@@ -477,7 +692,7 @@ router.delete('/:id', authenticate, async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'Proposal not found' });
         }
 
-        if (proposal.submittedById !== user.id && user.role !== UserRole.ADMIN && user.role !== UserRole.ADMIN) {
+        if (proposal.submittedById !== user.userId && user.role !== UserRole.ADMIN && user.role !== UserRole.ADMIN) {
             return res.status(403).json({ error: 'Not authorized to delete this proposal' });
         }
 
@@ -485,6 +700,7 @@ router.delete('/:id', authenticate, async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Only draft proposals can be deleted' });
         }
 
+        await approvalService.cancel('ProjectProposal', id, 'Proposal deleted');
         await prisma.projectProposal.delete({
             where: { id },
         });
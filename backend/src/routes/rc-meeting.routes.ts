@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as rcMeetingController from '../controllers/rc-meeting.controller.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import { authenticate, requirePermission } from '../middleware/index.js';
 
 const router = Router();
 
@@ -10,35 +10,35 @@ router.use(authenticate);
 router.get('/', rcMeetingController.getMeetings);
 router.get('/members', rcMeetingController.getRCMembers);
 router.get('/:id', rcMeetingController.getMeeting);
-router.post('/', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.createMeeting);
-router.put('/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.updateMeeting);
+router.post('/', requirePermission('rc-meetings', 'create'), rcMeetingController.createMeeting);
+router.put('/:id', requirePermission('rc-meetings', 'update'), rcMeetingController.updateMeeting);
 
 // Agenda items - with alias routes for frontend compatibility
 router.get('/:id/agenda', rcMeetingController.getAgendaItems);
-router.post('/:id/agenda', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.addAgendaItem);
-router.put('/:id/agenda/:itemId', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.updateAgendaItem);
-router.delete('/:id/agenda/:itemId', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.deleteAgendaItem);
+router.post('/:id/agenda', requirePermission('rc-meetings', 'update'), rcMeetingController.addAgendaItem);
+router.put('/:id/agenda/:itemId', requirePermission('rc-meetings', 'update'), rcMeetingController.updateAgendaItem);
+router.delete('/:id/agenda/:itemId', requirePermission('rc-meetings', 'update'), rcMeetingController.deleteAgendaItem);
 
 // Alias routes for frontend (/agenda-items instead of /agenda)
 router.get('/:id/agenda-items', rcMeetingController.getAgendaItems);
-router.post('/:id/agenda-items', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.addAgendaItem);
-router.put('/:id/agenda-items/:itemId', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.updateAgendaItem);
-router.delete('/:id/agenda-items/:itemId', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.deleteAgendaItem);
+router.post('/:id/agenda-items', requirePermission('rc-meetings', 'update'), rcMeetingController.addAgendaItem);
+router.put('/:id/agenda-items/:itemId', requirePermission('rc-meetings', 'update'), rcMeetingController.updateAgendaItem);
+router.delete('/:id/agenda-items/:itemId', requirePermission('rc-meetings', 'update'), rcMeetingController.deleteAgendaItem);
 
 // Agenda item comments (RC members, Director, BKMD can comment)
 router.get('/:id/agenda/:itemId/comments', rcMeetingController.getAgendaComments);
-router.post('/:id/agenda/:itemId/comments', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'RC_MEMBER'), rcMeetingController.addAgendaComment);
+router.post('/:id/agenda/:itemId/comments', requirePermission('rc-meetings', 'approve'), rcMeetingController.addAgendaComment);
 router.delete('/:id/agenda/:itemId/comments/:commentId', rcMeetingController.deleteAgendaComment);
 
 // Finalize agenda item
-router.post('/:id/agenda/:itemId/finalize', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.finalizeAgendaItem);
+router.post('/:id/agenda/:itemId/finalize', requirePermission('rc-meetings', 'update'), rcMeetingController.finalizeAgendaItem);
 
 // Minutes
-router.post('/:id/minutes', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.recordMinutes);
+router.post('/:id/minutes', requirePermission('rc-meetings', 'update'), rcMeetingController.recordMinutes);
 
 // Meeting pack / PDF generation
-router.get('/:id/pack', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.generateMeetingPack);
-router.get('/:id/agenda-pdf', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), rcMeetingController.generateAgendaPDF);
+router.get('/:id/pack', requirePermission('rc-meetings', 'manage'), rcMeetingController.generateMeetingPack);
+router.get('/:id/agenda-pdf', requirePermission('rc-meetings', 'manage'), rcMeetingController.generateAgendaPDF);
 
 export default router;
 
@@ -1,30 +1,54 @@
 // Report Routes
 import { Router } from 'express';
 import { reportController, upload } from '../controllers/report.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { getArchivedReports } from '../controllers/archive.controller.js';
+import * as monthlyReportController from '../controllers/monthly-report.controller.js';
+import prisma from '../config/database.js';
+import { authenticate, requirePermission, requireProjectRole, ProjectIdResolver } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
+const projectIdOfReport: ProjectIdResolver = async (req) => {
+    const report = await prisma.projectReport.findUnique({
+        where: { id: req.params.reportId },
+        select: { projectId: true },
+    });
+    return report?.projectId ?? null;
+};
+
 // All routes require authentication
 router.use(authenticate);
 
 // Export reports (PDF or Excel)
 router.get('/export', reportController.exportReport);
 
+// Archived (read-only) reports of closed projects and fiscal years
+router.get('/archived', getArchivedReports);
+
+// Monthly reports (generated on the 1st of every month)
+router.get('/monthly', requirePermission('monthly-reports', 'read'), monthlyReportController.getMonthlyReports);
+router.post('/monthly/generate', requirePermission('monthly-reports', 'create'), monthlyReportController.generateMonthlyReports);
+router.get('/monthly/recipients', requirePermission('monthly-reports', 'manage'), monthlyReportController.getRecipients);
+router.put('/monthly/recipients', requirePermission('monthly-reports', 'manage'), monthlyReportController.updateRecipients);
+router.get('/monthly/:id', requirePermission('monthly-reports', 'read'), monthlyReportController.getMonthlyReport);
+router.get('/monthly/:id/download', requirePermission('monthly-reports', 'read'), monthlyReportController.downloadMonthlyReport);
+router.post('/monthly/:id/send', requirePermission('monthly-reports', 'create'), monthlyReportController.sendMonthlyReport);
+
 // Get pending reports for approval (BKMD Head, Director)
-router.get('/pending', reportController.getPendingReports);
+router.get('/pending', requirePermission('reports', 'approve'), reportController.getPendingReports);
 
 // Get single report
-router.get('/:reportId', reportController.getReport);
+router.get('/:reportId', requireProjectRole('view', ['reports', 'read'], projectIdOfReport), reportController.getReport);
 
 // Approve/Reject report
 router.post('/:reportId/approve', reportController.approveReport);
 
 // Upload attachment to report
-router.post('/:reportId/attachments', upload.single('file'), reportController.uploadAttachment);
+router.post('/:reportId/attachments', requireProjectRole('contribute', undefined, projectIdOfReport), upload.single('file'), reportController.uploadAttachment);
 
-// Project-specific report routes
-router.get('/projects/:projectId', reportController.getProjectReports);
-router.post('/projects/:projectId', reportController.createReport);
+// Project-specific report routes (reports are submitted by the project team)
+router.get('/projects/:projectId', requireProjectRole('view', ['reports', 'read']), reportController.getProjectReports);
+router.post('/projects/:projectId', requireProjectRole('contribute'), reportController.createReport);
+router.get('/projects/:projectId/pdf', requireProjectRole('view', ['reports', 'read']), reportController.exportProjectReport);
 
 export default router;
@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../config/database.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import { authenticate, requirePermission } from '../middleware/index.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import { z } from 'zod';
 import { exec } from 'child_process';
@@ -36,7 +36,7 @@ const smtpSettingsSchema = z.object({
     secure: z.boolean().default(true),
 });
 
-router.get('/smtp', authorize('ADMIN'), async (req: Request, res: Response) => {
+router.get('/smtp', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
     try {
         const settings = await prisma.systemConfig.findMany({
             where: {
@@ -64,7 +64,7 @@ router.get('/smtp', authorize('ADMIN'), async (req: Request, res: Response) => {
     }
 });
 
-router.put('/smtp', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/smtp', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { host, port, user, pass, from, secure } = req.body;
 
@@ -110,7 +110,7 @@ router.put('/smtp', authorize('ADMIN'), async (req: AuthenticatedRequest, res: R
 });
 
 // Test SMTP connection
-router.post('/smtp/test', authorize('ADMIN'), async (req: Request, res: Response) => {
+router.post('/smtp/test', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
     try {
         const { testEmail } = req.body;
 
@@ -142,7 +142,7 @@ router.post('/smtp/test', authorize('ADMIN'), async (req: Request, res: Response
 // PORTAL SETTINGS
 // ============================================
 
-router.get('/portal', authorize('ADMIN'), async (req: Request, res: Response) => {
+router.get('/portal', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
     try {
         const settings = await prisma.systemConfig.findMany({
             where: {
@@ -171,7 +171,7 @@ router.get('/portal', authorize('ADMIN'), async (req: Request, res: Response) =>
     }
 });
 
-router.put('/portal', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/portal', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { name, tagline, primaryColor, logoUrl } = req.body;
 
@@ -211,7 +211,7 @@ router.put('/portal', authorize('ADMIN'), async (req: AuthenticatedRequest, res:
 // NOTIFICATION PREFERENCES
 // ============================================
 
-router.get('/notifications', authorize('ADMIN'), async (req: Request, res: Response) => {
+router.get('/notifications', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
     try {
         const settings = await prisma.systemConfig.findMany({
             where: {
@@ -243,7 +243,7 @@ router.get('/notifications', authorize('ADMIN'), async (req: Request, res: Respo
     }
 });
 
-router.put('/notifications', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/notifications', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const settings = req.body;
 
@@ -280,7 +280,7 @@ router.put('/notifications', authorize('ADMIN'), async (req: AuthenticatedReques
 // BACKUP MANAGEMENT
 // ============================================
 
-router.get('/backups', authorize('ADMIN'), async (req: Request, res: Response) => {
+router.get('/backups', requirePermission('settings', 'manage'), async (req: Request, res: Response) => {
     try {
         await ensureBackupDir();
 
@@ -313,7 +313,7 @@ router.get('/backups', authorize('ADMIN'), async (req: Request, res: Response) =
     }
 });
 
-router.post('/backups/create', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/backups/create', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         await ensureBackupDir();
 
@@ -367,7 +367,7 @@ router.post('/backups/create', authorize('ADMIN'), async (req: AuthenticatedRequ
     }
 });
 
-router.post('/backups/restore', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/backups/restore', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { fileName } = req.body;
 
@@ -409,7 +409,7 @@ router.post('/backups/restore', authorize('ADMIN'), async (req: AuthenticatedReq
     }
 });
 
-router.delete('/backups/:fileName', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/backups/:fileName', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { fileName } = req.params;
         const backupPath = path.join(BACKUP_DIR, fileName);
@@ -437,7 +437,7 @@ router.delete('/backups/:fileName', authorize('ADMIN'), async (req: Authenticate
     }
 });
 
-router.put('/backups/schedule', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/backups/schedule', requirePermission('settings', 'manage'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { schedule } = req.body; // 'daily', 'weekly', 'monthly', 'disabled'
 
@@ -1,15 +1,15 @@
 // Staff Routes
 import { Router } from 'express';
 import { staffController } from '../controllers/staff.controller.js';
-import { authenticate } from '../middleware/auth.middleware.js';
+import { authenticate, requirePermission } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
 
-// Bulk assign staff to project (Admin, BKMD Head, Director)
-router.post('/assign-bulk', staffController.bulkAssign);
+// Bulk assign staff to project
+router.post('/assign-bulk', requirePermission('projects', 'manage'), staffController.bulkAssign);
 
 // Get all staff with project counts
 router.get('/', staffController.getStaffWithProjects);
@@ -21,19 +21,19 @@ router.get('/permissions', staffController.getPagePermissions);
 router.get('/:userId/assignments', staffController.getUserAssignments);
 
 // Assign single user to project
-router.post('/:userId/assign', staffController.assignToProject);
+router.post('/:userId/assign', requirePermission('projects', 'manage'), staffController.assignToProject);
 
 // Remove staff from project
-router.delete('/projects/:projectId/users/:userId', staffController.removeFromProject);
+router.delete('/projects/:projectId/users/:userId', requirePermission('projects', 'manage'), staffController.removeFromProject);
 
 // Push notification to all project heads (BKMD Head only)
 router.post('/push-update-request', staffController.pushRequestUpdate);
 
-// ============ ADMIN ONLY - Role Management ============
-// Get all users for role management (ADMIN only)
-router.get('/roles/users', staffController.getUsersForRoleManagement);
+// ============ Role Management ============
+// Get all users for role management
+router.get('/roles/users', requirePermission('users', 'update'), staffController.getUsersForRoleManagement);
 
-// Update user role (ADMIN only)
-router.put('/:userId/role', staffController.updateUserRole);
+// Update user role
+router.put('/:userId/role', requirePermission('users', 'update'), staffController.updateUserRole);
 
 export default router;
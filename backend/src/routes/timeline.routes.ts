@@ -1,7 +1,12 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../config/database.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import { authenticate, requireProjectRole, projectIdFromBody, ProjectIdResolver } from '../middleware/index.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
+import { createAuditLog } from '../middleware/audit.middleware.js';
+import { scheduleService, ScheduleError } from '../services/schedule.service.js';
+import { projectAccessService } from '../services/project-access.service.js';
+import { realtimeService } from '../services/realtime.service.js';
+import { fundingService } from '../services/funding.service.js';
 import { z } from 'zod';
 import { MilestoneStatus } from '@prisma/client';
 
@@ -9,6 +14,43 @@ const router = Router();
 
 router.use(authenticate);
 
+const projectIdOfMilestone: ProjectIdResolver = async (req) => {
+    const milestone = await prisma.milestone.findUnique({
+        where: { id: req.params.id },
+        select: { projectId: true },
+    });
+    return milestone?.projectId ?? null;
+};
+
+const projectIdOfPredecessor: ProjectIdResolver = async (req) => {
+    if (typeof req.body?.predecessorId !== 'string') return undefined;
+    const milestone = await prisma.milestone.findUnique({
+        where: { id: req.body.predecessorId },
+        select: { projectId: true },
+    });
+    return milestone?.projectId ?? null;
+};
+
+const projectIdOfDependency: ProjectIdResolver = async (req) => {
+    const dependency = await prisma.milestoneDependency.findUnique({
+        where: { id: req.params.id },
+        select: { predecessor: { select: { projectId: true } } },
+    });
+    return dependency?.predecessor.projectId ?? null;
+};
+
+const handleScheduleError = (error: unknown, res: Response): boolean => {
+    if (error instanceof ScheduleError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return true;
+    }
+    if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation failed', details: error.errors });
+        return true;
+    }
+    return false;
+};
+
 // ============================================
 // MILESTONES
 // ============================================
@@ -91,7 +133,7 @@ router.get('/milestones', async (req: AuthenticatedRequest, res: Response) => {
 });
 
 // Get milestones for a specific project
-router.get('/projects/:projectId/milestones', async (req: Request, res: Response) => {
+router.get('/projects/:projectId/milestones', requireProjectRole('view', ['projects', 'read']), async (req: Request, res: Response) => {
     try {
         const { projectId } = req.params;
 
@@ -119,7 +161,7 @@ const milestoneSchema = z.object({
     order: z.number().int().optional(),
 });
 
-router.post('/milestones', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/milestones', requireProjectRole('manage', ['projects', 'update'], projectIdFromBody), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const data = milestoneSchema.parse(req.body);
 
@@ -133,17 +175,6 @@ router.post('/milestones', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT
             return;
         }
 
-        // Check user has access to this project
-        const user = await prisma.user.findUnique({
-            where: { id: req.user?.userId },
-            select: { role: true },
-        });
-
-        if (user?.role === 'PROJECT_HEAD' && project.projectHeadId !== req.user?.userId) {
-            res.status(403).json({ error: 'Not authorized to add milestones to this project' });
-            return;
-        }
-
         // Get next order number if not provided
         if (!data.order) {
             const lastMilestone = await prisma.milestone.findFirst({
@@ -186,14 +217,13 @@ router.post('/milestones', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT
 });
 
 // Update milestone
-router.put('/milestones/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/milestones/:id', requireProjectRole('manage', ['projects', 'update'], projectIdOfMilestone), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { id } = req.params;
         const { title, description, startDate, endDate, status, progress, order } = req.body;
 
         const existing = await prisma.milestone.findUnique({
             where: { id },
-            include: { project: true },
         });
 
         if (!existing) {
@@ -201,17 +231,6 @@ router.put('/milestones/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJ
             return;
         }
 
-        // Check authorization
-        const user = await prisma.user.findUnique({
-            where: { id: req.user?.userId },
-            select: { role: true },
-        });
-
-        if (user?.role === 'PROJECT_HEAD' && existing.project.projectHeadId !== req.user?.userId) {
-            res.status(403).json({ error: 'Not authorized to update this milestone' });
-            return;
-        }
-
         const updateData: any = {};
         if (title !== undefined) updateData.title = title;
         if (description !== undefined) updateData.description = description;
@@ -221,14 +240,26 @@ router.put('/milestones/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJ
         if (progress !== undefined) updateData.progress = progress;
         if (order !== undefined) updateData.order = order;
 
-        const milestone = await prisma.milestone.update({
+        let milestone = await prisma.milestone.update({
             where: { id },
             data: updateData,
         });
 
+        // A slip moves the successors; a milestone dragged ahead of its predecessors snaps back
+        const rescheduled = startDate !== undefined || endDate !== undefined
+            ? await scheduleService.reschedule(existing.projectId)
+            : [];
+        const snapped = rescheduled.find(m => m.id === id);
+        if (snapped) milestone = { ...milestone, startDate: snapped.startDate, endDate: snapped.endDate };
+
         // Update project progress
         await updateProjectProgress(existing.projectId);
 
+        // Sponsor instalments tied to the milestone become claimable
+        if (milestone.status === 'COMPLETED' && existing.status !== 'COMPLETED') {
+            await fundingService.milestoneCompleted(id);
+        }
+
         await prisma.auditLog.create({
             data: {
                 userId: req.user?.userId,
@@ -240,21 +271,25 @@ router.put('/milestones/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJ
             },
         });
 
-        res.json(milestone);
+        void realtimeService.projectUpdated({
+            projectId: existing.projectId, entity: 'milestone', action: 'updated', entityId: id, actorId: req.user?.userId,
+        });
+
+        res.json({ ...milestone, rescheduled });
     } catch (error) {
         console.error('Update milestone error:', error);
+        if (handleScheduleError(error, res)) return;
         res.status(500).json({ error: 'Failed to update milestone' });
     }
 });
 
 // Delete milestone
-router.delete('/milestones/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'), async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/milestones/:id', requireProjectRole('manage', ['projects', 'update'], projectIdOfMilestone), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { id } = req.params;
 
         const existing = await prisma.milestone.findUnique({
             where: { id },
-            include: { project: true },
         });
 
         if (!existing) {
@@ -262,17 +297,6 @@ router.delete('/milestones/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'P
             return;
         }
 
-        // Check authorization
-        const user = await prisma.user.findUnique({
-            where: { id: req.user?.userId },
-            select: { role: true },
-        });
-
-        if (user?.role === 'PROJECT_HEAD' && existing.project.projectHeadId !== req.user?.userId) {
-            res.status(403).json({ error: 'Not authorized to delete this milestone' });
-            return;
-        }
-
         await prisma.milestone.delete({ where: { id } });
 
         // Update project progress
@@ -294,6 +318,99 @@ router.delete('/milestones/:id', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR', 'P
     }
 });
 
+// ============================================
+// DEPENDENCIES & CRITICAL PATH
+// ============================================
+
+// Schedule with early/late dates, total float and the critical path, for the Gantt chart
+router.get('/projects/:projectId/schedule', requireProjectRole('view', ['projects', 'read']), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { projectId } = req.params;
+        const [schedule, canEdit] = await Promise.all([
+            scheduleService.getSchedule(projectId),
+            projectAccessService.can(req.user!, projectId, 'manage', ['projects', 'update']),
+        ]);
+
+        res.json({ ...schedule, canEdit: !!canEdit });
+    } catch (error) {
+        console.error('Get schedule error:', error);
+        if (handleScheduleError(error, res)) return;
+        res.status(500).json({ error: 'Failed to compute schedule' });
+    }
+});
+
+const dependencySchema = z.object({
+    predecessorId: z.string().uuid(),
+    successorId: z.string().uuid(),
+    type: z.enum(['FINISH_TO_START', 'START_TO_START', 'FINISH_TO_FINISH']).default('FINISH_TO_START'),
+    lagDays: z.number().int().min(-365).max(365).default(0),
+});
+
+const updateDependencySchema = dependencySchema.pick({ type: true, lagDays: true }).partial();
+
+router.post('/dependencies', requireProjectRole('manage', ['projects', 'update'], projectIdOfPredecessor), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const data = dependencySchema.parse(req.body);
+        const { dependency, projectId, rescheduled } = await scheduleService.addDependency(data);
+
+        await createAuditLog(req.user?.userId, 'CREATE', 'MilestoneDependency', dependency.id, undefined, { ...data, rescheduled }, req);
+
+        if (rescheduled.length > 0) {
+            await updateProjectProgress(projectId);
+            void realtimeService.projectUpdated({
+                projectId, entity: 'milestone', action: 'updated', entityId: data.successorId, actorId: req.user?.userId,
+            });
+        }
+
+        res.status(201).json({ dependency, rescheduled });
+    } catch (error) {
+        console.error('Create dependency error:', error);
+        if (handleScheduleError(error, res)) return;
+        res.status(500).json({ error: 'Failed to create dependency' });
+    }
+});
+
+router.put('/dependencies/:id', requireProjectRole('manage', ['projects', 'update'], projectIdOfDependency), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const data = updateDependencySchema.parse(req.body);
+        const { dependency, projectId, rescheduled } = await scheduleService.updateDependency(req.params.id, data);
+
+        await createAuditLog(req.user?.userId, 'UPDATE', 'MilestoneDependency', dependency.id, undefined, { ...data, rescheduled }, req);
+
+        if (rescheduled.length > 0) {
+            await updateProjectProgress(projectId);
+            void realtimeService.projectUpdated({
+                projectId, entity: 'milestone', action: 'updated', entityId: dependency.successorId, actorId: req.user?.userId,
+            });
+        }
+
+        res.json({ dependency, rescheduled });
+    } catch (error) {
+        console.error('Update dependency error:', error);
+        if (handleScheduleError(error, res)) return;
+        res.status(500).json({ error: 'Failed to update dependency' });
+    }
+});
+
+router.delete('/dependencies/:id', requireProjectRole('manage', ['projects', 'update'], projectIdOfDependency), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { dependency } = await scheduleService.removeDependency(req.params.id);
+
+        await createAuditLog(req.user?.userId, 'DELETE', 'MilestoneDependency', dependency.id, {
+            predecessorId: dependency.predecessorId,
+            successorId: dependency.successorId,
+            type: dependency.type,
+            lagDays: dependency.lagDays,
+        }, undefined, req);
+
+        res.json({ message: 'Dependency removed successfully' });
+    } catch (error) {
+        console.error('Delete dependency error:', error);
+        if (handleScheduleError(error, res)) return;
+        res.status(500).json({ error: 'Failed to remove dependency' });
+    }
+});
+
 // ============================================
 // TIMELINE OVERVIEW
 // ============================================
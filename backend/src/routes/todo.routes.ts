@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import * as todoController from '../controllers/todo.controller.js';
+import { authenticate } from '../middleware/index.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+// Personal and project to-dos (owner or assignee)
+router.get('/', todoController.getTodos);
+router.post('/', todoController.createTodo);
+router.post('/import', todoController.importTodos);
+router.put('/:id', todoController.updateTodo);
+router.put('/:id/toggle', todoController.toggleTodo);
+router.delete('/:id', todoController.deleteTodo);
+router.get('/:id/history', todoController.getTodoHistory);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../config/database.js';
-import { authenticate, authorize } from '../middleware/index.js';
+import { authenticate, requirePermission } from '../middleware/index.js';
 import { AuthenticatedRequest } from '../middleware/auth.middleware.js';
 import argon2 from 'argon2';
 import { z } from 'zod';
@@ -10,7 +10,7 @@ const router = Router();
 router.use(authenticate);
 
 // Get all users (admin only)
-router.get('/', authorize('ADMIN', 'DIRECTOR', 'SUPERVISOR'), async (req: Request, res: Response) => {
+router.get('/', requirePermission('users', 'read'), async (req: Request, res: Response) => {
     try {
         const { role, search, active } = req.query;
 
@@ -110,7 +110,7 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
 });
 
 // Update user
-router.put('/:id', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:id', requirePermission('users', 'update'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { id } = req.params;
         const { firstName, lastName, designation, phone, role, isActive } = req.body;
@@ -144,7 +144,7 @@ router.put('/:id', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Re
 });
 
 // Reset user password (admin only)
-router.post('/:id/reset-password', authorize('ADMIN'), async (req: AuthenticatedRequest, res: Response) => {
+router.post('/:id/reset-password', requirePermission('users', 'update'), async (req: AuthenticatedRequest, res: Response) => {
     try {
         const { id } = req.params;
         const { newPassword } = req.body;
@@ -4,7 +4,7 @@
  */
 
 import * as XLSX from 'xlsx';
-import { PrismaClient, ProjectCategory, Currency } from '@prisma/client';
+import { PrismaClient, ProjectCategory } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -0,0 +1,589 @@
+import { ApprovalStep, ApprovalType, ApprovalWorkflow, Prisma, UserRole } from '@prisma/client';
+import prisma from '../config/database.js';
+import { notificationService } from './notification.service.js';
+
+export type ApprovalAction = 'APPROVED' | 'REJECTED' | 'REVISION_REQUESTED';
+
+export interface ApprovalRuleInput {
+    stepOrder: number;
+    name: string;
+    approverRole: UserRole;
+    minAmount?: number | null;
+    maxAmount?: number | null;
+    slaHours: number;
+    escalateToRole?: UserRole | null;
+}
+
+export type WorkflowWithSteps = ApprovalWorkflow & { steps: ApprovalStep[] };
+
+export interface ApprovalContext {
+    workflow: WorkflowWithSteps;
+    step: ApprovalStep;
+    actorId: string;
+    comments?: string;
+    data: Record<string, unknown>;
+}
+
+// Entity-side effects of a workflow, registered by the module that owns the entity
+export interface ApprovalHandler {
+    onStepApproved?: (ctx: ApprovalContext) => Promise<void>;
+    onApproved: (ctx: ApprovalContext) => Promise<void>;
+    onRejected: (ctx: ApprovalContext) => Promise<void>;
+    onRevisionRequested?: (ctx: ApprovalContext) => Promise<void>;
+}
+
+export class ApprovalError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'ApprovalError';
+    }
+}
+
+interface Approver {
+    userId: string;
+    role: UserRole;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Used for a type until an administrator configures rules for it; mirrors the
+// approval chains that existed before the engine
+const DEFAULT_RULES: Record<ApprovalType, ApprovalRuleInput[]> = {
+    BUDGET_ALLOCATION: [
+        { stepOrder: 1, name: 'BKMD Review', approverRole: 'SUPERVISOR', slaHours: 72, escalateToRole: 'DIRECTOR' },
+    ],
+    PROJECT_APPROVAL: [
+        { stepOrder: 1, name: 'BKMD Review', approverRole: 'SUPERVISOR', slaHours: 120, escalateToRole: 'DIRECTOR' },
+        { stepOrder: 2, name: 'Director Review', approverRole: 'DIRECTOR', slaHours: 120 },
+        { stepOrder: 3, name: 'RC Approval', approverRole: 'DIRECTOR', slaHours: 720 },
+    ],
+    REPORT_APPROVAL: [
+        { stepOrder: 1, name: 'BKMD Review', approverRole: 'SUPERVISOR', slaHours: 120, escalateToRole: 'DIRECTOR' },
+    ],
+    EXPENSE_APPROVAL: [
+        { stepOrder: 1, name: 'BKMD Review', approverRole: 'SUPERVISOR', slaHours: 72, escalateToRole: 'DIRECTOR' },
+    ],
+    MOU_APPROVAL: [
+        { stepOrder: 1, name: 'Director Review', approverRole: 'DIRECTOR', slaHours: 120 },
+    ],
+    PURCHASE_INDENT: [
+        { stepOrder: 1, name: 'BKMD Review', approverRole: 'SUPERVISOR', slaHours: 72, escalateToRole: 'DIRECTOR' },
+    ],
+    UTILIZATION_CERTIFICATE: [
+        { stepOrder: 1, name: 'Finance Officer Sign-off', approverRole: 'SUPERVISOR', slaHours: 120, escalateToRole: 'DIRECTOR' },
+        { stepOrder: 2, name: 'Director Sign-off', approverRole: 'DIRECTOR', slaHours: 120 },
+    ],
+};
+
+const matchesAmount = (rule: ApprovalRuleInput, amount: number | null | undefined): boolean => {
+    if (amount === null || amount === undefined) return rule.minAmount == null;
+    if (rule.minAmount != null && amount < rule.minAmount) return false;
+    if (rule.maxAmount != null && amount >= rule.maxAmount) return false;
+    return true;
+};
+
+export class ApprovalService {
+    private readonly handlers = new Map<ApprovalType, ApprovalHandler>();
+
+    registerHandler(type: ApprovalType, handler: ApprovalHandler): void {
+        this.handlers.set(type, handler);
+    }
+
+    // ============================================
+    // RULES
+    // ============================================
+
+    async getRules(type: ApprovalType): Promise<{ type: ApprovalType; isDefault: boolean; rules: ApprovalRuleInput[] }> {
+        const rules = await prisma.approvalRule.findMany({
+            where: { type, isActive: true },
+            orderBy: { stepOrder: 'asc' },
+        });
+
+        if (rules.length === 0) {
+            return { type, isDefault: true, rules: DEFAULT_RULES[type] };
+        }
+        return { type, isDefault: false, rules };
+    }
+
+    // Replaces the rules of a type; an empty list restores the defaults
+    async setRules(type: ApprovalType, rules: ApprovalRuleInput[]) {
+        await prisma.$transaction([
+            prisma.approvalRule.deleteMany({ where: { type } }),
+            prisma.approvalRule.createMany({
+                data: rules.map(rule => ({ ...rule, type })),
+            }),
+        ]);
+        return this.getRules(type);
+    }
+
+    private async resolveSteps(type: ApprovalType, amount: number | null | undefined): Promise<ApprovalRuleInput[]> {
+        const { rules } = await this.getRules(type);
+        return rules
+            .filter(rule => matchesAmount(rule, amount))
+            .sort((a, b) => a.stepOrder - b.stepOrder);
+    }
+
+    // ============================================
+    // WORKFLOWS
+    // ============================================
+
+    async start(input: {
+        type: ApprovalType;
+        entityType: string;
+        entityId: string;
+        requesterId: string;
+        title?: string;
+        link?: string;
+        amount?: number | null;
+        priority?: number;
+    }): Promise<WorkflowWithSteps> {
+        const active = await this.getActiveWorkflow(input.entityType, input.entityId);
+        if (active) return active;
+
+        const steps = await this.resolveSteps(input.type, input.amount);
+        if (steps.length === 0) {
+            throw new ApprovalError(`No approval rule applies to this ${input.type.toLowerCase().replace(/_/g, ' ')} request`, 422);
+        }
+
+        const now = new Date();
+        const workflow = await prisma.approvalWorkflow.create({
+            data: {
+                type: input.type,
+                entityType: input.entityType,
+                entityId: input.entityId,
+                requesterId: input.requesterId,
+                title: input.title,
+                link: input.link,
+                amount: input.amount ?? null,
+                priority: input.priority ?? 0,
+                totalSteps: steps.length,
+                steps: {
+                    create: steps.map((rule, index) => ({
+                        stepOrder: index + 1,
+                        name: rule.name,
+                        approverRole: rule.approverRole,
+                        escalateToRole: rule.escalateToRole ?? null,
+                        slaHours: rule.slaHours,
+                        dueAt: index === 0 ? new Date(now.getTime() + rule.slaHours * HOUR_MS) : null,
+                    })),
+                },
+            },
+            include: { steps: { orderBy: { stepOrder: 'asc' } } },
+        });
+
+        await this.notifyApprovers(workflow, workflow.steps[0]);
+        return workflow;
+    }
+
+    async getActiveWorkflow(entityType: string, entityId: string): Promise<WorkflowWithSteps | null> {
+        return prisma.approvalWorkflow.findFirst({
+            where: { entityType, entityId, status: 'PENDING' },
+            include: { steps: { orderBy: { stepOrder: 'asc' } } },
+        });
+    }
+
+    async getWorkflow(id: string) {
+        return prisma.approvalWorkflow.findUnique({
+            where: { id },
+            include: {
+                requester: { select: { id: true, firstName: true, lastName: true, email: true } },
+                steps: {
+                    orderBy: { stepOrder: 'asc' },
+                    include: { actedBy: { select: { id: true, firstName: true, lastName: true } } },
+                },
+            },
+        });
+    }
+
+    async getEntityWorkflows(entityType: string, entityId: string) {
+        return prisma.approvalWorkflow.findMany({
+            where: { entityType, entityId },
+            include: {
+                steps: {
+                    orderBy: { stepOrder: 'asc' },
+                    include: { actedBy: { select: { id: true, firstName: true, lastName: true } } },
+                },
+            },
+            orderBy: { requestedAt: 'desc' },
+        });
+    }
+
+    async getRequested(userId: string, status?: string) {
+        return prisma.approvalWorkflow.findMany({
+            where: {
+                requesterId: userId,
+                ...(status ? { status: status as ApprovalWorkflow['status'] } : {}),
+            },
+            include: { steps: { orderBy: { stepOrder: 'asc' } } },
+            orderBy: { requestedAt: 'desc' },
+            take: 100,
+        });
+    }
+
+    // Pending workflows whose current step the user may act on, directly or as a delegate
+    async getInbox(approver: Approver) {
+        const delegations = await this.activeDelegationsTo(approver.userId);
+        const roles = new Set<UserRole>([approver.role, ...delegations.map(d => d.fromUser.role)]);
+
+        const where: Prisma.ApprovalWorkflowWhereInput = { status: 'PENDING' };
+        if (approver.role !== 'ADMIN') {
+            where.steps = {
+                some: {
+                    status: 'PENDING',
+                    OR: [
+                        { approverRole: { in: Array.from(roles) } },
+                        { escalateToRole: { in: Array.from(roles) }, escalatedAt: { not: null } },
+                    ],
+                },
+            };
+        }
+
+        const workflows = await prisma.approvalWorkflow.findMany({
+            where,
+            include: {
+                requester: { select: { id: true, firstName: true, lastName: true, email: true } },
+                steps: { orderBy: { stepOrder: 'asc' } },
+            },
+            orderBy: [{ priority: 'desc' }, { requestedAt: 'asc' }],
+        });
+
+        const now = Date.now();
+        return workflows.flatMap(workflow => {
+            const step = workflow.steps.find(s => s.stepOrder === workflow.currentStep);
+            if (!step) return [];
+            const access = this.resolveAccess(workflow, step, approver, delegations);
+            if (!access.allowed) return [];
+            return [{
+                ...workflow,
+                currentStepDetails: step,
+                onBehalfOfId: access.onBehalfOfId,
+                isOverdue: !!step.dueAt && step.dueAt.getTime() < now,
+            }];
+        });
+    }
+
+    private async activeDelegationsTo(userId: string) {
+        const now = new Date();
+        return prisma.approvalDelegation.findMany({
+            where: {
+                toUserId: userId,
+                isActive: true,
+                startDate: { lte: now },
+                endDate: { gte: now },
+            },
+            include: { fromUser: { select: { id: true, role: true, isActive: true } } },
+        });
+    }
+
+    private resolveAccess(
+        workflow: ApprovalWorkflow,
+        step: ApprovalStep,
+        approver: Approver,
+        delegations: Awaited<ReturnType<ApprovalService['activeDelegationsTo']>>
+    ): { allowed: boolean; onBehalfOfId: string | null } {
+        if (approver.role === 'ADMIN') return { allowed: true, onBehalfOfId: null };
+        // Requesters never approve their own requests
+        if (workflow.requesterId === approver.userId) return { allowed: false, onBehalfOfId: null };
+
+        const roles: UserRole[] = [step.approverRole];
+        if (step.escalatedAt && step.escalateToRole) roles.push(step.escalateToRole);
+
+        if (roles.includes(approver.role)) return { allowed: true, onBehalfOfId: null };
+
+        const delegation = delegations.find(d =>
+            (d.type === null || d.type === workflow.type) &&
+            roles.includes(d.fromUser.role) &&
+            d.fromUserId !== workflow.requesterId
+        );
+        return delegation
+            ? { allowed: true, onBehalfOfId: delegation.fromUserId }
+            : { allowed: false, onBehalfOfId: null };
+    }
+
+    async canAct(workflow: WorkflowWithSteps, approver: Approver): Promise<boolean> {
+        const step = workflow.steps.find(s => s.stepOrder === workflow.currentStep);
+        if (!step || workflow.status !== 'PENDING') return false;
+        const delegations = await this.activeDelegationsTo(approver.userId);
+        return this.resolveAccess(workflow, step, approver, delegations).allowed;
+    }
+
+    async act(
+        workflowId: string,
+        approver: Approver,
+        action: ApprovalAction,
+        comments?: string,
+        data: Record<string, unknown> = {}
+    ): Promise<WorkflowWithSteps> {
+        const workflow = await prisma.approvalWorkflow.findUnique({
+            where: { id: workflowId },
+            include: { steps: { orderBy: { stepOrder: 'asc' } } },
+        });
+
+        if (!workflow) throw new ApprovalError('Approval not found', 404);
+        if (workflow.status !== 'PENDING') throw new ApprovalError('Approval is no longer pending', 400);
+
+        const step = workflow.steps.find(s => s.stepOrder === workflow.currentStep);
+        if (!step) throw new ApprovalError('Approval has no current step', 400);
+
+        const delegations = await this.activeDelegationsTo(approver.userId);
+        const access = this.resolveAccess(workflow, step, approver, delegations);
+        if (!access.allowed) throw new ApprovalError('You are not an approver for this step', 403);
+
+        const now = new Date();
+        // Conditional update so two approvers acting at once cannot both win
+        const claimed = await prisma.approvalStep.updateMany({
+            where: { id: step.id, status: 'PENDING' },
+            data: {
+                status: action,
+                actedById: approver.userId,
+                onBehalfOfId: access.onBehalfOfId,
+                comments,
+                actedAt: now,
+            },
+        });
+        if (claimed.count === 0) throw new ApprovalError('This step has already been actioned', 409);
+
+        const isLastStep = step.stepOrder >= workflow.totalSteps;
+        const nextStep = workflow.steps.find(s => s.stepOrder === step.stepOrder + 1);
+
+        if (action === 'APPROVED' && !isLastStep && nextStep) {
+            await prisma.$transaction([
+                prisma.approvalStep.update({
+                    where: { id: nextStep.id },
+                    data: { dueAt: new Date(now.getTime() + nextStep.slaHours * HOUR_MS) },
+                }),
+                prisma.approvalWorkflow.update({
+                    where: { id: workflow.id },
+                    data: { currentStep: nextStep.stepOrder },
+                }),
+            ]);
+        } else {
+            await prisma.approvalWorkflow.update({
+                where: { id: workflow.id },
+                data: { status: action, respondedAt: now, comments, approverId: approver.userId },
+            });
+        }
+
+        const updated = await prisma.approvalWorkflow.findUniqueOrThrow({
+            where: { id: workflow.id },
+            include: { steps: { orderBy: { stepOrder: 'asc' } } },
+        });
+        const ctx: ApprovalContext = {
+            workflow: updated,
+            step: updated.steps.find(s => s.id === step.id)!,
+            actorId: approver.userId,
+            comments,
+            data,
+        };
+
+        const handler = this.handlers.get(workflow.type);
+        try {
+            if (action === 'APPROVED' && updated.status === 'PENDING') {
+                await handler?.onStepApproved?.(ctx);
+            } else if (action === 'APPROVED') {
+                await handler?.onApproved(ctx);
+            } else if (action === 'REVISION_REQUESTED' && handler?.onRevisionRequested) {
+                await handler.onRevisionRequested(ctx);
+            } else {
+                await handler?.onRejected(ctx);
+            }
+        } catch (error) {
+            // The entity did not change, so the step goes back to the approver
+            await this.reopenStep(workflow, step, nextStep);
+            // Refusals of the owning module (closed year, insufficient funds) reach the approver as they are
+            const statusCode = (error as { statusCode?: unknown }).statusCode;
+            if (error instanceof Error && typeof statusCode === 'number') throw new ApprovalError(error.message, statusCode);
+            throw error;
+        }
+
+        if (action === 'APPROVED' && updated.status === 'PENDING') {
+            const current = updated.steps.find(s => s.stepOrder === updated.currentStep);
+            if (current) await this.notifyApprovers(updated, current);
+        }
+
+        return updated;
+    }
+
+    // Undoes an action whose entity-side effect failed
+    private async reopenStep(workflow: WorkflowWithSteps, step: ApprovalStep, nextStep: ApprovalStep | undefined) {
+        await prisma.$transaction([
+            prisma.approvalStep.update({
+                where: { id: step.id },
+                data: { status: 'PENDING', actedById: null, onBehalfOfId: null, comments: null, actedAt: null },
+            }),
+            ...(nextStep ? [prisma.approvalStep.update({ where: { id: nextStep.id }, data: { dueAt: null } })] : []),
+            prisma.approvalWorkflow.update({
+                where: { id: workflow.id },
+                data: {
+                    status: 'PENDING',
+                    currentStep: step.stepOrder,
+                    respondedAt: workflow.respondedAt,
+                    comments: workflow.comments,
+                    approverId: workflow.approverId,
+                },
+            }),
+        ]);
+    }
+
+    // Withdraws a pending workflow, e.g. when the underlying entity is deleted
+    async cancel(entityType: string, entityId: string, comments?: string): Promise<void> {
+        await prisma.approvalWorkflow.updateMany({
+            where: { entityType, entityId, status: 'PENDING' },
+            data: { status: 'REJECTED', respondedAt: new Date(), comments: comments ?? 'Withdrawn' },
+        });
+    }
+
+    // ============================================
+    // DELEGATION
+    // ============================================
+
+    async getDelegations(userId: string) {
+        const include = {
+            fromUser: { select: { id: true, firstName: true, lastName: true, role: true } },
+            toUser: { select: { id: true, firstName: true, lastName: true, role: true } },
+        } satisfies Prisma.ApprovalDelegationInclude;
+
+        const [given, received] = await Promise.all([
+            prisma.approvalDelegation.findMany({ where: { fromUserId: userId }, include, orderBy: { startDate: 'desc' } }),
+            prisma.approvalDelegation.findMany({ where: { toUserId: userId }, include, orderBy: { startDate: 'desc' } }),
+        ]);
+        return { given, received };
+    }
+
+    async createDelegation(fromUserId: string, input: {
+        toUserId: string;
+        type?: ApprovalType | null;
+        startDate: Date;
+        endDate: Date;
+        reason?: string;
+    }) {
+        if (input.toUserId === fromUserId) throw new ApprovalError('Cannot delegate to yourself', 400);
+        if (input.endDate <= input.startDate) throw new ApprovalError('End date must be after start date', 400);
+
+        const delegate = await prisma.user.findUnique({
+            where: { id: input.toUserId },
+            select: { id: true, isActive: true },
+        });
+        if (!delegate || !delegate.isActive) throw new ApprovalError('Delegate not found', 404);
+
+        const delegation = await prisma.approvalDelegation.create({
+            data: {
+                fromUserId,
+                toUserId: input.toUserId,
+                type: input.type ?? null,
+                startDate: input.startDate,
+                endDate: input.endDate,
+                reason: input.reason,
+            },
+            include: { fromUser: { select: { firstName: true, lastName: true } } },
+        });
+
+        await notificationService.createNotification({
+            userId: input.toUserId,
+            type: 'ASSIGNMENT',
+            title: 'Approval Authority Delegated',
+            message: `${delegation.fromUser.firstName} ${delegation.fromUser.lastName} has delegated ${input.type ? input.type.toLowerCase().replace(/_/g, ' ') : 'all'} approvals to you from ${input.startDate.toLocaleDateString('en-IN')} to ${input.endDate.toLocaleDateString('en-IN')}`,
+            link: '/dashboard',
+        });
+
+        return delegation;
+    }
+
+    async revokeDelegation(id: string, approver: Approver) {
+        const delegation = await prisma.approvalDelegation.findUnique({ where: { id } });
+        if (!delegation) throw new ApprovalError('Delegation not found', 404);
+        if (delegation.fromUserId !== approver.userId && approver.role !== 'ADMIN') {
+            throw new ApprovalError('Only the delegating user can revoke a delegation', 403);
+        }
+
+        return prisma.approvalDelegation.update({
+            where: { id },
+            data: { isActive: false },
+        });
+    }
+
+    // ============================================
+    // NOTIFICATIONS & SLA
+    // ============================================
+
+    // Users holding the step's role, plus anyone they have delegated to
+    private async approversFor(type: ApprovalType, roles: UserRole[]): Promise<string[]> {
+        const now = new Date();
+        const users = await prisma.user.findMany({
+            where: { role: { in: roles }, isActive: true },
+            select: { id: true },
+        });
+        const delegations = await prisma.approvalDelegation.findMany({
+            where: {
+                fromUserId: { in: users.map(u => u.id) },
+                isActive: true,
+                startDate: { lte: now },
+                endDate: { gte: now },
+                OR: [{ type: null }, { type }],
+            },
+            select: { toUserId: true },
+        });
+        return Array.from(new Set([...users.map(u => u.id), ...delegations.map(d => d.toUserId)]));
+    }
+
+    private async notifyApprovers(workflow: ApprovalWorkflow, step: ApprovalStep): Promise<void> {
+        const recipients = await this.approversFor(workflow.type, [step.approverRole]);
+        for (const userId of recipients) {
+            if (userId === workflow.requesterId) continue;
+            await notificationService.createNotification({
+                userId,
+                type: 'APPROVAL_REQUIRED',
+                title: `${step.name} - Approval Required`,
+                message: `${workflow.title ?? workflow.entityType} is awaiting your approval (step ${step.stepOrder} of ${workflow.totalSteps})`,
+                link: workflow.link ?? '/dashboard',
+            });
+        }
+    }
+
+    // Escalates current steps that are past their SLA; each step escalates once
+    async escalateOverdue(): Promise<Record<string, number>> {
+        const now = new Date();
+        const overdue = await prisma.approvalStep.findMany({
+            where: {
+                status: 'PENDING',
+                escalatedAt: null,
+                dueAt: { lt: now },
+                workflow: { status: 'PENDING' },
+            },
+            include: { workflow: true },
+        });
+
+        let escalated = 0;
+        let notified = 0;
+        for (const step of overdue) {
+            if (step.stepOrder !== step.workflow.currentStep) continue;
+
+            await prisma.approvalStep.update({
+                where: { id: step.id },
+                data: { escalatedAt: now },
+            });
+            escalated++;
+
+            const roles = step.escalateToRole ? [step.approverRole, step.escalateToRole] : [step.approverRole];
+            const recipients = await this.approversFor(step.workflow.type, roles);
+            const hoursOverdue = Math.floor((now.getTime() - step.dueAt!.getTime()) / HOUR_MS);
+
+            for (const userId of recipients) {
+                if (userId === step.workflow.requesterId) continue;
+                await notificationService.createNotification({
+                    userId,
+                    type: 'APPROVAL_REQUIRED',
+                    title: `Approval Overdue: ${step.name}`,
+                    message: `${step.workflow.title ?? step.workflow.entityType} has been awaiting ${step.name} for ${hoursOverdue}h beyond its ${step.slaHours}h SLA`,
+                    link: step.workflow.link ?? '/dashboard',
+                    sendEmail: true,
+                });
+                notified++;
+            }
+        }
+
+        return { escalated, notified };
+    }
+}
+
+export const approvalService = new ApprovalService();
@@ -0,0 +1,399 @@
+import { ArchiveRecord, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { fiscalYearRange } from '../utils/helpers.js';
+
+export class ArchiveError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'ArchiveError';
+    }
+}
+
+type Db = Prisma.TransactionClient;
+
+export type ArchiveType = 'projects' | 'reports' | 'documents' | 'budgets' | 'minutes';
+
+export interface ArchiveSummary {
+    reports: number;
+    documents: number;
+    budgets: number;
+    minutes: number;
+}
+
+export interface ArchiveSearchFilters {
+    type: ArchiveType;
+    // Calendar year ("2024") or fiscal year ("2024-25")
+    year?: string;
+    search?: string;
+    // True when projectWhere narrows the project set (role or category / vertical filter);
+    // otherwise documents without a project and minutes of any meeting are included
+    projectScoped?: boolean;
+    page?: number;
+    limit?: number;
+}
+
+interface ScopeWhere {
+    reports: Prisma.ProjectReportWhereInput;
+    documents: Prisma.DocumentWhereInput;
+    budgets: Prisma.BudgetWhereInput;
+    minutes: Prisma.RCMinutesWhereInput;
+}
+
+const userSelect = { id: true, firstName: true, lastName: true } as const;
+
+const projectSelect = { id: true, code: true, title: true, category: true, vertical: { select: { name: true, code: true } } } as const;
+
+// "2024" -> calendar year, "2024-25" -> April-March fiscal year
+const yearRange = (year?: string): { gte: Date; lte: Date } | undefined => {
+    if (!year) return undefined;
+    const fiscal = fiscalYearRange(year);
+    if (fiscal) return { gte: new Date(fiscal.start), lte: new Date(fiscal.end) };
+    if (!/^\d{4}$/.test(year)) return undefined;
+    const y = parseInt(year, 10);
+    return { gte: new Date(y, 0, 1), lte: new Date(new Date(y + 1, 0, 1).getTime() - 1) };
+};
+
+/**
+ * Freezes the records of closed projects and fiscal years. Each archival is an
+ * ArchiveRecord; every row it froze carries its id, so a restore unfreezes exactly
+ * those rows. A row is claimed by the first archive that covers it.
+ */
+export class ArchiveService {
+    // Rows covered by an archive, whether or not they are currently frozen
+    private scope(record: ArchiveRecord): ScopeWhere {
+        if (record.scope === 'PROJECT') {
+            const projectId = record.projectId!;
+            return {
+                reports: { projectId },
+                documents: { projectId },
+                budgets: { projectId },
+                // Minutes of held meetings that discussed the project
+                minutes: { meeting: { status: 'COMPLETED', agendaItems: { some: { projectId } } } },
+            };
+        }
+
+        const range = fiscalYearRange(record.fiscalYear!)!;
+        const createdAt = { gte: new Date(range.start), lte: new Date(range.end) };
+        return {
+            reports: { createdAt },
+            documents: { createdAt },
+            budgets: { fiscalYear: record.fiscalYear! },
+            minutes: { meeting: { date: createdAt } },
+        };
+    }
+
+    // Atomic on its own, or part of the caller's transaction when one is passed
+    private async freeze(record: ArchiveRecord, tx?: Db): Promise<ArchiveSummary> {
+        const where = this.scope(record);
+        const data = { archiveId: record.id, archivedAt: record.archivedAt };
+        const unclaimed = { archiveId: null };
+
+        const updates = (db: Db) => [
+            db.projectReport.updateMany({ where: { AND: [where.reports, unclaimed] }, data }),
+            db.document.updateMany({ where: { AND: [where.documents, unclaimed] }, data }),
+            db.budget.updateMany({ where: { AND: [where.budgets, unclaimed] }, data }),
+            db.rCMinutes.updateMany({ where: { AND: [where.minutes, unclaimed] }, data }),
+            ...(record.scope === 'PROJECT'
+                ? [db.project.updateMany({ where: { id: record.projectId!, archiveId: null }, data })]
+                : []),
+        ];
+        const [reports, documents, budgets, minutes] = tx
+            ? await Promise.all(updates(tx))
+            : await prisma.$transaction(updates(prisma));
+
+        return { reports: reports.count, documents: documents.count, budgets: budgets.count, minutes: minutes.count };
+    }
+
+    private async create(
+        data: Pick<Prisma.ArchiveRecordUncheckedCreateInput, 'scope' | 'projectId' | 'fiscalYear' | 'reason' | 'archivedById'>,
+        tx?: Db
+    ): Promise<ArchiveRecord> {
+        const db = tx ?? prisma;
+        const record = await db.archiveRecord.create({ data });
+        const summary = await this.freeze(record, tx);
+
+        return db.archiveRecord.update({
+            where: { id: record.id },
+            data: { summary: summary as unknown as Prisma.InputJsonValue },
+        });
+    }
+
+    getActiveProjectArchive(projectId: string) {
+        return prisma.archiveRecord.findFirst({
+            where: { scope: 'PROJECT', projectId, restoredAt: null },
+        });
+    }
+
+    getActiveYearArchive(fiscalYear: string, db: Db = prisma) {
+        return db.archiveRecord.findFirst({
+            where: { scope: 'FISCAL_YEAR', fiscalYear, restoredAt: null },
+        });
+    }
+
+    /**
+     * Archive a closed (COMPLETED / CANCELLED) project. Idempotent: returns the
+     * active archive if the project is already archived.
+     */
+    async archiveProject(projectId: string, userId: string, reason: string): Promise<ArchiveRecord> {
+        const active = await this.getActiveProjectArchive(projectId);
+        if (active) return active;
+
+        return this.create({ scope: 'PROJECT', projectId, reason, archivedById: userId });
+    }
+
+    // Close a fiscal year; called from the budget year-end archival
+    async archiveFiscalYear(fiscalYear: string, userId: string, tx?: Db): Promise<ArchiveRecord> {
+        if (!fiscalYearRange(fiscalYear)) {
+            throw new ArchiveError('Fiscal year must be in format YYYY-YY (e.g., 2024-25)', 400);
+        }
+        if (await this.getActiveYearArchive(fiscalYear, tx)) {
+            throw new ArchiveError(`Fiscal year ${fiscalYear} is already closed`, 409);
+        }
+
+        return this.create({ scope: 'FISCAL_YEAR', fiscalYear, reason: 'YEAR_END', archivedById: userId }, tx);
+    }
+
+    // Unfreeze everything an archive froze, then let other active archives reclaim overlapping rows
+    async restore(archiveId: string, userId: string, reason: string): Promise<ArchiveRecord> {
+        const record = await prisma.archiveRecord.findUnique({ where: { id: archiveId } });
+
+        if (!record) throw new ArchiveError('Archive not found', 404);
+        if (record.restoredAt) throw new ArchiveError('Archive has already been restored', 409);
+
+        const where = { archiveId };
+        const data = { archiveId: null, archivedAt: null };
+
+        const [restored] = await prisma.$transaction([
+            prisma.archiveRecord.update({
+                where: { id: archiveId },
+                data: { restoredAt: new Date(), restoredById: userId, restoreReason: reason },
+            }),
+            prisma.projectReport.updateMany({ where, data }),
+            prisma.document.updateMany({ where, data }),
+            prisma.budget.updateMany({ where, data }),
+            prisma.rCMinutes.updateMany({ where, data }),
+            prisma.project.updateMany({ where, data }),
+        ]);
+
+        // e.g. restoring a project inside a closed fiscal year leaves that year's rows frozen
+        const others = await prisma.archiveRecord.findMany({
+            where: { restoredAt: null },
+            orderBy: { archivedAt: 'asc' },
+        });
+        for (const other of others) {
+            await this.freeze(other);
+        }
+
+        return restored;
+    }
+
+    getRecords(filters: { scope?: 'PROJECT' | 'FISCAL_YEAR'; projectId?: string; includeRestored?: boolean } = {}) {
+        return prisma.archiveRecord.findMany({
+            where: {
+                scope: filters.scope,
+                projectId: filters.projectId,
+                restoredAt: filters.includeRestored ? undefined : null,
+            },
+            include: {
+                project: { select: { id: true, code: true, title: true } },
+                archivedBy: { select: userSelect },
+                restoredBy: { select: userSelect },
+            },
+            orderBy: { archivedAt: 'desc' },
+        });
+    }
+
+    // ============================================
+    // READ-ONLY GUARDS
+    // ============================================
+
+    assertNotFrozen(row: { archivedAt: Date | null }, label: string): void {
+        if (row.archivedAt) {
+            throw new ArchiveError(`${label} is archived and read-only; restore it from the archive to make changes`, 423);
+        }
+    }
+
+    async assertProjectWritable(projectId: string | null | undefined): Promise<void> {
+        if (!projectId) return;
+
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            select: { code: true, archivedAt: true },
+        });
+        if (project) this.assertNotFrozen(project, `Project ${project.code}`);
+    }
+
+    async assertBudgetWritable(projectId: string | null | undefined, fiscalYear: string): Promise<void> {
+        await this.assertProjectWritable(projectId);
+
+        if (await this.getActiveYearArchive(fiscalYear)) {
+            throw new ArchiveError(`Fiscal year ${fiscalYear} is closed and its budgets are read-only`, 423);
+        }
+    }
+
+    // ============================================
+    // SEARCH
+    // ============================================
+
+    /**
+     * Search frozen records of one type. `projectWhere` carries the caller's project
+     * visibility plus category / vertical filters.
+     */
+    async search(filters: ArchiveSearchFilters, projectWhere: Prisma.ProjectWhereInput) {
+        const page = Math.max(1, filters.page ?? 1);
+        const limit = Math.min(100, Math.max(1, filters.limit ?? 20));
+        const skip = (page - 1) * limit;
+        const range = yearRange(filters.year);
+        const search = filters.search?.trim();
+        const contains = (value: string) => ({ contains: value, mode: 'insensitive' as const });
+        const frozen = { archivedAt: { not: null } };
+
+        const paginate = <T>(data: T[], total: number) => ({
+            data,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+        });
+
+        switch (filters.type) {
+            case 'projects': {
+                const where: Prisma.ProjectWhereInput = {
+                    AND: [
+                        projectWhere,
+                        frozen,
+                        range ? { endDate: range } : {},
+                        search ? { OR: [{ title: contains(search) }, { code: contains(search) }] } : {},
+                    ],
+                };
+                const [data, total] = await Promise.all([
+                    prisma.project.findMany({
+                        where,
+                        select: {
+                            ...projectSelect,
+                            status: true,
+                            startDate: true,
+                            endDate: true,
+                            archiveId: true,
+                            archivedAt: true,
+                            projectHead: { select: userSelect },
+                        },
+                        orderBy: { archivedAt: 'desc' },
+                        skip,
+                        take: limit,
+                    }),
+                    prisma.project.count({ where }),
+                ]);
+                return paginate(data, total);
+            }
+
+            case 'reports': {
+                const where: Prisma.ProjectReportWhereInput = {
+                    AND: [
+                        frozen,
+                        { project: projectWhere },
+                        range ? { createdAt: range } : {},
+                        search ? { OR: [{ title: contains(search) }, { period: contains(search) }, { project: { code: contains(search) } }] } : {},
+                    ],
+                };
+                const [data, total] = await Promise.all([
+                    prisma.projectReport.findMany({
+                        where,
+                        include: {
+                            project: { select: projectSelect },
+                            submittedBy: { select: userSelect },
+                            approvedBy: { select: userSelect },
+                            attachments: { select: { id: true, fileName: true, fileSize: true } },
+                        },
+                        orderBy: { createdAt: 'desc' },
+                        skip,
+                        take: limit,
+                    }),
+                    prisma.projectReport.count({ where }),
+                ]);
+                return paginate(data, total);
+            }
+
+            case 'documents': {
+                const where: Prisma.DocumentWhereInput = {
+                    AND: [
+                        frozen,
+                        filters.projectScoped ? { project: projectWhere } : {},
+                        range ? { createdAt: range } : {},
+                        search ? { OR: [{ title: contains(search) }, { fileName: contains(search) }] } : {},
+                    ],
+                };
+                const [data, total] = await Promise.all([
+                    prisma.document.findMany({
+                        where,
+                        include: {
+                            project: { select: projectSelect },
+                            uploadedBy: { select: userSelect },
+                        },
+                        orderBy: { createdAt: 'desc' },
+                        skip,
+                        take: limit,
+                    }),
+                    prisma.document.count({ where }),
+                ]);
+                return paginate(data, total);
+            }
+
+            case 'budgets': {
+                const fiscalYear = filters.year && fiscalYearRange(filters.year) ? filters.year : undefined;
+                const where: Prisma.BudgetWhereInput = {
+                    AND: [
+                        frozen,
+                        { project: projectWhere },
+                        fiscalYear ? { fiscalYear } : filters.year ? { fiscalYear: { startsWith: filters.year } } : {},
+                        search ? { OR: [{ category: contains(search) }, { project: { code: contains(search) } }] } : {},
+                    ],
+                };
+                const [data, total] = await Promise.all([
+                    prisma.budget.findMany({
+                        where,
+                        include: { project: { select: projectSelect } },
+                        orderBy: [{ fiscalYear: 'desc' }, { createdAt: 'desc' }],
+                        skip,
+                        take: limit,
+                    }),
+                    prisma.budget.count({ where }),
+                ]);
+                return paginate(data, total);
+            }
+
+            case 'minutes': {
+                // Minutes belong to a meeting; category / vertical apply through its agenda
+                const where: Prisma.RCMinutesWhereInput = {
+                    AND: [
+                        frozen,
+                        filters.projectScoped ? { meeting: { agendaItems: { some: { project: projectWhere } } } } : {},
+                        range ? { meeting: { date: range } } : {},
+                        search ? { OR: [{ content: contains(search) }, { meeting: { title: contains(search) } }] } : {},
+                    ],
+                };
+                const [data, total] = await Promise.all([
+                    prisma.rCMinutes.findMany({
+                        where,
+                        include: {
+                            meeting: {
+                                select: {
+                                    id: true,
+                                    title: true,
+                                    meetingNumber: true,
+                                    date: true,
+                                    _count: { select: { agendaItems: true } },
+                                },
+                            },
+                            createdBy: { select: userSelect },
+                        },
+                        orderBy: [{ meeting: { date: 'desc' } }, { version: 'desc' }],
+                        skip,
+                        take: limit,
+                    }),
+                    prisma.rCMinutes.count({ where }),
+                ]);
+                return paginate(data, total);
+            }
+        }
+    }
+}
+
+export const archiveService = new ArchiveService();
@@ -0,0 +1,262 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { bookedExpenses } from './expense.service.js';
+
+export class BaselineError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'BaselineError';
+    }
+}
+
+export interface MilestoneVariance {
+    milestoneId: string | null;
+    title: string;
+    baselineStart: Date | null;
+    baselineEnd: Date | null;
+    currentStart: Date | null;
+    currentEnd: Date | null;
+    startSlipDays: number | null;
+    finishSlipDays: number | null; // Positive when the milestone now finishes later than planned
+    status: string | null;
+    change: 'on-plan' | 'slipped' | 'ahead' | 'added' | 'removed';
+}
+
+export interface BudgetVariance {
+    category: string;
+    baselineINR: number;
+    currentINR: number;
+    deltaINR: number;
+    spentINR: number;
+}
+
+export interface ProjectVariance {
+    baseline: { id: string; name: string; description: string | null; isPrimary: boolean; createdAt: Date };
+    schedule: {
+        baselineStart: Date;
+        baselineFinish: Date;
+        currentStart: Date;
+        forecastFinish: Date;
+        startSlipDays: number;
+        finishSlipDays: number;
+        milestonesSlipped: number;
+    };
+    cost: {
+        baselineBudgetINR: number;
+        currentBudgetINR: number;
+        budgetDeltaINR: number;
+        spentINR: number;
+        spentPercentOfBaseline: number;
+    };
+    milestones: MilestoneVariance[];
+    budgets: BudgetVariance[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+const latest = (dates: Date[]) => new Date(Math.max(...dates.map(d => d.getTime())));
+
+// Expense and budget categories are free text, so they are matched case-insensitively
+const categoryKey = (category: string) => category.trim().toUpperCase();
+
+const baselineInclude = {
+    milestones: { orderBy: { startDate: 'asc' } },
+    budgets: true,
+} satisfies Prisma.ProjectBaselineInclude;
+
+/**
+ * Named snapshots of a project's milestone dates and budget, such as "RC
+ * sanctioned" or "Revised after 45th RC", and the schedule and cost variance
+ * of the live plan against any of them. The first baseline of a project becomes
+ * its primary one.
+ */
+export class BaselineService {
+    async list(projectId: string) {
+        return prisma.projectBaseline.findMany({
+            where: { projectId },
+            orderBy: { createdAt: 'desc' },
+            include: {
+                capturedBy: { select: { firstName: true, lastName: true } },
+                _count: { select: { milestones: true, budgets: true } },
+            },
+        });
+    }
+
+    async capture(projectId: string, input: { name: string; description?: string; isPrimary?: boolean }, userId: string) {
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            include: { milestones: true, budgets: true },
+        });
+        if (!project) throw new BaselineError('Project not found', 404);
+
+        const existing = await prisma.projectBaseline.findMany({ where: { projectId }, select: { name: true } });
+        if (existing.some(b => b.name.toLowerCase() === input.name.toLowerCase())) {
+            throw new BaselineError(`A baseline named "${input.name}" already exists for this project`, 409);
+        }
+        const isPrimary = input.isPrimary || existing.length === 0;
+
+        return prisma.$transaction(async (tx) => {
+            if (isPrimary) {
+                await tx.projectBaseline.updateMany({ where: { projectId }, data: { isPrimary: false } });
+            }
+            return tx.projectBaseline.create({
+                data: {
+                    projectId,
+                    name: input.name,
+                    description: input.description,
+                    isPrimary,
+                    startDate: project.startDate,
+                    endDate: project.endDate,
+                    totalBudgetINR: project.budgets.reduce((sum, b) => sum + b.amountINR, 0),
+                    capturedById: userId,
+                    milestones: {
+                        create: project.milestones.map(m => ({
+                            milestoneId: m.id,
+                            title: m.title,
+                            startDate: m.startDate,
+                            endDate: m.endDate,
+                        })),
+                    },
+                    budgets: {
+                        create: project.budgets.map(b => ({
+                            fiscalYear: b.fiscalYear,
+                            category: b.category,
+                            amountINR: b.amountINR,
+                        })),
+                    },
+                },
+                include: baselineInclude,
+            });
+        });
+    }
+
+    async setPrimary(projectId: string, baselineId: string) {
+        const baseline = await prisma.projectBaseline.findFirst({ where: { id: baselineId, projectId } });
+        if (!baseline) throw new BaselineError('Baseline not found', 404);
+
+        await prisma.$transaction([
+            prisma.projectBaseline.updateMany({ where: { projectId }, data: { isPrimary: false } }),
+            prisma.projectBaseline.update({ where: { id: baselineId }, data: { isPrimary: true } }),
+        ]);
+        return { ...baseline, isPrimary: true };
+    }
+
+    // Deleting the primary baseline promotes the most recent remaining one
+    async remove(projectId: string, baselineId: string) {
+        const baseline = await prisma.projectBaseline.findFirst({ where: { id: baselineId, projectId } });
+        if (!baseline) throw new BaselineError('Baseline not found', 404);
+
+        await prisma.projectBaseline.delete({ where: { id: baselineId } });
+
+        if (baseline.isPrimary) {
+            const next = await prisma.projectBaseline.findFirst({ where: { projectId }, orderBy: { createdAt: 'desc' } });
+            if (next) await prisma.projectBaseline.update({ where: { id: next.id }, data: { isPrimary: true } });
+        }
+        return baseline;
+    }
+
+    /**
+     * Variance of the live plan against a baseline (the primary one when no id
+     * is given). Null when the project has no baselines yet.
+     */
+    async variance(projectId: string, baselineId?: string): Promise<ProjectVariance | null> {
+        const [project, baseline] = await Promise.all([
+            prisma.project.findUnique({
+                where: { id: projectId },
+                include: {
+                    milestones: { orderBy: [{ order: 'asc' }, { startDate: 'asc' }] },
+                    budgets: { select: { category: true, amountINR: true } },
+                    expenses: { where: bookedExpenses, select: { category: true, amountINR: true } },
+                },
+            }),
+            prisma.projectBaseline.findFirst({
+                where: baselineId ? { id: baselineId, projectId } : { projectId },
+                orderBy: [{ isPrimary: 'desc' }, { createdAt: 'desc' }],
+                include: baselineInclude,
+            }),
+        ]);
+        if (!project) throw new BaselineError('Project not found', 404);
+        if (!baseline) {
+            if (baselineId) throw new BaselineError('Baseline not found', 404);
+            return null;
+        }
+
+        const current = new Map(project.milestones.map(m => [m.id, m]));
+        const milestones: MilestoneVariance[] = baseline.milestones.map(b => {
+            const live = b.milestoneId ? current.get(b.milestoneId) : undefined;
+            if (!live) {
+                return {
+                    milestoneId: b.milestoneId, title: b.title,
+                    baselineStart: b.startDate, baselineEnd: b.endDate, currentStart: null, currentEnd: null,
+                    startSlipDays: null, finishSlipDays: null, status: null, change: 'removed',
+                };
+            }
+            const finishSlipDays = daysBetween(b.endDate, live.endDate);
+            return {
+                milestoneId: live.id, title: live.title,
+                baselineStart: b.startDate, baselineEnd: b.endDate, currentStart: live.startDate, currentEnd: live.endDate,
+                startSlipDays: daysBetween(b.startDate, live.startDate), finishSlipDays, status: live.status,
+                change: finishSlipDays > 0 ? 'slipped' : finishSlipDays < 0 ? 'ahead' : 'on-plan',
+            };
+        });
+
+        const baselined = new Set(baseline.milestones.map(b => b.milestoneId));
+        for (const live of project.milestones.filter(m => !baselined.has(m.id))) {
+            milestones.push({
+                milestoneId: live.id, title: live.title,
+                baselineStart: null, baselineEnd: null, currentStart: live.startDate, currentEnd: live.endDate,
+                startSlipDays: null, finishSlipDays: null, status: live.status, change: 'added',
+            });
+        }
+
+        const budgets = new Map<string, BudgetVariance>();
+        const budgetRow = (category: string) => {
+            const key = categoryKey(category);
+            const row = budgets.get(key) ?? { category: key, baselineINR: 0, currentINR: 0, deltaINR: 0, spentINR: 0 };
+            budgets.set(key, row);
+            return row;
+        };
+        baseline.budgets.forEach(b => { budgetRow(b.category).baselineINR += b.amountINR; });
+        project.budgets.forEach(b => { budgetRow(b.category).currentINR += b.amountINR; });
+        project.expenses.forEach(e => { budgetRow(e.category).spentINR += e.amountINR; });
+        budgets.forEach(row => { row.deltaINR = row.currentINR - row.baselineINR; });
+
+        // The plan finishes with whichever is later: the project end date or its last milestone
+        const baselineFinish = latest([baseline.endDate, ...baseline.milestones.map(m => m.endDate)]);
+        const forecastFinish = latest([project.endDate, ...project.milestones.map(m => m.endDate)]);
+        const currentBudgetINR = project.budgets.reduce((sum, b) => sum + b.amountINR, 0);
+        const spentINR = project.expenses.reduce((sum, e) => sum + e.amountINR, 0);
+
+        return {
+            baseline: {
+                id: baseline.id,
+                name: baseline.name,
+                description: baseline.description,
+                isPrimary: baseline.isPrimary,
+                createdAt: baseline.createdAt,
+            },
+            schedule: {
+                baselineStart: baseline.startDate,
+                baselineFinish,
+                currentStart: project.startDate,
+                forecastFinish,
+                startSlipDays: daysBetween(baseline.startDate, project.startDate),
+                finishSlipDays: daysBetween(baselineFinish, forecastFinish),
+                milestonesSlipped: milestones.filter(m => m.change === 'slipped').length,
+            },
+            cost: {
+                baselineBudgetINR: baseline.totalBudgetINR,
+                currentBudgetINR,
+                budgetDeltaINR: currentBudgetINR - baseline.totalBudgetINR,
+                spentINR,
+                spentPercentOfBaseline: baseline.totalBudgetINR > 0 ? Math.round((spentINR / baseline.totalBudgetINR) * 100) : 0,
+            },
+            milestones,
+            budgets: Array.from(budgets.values()).sort((a, b) => b.baselineINR - a.baselineINR),
+        };
+    }
+}
+
+export const baselineService = new BaselineService();
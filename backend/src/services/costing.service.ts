@@ -0,0 +1,324 @@
+import { Prisma, ProjectCategory, ProposalCostSheet } from '@prisma/client';
+import prisma from '../config/database.js';
+import { fiscalYearRange, getFiscalYear } from '../utils/helpers.js';
+import { archiveService } from './archive.service.js';
+import { ledgerService } from './ledger.service.js';
+
+export class CostingError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'CostingError';
+    }
+}
+
+type Db = Prisma.TransactionClient;
+
+// Direct cost heads a cost sheet line may fall under; they match the Budget categories
+export const COST_HEADS = ['MANPOWER', 'EQUIPMENT', 'CONSUMABLES', 'TRAVEL'] as const;
+export type CostHead = typeof COST_HEADS[number];
+
+export interface CostingRuleInput {
+    overheadPercent: number;
+    overheadExcludesEquipment: boolean;
+    contingencyCapPercent: number;
+    gstPercent: number;
+}
+
+export interface CostItemInput {
+    head: CostHead;
+    description: string; // Designation for manpower lines
+    quantity: number; // Positions for manpower lines
+    months?: number | null; // Manpower only; unitCostINR is then the monthly emolument
+    unitCostINR: number;
+    fiscalYear?: string | null; // Spread pro rata over the proposal period when unset
+}
+
+export interface CostSheetInput {
+    items: CostItemInput[];
+    contingencyPercent: number;
+    notes?: string | null;
+}
+
+interface CostItem extends CostItemInput {
+    amountINR: number;
+}
+
+interface YearCost {
+    fiscalYear: string;
+    heads: Record<string, number>;
+    budgetINR: number;
+}
+
+// Consultancy and service work recovers institutional overhead and is billed with
+// GST; sponsored grants carry overhead on recurring heads only; in-house projects
+// carry none
+const SPONSORED: CostingRuleInput = { overheadPercent: 15, overheadExcludesEquipment: true, contingencyCapPercent: 5, gstPercent: 0 };
+const IN_HOUSE: CostingRuleInput = { overheadPercent: 0, overheadExcludesEquipment: false, contingencyCapPercent: 5, gstPercent: 0 };
+const CONSULTANCY: CostingRuleInput = { overheadPercent: 20, overheadExcludesEquipment: false, contingencyCapPercent: 5, gstPercent: 18 };
+
+const DEFAULT_RULES: Record<ProjectCategory, CostingRuleInput> = {
+    GAP: SPONSORED,
+    CNP: CONSULTANCY,
+    OLP: IN_HOUSE,
+    EFP: SPONSORED,
+    BMP: SPONSORED,
+    FBR: IN_HOUSE,
+    FTC: IN_HOUSE,
+    FTT: IN_HOUSE,
+    MMP: IN_HOUSE,
+    NCP: IN_HOUSE,
+    NMITLI: IN_HOUSE,
+    MLP: IN_HOUSE,
+    SSP: SPONSORED,
+    STS: CONSULTANCY,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const sum = (values: number[]) => round2(values.reduce((total, value) => total + value, 0));
+
+// Splits an amount by weights in paise; the last share takes the rounding remainder
+const apportion = (amount: number, weights: number[]) => {
+    const total = weights.reduce((a, b) => a + b, 0);
+    const shares = weights.map(weight => round2(amount * weight / total));
+    shares[shares.length - 1] = round2(amount - sum(shares.slice(0, -1)));
+    return shares;
+};
+
+/**
+ * Proposal cost estimation. A cost sheet prices manpower, equipment, consumables
+ * and travel, adds contingency, institutional overhead and GST on the terms of
+ * the proposal's category, and spreads the result over the fiscal years of the
+ * proposed period. Every save is a new version; the latest becomes the proposal's
+ * estimated budget and is copied into Budget rows when the project is created.
+ */
+export class CostingService {
+    // ============================================
+    // COSTING RULES
+    // ============================================
+
+    // Effective terms of every category, marking those still on the defaults
+    async listRules() {
+        const saved = new Map((await prisma.costingRule.findMany()).map(rule => [rule.category, rule]));
+        return Object.values(ProjectCategory).map(category => {
+            const rule = saved.get(category);
+            return rule
+                ? { ...this.terms(rule), category, isDefault: false, updatedAt: rule.updatedAt }
+                : { ...DEFAULT_RULES[category], category, isDefault: true, updatedAt: null };
+        });
+    }
+
+    async ruleFor(category: ProjectCategory): Promise<CostingRuleInput> {
+        const rule = await prisma.costingRule.findUnique({ where: { category } });
+        return rule ? this.terms(rule) : DEFAULT_RULES[category];
+    }
+
+    saveRule(category: ProjectCategory, input: CostingRuleInput) {
+        return prisma.costingRule.upsert({
+            where: { category },
+            create: { category, ...input },
+            update: input,
+        });
+    }
+
+    // Drops a category's override so it falls back to the default terms
+    async resetRule(category: ProjectCategory) {
+        await prisma.costingRule.deleteMany({ where: { category } });
+        return { ...DEFAULT_RULES[category], category, isDefault: true, updatedAt: null };
+    }
+
+    // ============================================
+    // COST SHEETS
+    // ============================================
+
+    listSheets(proposalId: string) {
+        return prisma.proposalCostSheet.findMany({
+            where: { proposalId },
+            include: { createdBy: { select: { id: true, firstName: true, lastName: true } } },
+            orderBy: { version: 'desc' },
+        });
+    }
+
+    latestSheet(proposalId: string, db: Db = prisma) {
+        return db.proposalCostSheet.findFirst({
+            where: { proposalId },
+            orderBy: { version: 'desc' },
+        });
+    }
+
+    /**
+     * Prices a new version of a draft proposal's cost sheet and makes its budget
+     * the proposal's estimate. Costing terms are read from the category's rule
+     * and copied onto the sheet.
+     */
+    async saveSheet(proposalId: string, input: CostSheetInput, userId: string) {
+        const proposal = await prisma.projectProposal.findUnique({ where: { id: proposalId } });
+        if (!proposal) throw new CostingError('Proposal not found', 404);
+        if (proposal.status !== 'DRAFT') {
+            throw new CostingError('The cost sheet can only be revised while the proposal is a draft', 409);
+        }
+
+        const rule = await this.ruleFor(proposal.category);
+        if (input.contingencyPercent > rule.contingencyCapPercent) {
+            throw new CostingError(`Contingency for ${proposal.category} proposals is capped at ${rule.contingencyCapPercent}%`, 400);
+        }
+
+        const years = this.fiscalYears(proposal.proposedStartDate, proposal.proposedEndDate);
+        const items: CostItem[] = input.items.map(item => {
+            if (item.fiscalYear && !years.some(year => year.fiscalYear === item.fiscalYear)) {
+                throw new CostingError(`${item.description} is costed in ${item.fiscalYear}, outside the proposed period`, 400);
+            }
+            const months = item.head === 'MANPOWER' ? item.months ?? 0 : null;
+            return {
+                ...item,
+                months,
+                fiscalYear: item.fiscalYear || null,
+                amountINR: round2(item.quantity * item.unitCostINR * (months ?? 1)),
+            };
+        });
+
+        const yearly = this.spread(items, years, { ...rule, contingencyPercent: input.contingencyPercent });
+        const total = (head: string) => sum(yearly.map(year => year.heads[head]));
+        const contingencyINR = total('CONTINGENCY');
+        const overheadINR = total('OVERHEAD');
+        const budgetINR = sum(yearly.map(year => year.budgetINR));
+        const gstINR = round2(budgetINR * rule.gstPercent / 100);
+
+        return prisma.$transaction(async (tx) => {
+            const last = await this.latestSheet(proposalId, tx);
+            const sheet = await tx.proposalCostSheet.create({
+                data: {
+                    proposalId,
+                    version: (last?.version ?? 0) + 1,
+                    items: items as unknown as Prisma.InputJsonValue,
+                    contingencyPercent: input.contingencyPercent,
+                    overheadPercent: rule.overheadPercent,
+                    overheadExcludesEquipment: rule.overheadExcludesEquipment,
+                    gstPercent: rule.gstPercent,
+                    directINR: round2(budgetINR - contingencyINR - overheadINR),
+                    contingencyINR,
+                    overheadINR,
+                    budgetINR,
+                    gstINR,
+                    totalINR: round2(budgetINR + gstINR),
+                    yearly: yearly as unknown as Prisma.InputJsonValue,
+                    notes: input.notes ?? null,
+                    createdById: userId,
+                },
+                include: { createdBy: { select: { id: true, firstName: true, lastName: true } } },
+            });
+            await tx.projectProposal.update({ where: { id: proposalId }, data: { estimatedBudget: budgetINR } });
+            return sheet;
+        });
+    }
+
+    // ============================================
+    // BUDGETS
+    // ============================================
+
+    /**
+     * Fiscal years a cost sheet will be budgeted in. Years that have already
+     * passed by conversion are carried into the current year, since a new project
+     * cannot spend in them.
+     */
+    budgetYears(sheet: ProposalCostSheet, asOf = new Date()) {
+        const current = getFiscalYear(asOf);
+        const byYear = new Map<string, Record<string, number>>();
+        for (const year of sheet.yearly as unknown as YearCost[]) {
+            const fiscalYear = year.fiscalYear < current ? current : year.fiscalYear;
+            const heads = byYear.get(fiscalYear) ?? {};
+            for (const [head, amount] of Object.entries(year.heads)) {
+                heads[head] = round2((heads[head] ?? 0) + amount);
+            }
+            byYear.set(fiscalYear, heads);
+        }
+        return [...byYear.entries()].map(([fiscalYear, heads]) => ({ fiscalYear, heads }));
+    }
+
+    // Closed fiscal years cannot take the new project's budgets
+    async assertBudgetable(sheet: ProposalCostSheet) {
+        for (const { fiscalYear } of this.budgetYears(sheet)) {
+            await archiveService.assertBudgetWritable(null, fiscalYear);
+        }
+    }
+
+    /**
+     * Creates the Budget rows of a newly converted project from its proposal's
+     * cost sheet, one per fiscal year and head, with matching ledger allocations.
+     * GST is collected for the government and is not budgeted.
+     */
+    async createBudgets(db: Db, projectId: string, sheet: ProposalCostSheet, userId?: string) {
+        const budgets = [];
+        for (const { fiscalYear, heads } of this.budgetYears(sheet)) {
+            for (const [category, amountINR] of Object.entries(heads)) {
+                if (amountINR <= 0) continue;
+
+                const budget = await db.budget.create({ data: { projectId, fiscalYear, category, amountINR } });
+                await ledgerService.allocate(db, { projectId, fiscalYear, category }, amountINR, {
+                    description: `Budget allocated for ${category} from proposal cost sheet v${sheet.version}`,
+                    sourceType: 'Budget',
+                    sourceId: budget.id,
+                    createdById: userId,
+                });
+                budgets.push(budget);
+            }
+        }
+        return budgets;
+    }
+
+    // ============================================
+    // PRICING
+    // ============================================
+
+    private terms(rule: CostingRuleInput): CostingRuleInput {
+        const { overheadPercent, overheadExcludesEquipment, contingencyCapPercent, gstPercent } = rule;
+        return { overheadPercent, overheadExcludesEquipment, contingencyCapPercent, gstPercent };
+    }
+
+    // Fiscal years of the proposed period, weighted by the days falling in each
+    private fiscalYears(start: Date, end: Date) {
+        if (end < start) throw new CostingError('The proposed end date is before the start date', 400);
+
+        const years: { fiscalYear: string; days: number }[] = [];
+        let fiscalYear = getFiscalYear(start);
+        for (;;) {
+            const range = fiscalYearRange(fiscalYear)!;
+            const from = Math.max(range.start, start.getTime());
+            const to = Math.min(range.end, end.getTime());
+            years.push({ fiscalYear, days: Math.max(1, Math.round((to - from) / DAY_MS)) });
+            if (range.end >= end.getTime()) break;
+            fiscalYear = getFiscalYear(new Date(range.end + 1));
+        }
+        return years;
+    }
+
+    // Direct costs per year and head, then contingency and overhead on each year's costs
+    private spread(
+        items: CostItem[],
+        years: { fiscalYear: string; days: number }[],
+        terms: CostingRuleInput & { contingencyPercent: number }
+    ): YearCost[] {
+        const heads = years.map(() => Object.fromEntries(COST_HEADS.map(head => [head, 0])) as Record<string, number>);
+
+        for (const item of items) {
+            const shares = item.fiscalYear
+                ? years.map(year => (year.fiscalYear === item.fiscalYear ? item.amountINR : 0))
+                : apportion(item.amountINR, years.map(year => year.days));
+            shares.forEach((share, i) => {
+                heads[i][item.head] = round2(heads[i][item.head] + share);
+            });
+        }
+
+        return years.map(({ fiscalYear }, i) => {
+            const direct = sum(COST_HEADS.map(head => heads[i][head]));
+            const overheadBase = terms.overheadExcludesEquipment ? direct - heads[i].EQUIPMENT : direct;
+            heads[i].CONTINGENCY = round2(direct * terms.contingencyPercent / 100);
+            heads[i].OVERHEAD = round2(overheadBase * terms.overheadPercent / 100);
+            return { fiscalYear, heads: heads[i], budgetINR: sum(Object.values(heads[i])) };
+        });
+    }
+}
+
+export const costingService = new CostingService();
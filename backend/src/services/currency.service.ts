@@ -1,143 +1,309 @@
 import config from '../config/index.js';
 import prisma from '../config/database.js';
-import { Currency } from '@prisma/client';
+import { CurrencyRate, CurrencyRateSource } from '@prisma/client';
 
-interface CurrencyRates {
-    USD: number;
-    INR: number;
+export class CurrencyError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'CurrencyError';
+    }
+}
+
+export interface CurrencyInfo {
+    code: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    isActive: boolean;
+}
+
+// A rate of one currency in INR and where it came from; source is null for INR
+// itself and for the built-in USD fallback
+export interface RateQuote {
+    currency: string;
+    rate: number;
+    rateDate: Date;
+    source: CurrencyRateSource | null;
 }
 
+// Amounts are converted to and reported in INR
+export const BASE_CURRENCY = 'INR';
+
+// Available without a CurrencyDefinition row; a row with the same code overrides one
+const BUILT_IN_CURRENCIES: CurrencyInfo[] = [
+    { code: 'INR', name: 'Indian Rupee', symbol: '₹', decimals: 2, isActive: true },
+    { code: 'USD', name: 'US Dollar', symbol: '$', decimals: 2, isActive: true },
+    { code: 'EUR', name: 'Euro', symbol: '€', decimals: 2, isActive: true },
+    { code: 'GBP', name: 'Pound Sterling', symbol: '£', decimals: 2, isActive: true },
+    { code: 'JPY', name: 'Japanese Yen', symbol: '¥', decimals: 0, isActive: true },
+];
+
 // Default fallback rate
 const DEFAULT_USD_TO_INR = 83.50;
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Local YYYY-MM-DD
+const isoDay = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const toQuote = (row: CurrencyRate): RateQuote => ({
+    currency: row.baseCurrency,
+    rate: row.rate,
+    rateDate: row.rateDate,
+    source: row.source,
+});
+
+/**
+ * Currencies and their INR rates. Rates are stored per day in CurrencyRate; a
+ * conversion uses the rate of the transaction's date, fetched from the exchange
+ * rate API when it is not stored yet. When the API is unreachable the latest
+ * earlier stored rate is used, and finance can enter rates by hand.
+ */
 export class CurrencyService {
-    private cachedRates: CurrencyRates | null = null;
-    private lastFetch: Date | null = null;
-    private cacheDuration = 24 * 60 * 60 * 1000; // 24 hours
+    // ============================================
+    // CURRENCIES
+    // ============================================
 
-    async getExchangeRate(from: Currency = 'USD', to: Currency = 'INR'): Promise<number> {
-        try {
-            // Check cache
-            const cached = await this.getCachedRate(from, to);
-            if (cached) {
-                return cached;
-            }
+    async listCurrencies(includeInactive = false): Promise<CurrencyInfo[]> {
+        const rows = await prisma.currencyDefinition.findMany();
+        const byCode = new Map(BUILT_IN_CURRENCIES.map(c => [c.code, c]));
+        rows.forEach(row => byCode.set(row.code, {
+            code: row.code,
+            name: row.name,
+            symbol: row.symbol,
+            decimals: row.decimals,
+            isActive: row.isActive,
+        }));
 
-            // Fetch from API
-            const rates = await this.fetchRates();
+        return Array.from(byCode.values())
+            .filter(c => includeInactive || c.isActive)
+            .sort((a, b) => (a.code === BASE_CURRENCY ? -1 : b.code === BASE_CURRENCY ? 1 : a.code.localeCompare(b.code)));
+    }
 
-            if (from === 'USD' && to === 'INR') {
-                return rates.INR;
-            } else if (from === 'INR' && to === 'USD') {
-                return 1 / rates.INR;
-            }
+    async getCurrency(code: string): Promise<CurrencyInfo> {
+        const currency = (await this.listCurrencies(true)).find(c => c.code === code.toUpperCase());
+        if (!currency) throw new CurrencyError(`Unsupported currency ${code}`, 400);
+        return currency;
+    }
 
-            return 1;
-        } catch (error) {
-            console.error('Failed to get exchange rate:', error);
-            return DEFAULT_USD_TO_INR;
+    // New entries may only use active currencies; existing ones still convert
+    async assertActive(code: string): Promise<void> {
+        const currency = await this.getCurrency(code);
+        if (!currency.isActive) throw new CurrencyError(`${currency.code} is no longer accepted for new entries`, 400);
+    }
+
+    async saveCurrency(input: CurrencyInfo): Promise<CurrencyInfo> {
+        const code = input.code.toUpperCase();
+        if (code === BASE_CURRENCY && !input.isActive) {
+            throw new CurrencyError(`${BASE_CURRENCY} is the base currency and cannot be deactivated`, 400);
         }
+        const data = { name: input.name, symbol: input.symbol, decimals: input.decimals, isActive: input.isActive };
+        await prisma.currencyDefinition.upsert({
+            where: { code },
+            create: { code, ...data },
+            update: data,
+        });
+        return this.getCurrency(code);
     }
 
-    private async fetchRates(): Promise<CurrencyRates> {
-        try {
-            if (!config.currencyApi.key || config.currencyApi.key === 'fca_live_YOUR_API_KEY_HERE') {
-                console.log('No currency API key configured, using default rate');
-                return { USD: 1, INR: DEFAULT_USD_TO_INR };
-            }
+    // ============================================
+    // RATES
+    // ============================================
 
-            const response = await fetch(
-                `${config.currencyApi.url}?apikey=${config.currencyApi.key}&base_currency=USD&currencies=INR`
-            );
+    // INR per unit of `currency` on the day of `date`
+    async rateToINR(currency: string, date: Date = new Date()): Promise<RateQuote> {
+        const code = (await this.getCurrency(currency)).code;
+        const day = startOfDay(date);
+        if (code === BASE_CURRENCY) return { currency: code, rate: 1, rateDate: day, source: null };
 
-            if (!response.ok) {
-                throw new Error(`API responded with status ${response.status}`);
-            }
+        const stored = await prisma.currencyRate.findFirst({
+            where: { baseCurrency: code, targetCurrency: BASE_CURRENCY, rateDate: { gte: day, lt: new Date(day.getTime() + DAY_MS) } },
+            orderBy: { fetchedAt: 'desc' },
+        });
+        if (stored) return toQuote(stored);
 
-            const data = await response.json() as { data?: { INR?: number } };
-            const inrRate = data.data?.INR || DEFAULT_USD_TO_INR;
+        if (day <= startOfDay(new Date())) {
+            const fetched = await this.fetchRate(code, day);
+            if (fetched) return fetched;
+        }
 
-            // Cache the rate
-            await this.cacheRate('USD', 'INR', inrRate);
+        // Offline: the latest rate known on that day
+        const earlier = await prisma.currencyRate.findFirst({
+            where: { baseCurrency: code, targetCurrency: BASE_CURRENCY, rateDate: { lt: day } },
+            orderBy: [{ rateDate: 'desc' }, { fetchedAt: 'desc' }],
+        });
+        if (earlier) return toQuote(earlier);
 
-            return { USD: 1, INR: inrRate };
-        } catch (error) {
-            console.error('Currency API fetch failed:', error);
-            // Return last known rate or default
-            const lastRate = await this.getLastKnownRate();
-            return { USD: 1, INR: lastRate };
-        }
+        if (code === 'USD') return { currency: code, rate: DEFAULT_USD_TO_INR, rateDate: day, source: null };
+        throw new CurrencyError(`No ${code} to ${BASE_CURRENCY} rate is available for ${isoDay(day)}; enter one manually`, 422);
     }
 
-    private async getCachedRate(from: Currency, to: Currency): Promise<number | null> {
-        try {
-            const cached = await prisma.currencyRate.findFirst({
-                where: {
-                    baseCurrency: from,
-                    targetCurrency: to,
-                    fetchedAt: {
-                        gte: new Date(Date.now() - this.cacheDuration),
-                    },
-                },
-                orderBy: { fetchedAt: 'desc' },
-            });
-
-            return cached?.rate || null;
-        } catch {
+    // Fetches and stores one day's rate; null when the API is not configured or fails
+    private async fetchRate(code: string, day: Date): Promise<RateQuote | null> {
+        if (!config.currencyApi.key || config.currencyApi.key === 'fca_live_YOUR_API_KEY_HERE') {
             return null;
         }
-    }
 
-    private async cacheRate(from: Currency, to: Currency, rate: number): Promise<void> {
+        const isToday = day.getTime() === startOfDay(new Date()).getTime();
+        const endpoint = isToday ? config.currencyApi.url : config.currencyApi.url.replace(/\/latest$/, '/historical');
+        const params = new URLSearchParams({ apikey: config.currencyApi.key, base_currency: code, currencies: BASE_CURRENCY });
+        if (!isToday) params.set('date', isoDay(day));
+
         try {
-            await prisma.currencyRate.create({
-                data: {
-                    baseCurrency: from,
-                    targetCurrency: to,
-                    rate,
-                },
+            const response = await fetch(`${endpoint}?${params}`);
+            if (!response.ok) {
+                throw new Error(`API responded with status ${response.status}`);
+            }
+
+            // Latest rates come as { data: { INR } }, historical ones keyed by date
+            const data = await response.json() as { data?: Record<string, number | Record<string, number>> };
+            const entry = isToday ? data.data : data.data?.[isoDay(day)];
+            const rate = entry && typeof entry === 'object' ? (entry as Record<string, number>)[BASE_CURRENCY] : undefined;
+            if (!rate) return null;
+
+            const row = await prisma.currencyRate.create({
+                data: { baseCurrency: code, targetCurrency: BASE_CURRENCY, rate, rateDate: day, source: 'API' },
             });
+            return toQuote(row);
         } catch (error) {
-            console.error('Failed to cache rate:', error);
+            console.error('Currency API fetch failed:', error);
+            return null;
         }
     }
 
-    private async getLastKnownRate(): Promise<number> {
-        try {
-            const lastRate = await prisma.currencyRate.findFirst({
-                where: {
-                    baseCurrency: 'USD',
-                    targetCurrency: 'INR',
-                },
-                orderBy: { fetchedAt: 'desc' },
-            });
-            return lastRate?.rate || DEFAULT_USD_TO_INR;
-        } catch {
-            return DEFAULT_USD_TO_INR;
-        }
+    async setManualRate(currency: string, date: Date, rate: number, userId: string): Promise<RateQuote> {
+        const code = (await this.getCurrency(currency)).code;
+        if (code === BASE_CURRENCY) throw new CurrencyError(`${BASE_CURRENCY} is the base currency`, 400);
+        if (!(rate > 0)) throw new CurrencyError('Rate must be positive', 400);
+
+        const row = await prisma.currencyRate.create({
+            data: {
+                baseCurrency: code,
+                targetCurrency: BASE_CURRENCY,
+                rate,
+                rateDate: startOfDay(date),
+                source: 'MANUAL',
+                enteredById: userId,
+            },
+        });
+        return toQuote(row);
     }
 
-    async convertToINR(amount: number, fromCurrency: Currency): Promise<{ amountINR: number; rate: number }> {
-        if (fromCurrency === 'INR') {
-            return { amountINR: amount, rate: 1 };
-        }
+    async getRateHistory(currency: string, from?: Date, to?: Date) {
+        const code = (await this.getCurrency(currency)).code;
+        return prisma.currencyRate.findMany({
+            where: {
+                baseCurrency: code,
+                targetCurrency: BASE_CURRENCY,
+                ...(from || to ? { rateDate: { ...(from ? { gte: startOfDay(from) } : {}), ...(to ? { lte: to } : {}) } } : {}),
+            },
+            orderBy: [{ rateDate: 'desc' }, { fetchedAt: 'desc' }],
+            take: 500,
+        });
+    }
+
+    // ============================================
+    // CONVERSION
+    // ============================================
+
+    // Units of `to` per unit of `from` on `date`
+    async getExchangeRate(from: string = 'USD', to: string = BASE_CURRENCY, date: Date = new Date()): Promise<number> {
+        const [fromRate, toRate] = await Promise.all([this.rateToINR(from, date), this.rateToINR(to, date)]);
+        return fromRate.rate / toRate.rate;
+    }
 
-        const rate = await this.getExchangeRate('USD', 'INR');
+    // Converts at the rate of `date`, e.g. an invoice or transaction date
+    async convertToINR(amount: number, fromCurrency: string, date: Date = new Date()): Promise<{ amountINR: number; rate: number }> {
+        const { rate } = await this.rateToINR(fromCurrency, date);
         return {
             amountINR: amount * rate,
             rate,
         };
     }
 
-    async convertToUSD(amount: number, fromCurrency: Currency): Promise<{ amountUSD: number; rate: number }> {
-        if (fromCurrency === 'USD') {
-            return { amountUSD: amount, rate: 1 };
+    async convert(amount: number, from: string, to: string, date: Date = new Date()): Promise<{ amount: number; rate: number }> {
+        const rate = await this.getExchangeRate(from, to, date);
+        return {
+            amount: amount * rate,
+            rate,
+        };
+    }
+
+    // ============================================
+    // REVALUATION
+    // ============================================
+
+    /**
+     * Forex gain or loss on foreign-currency receipts: each CashFlow received up
+     * to `asOf` is revalued at the rate of `asOf` and compared with the INR it
+     * was booked at. Currencies without a rate are listed and left out.
+     */
+    async revaluation(asOf: Date = new Date(), projectId?: string) {
+        const receipts = await prisma.cashFlow.findMany({
+            where: {
+                type: 'RECEIVED',
+                currency: { not: BASE_CURRENCY },
+                transactionDate: { lt: new Date(startOfDay(asOf).getTime() + DAY_MS) },
+                ...(projectId ? { projectId } : {}),
+            },
+            include: { project: { select: { id: true, code: true, title: true } } },
+            orderBy: { transactionDate: 'asc' },
+        });
+
+        const quotes = new Map<string, RateQuote>();
+        const missingRates: string[] = [];
+        for (const code of new Set(receipts.map(r => r.currency))) {
+            try {
+                quotes.set(code, await this.rateToINR(code, asOf));
+            } catch (error) {
+                if (!(error instanceof CurrencyError)) throw error;
+                missingRates.push(code);
+            }
         }
 
-        const rate = await this.getExchangeRate('INR', 'USD');
+        const rows = receipts.flatMap(receipt => {
+            const quote = quotes.get(receipt.currency);
+            if (!quote) return [];
+            const revaluedINR = receipt.amount * quote.rate;
+            return [{
+                id: receipt.id,
+                project: receipt.project,
+                transactionDate: receipt.transactionDate,
+                source: receipt.source,
+                description: receipt.description,
+                currency: receipt.currency,
+                amount: receipt.amount,
+                bookedRate: receipt.exchangeRate ?? (receipt.amount > 0 ? receipt.amountINR / receipt.amount : 0),
+                bookedINR: receipt.amountINR,
+                currentRate: quote.rate,
+                revaluedINR,
+                gainLossINR: revaluedINR - receipt.amountINR,
+            }];
+        });
+
+        const byCurrency = Array.from(quotes.values()).map(quote => {
+            const inCurrency = rows.filter(r => r.currency === quote.currency);
+            return {
+                currency: quote.currency,
+                rate: quote.rate,
+                rateDate: quote.rateDate,
+                source: quote.source,
+                amount: inCurrency.reduce((sum, r) => sum + r.amount, 0),
+                bookedINR: inCurrency.reduce((sum, r) => sum + r.bookedINR, 0),
+                revaluedINR: inCurrency.reduce((sum, r) => sum + r.revaluedINR, 0),
+                gainLossINR: inCurrency.reduce((sum, r) => sum + r.gainLossINR, 0),
+            };
+        });
+
         return {
-            amountUSD: amount * rate,
-            rate,
+            asOf,
+            rows,
+            byCurrency,
+            missingRates,
+            totalGainLossINR: rows.reduce((sum, r) => sum + r.gainLossINR, 0),
         };
     }
 }
@@ -0,0 +1,304 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { fiscalYearRange } from '../utils/helpers.js';
+import { bookedExpenses } from './expense.service.js';
+
+interface PlanSegment {
+    start: number;
+    end: number;
+    weight: number;
+}
+
+interface ProjectEVMInput {
+    id: string;
+    code: string;
+    title: string;
+    category: string;
+    status: string;
+    progress: number;
+    startDate: Date;
+    endDate: Date;
+    vertical: { id: string; name: string; code: string };
+    milestones: Array<{ startDate: Date; endDate: Date; status: string; progress: number; updatedAt: Date }>;
+    budgets: Array<{ fiscalYear: string; amountINR: number }>;
+    expenses: Array<{ amountINR: number; invoiceDate: Date | null; createdAt: Date }>;
+}
+
+export interface EVMMetrics {
+    bac: number;   // Budget at completion
+    pv: number;    // Planned value
+    ev: number;    // Earned value
+    ac: number;    // Actual cost
+    cv: number;    // Cost variance (EV - AC)
+    sv: number;    // Schedule variance (EV - PV)
+    cpi: number | null;
+    spi: number | null;
+    eac: number;   // Estimate at completion
+    etc: number;   // Estimate to complete
+    vac: number;   // Variance at completion
+    tcpi: number | null;
+    percentPlanned: number;
+    percentComplete: number;
+}
+
+export interface EVMPoint {
+    month: string; // YYYY-MM
+    pv: number;
+    ev: number;
+    ac: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export class EVMService {
+    private readonly projectInclude = {
+        vertical: { select: { id: true, name: true, code: true } },
+        milestones: { select: { startDate: true, endDate: true, status: true, progress: true, updatedAt: true } },
+        budgets: { select: { fiscalYear: true, amountINR: true } },
+        expenses: { where: bookedExpenses, select: { amountINR: true, invoiceDate: true, createdAt: true } },
+    } satisfies Prisma.ProjectInclude;
+
+    /**
+     * Share of planned work (0..1) that should be complete at `at`, within [from, to].
+     * Milestones define the work curve when they overlap the window, otherwise
+     * the window is assumed to be worked linearly.
+     */
+    private plannedFraction(segments: PlanSegment[], from: number, to: number, at: number): number {
+        if (at <= from) return 0;
+        if (at >= to) return 1;
+
+        let total = 0;
+        let elapsed = 0;
+        for (const s of segments) {
+            const start = Math.max(s.start, from);
+            const end = Math.min(s.end, to);
+            if (end <= start) continue;
+            const rate = s.weight / (s.end - s.start);
+            total += (end - start) * rate;
+            elapsed += Math.max(0, Math.min(at, end) - start) * rate;
+        }
+
+        if (total <= 0) return (at - from) / (to - from);
+        return elapsed / total;
+    }
+
+    private milestoneSegments(project: ProjectEVMInput): PlanSegment[] {
+        return project.milestones.map(m => {
+            const start = m.startDate.getTime();
+            const end = Math.max(m.endDate.getTime(), start + DAY_MS);
+            // Milestones are weighted by planned duration
+            return { start, end, weight: (end - start) / DAY_MS };
+        });
+    }
+
+    // Planned value at `at`: each fiscal-year budget is spent along the milestone plan for that year
+    private plannedValue(project: ProjectEVMInput, segments: PlanSegment[], at: number): number {
+        const projectStart = project.startDate.getTime();
+        const projectEnd = Math.max(project.endDate.getTime(), projectStart + DAY_MS);
+
+        return project.budgets.reduce((sum, budget) => {
+            const fy = fiscalYearRange(budget.fiscalYear);
+            let from = fy ? Math.max(fy.start, projectStart) : projectStart;
+            let to = fy ? Math.min(fy.end, projectEnd) : projectEnd;
+            // Budget phased outside the project window still belongs to that fiscal year
+            if (to <= from && fy) {
+                from = fy.start;
+                to = fy.end;
+            }
+            return sum + budget.amountINR * this.plannedFraction(segments, from, to, at);
+        }, 0);
+    }
+
+    private percentComplete(project: ProjectEVMInput, segments: PlanSegment[]): number {
+        if (segments.length === 0) return clamp01((project.progress || 0) / 100);
+
+        const totalWeight = segments.reduce((sum, s) => sum + s.weight, 0);
+        const earned = project.milestones.reduce((sum, m, i) => {
+            const progress = m.status === 'COMPLETED' ? 100 : m.progress;
+            return sum + segments[i].weight * clamp01(progress / 100);
+        }, 0);
+        return totalWeight > 0 ? earned / totalWeight : 0;
+    }
+
+    // Historical EV: completed milestones count from their completion (last update) date,
+    // partial progress on open milestones is only known as of today
+    private earnedValueAt(project: ProjectEVMInput, segments: PlanSegment[], bac: number, at: number, now: number): number {
+        if (at >= now) return bac * this.percentComplete(project, segments);
+        if (segments.length === 0) return 0;
+
+        const totalWeight = segments.reduce((sum, s) => sum + s.weight, 0);
+        const earned = project.milestones.reduce((sum, m, i) => {
+            const done = m.status === 'COMPLETED' && m.updatedAt.getTime() <= at;
+            return sum + (done ? segments[i].weight : 0);
+        }, 0);
+        return totalWeight > 0 ? bac * (earned / totalWeight) : 0;
+    }
+
+    // Any as-of date from today onwards reads live milestone progress
+    private startOfToday(): number {
+        return new Date().setHours(0, 0, 0, 0);
+    }
+
+    private actualCost(project: ProjectEVMInput, at: number): number {
+        return project.expenses.reduce((sum, e) => {
+            const date = (e.invoiceDate ?? e.createdAt).getTime();
+            return date <= at ? sum + e.amountINR : sum;
+        }, 0);
+    }
+
+    deriveMetrics(bac: number, pv: number, ev: number, ac: number): EVMMetrics {
+        const cpi = ac > 0 ? ev / ac : null;
+        const spi = pv > 0 ? ev / pv : null;
+        // Without spend history the budget is the best estimate
+        const eac = cpi && cpi > 0 ? bac / cpi : bac;
+        const etc = Math.max(0, eac - ac);
+        const tcpi = bac - ac > 0 ? (bac - ev) / (bac - ac) : null;
+
+        return {
+            bac: round2(bac),
+            pv: round2(pv),
+            ev: round2(ev),
+            ac: round2(ac),
+            cv: round2(ev - ac),
+            sv: round2(ev - pv),
+            cpi: cpi !== null ? round2(cpi) : null,
+            spi: spi !== null ? round2(spi) : null,
+            eac: round2(eac),
+            etc: round2(etc),
+            vac: round2(bac - eac),
+            tcpi: tcpi !== null ? round2(tcpi) : null,
+            percentPlanned: bac > 0 ? Math.round((pv / bac) * 100) : 0,
+            percentComplete: bac > 0 ? Math.round((ev / bac) * 100) : 0,
+        };
+    }
+
+    private monthEnds(from: Date, to: Date): Date[] {
+        const months: Date[] = [];
+        const cursor = new Date(from.getFullYear(), from.getMonth() + 1, 1);
+        while (cursor.getTime() - 1 < to.getTime()) {
+            months.push(new Date(cursor.getTime() - 1));
+            cursor.setMonth(cursor.getMonth() + 1);
+        }
+        months.push(to);
+        return months;
+    }
+
+    private computeProject(project: ProjectEVMInput, asOf: Date) {
+        const at = asOf.getTime();
+        const segments = this.milestoneSegments(project);
+        const bac = project.budgets.reduce((sum, b) => sum + b.amountINR, 0);
+        const pv = this.plannedValue(project, segments, at);
+        const ev = this.earnedValueAt(project, segments, bac, at, this.startOfToday());
+        const ac = this.actualCost(project, at);
+
+        return { segments, bac, pv, ev, ac };
+    }
+
+    private timeSeries(projects: ProjectEVMInput[], from: Date, asOf: Date): EVMPoint[] {
+        const now = this.startOfToday();
+        const prepared = projects.map(p => ({
+            project: p,
+            segments: this.milestoneSegments(p),
+            bac: p.budgets.reduce((sum, b) => sum + b.amountINR, 0),
+        }));
+
+        return this.monthEnds(from, asOf).map(point => {
+            const at = point.getTime();
+            let pv = 0;
+            let ev = 0;
+            let ac = 0;
+            prepared.forEach(({ project, segments, bac }) => {
+                pv += this.plannedValue(project, segments, at);
+                ev += this.earnedValueAt(project, segments, bac, at, now);
+                ac += this.actualCost(project, at);
+            });
+            return { month: monthKey(point), pv: round2(pv), ev: round2(ev), ac: round2(ac) };
+        });
+    }
+
+    async getProjectEVM(projectId: string, asOf = new Date()) {
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            include: this.projectInclude,
+        });
+        if (!project) return null;
+
+        const { bac, pv, ev, ac } = this.computeProject(project, asOf);
+
+        return {
+            asOf,
+            project: { id: project.id, code: project.code, title: project.title },
+            metrics: this.deriveMetrics(bac, pv, ev, ac),
+            timeSeries: this.timeSeries([project], project.startDate < asOf ? project.startDate : asOf, asOf),
+        };
+    }
+
+    async getPortfolioEVM(where: Prisma.ProjectWhereInput, options: { asOf?: Date; months?: number } = {}) {
+        const asOf = options.asOf ?? new Date();
+        const months = options.months ?? 12;
+
+        const projects = await prisma.project.findMany({
+            where,
+            include: this.projectInclude,
+        });
+
+        const totals = { bac: 0, pv: 0, ev: 0, ac: 0 };
+        const byVertical = new Map<string, { vertical: { id: string; name: string; code: string }; count: number } & typeof totals>();
+        const byCategory = new Map<string, { category: string; count: number } & typeof totals>();
+
+        const projectRows = projects.map(project => {
+            const { bac, pv, ev, ac } = this.computeProject(project, asOf);
+
+            totals.bac += bac;
+            totals.pv += pv;
+            totals.ev += ev;
+            totals.ac += ac;
+
+            const vertical = byVertical.get(project.verticalId) ?? { vertical: project.vertical, count: 0, bac: 0, pv: 0, ev: 0, ac: 0 };
+            Object.assign(vertical, { count: vertical.count + 1, bac: vertical.bac + bac, pv: vertical.pv + pv, ev: vertical.ev + ev, ac: vertical.ac + ac });
+            byVertical.set(project.verticalId, vertical);
+
+            const category = byCategory.get(project.category) ?? { category: project.category, count: 0, bac: 0, pv: 0, ev: 0, ac: 0 };
+            Object.assign(category, { count: category.count + 1, bac: category.bac + bac, pv: category.pv + pv, ev: category.ev + ev, ac: category.ac + ac });
+            byCategory.set(project.category, category);
+
+            return {
+                id: project.id,
+                code: project.code,
+                title: project.title,
+                category: project.category,
+                status: project.status,
+                vertical: project.vertical.code,
+                ...this.deriveMetrics(bac, pv, ev, ac),
+            };
+        });
+
+        const from = new Date(asOf.getFullYear(), asOf.getMonth() - (months - 1), 1);
+
+        return {
+            asOf,
+            projectCount: projects.length,
+            portfolio: this.deriveMetrics(totals.bac, totals.pv, totals.ev, totals.ac),
+            byVertical: Array.from(byVertical.values()).map(v => ({
+                vertical: v.vertical,
+                projectCount: v.count,
+                ...this.deriveMetrics(v.bac, v.pv, v.ev, v.ac),
+            })),
+            byCategory: Array.from(byCategory.values()).map(c => ({
+                category: c.category,
+                projectCount: c.count,
+                ...this.deriveMetrics(c.bac, c.pv, c.ev, c.ac),
+            })),
+            projects: projectRows,
+            timeSeries: this.timeSeries(projects, from, asOf),
+        };
+    }
+}
+
+export const evmService = new EVMService();
@@ -0,0 +1,337 @@
+import { Expense, ExpenseStatus, Prisma, UserRole } from '@prisma/client';
+import prisma from '../config/database.js';
+import { getFiscalYear } from '../utils/helpers.js';
+import { approvalService } from './approval.service.js';
+import { archiveService } from './archive.service.js';
+import { currencyService, BASE_CURRENCY } from './currency.service.js';
+import { ledgerService } from './ledger.service.js';
+import { procurementService } from './procurement.service.js';
+import { projectAccessService } from './project-access.service.js';
+import { notificationService } from './notification.service.js';
+
+export class ExpenseError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'ExpenseError';
+    }
+}
+
+// Expenses that count as spent; drafts, pending and reversed ones do not
+export const BOOKED_EXPENSE_STATUSES: ExpenseStatus[] = ['APPROVED', 'PAID'];
+
+export const bookedExpenses = { status: { in: BOOKED_EXPENSE_STATUSES } } satisfies Prisma.ExpenseWhereInput;
+
+export interface ExpenseInput {
+    description: string;
+    category: string;
+    amount: number;
+    currency: string; // ISO 4217 code
+    vendor?: string;
+    invoiceNumber?: string;
+    invoiceDate?: string;
+    // Invoice against a purchase order; the expense takes the order's budget head
+    purchaseOrderId?: string | null;
+}
+
+interface Actor {
+    userId: string;
+    role: UserRole;
+}
+
+// An expense is booked in the fiscal year of its invoice
+export const expenseFiscalYear = (expense: Pick<Expense, 'invoiceDate' | 'createdAt'>) =>
+    getFiscalYear(expense.invoiceDate ?? expense.createdAt);
+
+/**
+ * Expense lifecycle: DRAFT -> SUBMITTED -> APPROVED -> PAID, with REVERSED for
+ * booked expenses that turn out to be wrong. A submitted expense is reviewed by
+ * the project's PI or a Co-PI and then by BKMD through the EXPENSE_APPROVAL
+ * workflow; BKMD approval books it in the ledger and the budget head's
+ * utilization. Bookings are never deleted, only reversed.
+ */
+export class ExpenseService {
+    async get(id: string) {
+        const expense = await prisma.expense.findUnique({
+            where: { id },
+            include: { project: { select: { code: true, title: true } } },
+        });
+        if (!expense) throw new ExpenseError('Expense not found', 404);
+        return expense;
+    }
+
+    private assertStatus(expense: Expense, allowed: ExpenseStatus[], action: string) {
+        if (!allowed.includes(expense.status)) {
+            throw new ExpenseError(`Cannot ${action} an expense that is ${expense.status.toLowerCase()}`, 409);
+        }
+    }
+
+    // Converted at the rate of the invoice date
+    private async convert(input: { amount: number; currency: string; invoiceDate?: Date | null }) {
+        const { amountINR, rate } = await currencyService.convertToINR(input.amount, input.currency, input.invoiceDate ?? new Date());
+        return { amountINR, exchangeRate: input.currency === BASE_CURRENCY ? null : rate };
+    }
+
+    async list(projectId: string, status?: ExpenseStatus) {
+        return prisma.expense.findMany({
+            where: { projectId, ...(status ? { status } : {}) },
+            include: {
+                createdBy: { select: { id: true, firstName: true, lastName: true } },
+                purchaseOrder: { select: { poNumber: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async create(projectId: string, input: ExpenseInput, userId: string) {
+        await archiveService.assertProjectWritable(projectId);
+        const order = input.purchaseOrderId ? await procurementService.assertOrderForExpense(input.purchaseOrderId, projectId) : null;
+        await currencyService.assertActive(input.currency);
+        const invoiceDate = input.invoiceDate ? new Date(input.invoiceDate) : undefined;
+
+        return prisma.expense.create({
+            data: {
+                projectId,
+                description: input.description,
+                category: order?.category ?? input.category,
+                amount: input.amount,
+                currency: input.currency,
+                ...(await this.convert({ amount: input.amount, currency: input.currency, invoiceDate })),
+                vendor: input.vendor,
+                invoiceNumber: input.invoiceNumber,
+                invoiceDate,
+                status: 'DRAFT',
+                createdById: userId,
+                purchaseOrderId: order?.id,
+            },
+        });
+    }
+
+    // Only drafts are edited; booked expenses are reversed and entered again
+    async update(id: string, input: Partial<ExpenseInput>) {
+        const expense = await this.get(id);
+        this.assertStatus(expense, ['DRAFT'], 'edit');
+
+        const amount = input.amount ?? expense.amount;
+        const currency = input.currency ?? expense.currency;
+        const invoiceDate = input.invoiceDate ? new Date(input.invoiceDate) : expense.invoiceDate;
+        if (input.currency !== undefined) await currencyService.assertActive(currency);
+        const purchaseOrderId = input.purchaseOrderId === undefined ? expense.purchaseOrderId : input.purchaseOrderId;
+        const order = purchaseOrderId ? await procurementService.assertOrderForExpense(purchaseOrderId, expense.projectId) : null;
+        const updated = await prisma.expense.update({
+            where: { id },
+            data: {
+                description: input.description,
+                category: order?.category ?? input.category,
+                purchaseOrderId,
+                amount,
+                currency,
+                ...(input.amount !== undefined || input.currency !== undefined || input.invoiceDate
+                    ? await this.convert({ amount, currency, invoiceDate })
+                    : {}),
+                vendor: input.vendor,
+                invoiceNumber: input.invoiceNumber,
+                invoiceDate: input.invoiceDate ? invoiceDate : undefined,
+            },
+        });
+        return { before: expense, expense: updated };
+    }
+
+    // Drafts never reached the books, so they may be discarded
+    async remove(id: string) {
+        const expense = await this.get(id);
+        this.assertStatus(expense, ['DRAFT'], 'delete');
+        await prisma.expense.delete({ where: { id } });
+        return expense;
+    }
+
+    async attachReceipt(id: string, receiptUrl: string) {
+        const expense = await this.get(id);
+        this.assertStatus(expense, ['DRAFT', 'SUBMITTED', 'APPROVED', 'PAID'], 'attach a receipt to');
+        return prisma.expense.update({ where: { id }, data: { receiptUrl } });
+    }
+
+    /**
+     * Sends a draft for approval. When the submitter manages the project the PI
+     * review is already done and the expense goes straight to BKMD.
+     */
+    async submit(id: string, actor: Actor) {
+        const expense = await this.get(id);
+        this.assertStatus(expense, ['DRAFT'], 'submit');
+        await archiveService.assertBudgetWritable(expense.projectId, expenseFiscalYear(expense));
+
+        const isManager = await projectAccessService.can(actor, expense.projectId, 'manage');
+        const now = new Date();
+        const submitted = await prisma.expense.update({
+            where: { id },
+            data: {
+                status: 'SUBMITTED',
+                submittedAt: now,
+                reviewComments: null,
+                piApprovedBy: isManager ? actor.userId : null,
+                piApprovedAt: isManager ? now : null,
+            },
+        });
+
+        if (isManager) {
+            await this.startWorkflow(submitted, expense.project.code);
+        } else {
+            const managers = await projectAccessService.getManagerIds(expense.projectId);
+            await Promise.all(managers.map(userId => notificationService.createNotification({
+                userId,
+                type: 'APPROVAL_REQUIRED',
+                title: 'Expense Awaiting PI Review',
+                message: `An expense of ₹${expense.amountINR.toLocaleString('en-IN')} (${expense.description}) for ${expense.project.code} needs your review.`,
+                link: `/projects/${expense.projectId}`,
+            })));
+        }
+        return submitted;
+    }
+
+    // PI / Co-PI step; approval forwards the expense to BKMD
+    async piReview(id: string, actor: Actor, approved: boolean, comments?: string) {
+        const expense = await this.get(id);
+        if (expense.status !== 'SUBMITTED' || expense.piApprovedAt) {
+            throw new ExpenseError('This expense is not awaiting PI review', 409);
+        }
+        if (expense.createdById === actor.userId) {
+            throw new ExpenseError('You cannot review an expense you recorded', 403);
+        }
+
+        if (!approved) return this.returnToDraft(id, actor.userId, comments ?? 'Rejected by the PI');
+
+        await archiveService.assertBudgetWritable(expense.projectId, expenseFiscalYear(expense));
+        const reviewed = await prisma.expense.update({
+            where: { id },
+            data: { piApprovedBy: actor.userId, piApprovedAt: new Date(), reviewComments: comments },
+        });
+        await this.startWorkflow(reviewed, expense.project.code);
+        return reviewed;
+    }
+
+    private startWorkflow(expense: Expense, projectCode: string) {
+        return approvalService.start({
+            type: 'EXPENSE_APPROVAL',
+            entityType: 'Expense',
+            entityId: expense.id,
+            requesterId: expense.createdById ?? expense.piApprovedBy!,
+            title: `Expense of ₹${expense.amountINR.toLocaleString('en-IN')} for ${projectCode}: ${expense.description}`,
+            link: `/projects/${expense.projectId}`,
+            amount: expense.amountINR,
+        });
+    }
+
+    // Rejected or returned at any step; the recorder can fix and resubmit
+    async returnToDraft(id: string, actorId: string, comments?: string) {
+        const expense = await this.get(id);
+        const updated = await prisma.expense.update({
+            where: { id },
+            data: { status: 'DRAFT', piApprovedBy: null, piApprovedAt: null, reviewComments: comments ?? null },
+        });
+
+        if (expense.createdById && expense.createdById !== actorId) {
+            await notificationService.createNotification({
+                userId: expense.createdById,
+                type: 'APPROVAL_REQUIRED',
+                title: 'Expense Returned',
+                message: `Your expense "${expense.description}" for ${expense.project.code} was returned to draft.${comments ? ' Comments: ' + comments : ''}`,
+                link: `/projects/${expense.projectId}`,
+            });
+        }
+        return updated;
+    }
+
+    // Final approval: books the expense in the ledger and against its budget head, atomically
+    async book(id: string, actorId: string) {
+        const expense = await this.get(id);
+        this.assertStatus(expense, ['SUBMITTED'], 'approve');
+        const fiscalYear = expenseFiscalYear(expense);
+        await archiveService.assertBudgetWritable(expense.projectId, fiscalYear);
+
+        return prisma.$transaction(async (tx) => {
+            // Only the approval that moves it out of SUBMITTED books it; a second one finds nothing to update
+            const { count } = await tx.expense.updateMany({
+                where: { id, status: 'SUBMITTED' },
+                data: { status: 'APPROVED', approvedBy: actorId, approvedAt: new Date() },
+            });
+            if (count === 0) throw new ExpenseError('Expense has already been booked or withdrawn', 409);
+
+            // An invoice against a purchase order is paid out of its commitment first
+            const head = { projectId: expense.projectId, fiscalYear, category: expense.category };
+            const ref = { description: expense.description, sourceType: 'Expense', sourceId: expense.id, createdById: actorId };
+            const drawn = await procurementService.drawOnOrder(tx, expense, fiscalYear);
+            if (drawn > 0) {
+                await ledgerService.recordExpense(tx, head, drawn, { ...ref, fromCommitment: true });
+            }
+            if (expense.amountINR - drawn > 0) {
+                await ledgerService.recordExpense(tx, head, expense.amountINR - drawn, ref);
+            }
+
+            const budget = await tx.budget.findFirst({
+                where: { projectId: expense.projectId, fiscalYear, category: { equals: expense.category, mode: 'insensitive' } },
+            });
+            if (budget) {
+                await tx.budget.update({ where: { id: budget.id }, data: { utilized: { increment: expense.amountINR } } });
+            }
+            return tx.expense.update({ where: { id }, data: { fromCommitmentINR: drawn } });
+        });
+    }
+
+    async markPaid(id: string, payment: { paymentReference?: string; paidAt?: string }) {
+        const expense = await this.get(id);
+        this.assertStatus(expense, ['APPROVED'], 'pay');
+        const updated = await prisma.expense.update({
+            where: { id },
+            data: {
+                status: 'PAID',
+                paidAt: payment.paidAt ? new Date(payment.paidAt) : new Date(),
+                paymentReference: payment.paymentReference,
+            },
+        });
+        return { before: expense, expense: updated };
+    }
+
+    /**
+     * Reverses a booked expense: negates its ledger postings and the budget
+     * head's utilization, and keeps the expense as REVERSED.
+     */
+    async reverse(id: string, actorId: string, reason: string) {
+        const expense = await this.get(id);
+        this.assertStatus(expense, BOOKED_EXPENSE_STATUSES, 'reverse');
+        const fiscalYear = expenseFiscalYear(expense);
+        await archiveService.assertBudgetWritable(expense.projectId, fiscalYear);
+
+        const updated = await prisma.$transaction(async (tx) => {
+            // As in book(): of two concurrent reversals only the first moves the expense out of its booked status
+            const { count: claimed } = await tx.expense.updateMany({
+                where: { id, ...bookedExpenses },
+                data: { status: 'REVERSED', reversedBy: actorId, reversedAt: new Date(), reversalReason: reason },
+            });
+            if (claimed === 0) throw new ExpenseError('Expense has already been reversed', 409);
+
+            const head = { projectId: expense.projectId, fiscalYear, category: expense.category };
+            const description = `Reversal: ${expense.description} (${reason})`;
+            const count = await ledgerService.reverse(tx, 'Expense', expense.id, { description, createdById: actorId });
+            // Expenses booked before the ledger only exist in its opening balance
+            if (count === 0) {
+                await ledgerService.recordExpense(tx, head, -expense.amountINR, {
+                    description,
+                    sourceType: 'Expense',
+                    sourceId: expense.id,
+                    createdById: actorId,
+                });
+            }
+            await procurementService.restoreOrder(tx, expense, head, actorId);
+
+            const budget = await tx.budget.findFirst({
+                where: { projectId: expense.projectId, fiscalYear, category: { equals: expense.category, mode: 'insensitive' } },
+            });
+            if (budget) {
+                await tx.budget.update({ where: { id: budget.id }, data: { utilized: { decrement: expense.amountINR } } });
+            }
+            return tx.expense.findUniqueOrThrow({ where: { id } });
+        });
+        return { before: expense, expense: updated };
+    }
+}
+
+export const expenseService = new ExpenseService();
@@ -0,0 +1,294 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { fiscalYearRange, getFiscalYear } from '../utils/helpers.js';
+import { bookedExpenses } from './expense.service.js';
+
+interface WorkSegment {
+    start: number;
+    end: number;
+    weight: number;
+}
+
+interface ProjectForecastInput {
+    id: string;
+    code: string;
+    title: string;
+    category: string;
+    status: string;
+    startDate: Date;
+    endDate: Date;
+    milestones: Array<{ startDate: Date; endDate: Date; status: string; progress: number }>;
+    expenses: Array<{ amountINR: number; invoiceDate: Date | null; createdAt: Date }>;
+}
+
+interface LedgerTotals {
+    allocatedINR: number; // Current fiscal year
+    committedINR: number;
+    budgetINR: number;    // All fiscal years
+    totalCommittedINR: number;
+}
+
+export type ForecastFlag = 'LAPSE' | 'OVERRUN';
+
+// Cumulative fiscal-year spend: the trend and milestone estimates bound the band
+export interface ForecastBand {
+    lowINR: number;
+    expectedINR: number;
+    highINR: number;
+}
+
+export interface ProjectForecast {
+    projectId: string;
+    code: string;
+    title: string;
+    category: string;
+    status: string;
+    completionDate: Date; // Project end, or later when open milestones run past it
+    burnRateINR: number;  // Average monthly spend over the trailing window
+    allocatedINR: number;
+    spentINR: number;
+    committedINR: number;
+    monthEnd: ForecastBand;
+    yearEnd: ForecastBand;
+    lapseINR: number;     // Allocation expected to be left unspent on 31 March
+    budgetINR: number;
+    totalSpentINR: number;
+    totalCommittedINR: number;
+    atCompletionINR: number; // Spend at completion if the current burn rate holds
+    overrunINR: number;
+    flags: ForecastFlag[];
+}
+
+export interface ForecastPoint {
+    month: string;            // YYYY-MM
+    actualINR: number | null; // Months already ended
+    lowINR: number | null;    // Months still to come, and the last ended month to join the lines
+    expectedINR: number | null;
+    highINR: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30.44 * DAY_MS;
+
+// Months of spend history the burn rate is averaged over
+const BURN_WINDOW_MONTHS = 6;
+
+// Share of the year's allocation that may go unspent before a lapse is flagged
+const LAPSE_TOLERANCE = 0.1;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const expenseDate = (expense: { invoiceDate: Date | null; createdAt: Date }) => (expense.invoiceDate ?? expense.createdAt).getTime();
+
+const roundBand = (band: ForecastBand): ForecastBand => ({
+    lowINR: round2(band.lowINR),
+    expectedINR: round2(band.expectedINR),
+    highINR: round2(band.highINR),
+});
+
+/**
+ * Spend forecasts for the current fiscal year and to completion. Two estimates of
+ * future spend bound each band: the trailing burn rate carried forward, and the
+ * unspent budget drawn down as the remaining milestone work is done. Open
+ * indents and orders are expected to be paid by 31 March whichever is lower.
+ */
+export class ForecastService {
+    private readonly projectInclude = {
+        milestones: { select: { startDate: true, endDate: true, status: true, progress: true } },
+        expenses: { where: bookedExpenses, select: { amountINR: true, invoiceDate: true, createdAt: true } },
+    } satisfies Prisma.ProjectInclude;
+
+    // Work left on open milestones, spread from now to their end dates
+    private remainingWork(project: ProjectForecastInput, now: number): WorkSegment[] {
+        return project.milestones
+            .filter(m => m.status !== 'COMPLETED')
+            .map(m => {
+                const start = m.startDate.getTime();
+                const end = Math.max(m.endDate.getTime(), start + DAY_MS);
+                const from = Math.max(start, now);
+                // Work left on an overdue milestone is assumed to be done over the next month
+                const to = end > from ? end : from + MONTH_MS;
+                return { start: from, end: to, weight: ((end - start) / DAY_MS) * (1 - clamp01(m.progress / 100)) };
+            })
+            .filter(s => s.weight > 0);
+    }
+
+    // Share (0..1) of the remaining work done between `from` and `to`
+    private workShare(segments: WorkSegment[], from: number, to: number): number {
+        const total = segments.reduce((sum, s) => sum + s.weight, 0);
+        if (total <= 0) return 0;
+        const done = segments.reduce((sum, s) => {
+            const overlap = Math.max(0, Math.min(to, s.end) - Math.max(from, s.start));
+            return sum + s.weight * (overlap / (s.end - s.start));
+        }, 0);
+        return done / total;
+    }
+
+    private async ledgerTotals(projectIds: string[], fiscalYear: string): Promise<Map<string, LedgerTotals>> {
+        const sums = await prisma.ledgerEntry.groupBy({
+            by: ['projectId', 'fiscalYear', 'account'],
+            where: {
+                projectId: { in: projectIds },
+                category: { not: null },
+                account: { in: ['BUDGET', 'COMMITTED', 'EXPENDITURE'] },
+            },
+            _sum: { amountINR: true },
+        });
+
+        const totals = new Map<string, LedgerTotals>();
+        for (const sum of sums) {
+            const amount = sum._sum.amountINR ?? 0;
+            const t = totals.get(sum.projectId!) ?? { allocatedINR: 0, committedINR: 0, budgetINR: 0, totalCommittedINR: 0 };
+            totals.set(sum.projectId!, t);
+
+            // A head's allocation is what is still available plus what is committed and spent
+            t.budgetINR += amount;
+            if (sum.account === 'COMMITTED') t.totalCommittedINR += amount;
+            if (sum.fiscalYear === fiscalYear) {
+                t.allocatedINR += amount;
+                if (sum.account === 'COMMITTED') t.committedINR += amount;
+            }
+        }
+        return totals;
+    }
+
+    private forecastProject(project: ProjectForecastInput, ledger: LedgerTotals | undefined, asOf: Date) {
+        const now = asOf.getTime();
+        const year = fiscalYearRange(getFiscalYear(asOf))!;
+        const totals = ledger ?? { allocatedINR: 0, committedINR: 0, budgetINR: 0, totalCommittedINR: 0 };
+
+        const segments = this.remainingWork(project, now);
+        const completion = Math.max(project.endDate.getTime(), ...segments.map(s => s.end));
+
+        const windowStart = Math.max(now - BURN_WINDOW_MONTHS * MONTH_MS, project.startDate.getTime());
+        const windowMonths = Math.max(1, (now - windowStart) / MONTH_MS);
+        const spentBetween = (from: number, to: number) => project.expenses.reduce((sum, e) => {
+            const date = expenseDate(e);
+            return date >= from && date <= to ? sum + e.amountINR : sum;
+        }, 0);
+
+        const burnRate = spentBetween(windowStart, now) / windowMonths;
+        const spent = spentBetween(year.start, now);
+        const totalSpent = project.expenses.reduce((sum, e) => sum + e.amountINR, 0);
+        const unspentBudget = Math.max(0, totals.budgetINR - totalSpent);
+
+        // Cumulative fiscal-year spend expected by `at`
+        const bandAt = (at: number): ForecastBand => {
+            const paid = totals.committedINR * clamp01((at - now) / Math.max(year.end - now, 1));
+            const estimates = [burnRate * (Math.max(0, Math.min(at, completion) - now) / MONTH_MS)];
+            if (segments.length > 0) estimates.push(unspentBudget * this.workShare(segments, now, at));
+
+            const low = Math.max(paid, Math.min(...estimates));
+            const high = Math.max(paid, Math.max(...estimates));
+            const expected = Math.max(paid, estimates.reduce((sum, e) => sum + e, 0) / estimates.length);
+            return { lowINR: spent + low, expectedINR: spent + expected, highINR: spent + high };
+        };
+
+        const monthEnd = bandAt(new Date(asOf.getFullYear(), asOf.getMonth() + 1, 1).getTime() - 1);
+        const yearEnd = bandAt(year.end);
+        const lapse = Math.max(0, totals.allocatedINR - yearEnd.expectedINR);
+
+        const atCompletion = totalSpent + Math.max(totals.totalCommittedINR, burnRate * (Math.max(0, completion - now) / MONTH_MS));
+        const overrun = totals.budgetINR > 0 ? Math.max(0, atCompletion - totals.budgetINR) : 0;
+
+        const flags: ForecastFlag[] = [];
+        if (totals.allocatedINR > 0 && lapse > totals.allocatedINR * LAPSE_TOLERANCE) flags.push('LAPSE');
+        if (overrun > 0) flags.push('OVERRUN');
+
+        const forecast: ProjectForecast = {
+            projectId: project.id,
+            code: project.code,
+            title: project.title,
+            category: project.category,
+            status: project.status,
+            completionDate: new Date(completion),
+            burnRateINR: round2(burnRate),
+            allocatedINR: round2(totals.allocatedINR),
+            spentINR: round2(spent),
+            committedINR: round2(totals.committedINR),
+            monthEnd: roundBand(monthEnd),
+            yearEnd: roundBand(yearEnd),
+            lapseINR: round2(lapse),
+            budgetINR: round2(totals.budgetINR),
+            totalSpentINR: round2(totalSpent),
+            totalCommittedINR: round2(totals.totalCommittedINR),
+            atCompletionINR: round2(atCompletion),
+            overrunINR: round2(overrun),
+            flags,
+        };
+        return { forecast, bandAt, spentBetween };
+    }
+
+    async getPortfolioForecast(where: Prisma.ProjectWhereInput, asOf = new Date()) {
+        const fiscalYear = getFiscalYear(asOf);
+        const year = fiscalYearRange(fiscalYear)!;
+        const now = asOf.getTime();
+
+        const projects = await prisma.project.findMany({
+            where,
+            include: this.projectInclude,
+        });
+        const ledger = await this.ledgerTotals(projects.map(p => p.id), fiscalYear);
+        const prepared = projects.map(p => this.forecastProject(p, ledger.get(p.id), asOf));
+
+        // Month ends of the fiscal year; ended months show actual spend, the rest the band
+        const monthEnds = Array.from({ length: 12 }, (_, i) => {
+            const start = new Date(year.start);
+            return new Date(start.getFullYear(), start.getMonth() + i + 1, 1).getTime() - 1;
+        });
+        const lastEnded = monthEnds.filter(at => at < now).pop();
+        const timeSeries: ForecastPoint[] = monthEnds.map(at => {
+            const point: ForecastPoint = { month: monthKey(new Date(at)), actualINR: null, lowINR: null, expectedINR: null, highINR: null };
+            if (at < now) {
+                point.actualINR = round2(prepared.reduce((sum, p) => sum + p.spentBetween(year.start, at), 0));
+                if (at === lastEnded) {
+                    point.lowINR = point.expectedINR = point.highINR = point.actualINR;
+                }
+                return point;
+            }
+            const band = prepared.reduce((sum, p) => {
+                const b = p.bandAt(at);
+                return { lowINR: sum.lowINR + b.lowINR, expectedINR: sum.expectedINR + b.expectedINR, highINR: sum.highINR + b.highINR };
+            }, { lowINR: 0, expectedINR: 0, highINR: 0 });
+            return { ...point, ...roundBand(band) };
+        });
+
+        const forecasts = prepared.map(p => p.forecast);
+        const sum = (pick: (f: ProjectForecast) => number) => round2(forecasts.reduce((s, f) => s + pick(f), 0));
+
+        return {
+            asOf,
+            fiscalYear,
+            projectCount: forecasts.length,
+            totals: {
+                allocatedINR: sum(f => f.allocatedINR),
+                spentINR: sum(f => f.spentINR),
+                committedINR: sum(f => f.committedINR),
+                monthEnd: {
+                    lowINR: sum(f => f.monthEnd.lowINR),
+                    expectedINR: sum(f => f.monthEnd.expectedINR),
+                    highINR: sum(f => f.monthEnd.highINR),
+                },
+                yearEnd: {
+                    lowINR: sum(f => f.yearEnd.lowINR),
+                    expectedINR: sum(f => f.yearEnd.expectedINR),
+                    highINR: sum(f => f.yearEnd.highINR),
+                },
+                lapseINR: sum(f => f.lapseINR),
+                overrunINR: sum(f => f.overrunINR),
+                lapseCount: forecasts.filter(f => f.flags.includes('LAPSE')).length,
+                overrunCount: forecasts.filter(f => f.flags.includes('OVERRUN')).length,
+            },
+            // Flagged projects first, largest exposure first
+            projects: forecasts.sort((a, b) =>
+                b.flags.length - a.flags.length || (b.lapseINR + b.overrunINR) - (a.lapseINR + a.overrunINR)),
+            timeSeries,
+        };
+    }
+}
+
+export const forecastService = new ForecastService();
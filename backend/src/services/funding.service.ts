@@ -0,0 +1,480 @@
+import { FundingInstalment, FundingInstalmentStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { formatCurrency } from '../utils/helpers.js';
+import { archiveService } from './archive.service.js';
+import { currencyService, CurrencyError, RateQuote } from './currency.service.js';
+import { notificationService } from './notification.service.js';
+import { projectAccessService } from './project-access.service.js';
+
+export class FundingError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'FundingError';
+    }
+}
+
+type Db = Prisma.TransactionClient;
+
+export interface InstalmentInput {
+    description: string;
+    amount: number;
+    dueDate?: Date | null;
+    milestoneId?: string | null;
+}
+
+export interface AgreementInput {
+    sponsorName: string;
+    referenceNumber?: string | null;
+    currency: string;
+    signedDate: Date;
+    notes?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between claim reminders while an instalment stays unclaimed
+const CLAIM_REMINDER_DAYS = 7;
+
+// Upper bound (days since due) of each receivables ageing bucket
+const AGEING_BUCKETS = [
+    { label: '0-30 days', maxDays: 30 },
+    { label: '31-60 days', maxDays: 60 },
+    { label: '61-90 days', maxDays: 90 },
+    { label: '91-180 days', maxDays: 180 },
+    { label: 'Over 180 days', maxDays: Infinity },
+];
+
+// Amounts within a paisa / cent are treated as settled
+const EPSILON = 0.005;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const instalmentInclude = {
+    milestone: { select: { id: true, title: true, status: true } },
+    receipts: { select: { id: true, amount: true, amountINR: true, transactionDate: true, description: true }, orderBy: { transactionDate: 'asc' } },
+} satisfies Prisma.FundingInstalmentInclude;
+
+const reminderInclude = {
+    agreement: { select: { sponsorName: true, currency: true } },
+    project: { select: { id: true, code: true } },
+    milestone: { select: { title: true } },
+} satisfies Prisma.FundingInstalmentInclude;
+
+type InstalmentForReminder = Prisma.FundingInstalmentGetPayload<{ include: typeof reminderInclude }>;
+
+// Status follows from what has been received, claimed and triggered
+const statusOf = (instalment: Pick<FundingInstalment, 'status' | 'amount' | 'receivedAmount' | 'claimedAt' | 'dueSince'>): FundingInstalmentStatus => {
+    if (instalment.status === 'WAIVED') return 'WAIVED';
+    if (instalment.receivedAmount >= instalment.amount - EPSILON) return 'RECEIVED';
+    if (instalment.receivedAmount > EPSILON) return 'PARTIALLY_RECEIVED';
+    if (instalment.claimedAt) return 'CLAIMED';
+    if (instalment.dueSince) return 'DUE';
+    return 'SCHEDULED';
+};
+
+const isSettled = (status: FundingInstalmentStatus) => status === 'RECEIVED' || status === 'WAIVED';
+
+/**
+ * Sponsor funding agreements and their instalment schedules. An instalment
+ * becomes claimable on its due date, or when its milestone is completed, and
+ * the PI is reminded to raise the claim; receipts recorded as CashFlow against
+ * it settle it. Outstanding claimable amounts make up the receivables ageing.
+ */
+export class FundingService {
+    // ============================================
+    // AGREEMENTS
+    // ============================================
+
+    async listAgreements(projectId: string) {
+        const agreements = await prisma.fundingAgreement.findMany({
+            where: { projectId },
+            include: {
+                createdBy: { select: { firstName: true, lastName: true } },
+                instalments: { include: instalmentInclude, orderBy: { sequence: 'asc' } },
+            },
+            orderBy: { signedDate: 'asc' },
+        });
+
+        // Expected vs received, in the agreement's currency
+        return agreements.map(agreement => {
+            const live = agreement.instalments.filter(i => i.status !== 'WAIVED');
+            const claimable = live.filter(i => i.dueSince);
+            return {
+                ...agreement,
+                summary: {
+                    totalAmount: live.reduce((sum, i) => sum + i.amount, 0),
+                    receivedAmount: agreement.instalments.reduce((sum, i) => sum + i.receivedAmount, 0),
+                    dueAmount: claimable.reduce((sum, i) => sum + i.amount, 0),
+                    outstandingAmount: claimable.reduce((sum, i) => sum + Math.max(i.amount - i.receivedAmount, 0), 0),
+                    scheduledAmount: live.filter(i => !i.dueSince).reduce((sum, i) => sum + i.amount - i.receivedAmount, 0),
+                },
+            };
+        });
+    }
+
+    async getAgreement(id: string) {
+        const agreement = await prisma.fundingAgreement.findUnique({
+            where: { id },
+            include: { instalments: { include: instalmentInclude, orderBy: { sequence: 'asc' } } },
+        });
+        if (!agreement) throw new FundingError('Funding agreement not found', 404);
+        return agreement;
+    }
+
+    async getInstalment(id: string) {
+        const instalment = await prisma.fundingInstalment.findUnique({
+            where: { id },
+            include: { ...instalmentInclude, agreement: { select: { sponsorName: true, currency: true } } },
+        });
+        if (!instalment) throw new FundingError('Instalment not found', 404);
+        return instalment;
+    }
+
+    async createAgreement(projectId: string, input: AgreementInput, instalments: InstalmentInput[], userId: string) {
+        await archiveService.assertProjectWritable(projectId);
+        await currencyService.assertActive(input.currency);
+        if (instalments.length === 0) throw new FundingError('Add at least one instalment to the schedule', 400);
+        await Promise.all(instalments.map(i => this.assertTrigger(projectId, i)));
+
+        const agreement = await prisma.fundingAgreement.create({
+            data: {
+                projectId,
+                sponsorName: input.sponsorName,
+                referenceNumber: input.referenceNumber,
+                currency: input.currency.toUpperCase(),
+                signedDate: input.signedDate,
+                notes: input.notes,
+                createdById: userId,
+                instalments: {
+                    create: instalments.map((i, index) => ({
+                        projectId,
+                        sequence: index + 1,
+                        description: i.description,
+                        amount: i.amount,
+                        dueDate: i.dueDate ?? null,
+                        milestoneId: i.milestoneId ?? null,
+                    })),
+                },
+            },
+        });
+
+        // Instalments already triggered are claimable straight away
+        await this.markClaimable({ agreementId: agreement.id, ...this.triggeredWhere(new Date()) });
+        return this.getAgreement(agreement.id);
+    }
+
+    async updateAgreement(id: string, input: Partial<AgreementInput>) {
+        const agreement = await this.getAgreement(id);
+        await archiveService.assertProjectWritable(agreement.projectId);
+
+        // Receipts are recorded in the agreement's currency
+        if (input.currency && input.currency.toUpperCase() !== agreement.currency) {
+            if (agreement.instalments.some(i => i.receivedAmount > 0)) {
+                throw new FundingError('The currency cannot change once receipts are recorded against the agreement', 409);
+            }
+            await currencyService.assertActive(input.currency);
+        }
+
+        await prisma.fundingAgreement.update({
+            where: { id },
+            data: { ...input, currency: input.currency?.toUpperCase() },
+        });
+        return this.getAgreement(id);
+    }
+
+    async deleteAgreement(id: string) {
+        const agreement = await this.getAgreement(id);
+        await archiveService.assertProjectWritable(agreement.projectId);
+        if (agreement.instalments.some(i => i.receipts.length > 0)) {
+            throw new FundingError('Receipts have been recorded against this agreement; waive the remaining instalments instead', 409);
+        }
+        await prisma.fundingAgreement.delete({ where: { id } });
+        return agreement;
+    }
+
+    // ============================================
+    // INSTALMENTS
+    // ============================================
+
+    async addInstalment(agreementId: string, input: InstalmentInput) {
+        const agreement = await this.getAgreement(agreementId);
+        await archiveService.assertProjectWritable(agreement.projectId);
+        await this.assertTrigger(agreement.projectId, input);
+
+        const created = await prisma.fundingInstalment.create({
+            data: {
+                agreementId,
+                projectId: agreement.projectId,
+                sequence: Math.max(0, ...agreement.instalments.map(i => i.sequence)) + 1,
+                description: input.description,
+                amount: input.amount,
+                dueDate: input.dueDate ?? null,
+                milestoneId: input.milestoneId ?? null,
+            },
+        });
+        await this.markClaimable({ id: created.id, ...this.triggeredWhere(new Date()) });
+        return this.getInstalment(created.id);
+    }
+
+    // Reschedules an instalment that is not yet claimed or paid
+    async updateInstalment(id: string, input: Partial<InstalmentInput>) {
+        const instalment = await this.getInstalment(id);
+        await archiveService.assertProjectWritable(instalment.projectId);
+        if (instalment.status !== 'SCHEDULED' && instalment.status !== 'DUE') {
+            throw new FundingError('Only instalments that have not been claimed or paid can be changed', 409);
+        }
+
+        const next = {
+            description: input.description ?? instalment.description,
+            amount: input.amount ?? instalment.amount,
+            dueDate: input.dueDate !== undefined ? input.dueDate : instalment.dueDate,
+            milestoneId: input.milestoneId !== undefined ? input.milestoneId : instalment.milestoneId,
+        };
+        await this.assertTrigger(instalment.projectId, next);
+
+        // A changed trigger is evaluated afresh
+        const retrigger = next.milestoneId !== instalment.milestoneId || next.dueDate?.getTime() !== instalment.dueDate?.getTime();
+        await prisma.fundingInstalment.update({
+            where: { id },
+            data: retrigger ? { ...next, dueSince: null, status: 'SCHEDULED', lastReminderAt: null } : next,
+        });
+        if (retrigger) await this.markClaimable({ id, ...this.triggeredWhere(new Date()) });
+        return this.getInstalment(id);
+    }
+
+    // The PI has sent the sponsor a claim or invoice for the instalment
+    async markClaimed(id: string, reference: string, claimedAt: Date = new Date()) {
+        const instalment = await this.getInstalment(id);
+        await archiveService.assertProjectWritable(instalment.projectId);
+        if (isSettled(instalment.status)) {
+            throw new FundingError(`This instalment is already ${instalment.status.toLowerCase()}`, 409);
+        }
+
+        const updated = { ...instalment, claimedAt, dueSince: instalment.dueSince ?? claimedAt };
+        await prisma.fundingInstalment.update({
+            where: { id },
+            data: { claimedAt, claimReference: reference, dueSince: updated.dueSince, status: statusOf(updated) },
+        });
+        return this.getInstalment(id);
+    }
+
+    async waive(id: string, reason: string) {
+        const instalment = await this.getInstalment(id);
+        await archiveService.assertProjectWritable(instalment.projectId);
+        if (instalment.status === 'RECEIVED' || instalment.status === 'WAIVED') {
+            throw new FundingError(`This instalment is already ${instalment.status.toLowerCase()}`, 409);
+        }
+
+        await prisma.fundingInstalment.update({
+            where: { id },
+            data: { status: 'WAIVED', comments: reason },
+        });
+        return this.getInstalment(id);
+    }
+
+    /**
+     * Settles an instalment with a receipt being recorded in the same
+     * transaction. The receipt must be in the agreement's currency and may not
+     * exceed what is outstanding.
+     */
+    async applyReceipt(db: Db, instalmentId: string, receipt: { projectId: string; currency: string; amount: number }) {
+        const instalment = await db.fundingInstalment.findUnique({
+            where: { id: instalmentId },
+            include: { agreement: { select: { currency: true } } },
+        });
+        if (!instalment || instalment.projectId !== receipt.projectId) {
+            throw new FundingError('Instalment not found on this project', 404);
+        }
+        if (isSettled(instalment.status)) {
+            throw new FundingError(`This instalment is already ${instalment.status.toLowerCase()}`, 409);
+        }
+        if (receipt.currency !== instalment.agreement.currency) {
+            throw new FundingError(`Receipts against this agreement must be in ${instalment.agreement.currency}`, 400);
+        }
+
+        const outstanding = instalment.amount - instalment.receivedAmount;
+        if (receipt.amount > outstanding + EPSILON) {
+            throw new FundingError(`Only ${formatCurrency(outstanding, instalment.agreement.currency)} is outstanding on this instalment`, 409);
+        }
+
+        const updated = { ...instalment, receivedAmount: instalment.receivedAmount + receipt.amount };
+        return db.fundingInstalment.update({
+            where: { id: instalmentId },
+            data: { receivedAmount: updated.receivedAmount, status: statusOf(updated) },
+        });
+    }
+
+    // Either trigger is enough; a milestone must belong to the same project
+    private async assertTrigger(projectId: string, input: Pick<InstalmentInput, 'dueDate' | 'milestoneId'>) {
+        if (!input.dueDate && !input.milestoneId) {
+            throw new FundingError('An instalment needs a due date or a milestone', 400);
+        }
+        if (input.milestoneId) {
+            const milestone = await prisma.milestone.findFirst({ where: { id: input.milestoneId, projectId }, select: { id: true } });
+            if (!milestone) throw new FundingError('Milestone not found on this project', 400);
+        }
+    }
+
+    // ============================================
+    // CLAIM REMINDERS
+    // ============================================
+
+    // Milestone-linked instalments wait for the milestone; the rest for their date
+    private triggeredWhere(now: Date): Prisma.FundingInstalmentWhereInput {
+        return {
+            OR: [
+                { milestoneId: null, dueDate: { lt: new Date(startOfDay(now).getTime() + DAY_MS) } },
+                { milestone: { status: 'COMPLETED' } },
+            ],
+        };
+    }
+
+    // Marks triggered instalments claimable and reminds the PI; returns how many
+    private async markClaimable(where: Prisma.FundingInstalmentWhereInput): Promise<number> {
+        const instalments = await prisma.fundingInstalment.findMany({
+            where: { ...where, dueSince: null, status: { notIn: ['RECEIVED', 'WAIVED'] } },
+            include: reminderInclude,
+        });
+
+        const now = new Date();
+        for (const instalment of instalments) {
+            await prisma.fundingInstalment.update({
+                where: { id: instalment.id },
+                data: { dueSince: now, status: statusOf({ ...instalment, dueSince: now }) },
+            });
+            if (!instalment.claimedAt) await this.remindClaim(instalment);
+        }
+        return instalments.length;
+    }
+
+    async milestoneCompleted(milestoneId: string): Promise<number> {
+        return this.markClaimable({ milestoneId });
+    }
+
+    private async remindClaim(instalment: InstalmentForReminder) {
+        const amount = formatCurrency(instalment.amount - instalment.receivedAmount, instalment.agreement.currency);
+        const trigger = instalment.milestone ? ` now that milestone "${instalment.milestone.title}" is complete` : '';
+        const managers = await projectAccessService.getManagerIds(instalment.projectId);
+
+        await Promise.all(managers.map(userId => notificationService.createNotification({
+            userId,
+            type: 'DEADLINE_ALERT',
+            title: '🧾 Raise Sponsor Claim',
+            message: `Instalment ${instalment.sequence} (${amount}) from ${instalment.agreement.sponsorName} for ${instalment.project.code} can be claimed${trigger}. Raise the claim with the sponsor and record it in the portal.`,
+            link: `/projects/${instalment.projectId}`,
+            sendEmail: true,
+        })));
+        await prisma.fundingInstalment.update({
+            where: { id: instalment.id },
+            data: { lastReminderAt: new Date() },
+        });
+    }
+
+    // Daily: flags instalments whose date has come, and repeats unclaimed reminders
+    async checkClaims(): Promise<Record<string, number>> {
+        const now = new Date();
+        const nowDue = await this.markClaimable(this.triggeredWhere(now));
+
+        const unclaimed = await prisma.fundingInstalment.findMany({
+            where: {
+                status: 'DUE',
+                lastReminderAt: { lt: new Date(now.getTime() - CLAIM_REMINDER_DAYS * DAY_MS) },
+                project: { status: 'ACTIVE' },
+            },
+            include: reminderInclude,
+        });
+        for (const instalment of unclaimed) {
+            await this.remindClaim(instalment);
+        }
+
+        return { nowDue, reminders: unclaimed.length };
+    }
+
+    // ============================================
+    // RECEIVABLES
+    // ============================================
+
+    /**
+     * Claimable instalments not yet fully received on `asOf`, aged from the day
+     * they became claimable and valued in INR at that day's rate. Currencies
+     * without a rate are listed and left out of the INR totals.
+     */
+    async receivables(asOf: Date = new Date(), projectId?: string) {
+        const day = startOfDay(asOf);
+        const instalments = await prisma.fundingInstalment.findMany({
+            where: {
+                status: { in: ['DUE', 'CLAIMED', 'PARTIALLY_RECEIVED'] },
+                dueSince: { lt: new Date(day.getTime() + DAY_MS) },
+                ...(projectId ? { projectId } : {}),
+            },
+            include: {
+                agreement: { select: { sponsorName: true, referenceNumber: true, currency: true } },
+                project: { select: { id: true, code: true, title: true } },
+                milestone: { select: { title: true } },
+            },
+            orderBy: { dueSince: 'asc' },
+        });
+
+        const quotes = new Map<string, RateQuote>();
+        const missingRates: string[] = [];
+        for (const code of new Set(instalments.map(i => i.agreement.currency))) {
+            try {
+                quotes.set(code, await currencyService.rateToINR(code, day));
+            } catch (error) {
+                if (!(error instanceof CurrencyError)) throw error;
+                missingRates.push(code);
+            }
+        }
+
+        const rows = instalments.map(instalment => {
+            const ageDays = Math.max(0, Math.round((day.getTime() - startOfDay(instalment.dueSince!).getTime()) / DAY_MS));
+            const outstanding = instalment.amount - instalment.receivedAmount;
+            const quote = quotes.get(instalment.agreement.currency);
+            return {
+                id: instalment.id,
+                project: instalment.project,
+                sponsorName: instalment.agreement.sponsorName,
+                referenceNumber: instalment.agreement.referenceNumber,
+                sequence: instalment.sequence,
+                description: instalment.description,
+                milestone: instalment.milestone?.title ?? null,
+                status: instalment.status,
+                dueSince: instalment.dueSince,
+                claimedAt: instalment.claimedAt,
+                claimReference: instalment.claimReference,
+                currency: instalment.agreement.currency,
+                amount: instalment.amount,
+                receivedAmount: instalment.receivedAmount,
+                outstanding,
+                outstandingINR: quote ? outstanding * quote.rate : null,
+                ageDays,
+                bucket: AGEING_BUCKETS.find(b => ageDays <= b.maxDays)!.label,
+            };
+        });
+
+        const valued = rows.filter(r => r.outstandingINR !== null);
+        const sum = (list: typeof rows) => list.reduce((total, r) => total + (r.outstandingINR ?? 0), 0);
+
+        return {
+            asOf: day,
+            rows,
+            buckets: AGEING_BUCKETS.map(b => {
+                const inBucket = valued.filter(r => r.bucket === b.label);
+                return { label: b.label, count: inBucket.length, outstandingINR: sum(inBucket) };
+            }),
+            bySponsor: Array.from(new Set(rows.map(r => r.sponsorName))).map(sponsorName => {
+                const ofSponsor = valued.filter(r => r.sponsorName === sponsorName);
+                return {
+                    sponsorName,
+                    count: ofSponsor.length,
+                    outstandingINR: sum(ofSponsor),
+                    oldestDays: Math.max(0, ...ofSponsor.map(r => r.ageDays)),
+                };
+            }).sort((a, b) => b.outstandingINR - a.outstandingINR),
+            missingRates,
+            totalOutstandingINR: sum(valued),
+        };
+    }
+}
+
+export const fundingService = new FundingService();
@@ -0,0 +1,939 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Invoice, InvoiceStatus, Prisma, QuotationStatus, WorkOrderStatus } from '@prisma/client';
+import config from '../config/index.js';
+import prisma from '../config/database.js';
+import { calculateFileHash, fiscalYearRange, getFiscalYear, lockKey } from '../utils/helpers.js';
+import { archiveService } from './archive.service.js';
+import { ledgerService } from './ledger.service.js';
+import { pdfService, formatDate, PdfSection } from './pdf.service.js';
+
+export class InvoicingError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'InvoicingError';
+    }
+}
+
+type Db = Prisma.TransactionClient;
+
+export interface ClientInput {
+    name: string;
+    gstin?: string | null;
+    pan?: string | null;
+    stateCode: string;
+    address?: string | null;
+    contactName?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    isActive?: boolean;
+}
+
+export interface QuotationInput {
+    clientId: string;
+    title: string;
+    scope?: string | null;
+    amountINR: number;
+    validUntil?: Date | null;
+}
+
+export interface WorkOrderInput {
+    clientId: string;
+    quotationId?: string | null;
+    orderNumber: string;
+    orderDate: Date;
+    valueINR: number;
+    notes?: string | null;
+}
+
+export interface InvoiceLineInput {
+    description: string;
+    sac?: string;
+    quantity: number;
+    rate: number;
+}
+
+export interface InvoiceInput {
+    clientId: string;
+    workOrderId?: string | null;
+    lines: InvoiceLineInput[];
+    gstRate?: number;
+    notes?: string | null;
+}
+
+export interface PaymentInput {
+    receivedDate: Date;
+    amountINR: number;
+    tdsINR: number;
+    tdsSection?: string | null;
+    reference?: string | null;
+}
+
+export interface CreditNoteInput {
+    taxableINR: number;
+    reason: string;
+    noteDate: Date;
+}
+
+interface InvoiceLine {
+    description: string;
+    sac: string;
+    quantity: number;
+    rate: number;
+    amount: number;
+}
+
+interface TaxSplit {
+    cgstINR: number;
+    sgstINR: number;
+    igstINR: number;
+    totalINR: number;
+}
+
+// Only consultancy and sponsored testing work is billed to clients
+const BILLABLE_CATEGORIES = ['CNP', 'STS'];
+
+// Quotation statuses each status may move to
+const QUOTATION_TRANSITIONS: Record<QuotationStatus, QuotationStatus[]> = {
+    DRAFT: ['SENT', 'ACCEPTED', 'DECLINED'],
+    SENT: ['ACCEPTED', 'DECLINED'],
+    ACCEPTED: [],
+    DECLINED: [],
+};
+
+// Amounts within a paisa are treated as settled
+const EPSILON = 0.005;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const projectSelect = { select: { id: true, code: true, title: true, category: true } } as const;
+
+const invoiceInclude = {
+    client: true,
+    project: projectSelect,
+    workOrder: { select: { id: true, orderNumber: true, orderDate: true } },
+    creditNotes: { orderBy: { noteDate: 'asc' } },
+    payments: { orderBy: { receivedDate: 'asc' } },
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceWithParties = Prisma.InvoiceGetPayload<{ include: typeof invoiceInclude }>;
+
+const outstandingOf = (invoice: Pick<Invoice, 'totalINR' | 'creditedINR' | 'receivedINR' | 'tdsINR'>) =>
+    round2(invoice.totalINR - invoice.creditedINR - invoice.receivedINR - invoice.tdsINR);
+
+// Status follows from what has been paid, deducted and credited
+const statusOf = (invoice: Pick<Invoice, 'status' | 'totalINR' | 'creditedINR' | 'receivedINR' | 'tdsINR'>): InvoiceStatus => {
+    if (invoice.status === 'DRAFT') return 'DRAFT';
+    if (invoice.creditedINR >= invoice.totalINR - EPSILON) return 'CANCELLED';
+    if (outstandingOf(invoice) <= EPSILON) return 'PAID';
+    if (invoice.receivedINR + invoice.tdsINR > EPSILON) return 'PARTIALLY_PAID';
+    return 'ISSUED';
+};
+
+// Sequential within the fiscal year, as GST requires of invoice numbers
+const documentNumber = (prefix: string, fiscalYear: string, sequence: number) =>
+    `${prefix}/${fiscalYear}/${sequence.toString().padStart(4, '0')}`;
+
+/**
+ * Consultancy billing for CNP and STS projects: a client master, quotations,
+ * the client's work orders, GST tax invoices and credit notes rendered as
+ * INVOICE Documents, and payments received net of TDS. Each payment is posted
+ * to the project as a CashFlow receipt and a ledger RECEIPT.
+ */
+export class InvoicingService {
+    // ============================================
+    // CLIENTS
+    // ============================================
+
+    async listClients(includeInactive = false) {
+        return prisma.client.findMany({
+            where: includeInactive ? undefined : { isActive: true },
+            orderBy: { name: 'asc' },
+        });
+    }
+
+    async getClient(id: string) {
+        const client = await prisma.client.findUnique({ where: { id } });
+        if (!client) throw new InvoicingError('Client not found', 404);
+        return client;
+    }
+
+    async saveClient(id: string | undefined, input: ClientInput) {
+        const clash = await prisma.client.findFirst({
+            where: { name: { equals: input.name, mode: 'insensitive' }, id: id ? { not: id } : undefined },
+            select: { id: true },
+        });
+        if (clash) throw new InvoicingError(`A client named "${input.name}" already exists`, 409);
+
+        const data = { ...input, gstin: input.gstin?.toUpperCase(), pan: input.pan?.toUpperCase() };
+        if (!id) return prisma.client.create({ data });
+
+        await this.getClient(id);
+        return prisma.client.update({ where: { id }, data });
+    }
+
+    // ============================================
+    // PROJECT BOOK
+    // ============================================
+
+    // Quotations, work orders and invoices of one project
+    async projectBook(projectId: string) {
+        const [quotations, workOrders, invoices] = await Promise.all([
+            prisma.quotation.findMany({
+                where: { projectId },
+                include: { client: { select: { id: true, name: true } } },
+                orderBy: { createdAt: 'desc' },
+            }),
+            prisma.workOrder.findMany({
+                where: { projectId },
+                include: {
+                    client: { select: { id: true, name: true } },
+                    quotation: { select: { id: true, quotationNumber: true } },
+                },
+                orderBy: { orderDate: 'desc' },
+            }),
+            prisma.invoice.findMany({
+                where: { projectId },
+                include: {
+                    client: { select: { id: true, name: true, gstin: true, stateCode: true } },
+                    workOrder: { select: { id: true, orderNumber: true } },
+                    document: { select: { id: true, fileName: true } },
+                    creditNotes: { include: { document: { select: { id: true, fileName: true } } }, orderBy: { noteDate: 'asc' } },
+                    payments: { orderBy: { receivedDate: 'asc' } },
+                },
+                orderBy: { createdAt: 'desc' },
+            }),
+        ]);
+
+        const issued = invoices.filter(i => i.status !== 'DRAFT');
+        return {
+            quotations,
+            workOrders,
+            invoices: invoices.map(i => ({ ...i, outstandingINR: i.status === 'DRAFT' ? 0 : outstandingOf(i) })),
+            summary: {
+                orderValueINR: workOrders.filter(w => w.status !== 'CANCELLED').reduce((sum, w) => sum + w.valueINR, 0),
+                invoicedINR: round2(issued.reduce((sum, i) => sum + i.totalINR - i.creditedINR, 0)),
+                receivedINR: round2(issued.reduce((sum, i) => sum + i.receivedINR, 0)),
+                tdsINR: round2(issued.reduce((sum, i) => sum + i.tdsINR, 0)),
+                outstandingINR: round2(issued.reduce((sum, i) => sum + outstandingOf(i), 0)),
+            },
+        };
+    }
+
+    // ============================================
+    // QUOTATIONS & WORK ORDERS
+    // ============================================
+
+    async getQuotation(id: string) {
+        const quotation = await prisma.quotation.findUnique({ where: { id }, include: { client: { select: { id: true, name: true } } } });
+        if (!quotation) throw new InvoicingError('Quotation not found', 404);
+        return quotation;
+    }
+
+    async createQuotation(projectId: string, input: QuotationInput, userId: string) {
+        await this.assertBillable(projectId);
+        await this.assertActiveClient(input.clientId);
+
+        const fiscalYear = getFiscalYear(new Date());
+        return prisma.$transaction(async (tx) => {
+            await lockKey(tx, `quotation:${fiscalYear}`);
+            const sequence = (await tx.quotation.count({ where: { quotationNumber: { startsWith: `QT/${fiscalYear}/` } } })) + 1;
+
+            return tx.quotation.create({
+                data: {
+                    ...input,
+                    quotationNumber: documentNumber('QT', fiscalYear, sequence),
+                    projectId,
+                    createdById: userId,
+                },
+                include: { client: { select: { id: true, name: true } } },
+            });
+        });
+    }
+
+    // Terms can change until the client answers; the status only moves forward
+    async updateQuotation(id: string, input: Partial<QuotationInput> & { status?: QuotationStatus }) {
+        const quotation = await this.getQuotation(id);
+        await archiveService.assertProjectWritable(quotation.projectId);
+
+        const { status, ...terms } = input;
+        if (Object.keys(terms).length > 0 && quotation.status !== 'DRAFT' && quotation.status !== 'SENT') {
+            throw new InvoicingError(`A quotation that is ${quotation.status.toLowerCase()} cannot be changed`, 409);
+        }
+        if (status && status !== quotation.status && !QUOTATION_TRANSITIONS[quotation.status].includes(status)) {
+            throw new InvoicingError(`A ${quotation.status.toLowerCase()} quotation cannot be marked ${status.toLowerCase()}`, 409);
+        }
+        if (terms.clientId && terms.clientId !== quotation.clientId) await this.assertActiveClient(terms.clientId);
+
+        return prisma.quotation.update({
+            where: { id },
+            data: { ...terms, status },
+            include: { client: { select: { id: true, name: true } } },
+        });
+    }
+
+    async getWorkOrder(id: string) {
+        const workOrder = await prisma.workOrder.findUnique({ where: { id } });
+        if (!workOrder) throw new InvoicingError('Work order not found', 404);
+        return workOrder;
+    }
+
+    // Receiving the client's order accepts the quotation it answers
+    async createWorkOrder(projectId: string, input: WorkOrderInput, userId: string) {
+        await this.assertBillable(projectId);
+        await this.assertActiveClient(input.clientId);
+
+        if (input.quotationId) {
+            const quotation = await this.getQuotation(input.quotationId);
+            if (quotation.projectId !== projectId || quotation.clientId !== input.clientId) {
+                throw new InvoicingError('The quotation is for a different project or client', 400);
+            }
+            if (quotation.status === 'DECLINED') {
+                throw new InvoicingError(`Quotation ${quotation.quotationNumber} was declined`, 409);
+            }
+        }
+
+        const duplicate = await prisma.workOrder.findUnique({
+            where: { clientId_orderNumber: { clientId: input.clientId, orderNumber: input.orderNumber } },
+            select: { id: true },
+        });
+        if (duplicate) throw new InvoicingError(`Work order ${input.orderNumber} of this client is already recorded`, 409);
+
+        return prisma.$transaction(async (tx) => {
+            if (input.quotationId) {
+                await tx.quotation.update({ where: { id: input.quotationId }, data: { status: 'ACCEPTED' } });
+            }
+            return tx.workOrder.create({
+                data: { ...input, projectId, createdById: userId },
+                include: {
+                    client: { select: { id: true, name: true } },
+                    quotation: { select: { id: true, quotationNumber: true } },
+                },
+            });
+        });
+    }
+
+    async setWorkOrderStatus(id: string, status: WorkOrderStatus) {
+        const workOrder = await this.getWorkOrder(id);
+        await archiveService.assertProjectWritable(workOrder.projectId);
+        if (status === 'CANCELLED' && workOrder.invoicedINR > EPSILON) {
+            throw new InvoicingError('Invoices have been issued against this work order; credit them before cancelling it', 409);
+        }
+        return prisma.workOrder.update({ where: { id }, data: { status } });
+    }
+
+    // ============================================
+    // INVOICES
+    // ============================================
+
+    async getInvoice(id: string): Promise<InvoiceWithParties> {
+        const invoice = await prisma.invoice.findUnique({ where: { id }, include: invoiceInclude });
+        if (!invoice) throw new InvoicingError('Invoice not found', 404);
+        return invoice;
+    }
+
+    async createInvoice(projectId: string, input: InvoiceInput, userId: string) {
+        await this.assertBillable(projectId);
+        const client = await this.assertActiveClient(input.clientId);
+        if (input.workOrderId) await this.assertWorkOrder(input.workOrderId, projectId, client.id);
+
+        const { lines, taxableINR } = this.lines(input.lines);
+        const gstRate = input.gstRate ?? config.invoicing.defaultGstRate;
+
+        const invoice = await prisma.invoice.create({
+            data: {
+                projectId,
+                clientId: client.id,
+                workOrderId: input.workOrderId ?? null,
+                lines: lines as unknown as Prisma.JsonArray,
+                taxableINR,
+                gstRate,
+                placeOfSupply: client.stateCode,
+                ...this.taxes(taxableINR, gstRate, client.stateCode),
+                notes: input.notes,
+                createdById: userId,
+            },
+        });
+        return this.getInvoice(invoice.id);
+    }
+
+    async updateInvoice(id: string, input: Partial<InvoiceInput>) {
+        const invoice = await this.getDraft(id);
+        const client = input.clientId && input.clientId !== invoice.clientId ? await this.assertActiveClient(input.clientId) : invoice.client;
+        const workOrderId = input.workOrderId !== undefined ? input.workOrderId : invoice.workOrderId;
+        if (workOrderId) await this.assertWorkOrder(workOrderId, invoice.projectId, client.id);
+
+        const { lines, taxableINR } = input.lines
+            ? this.lines(input.lines)
+            : { lines: invoice.lines as unknown as InvoiceLine[], taxableINR: invoice.taxableINR };
+        const gstRate = input.gstRate ?? invoice.gstRate;
+
+        await prisma.invoice.update({
+            where: { id },
+            data: {
+                clientId: client.id,
+                workOrderId,
+                lines: lines as unknown as Prisma.JsonArray,
+                taxableINR,
+                gstRate,
+                placeOfSupply: client.stateCode,
+                ...this.taxes(taxableINR, gstRate, client.stateCode),
+                notes: input.notes,
+            },
+        });
+        return this.getInvoice(id);
+    }
+
+    async deleteInvoice(id: string) {
+        const invoice = await this.getDraft(id);
+        await prisma.invoice.delete({ where: { id } });
+        return invoice;
+    }
+
+    /**
+     * Numbers a draft, renders the tax invoice to an INVOICE Document and draws
+     * the taxable value down from its work order. Taxes are recomputed from the
+     * client's state on the invoice date.
+     */
+    async issueInvoice(id: string, invoiceDate: Date, userId: string) {
+        const invoice = await this.getDraft(id);
+        if (!invoice.client.isActive) throw new InvoicingError(`${invoice.client.name} is no longer an active client`, 409);
+
+        if (invoice.workOrderId) {
+            const workOrder = await this.assertWorkOrder(invoice.workOrderId, invoice.projectId, invoice.clientId);
+            const headroom = round2(workOrder.valueINR - workOrder.invoicedINR);
+            if (invoice.taxableINR > headroom + EPSILON) {
+                throw new InvoicingError(`Only ${pdfService.formatINR(headroom)} of work order ${workOrder.orderNumber} remains to be invoiced`, 409);
+            }
+        }
+
+        // GST invoice numbers must run without gaps or repeats, so the number is
+        // taken under a per-year lock and the PDF rendered with it in the same
+        // transaction
+        const fiscalYear = getFiscalYear(invoiceDate);
+        await this.withRenderedFile(async (tx, render) => {
+            await lockKey(tx, `invoice:${fiscalYear}`);
+            const sequence = (await tx.invoice.count({ where: { fiscalYear, invoiceNumber: { not: null } } })) + 1;
+            const values = {
+                invoiceNumber: documentNumber('INV', fiscalYear, sequence),
+                fiscalYear,
+                invoiceDate,
+                dueDate: new Date(invoiceDate.getTime() + config.invoicing.paymentTermsDays * DAY_MS),
+                placeOfSupply: invoice.client.stateCode,
+                ...this.taxes(invoice.taxableINR, invoice.gstRate, invoice.client.stateCode),
+                status: 'ISSUED' as const,
+                documentId: crypto.randomUUID(),
+            };
+
+            const file = await render(values.invoiceNumber, values.documentId, {
+                title: 'Tax Invoice',
+                subtitle: `${invoice.project.code} · ${invoice.client.name}`,
+                toc: false,
+                meta: [
+                    { label: 'Invoice No.', value: values.invoiceNumber },
+                    { label: 'Invoice Date', value: formatDate(invoiceDate) },
+                ],
+                sections: this.invoiceSections({ ...invoice, ...values }),
+            });
+
+            await tx.document.create({
+                data: {
+                    id: values.documentId,
+                    projectId: invoice.projectId,
+                    uploadedById: userId,
+                    type: 'INVOICE',
+                    title: `Tax Invoice ${values.invoiceNumber}`,
+                    description: `Tax invoice to ${invoice.client.name} for ${pdfService.formatINR(values.totalINR)}`,
+                    mimeType: 'application/pdf',
+                    ...file,
+                },
+            });
+            await tx.invoice.update({ where: { id }, data: values });
+            if (invoice.workOrderId) {
+                await tx.workOrder.update({ where: { id: invoice.workOrderId }, data: { invoicedINR: { increment: invoice.taxableINR } } });
+            }
+        });
+        return this.getInvoice(id);
+    }
+
+    // ============================================
+    // PAYMENTS & CREDIT NOTES
+    // ============================================
+
+    /**
+     * Records money received against an issued invoice. What the client deducted
+     * as TDS settles the invoice alongside the payment; the amount received is
+     * posted to the project as a CashFlow receipt.
+     */
+    async recordPayment(invoiceId: string, input: PaymentInput, userId: string) {
+        const invoice = await this.getOpen(invoiceId);
+        const settled = round2(input.amountINR + input.tdsINR);
+        const outstanding = outstandingOf(invoice);
+        if (settled > outstanding + EPSILON) {
+            throw new InvoicingError(`Only ${pdfService.formatINR(outstanding)} is outstanding on invoice ${invoice.invoiceNumber}`, 409);
+        }
+        await archiveService.assertBudgetWritable(invoice.projectId, getFiscalYear(input.receivedDate));
+
+        await prisma.$transaction(async (tx) => {
+            const cashFlow = await tx.cashFlow.create({
+                data: {
+                    projectId: invoice.projectId,
+                    type: 'RECEIVED',
+                    source: invoice.client.name,
+                    description: `Payment against invoice ${invoice.invoiceNumber}`,
+                    amount: input.amountINR,
+                    currency: 'INR',
+                    amountINR: input.amountINR,
+                    transactionDate: input.receivedDate,
+                },
+            });
+            await ledgerService.recordReceipt(tx, invoice.projectId, getFiscalYear(input.receivedDate), input.amountINR, {
+                description: `Payment against invoice ${invoice.invoiceNumber} (${invoice.client.name})`,
+                sourceType: 'CashFlow',
+                sourceId: cashFlow.id,
+                createdById: userId,
+            });
+            await tx.clientPayment.create({
+                data: {
+                    ...input,
+                    invoiceId,
+                    projectId: invoice.projectId,
+                    clientId: invoice.clientId,
+                    cashFlowId: cashFlow.id,
+                    createdById: userId,
+                },
+            });
+            await this.settle(tx, invoice, { receivedINR: invoice.receivedINR + input.amountINR, tdsINR: invoice.tdsINR + input.tdsINR });
+        });
+        return this.getInvoice(invoiceId);
+    }
+
+    // The client's TDS certificate (Form 16A) lets the deduction be claimed
+    async recordTdsCertificate(paymentId: string, reference: string, receivedAt: Date) {
+        const payment = await prisma.clientPayment.findUnique({ where: { id: paymentId } });
+        if (!payment) throw new InvoicingError('Payment not found', 404);
+        if (payment.tdsINR <= 0) throw new InvoicingError('No tax was deducted from this payment', 400);
+
+        return prisma.clientPayment.update({
+            where: { id: paymentId },
+            data: { tdsCertificateRef: reference, tdsCertificateAt: receivedAt },
+        });
+    }
+
+    /**
+     * Issues a credit note reducing the taxable value of an invoice. GST is
+     * reversed in the same proportion as on the invoice, and the credit may not
+     * exceed what the client still owes.
+     */
+    async issueCreditNote(invoiceId: string, input: CreditNoteInput, userId: string) {
+        const invoice = await this.getOpen(invoiceId);
+        const creditedTaxable = invoice.creditNotes.reduce((sum, n) => sum + n.taxableINR, 0);
+        if (input.taxableINR > invoice.taxableINR - creditedTaxable + EPSILON) {
+            throw new InvoicingError(`Only ${pdfService.formatINR(invoice.taxableINR - creditedTaxable)} of the taxable value remains to be credited`, 409);
+        }
+
+        const share = input.taxableINR / invoice.taxableINR;
+        const gst = {
+            cgstINR: round2(invoice.cgstINR * share),
+            sgstINR: round2(invoice.sgstINR * share),
+            igstINR: round2(invoice.igstINR * share),
+        };
+        const totalINR = round2(input.taxableINR + gst.cgstINR + gst.sgstINR + gst.igstINR);
+        const outstanding = outstandingOf(invoice);
+        if (totalINR > outstanding + EPSILON) {
+            throw new InvoicingError(`Only ${pdfService.formatINR(outstanding)} is outstanding on invoice ${invoice.invoiceNumber}; a refund is outside the portal`, 409);
+        }
+
+        const fiscalYear = getFiscalYear(input.noteDate);
+        await this.withRenderedFile(async (tx, render) => {
+            await lockKey(tx, `credit-note:${fiscalYear}`);
+            const sequence = (await tx.creditNote.count({ where: { creditNoteNumber: { startsWith: `CN/${fiscalYear}/` } } })) + 1;
+            const values = {
+                creditNoteNumber: documentNumber('CN', fiscalYear, sequence),
+                invoiceId,
+                projectId: invoice.projectId,
+                clientId: invoice.clientId,
+                noteDate: input.noteDate,
+                reason: input.reason,
+                taxableINR: input.taxableINR,
+                ...gst,
+                totalINR,
+                documentId: crypto.randomUUID(),
+                createdById: userId,
+            };
+
+            const file = await render(values.creditNoteNumber, values.documentId, {
+                title: 'Credit Note',
+                subtitle: `${invoice.project.code} · ${invoice.client.name}`,
+                toc: false,
+                meta: [
+                    { label: 'Credit Note No.', value: values.creditNoteNumber },
+                    { label: 'Against Invoice', value: invoice.invoiceNumber ?? '-' },
+                ],
+                sections: this.creditNoteSections(invoice, values),
+            });
+
+            await tx.document.create({
+                data: {
+                    id: values.documentId,
+                    projectId: invoice.projectId,
+                    uploadedById: userId,
+                    type: 'INVOICE',
+                    title: `Credit Note ${values.creditNoteNumber}`,
+                    description: `Credit note against invoice ${invoice.invoiceNumber} for ${pdfService.formatINR(totalINR)}`,
+                    mimeType: 'application/pdf',
+                    ...file,
+                },
+            });
+            await tx.creditNote.create({ data: values });
+            await this.settle(tx, invoice, { creditedINR: invoice.creditedINR + totalINR });
+            if (invoice.workOrderId) {
+                await tx.workOrder.update({ where: { id: invoice.workOrderId }, data: { invoicedINR: { decrement: input.taxableINR } } });
+            }
+        });
+        return this.getInvoice(invoiceId);
+    }
+
+    private async settle(db: Db, invoice: Invoice, change: Partial<Pick<Invoice, 'creditedINR' | 'receivedINR' | 'tdsINR'>>) {
+        const next = { ...invoice, ...change };
+        await db.invoice.update({
+            where: { id: invoice.id },
+            data: { ...change, status: statusOf(next) },
+        });
+    }
+
+    // ============================================
+    // CLIENT LEDGER & TDS REGISTER
+    // ============================================
+
+    /**
+     * The client's account: invoices debit it; payments, TDS deducted and credit
+     * notes credit it. Entries before `from` are brought forward as the opening
+     * balance.
+     */
+    async clientLedger(clientId: string, range: { from?: Date; to?: Date } = {}) {
+        const client = await this.getClient(clientId);
+        const [invoices, payments, creditNotes] = await Promise.all([
+            prisma.invoice.findMany({
+                where: { clientId, invoiceNumber: { not: null } },
+                include: { project: { select: { code: true } } },
+            }),
+            prisma.clientPayment.findMany({
+                where: { clientId },
+                include: { invoice: { select: { invoiceNumber: true } }, project: { select: { code: true } } },
+            }),
+            prisma.creditNote.findMany({
+                where: { clientId },
+                include: { invoice: { select: { invoiceNumber: true } }, project: { select: { code: true } } },
+            }),
+        ]);
+
+        const entries = [
+            ...invoices.map(i => ({
+                date: i.invoiceDate!,
+                kind: 'INVOICE' as const,
+                reference: i.invoiceNumber!,
+                projectCode: i.project.code,
+                description: `Tax invoice (${pdfService.formatINR(i.taxableINR)} + GST @ ${i.gstRate}%)`,
+                debitINR: i.totalINR,
+                creditINR: 0,
+            })),
+            ...payments.flatMap(p => [
+                {
+                    date: p.receivedDate,
+                    kind: 'PAYMENT' as const,
+                    reference: p.reference ?? '-',
+                    projectCode: p.project.code,
+                    description: `Payment against ${p.invoice.invoiceNumber}`,
+                    debitINR: 0,
+                    creditINR: p.amountINR,
+                },
+                ...(p.tdsINR > 0 ? [{
+                    date: p.receivedDate,
+                    kind: 'TDS' as const,
+                    reference: p.tdsCertificateRef ?? 'Certificate awaited',
+                    projectCode: p.project.code,
+                    description: `TDS${p.tdsSection ? ` u/s ${p.tdsSection}` : ''} on ${p.invoice.invoiceNumber}`,
+                    debitINR: 0,
+                    creditINR: p.tdsINR,
+                }] : []),
+            ]),
+            ...creditNotes.map(n => ({
+                date: n.noteDate,
+                kind: 'CREDIT_NOTE' as const,
+                reference: n.creditNoteNumber,
+                projectCode: n.project.code,
+                description: `Credit note against ${n.invoice.invoiceNumber}: ${n.reason}`,
+                debitINR: 0,
+                creditINR: n.totalINR,
+            })),
+        ].sort((a, b) => a.date.getTime() - b.date.getTime() || b.debitINR - a.debitINR);
+
+        const before = range.from ? entries.filter(e => e.date < range.from!) : [];
+        const openingINR = round2(before.reduce((sum, e) => sum + e.debitINR - e.creditINR, 0));
+        const inRange = entries.filter(e => (!range.from || e.date >= range.from) && (!range.to || e.date <= range.to));
+
+        let balance = openingINR;
+        const rows = inRange.map(e => {
+            balance = round2(balance + e.debitINR - e.creditINR);
+            return { ...e, balanceINR: balance };
+        });
+
+        return {
+            client,
+            openingINR,
+            entries: rows,
+            totals: {
+                debitINR: round2(inRange.reduce((sum, e) => sum + e.debitINR, 0)),
+                creditINR: round2(inRange.reduce((sum, e) => sum + e.creditINR, 0)),
+            },
+            closingINR: balance,
+        };
+    }
+
+    // Tax deducted by clients in a fiscal year, and the certificates still awaited
+    async tdsRegister(fiscalYear: string) {
+        const range = fiscalYearRange(fiscalYear);
+        if (!range) throw new InvoicingError('Fiscal year must look like 2024-25', 400);
+
+        const payments = await prisma.clientPayment.findMany({
+            where: { tdsINR: { gt: 0 }, receivedDate: { gte: new Date(range.start), lte: new Date(range.end) } },
+            include: {
+                client: { select: { id: true, name: true, pan: true } },
+                invoice: { select: { invoiceNumber: true } },
+                project: { select: { code: true } },
+            },
+            orderBy: { receivedDate: 'asc' },
+        });
+
+        const byClient = new Map<string, { clientId: string; name: string; pan: string | null; tdsINR: number; pendingINR: number }>();
+        for (const p of payments) {
+            const entry = byClient.get(p.clientId) ?? { clientId: p.clientId, name: p.client.name, pan: p.client.pan, tdsINR: 0, pendingINR: 0 };
+            entry.tdsINR = round2(entry.tdsINR + p.tdsINR);
+            if (!p.tdsCertificateRef) entry.pendingINR = round2(entry.pendingINR + p.tdsINR);
+            byClient.set(p.clientId, entry);
+        }
+
+        return {
+            fiscalYear,
+            payments,
+            byClient: [...byClient.values()].sort((a, b) => b.tdsINR - a.tdsINR),
+            totalTdsINR: round2(payments.reduce((sum, p) => sum + p.tdsINR, 0)),
+            pendingCertificatesINR: round2(payments.filter(p => !p.tdsCertificateRef).reduce((sum, p) => sum + p.tdsINR, 0)),
+        };
+    }
+
+    // ============================================
+    // GUARDS & CALCULATION
+    // ============================================
+
+    private async assertBillable(projectId: string) {
+        await archiveService.assertProjectWritable(projectId);
+        const project = await prisma.project.findUnique({ where: { id: projectId }, select: { category: true } });
+        if (!project) throw new InvoicingError('Project not found', 404);
+        if (!BILLABLE_CATEGORIES.includes(project.category)) {
+            throw new InvoicingError('Only consultancy (CNP) and sponsored testing (STS) projects are invoiced', 400);
+        }
+    }
+
+    private async assertActiveClient(clientId: string) {
+        const client = await this.getClient(clientId);
+        if (!client.isActive) throw new InvoicingError(`${client.name} is no longer an active client`, 400);
+        return client;
+    }
+
+    private async assertWorkOrder(workOrderId: string, projectId: string, clientId: string) {
+        const workOrder = await this.getWorkOrder(workOrderId);
+        if (workOrder.projectId !== projectId || workOrder.clientId !== clientId) {
+            throw new InvoicingError('The work order is for a different project or client', 400);
+        }
+        if (workOrder.status !== 'OPEN') {
+            throw new InvoicingError(`Work order ${workOrder.orderNumber} is ${workOrder.status.toLowerCase()}`, 409);
+        }
+        return workOrder;
+    }
+
+    private async getDraft(id: string) {
+        const invoice = await this.getInvoice(id);
+        await archiveService.assertProjectWritable(invoice.projectId);
+        if (invoice.status !== 'DRAFT') {
+            throw new InvoicingError(`Invoice ${invoice.invoiceNumber} has been issued; correct it with a credit note`, 409);
+        }
+        return invoice;
+    }
+
+    private async getOpen(id: string) {
+        const invoice = await this.getInvoice(id);
+        await archiveService.assertProjectWritable(invoice.projectId);
+        if (invoice.status !== 'ISSUED' && invoice.status !== 'PARTIALLY_PAID') {
+            throw new InvoicingError(invoice.status === 'DRAFT'
+                ? 'Issue the invoice first'
+                : `Invoice ${invoice.invoiceNumber} is already ${invoice.status.toLowerCase()}`, 409);
+        }
+        return invoice;
+    }
+
+    private lines(input: InvoiceLineInput[]) {
+        if (input.length === 0) throw new InvoicingError('An invoice needs at least one line', 400);
+        const lines: InvoiceLine[] = input.map(line => ({
+            description: line.description,
+            sac: line.sac || config.invoicing.sac,
+            quantity: line.quantity,
+            rate: line.rate,
+            amount: round2(line.quantity * line.rate),
+        }));
+        return { lines, taxableINR: round2(lines.reduce((sum, line) => sum + line.amount, 0)) };
+    }
+
+    // Within the institute's state GST is split equally into CGST and SGST; otherwise IGST
+    private taxes(taxableINR: number, gstRate: number, placeOfSupply: string): TaxSplit {
+        if (placeOfSupply === config.invoicing.stateCode) {
+            const half = round2((taxableINR * gstRate) / 200);
+            return { cgstINR: half, sgstINR: half, igstINR: 0, totalINR: round2(taxableINR + 2 * half) };
+        }
+        const igstINR = round2((taxableINR * gstRate) / 100);
+        return { cgstINR: 0, sgstINR: 0, igstINR, totalINR: round2(taxableINR + igstINR) };
+    }
+
+    // ============================================
+    // PDF
+    // ============================================
+
+    private invoiceSections(invoice: InvoiceWithParties): PdfSection[] {
+        const lines = invoice.lines as unknown as InvoiceLine[];
+        return [
+            {
+                title: 'Tax Invoice',
+                blocks: [
+                    {
+                        type: 'keyValues',
+                        items: [
+                            { label: 'Invoice No.', value: invoice.invoiceNumber ?? '-' },
+                            { label: 'Invoice Date', value: formatDate(invoice.invoiceDate) },
+                            { label: 'Payment Due', value: formatDate(invoice.dueDate) },
+                            { label: 'Supplier GSTIN', value: config.invoicing.gstin || '-' },
+                            { label: 'Supplier PAN', value: config.invoicing.pan || '-' },
+                            { label: 'Project', value: `${invoice.project.code} — ${invoice.project.title}` },
+                            ...(invoice.workOrder
+                                ? [{ label: 'Work Order', value: `${invoice.workOrder.orderNumber} dated ${formatDate(invoice.workOrder.orderDate)}` }]
+                                : []),
+                        ],
+                    },
+                    { type: 'heading', text: 'Billed To' },
+                    this.clientBlock(invoice),
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: '#' },
+                            { header: 'Description', width: 4 },
+                            { header: 'SAC', width: 1.5 },
+                            { header: 'Qty', align: 'right' },
+                            { header: 'Rate', width: 1.5, align: 'right' },
+                            { header: 'Amount', width: 2, align: 'right' },
+                        ],
+                        rows: lines.map((line, index) => [index + 1, line.description, line.sac, line.quantity, this.money(line.rate), this.money(line.amount)]),
+                    },
+                    this.taxBlock(invoice, invoice.gstRate),
+                    {
+                        type: 'paragraph',
+                        text: `Payment is due within ${config.invoicing.paymentTermsDays} days of the invoice date. Please quote the invoice number ` +
+                            'with the payment, and send the TDS certificate for any tax deducted at source.',
+                        muted: true,
+                    },
+                    ...(invoice.notes ? [{ type: 'paragraph' as const, text: invoice.notes }] : []),
+                ],
+            },
+        ];
+    }
+
+    private creditNoteSections(invoice: InvoiceWithParties, note: { creditNoteNumber: string; noteDate: Date; reason: string } & TaxSplit & { taxableINR: number }): PdfSection[] {
+        return [
+            {
+                title: 'Credit Note',
+                blocks: [
+                    {
+                        type: 'keyValues',
+                        items: [
+                            { label: 'Credit Note No.', value: note.creditNoteNumber },
+                            { label: 'Date', value: formatDate(note.noteDate) },
+                            { label: 'Original Invoice', value: `${invoice.invoiceNumber} dated ${formatDate(invoice.invoiceDate)}` },
+                            { label: 'Supplier GSTIN', value: config.invoicing.gstin || '-' },
+                            { label: 'Reason', value: note.reason },
+                        ],
+                    },
+                    { type: 'heading', text: 'Issued To' },
+                    this.clientBlock(invoice),
+                    this.taxBlock({ ...note, placeOfSupply: invoice.placeOfSupply }, invoice.gstRate),
+                ],
+            },
+        ];
+    }
+
+    private clientBlock(invoice: InvoiceWithParties): PdfSection['blocks'][number] {
+        return {
+            type: 'keyValues',
+            items: [
+                { label: 'Client', value: invoice.client.name },
+                { label: 'GSTIN', value: invoice.client.gstin || 'Unregistered' },
+                { label: 'Address', value: invoice.client.address || '-' },
+                { label: 'Place of Supply', value: `State code ${invoice.placeOfSupply}` },
+            ],
+        };
+    }
+
+    private taxBlock(amounts: TaxSplit & { taxableINR: number; placeOfSupply: string }, gstRate: number): PdfSection['blocks'][number] {
+        const intraState = amounts.placeOfSupply === config.invoicing.stateCode;
+        return {
+            type: 'table',
+            columns: [{ header: 'Particulars', width: 3 }, { header: 'Amount', align: 'right' }],
+            rows: [
+                ['Taxable value', this.money(amounts.taxableINR)],
+                ...(intraState
+                    ? [[`CGST @ ${gstRate / 2}%`, this.money(amounts.cgstINR)], [`SGST @ ${gstRate / 2}%`, this.money(amounts.sgstINR)]]
+                    : [[`IGST @ ${gstRate}%`, this.money(amounts.igstINR)]]),
+                ['Total', this.money(amounts.totalINR)],
+            ],
+        };
+    }
+
+    // Invoices show paise, unlike the rounded figures of reports
+    private money(amount: number) {
+        return `${pdfService.rupee} ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+
+    /**
+     * Runs an issue inside a transaction whose PDFs are removed again if it
+     * rolls back, so a failed issue leaves no file behind for a number that
+     * was never taken.
+     */
+    private async withRenderedFile(issue: (tx: Db, render: InvoicingService['renderFile']) => Promise<void>) {
+        const written: string[] = [];
+        try {
+            await prisma.$transaction((tx) => issue(tx, async (number, documentId, definition) => {
+                const file = await this.renderFile(number, documentId, definition);
+                written.push(file.filePath);
+                return file;
+            }));
+        } catch (error) {
+            await Promise.all(written.map(filePath => fs.promises.rm(filePath, { force: true })));
+            throw error;
+        }
+    }
+
+    // The document id keeps the file name unique even if a number is reused
+    private async renderFile(number: string, documentId: string, definition: Parameters<typeof pdfService.render>[0]) {
+        const pdf = await pdfService.render(definition);
+
+        fs.mkdirSync(config.paths.invoices, { recursive: true });
+        const fileName = `${number.replace(/[^A-Za-z0-9-]+/g, '_')}_${documentId}.pdf`;
+        const filePath = path.join(config.paths.invoices, fileName);
+        await fs.promises.writeFile(filePath, pdf);
+
+        return { fileName, filePath, fileSize: pdf.length, sha256Hash: await calculateFileHash(filePath) };
+    }
+}
+
+export const invoicingService = new InvoicingService();
@@ -0,0 +1,450 @@
+import { LedgerAccount, LedgerTransactionType, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { lockKey } from '../utils/helpers.js';
+
+export class LedgerError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'LedgerError';
+    }
+}
+
+// Ledger writes take the caller's transaction client so they commit together with the record they account for
+type Db = Prisma.TransactionClient;
+
+// A budget head; category is free text and compared case-insensitively
+export interface LedgerHead {
+    projectId: string;
+    fiscalYear: string;
+    category: string;
+}
+
+export interface LedgerLeg {
+    account: LedgerAccount;
+    projectId?: string | null;
+    category?: string | null;
+    amountINR: number; // Debit positive, credit negative
+}
+
+export interface LedgerPosting {
+    type: LedgerTransactionType;
+    fiscalYear: string;
+    description: string;
+    sourceType?: string;
+    sourceId?: string;
+    createdById?: string;
+    entries: LedgerLeg[];
+}
+
+type PostingRef = Omit<LedgerPosting, 'type' | 'fiscalYear' | 'entries'>;
+
+export interface HeadBalance {
+    fiscalYear: string;
+    category: string;
+    allocatedINR: number;
+    availableINR: number;
+    committedINR: number;
+    spentINR: number;
+}
+
+export interface ReconciliationRow {
+    projectId: string;
+    projectCode: string;
+    fiscalYear: string;
+    category: string;
+    budgetAllocatedINR: number | null; // Null when no Budget row exists for the head
+    budgetUtilizedINR: number | null;
+    ledgerAllocatedINR: number;
+    ledgerSpentINR: number;
+    status: 'OK' | 'MISMATCH' | 'NO_BUDGET_ROW' | 'NOT_IN_LEDGER';
+}
+
+// Rounding tolerance for float amounts, in rupees
+const TOLERANCE = 0.01;
+
+const categoryKey = (category: string) => category.trim().toUpperCase();
+
+const headKey = (projectId: string, fiscalYear: string, category: string) => `${projectId}|${fiscalYear}|${categoryKey(category)}`;
+
+/**
+ * Append-only double-entry ledger of project money: allocations, transfers,
+ * commitments, expenses and receipts per project, category and fiscal year.
+ * Every posting is balanced and written in the same database transaction as
+ * the operation it records; balances are derived from the entries, and the
+ * Budget rows are checked against them by `reconcile`.
+ */
+export class LedgerService {
+    async post(db: Db, posting: LedgerPosting) {
+        const entries = posting.entries.filter(e => Math.abs(e.amountINR) >= TOLERANCE);
+        if (entries.length < 2) throw new LedgerError('A ledger transaction needs at least two non-zero entries', 400);
+
+        const total = entries.reduce((sum, e) => sum + e.amountINR, 0);
+        if (Math.abs(total) >= TOLERANCE) throw new LedgerError('Ledger entries must balance', 400);
+
+        return db.ledgerTransaction.create({
+            data: {
+                type: posting.type,
+                fiscalYear: posting.fiscalYear,
+                description: posting.description,
+                sourceType: posting.sourceType,
+                sourceId: posting.sourceId,
+                createdById: posting.createdById,
+                entries: {
+                    create: entries.map(e => ({
+                        account: e.account,
+                        projectId: e.projectId ?? null,
+                        category: e.category ?? null,
+                        fiscalYear: posting.fiscalYear,
+                        amountINR: e.amountINR,
+                    })),
+                },
+            },
+            include: { entries: true },
+        });
+    }
+
+    // Negative amounts revise an allocation downwards
+    allocate(db: Db, head: LedgerHead, amountINR: number, ref: PostingRef) {
+        return this.post(db, {
+            ...ref,
+            type: 'ALLOCATION',
+            fiscalYear: head.fiscalYear,
+            entries: [
+                { account: 'BUDGET', projectId: head.projectId, category: head.category, amountINR },
+                { account: 'FUNDING', projectId: head.projectId, category: head.category, amountINR: -amountINR },
+            ],
+        });
+    }
+
+    /**
+     * Moves available budget between heads. A side without both a project and a
+     * category is the institute pool, recorded on the FUNDING account.
+     */
+    transfer(
+        db: Db,
+        from: { projectId?: string; category?: string },
+        to: { projectId?: string; category?: string },
+        fiscalYear: string,
+        amountINR: number,
+        ref: PostingRef
+    ) {
+        const leg = (side: { projectId?: string; category?: string }, amount: number): LedgerLeg => ({
+            account: side.projectId && side.category ? 'BUDGET' : 'FUNDING',
+            projectId: side.projectId,
+            category: side.category,
+            amountINR: amount,
+        });
+        return this.post(db, {
+            ...ref,
+            type: 'TRANSFER',
+            fiscalYear,
+            entries: [leg(to, amountINR), leg(from, -amountINR)],
+        });
+    }
+
+    commit(db: Db, head: LedgerHead, amountINR: number, ref: PostingRef) {
+        return this.post(db, {
+            ...ref,
+            type: 'COMMITMENT',
+            fiscalYear: head.fiscalYear,
+            entries: [
+                { account: 'COMMITTED', projectId: head.projectId, category: head.category, amountINR },
+                { account: 'BUDGET', projectId: head.projectId, category: head.category, amountINR: -amountINR },
+            ],
+        });
+    }
+
+    releaseCommitment(db: Db, head: LedgerHead, amountINR: number, ref: PostingRef) {
+        return this.post(db, {
+            ...ref,
+            type: 'COMMITMENT_RELEASE',
+            fiscalYear: head.fiscalYear,
+            entries: [
+                { account: 'BUDGET', projectId: head.projectId, category: head.category, amountINR },
+                { account: 'COMMITTED', projectId: head.projectId, category: head.category, amountINR: -amountINR },
+            ],
+        });
+    }
+
+    // Paid out of available budget, or out of an earlier commitment
+    recordExpense(db: Db, head: LedgerHead, amountINR: number, ref: PostingRef & { fromCommitment?: boolean }) {
+        const { fromCommitment, ...posting } = ref;
+        return this.post(db, {
+            ...posting,
+            type: 'EXPENSE',
+            fiscalYear: head.fiscalYear,
+            entries: [
+                { account: 'EXPENDITURE', projectId: head.projectId, category: head.category, amountINR },
+                { account: fromCommitment ? 'COMMITTED' : 'BUDGET', projectId: head.projectId, category: head.category, amountINR: -amountINR },
+            ],
+        });
+    }
+
+    recordReceipt(db: Db, projectId: string, fiscalYear: string, amountINR: number, ref: PostingRef) {
+        return this.post(db, {
+            ...ref,
+            type: 'RECEIPT',
+            fiscalYear,
+            entries: [
+                { account: 'CASH', projectId, amountINR },
+                { account: 'SPONSOR', projectId, amountINR: -amountINR },
+            ],
+        });
+    }
+
+    /**
+     * Posts a negating transaction for every posting made for the source record
+     * that has not been reversed yet. Returns how many were reversed.
+     */
+    async reverse(db: Db, sourceType: string, sourceId: string, ref: Omit<PostingRef, 'sourceType' | 'sourceId'>): Promise<number> {
+        const originals = await db.ledgerTransaction.findMany({
+            where: { sourceType, sourceId, reversalOfId: null, reversals: { none: {} } },
+            include: { entries: true },
+        });
+
+        for (const original of originals) {
+            await db.ledgerTransaction.create({
+                data: {
+                    type: original.type,
+                    fiscalYear: original.fiscalYear,
+                    description: ref.description,
+                    sourceType,
+                    sourceId,
+                    createdById: ref.createdById,
+                    reversalOfId: original.id,
+                    entries: {
+                        create: original.entries.map(e => ({
+                            account: e.account,
+                            projectId: e.projectId,
+                            category: e.category,
+                            fiscalYear: e.fiscalYear,
+                            amountINR: -e.amountINR,
+                        })),
+                    },
+                },
+            });
+        }
+        return originals.length;
+    }
+
+    /**
+     * Available (uncommitted, unspent) balance of a head. Called inside the
+     * transaction that draws on it, which first takes the head's lock so two
+     * drawings cannot both see the same balance.
+     */
+    async available(db: Db, head: LedgerHead): Promise<number> {
+        await lockKey(db, `ledger:${headKey(head.projectId, head.fiscalYear, head.category)}`);
+        const sum = await db.ledgerEntry.aggregate({
+            where: {
+                projectId: head.projectId,
+                fiscalYear: head.fiscalYear,
+                category: { equals: head.category.trim(), mode: 'insensitive' },
+                account: 'BUDGET',
+            },
+            _sum: { amountINR: true },
+        });
+        return sum._sum.amountINR ?? 0;
+    }
+
+    // Balances per fiscal year and category, plus money received
+    async balances(projectId: string, fiscalYear?: string) {
+        const sums = await prisma.ledgerEntry.groupBy({
+            by: ['fiscalYear', 'category', 'account'],
+            where: { projectId, ...(fiscalYear ? { fiscalYear } : {}) },
+            _sum: { amountINR: true },
+        });
+
+        const heads = new Map<string, HeadBalance>();
+        let receivedINR = 0;
+        for (const sum of sums) {
+            const amount = sum._sum.amountINR ?? 0;
+            if (sum.account === 'CASH') receivedINR += amount;
+            if (!sum.category || !['BUDGET', 'COMMITTED', 'EXPENDITURE'].includes(sum.account)) continue;
+
+            const key = `${sum.fiscalYear}|${categoryKey(sum.category)}`;
+            const head = heads.get(key) ?? {
+                fiscalYear: sum.fiscalYear, category: categoryKey(sum.category),
+                allocatedINR: 0, availableINR: 0, committedINR: 0, spentINR: 0,
+            };
+            heads.set(key, head);
+
+            head.allocatedINR += amount;
+            if (sum.account === 'BUDGET') head.availableINR += amount;
+            if (sum.account === 'COMMITTED') head.committedINR += amount;
+            if (sum.account === 'EXPENDITURE') head.spentINR += amount;
+        }
+
+        const rows = Array.from(heads.values())
+            .sort((a, b) => b.fiscalYear.localeCompare(a.fiscalYear) || a.category.localeCompare(b.category));
+        const total = (field: keyof Omit<HeadBalance, 'fiscalYear' | 'category'>) => rows.reduce((s, r) => s + r[field], 0);
+
+        return {
+            heads: rows,
+            totals: {
+                allocatedINR: total('allocatedINR'),
+                availableINR: total('availableINR'),
+                committedINR: total('committedINR'),
+                spentINR: total('spentINR'),
+                receivedINR,
+            },
+        };
+    }
+
+    // Allocated, available, committed and spent per project, as balances() totals them
+    async totalsByProject(projectIds?: string[]): Promise<Map<string, Omit<HeadBalance, 'fiscalYear' | 'category'>>> {
+        const sums = await prisma.ledgerEntry.groupBy({
+            by: ['projectId', 'account'],
+            where: {
+                account: { in: ['BUDGET', 'COMMITTED', 'EXPENDITURE'] },
+                category: { not: null },
+                ...(projectIds ? { projectId: { in: projectIds } } : {}),
+            },
+            _sum: { amountINR: true },
+        });
+
+        const totals = new Map<string, Omit<HeadBalance, 'fiscalYear' | 'category'>>();
+        for (const sum of sums) {
+            if (!sum.projectId) continue;
+            const amount = sum._sum.amountINR ?? 0;
+            const total = totals.get(sum.projectId) ?? { allocatedINR: 0, availableINR: 0, committedINR: 0, spentINR: 0 };
+            totals.set(sum.projectId, total);
+
+            total.allocatedINR += amount;
+            if (sum.account === 'BUDGET') total.availableINR += amount;
+            if (sum.account === 'COMMITTED') total.committedINR += amount;
+            if (sum.account === 'EXPENDITURE') total.spentINR += amount;
+        }
+        return totals;
+    }
+
+    async transactions(projectId: string, options: { fiscalYear?: string; page?: number; limit?: number } = {}) {
+        const page = Math.max(options.page ?? 1, 1);
+        const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+        const where: Prisma.LedgerTransactionWhereInput = {
+            entries: { some: { projectId } },
+            ...(options.fiscalYear ? { fiscalYear: options.fiscalYear } : {}),
+        };
+
+        const [transactions, total] = await Promise.all([
+            prisma.ledgerTransaction.findMany({
+                where,
+                include: {
+                    entries: { include: { project: { select: { code: true } } } },
+                    createdBy: { select: { firstName: true, lastName: true } },
+                },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.ledgerTransaction.count({ where }),
+        ]);
+
+        return { transactions, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+    }
+
+    /**
+     * Compares every Budget row with the ledger balance of its head: allocated
+     * against amountINR and spent against utilized. Heads that exist on only one
+     * side are flagged too.
+     */
+    async reconcile(projectId?: string) {
+        const [budgets, sums, projects] = await Promise.all([
+            prisma.budget.findMany({
+                where: projectId ? { projectId } : {},
+                select: { projectId: true, fiscalYear: true, category: true, amountINR: true, utilized: true },
+            }),
+            prisma.ledgerEntry.groupBy({
+                by: ['projectId', 'fiscalYear', 'category', 'account'],
+                where: {
+                    projectId: projectId ?? { not: null },
+                    category: { not: null },
+                    account: { in: ['BUDGET', 'COMMITTED', 'EXPENDITURE'] },
+                },
+                _sum: { amountINR: true },
+            }),
+            prisma.project.findMany({
+                where: projectId ? { id: projectId } : {},
+                select: { id: true, code: true },
+            }),
+        ]);
+        const codes = new Map(projects.map(p => [p.id, p.code]));
+
+        const rows = new Map<string, ReconciliationRow>();
+        const row = (projectId: string, fiscalYear: string, category: string) => {
+            const key = headKey(projectId, fiscalYear, category);
+            const existing = rows.get(key) ?? {
+                projectId, projectCode: codes.get(projectId) ?? '-', fiscalYear, category: categoryKey(category),
+                budgetAllocatedINR: null, budgetUtilizedINR: null, ledgerAllocatedINR: 0, ledgerSpentINR: 0, status: 'OK',
+            };
+            rows.set(key, existing);
+            return existing;
+        };
+
+        for (const b of budgets) {
+            const r = row(b.projectId, b.fiscalYear, b.category);
+            r.budgetAllocatedINR = (r.budgetAllocatedINR ?? 0) + b.amountINR;
+            r.budgetUtilizedINR = (r.budgetUtilizedINR ?? 0) + b.utilized;
+        }
+        const inLedger = new Set<string>();
+        for (const sum of sums) {
+            const r = row(sum.projectId!, sum.fiscalYear, sum.category!);
+            inLedger.add(headKey(sum.projectId!, sum.fiscalYear, sum.category!));
+            const amount = sum._sum.amountINR ?? 0;
+            r.ledgerAllocatedINR += amount;
+            if (sum.account === 'EXPENDITURE') r.ledgerSpentINR += amount;
+        }
+
+        for (const [key, r] of rows) {
+            if (r.budgetAllocatedINR === null) r.status = 'NO_BUDGET_ROW';
+            else if (!inLedger.has(key)) r.status = 'NOT_IN_LEDGER';
+            else if (Math.abs(r.budgetAllocatedINR - r.ledgerAllocatedINR) >= TOLERANCE
+                || Math.abs(r.budgetUtilizedINR! - r.ledgerSpentINR) >= TOLERANCE) r.status = 'MISMATCH';
+        }
+
+        const result = Array.from(rows.values())
+            .sort((a, b) => a.projectCode.localeCompare(b.projectCode) || b.fiscalYear.localeCompare(a.fiscalYear) || a.category.localeCompare(b.category));
+
+        return {
+            rows: result,
+            summary: {
+                heads: result.length,
+                ok: result.filter(r => r.status === 'OK').length,
+                flagged: result.filter(r => r.status !== 'OK').length,
+            },
+        };
+    }
+
+    /**
+     * Posts an opening balance for every Budget head with no ledger entries yet,
+     * so budgets and spend recorded before the ledger existed are accounted for.
+     * Heads already in the ledger are left alone; run `reconcile` for those.
+     */
+    async postOpeningBalances(createdById: string): Promise<number> {
+        const { rows } = await this.reconcile();
+        const pending = rows.filter(r => r.status === 'NOT_IN_LEDGER'
+            && (Math.abs(r.budgetAllocatedINR ?? 0) >= TOLERANCE || Math.abs(r.budgetUtilizedINR ?? 0) >= TOLERANCE));
+
+        await prisma.$transaction(async (tx) => {
+            for (const r of pending) {
+                const allocated = r.budgetAllocatedINR ?? 0;
+                const spent = r.budgetUtilizedINR ?? 0;
+                await this.post(tx, {
+                    type: 'OPENING_BALANCE',
+                    fiscalYear: r.fiscalYear,
+                    description: `Opening balance for ${r.category}`,
+                    sourceType: 'Budget',
+                    createdById,
+                    entries: [
+                        { account: 'BUDGET', projectId: r.projectId, category: r.category, amountINR: allocated - spent },
+                        { account: 'EXPENDITURE', projectId: r.projectId, category: r.category, amountINR: spent },
+                        { account: 'FUNDING', projectId: r.projectId, category: r.category, amountINR: -allocated },
+                    ],
+                });
+            }
+        });
+
+        return pending.length;
+    }
+}
+
+export const ledgerService = new LedgerService();
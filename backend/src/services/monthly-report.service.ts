@@ -0,0 +1,552 @@
+import fs from 'fs';
+import path from 'path';
+import { MonthlyReport } from '@prisma/client';
+import config from '../config/index.js';
+import prisma from '../config/database.js';
+import { notificationService } from './notification.service.js';
+import { bookedExpenses } from './expense.service.js';
+import { pdfService, formatDate, PdfBlock, PdfSection } from './pdf.service.js';
+import { fiscalYearRange, getFiscalYear } from '../utils/helpers.js';
+
+export const MONTHLY_REPORT_TYPES = ['PROJECT_SUMMARY', 'FINANCIAL', 'STAFF', 'COMBINED'] as const;
+export type MonthlyReportType = typeof MONTHLY_REPORT_TYPES[number];
+
+export class MonthlyReportError extends Error {
+    constructor(message: string, public statusCode: number) {
+        super(message);
+        this.name = 'MonthlyReportError';
+    }
+}
+
+interface Period {
+    month: number;
+    year: number;
+    start: Date;
+    end: Date; // Exclusive
+    label: string;
+}
+
+const TITLES: Record<MonthlyReportType, string> = {
+    PROJECT_SUMMARY: 'Project Summary',
+    FINANCIAL: 'Financial Report',
+    STAFF: 'Staff Deployment Report',
+    COMBINED: 'Combined Monthly Report',
+};
+
+// SystemConfig key holding the comma-separated recipient list of a report type
+const recipientKey = (type: MonthlyReportType) => `monthly_report_recipients_${type}`;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const fullName = (user?: { firstName: string; lastName: string } | null) => (user ? `${user.firstName} ${user.lastName}` : '-');
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const escapeCell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+/**
+ * Builds the monthly PROJECT_SUMMARY, FINANCIAL, STAFF and COMBINED reports. Each
+ * report is stored as Markdown on the MonthlyReport row with a rendered PDF on disk,
+ * and mailed to the recipient list configured for its type.
+ */
+export class MonthlyReportService {
+    period(month: number, year: number): Period {
+        if (!Number.isInteger(month) || month < 1 || month > 12 || !Number.isInteger(year) || year < 2000 || year > 2100) {
+            throw new MonthlyReportError('Invalid report month', 400);
+        }
+        return {
+            month,
+            year,
+            start: new Date(year, month - 1, 1),
+            end: new Date(year, month, 1),
+            label: `${MONTH_NAMES[month - 1]} ${year}`,
+        };
+    }
+
+    // The month a run on `date` reports on
+    previousMonth(date: Date = new Date()): { month: number; year: number } {
+        const previous = new Date(date.getFullYear(), date.getMonth() - 1, 1);
+        return { month: previous.getMonth() + 1, year: previous.getFullYear() };
+    }
+
+    // ============================================
+    // SECTION BUILDERS
+    // ============================================
+
+    private async projectSections(period: Period): Promise<PdfSection[]> {
+        const inPeriod = { gte: period.start, lt: period.end };
+
+        const [projects, milestones] = await Promise.all([
+            prisma.project.findMany({
+                where: { status: { not: 'DRAFT' } },
+                include: {
+                    vertical: { select: { code: true } },
+                    projectHead: { select: { firstName: true, lastName: true } },
+                },
+                orderBy: { code: 'asc' },
+            }),
+            prisma.milestone.findMany({
+                where: { endDate: inPeriod },
+                include: { project: { select: { code: true } } },
+                orderBy: { endDate: 'asc' },
+            }),
+        ]);
+
+        const byStatus = new Map<string, number>();
+        projects.forEach(p => byStatus.set(p.status, (byStatus.get(p.status) ?? 0) + 1));
+
+        const active = projects.filter(p => p.status === 'ACTIVE');
+        const started = projects.filter(p => p.startDate >= period.start && p.startDate < period.end);
+        const ending = projects.filter(p => p.endDate >= period.start && p.endDate < period.end);
+        const completedMilestones = milestones.filter(m => m.status === 'COMPLETED').length;
+
+        return [
+            {
+                title: 'Portfolio Overview',
+                blocks: [
+                    {
+                        type: 'stats',
+                        items: [
+                            { label: 'Active Projects', value: String(active.length) },
+                            { label: 'Started', value: String(started.length) },
+                            { label: 'Ending', value: String(ending.length) },
+                            { label: 'Milestones Met', value: `${completedMilestones} / ${milestones.length}` },
+                        ],
+                    },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Status', width: 2 }, { header: 'Projects', align: 'right' }],
+                        rows: Array.from(byStatus.entries()).sort((a, b) => b[1] - a[1]),
+                        emptyText: 'No projects',
+                    },
+                    { type: 'heading', text: 'Projects Started This Month' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Code', width: 1.4 }, { header: 'Title', width: 3 }, { header: 'PI', width: 1.5 }, { header: 'Start' }],
+                        rows: started.map(p => [p.code, p.title, fullName(p.projectHead), formatDate(p.startDate)]),
+                        emptyText: 'No projects started this month',
+                    },
+                    { type: 'heading', text: 'Projects Ending This Month' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Code', width: 1.4 }, { header: 'Title', width: 3 }, { header: 'Status', width: 1.2 }, { header: 'Progress', align: 'right' }],
+                        rows: ending.map(p => [p.code, p.title, p.status, `${p.progress}%`]),
+                        emptyText: 'No projects ending this month',
+                    },
+                ],
+            },
+            {
+                title: 'Active Projects',
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Code', width: 1.4 },
+                            { header: 'Title', width: 3 },
+                            { header: 'Vertical', width: 0.8 },
+                            { header: 'PI', width: 1.5 },
+                            { header: 'Progress', align: 'right' },
+                            { header: 'End Date' },
+                        ],
+                        rows: active.map(p => [p.code, p.title, p.vertical?.code ?? '-', fullName(p.projectHead), `${p.progress}%`, formatDate(p.endDate)]),
+                        emptyText: 'No active projects',
+                    },
+                ],
+            },
+            {
+                title: 'Milestones Due',
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Project', width: 1.4 }, { header: 'Milestone', width: 3 }, { header: 'Due' }, { header: 'Status' }],
+                        rows: milestones.map(m => [m.project.code, m.title, formatDate(m.endDate), m.status]),
+                        emptyText: 'No milestones were due this month',
+                    },
+                ],
+            },
+        ];
+    }
+
+    private async financialSections(period: Period): Promise<PdfSection[]> {
+        const inPeriod = { gte: period.start, lt: period.end };
+        // Expenses are dated by invoice, falling back to entry date
+        const datedIn = (range: { gte: Date; lt: Date }) => ({
+            OR: [{ invoiceDate: range }, { invoiceDate: null, createdAt: range }],
+        });
+
+        const fiscalYear = getFiscalYear(period.start);
+        const fy = fiscalYearRange(fiscalYear)!;
+        const fyToDate = { gte: new Date(fy.start, 3, 1), lt: period.end };
+
+        const [expenses, fyExpenses, cashFlows] = await Promise.all([
+            prisma.expense.findMany({
+                where: { ...bookedExpenses, ...datedIn(inPeriod) },
+                include: { project: { select: { code: true, title: true } } },
+            }),
+            prisma.expense.aggregate({ where: { ...bookedExpenses, ...datedIn(fyToDate) }, _sum: { amountINR: true } }),
+            prisma.cashFlow.findMany({
+                where: { transactionDate: inPeriod },
+                include: { project: { select: { code: true } } },
+                orderBy: { transactionDate: 'asc' },
+            }),
+        ]);
+
+        const spent = expenses.reduce((sum, e) => sum + e.amountINR, 0);
+        const received = cashFlows.filter(c => c.type === 'RECEIVED');
+        const receivedTotal = received.reduce((sum, c) => sum + c.amountINR, 0);
+        const utilizedTotal = cashFlows.filter(c => c.type === 'UTILIZED').reduce((sum, c) => sum + c.amountINR, 0);
+
+        // Expense categories are free text; group case-insensitively
+        const categories = new Map<string, number>();
+        expenses.forEach(e => {
+            const key = e.category.trim().toUpperCase();
+            categories.set(key, (categories.get(key) ?? 0) + e.amountINR);
+        });
+
+        const projects = new Map<string, { code: string; title: string; amount: number; entries: number }>();
+        expenses.forEach(e => {
+            const row = projects.get(e.projectId) ?? { code: e.project.code, title: e.project.title, amount: 0, entries: 0 };
+            row.amount += e.amountINR;
+            row.entries++;
+            projects.set(e.projectId, row);
+        });
+
+        return [
+            {
+                title: 'Expenditure',
+                blocks: [
+                    {
+                        type: 'stats',
+                        items: [
+                            { label: 'Spent This Month', value: pdfService.formatLakhs(spent) },
+                            { label: `FY ${fiscalYear} To Date`, value: pdfService.formatLakhs(fyExpenses._sum.amountINR ?? 0) },
+                            { label: 'Funds Received', value: pdfService.formatLakhs(receivedTotal) },
+                            { label: 'Cash Utilized', value: pdfService.formatLakhs(utilizedTotal) },
+                        ],
+                    },
+                    { type: 'heading', text: 'By Category' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Category', width: 2 }, { header: 'Amount (INR)', width: 1.5, align: 'right' }, { header: 'Share', align: 'right' }],
+                        rows: Array.from(categories.entries())
+                            .sort((a, b) => b[1] - a[1])
+                            .map(([category, amount]) => [category, pdfService.formatINR(amount), `${percent(amount, spent)}%`]),
+                        emptyText: 'No expenses were booked this month',
+                    },
+                    { type: 'heading', text: 'By Project' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Code', width: 1.4 }, { header: 'Title', width: 3 }, { header: 'Entries', align: 'right' }, { header: 'Amount (INR)', width: 1.5, align: 'right' }],
+                        rows: Array.from(projects.values())
+                            .sort((a, b) => b.amount - a.amount)
+                            .map(p => [p.code, p.title, p.entries, pdfService.formatINR(p.amount)]),
+                        emptyText: 'No expenses were booked this month',
+                    },
+                ],
+            },
+            {
+                title: 'Cash Flow',
+                blocks: [
+                    {
+                        type: 'keyValues',
+                        items: [
+                            { label: 'Received', value: pdfService.formatINR(receivedTotal) },
+                            { label: 'Utilized', value: pdfService.formatINR(utilizedTotal) },
+                            { label: 'Net', value: pdfService.formatINR(receivedTotal - utilizedTotal) },
+                        ],
+                    },
+                    { type: 'heading', text: 'Funds Received' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Date' }, { header: 'Project', width: 1.4 }, { header: 'Source', width: 2 }, { header: 'Amount (INR)', width: 1.5, align: 'right' }],
+                        rows: received.map(c => [formatDate(c.transactionDate), c.project.code, c.source ?? '-', pdfService.formatINR(c.amountINR)]),
+                        emptyText: 'No funds were received this month',
+                    },
+                ],
+            },
+        ];
+    }
+
+    private async staffSections(period: Period): Promise<PdfSection[]> {
+        const inPeriod = { gte: period.start, lt: period.end };
+        const userSelect = { select: { id: true, firstName: true, lastName: true, designation: true } };
+        const projectSelect = { select: { code: true, vertical: { select: { code: true } } } };
+
+        const [joined, left, deployed] = await Promise.all([
+            prisma.projectStaff.findMany({
+                where: { joinedAt: inPeriod },
+                include: { user: userSelect, project: projectSelect },
+                orderBy: { joinedAt: 'asc' },
+            }),
+            prisma.projectStaff.findMany({
+                where: { leftAt: inPeriod },
+                include: { user: userSelect, project: projectSelect },
+                orderBy: { leftAt: 'asc' },
+            }),
+            // Assignments in force at month end
+            prisma.projectStaff.findMany({
+                where: {
+                    joinedAt: { lt: period.end },
+                    OR: [{ leftAt: null, isActive: true }, { leftAt: { gte: period.end } }],
+                },
+                include: { project: projectSelect },
+            }),
+        ]);
+
+        const verticals = new Map<string, { projects: Set<string>; staff: Set<string>; assignments: number }>();
+        deployed.forEach(a => {
+            const key = a.project.vertical?.code ?? '-';
+            const row = verticals.get(key) ?? { projects: new Set<string>(), staff: new Set<string>(), assignments: 0 };
+            row.projects.add(a.projectId);
+            row.staff.add(a.userId);
+            row.assignments++;
+            verticals.set(key, row);
+        });
+
+        const movementColumns = [
+            { header: 'Name', width: 1.6 },
+            { header: 'Designation', width: 1.6 },
+            { header: 'Project', width: 1.4 },
+            { header: 'Role', width: 1.2 },
+            { header: 'Date' },
+        ];
+
+        return [
+            {
+                title: 'Staff Deployment',
+                blocks: [
+                    {
+                        type: 'stats',
+                        items: [
+                            { label: 'Staff on Projects', value: String(new Set(deployed.map(a => a.userId)).size) },
+                            { label: 'Assignments', value: String(deployed.length) },
+                            { label: 'Joined', value: String(joined.length) },
+                            { label: 'Released', value: String(left.length) },
+                        ],
+                    },
+                    { type: 'heading', text: 'By Vertical' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Vertical', width: 1.5 }, { header: 'Projects', align: 'right' }, { header: 'Staff', align: 'right' }, { header: 'Assignments', align: 'right' }],
+                        rows: Array.from(verticals.entries())
+                            .sort((a, b) => b[1].assignments - a[1].assignments)
+                            .map(([code, v]) => [code, v.projects.size, v.staff.size, v.assignments]),
+                        emptyText: 'No staff deployed',
+                    },
+                ],
+            },
+            {
+                title: 'Staff Movement',
+                blocks: [
+                    { type: 'heading', text: 'Joined Projects' },
+                    {
+                        type: 'table',
+                        columns: movementColumns,
+                        rows: joined.map(a => [fullName(a.user), a.user.designation ?? '-', a.project.code, a.role ?? '-', formatDate(a.joinedAt)]),
+                        emptyText: 'No staff joined projects this month',
+                    },
+                    { type: 'heading', text: 'Released from Projects' },
+                    {
+                        type: 'table',
+                        columns: movementColumns,
+                        rows: left.map(a => [fullName(a.user), a.user.designation ?? '-', a.project.code, a.role ?? '-', formatDate(a.leftAt)]),
+                        emptyText: 'No staff were released this month',
+                    },
+                ],
+            },
+        ];
+    }
+
+    private async sections(type: MonthlyReportType, period: Period): Promise<PdfSection[]> {
+        switch (type) {
+            case 'PROJECT_SUMMARY':
+                return this.projectSections(period);
+            case 'FINANCIAL':
+                return this.financialSections(period);
+            case 'STAFF':
+                return this.staffSections(period);
+            case 'COMBINED': {
+                const [projects, finance, staff] = await Promise.all([
+                    this.projectSections(period),
+                    this.financialSections(period),
+                    this.staffSections(period),
+                ]);
+                return [...projects, ...finance, ...staff].map((section, index) => ({ ...section, newPage: index > 0 }));
+            }
+        }
+    }
+
+    // ============================================
+    // RENDERING
+    // ============================================
+
+    private blockToMarkdown(block: PdfBlock): string | null {
+        switch (block.type) {
+            case 'paragraph':
+                return block.muted ? `_${block.text}_` : block.text;
+            case 'heading':
+                return `### ${block.text}`;
+            case 'stats':
+            case 'keyValues':
+                return block.items.map(item => `- **${item.label}:** ${item.value}`).join('\n');
+            case 'table': {
+                if (block.rows.length === 0) return `_${block.emptyText ?? 'No data'}_`;
+                const header = `| ${block.columns.map(c => escapeCell(c.header)).join(' | ')} |`;
+                const divider = `| ${block.columns.map(c => (c.align === 'right' ? '---:' : '---')).join(' | ')} |`;
+                const rows = block.rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`);
+                return [header, divider, ...rows].join('\n');
+            }
+            default:
+                return null;
+        }
+    }
+
+    toMarkdown(title: string, period: Period, sections: PdfSection[]): string {
+        const parts = [`# ${title} — ${period.label}`, `_Generated ${formatDate(new Date())}_`];
+        sections.forEach(section => {
+            parts.push(`## ${section.title}`);
+            section.blocks.forEach(block => {
+                const markdown = this.blockToMarkdown(block);
+                if (markdown) parts.push(markdown);
+            });
+        });
+        return `${parts.join('\n\n')}\n`;
+    }
+
+    // ============================================
+    // GENERATION & DISTRIBUTION
+    // ============================================
+
+    // Builds (or rebuilds) one report; the row is unique per month, year and type
+    async generate(month: number, year: number, type: MonthlyReportType, options: { generatedBy?: string } = {}): Promise<MonthlyReport> {
+        const period = this.period(month, year);
+        const title = `${TITLES[type]} — ${period.label}`;
+        const sections = await this.sections(type, period);
+
+        const content = this.toMarkdown(TITLES[type], period, sections);
+        const pdf = await pdfService.render({
+            title: TITLES[type],
+            subtitle: period.label,
+            generatedBy: options.generatedBy,
+            meta: [
+                { label: 'Reporting Period', value: `${formatDate(period.start)} to ${formatDate(new Date(period.end.getTime() - 1))}` },
+                { label: 'Report Type', value: type.replace('_', ' ') },
+            ],
+            sections,
+        });
+
+        fs.mkdirSync(config.paths.monthlyReports, { recursive: true });
+        const filePath = path.join(config.paths.monthlyReports, `${year}-${String(month).padStart(2, '0')}-${type}.pdf`);
+        await fs.promises.writeFile(filePath, pdf);
+
+        return prisma.monthlyReport.upsert({
+            where: { month_year_type: { month, year, type } },
+            create: { month, year, type, title, content, filePath },
+            // A regenerated report has not been sent yet
+            update: { title, content, filePath, generatedAt: new Date(), sentToEmails: [], sentAt: null },
+        });
+    }
+
+    async getRecipients(): Promise<Record<MonthlyReportType, string[]>> {
+        const rows = await prisma.systemConfig.findMany({
+            where: { key: { in: MONTHLY_REPORT_TYPES.map(recipientKey) } },
+        });
+
+        const recipients = {} as Record<MonthlyReportType, string[]>;
+        MONTHLY_REPORT_TYPES.forEach(type => {
+            const value = rows.find(r => r.key === recipientKey(type))?.value ?? '';
+            recipients[type] = value.split(',').map(e => e.trim()).filter(Boolean);
+        });
+        return recipients;
+    }
+
+    async setRecipients(recipients: Partial<Record<MonthlyReportType, string[]>>): Promise<Record<MonthlyReportType, string[]>> {
+        for (const [type, emails] of Object.entries(recipients) as Array<[MonthlyReportType, string[]]>) {
+            const value = Array.from(new Set(emails.map(e => e.trim().toLowerCase()).filter(Boolean))).join(',');
+            await prisma.systemConfig.upsert({
+                where: { key: recipientKey(type) },
+                create: { key: recipientKey(type), value, description: `Monthly report recipients: ${type}` },
+                update: { value },
+            });
+        }
+        return this.getRecipients();
+    }
+
+    // Mails the rendered PDF; defaults to the list configured for the report's type
+    async send(reportId: string, recipients?: string[]): Promise<MonthlyReport> {
+        const report = await prisma.monthlyReport.findUnique({ where: { id: reportId } });
+        if (!report) throw new MonthlyReportError('Monthly report not found', 404);
+        if (!report.filePath || !fs.existsSync(report.filePath)) {
+            throw new MonthlyReportError('Report file is missing; regenerate the report', 409);
+        }
+
+        const to = recipients ?? (await this.getRecipients())[report.type as MonthlyReportType] ?? [];
+        if (to.length === 0) throw new MonthlyReportError(`No recipients configured for ${report.type} reports`, 400);
+
+        const sent = await notificationService.sendEmail({
+            to,
+            subject: `[CSIR-SERC] ${report.title}`,
+            html: `
+                <h2>${report.title}</h2>
+                <p>The ${report.title.toLowerCase()} is attached as a PDF.</p>
+                <p>It is also available under Reports &rarr; Monthly Reports in the portal.</p>
+            `,
+            text: report.content ?? undefined,
+            attachments: [{ filename: path.basename(report.filePath), content: await fs.promises.readFile(report.filePath), contentType: 'application/pdf' }],
+        });
+        if (!sent) throw new MonthlyReportError('Failed to send report email', 502);
+
+        return prisma.monthlyReport.update({
+            where: { id: report.id },
+            data: {
+                sentToEmails: Array.from(new Set([...report.sentToEmails, ...to])),
+                sentAt: new Date(),
+            },
+        });
+    }
+
+    // Scheduled run on the 1st: build last month's reports and mail the configured lists
+    async runScheduled(now: Date = new Date()): Promise<Record<string, number>> {
+        const { month, year } = this.previousMonth(now);
+        const recipients = await this.getRecipients();
+
+        let generated = 0;
+        let emailed = 0;
+        for (const type of MONTHLY_REPORT_TYPES) {
+            const report = await this.generate(month, year, type, { generatedBy: 'Scheduled monthly report' });
+            generated++;
+
+            if (recipients[type].length === 0) continue;
+            try {
+                await this.send(report.id, recipients[type]);
+                emailed++;
+            } catch (error) {
+                console.error(`Monthly report ${type} email failed:`, error);
+            }
+        }
+
+        return { generated, emailed };
+    }
+
+    async getHistory(filters: { year?: number; type?: MonthlyReportType } = {}) {
+        return prisma.monthlyReport.findMany({
+            where: {
+                ...(filters.year ? { year: filters.year } : {}),
+                ...(filters.type ? { type: filters.type } : {}),
+            },
+            select: {
+                id: true,
+                month: true,
+                year: true,
+                type: true,
+                title: true,
+                generatedAt: true,
+                sentToEmails: true,
+                sentAt: true,
+            },
+            orderBy: [{ year: 'desc' }, { month: 'desc' }, { type: 'asc' }],
+        });
+    }
+}
+
+export const monthlyReportService = new MonthlyReportService();
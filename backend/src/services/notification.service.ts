@@ -1,13 +1,16 @@
+import crypto from 'crypto';
 import nodemailer, { Transporter } from 'nodemailer';
 import config from '../config/index.js';
 import prisma from '../config/database.js';
-import { NotificationType } from '@prisma/client';
+import { realtimeService } from './realtime.service.js';
+import { Notification, NotificationChannel, NotificationType, Prisma } from '@prisma/client';
 
 interface EmailOptions {
     to: string | string[];
     subject: string;
     html: string;
     text?: string;
+    attachments?: Array<{ filename: string; content: Buffer | string; contentType?: string }>;
 }
 
 interface NotificationData {
@@ -16,9 +19,64 @@ interface NotificationData {
     title: string;
     message: string;
     link?: string;
-    sendEmail?: boolean;
+    sendEmail?: boolean; // Default channel when the user has no preference for this type
+    emailBody?: string; // HTML used in the email instead of `message`
 }
 
+interface Recipient {
+    email: string;
+    firstName: string;
+    isActive: boolean;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+}
+
+export interface NotificationPreferences {
+    preferences: Partial<Record<NotificationType, NotificationChannel>>;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+}
+
+const recipientSelect = {
+    email: true,
+    firstName: true,
+    isActive: true,
+    quietHoursStart: true,
+    quietHoursEnd: true,
+} as const;
+
+// Organisation-wide switches from /api/settings/notifications; a disabled type is muted for everyone
+const GLOBAL_TYPE_KEYS: Partial<Record<NotificationType, string>> = {
+    DEADLINE_ALERT: 'notify_deadlineAlerts',
+    BUDGET_WARNING: 'notify_budgetWarnings',
+    MOU_EXPIRY: 'notify_mouExpiry',
+    RC_MEETING: 'notify_rcMeetings',
+    PROJECT_UPDATE: 'notify_projectUpdates',
+    SYSTEM: 'notify_systemAlerts',
+};
+const GLOBAL_EMAIL_KEY = 'notify_emailNotifications';
+
+const toMinutes = (hhmm: string) => {
+    const [hours, minutes] = hhmm.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// End of the quiet period containing `at`, or null when `at` is outside quiet hours
+export const quietUntil = (start: string | null, end: string | null, at: Date = new Date()): Date | null => {
+    if (!start || !end || start === end) return null;
+
+    const from = toMinutes(start);
+    const to = toMinutes(end);
+    const now = at.getHours() * 60 + at.getMinutes();
+    const inside = from < to ? now >= from && now < to : now >= from || now < to;
+    if (!inside) return null;
+
+    const until = new Date(at);
+    until.setHours(Math.floor(to / 60), to % 60, 0, 0);
+    if (until <= at) until.setDate(until.getDate() + 1);
+    return until;
+};
+
 class NotificationService {
     private transporter: Transporter;
 
@@ -42,6 +100,7 @@ class NotificationService {
                 subject: options.subject,
                 html: options.html,
                 text: options.text,
+                attachments: options.attachments,
             });
             return true;
         } catch (error) {
@@ -50,9 +109,38 @@ class NotificationService {
         }
     }
 
-    async createNotification(data: NotificationData): Promise<void> {
+    // ============================================
+    // DELIVERY
+    // ============================================
+
+    // Channel for one notification: organisation switches, then the user's preference, then the sender's default
+    private async resolveDelivery(userId: string, type: NotificationType, emailByDefault: boolean) {
+        const globalKeys = [GLOBAL_EMAIL_KEY, GLOBAL_TYPE_KEYS[type]].filter((k): k is string => !!k);
+
+        const [globals, preference, user] = await Promise.all([
+            prisma.systemConfig.findMany({ where: { key: { in: globalKeys } } }),
+            prisma.notificationPreference.findUnique({ where: { userId_type: { userId, type } } }),
+            prisma.user.findUnique({ where: { id: userId }, select: recipientSelect }),
+        ]);
+
+        const disabled = (key?: string) => globals.some(g => g.key === key && g.value === 'false');
+
+        let channel: NotificationChannel = preference?.channel ?? (emailByDefault ? 'EMAIL' : 'IN_APP');
+        if (disabled(GLOBAL_TYPE_KEYS[type])) channel = 'MUTED';
+        if (disabled(GLOBAL_EMAIL_KEY) && (channel === 'EMAIL' || channel === 'DIGEST')) channel = 'IN_APP';
+
+        return { channel, user };
+    }
+
+    // Returns the in-app notification, or null when it was muted
+    async createNotification(data: NotificationData): Promise<Notification | null> {
         try {
-            // Create in-app notification
+            const { channel, user } = await this.resolveDelivery(data.userId, data.type, !!data.sendEmail);
+            if (!user || channel === 'MUTED') return null;
+
+            // Immediate emails wait out the user's quiet hours
+            const heldUntil = channel === 'EMAIL' ? quietUntil(user.quietHoursStart, user.quietHoursEnd) : null;
+
             const notification = await prisma.notification.create({
                 data: {
                     userId: data.userId,
@@ -60,35 +148,225 @@ class NotificationService {
                     title: data.title,
                     message: data.message,
                     link: data.link,
+                    emailPending: channel === 'DIGEST' || !!heldUntil,
+                    emailDueAt: heldUntil,
+                    emailBody: heldUntil ? data.emailBody : undefined,
+                    inDigest: channel === 'DIGEST',
                 },
             });
 
-            // Send email if requested
-            if (data.sendEmail) {
-                const user = await prisma.user.findUnique({
-                    where: { id: data.userId },
-                    select: { email: true, firstName: true },
-                });
+            realtimeService.notifyUser(notification);
 
-                if (user) {
-                    await this.sendEmail({
-                        to: user.email,
-                        subject: data.title,
-                        html: this.generateEmailTemplate(data.title, data.message, user.firstName, data.link),
-                    });
-
-                    // Mark email as sent
-                    await prisma.notification.update({
-                        where: { id: notification.id },
-                        data: { emailSent: true },
-                    });
-                }
-            }
+            if (channel !== 'EMAIL' || heldUntil || !user.isActive) return notification;
+
+            const sent = await this.emailNotification(notification, user, data.emailBody);
+            if (!sent) return notification;
+
+            // Mark email as sent
+            return prisma.notification.update({
+                where: { id: notification.id },
+                data: { emailSent: true },
+            });
         } catch (error) {
             console.error('Failed to create notification:', error);
+            return null;
         }
     }
 
+    private async emailNotification(notification: Notification, user: Recipient, body?: string | null): Promise<boolean> {
+        const unsubscribeUrl = await this.unsubscribeUrl(notification.userId, notification.type);
+        return this.sendEmail({
+            to: user.email,
+            subject: notification.title,
+            html: this.generateEmailTemplate(notification.title, body ?? notification.message, user.firstName, notification.link ?? undefined, unsubscribeUrl),
+        });
+    }
+
+    // Sends emails and digests held back by quiet hours once they are due
+    async deliverHeldEmails(): Promise<Record<string, number>> {
+        const now = new Date();
+        const due = await prisma.notification.findMany({
+            where: { emailPending: true, inDigest: false, emailDueAt: { lte: now } },
+            orderBy: { createdAt: 'asc' },
+            take: 500,
+        });
+
+        let sent = 0;
+        let held = 0;
+        let dropped = 0;
+        for (const notification of due) {
+            // The user may have changed their preference or quiet hours in the meantime
+            const { channel, user } = await this.resolveDelivery(notification.userId, notification.type, true);
+            const stillQuiet = user ? quietUntil(user.quietHoursStart, user.quietHoursEnd, now) : null;
+
+            if (user && channel === 'EMAIL' && stillQuiet) {
+                await prisma.notification.update({ where: { id: notification.id }, data: { emailDueAt: stillQuiet } });
+                held++;
+                continue;
+            }
+            if (user && channel === 'DIGEST') {
+                await prisma.notification.update({ where: { id: notification.id }, data: { inDigest: true, emailDueAt: null, emailBody: null } });
+                held++;
+                continue;
+            }
+
+            const deliver = !!user && user.isActive && channel === 'EMAIL';
+            const emailSent = deliver && await this.emailNotification(notification, user, notification.emailBody);
+            await prisma.notification.update({
+                where: { id: notification.id },
+                data: { emailPending: false, emailSent, emailBody: null },
+            });
+
+            if (emailSent) sent++;
+            else dropped++;
+        }
+
+        const dueDigests = await prisma.notification.findMany({
+            where: { emailPending: true, inDigest: true, emailDueAt: { lte: now } },
+            distinct: ['userId'],
+            select: { userId: true },
+        });
+        const { digests } = dueDigests.length > 0
+            ? await this.deliverDigests({ userId: { in: dueDigests.map(n => n.userId) } }, now)
+            : { digests: 0 };
+
+        return { sent, held, dropped, digests };
+    }
+
+    // One email per user listing the notifications they chose to receive as a daily digest
+    async sendDailyDigests(): Promise<Record<string, number>> {
+        return this.deliverDigests({}, new Date());
+    }
+
+    private async deliverDigests(where: Prisma.NotificationWhereInput, now: Date): Promise<Record<string, number>> {
+        const pending = await prisma.notification.findMany({
+            where: { ...where, emailPending: true, inDigest: true },
+            include: { user: { select: { id: true, ...recipientSelect } } },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const byUser = new Map<string, typeof pending>();
+        pending.forEach(n => byUser.set(n.userId, [...(byUser.get(n.userId) ?? []), n]));
+
+        let digests = 0;
+        let deferred = 0;
+        for (const [userId, items] of byUser) {
+            const user = items[0].user;
+
+            // Inside quiet hours the digest is held until they end, like an immediate email
+            const heldUntil = user.isActive ? quietUntil(user.quietHoursStart, user.quietHoursEnd, now) : null;
+            if (heldUntil) {
+                await prisma.notification.updateMany({
+                    where: { id: { in: items.map(n => n.id) } },
+                    data: { emailDueAt: heldUntil },
+                });
+                deferred++;
+                continue;
+            }
+
+            const rows = items.map(n => `
+            <tr>
+              <td style="padding: 10px; border-bottom: 1px solid #e5e5e5;">
+                <strong>${n.title}</strong><br />
+                <span style="color: #666;">${n.message}</span>
+                ${n.link ? `<br /><a href="${config.frontendUrl}${n.link}" style="color: #0078d4;">View</a>` : ''}
+              </td>
+              <td style="padding: 10px; border-bottom: 1px solid #e5e5e5; color: #999; white-space: nowrap; vertical-align: top;">
+                ${n.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </td>
+            </tr>`).join('');
+
+            const sent = user.isActive && await this.sendEmail({
+                to: user.email,
+                subject: `CSIR-SERC Daily Digest - ${items.length} notification${items.length === 1 ? '' : 's'}`,
+                html: this.generateEmailTemplate(
+                    '📬 Daily Digest',
+                    `<table style="width: 100%; border-collapse: collapse; background: white;">${rows}</table>`,
+                    user.firstName,
+                    '/dashboard',
+                    await this.unsubscribeUrl(userId)
+                ),
+            });
+
+            await prisma.notification.updateMany({
+                where: { id: { in: items.map(n => n.id) } },
+                data: { emailPending: false, emailSent: sent, emailDueAt: null },
+            });
+            if (sent) digests++;
+        }
+
+        return { digests, deferred, notifications: pending.length };
+    }
+
+    // ============================================
+    // PREFERENCES
+    // ============================================
+
+    async getPreferences(userId: string): Promise<NotificationPreferences> {
+        const [preferences, user] = await Promise.all([
+            prisma.notificationPreference.findMany({ where: { userId } }),
+            prisma.user.findUnique({ where: { id: userId }, select: { quietHoursStart: true, quietHoursEnd: true } }),
+        ]);
+
+        return {
+            preferences: Object.fromEntries(preferences.map(p => [p.type, p.channel])),
+            quietHoursStart: user?.quietHoursStart ?? null,
+            quietHoursEnd: user?.quietHoursEnd ?? null,
+        };
+    }
+
+    // A null channel clears the preference so the sender's default applies again
+    async updatePreferences(userId: string, update: {
+        preferences?: Partial<Record<NotificationType, NotificationChannel | null>>;
+        quietHoursStart?: string | null;
+        quietHoursEnd?: string | null;
+    }): Promise<NotificationPreferences> {
+        const entries = Object.entries(update.preferences ?? {}) as Array<[NotificationType, NotificationChannel | null]>;
+
+        await prisma.$transaction([
+            ...entries.map(([type, channel]) => channel
+                ? prisma.notificationPreference.upsert({
+                    where: { userId_type: { userId, type } },
+                    create: { userId, type, channel },
+                    update: { channel },
+                })
+                : prisma.notificationPreference.deleteMany({ where: { userId, type } })),
+            ...(update.quietHoursStart !== undefined || update.quietHoursEnd !== undefined
+                ? [prisma.user.update({
+                    where: { id: userId },
+                    data: { quietHoursStart: update.quietHoursStart, quietHoursEnd: update.quietHoursEnd },
+                })]
+                : []),
+        ]);
+
+        return this.getPreferences(userId);
+    }
+
+    private async unsubscribeUrl(userId: string, type?: NotificationType): Promise<string> {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { unsubscribeToken: true } });
+
+        let token = user?.unsubscribeToken;
+        if (!token) {
+            token = crypto.randomBytes(24).toString('hex');
+            await prisma.user.update({ where: { id: userId }, data: { unsubscribeToken: token } });
+        }
+
+        return `${config.frontendUrl}/unsubscribe?token=${token}${type ? `&type=${type}` : ''}`;
+    }
+
+    // Email link target: stop emails for one type (or all types); in-app notifications continue
+    async unsubscribe(token: string, type?: NotificationType): Promise<{ email: string; types: NotificationType[] } | null> {
+        const user = await prisma.user.findUnique({ where: { unsubscribeToken: token }, select: { id: true, email: true } });
+        if (!user) return null;
+
+        const types = type ? [type] : Object.values(NotificationType);
+        await this.updatePreferences(user.id, {
+            preferences: Object.fromEntries(types.map(t => [t, 'IN_APP'])),
+        });
+
+        return { email: user.email, types };
+    }
+
     async sendDeadlineAlert(
         userId: string,
         projectTitle: string,
@@ -163,22 +441,11 @@ class NotificationService {
         budgetUtilization: number;
         upcomingMeetings: number;
     }): Promise<void> {
-        const user = await prisma.user.findUnique({
-            where: { id: userId },
-            select: { email: true, firstName: true },
-        });
-
-        if (!user) return;
+        // The weekly digest follows the user's PROJECT_UPDATE preference and quiet hours
+        const { channel, user } = await this.resolveDelivery(userId, 'PROJECT_UPDATE', true);
+        if (!user || !user.isActive || (channel !== 'EMAIL' && channel !== 'DIGEST')) return;
 
-        const html = `
-      <div style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="background: linear-gradient(135deg, #0078d4 0%, #004578 100%); padding: 30px; text-align: center;">
-          <h1 style="color: white; margin: 0;">📊 Weekly Project Digest</h1>
-        </div>
-        <div style="padding: 30px; background: #f5f5f5;">
-          <h2 style="color: #333;">Hello ${user.firstName},</h2>
-          <p>Here's your weekly summary from CSIR-SERC Portal:</p>
-          
+        const cards = `
           <div style="display: flex; gap: 15px; margin: 20px 0;">
             <div style="background: white; padding: 20px; border-radius: 10px; flex: 1; text-align: center;">
               <h3 style="color: #0078d4; margin: 0; font-size: 2em;">${digest.pendingMilestones}</h3>
@@ -192,8 +459,37 @@ class NotificationService {
               <h3 style="color: #d83b01; margin: 0; font-size: 2em;">${digest.upcomingMeetings}</h3>
               <p style="margin: 5px 0; color: #666;">Upcoming Meetings</p>
             </div>
-          </div>
-          
+          </div>`;
+
+        // Inside quiet hours the digest is held as a notification and emailed once they end
+        const heldUntil = quietUntil(user.quietHoursStart, user.quietHoursEnd);
+        if (heldUntil) {
+            await prisma.notification.create({
+                data: {
+                    userId,
+                    type: 'PROJECT_UPDATE',
+                    title: '📊 Weekly Project Digest',
+                    message: `${digest.pendingMilestones} pending milestones, ${digest.budgetUtilization}% of budget utilized, ${digest.upcomingMeetings} upcoming meetings`,
+                    link: '/dashboard',
+                    emailPending: true,
+                    emailDueAt: heldUntil,
+                    emailBody: `<p>Here's your weekly summary from CSIR-SERC Portal:</p>${cards}`,
+                },
+            });
+            return;
+        }
+
+        const unsubscribeUrl = await this.unsubscribeUrl(userId, 'PROJECT_UPDATE');
+
+        const html = `
+      <div style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #0078d4 0%, #004578 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0;">📊 Weekly Project Digest</h1>
+        </div>
+        <div style="padding: 30px; background: #f5f5f5;">
+          <h2 style="color: #333;">Hello ${user.firstName},</h2>
+          <p>Here's your weekly summary from CSIR-SERC Portal:</p>
+          ${cards}
           <a href="${config.frontendUrl}/dashboard" style="display: inline-block; background: #0078d4; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin-top: 20px;">
             View Dashboard →
           </a>
@@ -201,6 +497,7 @@ class NotificationService {
         <div style="background: #333; color: white; padding: 20px; text-align: center; font-size: 12px;">
           <p style="margin: 0;">CSIR-SERC Project Management Portal</p>
           <p style="margin: 5px 0; color: #999;">© ${new Date().getFullYear()} Council of Scientific and Industrial Research</p>
+          ${this.unsubscribeFooter(unsubscribeUrl)}
         </div>
       </div>
     `;
@@ -212,7 +509,16 @@ class NotificationService {
         });
     }
 
-    private generateEmailTemplate(title: string, message: string, userName: string, link?: string): string {
+    private unsubscribeFooter(unsubscribeUrl: string): string {
+        return `
+          <p style="margin: 10px 0 0; color: #999;">
+            <a href="${unsubscribeUrl}" style="color: #999;">Unsubscribe from these emails</a>
+            &middot;
+            <a href="${config.frontendUrl}/profile?tab=notifications" style="color: #999;">Manage notification preferences</a>
+          </p>`;
+    }
+
+    private generateEmailTemplate(title: string, message: string, userName: string, link?: string, unsubscribeUrl?: string): string {
         return `
       <div style="font-family: 'Segoe UI', Arial, sans-serif; max-width: 600px; margin: 0 auto;">
         <div style="background: linear-gradient(135deg, #0078d4 0%, #004578 100%); padding: 30px; text-align: center;">
@@ -220,7 +526,7 @@ class NotificationService {
         </div>
         <div style="padding: 30px; background: #f5f5f5;">
           <h2 style="color: #333;">Hello ${userName},</h2>
-          <p style="color: #666; line-height: 1.6;">${message}</p>
+          <div style="color: #666; line-height: 1.6;">${message}</div>
           ${link ? `
             <a href="${config.frontendUrl}${link}" style="display: inline-block; background: #0078d4; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin-top: 20px;">
               View Details →
@@ -229,11 +535,21 @@ class NotificationService {
         </div>
         <div style="background: #333; color: white; padding: 20px; text-align: center; font-size: 12px;">
           <p style="margin: 0;">CSIR-SERC Project Management Portal</p>
+          ${unsubscribeUrl ? this.unsubscribeFooter(unsubscribeUrl) : ''}
         </div>
       </div>
     `;
     }
 
+    async getNotifications(userId: string, limit: number) {
+        return prisma.notification.findMany({
+            where: { userId },
+            select: { id: true, type: true, title: true, message: true, link: true, isRead: true, createdAt: true },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+    }
+
     async getUnreadCount(userId: string): Promise<number> {
         return prisma.notification.count({
             where: {
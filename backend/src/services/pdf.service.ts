@@ -0,0 +1,706 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import config from '../config/index.js';
+
+type Doc = PDFKit.PDFDocument;
+
+export interface PdfTableColumn {
+    header: string;
+    width?: number; // Relative weight, default 1
+    align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfChartSeries {
+    name: string;
+    values: number[];
+    color?: string;
+}
+
+export type PdfBlock =
+    | { type: 'paragraph'; text: string; muted?: boolean }
+    | { type: 'heading'; text: string } // Listed in the table of contents under its section
+    | { type: 'stats'; items: Array<{ label: string; value: string }> }
+    | { type: 'keyValues'; items: Array<{ label: string; value: string }> }
+    | { type: 'table'; columns: PdfTableColumn[]; rows: Array<Array<string | number>>; emptyText?: string }
+    | { type: 'barChart'; title: string; labels: string[]; series: PdfChartSeries[]; format?: (value: number) => string; height?: number }
+    | { type: 'lineChart'; title: string; labels: string[]; series: PdfChartSeries[]; format?: (value: number) => string; height?: number }
+    | { type: 'pieChart'; title: string; items: Array<{ label: string; value: number; color?: string }> }
+    | { type: 'pageBreak' };
+
+export interface PdfSection {
+    title: string;
+    blocks: PdfBlock[];
+    newPage?: boolean;
+}
+
+export interface PdfReportDefinition {
+    title: string;
+    subtitle?: string;
+    letterhead?: LetterheadTemplate;
+    landscape?: boolean;
+    toc?: boolean; // Default true
+    generatedBy?: string;
+    meta?: Array<{ label: string; value: string }>; // Shown on the cover page
+    sections: PdfSection[];
+}
+
+interface Letterhead {
+    lines: string[];
+    accent: string;
+    marking?: string;
+}
+
+export const LETTERHEADS = {
+    standard: {
+        lines: [
+            'CSIR-Structural Engineering Research Centre',
+            'Council of Scientific & Industrial Research',
+            'CSIR Campus, Taramani, Chennai - 600 113',
+        ],
+        accent: '#0369cc',
+    },
+    confidential: {
+        lines: [
+            'CSIR-Structural Engineering Research Centre',
+            'Council of Scientific & Industrial Research',
+            'CSIR Campus, Taramani, Chennai - 600 113',
+        ],
+        accent: '#0369cc',
+        marking: 'CONFIDENTIAL',
+    },
+    rc: {
+        lines: [
+            'CSIR-Structural Engineering Research Centre',
+            'Research Council',
+            'CSIR Campus, Taramani, Chennai - 600 113',
+        ],
+        accent: '#7c3aed',
+        marking: 'FOR RC MEMBERS ONLY',
+    },
+} satisfies Record<string, Letterhead>;
+
+export type LetterheadTemplate = keyof typeof LETTERHEADS;
+
+export const isLetterheadTemplate = (value: unknown): value is LetterheadTemplate =>
+    typeof value === 'string' && value in LETTERHEADS;
+
+const PALETTE = ['#0369cc', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#64748b'];
+
+const TEXT = '#1f2937';
+const MUTED = '#64748b';
+const BORDER = '#e5e7eb';
+const ZEBRA = '#f9fafb';
+const HEADER_FILL = '#f3f4f6';
+
+const MARGIN = { top: 100, bottom: 55, left: 50, right: 50 };
+const TOC_ENTRIES_PER_PAGE = 32;
+
+interface TocEntry {
+    title: string;
+    level: 1 | 2;
+    page: number;
+    destination: string;
+}
+
+// Characters the built-in Helvetica (WinAnsi) can render
+const WIN_ANSI = /[^\x09\x0A\x0D\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026\u20AC]/g;
+
+// Rich text report content -> plain paragraphs
+export const htmlToText = (html: string): string =>
+    html
+        .replace(/<\s*br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+        .replace(/<li[^>]*>/gi, '• ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+export const formatDate = (date: Date | string | null | undefined): string =>
+    date ? new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '-';
+
+// Axis maximum rounded up to 1/2/5 x 10^n
+const niceMax = (value: number): number => {
+    if (value <= 0) return 1;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+    const normalized = value / magnitude;
+    const step = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+    return step * magnitude;
+};
+
+/**
+ * Renders report definitions to PDF with pdfkit, locally and without a browser.
+ * Pages are buffered so the table of contents, page numbers and letterhead are
+ * drawn once the content is laid out.
+ */
+export class PdfService {
+    private readonly unicode = !!config.pdf.fontPath && fs.existsSync(config.pdf.fontPath);
+
+    get rupee(): string {
+        return this.unicode ? '₹' : 'Rs.';
+    }
+
+    formatINR(amount: number): string {
+        return `${this.rupee} ${Math.round(amount).toLocaleString('en-IN')}`;
+    }
+
+    formatLakhs(amount: number): string {
+        return `${this.rupee} ${(amount / 100000).toFixed(2)} L`;
+    }
+
+    async render(definition: PdfReportDefinition): Promise<Buffer> {
+        const letterhead: Letterhead = LETTERHEADS[definition.letterhead ?? 'standard'];
+        const doc = new PDFDocument({
+            size: 'A4',
+            layout: definition.landscape ? 'landscape' : 'portrait',
+            margins: MARGIN,
+            bufferPages: true,
+            info: {
+                Title: definition.title,
+                Author: 'CSIR-SERC Project Management System',
+                Subject: definition.subtitle ?? definition.title,
+            },
+        });
+
+        const chunks: Buffer[] = [];
+        const done = new Promise<Buffer>((resolve, reject) => {
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+        });
+
+        this.registerFonts(doc);
+        this.drawCover(doc, definition, letterhead);
+
+        const useToc = definition.toc !== false && definition.sections.length > 1;
+        const tocCount = definition.sections.length
+            + definition.sections.reduce((n, s) => n + s.blocks.filter(b => b.type === 'heading').length, 0);
+        const tocPages = useToc ? Math.ceil(tocCount / TOC_ENTRIES_PER_PAGE) : 0;
+        for (let i = 0; i < tocPages; i++) doc.addPage();
+
+        const toc: TocEntry[] = [];
+        definition.sections.forEach((section, index) => {
+            if (index === 0 || section.newPage) {
+                doc.addPage();
+            } else {
+                this.ensureSpace(doc, 80);
+                doc.moveDown(1);
+            }
+
+            const destination = `section-${index + 1}`;
+            doc.addNamedDestination(destination);
+            const outline = doc.outline.addItem(section.title);
+            toc.push({ title: section.title, level: 1, page: this.currentPage(doc), destination });
+            this.drawSectionTitle(doc, `${index + 1}. ${section.title}`, letterhead.accent);
+
+            let headingIndex = 0;
+            section.blocks.forEach((block, blockIndex) => {
+                if (block.type === 'heading') {
+                    this.ensureSpace(doc, 30 + this.keepWithNext(section.blocks[blockIndex + 1]));
+                    const sub = `${destination}-${++headingIndex}`;
+                    doc.addNamedDestination(sub);
+                    outline.addItem(block.text);
+                    toc.push({ title: block.text, level: 2, page: this.currentPage(doc), destination: sub });
+                }
+                this.drawBlock(doc, block);
+            });
+        });
+
+        if (tocPages > 0) this.drawToc(doc, toc, tocPages, letterhead.accent);
+        this.decoratePages(doc, definition, letterhead);
+
+        doc.end();
+        return done;
+    }
+
+    // ============================================
+    // LAYOUT HELPERS
+    // ============================================
+
+    private registerFonts(doc: Doc): void {
+        if (this.unicode) {
+            doc.registerFont('Body', config.pdf.fontPath);
+            doc.registerFont('Body-Bold', config.pdf.boldFontPath && fs.existsSync(config.pdf.boldFontPath)
+                ? config.pdf.boldFontPath
+                : config.pdf.fontPath);
+        } else {
+            doc.registerFont('Body', 'Helvetica');
+            doc.registerFont('Body-Bold', 'Helvetica-Bold');
+        }
+        doc.font('Body');
+    }
+
+    private clean(text: string | number | null | undefined): string {
+        const value = text === null || text === undefined ? '' : String(text);
+        return this.unicode ? value : value.replace(/₹/g, 'Rs.').replace(WIN_ANSI, '?');
+    }
+
+    private currentPage(doc: Doc): number {
+        const range = doc.bufferedPageRange();
+        return range.start + range.count; // 1-based number of the last page
+    }
+
+    private contentWidth(doc: Doc): number {
+        return doc.page.width - MARGIN.left - MARGIN.right;
+    }
+
+    private bottom(doc: Doc): number {
+        return doc.page.height - MARGIN.bottom;
+    }
+
+    private ensureSpace(doc: Doc, height: number): void {
+        if (doc.y + height > this.bottom(doc)) {
+            doc.addPage();
+        }
+    }
+
+    // Space a heading needs below it so it is not left alone at the foot of a page
+    private keepWithNext(block?: PdfBlock): number {
+        if (!block) return 20;
+        if (block.type === 'barChart' || block.type === 'lineChart') return (block.height ?? 170) + 50;
+        if (block.type === 'pieChart') return 150;
+        return 60;
+    }
+
+    // Writes outside the margins without pdfkit adding a page
+    private withoutBottomMargin(doc: Doc, draw: () => void): void {
+        const bottom = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        draw();
+        doc.page.margins.bottom = bottom;
+    }
+
+    private drawLogo(doc: Doc, x: number, y: number, height: number): number {
+        if (!fs.existsSync(config.pdf.logoPath)) return 0;
+        try {
+            doc.image(config.pdf.logoPath, x, y, { height });
+            return height * 1.95; // Logo aspect ratio is roughly 2:1
+        } catch {
+            return 0;
+        }
+    }
+
+    private drawCover(doc: Doc, definition: PdfReportDefinition, letterhead: Letterhead): void {
+        const width = this.contentWidth(doc);
+        const logoWidth = this.drawLogo(doc, MARGIN.left + (width - 117) / 2, 60, 60);
+
+        let y = logoWidth ? 135 : 70;
+        letterhead.lines.forEach((line, i) => {
+            doc.font(i === 0 ? 'Body-Bold' : 'Body').fontSize(i === 0 ? 15 : 10).fillColor(i === 0 ? letterhead.accent : MUTED)
+                .text(this.clean(line), MARGIN.left, y, { width, align: 'center' });
+            y = doc.y + 2;
+        });
+
+        doc.moveTo(MARGIN.left, y + 10).lineTo(MARGIN.left + width, y + 10).lineWidth(1.5).strokeColor(letterhead.accent).stroke();
+
+        doc.font('Body-Bold').fontSize(24).fillColor(TEXT)
+            .text(this.clean(definition.title), MARGIN.left, doc.page.height * 0.38, { width, align: 'center' });
+        if (definition.subtitle) {
+            doc.moveDown(0.5).font('Body').fontSize(13).fillColor(MUTED)
+                .text(this.clean(definition.subtitle), { width, align: 'center' });
+        }
+
+        const meta = [
+            ...(definition.meta ?? []),
+            { label: 'Generated On', value: new Date().toLocaleString('en-IN') },
+            ...(definition.generatedBy ? [{ label: 'Generated By', value: definition.generatedBy }] : []),
+        ];
+        doc.y = doc.page.height * 0.58;
+        for (const item of meta) {
+            const rowY = doc.y;
+            doc.font('Body-Bold').fontSize(10).fillColor(MUTED)
+                .text(this.clean(item.label), MARGIN.left + width * 0.2, rowY, { width: width * 0.25 });
+            doc.font('Body').fontSize(10).fillColor(TEXT)
+                .text(this.clean(item.value), MARGIN.left + width * 0.45, rowY, { width: width * 0.4 });
+            doc.y = Math.max(doc.y, rowY + 16);
+        }
+
+        if (letterhead.marking) {
+            doc.font('Body-Bold').fontSize(12).fillColor('#dc2626')
+                .text(letterhead.marking, MARGIN.left, doc.page.height - 130, { width, align: 'center' });
+        }
+    }
+
+    private drawSectionTitle(doc: Doc, title: string, accent: string): void {
+        doc.font('Body-Bold').fontSize(15).fillColor(accent).text(this.clean(title), MARGIN.left, doc.y);
+        const y = doc.y + 3;
+        doc.moveTo(MARGIN.left, y).lineTo(MARGIN.left + this.contentWidth(doc), y).lineWidth(0.75).strokeColor(BORDER).stroke();
+        doc.y = y + 10;
+    }
+
+    private drawToc(doc: Doc, toc: TocEntry[], tocPages: number, accent: string): void {
+        const width = this.contentWidth(doc);
+        for (let p = 0; p < tocPages; p++) {
+            doc.switchToPage(1 + p); // Page 0 is the cover
+            doc.y = MARGIN.top;
+            if (p === 0) this.drawSectionTitle(doc, 'Contents', accent);
+
+            for (const entry of toc.slice(p * TOC_ENTRIES_PER_PAGE, (p + 1) * TOC_ENTRIES_PER_PAGE)) {
+                const indent = entry.level === 1 ? 0 : 18;
+                const y = doc.y;
+                const pageLabel = String(entry.page);
+                doc.font(entry.level === 1 ? 'Body-Bold' : 'Body').fontSize(entry.level === 1 ? 10.5 : 9.5).fillColor(TEXT);
+                const titleWidth = Math.min(doc.widthOfString(this.clean(entry.title)), width - indent - 60);
+                doc.text(this.clean(entry.title), MARGIN.left + indent, y, {
+                    width: width - indent - 60,
+                    lineBreak: false,
+                    ellipsis: true,
+                    goTo: entry.destination,
+                });
+                doc.text(pageLabel, MARGIN.left, y, { width, align: 'right', lineBreak: false, goTo: entry.destination });
+
+                // Dotted leader between title and page number
+                const leaderStart = MARGIN.left + indent + titleWidth + 6;
+                const leaderEnd = MARGIN.left + width - doc.widthOfString(pageLabel) - 6;
+                if (leaderEnd > leaderStart) {
+                    doc.moveTo(leaderStart, y + 8).lineTo(leaderEnd, y + 8).dash(1, { space: 2 }).lineWidth(0.5).strokeColor('#9ca3af').stroke().undash();
+                }
+                doc.y = y + (entry.level === 1 ? 19 : 16);
+            }
+        }
+    }
+
+    // Letterhead on every page after the cover, footer with page numbers on all pages
+    private decoratePages(doc: Doc, definition: PdfReportDefinition, letterhead: Letterhead): void {
+        const range = doc.bufferedPageRange();
+        const total = range.count;
+
+        for (let i = range.start; i < range.start + total; i++) {
+            doc.switchToPage(i);
+            const width = this.contentWidth(doc);
+
+            this.withoutBottomMargin(doc, () => {
+                if (i > range.start) {
+                    const logoWidth = this.drawLogo(doc, MARGIN.left, 28, 38);
+                    const textX = MARGIN.left + (logoWidth ? logoWidth + 10 : 0);
+                    doc.font('Body-Bold').fontSize(11).fillColor(letterhead.accent)
+                        .text(this.clean(letterhead.lines[0]), textX, 30, { width: width - (textX - MARGIN.left), lineBreak: false });
+                    doc.font('Body').fontSize(7.5).fillColor(MUTED)
+                        .text(this.clean(letterhead.lines.slice(1).join('  |  ')), textX, 46, { width: width - (textX - MARGIN.left), lineBreak: false });
+                    if (letterhead.marking) {
+                        doc.font('Body-Bold').fontSize(7.5).fillColor('#dc2626')
+                            .text(letterhead.marking, MARGIN.left, 60, { width, align: 'right', lineBreak: false });
+                    }
+                    doc.moveTo(MARGIN.left, 75).lineTo(MARGIN.left + width, 75).lineWidth(1).strokeColor(letterhead.accent).stroke();
+                }
+
+                const footerY = doc.page.height - 38;
+                doc.moveTo(MARGIN.left, footerY - 6).lineTo(MARGIN.left + width, footerY - 6).lineWidth(0.5).strokeColor(BORDER).stroke();
+                doc.font('Body').fontSize(7.5).fillColor(MUTED)
+                    .text(this.clean(definition.title), MARGIN.left, footerY, { width: width * 0.7, lineBreak: false, ellipsis: true });
+                doc.text(`Page ${i - range.start + 1} of ${total}`, MARGIN.left, footerY, { width, align: 'right', lineBreak: false });
+            });
+        }
+    }
+
+    // ============================================
+    // BLOCKS
+    // ============================================
+
+    private drawBlock(doc: Doc, block: PdfBlock): void {
+        switch (block.type) {
+            case 'paragraph':
+                doc.font('Body').fontSize(9.5).fillColor(block.muted ? MUTED : TEXT)
+                    .text(this.clean(block.text), MARGIN.left, doc.y, { width: this.contentWidth(doc), lineGap: 2 });
+                doc.moveDown(0.6);
+                break;
+            case 'heading':
+                doc.moveDown(0.3);
+                doc.font('Body-Bold').fontSize(11.5).fillColor(TEXT).text(this.clean(block.text), MARGIN.left, doc.y);
+                doc.moveDown(0.4);
+                break;
+            case 'stats':
+                this.drawStats(doc, block.items);
+                break;
+            case 'keyValues':
+                this.drawKeyValues(doc, block.items);
+                break;
+            case 'table':
+                this.drawTable(doc, block.columns, block.rows, block.emptyText);
+                break;
+            case 'barChart':
+                this.drawBarChart(doc, block.title, block.labels, block.series, block.format, block.height);
+                break;
+            case 'lineChart':
+                this.drawLineChart(doc, block.title, block.labels, block.series, block.format, block.height);
+                break;
+            case 'pieChart':
+                this.drawPieChart(doc, block.title, block.items);
+                break;
+            case 'pageBreak':
+                doc.addPage();
+                break;
+        }
+    }
+
+    private drawStats(doc: Doc, items: Array<{ label: string; value: string }>): void {
+        const width = this.contentWidth(doc);
+        const perRow = Math.min(4, items.length);
+        const gap = 10;
+        const cardWidth = (width - gap * (perRow - 1)) / perRow;
+        const cardHeight = 48;
+
+        for (let i = 0; i < items.length; i += perRow) {
+            this.ensureSpace(doc, cardHeight + 10);
+            const y = doc.y;
+            items.slice(i, i + perRow).forEach((item, j) => {
+                const x = MARGIN.left + j * (cardWidth + gap);
+                doc.roundedRect(x, y, cardWidth, cardHeight, 5).fillColor('#f0f9ff').fill();
+                doc.font('Body').fontSize(8).fillColor(MUTED)
+                    .text(this.clean(item.label), x + 8, y + 8, { width: cardWidth - 16, lineBreak: false, ellipsis: true });
+                doc.font('Body-Bold').fontSize(15).fillColor('#0369cc')
+                    .text(this.clean(item.value), x + 8, y + 22, { width: cardWidth - 16, lineBreak: false, ellipsis: true });
+            });
+            doc.y = y + cardHeight + 10;
+        }
+        doc.x = MARGIN.left;
+    }
+
+    private drawKeyValues(doc: Doc, items: Array<{ label: string; value: string }>): void {
+        const width = this.contentWidth(doc);
+        const labelWidth = width * 0.28;
+        for (const item of items) {
+            doc.font('Body').fontSize(9.5);
+            const height = Math.max(14, doc.heightOfString(this.clean(item.value), { width: width - labelWidth }) + 4);
+            this.ensureSpace(doc, height);
+            const y = doc.y;
+            doc.font('Body-Bold').fillColor(MUTED).text(this.clean(item.label), MARGIN.left, y, { width: labelWidth - 8 });
+            doc.font('Body').fillColor(TEXT).text(this.clean(item.value), MARGIN.left + labelWidth, y, { width: width - labelWidth });
+            doc.y = Math.max(doc.y, y + height);
+        }
+        doc.moveDown(0.5);
+    }
+
+    private drawTable(doc: Doc, columns: PdfTableColumn[], rows: Array<Array<string | number>>, emptyText?: string): void {
+        const width = this.contentWidth(doc);
+        const totalWeight = columns.reduce((sum, c) => sum + (c.width ?? 1), 0);
+        const widths = columns.map(c => (width * (c.width ?? 1)) / totalWeight);
+        const pad = 4;
+        const fontSize = 8;
+
+        const rowHeight = (cells: string[], bold: boolean) => {
+            doc.font(bold ? 'Body-Bold' : 'Body').fontSize(fontSize);
+            return Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: widths[i] - pad * 2 }))) + pad * 2;
+        };
+
+        const drawRow = (cells: string[], y: number, height: number, fill: string | null, bold: boolean) => {
+            if (fill) doc.rect(MARGIN.left, y, width, height).fillColor(fill).fill();
+            let x = MARGIN.left;
+            cells.forEach((cell, i) => {
+                doc.font(bold ? 'Body-Bold' : 'Body').fontSize(fontSize).fillColor(TEXT)
+                    .text(cell, x + pad, y + pad, { width: widths[i] - pad * 2, align: columns[i].align ?? 'left' });
+                x += widths[i];
+            });
+            doc.moveTo(MARGIN.left, y + height).lineTo(MARGIN.left + width, y + height).lineWidth(0.5).strokeColor(BORDER).stroke();
+        };
+
+        const headers = columns.map(c => this.clean(c.header));
+        const headerHeight = rowHeight(headers, true);
+        const drawHeader = () => {
+            const y = doc.y;
+            drawRow(headers, y, headerHeight, HEADER_FILL, true);
+            doc.y = y + headerHeight;
+        };
+
+        this.ensureSpace(doc, headerHeight + 20);
+        drawHeader();
+
+        if (rows.length === 0) {
+            doc.font('Body').fontSize(fontSize).fillColor(MUTED)
+                .text(this.clean(emptyText ?? 'No records'), MARGIN.left + pad, doc.y + pad, { width: width - pad * 2 });
+            doc.moveDown(0.8);
+            return;
+        }
+
+        rows.forEach((row, index) => {
+            const cells = row.map(cell => this.clean(cell));
+            const height = rowHeight(cells, false);
+            if (doc.y + height > this.bottom(doc)) {
+                doc.addPage();
+                drawHeader(); // Repeat the header on every page
+            }
+            const y = doc.y;
+            drawRow(cells, y, height, index % 2 === 1 ? ZEBRA : null, false);
+            doc.y = y + height;
+        });
+
+        doc.x = MARGIN.left;
+        doc.moveDown(0.8);
+    }
+
+    private drawChartFrame(doc: Doc, title: string, series: PdfChartSeries[], height: number) {
+        const width = this.contentWidth(doc);
+        this.ensureSpace(doc, height + 50);
+
+        const top = doc.y;
+        doc.font('Body-Bold').fontSize(10).fillColor(TEXT).text(this.clean(title), MARGIN.left, top, { width: width * 0.6, lineBreak: false });
+
+        // Legend, right aligned on the title line
+        let legendX = MARGIN.left + width;
+        doc.font('Body').fontSize(7.5);
+        [...series].reverse().forEach((s, i) => {
+            const color = s.color ?? PALETTE[(series.length - 1 - i) % PALETTE.length];
+            const label = this.clean(s.name);
+            legendX -= doc.widthOfString(label) + 18;
+            doc.rect(legendX, top + 2, 8, 8).fillColor(color).fill();
+            doc.fillColor(MUTED).text(label, legendX + 11, top + 1.5, { lineBreak: false });
+        });
+
+        return {
+            left: MARGIN.left + 48,
+            right: MARGIN.left + width,
+            top: top + 22,
+            bottom: top + 22 + height,
+            end: top + 22 + height + 28,
+        };
+    }
+
+    private drawAxes(
+        doc: Doc,
+        area: { left: number; right: number; top: number; bottom: number },
+        max: number,
+        format: (value: number) => string
+    ): void {
+        const ticks = 4;
+        doc.font('Body').fontSize(7).fillColor(MUTED);
+        for (let t = 0; t <= ticks; t++) {
+            const value = (max / ticks) * t;
+            const y = area.bottom - ((area.bottom - area.top) / ticks) * t;
+            doc.moveTo(area.left, y).lineTo(area.right, y).lineWidth(0.4).strokeColor(t === 0 ? '#9ca3af' : BORDER).stroke();
+            doc.fillColor(MUTED).text(this.clean(format(value)), MARGIN.left, y - 4, { width: 44, align: 'right', lineBreak: false });
+        }
+    }
+
+    private drawCategoryLabels(doc: Doc, labels: string[], area: { left: number; right: number; bottom: number }, slot: number): void {
+        // Thin out labels so they never overlap
+        const every = Math.max(1, Math.ceil(labels.length / Math.floor((area.right - area.left) / 40)));
+        doc.font('Body').fontSize(7).fillColor(MUTED);
+        labels.forEach((label, i) => {
+            if (i % every !== 0) return;
+            const x = area.left + slot * i;
+            doc.text(this.clean(label), x, area.bottom + 4, { width: slot * every, align: 'center', lineBreak: false, ellipsis: true });
+        });
+    }
+
+    private drawBarChart(
+        doc: Doc,
+        title: string,
+        labels: string[],
+        series: PdfChartSeries[],
+        format: (value: number) => string = v => v.toLocaleString('en-IN'),
+        height = 170
+    ): void {
+        const area = this.drawChartFrame(doc, title, series, height);
+        const max = niceMax(Math.max(0, ...series.flatMap(s => s.values)));
+        this.drawAxes(doc, area, max, format);
+
+        const slot = (area.right - area.left) / Math.max(1, labels.length);
+        const barWidth = Math.min(28, (slot * 0.7) / Math.max(1, series.length));
+        const groupWidth = barWidth * series.length;
+
+        labels.forEach((_, i) => {
+            const start = area.left + slot * i + (slot - groupWidth) / 2;
+            series.forEach((s, j) => {
+                const value = Math.max(0, s.values[i] ?? 0);
+                const barHeight = ((area.bottom - area.top) * value) / max;
+                if (barHeight <= 0) return;
+                doc.rect(start + j * barWidth, area.bottom - barHeight, barWidth - 1, barHeight)
+                    .fillColor(s.color ?? PALETTE[j % PALETTE.length]).fill();
+            });
+        });
+
+        this.drawCategoryLabels(doc, labels, area, slot);
+        doc.y = area.end;
+        doc.x = MARGIN.left;
+    }
+
+    private drawLineChart(
+        doc: Doc,
+        title: string,
+        labels: string[],
+        series: PdfChartSeries[],
+        format: (value: number) => string = v => v.toLocaleString('en-IN'),
+        height = 170
+    ): void {
+        const area = this.drawChartFrame(doc, title, series, height);
+        const max = niceMax(Math.max(0, ...series.flatMap(s => s.values)));
+        this.drawAxes(doc, area, max, format);
+
+        const slot = (area.right - area.left) / Math.max(1, labels.length);
+        const xAt = (i: number) => area.left + slot * i + slot / 2;
+        const yAt = (v: number) => area.bottom - ((area.bottom - area.top) * Math.max(0, v)) / max;
+
+        series.forEach((s, j) => {
+            const color = s.color ?? PALETTE[j % PALETTE.length];
+            if (s.values.length === 0) return;
+            doc.moveTo(xAt(0), yAt(s.values[0]));
+            s.values.slice(1).forEach((v, i) => doc.lineTo(xAt(i + 1), yAt(v)));
+            doc.lineWidth(1.5).strokeColor(color).stroke();
+            s.values.forEach((v, i) => doc.circle(xAt(i), yAt(v), 1.8).fillColor(color).fill());
+        });
+
+        this.drawCategoryLabels(doc, labels, area, slot);
+        doc.y = area.end;
+        doc.x = MARGIN.left;
+    }
+
+    private drawPieChart(doc: Doc, title: string, items: Array<{ label: string; value: number; color?: string }>): void {
+        const width = this.contentWidth(doc);
+        const radius = 60;
+        const height = Math.max(radius * 2, items.length * 15) + 30;
+        this.ensureSpace(doc, height + 10);
+
+        const top = doc.y;
+        doc.font('Body-Bold').fontSize(10).fillColor(TEXT).text(this.clean(title), MARGIN.left, top, { width });
+
+        const total = items.reduce((sum, item) => sum + Math.max(0, item.value), 0);
+        const cx = MARGIN.left + radius + 10;
+        const cy = top + 24 + radius;
+
+        if (total <= 0) {
+            doc.circle(cx, cy, radius).lineWidth(1).strokeColor(BORDER).stroke();
+        } else {
+            let angle = -Math.PI / 2;
+            items.forEach((item, i) => {
+                const value = Math.max(0, item.value);
+                if (value <= 0) return;
+                const color = item.color ?? PALETTE[i % PALETTE.length];
+                const sweep = (value / total) * Math.PI * 2;
+                if (sweep >= Math.PI * 2 - 1e-6) {
+                    doc.circle(cx, cy, radius).fillColor(color).fill();
+                } else {
+                    const x1 = cx + radius * Math.cos(angle);
+                    const y1 = cy + radius * Math.sin(angle);
+                    const x2 = cx + radius * Math.cos(angle + sweep);
+                    const y2 = cy + radius * Math.sin(angle + sweep);
+                    doc.path(`M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2} ${y2} Z`).fillColor(color).fill();
+                }
+                angle += sweep;
+            });
+        }
+        doc.circle(cx, cy, radius * 0.55).fillColor('#ffffff').fill(); // Donut hole
+        doc.font('Body-Bold').fontSize(12).fillColor(TEXT)
+            .text(String(total), cx - radius * 0.5, cy - 7, { width: radius, align: 'center', lineBreak: false });
+
+        let y = top + 24;
+        const legendX = cx + radius + 30;
+        items.forEach((item, i) => {
+            const color = item.color ?? PALETTE[i % PALETTE.length];
+            const share = total > 0 ? Math.round((Math.max(0, item.value) / total) * 100) : 0;
+            doc.rect(legendX, y + 1, 8, 8).fillColor(color).fill();
+            doc.font('Body').fontSize(8.5).fillColor(TEXT)
+                .text(`${this.clean(item.label)}  -  ${item.value} (${share}%)`, legendX + 14, y, { width: width - (legendX - MARGIN.left) - 14, lineBreak: false });
+            y += 15;
+        });
+
+        doc.y = top + height;
+        doc.x = MARGIN.left;
+    }
+}
+
+export const pdfService = new PdfService();
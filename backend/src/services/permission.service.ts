@@ -0,0 +1,159 @@
+import { UserRole } from '@prisma/client';
+import prisma from '../config/database.js';
+import {
+    PERMISSION_ACTIONS,
+    PERMISSION_RESOURCES,
+    LOCKED_GRANTS,
+    PermissionAction,
+    PermissionResource,
+    RoleGrants,
+    defaultRolePermissions,
+    isPermissionResource,
+    isResourceAction,
+} from '../config/permissions.js';
+
+export class PermissionError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'PermissionError';
+    }
+}
+
+export type PermissionMatrix = Record<UserRole, RoleGrants>;
+
+// Other instances pick up matrix edits within this window
+const CACHE_TTL_MS = 60 * 1000;
+
+// SystemConfig key listing the resource actions whose defaults have been written
+const SEEDED_KEY = 'permissions_seededActions';
+
+const catalogActions = (): string[] =>
+    (Object.entries(PERMISSION_RESOURCES) as Array<[PermissionResource, { actions: Partial<Record<PermissionAction, string>> }]>)
+        .flatMap(([resource, definition]) => Object.keys(definition.actions).map(action => `${resource}:${action}`));
+
+/**
+ * The RBAC matrix, stored as RolePermission rows and seeded from
+ * `defaultRolePermissions` the first time it is read. Resource actions added
+ * to the catalog later are seeded with their defaults once, the first time an
+ * existing matrix is read after they appear.
+ */
+export class PermissionService {
+    private cache: { matrix: PermissionMatrix; loadedAt: number } | null = null;
+
+    private async load(): Promise<PermissionMatrix> {
+        if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) return this.cache.matrix;
+
+        let rows = await prisma.rolePermission.findMany();
+        if (rows.length === 0) {
+            await this.write(defaultRolePermissions());
+            rows = await prisma.rolePermission.findMany();
+        } else if (await this.seedNewActions(rows)) {
+            rows = await prisma.rolePermission.findMany();
+        }
+
+        const matrix = Object.fromEntries(Object.values(UserRole).map(role => [role, {}])) as PermissionMatrix;
+        for (const row of rows) {
+            // Rows for resources or actions no longer in the catalog are ignored
+            if (!isPermissionResource(row.resource) || !isResourceAction(row.resource, row.action)) continue;
+            (matrix[row.role][row.resource] ??= []).push(row.action);
+        }
+
+        this.cache = { matrix: this.withLockedGrants(matrix), loadedAt: Date.now() };
+        return this.cache.matrix;
+    }
+
+    private withLockedGrants(matrix: PermissionMatrix): PermissionMatrix {
+        for (const [role, grants] of Object.entries(LOCKED_GRANTS) as Array<[UserRole, RoleGrants]>) {
+            for (const [resource, actions] of Object.entries(grants) as Array<[PermissionResource, PermissionAction[]]>) {
+                const current = matrix[role][resource] ?? [];
+                matrix[role][resource] = PERMISSION_ACTIONS.filter(a => current.includes(a) || actions.includes(a));
+            }
+        }
+        return matrix;
+    }
+
+    // Matrices written before the seeded list existed count every action they grant as seeded
+    private async seedNewActions(rows: Array<{ resource: string; action: string }>): Promise<boolean> {
+        const config = await prisma.systemConfig.findUnique({ where: { key: SEEDED_KEY } });
+        const seeded = new Set<string>(config ? JSON.parse(config.value) : rows.map(r => `${r.resource}:${r.action}`));
+        const added = catalogActions().filter(a => !seeded.has(a));
+        if (added.length === 0 && config) return false;
+
+        const data = Object.entries(defaultRolePermissions()).flatMap(([role, grants]) =>
+            Object.entries(grants).flatMap(([resource, actions]) => (actions ?? [])
+                .filter(action => added.includes(`${resource}:${action}`))
+                .map(action => ({ role: role as UserRole, resource, action }))));
+
+        await prisma.$transaction([
+            prisma.rolePermission.createMany({ data, skipDuplicates: true }),
+            this.markSeeded(),
+        ]);
+        return data.length > 0;
+    }
+
+    private markSeeded() {
+        const value = JSON.stringify(catalogActions());
+        return prisma.systemConfig.upsert({
+            where: { key: SEEDED_KEY },
+            create: { key: SEEDED_KEY, value, description: 'Permission matrix actions seeded with their default grants' },
+            update: { value },
+        });
+    }
+
+    private async write(matrix: PermissionMatrix): Promise<void> {
+        const data = Object.entries(matrix).flatMap(([role, grants]) =>
+            Object.entries(grants).flatMap(([resource, actions]) =>
+                (actions ?? []).map(action => ({ role: role as UserRole, resource, action }))));
+
+        await prisma.$transaction([
+            prisma.rolePermission.deleteMany(),
+            prisma.rolePermission.createMany({ data }),
+            this.markSeeded(),
+        ]);
+        this.cache = null;
+    }
+
+    async can(role: UserRole, resource: PermissionResource, action: PermissionAction): Promise<boolean> {
+        const matrix = await this.load();
+        return matrix[role]?.[resource]?.includes(action) ?? false;
+    }
+
+    async getRolePermissions(role: UserRole): Promise<RoleGrants> {
+        const matrix = await this.load();
+        return matrix[role] ?? {};
+    }
+
+    async getMatrix(): Promise<PermissionMatrix> {
+        return this.load();
+    }
+
+    // Replaces the grants of every role listed; roles left out keep theirs
+    async updateMatrix(update: Partial<Record<UserRole, Record<string, string[]>>>): Promise<PermissionMatrix> {
+        const matrix = structuredClone(await this.load());
+
+        for (const [role, grants] of Object.entries(update) as Array<[UserRole, Record<string, string[]>]>) {
+            const roleGrants: RoleGrants = {};
+            for (const [resource, actions] of Object.entries(grants)) {
+                if (!isPermissionResource(resource)) {
+                    throw new PermissionError(`Unknown resource: ${resource}`, 400);
+                }
+                const invalid = actions.filter(a => !isResourceAction(resource, a));
+                if (invalid.length > 0) {
+                    throw new PermissionError(`${PERMISSION_RESOURCES[resource].label} has no ${invalid.join(', ')} permission`, 400);
+                }
+                if (actions.length > 0) roleGrants[resource] = PERMISSION_ACTIONS.filter(a => actions.includes(a));
+            }
+            matrix[role] = roleGrants;
+        }
+
+        await this.write(this.withLockedGrants(matrix));
+        return this.load();
+    }
+
+    async resetToDefaults(): Promise<PermissionMatrix> {
+        await this.write(defaultRolePermissions());
+        return this.load();
+    }
+}
+
+export const permissionService = new PermissionService();
@@ -0,0 +1,347 @@
+import { Expense, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { getFiscalYear, lockKey } from '../utils/helpers.js';
+import { approvalService } from './approval.service.js';
+import { archiveService } from './archive.service.js';
+import { ledgerService } from './ledger.service.js';
+
+export class ProcurementError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'ProcurementError';
+    }
+}
+
+type Db = Prisma.TransactionClient;
+
+export interface IndentInput {
+    category: string;
+    description: string;
+    justification?: string;
+    vendor?: string;
+    estimatedINR: number;
+    fiscalYear?: string;
+}
+
+export interface PurchaseOrderInput {
+    poNumber: string;
+    vendor: string;
+    amountINR: number;
+}
+
+const formatINR = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const headOf = (record: { projectId: string; fiscalYear: string; category: string }) => ({
+    projectId: record.projectId,
+    fiscalYear: record.fiscalYear,
+    category: record.category,
+});
+
+/**
+ * Indents and purchase orders encumber a budget head before money is spent.
+ * An approved indent commits its estimate; issuing the purchase order moves the
+ * commitment to the order amount; invoices booked as expenses against the order
+ * draw it down, and closing or cancelling releases what is left.
+ */
+export class ProcurementService {
+    async listIndents(projectId: string) {
+        return prisma.purchaseIndent.findMany({
+            where: { projectId },
+            include: {
+                requestedBy: { select: { id: true, firstName: true, lastName: true } },
+                purchaseOrders: { select: { id: true, poNumber: true, status: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async listOrders(projectId: string, status?: 'OPEN' | 'CLOSED' | 'CANCELLED') {
+        return prisma.purchaseOrder.findMany({
+            where: { projectId, ...(status ? { status } : {}) },
+            include: {
+                indent: { select: { indentNumber: true } },
+                issuedBy: { select: { firstName: true, lastName: true } },
+            },
+            orderBy: { issuedAt: 'desc' },
+        });
+    }
+
+    async getIndent(id: string) {
+        const indent = await prisma.purchaseIndent.findUnique({
+            where: { id },
+            include: { project: { select: { code: true } } },
+        });
+        if (!indent) throw new ProcurementError('Indent not found', 404);
+        return indent;
+    }
+
+    async getOrder(id: string) {
+        const order = await prisma.purchaseOrder.findUnique({ where: { id }, include: { indent: true } });
+        if (!order) throw new ProcurementError('Purchase order not found', 404);
+        return order;
+    }
+
+    // Raises an indent and sends it for approval; nothing is committed until it is approved
+    async raiseIndent(projectId: string, input: IndentInput, userId: string) {
+        const project = await prisma.project.findUnique({ where: { id: projectId }, select: { code: true } });
+        if (!project) throw new ProcurementError('Project not found', 404);
+
+        const fiscalYear = input.fiscalYear ?? getFiscalYear(new Date());
+        await archiveService.assertBudgetWritable(projectId, fiscalYear);
+
+        // Pending indents reserve nothing, so this is checked again on approval
+        const head = { projectId, fiscalYear, category: input.category };
+        await this.assertAvailable(prisma, head, input.estimatedINR);
+
+        // Numbered under the project's lock so concurrent indents get distinct numbers
+        const indent = await prisma.$transaction(async (tx) => {
+            await lockKey(tx, `indent:${projectId}`);
+            const sequence = (await tx.purchaseIndent.count({ where: { projectId } })) + 1;
+            return tx.purchaseIndent.create({
+                data: {
+                    indentNumber: `IND/${project.code}/${fiscalYear}/${sequence.toString().padStart(3, '0')}`,
+                    projectId,
+                    fiscalYear,
+                    category: input.category,
+                    description: input.description,
+                    justification: input.justification,
+                    vendor: input.vendor,
+                    estimatedINR: input.estimatedINR,
+                    requestedById: userId,
+                },
+            });
+        });
+
+        await approvalService.start({
+            type: 'PURCHASE_INDENT',
+            entityType: 'PurchaseIndent',
+            entityId: indent.id,
+            requesterId: userId,
+            title: `Indent ${indent.indentNumber} of ₹${indent.estimatedINR.toLocaleString('en-IN')} for ${input.category}: ${input.description}`,
+            link: `/projects/${projectId}`,
+            amount: indent.estimatedINR,
+        });
+        return indent;
+    }
+
+    // Outcome of the PURCHASE_INDENT workflow; approval commits the estimate
+    async decideIndent(id: string, actorId: string, approved: boolean, comments?: string) {
+        const indent = await this.getIndent(id);
+        if (indent.status !== 'PENDING_APPROVAL') {
+            throw new ProcurementError('This indent is no longer awaiting approval', 409);
+        }
+        // The year may have been closed since the indent was raised
+        if (approved) await archiveService.assertBudgetWritable(indent.projectId, indent.fiscalYear);
+
+        return prisma.$transaction(async (tx) => {
+            if (approved) await this.assertAvailable(tx, headOf(indent), indent.estimatedINR);
+            const decided = await tx.purchaseIndent.update({
+                where: { id },
+                data: {
+                    status: approved ? 'APPROVED' : 'REJECTED',
+                    approvedById: approved ? actorId : null,
+                    approvedAt: approved ? new Date() : null,
+                    comments,
+                },
+            });
+            if (approved) {
+                await ledgerService.commit(tx, headOf(indent), indent.estimatedINR, {
+                    description: `Indent ${indent.indentNumber} approved`,
+                    sourceType: 'PurchaseIndent',
+                    sourceId: id,
+                    createdById: actorId,
+                });
+            }
+            return decided;
+        });
+    }
+
+    private async assertAvailable(db: Db, head: { projectId: string; fiscalYear: string; category: string }, amountINR: number) {
+        const available = await ledgerService.available(db, head);
+        if (amountINR > available + 0.01) {
+            throw new ProcurementError(
+                `Only ${formatINR(Math.max(available, 0))} is available under ${head.category} for ${head.fiscalYear}; the indent needs ${formatINR(amountINR)}`,
+                409
+            );
+        }
+    }
+
+    // Withdraws a pending indent or releases an approved one that was never ordered
+    async cancelIndent(id: string, actorId: string, reason: string) {
+        const indent = await this.getIndent(id);
+        if (!['PENDING_APPROVAL', 'APPROVED'].includes(indent.status)) {
+            throw new ProcurementError(`Cannot cancel an indent that is ${indent.status.toLowerCase()}`, 409);
+        }
+        await archiveService.assertBudgetWritable(indent.projectId, indent.fiscalYear);
+
+        if (indent.status === 'PENDING_APPROVAL') {
+            await approvalService.cancel('PurchaseIndent', id, reason);
+        }
+
+        const cancelled = await prisma.$transaction(async (tx) => {
+            if (indent.status === 'APPROVED') {
+                await ledgerService.releaseCommitment(tx, headOf(indent), indent.estimatedINR, {
+                    description: `Indent ${indent.indentNumber} cancelled: ${reason}`,
+                    sourceType: 'PurchaseIndent',
+                    sourceId: id,
+                    createdById: actorId,
+                });
+            }
+            return tx.purchaseIndent.update({
+                where: { id },
+                data: { status: 'CANCELLED', cancelledAt: new Date(), comments: reason },
+            });
+        });
+        return { before: indent, indent: cancelled };
+    }
+
+    // The order replaces the indent's estimate with the ordered amount
+    async issueOrder(indentId: string, input: PurchaseOrderInput, actorId: string) {
+        const indent = await this.getIndent(indentId);
+        if (indent.status !== 'APPROVED') {
+            throw new ProcurementError('Purchase orders can only be issued against an approved indent', 409);
+        }
+        if (await prisma.purchaseOrder.findUnique({ where: { poNumber: input.poNumber } })) {
+            throw new ProcurementError(`Purchase order ${input.poNumber} already exists`, 409);
+        }
+        await archiveService.assertBudgetWritable(indent.projectId, indent.fiscalYear);
+
+        return prisma.$transaction(async (tx) => {
+            const order = await tx.purchaseOrder.create({
+                data: {
+                    poNumber: input.poNumber,
+                    indentId,
+                    projectId: indent.projectId,
+                    fiscalYear: indent.fiscalYear,
+                    category: indent.category,
+                    vendor: input.vendor,
+                    amountINR: input.amountINR,
+                    issuedById: actorId,
+                },
+            });
+            await tx.purchaseIndent.update({ where: { id: indentId }, data: { status: 'ORDERED' } });
+
+            const ref = { sourceType: 'PurchaseOrder', sourceId: order.id, createdById: actorId };
+            await ledgerService.releaseCommitment(tx, headOf(indent), indent.estimatedINR, {
+                ...ref,
+                description: `Indent ${indent.indentNumber} ordered as PO ${order.poNumber}`,
+            });
+            await ledgerService.commit(tx, headOf(order), order.amountINR, {
+                ...ref,
+                description: `PO ${order.poNumber} issued to ${order.vendor}`,
+            });
+            return order;
+        });
+    }
+
+    // Releases whatever has not been invoiced, e.g. after a short supply
+    async closeOrder(id: string, actorId: string, comments?: string) {
+        const order = await this.getOrder(id);
+        if (order.status !== 'OPEN') throw new ProcurementError(`Purchase order ${order.poNumber} is not open`, 409);
+        await archiveService.assertBudgetWritable(order.projectId, order.fiscalYear);
+
+        const closed = await prisma.$transaction(async (tx) => {
+            await this.releaseRemainder(tx, order, actorId, `PO ${order.poNumber} closed`);
+            return tx.purchaseOrder.update({
+                where: { id },
+                data: { status: 'CLOSED', closedAt: new Date(), comments },
+            });
+        });
+        return { before: order, order: closed };
+    }
+
+    /**
+     * Cancels an order nothing has been invoiced against. Its indent goes back to
+     * approved with the estimate committed again, so it can be ordered elsewhere
+     * or cancelled.
+     */
+    async cancelOrder(id: string, actorId: string, reason: string) {
+        const order = await this.getOrder(id);
+        if (order.status !== 'OPEN') throw new ProcurementError(`Purchase order ${order.poNumber} is not open`, 409);
+        if (order.invoicedINR > 0) {
+            throw new ProcurementError('Invoices have been booked against this order; close it instead', 409);
+        }
+        await archiveService.assertBudgetWritable(order.projectId, order.fiscalYear);
+
+        const cancelled = await prisma.$transaction(async (tx) => {
+            await this.releaseRemainder(tx, order, actorId, `PO ${order.poNumber} cancelled: ${reason}`);
+            await ledgerService.commit(tx, headOf(order.indent), order.indent.estimatedINR, {
+                description: `Indent ${order.indent.indentNumber} reopened`,
+                sourceType: 'PurchaseIndent',
+                sourceId: order.indentId,
+                createdById: actorId,
+            });
+            await tx.purchaseIndent.update({ where: { id: order.indentId }, data: { status: 'APPROVED' } });
+            return tx.purchaseOrder.update({
+                where: { id },
+                data: { status: 'CANCELLED', closedAt: new Date(), comments: reason },
+            });
+        });
+        return { before: order, order: cancelled };
+    }
+
+    private async releaseRemainder(db: Db, order: { id: string; projectId: string; fiscalYear: string; category: string; amountINR: number; invoicedINR: number }, actorId: string, description: string) {
+        const remaining = order.amountINR - order.invoicedINR;
+        if (remaining <= 0) return;
+        await ledgerService.releaseCommitment(db, headOf(order), remaining, {
+            description,
+            sourceType: 'PurchaseOrder',
+            sourceId: order.id,
+            createdById: actorId,
+        });
+    }
+
+    // An expense may be raised against an open order of the same project
+    async assertOrderForExpense(purchaseOrderId: string, projectId: string) {
+        const order = await prisma.purchaseOrder.findUnique({ where: { id: purchaseOrderId } });
+        if (!order || order.projectId !== projectId) throw new ProcurementError('Purchase order not found for this project', 404);
+        if (order.status !== 'OPEN') throw new ProcurementError(`Purchase order ${order.poNumber} is not open`, 409);
+        return order;
+    }
+
+    /**
+     * Part of a booked invoice covered by its order's outstanding commitment.
+     * Draws it down and closes the order once fully invoiced; the rest of the
+     * invoice is spent from the head's available budget. Commitments live in the
+     * order's fiscal year, so invoices booked in another year draw nothing.
+     */
+    async drawOnOrder(db: Db, expense: Pick<Expense, 'purchaseOrderId' | 'amountINR'>, fiscalYear: string): Promise<number> {
+        if (!expense.purchaseOrderId) return 0;
+        const order = await db.purchaseOrder.findUnique({ where: { id: expense.purchaseOrderId } });
+        if (!order || order.status !== 'OPEN' || order.fiscalYear !== fiscalYear) return 0;
+
+        const drawn = Math.min(expense.amountINR, Math.max(order.amountINR - order.invoicedINR, 0));
+        const invoicedINR = order.invoicedINR + drawn;
+        await db.purchaseOrder.update({
+            where: { id: order.id },
+            data: {
+                invoicedINR,
+                ...(invoicedINR >= order.amountINR - 0.01 ? { status: 'CLOSED', closedAt: new Date() } : {}),
+            },
+        });
+        return drawn;
+    }
+
+    /**
+     * Undoes drawOnOrder after the expense's ledger postings were reversed, which
+     * put the drawn amount back into COMMITTED. An order that is no longer open
+     * has nothing to commit to, so the amount is released again.
+     */
+    async restoreOrder(db: Db, expense: Pick<Expense, 'id' | 'purchaseOrderId' | 'fromCommitmentINR'>, head: { projectId: string; fiscalYear: string; category: string }, actorId: string) {
+        if (!expense.purchaseOrderId || expense.fromCommitmentINR <= 0) return;
+        const order = await db.purchaseOrder.update({
+            where: { id: expense.purchaseOrderId },
+            data: { invoicedINR: { decrement: expense.fromCommitmentINR } },
+        });
+        if (order.status === 'OPEN') return;
+
+        await ledgerService.releaseCommitment(db, head, expense.fromCommitmentINR, {
+            description: `Reversed invoice on PO ${order.poNumber}, which is ${order.status.toLowerCase()}`,
+            sourceType: 'PurchaseOrder',
+            sourceId: order.id,
+            createdById: actorId,
+        });
+    }
+}
+
+export const procurementService = new ProcurementService();
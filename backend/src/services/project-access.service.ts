@@ -0,0 +1,85 @@
+import { ProjectRole, UserRole } from '@prisma/client';
+import prisma from '../config/database.js';
+import { PermissionAction, PermissionResource } from '../config/permissions.js';
+import { permissionService } from './permission.service.js';
+
+export type ProjectAccessLevel = 'view' | 'contribute' | 'manage';
+
+// 'PI' is the project head; the rest come from ProjectStaff.projectRole
+export type ProjectMemberRole = 'PI' | ProjectRole;
+
+export interface ProjectAccess {
+    role: ProjectMemberRole | null;
+    level: ProjectAccessLevel | null;
+}
+
+const LEVEL_RANK: Record<ProjectAccessLevel, number> = { view: 1, contribute: 2, manage: 3 };
+
+const MEMBER_LEVEL: Record<ProjectMemberRole, ProjectAccessLevel> = {
+    PI: 'manage',
+    CO_PI: 'manage',
+    MEMBER: 'contribute',
+    VIEWER: 'view',
+};
+
+// Roles that act on every project; what they may do is decided by the permission matrix
+const INSTITUTE_ROLES: UserRole[] = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL', 'RC_MEMBER'];
+
+export const meetsLevel = (level: ProjectAccessLevel | null, required: ProjectAccessLevel): boolean =>
+    !!level && LEVEL_RANK[level] >= LEVEL_RANK[required];
+
+/**
+ * Project-level authorization. Members are limited to the projects they are on,
+ * at the level of their project role, whatever their institute role; a Co-PI has
+ * the PI's rights on that project only. Institute roles reach every project
+ * through the permission matrix.
+ */
+export class ProjectAccessService {
+    // Null when the project does not exist
+    async getAccess(userId: string, projectId: string): Promise<ProjectAccess | null> {
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            select: {
+                projectHeadId: true,
+                staff: { where: { userId, isActive: true }, select: { projectRole: true } },
+            },
+        });
+        if (!project) return null;
+
+        const role: ProjectMemberRole | null = project.projectHeadId === userId ? 'PI' : project.staff[0]?.projectRole ?? null;
+        return { role, level: role ? MEMBER_LEVEL[role] : null };
+    }
+
+    // User ids of the PI and active Co-PIs
+    async getManagerIds(projectId: string): Promise<string[]> {
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            select: {
+                projectHeadId: true,
+                staff: { where: { isActive: true, projectRole: 'CO_PI' }, select: { userId: true } },
+            },
+        });
+        return project ? [project.projectHeadId, ...project.staff.map(s => s.userId)] : [];
+    }
+
+    /**
+     * Whether the user may act on the project at the given level. `permission` is
+     * the matrix grant that lets institute roles do the same on any project; when
+     * it is left out they may only view. Null when the project does not exist.
+     */
+    async can(
+        user: { userId: string; role: UserRole },
+        projectId: string,
+        level: ProjectAccessLevel,
+        permission?: [PermissionResource, PermissionAction]
+    ): Promise<boolean | null> {
+        const access = await this.getAccess(user.userId, projectId);
+        if (!access) return null;
+        if (meetsLevel(access.level, level)) return true;
+
+        if (!INSTITUTE_ROLES.includes(user.role)) return false;
+        return permission ? permissionService.can(user.role, ...permission) : level === 'view';
+    }
+}
+
+export const projectAccessService = new ProjectAccessService();
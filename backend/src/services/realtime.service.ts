@@ -0,0 +1,144 @@
+import jwt from 'jsonwebtoken';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Notification } from '@prisma/client';
+import { config } from '../config/index.js';
+import prisma from '../config/database.js';
+import { JwtPayload } from '../middleware/auth.middleware.js';
+import { projectAccessService } from './project-access.service.js';
+
+export type ProjectEventEntity = 'milestone' | 'comment' | 'budget' | 'report' | 'expense';
+
+export interface ProjectEvent {
+    projectId: string;
+    entity: ProjectEventEntity;
+    action: 'created' | 'updated' | 'deleted' | 'submitted' | 'approved' | 'rejected' | 'returned';
+    entityId: string;
+    actorId?: string;
+    // Only the author and oversight roles receive events about private items
+    isPrivate?: boolean;
+}
+
+type ProjectEventPayload = Omit<ProjectEvent, 'isPrivate'>;
+
+// Events the server pushes; mirrored by ServerEvents in the frontend's useSocket
+export interface ServerEvents {
+    'notification': (notification: Pick<Notification, 'id' | 'type' | 'title' | 'message' | 'link' | 'isRead' | 'createdAt'>) => void;
+    'project:updated': (event: ProjectEventPayload) => void;
+    'dashboard:updated': (event: ProjectEventPayload) => void;
+}
+
+// Events clients send; project ids are still checked, as any client can send anything
+export interface ClientEvents {
+    'subscribe:project': (projectId: string, ack?: (result: { ok: boolean; error?: string }) => void) => void;
+    'unsubscribe:project': (projectId: string) => void;
+}
+
+export interface SocketData {
+    user: JwtPayload;
+}
+
+export type RealtimeServer = SocketIOServer<ClientEvents, ServerEvents, Record<string, never>, SocketData>;
+type AuthedSocket = Socket<ClientEvents, ServerEvents, Record<string, never>, SocketData>;
+
+// Roles that see every project (same set as the project journal and to-dos)
+const oversightRoles = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'];
+
+// Rooms: user:<id> (joined on connect), oversight (oversight roles), project:<id> (on request)
+const userRoom = (userId: string) => `user:${userId}`;
+const projectRoom = (projectId: string) => `project:${projectId}`;
+const OVERSIGHT_ROOM = 'oversight';
+
+/**
+ * Pushes notifications and project changes to connected clients over Socket.IO.
+ * Handshakes carry the access token in `auth.token`; project rooms are only
+ * joinable by those who may view the project.
+ */
+export class RealtimeService {
+    private io: RealtimeServer | null = null;
+
+    attach(io: RealtimeServer): void {
+        this.io = io;
+
+        io.use(async (socket: AuthedSocket, next) => {
+            const token = socket.handshake.auth?.token;
+            if (typeof token !== 'string' || !token) {
+                next(new Error('Access token required'));
+                return;
+            }
+
+            try {
+                const decoded = jwt.verify(token, config.jwt.accessSecret) as JwtPayload;
+                const user = await prisma.user.findUnique({
+                    where: { id: decoded.userId },
+                    select: { isActive: true },
+                });
+                if (!user?.isActive) {
+                    next(new Error('User not found or inactive'));
+                    return;
+                }
+                socket.data.user = decoded;
+                next();
+            } catch (error) {
+                next(new Error(error instanceof jwt.TokenExpiredError ? 'Token expired' : 'Invalid token'));
+            }
+        });
+
+        io.on('connection', (socket: AuthedSocket) => {
+            const { user } = socket.data;
+            socket.join(userRoom(user.userId));
+            if (oversightRoles.includes(user.role)) socket.join(OVERSIGHT_ROOM);
+
+            socket.on('subscribe:project', async (projectId: unknown, ack?: (result: { ok: boolean; error?: string }) => void) => {
+                if (typeof projectId !== 'string' || !(await projectAccessService.can(user, projectId, 'view'))) {
+                    ack?.({ ok: false, error: 'Access denied' });
+                    return;
+                }
+                socket.join(projectRoom(projectId));
+                ack?.({ ok: true });
+            });
+
+            socket.on('unsubscribe:project', (projectId: unknown) => {
+                if (typeof projectId === 'string') socket.leave(projectRoom(projectId));
+            });
+        });
+    }
+
+    notifyUser(notification: Notification): void {
+        if (!this.io) return;
+
+        const { id, userId, type, title, message, link, isRead, createdAt } = notification;
+        this.io.to(userRoom(userId)).emit('notification', { id, type, title, message, link, isRead, createdAt });
+    }
+
+    /**
+     * Tells subscribers of the project that something changed, and nudges the
+     * dashboards of its members and oversight roles to refresh. Events carry ids
+     * only; clients refetch through the REST API, which applies its own filtering.
+     */
+    async projectUpdated(event: ProjectEvent): Promise<void> {
+        if (!this.io) return;
+
+        try {
+            const { isPrivate, ...payload } = event;
+            const project = await prisma.project.findUnique({
+                where: { id: event.projectId },
+                select: { projectHeadId: true, staff: { where: { isActive: true }, select: { userId: true } } },
+            });
+            if (!project) return;
+
+            if (isPrivate) {
+                const rooms = [OVERSIGHT_ROOM, ...(event.actorId ? [userRoom(event.actorId)] : [])];
+                this.io.to(rooms).emit('project:updated', payload);
+                return;
+            }
+
+            const memberIds = [project.projectHeadId, ...project.staff.map(s => s.userId)];
+            this.io.to(projectRoom(event.projectId)).emit('project:updated', payload);
+            this.io.to([OVERSIGHT_ROOM, ...memberIds.map(userRoom)]).emit('dashboard:updated', payload);
+        } catch (error) {
+            console.error('Failed to broadcast project update:', error);
+        }
+    }
+}
+
+export const realtimeService = new RealtimeService();
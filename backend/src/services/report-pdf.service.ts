@@ -0,0 +1,643 @@
+import prisma from '../config/database.js';
+import { baselineService, ProjectVariance } from './baseline.service.js';
+import { evmService, EVMMetrics, EVMPoint } from './evm.service.js';
+import { bookedExpenses } from './expense.service.js';
+import { pdfService, htmlToText, formatDate, LetterheadTemplate, PdfBlock, PdfSection } from './pdf.service.js';
+
+interface ReportOptions {
+    letterhead?: LetterheadTemplate;
+    generatedBy?: string;
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Signed slip, e.g. "+12 days" late or "-3 days" early
+const slip = (days: number | null) => (days === null ? '-' : days === 0 ? 'On plan' : `${days > 0 ? '+' : ''}${days} days`);
+
+const fullName = (user?: { firstName: string; lastName: string } | null) => (user ? `${user.firstName} ${user.lastName}` : '-');
+
+/**
+ * Builds the standard PDF reports (dashboard, RC meeting pack, project progress)
+ * from live data and renders them through the PDF service.
+ */
+export class ReportPdfService {
+    // Budget allocated vs spent per category; expense categories are free text so match case-insensitively
+    private categorySpend(
+        budgets: Array<{ category: string; amountINR: number }>,
+        expenses: Array<{ category: string; amountINR: number }>
+    ) {
+        const rows = new Map<string, { category: string; allocated: number; spent: number }>();
+        const row = (category: string) => {
+            const key = category.trim().toUpperCase();
+            const existing = rows.get(key) ?? { category: key, allocated: 0, spent: 0 };
+            rows.set(key, existing);
+            return existing;
+        };
+        budgets.forEach(b => { row(b.category).allocated += b.amountINR; });
+        expenses.forEach(e => { row(e.category).spent += e.amountINR; });
+        return Array.from(rows.values()).sort((a, b) => b.allocated - a.allocated);
+    }
+
+    private evmBlocks(metrics: EVMMetrics, timeSeries: EVMPoint[], title: string): PdfBlock[] {
+        const index = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+        return [
+            {
+                type: 'keyValues',
+                items: [
+                    { label: 'Budget at Completion (BAC)', value: pdfService.formatLakhs(metrics.bac) },
+                    { label: 'Planned / Earned / Actual', value: `${pdfService.formatLakhs(metrics.pv)} / ${pdfService.formatLakhs(metrics.ev)} / ${pdfService.formatLakhs(metrics.ac)}` },
+                    { label: 'CPI / SPI', value: `${index(metrics.cpi)} / ${index(metrics.spi)}` },
+                    { label: 'Estimate at Completion (EAC)', value: pdfService.formatLakhs(metrics.eac) },
+                    { label: 'Variance at Completion (VAC)', value: pdfService.formatLakhs(metrics.vac) },
+                ],
+            },
+            {
+                type: 'lineChart',
+                title,
+                labels: timeSeries.map(p => p.month),
+                series: [
+                    { name: 'Planned Value', values: timeSeries.map(p => p.pv / 100000) },
+                    { name: 'Earned Value', values: timeSeries.map(p => p.ev / 100000), color: '#10b981' },
+                    { name: 'Actual Cost', values: timeSeries.map(p => p.ac / 100000), color: '#ef4444' },
+                ],
+                format: v => `${v.toFixed(v < 10 ? 1 : 0)} L`,
+            },
+        ];
+    }
+
+    private varianceBlocks(variance: ProjectVariance): PdfBlock[] {
+        const { schedule, cost } = variance;
+        const delta = (amount: number) => `${amount > 0 ? '+' : ''}${pdfService.formatLakhs(amount)}`;
+        return [
+            {
+                type: 'keyValues',
+                items: [
+                    { label: 'Baseline', value: `${variance.baseline.name} (captured ${formatDate(variance.baseline.createdAt)})` },
+                    { label: 'Finish: baseline / forecast', value: `${formatDate(schedule.baselineFinish)} / ${formatDate(schedule.forecastFinish)} (${slip(schedule.finishSlipDays)})` },
+                    { label: 'Milestones slipped', value: `${schedule.milestonesSlipped} / ${variance.milestones.length}` },
+                    { label: 'Budget: baseline / current', value: `${pdfService.formatLakhs(cost.baselineBudgetINR)} / ${pdfService.formatLakhs(cost.currentBudgetINR)} (${delta(cost.budgetDeltaINR)})` },
+                    { label: 'Spent against baseline', value: `${pdfService.formatLakhs(cost.spentINR)} (${cost.spentPercentOfBaseline}%)` },
+                ],
+            },
+            {
+                type: 'table',
+                columns: [
+                    { header: 'Milestone', width: 3 },
+                    { header: 'Baseline Due', width: 1.2 },
+                    { header: 'Current Due', width: 1.2 },
+                    { header: 'Slip', width: 1, align: 'right' },
+                ],
+                rows: variance.milestones
+                    .filter(m => m.change !== 'on-plan')
+                    .map(m => [
+                        m.change === 'added' ? `${m.title} (new)` : m.change === 'removed' ? `${m.title} (dropped)` : m.title,
+                        formatDate(m.baselineEnd),
+                        formatDate(m.currentEnd),
+                        slip(m.finishSlipDays),
+                    ]),
+                emptyText: 'All milestones on baseline dates',
+            },
+        ];
+    }
+
+    // ============================================
+    // DASHBOARD REPORT
+    // ============================================
+
+    async dashboardReport(options: ReportOptions = {}): Promise<Buffer> {
+        const [projects, budgets, expenses, risks, evm] = await Promise.all([
+            prisma.project.findMany({
+                select: {
+                    code: true,
+                    title: true,
+                    category: true,
+                    status: true,
+                    progress: true,
+                    endDate: true,
+                    projectHead: { select: { firstName: true, lastName: true } },
+                    vertical: { select: { name: true, code: true } },
+                },
+                orderBy: { code: 'asc' },
+            }),
+            prisma.budget.findMany({ select: { category: true, amountINR: true } }),
+            prisma.expense.findMany({ where: bookedExpenses, select: { category: true, amountINR: true } }),
+            prisma.risk.findMany({
+                where: { status: { in: ['OPEN', 'MITIGATING'] } },
+                include: {
+                    project: { select: { code: true } },
+                    owner: { select: { firstName: true, lastName: true } },
+                },
+                orderBy: [{ score: 'desc' }, { reviewDate: 'asc' }],
+                take: 25,
+            }),
+            evmService.getPortfolioEVM({}, { months: 12 }),
+        ]);
+
+        const countBy = (key: (p: typeof projects[number]) => string) => {
+            const counts = new Map<string, number>();
+            projects.forEach(p => counts.set(key(p), (counts.get(key(p)) ?? 0) + 1));
+            return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+        };
+        const byStatus = countBy(p => p.status);
+        const byCategory = countBy(p => p.category);
+        const byVertical = countBy(p => p.vertical?.code ?? '-');
+        const spend = this.categorySpend(budgets, expenses);
+        const totalAllocated = spend.reduce((sum, s) => sum + s.allocated, 0);
+        const totalSpent = spend.reduce((sum, s) => sum + s.spent, 0);
+
+        const sections: PdfSection[] = [
+            {
+                title: 'Portfolio Summary',
+                blocks: [
+                    {
+                        type: 'stats',
+                        items: [
+                            { label: 'Total Projects', value: String(projects.length) },
+                            { label: 'Active Projects', value: String(projects.filter(p => p.status === 'ACTIVE').length) },
+                            { label: 'Completed', value: String(projects.filter(p => p.status === 'COMPLETED').length) },
+                            { label: 'Open Risks', value: String(risks.length) },
+                        ],
+                    },
+                    { type: 'pieChart', title: 'Projects by Status', items: byStatus.map(([label, value]) => ({ label, value })) },
+                    {
+                        type: 'barChart',
+                        title: 'Projects by Category and Vertical',
+                        labels: [...byCategory.map(([label]) => label), ...byVertical.map(([label]) => label)],
+                        series: [{ name: 'Projects', values: [...byCategory.map(([, v]) => v), ...byVertical.map(([, v]) => v)] }],
+                    },
+                ],
+            },
+            {
+                title: 'Financial Summary',
+                blocks: [
+                    {
+                        type: 'stats',
+                        items: [
+                            { label: 'Allocated', value: pdfService.formatLakhs(totalAllocated) },
+                            { label: 'Spent', value: pdfService.formatLakhs(totalSpent) },
+                            { label: 'Utilization', value: `${percent(totalSpent, totalAllocated)}%` },
+                            { label: 'Portfolio CPI', value: evm.portfolio.cpi === null ? '-' : evm.portfolio.cpi.toFixed(2) },
+                        ],
+                    },
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Category', width: 2 },
+                            { header: 'Allocated', align: 'right' },
+                            { header: 'Spent', align: 'right' },
+                            { header: 'Utilization', align: 'right' },
+                        ],
+                        rows: spend.map(s => [s.category, pdfService.formatLakhs(s.allocated), pdfService.formatLakhs(s.spent), `${percent(s.spent, s.allocated)}%`]),
+                        emptyText: 'No budget allocations recorded',
+                    },
+                    {
+                        type: 'barChart',
+                        title: `Allocated vs Spent by Category (${pdfService.rupee} Lakhs)`,
+                        labels: spend.map(s => s.category),
+                        series: [
+                            { name: 'Allocated', values: spend.map(s => s.allocated / 100000) },
+                            { name: 'Spent', values: spend.map(s => s.spent / 100000), color: '#f59e0b' },
+                        ],
+                        format: v => v.toFixed(0),
+                    },
+                    { type: 'heading', text: 'Earned Value (last 12 months)' },
+                    ...this.evmBlocks(evm.portfolio, evm.timeSeries, `Portfolio S-Curve (${pdfService.rupee} Lakhs)`),
+                ],
+            },
+            {
+                title: 'Project Register',
+                newPage: true,
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Code', width: 1.6 },
+                            { header: 'Title', width: 3.4 },
+                            { header: 'Category', width: 0.9 },
+                            { header: 'Status', width: 1.1 },
+                            { header: 'Progress', width: 0.9, align: 'right' },
+                            { header: 'Project Head', width: 1.6 },
+                            { header: 'End Date', width: 1.2 },
+                        ],
+                        rows: projects.map(p => [
+                            p.code,
+                            p.title,
+                            p.category,
+                            p.status,
+                            `${p.progress}%`,
+                            fullName(p.projectHead),
+                            formatDate(p.endDate),
+                        ]),
+                        emptyText: 'No projects',
+                    },
+                ],
+            },
+            {
+                title: 'Top Open Risks',
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Project', width: 1.5 },
+                            { header: 'Risk', width: 3.5 },
+                            { header: 'Score', width: 0.7, align: 'right' },
+                            { header: 'Status', width: 1.1 },
+                            { header: 'Owner', width: 1.5 },
+                            { header: 'Review', width: 1.2 },
+                        ],
+                        rows: risks.map(r => [r.project.code, r.title, r.score, r.status, fullName(r.owner), formatDate(r.reviewDate)]),
+                        emptyText: 'No open risks',
+                    },
+                ],
+            },
+        ];
+
+        return pdfService.render({
+            title: 'CSIR-SERC Project Management Report',
+            subtitle: 'Portfolio Dashboard',
+            letterhead: options.letterhead,
+            generatedBy: options.generatedBy,
+            meta: [{ label: 'Projects', value: String(projects.length) }],
+            sections,
+        });
+    }
+
+    // ============================================
+    // RC MEETING PACK
+    // ============================================
+
+    // Agenda plus, when `detailed`, per-project statistics for every project item
+    async meetingPack(meetingId: string, options: ReportOptions & { detailed?: boolean } = {}): Promise<Buffer | null> {
+        const meeting = await prisma.rCMeeting.findUnique({
+            where: { id: meetingId },
+            include: {
+                agendaItems: {
+                    orderBy: { itemNumber: 'asc' },
+                    include: {
+                        project: {
+                            include: {
+                                vertical: true,
+                                projectHead: { select: { firstName: true, lastName: true, designation: true } },
+                                staff: { where: { isActive: true }, select: { id: true } },
+                                budgets: { select: { category: true, amountINR: true } },
+                                expenses: { where: bookedExpenses, select: { category: true, amountINR: true } },
+                                milestones: { orderBy: [{ order: 'asc' }, { endDate: 'asc' }] },
+                                outputs: { select: { id: true } },
+                                risks: {
+                                    where: { status: { in: ['OPEN', 'MITIGATING'] } },
+                                    orderBy: { score: 'desc' },
+                                    take: 5,
+                                },
+                            },
+                        },
+                        comments: {
+                            include: { user: { select: { firstName: true, lastName: true, role: true } } },
+                            orderBy: { createdAt: 'asc' },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!meeting) return null;
+
+        const sections: PdfSection[] = [
+            {
+                title: 'Agenda',
+                blocks: [
+                    ...(meeting.description ? [{ type: 'paragraph' as const, text: meeting.description }] : []),
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'No.', width: 0.5 },
+                            { header: 'Item', width: 4 },
+                            { header: 'Type', width: 1.4 },
+                            { header: 'Presenter', width: 1.6 },
+                            { header: 'Duration', width: 0.9, align: 'right' },
+                        ],
+                        rows: meeting.agendaItems.map(item => [
+                            item.itemNumber,
+                            item.project ? `${item.title} (${item.project.code})` : item.title,
+                            item.type,
+                            item.presenter ?? '-',
+                            item.duration ? `${item.duration} min` : '-',
+                        ]),
+                        emptyText: 'No agenda items',
+                    },
+                ],
+            },
+        ];
+
+        for (const item of meeting.agendaItems) {
+            const blocks: PdfBlock[] = [
+                {
+                    type: 'keyValues',
+                    items: [
+                        { label: 'Type', value: item.type },
+                        { label: 'Presenter', value: item.presenter ?? '-' },
+                        { label: 'Duration', value: item.duration ? `${item.duration} minutes` : '-' },
+                        ...(item.status ? [{ label: 'Decision', value: item.status }] : []),
+                        ...(item.remarks ? [{ label: 'Remarks', value: item.remarks }] : []),
+                    ],
+                },
+            ];
+            if (item.description) blocks.push({ type: 'paragraph', text: item.description });
+
+            const project = item.project;
+            if (project && options.detailed) {
+                const spend = this.categorySpend(project.budgets, project.expenses);
+                const allocated = spend.reduce((sum, s) => sum + s.allocated, 0);
+                const spent = spend.reduce((sum, s) => sum + s.spent, 0);
+                const completed = project.milestones.filter(m => m.status === 'COMPLETED').length;
+
+                blocks.push(
+                    { type: 'heading', text: `Project ${project.code}` },
+                    {
+                        type: 'keyValues',
+                        items: [
+                            { label: 'Title', value: project.title },
+                            { label: 'Principal Investigator', value: `${fullName(project.projectHead)}${project.projectHead.designation ? `, ${project.projectHead.designation}` : ''}` },
+                            { label: 'Vertical', value: project.vertical?.name ?? '-' },
+                            { label: 'Timeline', value: `${formatDate(project.startDate)} to ${formatDate(project.endDate)}` },
+                            { label: 'Team / Outputs', value: `${project.staff.length} active staff, ${project.outputs.length} outputs` },
+                        ],
+                    },
+                    {
+                        type: 'stats',
+                        items: [
+                            { label: 'Progress', value: `${project.progress}%` },
+                            { label: 'Budget', value: pdfService.formatLakhs(allocated) },
+                            { label: 'Utilized', value: `${percent(spent, allocated)}%` },
+                            { label: 'Milestones', value: `${completed} / ${project.milestones.length}` },
+                        ],
+                    },
+                    {
+                        type: 'barChart',
+                        title: `Budget vs Spent (${pdfService.rupee} Lakhs)`,
+                        labels: spend.map(s => s.category),
+                        series: [
+                            { name: 'Allocated', values: spend.map(s => s.allocated / 100000) },
+                            { name: 'Spent', values: spend.map(s => s.spent / 100000), color: '#f59e0b' },
+                        ],
+                        format: v => v.toFixed(1),
+                        height: 120,
+                    },
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Milestone', width: 3 },
+                            { header: 'Due', width: 1.2 },
+                            { header: 'Status', width: 1.2 },
+                            { header: 'Progress', width: 0.9, align: 'right' },
+                        ],
+                        rows: project.milestones.map(m => [m.title, formatDate(m.endDate), m.status, `${m.progress}%`]),
+                        emptyText: 'No milestones defined',
+                    },
+                );
+
+                const variance = await baselineService.variance(project.id);
+                if (variance) {
+                    blocks.push({ type: 'heading', text: `Variance vs ${variance.baseline.name}` }, ...this.varianceBlocks(variance));
+                }
+
+                if (project.risks.length > 0) {
+                    blocks.push({
+                        type: 'table',
+                        columns: [
+                            { header: 'Open Risk', width: 3.5 },
+                            { header: 'Score', width: 0.7, align: 'right' },
+                            { header: 'Mitigation', width: 3 },
+                        ],
+                        rows: project.risks.map(r => [r.title, r.score, r.mitigation ?? '-']),
+                    });
+                }
+            }
+
+            if (item.comments.length > 0) {
+                blocks.push({
+                    type: 'table',
+                    columns: [
+                        { header: 'Comment', width: 4 },
+                        { header: 'By', width: 1.6 },
+                        { header: 'Date', width: 1.1 },
+                    ],
+                    rows: item.comments.map(c => [
+                        `${c.isRecommendation ? '[Recommendation] ' : ''}${htmlToText(c.content)}`,
+                        `${fullName(c.user)} (${c.user.role})`,
+                        formatDate(c.createdAt),
+                    ]),
+                });
+            }
+
+            sections.push({
+                title: `Item ${item.itemNumber}: ${truncate(item.title, 70)}`,
+                newPage: !!(project && options.detailed),
+                blocks,
+            });
+        }
+
+        return pdfService.render({
+            title: meeting.title,
+            subtitle: options.detailed ? `Research Council Meeting No. ${meeting.meetingNumber} - Meeting Pack` : `Research Council Meeting No. ${meeting.meetingNumber} - Agenda`,
+            letterhead: options.letterhead ?? 'rc',
+            generatedBy: options.generatedBy,
+            meta: [
+                { label: 'Meeting No.', value: String(meeting.meetingNumber) },
+                { label: 'Date', value: formatDate(meeting.date) },
+                { label: 'Venue', value: meeting.venue ?? '-' },
+                { label: 'Agenda Items', value: String(meeting.agendaItems.length) },
+            ],
+            sections,
+        });
+    }
+
+    // ============================================
+    // PROJECT PROGRESS REPORT
+    // ============================================
+
+    async projectProgressReport(projectId: string, options: ReportOptions = {}): Promise<Buffer | null> {
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            include: {
+                vertical: true,
+                projectHead: { select: { firstName: true, lastName: true, designation: true, email: true } },
+                staff: {
+                    where: { isActive: true },
+                    include: { user: { select: { firstName: true, lastName: true, designation: true } } },
+                },
+                milestones: { orderBy: [{ order: 'asc' }, { endDate: 'asc' }] },
+                budgets: { orderBy: [{ fiscalYear: 'asc' }, { category: 'asc' }] },
+                expenses: { where: bookedExpenses, select: { category: true, amountINR: true } },
+                outputs: { orderBy: { createdAt: 'desc' } },
+                risks: { where: { status: { not: 'CLOSED' } }, orderBy: { score: 'desc' }, include: { owner: { select: { firstName: true, lastName: true } } } },
+                projectReports: {
+                    where: { status: 'APPROVED' },
+                    orderBy: { createdAt: 'desc' },
+                    take: 5,
+                    include: { submittedBy: { select: { firstName: true, lastName: true } } },
+                },
+            },
+        });
+
+        if (!project) return null;
+
+        const evm = await evmService.getProjectEVM(projectId);
+        const spend = this.categorySpend(project.budgets, project.expenses);
+        const allocated = spend.reduce((sum, s) => sum + s.allocated, 0);
+        const spent = spend.reduce((sum, s) => sum + s.spent, 0);
+        const completed = project.milestones.filter(m => m.status === 'COMPLETED').length;
+
+        const overview: PdfBlock[] = [
+            {
+                type: 'stats',
+                items: [
+                    { label: 'Progress', value: `${project.progress}%` },
+                    { label: 'Milestones Done', value: `${completed} / ${project.milestones.length}` },
+                    { label: 'Budget', value: pdfService.formatLakhs(allocated) },
+                    { label: 'Utilized', value: `${percent(spent, allocated)}%` },
+                ],
+            },
+            {
+                type: 'keyValues',
+                items: [
+                    { label: 'Project Code', value: project.code },
+                    { label: 'Title', value: project.title },
+                    { label: 'Category / Vertical', value: `${project.category} / ${project.vertical?.name ?? '-'}` },
+                    { label: 'Principal Investigator', value: `${fullName(project.projectHead)}${project.projectHead.designation ? `, ${project.projectHead.designation}` : ''}` },
+                    { label: 'Status', value: project.status },
+                    { label: 'Timeline', value: `${formatDate(project.startDate)} to ${formatDate(project.endDate)}` },
+                ],
+            },
+        ];
+        if (project.description) overview.push({ type: 'heading', text: 'Description' }, { type: 'paragraph', text: project.description });
+        if (project.objectives) overview.push({ type: 'heading', text: 'Objectives' }, { type: 'paragraph', text: project.objectives });
+
+        const sections: PdfSection[] = [
+            { title: 'Project Overview', blocks: overview },
+            {
+                title: 'Schedule and Milestones',
+                blocks: [
+                    {
+                        type: 'barChart',
+                        title: 'Milestone Progress (%)',
+                        labels: project.milestones.map(m => truncate(m.title, 18)),
+                        series: [{ name: 'Progress', values: project.milestones.map(m => (m.status === 'COMPLETED' ? 100 : m.progress)) }],
+                        format: v => `${Math.round(v)}%`,
+                        height: 140,
+                    },
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Milestone', width: 3 },
+                            { header: 'Start', width: 1.2 },
+                            { header: 'Due', width: 1.2 },
+                            { header: 'Status', width: 1.2 },
+                            { header: 'Progress', width: 0.9, align: 'right' },
+                        ],
+                        rows: project.milestones.map(m => [m.title, formatDate(m.startDate), formatDate(m.endDate), m.status, `${m.progress}%`]),
+                        emptyText: 'No milestones defined',
+                    },
+                ],
+            },
+            {
+                title: 'Financial Progress',
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Fiscal Year', width: 1 },
+                            { header: 'Category', width: 2 },
+                            { header: 'Allocated', align: 'right', width: 1.3 },
+                            { header: 'Utilized', align: 'right', width: 1.3 },
+                        ],
+                        rows: project.budgets.map(b => [b.fiscalYear, b.category, pdfService.formatINR(b.amountINR), pdfService.formatINR(b.utilized)]),
+                        emptyText: 'No budget allocations recorded',
+                    },
+                    {
+                        type: 'barChart',
+                        title: `Allocated vs Spent by Category (${pdfService.rupee} Lakhs)`,
+                        labels: spend.map(s => s.category),
+                        series: [
+                            { name: 'Allocated', values: spend.map(s => s.allocated / 100000) },
+                            { name: 'Spent', values: spend.map(s => s.spent / 100000), color: '#f59e0b' },
+                        ],
+                        format: v => v.toFixed(1),
+                    },
+                    ...(evm ? [{ type: 'heading' as const, text: 'Earned Value' }, ...this.evmBlocks(evm.metrics, evm.timeSeries, `S-Curve (${pdfService.rupee} Lakhs)`)] : []),
+                ],
+            },
+            {
+                title: 'Risks',
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Risk', width: 3 },
+                            { header: 'L x I', width: 0.8, align: 'center' },
+                            { header: 'Score', width: 0.7, align: 'right' },
+                            { header: 'Status', width: 1.1 },
+                            { header: 'Owner', width: 1.4 },
+                            { header: 'Mitigation', width: 3 },
+                        ],
+                        rows: project.risks.map(r => [r.title, `${r.likelihood} x ${r.impact}`, r.score, r.status, fullName(r.owner), r.mitigation ?? '-']),
+                        emptyText: 'No open risks',
+                    },
+                ],
+            },
+            {
+                title: 'Team and Outputs',
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Name', width: 2 },
+                            { header: 'Designation', width: 2 },
+                            { header: 'Project Role', width: 1.5 },
+                            { header: 'Since', width: 1.2 },
+                        ],
+                        rows: project.staff.map(s => [fullName(s.user), s.user.designation ?? '-', s.role ?? '-', formatDate(s.joinedAt)]),
+                        emptyText: 'No active staff',
+                    },
+                    {
+                        type: 'table',
+                        columns: [
+                            { header: 'Output', width: 3.5 },
+                            { header: 'Type', width: 1.4 },
+                            { header: 'Published In', width: 2 },
+                            { header: 'Date', width: 1.1 },
+                        ],
+                        rows: project.outputs.map(o => [o.title, o.type, o.publishedIn ?? '-', formatDate(o.publishedDate)]),
+                        emptyText: 'No outputs recorded',
+                    },
+                ],
+            },
+            {
+                title: 'Progress Updates',
+                blocks: project.projectReports.length === 0
+                    ? [{ type: 'paragraph', text: 'No approved progress updates.', muted: true }]
+                    : project.projectReports.flatMap((r): PdfBlock[] => [
+                        { type: 'heading', text: `${r.title}${r.period ? ` (${r.period})` : ''}` },
+                        { type: 'paragraph', text: `${r.reportType} report by ${fullName(r.submittedBy)} on ${formatDate(r.createdAt)}`, muted: true },
+                        { type: 'paragraph', text: htmlToText(r.content) },
+                    ]),
+            },
+        ];
+
+        return pdfService.render({
+            title: `${project.code} - Progress Report`,
+            subtitle: project.title,
+            letterhead: options.letterhead,
+            generatedBy: options.generatedBy,
+            meta: [
+                { label: 'Project Code', value: project.code },
+                { label: 'Principal Investigator', value: fullName(project.projectHead) },
+                { label: 'Status', value: project.status },
+            ],
+            sections,
+        });
+    }
+}
+
+export const reportPdfService = new ReportPdfService();
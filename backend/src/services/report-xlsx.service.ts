@@ -0,0 +1,221 @@
+import ExcelJS from 'exceljs';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { bookedExpenses } from './expense.service.js';
+
+interface WorkbookOptions {
+    generatedBy?: string;
+}
+
+type CellKind = 'text' | 'number' | 'percent' | 'inr' | 'date';
+
+interface SheetColumn<T> {
+    header: string;
+    width: number;
+    kind?: CellKind;
+    value: (row: T) => string | number | Date | null | undefined;
+}
+
+// Indian digit grouping (12,34,56,789.00) — Excel has no locale-aware grouping in plain formats
+const INR_FORMAT = '[>=10000000]"₹"##\\,##\\,##\\,##0.00;[>=100000]"₹"##\\,##\\,##0.00;"₹"##,##0.00';
+
+const NUMBER_FORMATS: Record<CellKind, string | undefined> = {
+    text: undefined,
+    number: '#,##0',
+    percent: '0%',
+    inr: INR_FORMAT,
+    date: 'dd-mmm-yyyy',
+};
+
+const HEADER_FILL = 'FF1E3A8A';
+
+const fullName = (user?: { firstName: string; lastName: string } | null) => (user ? `${user.firstName} ${user.lastName}` : '');
+
+/**
+ * Builds the multi-sheet Excel export of the project portfolio. Every sheet is scoped
+ * to the same set of projects so the workbook matches the filtered Projects page.
+ */
+export class ReportXlsxService {
+    // One sheet per dataset: bold frozen header, autofilter, typed cells with number formats
+    private addSheet<T>(workbook: ExcelJS.Workbook, name: string, columns: SheetColumn<T>[], rows: T[]): ExcelJS.Worksheet {
+        const sheet = workbook.addWorksheet(name, {
+            views: [{ state: 'frozen', xSplit: 0, ySplit: 1 }],
+        });
+
+        sheet.columns = columns.map(column => ({
+            header: column.header,
+            width: column.width,
+            style: NUMBER_FORMATS[column.kind ?? 'text'] ? { numFmt: NUMBER_FORMATS[column.kind ?? 'text'] } : {},
+        }));
+
+        rows.forEach(row => {
+            sheet.addRow(columns.map(column => {
+                const value = column.value(row);
+                if (value === null || value === undefined) return null;
+                // Progress is stored as 0-100; Excel percentages are fractions
+                if (column.kind === 'percent' && typeof value === 'number') return value / 100;
+                return value;
+            }));
+        });
+
+        const header = sheet.getRow(1);
+        header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+        header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+        header.alignment = { vertical: 'middle' };
+
+        sheet.autoFilter = {
+            from: { row: 1, column: 1 },
+            to: { row: 1, column: columns.length },
+        };
+
+        return sheet;
+    }
+
+    // Appends a bold totals row summing the given columns
+    private addTotals(sheet: ExcelJS.Worksheet, label: string, columnIndexes: number[]) {
+        const lastRow = sheet.rowCount;
+        if (lastRow < 2) return;
+
+        const totals = sheet.addRow([label]);
+        columnIndexes.forEach(index => {
+            const letter = sheet.getColumn(index).letter;
+            const sum = sheet.getColumn(index).values
+                .slice(2)
+                .reduce<number>((acc, v) => acc + (typeof v === 'number' ? v : 0), 0);
+            totals.getCell(index).value = { formula: `SUM(${letter}2:${letter}${lastRow})`, result: sum };
+        });
+        totals.font = { bold: true };
+    }
+
+    async projectWorkbook(where: Prisma.ProjectWhereInput, options: WorkbookOptions = {}): Promise<Buffer> {
+        const projects = await prisma.project.findMany({
+            where,
+            include: {
+                vertical: { select: { name: true, code: true } },
+                projectHead: { select: { firstName: true, lastName: true } },
+                _count: { select: { staff: true } },
+            },
+            orderBy: { code: 'asc' },
+        });
+
+        const projectIds = projects.map(p => p.id);
+        const scope = { projectId: { in: projectIds } };
+        const codes = new Map(projects.map(p => [p.id, p.code]));
+
+        const [budgets, expenses, cashFlows, staff, milestones] = await Promise.all([
+            prisma.budget.findMany({ where: scope, select: { projectId: true, category: true, fiscalYear: true, amountINR: true, utilized: true } }),
+            prisma.expense.findMany({ where: { ...scope, ...bookedExpenses }, orderBy: [{ invoiceDate: 'desc' }, { createdAt: 'desc' }] }),
+            prisma.cashFlow.findMany({ where: scope, orderBy: { transactionDate: 'desc' } }),
+            prisma.projectStaff.findMany({
+                where: scope,
+                include: { user: { select: { firstName: true, lastName: true, email: true, designation: true } } },
+                orderBy: [{ projectId: 'asc' }, { joinedAt: 'asc' }],
+            }),
+            prisma.milestone.findMany({ where: scope, orderBy: [{ projectId: 'asc' }, { order: 'asc' }, { startDate: 'asc' }] }),
+        ]);
+
+        // Per-project financial roll-up for the Projects sheet
+        const allocated = new Map<string, number>();
+        const spent = new Map<string, number>();
+        budgets.forEach(b => allocated.set(b.projectId, (allocated.get(b.projectId) ?? 0) + b.amountINR));
+        expenses.forEach(e => spent.set(e.projectId, (spent.get(e.projectId) ?? 0) + e.amountINR));
+
+        // Expense categories are free text; group case-insensitively like the dashboard report
+        const categories = new Map<string, { category: string; fiscalYears: Set<string>; allocated: number; utilized: number; spent: number }>();
+        const category = (name: string) => {
+            const key = name.trim().toUpperCase();
+            const existing = categories.get(key) ?? { category: key, fiscalYears: new Set<string>(), allocated: 0, utilized: 0, spent: 0 };
+            categories.set(key, existing);
+            return existing;
+        };
+        budgets.forEach(b => {
+            const row = category(b.category);
+            row.allocated += b.amountINR;
+            row.utilized += b.utilized;
+            row.fiscalYears.add(b.fiscalYear);
+        });
+        expenses.forEach(e => { category(e.category).spent += e.amountINR; });
+
+        const workbook = new ExcelJS.Workbook();
+        workbook.creator = options.generatedBy ?? 'CSIR-SERC Project Management Portal';
+        workbook.created = new Date();
+
+        const projectSheet = this.addSheet(workbook, 'Projects', [
+            { header: 'Code', width: 20, value: p => p.code },
+            { header: 'Title', width: 48, value: p => p.title },
+            { header: 'Category', width: 10, value: p => p.category },
+            { header: 'Vertical', width: 28, value: p => p.vertical?.name },
+            { header: 'Status', width: 18, value: p => p.status },
+            { header: 'Progress', width: 10, kind: 'percent', value: p => p.progress },
+            { header: 'Project Head', width: 24, value: p => fullName(p.projectHead) },
+            { header: 'Start Date', width: 13, kind: 'date', value: p => p.startDate },
+            { header: 'End Date', width: 13, kind: 'date', value: p => p.endDate },
+            { header: 'Team Size', width: 10, kind: 'number', value: p => p._count.staff },
+            { header: 'Allocated (INR)', width: 18, kind: 'inr', value: p => allocated.get(p.id) ?? 0 },
+            { header: 'Spent (INR)', width: 18, kind: 'inr', value: p => spent.get(p.id) ?? 0 },
+        ], projects);
+        this.addTotals(projectSheet, 'Total', [11, 12]);
+
+        const budgetSheet = this.addSheet(workbook, 'Budgets by Category', [
+            { header: 'Category', width: 24, value: c => c.category },
+            { header: 'Fiscal Years', width: 24, value: c => Array.from(c.fiscalYears).sort().join(', ') },
+            { header: 'Allocated (INR)', width: 18, kind: 'inr', value: c => c.allocated },
+            { header: 'Utilized (INR)', width: 18, kind: 'inr', value: c => c.utilized },
+            { header: 'Expenses (INR)', width: 18, kind: 'inr', value: c => c.spent },
+            { header: 'Balance (INR)', width: 18, kind: 'inr', value: c => c.allocated - c.spent },
+        ], Array.from(categories.values()).sort((a, b) => b.allocated - a.allocated));
+        this.addTotals(budgetSheet, 'Total', [3, 4, 5, 6]);
+
+        const expenseSheet = this.addSheet(workbook, 'Expenses', [
+            { header: 'Project', width: 20, value: e => codes.get(e.projectId) },
+            { header: 'Date', width: 13, kind: 'date', value: e => e.invoiceDate ?? e.createdAt },
+            { header: 'Description', width: 40, value: e => e.description },
+            { header: 'Category', width: 18, value: e => e.category },
+            { header: 'Vendor', width: 24, value: e => e.vendor },
+            { header: 'Invoice No.', width: 16, value: e => e.invoiceNumber },
+            { header: 'Currency', width: 10, value: e => e.currency },
+            { header: 'Amount', width: 14, kind: 'number', value: e => e.amount },
+            { header: 'Amount (INR)', width: 18, kind: 'inr', value: e => e.amountINR },
+            { header: 'Approved On', width: 13, kind: 'date', value: e => e.approvedAt },
+        ], expenses);
+        expenseSheet.getColumn(8).numFmt = '#,##0.00';
+        this.addTotals(expenseSheet, 'Total', [9]);
+
+        const cashFlowSheet = this.addSheet(workbook, 'Cash Flow', [
+            { header: 'Project', width: 20, value: c => codes.get(c.projectId) },
+            { header: 'Date', width: 13, kind: 'date', value: c => c.transactionDate },
+            { header: 'Type', width: 12, value: c => c.type },
+            { header: 'Source', width: 28, value: c => c.source },
+            { header: 'Description', width: 40, value: c => c.description },
+            { header: 'Currency', width: 10, value: c => c.currency },
+            { header: 'Amount', width: 14, kind: 'number', value: c => c.amount },
+            { header: 'Amount (INR)', width: 18, kind: 'inr', value: c => c.amountINR },
+        ], cashFlows);
+        cashFlowSheet.getColumn(7).numFmt = '#,##0.00';
+
+        this.addSheet(workbook, 'Staff', [
+            { header: 'Project', width: 20, value: s => codes.get(s.projectId) },
+            { header: 'Name', width: 26, value: s => fullName(s.user) },
+            { header: 'Email', width: 30, value: s => s.user.email },
+            { header: 'Designation', width: 24, value: s => s.user.designation },
+            { header: 'Project Role', width: 20, value: s => s.role },
+            { header: 'Joined', width: 13, kind: 'date', value: s => s.joinedAt },
+            { header: 'Left', width: 13, kind: 'date', value: s => s.leftAt },
+            { header: 'Active', width: 8, value: s => (s.isActive ? 'Yes' : 'No') },
+        ], staff);
+
+        this.addSheet(workbook, 'Milestones', [
+            { header: 'Project', width: 20, value: m => codes.get(m.projectId) },
+            { header: 'Milestone', width: 40, value: m => m.title },
+            { header: 'Start Date', width: 13, kind: 'date', value: m => m.startDate },
+            { header: 'End Date', width: 13, kind: 'date', value: m => m.endDate },
+            { header: 'Status', width: 14, value: m => m.status },
+            { header: 'Progress', width: 10, kind: 'percent', value: m => m.progress },
+        ], milestones);
+
+        const buffer = await workbook.xlsx.writeBuffer();
+        return Buffer.from(buffer);
+    }
+}
+
+export const reportXlsxService = new ReportXlsxService();
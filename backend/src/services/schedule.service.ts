@@ -0,0 +1,249 @@
+import { DependencyType, MilestoneDependency } from '@prisma/client';
+import prisma from '../config/database.js';
+
+export class ScheduleError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'ScheduleError';
+    }
+}
+
+interface ScheduleNode {
+    id: string;
+    start: number;
+    end: number;
+    // Completed milestones happened when they happened and are never moved
+    locked: boolean;
+}
+
+type ScheduleLink = Pick<MilestoneDependency, 'predecessorId' | 'successorId' | 'type' | 'lagDays'>;
+
+export interface MilestoneFloat {
+    earlyStart: Date;
+    earlyFinish: Date;
+    lateStart: Date;
+    lateFinish: Date;
+    totalFloat: number; // Days the milestone can slip without delaying the last milestone
+    isCritical: boolean;
+}
+
+export interface RescheduledMilestone {
+    id: string;
+    startDate: Date;
+    endDate: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Earliest start the link allows the successor, given the predecessor's dates
+const earliestStart = (link: ScheduleLink, pred: ScheduleNode, succ: ScheduleNode): number => {
+    const lag = link.lagDays * DAY_MS;
+    switch (link.type) {
+        case 'START_TO_START': return pred.start + lag;
+        case 'FINISH_TO_FINISH': return pred.end + lag - (succ.end - succ.start);
+        default: return pred.end + lag;
+    }
+};
+
+// Latest finish the link allows the predecessor, given the successor's late dates
+const latestFinish = (link: ScheduleLink, pred: ScheduleNode, lateStart: number, lateFinish: number): number => {
+    const lag = link.lagDays * DAY_MS;
+    switch (link.type) {
+        case 'START_TO_START': return lateStart - lag + (pred.end - pred.start);
+        case 'FINISH_TO_FINISH': return lateFinish - lag;
+        default: return lateStart - lag;
+    }
+};
+
+// Kahn's algorithm; throws when the links contain a cycle
+const topologicalOrder = (nodes: ScheduleNode[], links: ScheduleLink[]): ScheduleNode[] => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const indegree = new Map(nodes.map(n => [n.id, 0]));
+    for (const link of links) indegree.set(link.successorId, (indegree.get(link.successorId) ?? 0) + 1);
+
+    const queue = nodes.filter(n => indegree.get(n.id) === 0).sort((a, b) => a.start - b.start);
+    const order: ScheduleNode[] = [];
+    while (queue.length > 0) {
+        const node = queue.shift()!;
+        order.push(node);
+        for (const link of links.filter(l => l.predecessorId === node.id)) {
+            const remaining = indegree.get(link.successorId)! - 1;
+            indegree.set(link.successorId, remaining);
+            if (remaining === 0) queue.push(byId.get(link.successorId)!);
+        }
+    }
+
+    if (order.length !== nodes.length) {
+        throw new ScheduleError('Milestone dependencies form a cycle', 409);
+    }
+    return order;
+};
+
+/**
+ * Milestone dependencies (finish-to-start, start-to-start, finish-to-finish, with
+ * lags in days) and the schedule they imply. Successors are pushed later when a
+ * predecessor slips, never pulled earlier; the critical path and total float are
+ * computed against the finish of the last milestone.
+ */
+export class ScheduleService {
+    private async load(projectId: string) {
+        const milestones = await prisma.milestone.findMany({
+            where: { projectId },
+            orderBy: [{ startDate: 'asc' }, { order: 'asc' }],
+        });
+        const dependencies = await prisma.milestoneDependency.findMany({
+            where: { predecessor: { projectId } },
+            orderBy: { createdAt: 'asc' },
+        });
+        const nodes: ScheduleNode[] = milestones.map(m => ({
+            id: m.id,
+            start: m.startDate.getTime(),
+            end: m.endDate.getTime(),
+            locked: m.status === 'COMPLETED',
+        }));
+        return { milestones, dependencies, nodes };
+    }
+
+    // Moves every milestone that starts before its predecessors allow; returns those moved
+    private propagate(nodes: ScheduleNode[], links: ScheduleLink[]): RescheduledMilestone[] {
+        const byId = new Map(nodes.map(n => [n.id, n]));
+        const moved: RescheduledMilestone[] = [];
+
+        for (const node of topologicalOrder(nodes, links)) {
+            if (node.locked) continue;
+
+            const required = Math.max(...links
+                .filter(l => l.successorId === node.id)
+                .map(l => earliestStart(l, byId.get(l.predecessorId)!, node)));
+            if (!Number.isFinite(required) || node.start >= required) continue;
+
+            const shift = required - node.start;
+            node.start += shift;
+            node.end += shift;
+            moved.push({ id: node.id, startDate: new Date(node.start), endDate: new Date(node.end) });
+        }
+
+        return moved;
+    }
+
+    private analyze(nodes: ScheduleNode[], links: ScheduleLink[]): Map<string, MilestoneFloat> {
+        const order = topologicalOrder(nodes, links);
+        const finish = Math.max(...nodes.map(n => n.end));
+        const late = new Map<string, { start: number; finish: number }>();
+
+        for (const node of [...order].reverse()) {
+            const lateFinish = Math.min(finish, ...links
+                .filter(l => l.predecessorId === node.id)
+                .map(l => {
+                    const succ = late.get(l.successorId)!;
+                    return latestFinish(l, node, succ.start, succ.finish);
+                }));
+            late.set(node.id, { start: lateFinish - (node.end - node.start), finish: lateFinish });
+        }
+
+        return new Map(nodes.map(node => {
+            const { start, finish: lateFinish } = late.get(node.id)!;
+            const totalFloat = Math.round((start - node.start) / DAY_MS);
+            return [node.id, {
+                earlyStart: new Date(node.start),
+                earlyFinish: new Date(node.end),
+                lateStart: new Date(start),
+                lateFinish: new Date(lateFinish),
+                totalFloat,
+                isCritical: totalFloat <= 0,
+            }];
+        }));
+    }
+
+    async getSchedule(projectId: string) {
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            select: { id: true, code: true, title: true, startDate: true, endDate: true },
+        });
+        if (!project) throw new ScheduleError('Project not found', 404);
+
+        const { milestones, dependencies, nodes } = await this.load(projectId);
+        const floats = this.analyze(nodes, dependencies);
+        const scheduled = milestones.map(m => ({ ...m, ...floats.get(m.id)! }));
+
+        const finishDate = nodes.length > 0 ? new Date(Math.max(...nodes.map(n => n.end))) : null;
+
+        return {
+            project,
+            milestones: scheduled,
+            dependencies,
+            criticalPath: scheduled.filter(m => m.isCritical).map(m => m.id),
+            finishDate,
+            // Positive when the milestones run past the project's end date
+            finishVarianceDays: finishDate ? Math.round((finishDate.getTime() - project.endDate.getTime()) / DAY_MS) : 0,
+        };
+    }
+
+    /**
+     * Pushes successors of slipped milestones (and any milestone moved ahead of
+     * its predecessors) to the earliest dates their dependencies allow.
+     */
+    async reschedule(projectId: string): Promise<RescheduledMilestone[]> {
+        const { dependencies, nodes } = await this.load(projectId);
+        const moved = this.propagate(nodes, dependencies);
+
+        if (moved.length > 0) {
+            await prisma.$transaction(moved.map(m => prisma.milestone.update({
+                where: { id: m.id },
+                data: { startDate: m.startDate, endDate: m.endDate },
+            })));
+        }
+        return moved;
+    }
+
+    async addDependency(input: { predecessorId: string; successorId: string; type: DependencyType; lagDays: number }) {
+        if (input.predecessorId === input.successorId) {
+            throw new ScheduleError('A milestone cannot depend on itself', 400);
+        }
+
+        const [predecessor, successor] = await Promise.all([
+            prisma.milestone.findUnique({ where: { id: input.predecessorId }, select: { projectId: true } }),
+            prisma.milestone.findUnique({ where: { id: input.successorId }, select: { projectId: true } }),
+        ]);
+        if (!predecessor || !successor) throw new ScheduleError('Milestone not found', 404);
+        if (predecessor.projectId !== successor.projectId) {
+            throw new ScheduleError('Dependencies can only link milestones of the same project', 400);
+        }
+
+        const { dependencies, nodes } = await this.load(predecessor.projectId);
+        if (dependencies.some(d => d.predecessorId === input.predecessorId && d.successorId === input.successorId)) {
+            throw new ScheduleError('These milestones are already linked', 409);
+        }
+        topologicalOrder(nodes, [...dependencies, input]);
+
+        const dependency = await prisma.milestoneDependency.create({ data: input });
+        const rescheduled = await this.reschedule(predecessor.projectId);
+        return { dependency, projectId: predecessor.projectId, rescheduled };
+    }
+
+    async updateDependency(id: string, data: { type?: DependencyType; lagDays?: number }) {
+        const existing = await prisma.milestoneDependency.findUnique({
+            where: { id },
+            include: { predecessor: { select: { projectId: true } } },
+        });
+        if (!existing) throw new ScheduleError('Dependency not found', 404);
+
+        const dependency = await prisma.milestoneDependency.update({ where: { id }, data });
+        const rescheduled = await this.reschedule(existing.predecessor.projectId);
+        return { dependency, projectId: existing.predecessor.projectId, rescheduled };
+    }
+
+    // Removing a link only loosens the schedule, so nothing is moved
+    async removeDependency(id: string) {
+        const existing = await prisma.milestoneDependency.findUnique({
+            where: { id },
+            include: { predecessor: { select: { projectId: true } } },
+        });
+        if (!existing) throw new ScheduleError('Dependency not found', 404);
+
+        await prisma.milestoneDependency.delete({ where: { id } });
+        return { dependency: existing, projectId: existing.predecessor.projectId };
+    }
+}
+
+export const scheduleService = new ScheduleService();
@@ -0,0 +1,551 @@
+import os from 'os';
+import config from '../config/index.js';
+import prisma from '../config/database.js';
+import { notificationService } from './notification.service.js';
+import { approvalService } from './approval.service.js';
+import { bookedExpenses } from './expense.service.js';
+import { monthlyReportService } from './monthly-report.service.js';
+import { fundingService } from './funding.service.js';
+
+type JobSummary = Record<string, number>;
+
+interface JobDefinition {
+    name: string;
+    description: string;
+    schedule: string;
+    nextRun: (from: Date) => Date;
+    handler: () => Promise<JobSummary>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Next occurrence of hh:mm (server local time) strictly after `from`
+const dailyAt = (hour: number, minute = 0) => (from: Date): Date => {
+    const next = new Date(from);
+    next.setHours(hour, minute, 0, 0);
+    if (next <= from) next.setDate(next.getDate() + 1);
+    return next;
+};
+
+// Next occurrence of mm past the hour strictly after `from`
+const hourlyAt = (minute = 0) => (from: Date): Date => {
+    const next = new Date(from);
+    next.setMinutes(minute, 0, 0);
+    if (next <= from) next.setHours(next.getHours() + 1);
+    return next;
+};
+
+// Next occurrence of weekday (0 = Sunday) at hh:mm strictly after `from`
+const weeklyAt = (weekday: number, hour: number, minute = 0) => (from: Date): Date => {
+    const next = new Date(from);
+    next.setHours(hour, minute, 0, 0);
+    next.setDate(next.getDate() + ((weekday - next.getDay() + 7) % 7));
+    if (next <= from) next.setDate(next.getDate() + 7);
+    return next;
+};
+
+// Next multiple of `minutes` past the hour strictly after `from`
+const everyMinutes = (minutes: number) => (from: Date): Date => {
+    const next = new Date(from);
+    next.setSeconds(0, 0);
+    next.setMinutes(Math.floor(next.getMinutes() / minutes) * minutes + minutes);
+    return next;
+};
+
+// Next occurrence of day-of-month at hh:mm strictly after `from`
+const monthlyAt = (day: number, hour: number, minute = 0) => (from: Date): Date => {
+    const next = new Date(from);
+    next.setDate(day);
+    next.setHours(hour, minute, 0, 0);
+    if (next <= from) next.setMonth(next.getMonth() + 1);
+    return next;
+};
+
+const daysUntil = (date: Date, from: Date): number => {
+    const start = new Date(from);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(date);
+    end.setHours(0, 0, 0, 0);
+    return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+};
+
+// Days before a milestone end date on which a reminder is sent
+const MILESTONE_REMINDER_DAYS = [7, 3, 1];
+// Budget utilization thresholds (percent) that trigger a warning, lowest first
+const BUDGET_THRESHOLDS = [75, 90, 100];
+const MOU_WARNING_DAYS = 30;
+const RC_REMINDER_DAYS = 3;
+
+export class SchedulerService {
+    private readonly instanceId = `${os.hostname()}:${process.pid}`;
+    private readonly jobs: JobDefinition[];
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    constructor() {
+        this.jobs = [
+            {
+                name: 'milestone-deadlines',
+                description: 'Mark overdue milestones and send deadline alerts to project heads',
+                schedule: 'Daily at 07:00',
+                nextRun: dailyAt(7),
+                handler: () => this.checkMilestoneDeadlines(),
+            },
+            {
+                name: 'budget-utilization',
+                description: 'Warn project heads when budget utilization crosses 75%, 90% and 100%',
+                schedule: 'Daily at 07:15',
+                nextRun: dailyAt(7, 15),
+                handler: () => this.checkBudgetUtilization(),
+            },
+            {
+                name: 'mou-expiry',
+                description: `Alert project heads about MoUs expiring within ${MOU_WARNING_DAYS} days`,
+                schedule: 'Daily at 07:30',
+                nextRun: dailyAt(7, 30),
+                handler: () => this.checkMoUExpiry(),
+            },
+            {
+                name: 'funding-claims',
+                description: 'Flag sponsor instalments that have become claimable and remind PIs to raise the claims',
+                schedule: 'Daily at 07:45',
+                nextRun: dailyAt(7, 45),
+                handler: () => fundingService.checkClaims(),
+            },
+            {
+                name: 'rc-meeting-reminders',
+                description: `Remind RC members and presenting PIs ${RC_REMINDER_DAYS} days before a meeting`,
+                schedule: 'Daily at 08:00',
+                nextRun: dailyAt(8),
+                handler: () => this.sendRCMeetingReminders(),
+            },
+            {
+                name: 'weekly-digest',
+                description: 'Email the weekly project digest to project heads',
+                schedule: 'Mondays at 08:30',
+                nextRun: weeklyAt(1, 8, 30),
+                handler: () => this.sendWeeklyDigests(),
+            },
+            {
+                name: 'notification-emails',
+                description: 'Send notification emails and digests held back by recipients\' quiet hours',
+                schedule: 'Every 15 minutes',
+                nextRun: everyMinutes(15),
+                handler: () => notificationService.deliverHeldEmails(),
+            },
+            {
+                name: 'notification-digest',
+                description: 'Email each user the notifications they chose to receive as a daily digest',
+                schedule: 'Daily at 17:30',
+                nextRun: dailyAt(17, 30),
+                handler: () => notificationService.sendDailyDigests(),
+            },
+            {
+                name: 'monthly-reports',
+                description: "Generate last month's summary, financial, staff and combined reports and email them",
+                schedule: 'Monthly on the 1st at 06:00',
+                nextRun: monthlyAt(1, 6),
+                handler: () => monthlyReportService.runScheduled(),
+            },
+            {
+                name: 'approval-escalation',
+                description: 'Escalate approval steps that have exceeded their SLA',
+                schedule: 'Hourly at :05',
+                nextRun: hourlyAt(5),
+                handler: () => approvalService.escalateOverdue(),
+            },
+        ];
+    }
+
+    async start(): Promise<void> {
+        if (!config.scheduler.enabled || this.timer) return;
+
+        await this.registerJobs();
+        this.timer = setInterval(() => {
+            void this.tick();
+        }, config.scheduler.tickIntervalMs);
+        console.log(`⏰ Scheduler started on ${this.instanceId} (${this.jobs.length} jobs)`);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Job rows are shared by every instance; only create the missing ones
+    private async registerJobs(): Promise<void> {
+        const now = new Date();
+        for (const job of this.jobs) {
+            await prisma.scheduledJob.upsert({
+                where: { name: job.name },
+                create: {
+                    name: job.name,
+                    description: job.description,
+                    schedule: job.schedule,
+                    nextRunAt: job.nextRun(now),
+                },
+                update: {
+                    description: job.description,
+                    schedule: job.schedule,
+                },
+            });
+        }
+    }
+
+    private async tick(): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+
+        try {
+            const now = new Date();
+            const due = await prisma.scheduledJob.findMany({
+                where: { enabled: true, nextRunAt: { lte: now } },
+                select: { name: true },
+            });
+
+            for (const { name } of due) {
+                const job = this.jobs.find(j => j.name === name);
+                if (job && await this.acquireLock(job.name, true)) {
+                    await this.execute(job, 'SCHEDULE');
+                }
+            }
+        } catch (error) {
+            console.error('Scheduler tick error:', error);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    // Conditional update so that only one instance claims a due job
+    private async acquireLock(name: string, requireDue: boolean): Promise<boolean> {
+        const now = new Date();
+        const result = await prisma.scheduledJob.updateMany({
+            where: {
+                name,
+                ...(requireDue ? { enabled: true, nextRunAt: { lte: now } } : {}),
+                OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+            },
+            data: {
+                lockedBy: this.instanceId,
+                lockedUntil: new Date(now.getTime() + config.scheduler.lockTtlMs),
+            },
+        });
+        return result.count === 1;
+    }
+
+    private async execute(job: JobDefinition, trigger: 'SCHEDULE' | 'MANUAL') {
+        const startedAt = new Date();
+        const scheduledJob = await prisma.scheduledJob.findUniqueOrThrow({ where: { name: job.name } });
+        const run = await prisma.jobRun.create({
+            data: {
+                jobId: scheduledJob.id,
+                instance: this.instanceId,
+                trigger,
+                status: 'RUNNING',
+                startedAt,
+            },
+        });
+
+        let status = 'SUCCESS';
+        let summary: JobSummary | undefined;
+        let errorMessage: string | undefined;
+
+        try {
+            summary = await job.handler();
+        } catch (error) {
+            status = 'FAILED';
+            errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`Job ${job.name} failed:`, error);
+        }
+
+        const finishedAt = new Date();
+        const [updatedRun] = await prisma.$transaction([
+            prisma.jobRun.update({
+                where: { id: run.id },
+                data: { status, summary, error: errorMessage, finishedAt },
+            }),
+            prisma.scheduledJob.update({
+                where: { name: job.name },
+                data: {
+                    lastRunAt: startedAt,
+                    lastStatus: status,
+                    lastError: errorMessage ?? null,
+                    lastDurationMs: finishedAt.getTime() - startedAt.getTime(),
+                    // Manual runs keep the regular schedule
+                    ...(trigger === 'SCHEDULE' ? { nextRunAt: job.nextRun(finishedAt) } : {}),
+                    lockedBy: null,
+                    lockedUntil: null,
+                },
+            }),
+        ]);
+
+        return updatedRun;
+    }
+
+    async getJobs() {
+        const jobs = await prisma.scheduledJob.findMany({
+            orderBy: { name: 'asc' },
+            include: {
+                runs: { orderBy: { startedAt: 'desc' }, take: 5 },
+            },
+        });
+
+        return jobs.map(job => ({
+            ...job,
+            isRunning: !!job.lockedUntil && job.lockedUntil > new Date(),
+            registered: this.jobs.some(j => j.name === job.name),
+        }));
+    }
+
+    async getJobRuns(name: string, limit = 50) {
+        return prisma.jobRun.findMany({
+            where: { job: { name } },
+            orderBy: { startedAt: 'desc' },
+            take: limit,
+        });
+    }
+
+    async setEnabled(name: string, enabled: boolean) {
+        const job = this.jobs.find(j => j.name === name);
+        if (!job) return null;
+
+        return prisma.scheduledJob.update({
+            where: { name },
+            // Re-enabling should not fire a backlog of missed runs
+            data: enabled ? { enabled, nextRunAt: job.nextRun(new Date()) } : { enabled },
+        });
+    }
+
+    // Returns null when the job is unknown, false when another instance holds the lock
+    async runNow(name: string) {
+        const job = this.jobs.find(j => j.name === name);
+        if (!job) return null;
+
+        if (!await this.acquireLock(name, false)) return false;
+        return this.execute(job, 'MANUAL');
+    }
+
+    // ============================================
+    // JOB HANDLERS
+    // ============================================
+
+    private async checkMilestoneDeadlines(): Promise<JobSummary> {
+        const now = new Date();
+        const startOfToday = new Date(now);
+        startOfToday.setHours(0, 0, 0, 0);
+
+        const overdue = await prisma.milestone.findMany({
+            where: {
+                status: { in: ['PENDING', 'IN_PROGRESS'] },
+                endDate: { lt: startOfToday },
+                project: { status: 'ACTIVE' },
+            },
+            include: { project: { select: { title: true, projectHeadId: true } } },
+        });
+
+        for (const milestone of overdue) {
+            await prisma.milestone.update({
+                where: { id: milestone.id },
+                data: { status: 'OVERDUE' },
+            });
+            await notificationService.sendDeadlineAlert(
+                milestone.project.projectHeadId,
+                milestone.project.title,
+                milestone.title,
+                milestone.endDate,
+                daysUntil(milestone.endDate, now)
+            );
+        }
+
+        const horizon = new Date(startOfToday.getTime() + (Math.max(...MILESTONE_REMINDER_DAYS) + 1) * DAY_MS);
+        const upcoming = await prisma.milestone.findMany({
+            where: {
+                status: { in: ['PENDING', 'IN_PROGRESS'] },
+                endDate: { gte: startOfToday, lt: horizon },
+                project: { status: 'ACTIVE' },
+            },
+            include: { project: { select: { title: true, projectHeadId: true } } },
+        });
+
+        let reminders = 0;
+        for (const milestone of upcoming) {
+            const daysRemaining = daysUntil(milestone.endDate, now);
+            if (!MILESTONE_REMINDER_DAYS.includes(daysRemaining)) continue;
+
+            await notificationService.sendDeadlineAlert(
+                milestone.project.projectHeadId,
+                milestone.project.title,
+                milestone.title,
+                milestone.endDate,
+                daysRemaining
+            );
+            reminders++;
+        }
+
+        return { markedOverdue: overdue.length, reminders };
+    }
+
+    private async checkBudgetUtilization(): Promise<JobSummary> {
+        const projects = await prisma.project.findMany({
+            where: { status: 'ACTIVE' },
+            select: {
+                id: true,
+                title: true,
+                projectHeadId: true,
+                budgetAlertLevel: true,
+                budgets: { select: { amountINR: true } },
+                expenses: { where: bookedExpenses, select: { amountINR: true } },
+            },
+        });
+
+        let warnings = 0;
+        for (const project of projects) {
+            const allocated = project.budgets.reduce((sum, b) => sum + b.amountINR, 0);
+            if (allocated <= 0) continue;
+
+            const spent = project.expenses.reduce((sum, e) => sum + e.amountINR, 0);
+            const utilizationPercent = Math.round((spent / allocated) * 100);
+            const level = BUDGET_THRESHOLDS.filter(t => utilizationPercent >= t).pop() ?? 0;
+
+            if (level > project.budgetAlertLevel) {
+                await notificationService.sendBudgetWarning(project.projectHeadId, project.title, utilizationPercent);
+                warnings++;
+            }
+
+            // Also lowers the level after re-allocation so the warning can fire again
+            if (level !== project.budgetAlertLevel) {
+                await prisma.project.update({
+                    where: { id: project.id },
+                    data: { budgetAlertLevel: level },
+                });
+            }
+        }
+
+        return { projectsChecked: projects.length, warnings };
+    }
+
+    private async checkMoUExpiry(): Promise<JobSummary> {
+        const now = new Date();
+        const mous = await prisma.moU.findMany({
+            where: {
+                isActive: true,
+                alertSent: false,
+                expiryDate: { gte: now, lte: new Date(now.getTime() + MOU_WARNING_DAYS * DAY_MS) },
+            },
+            include: { project: { select: { projectHeadId: true } } },
+        });
+
+        for (const mou of mous) {
+            await notificationService.sendMoUExpiryAlert(
+                mou.project.projectHeadId,
+                mou.title,
+                mou.partnerName,
+                mou.expiryDate,
+                daysUntil(mou.expiryDate, now)
+            );
+            await prisma.moU.update({
+                where: { id: mou.id },
+                data: { alertSent: true },
+            });
+        }
+
+        // Lapsed MoUs are no longer active
+        const expired = await prisma.moU.updateMany({
+            where: { isActive: true, expiryDate: { lt: now } },
+            data: { isActive: false },
+        });
+
+        return { alerts: mous.length, deactivated: expired.count };
+    }
+
+    private async sendRCMeetingReminders(): Promise<JobSummary> {
+        const now = new Date();
+        const meetings = await prisma.rCMeeting.findMany({
+            where: {
+                status: 'SCHEDULED',
+                reminderSent: false,
+                date: { gte: now, lte: new Date(now.getTime() + RC_REMINDER_DAYS * DAY_MS) },
+            },
+            include: {
+                agendaItems: { select: { project: { select: { projectHeadId: true } } } },
+            },
+        });
+
+        if (meetings.length === 0) return { meetings: 0, recipients: 0 };
+
+        const members = await prisma.user.findMany({
+            where: { isActive: true, role: { in: ['RC_MEMBER', 'DIRECTOR', 'DIRECTOR_GENERAL'] } },
+            select: { id: true },
+        });
+
+        let recipients = 0;
+        for (const meeting of meetings) {
+            const userIds = new Set(members.map(m => m.id));
+            meeting.agendaItems.forEach(item => {
+                if (item.project) userIds.add(item.project.projectHeadId);
+            });
+
+            for (const userId of userIds) {
+                await notificationService.sendRCMeetingNotification(userId, meeting.title, meeting.date);
+            }
+            recipients += userIds.size;
+
+            await prisma.rCMeeting.update({
+                where: { id: meeting.id },
+                data: { reminderSent: true },
+            });
+        }
+
+        return { meetings: meetings.length, recipients };
+    }
+
+    private async sendWeeklyDigests(): Promise<JobSummary> {
+        const now = new Date();
+        const nextWeek = new Date(now.getTime() + 7 * DAY_MS);
+
+        const [heads, upcomingMeetings] = await Promise.all([
+            prisma.user.findMany({
+                where: { isActive: true, projectsHeaded: { some: { status: 'ACTIVE' } } },
+                select: {
+                    id: true,
+                    projectsHeaded: {
+                        where: { status: 'ACTIVE' },
+                        select: {
+                            budgets: { select: { amountINR: true } },
+                            expenses: { where: bookedExpenses, select: { amountINR: true } },
+                            _count: {
+                                select: { milestones: { where: { status: { in: ['PENDING', 'IN_PROGRESS', 'OVERDUE'] } } } },
+                            },
+                        },
+                    },
+                },
+            }),
+            prisma.rCMeeting.count({
+                where: { status: 'SCHEDULED', date: { gte: now, lte: nextWeek } },
+            }),
+        ]);
+
+        for (const head of heads) {
+            let allocated = 0;
+            let spent = 0;
+            let pendingMilestones = 0;
+            head.projectsHeaded.forEach(p => {
+                allocated += p.budgets.reduce((sum, b) => sum + b.amountINR, 0);
+                spent += p.expenses.reduce((sum, e) => sum + e.amountINR, 0);
+                pendingMilestones += p._count.milestones;
+            });
+
+            await notificationService.sendWeeklyDigest(head.id, {
+                pendingMilestones,
+                budgetUtilization: allocated > 0 ? Math.round((spent / allocated) * 100) : 0,
+                upcomingMeetings,
+            });
+        }
+
+        return { digests: heads.length };
+    }
+}
+
+export const schedulerService = new SchedulerService();
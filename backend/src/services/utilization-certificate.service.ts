@@ -0,0 +1,441 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Prisma, UtilizationCertificate, UserRole } from '@prisma/client';
+import config from '../config/index.js';
+import prisma from '../config/database.js';
+import { calculateFileHash, fiscalYearRange, getFiscalYear } from '../utils/helpers.js';
+import { approvalService } from './approval.service.js';
+import { archiveService } from './archive.service.js';
+import { bookedExpenses } from './expense.service.js';
+import { notificationService } from './notification.service.js';
+import { pdfService, formatDate, PdfSection } from './pdf.service.js';
+import { projectAccessService } from './project-access.service.js';
+
+export class CertificateError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'CertificateError';
+    }
+}
+
+interface Actor {
+    userId: string;
+    role: UserRole;
+}
+
+// The figures behind a certificate, frozen when it is generated
+export interface CertificateStatement {
+    opening: {
+        carriedForwardINR: number; // Unspent budget and commitments carried forward at the previous year's close
+        priorReceivedINR: number; // Received this fiscal year before the period
+        priorExpenditureINR: number; // Spent this fiscal year before the period
+    };
+    receipts: Array<{ date: string; source: string | null; description: string; amountINR: number }>;
+    heads: Array<{ category: string; amountINR: number; vouchers: number }>;
+}
+
+type CertificateWithProject = UtilizationCertificate & {
+    project: { code: string; title: string; projectHead: { firstName: string; lastName: string } };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_LABELS: Record<UtilizationCertificate['status'], string> = {
+    PENDING_PI: 'Awaiting PI signature',
+    PENDING_APPROVAL: 'Awaiting finance and Director sign-off',
+    CERTIFIED: 'Certified',
+    REJECTED: 'Rejected',
+};
+
+const fullName = (user?: { firstName: string; lastName: string } | null) => (user ? `${user.firstName} ${user.lastName}` : '-');
+
+// Expenses fall in a period by invoice date, as when they are booked
+const expensesBetween = (projectId: string, start: Date, end: Date): Prisma.ExpenseWhereInput => ({
+    projectId,
+    ...bookedExpenses,
+    OR: [
+        { invoiceDate: { gte: start, lt: end } },
+        { invoiceDate: null, createdAt: { gte: start, lt: end } },
+    ],
+});
+
+const receiptsBetween = (projectId: string, start: Date, end: Date): Prisma.CashFlowWhereInput => ({
+    projectId,
+    type: 'RECEIVED',
+    transactionDate: { gte: start, lt: end },
+});
+
+const include = {
+    project: { select: { code: true, title: true, projectHead: { select: { firstName: true, lastName: true } } } },
+} satisfies Prisma.UtilizationCertificateInclude;
+
+/**
+ * Utilization Certificates (GFR 12-A) with their Statement of Expenditure. A
+ * certificate covers one period inside a fiscal year: the opening balance is the
+ * previous year's carry-forward plus what was left unspent earlier in the year,
+ * receipts come from CashFlow and expenditure from booked expenses. The PDF is
+ * stored as a UC Document and re-rendered as the PI, finance and the Director
+ * sign it through the UTILIZATION_CERTIFICATE workflow.
+ */
+export class UtilizationCertificateService {
+    async list(projectId: string) {
+        return prisma.utilizationCertificate.findMany({
+            where: { projectId },
+            include: {
+                generatedBy: { select: { id: true, firstName: true, lastName: true } },
+                document: { select: { id: true, fileName: true, version: true, sha256Hash: true } },
+            },
+            orderBy: { periodStart: 'desc' },
+        });
+    }
+
+    async get(id: string): Promise<CertificateWithProject> {
+        const certificate = await prisma.utilizationCertificate.findUnique({ where: { id }, include });
+        if (!certificate) throw new CertificateError('Utilization certificate not found', 404);
+        return certificate;
+    }
+
+    // Opening balance, receipts and expenditure by budget head for [start, end)
+    async statement(projectId: string, start: Date, end: Date): Promise<CertificateStatement> {
+        const fiscalYear = getFiscalYear(start);
+        const yearStart = new Date(fiscalYearRange(fiscalYear)!.start);
+        const previousYear = getFiscalYear(new Date(yearStart.getTime() - DAY_MS));
+
+        const [carried, priorReceived, priorSpent, receipts, heads] = await Promise.all([
+            prisma.budgetArchive.aggregate({ where: { projectId, fiscalYear: previousYear }, _sum: { carriedForward: true, commitmentsCarried: true } }),
+            prisma.cashFlow.aggregate({ where: receiptsBetween(projectId, yearStart, start), _sum: { amountINR: true } }),
+            prisma.expense.aggregate({ where: expensesBetween(projectId, yearStart, start), _sum: { amountINR: true } }),
+            prisma.cashFlow.findMany({ where: receiptsBetween(projectId, start, end), orderBy: { transactionDate: 'asc' } }),
+            prisma.expense.groupBy({
+                by: ['category'],
+                where: expensesBetween(projectId, start, end),
+                _sum: { amountINR: true },
+                _count: { _all: true },
+                orderBy: { category: 'asc' },
+            }),
+        ]);
+
+        return {
+            opening: {
+                carriedForwardINR: (carried._sum.carriedForward ?? 0) + (carried._sum.commitmentsCarried ?? 0),
+                priorReceivedINR: priorReceived._sum.amountINR ?? 0,
+                priorExpenditureINR: priorSpent._sum.amountINR ?? 0,
+            },
+            receipts: receipts.map(r => ({
+                date: r.transactionDate.toISOString(),
+                source: r.source,
+                description: r.description,
+                amountINR: r.amountINR,
+            })),
+            heads: heads.map(h => ({
+                category: h.category,
+                amountINR: h._sum.amountINR ?? 0,
+                vouchers: h._count._all,
+            })),
+        };
+    }
+
+    // Builds the certificate for a period; a PI or Co-PI generating it signs it at once
+    async generate(projectId: string, periodStart: Date, periodEnd: Date, actor: Actor) {
+        if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodEnd < periodStart) {
+            throw new CertificateError('Invalid certificate period', 400);
+        }
+        const fiscalYear = getFiscalYear(periodStart);
+        if (getFiscalYear(periodEnd) !== fiscalYear) {
+            throw new CertificateError('A certificate period must fall within one fiscal year', 400);
+        }
+
+        const project = await prisma.project.findUnique({
+            where: { id: projectId },
+            select: { code: true, title: true, projectHead: { select: { firstName: true, lastName: true } } },
+        });
+        if (!project) throw new CertificateError('Project not found', 404);
+        await archiveService.assertProjectWritable(projectId);
+
+        const end = new Date(periodEnd.getTime() + DAY_MS);
+        const overlapping = await prisma.utilizationCertificate.findFirst({
+            where: {
+                projectId,
+                status: { not: 'REJECTED' },
+                periodStart: { lt: end },
+                periodEnd: { gte: periodStart },
+            },
+            select: { ucNumber: true },
+        });
+        if (overlapping) {
+            throw new CertificateError(`Certificate ${overlapping.ucNumber} already covers part of this period`, 409);
+        }
+
+        const statement = await this.statement(projectId, periodStart, end);
+        const openingBalanceINR = statement.opening.carriedForwardINR + statement.opening.priorReceivedINR - statement.opening.priorExpenditureINR;
+        const receivedINR = statement.receipts.reduce((sum, r) => sum + r.amountINR, 0);
+        const expenditureINR = statement.heads.reduce((sum, h) => sum + h.amountINR, 0);
+
+        const isManager = await projectAccessService.can(actor, projectId, 'manage');
+        const now = new Date();
+        const sequence = (await prisma.utilizationCertificate.count({ where: { projectId, fiscalYear } })) + 1;
+
+        const values = {
+            id: crypto.randomUUID(),
+            ucNumber: `UC/${project.code}/${fiscalYear}/${sequence.toString().padStart(2, '0')}`,
+            projectId,
+            fiscalYear,
+            periodStart,
+            periodEnd,
+            openingBalanceINR,
+            receivedINR,
+            expenditureINR,
+            closingBalanceINR: openingBalanceINR + receivedINR - expenditureINR,
+            statement: statement as unknown as Prisma.JsonObject,
+            status: isManager ? 'PENDING_APPROVAL' as const : 'PENDING_PI' as const,
+            documentId: crypto.randomUUID(),
+            generatedById: actor.userId,
+            piSignedById: isManager ? actor.userId : null,
+            piSignedAt: isManager ? now : null,
+        };
+
+        const file = await this.renderFile({ ...values, project, certifiedAt: null, comments: null, createdAt: now, updatedAt: now }, 1);
+        const certificate = await prisma.$transaction(async (tx) => {
+            await tx.document.create({
+                data: {
+                    id: values.documentId,
+                    projectId,
+                    uploadedById: actor.userId,
+                    type: 'UC',
+                    title: `Utilization Certificate ${values.ucNumber}`,
+                    description: `Utilization Certificate and Statement of Expenditure, ${formatDate(periodStart)} to ${formatDate(periodEnd)}`,
+                    mimeType: 'application/pdf',
+                    ...file,
+                },
+            });
+            return tx.utilizationCertificate.create({ data: values, include });
+        });
+
+        if (isManager) {
+            await this.startWorkflow(certificate);
+            return certificate;
+        }
+
+        const managers = await projectAccessService.getManagerIds(projectId);
+        await Promise.all(managers.map(userId => notificationService.createNotification({
+            userId,
+            type: 'APPROVAL_REQUIRED',
+            title: 'Utilization Certificate Awaiting Signature',
+            message: `Utilization certificate ${certificate.ucNumber} for ${project.code} needs the PI's signature.`,
+            link: `/projects/${projectId}`,
+        })));
+        return certificate;
+    }
+
+    // PI / Co-PI signature; signing forwards the certificate to finance and the Director
+    async piSign(id: string, actor: Actor, approved: boolean, comments?: string) {
+        const certificate = await this.get(id);
+        if (certificate.status !== 'PENDING_PI') {
+            throw new CertificateError('This certificate is not awaiting the PI\'s signature', 409);
+        }
+
+        if (!approved) return this.decide(id, false, comments ?? 'Rejected by the PI');
+
+        await prisma.utilizationCertificate.update({
+            where: { id },
+            data: { status: 'PENDING_APPROVAL', piSignedById: actor.userId, piSignedAt: new Date() },
+        });
+        await this.startWorkflow({ ...certificate, piSignedById: actor.userId });
+        return this.refresh(id);
+    }
+
+    private startWorkflow(certificate: CertificateWithProject) {
+        return approvalService.start({
+            type: 'UTILIZATION_CERTIFICATE',
+            entityType: 'UtilizationCertificate',
+            entityId: certificate.id,
+            requesterId: certificate.piSignedById ?? certificate.generatedById,
+            title: `Utilization certificate ${certificate.ucNumber} for ${certificate.project.code} (₹${certificate.expenditureINR.toLocaleString('en-IN')} utilized)`,
+            link: `/projects/${certificate.projectId}`,
+            amount: certificate.expenditureINR,
+        });
+    }
+
+    // Outcome of the UTILIZATION_CERTIFICATE workflow (or a PI's rejection)
+    async decide(id: string, approved: boolean, comments?: string) {
+        const certificate = await this.get(id);
+        if (certificate.status === 'CERTIFIED' || certificate.status === 'REJECTED') {
+            throw new CertificateError(`This certificate is already ${certificate.status.toLowerCase()}`, 409);
+        }
+
+        await prisma.utilizationCertificate.update({
+            where: { id },
+            data: approved
+                ? { status: 'CERTIFIED', certifiedAt: new Date(), comments: null }
+                : { status: 'REJECTED', comments: comments ?? null },
+        });
+
+        await notificationService.createNotification({
+            userId: certificate.generatedById,
+            type: 'APPROVAL_REQUIRED',
+            title: `Utilization Certificate ${approved ? 'Certified' : 'Rejected'}`,
+            message: `Utilization certificate ${certificate.ucNumber} for ${certificate.project.code} has been ${approved ? 'signed by all authorities' : 'rejected'}.${comments ? ' Comments: ' + comments : ''}`,
+            link: `/projects/${certificate.projectId}`,
+        });
+        return this.refresh(id);
+    }
+
+    // Re-renders the PDF with the current signatures as a new version of the document
+    async refresh(id: string) {
+        const certificate = await this.get(id);
+        const document = await prisma.document.findUniqueOrThrow({ where: { id: certificate.documentId } });
+
+        const file = await this.renderFile(certificate, document.version + 1);
+        await prisma.document.update({
+            where: { id: document.id },
+            data: { ...file, version: document.version + 1 },
+        });
+        if (document.filePath !== file.filePath) {
+            await fs.promises.rm(document.filePath, { force: true });
+        }
+        return certificate;
+    }
+
+    // ============================================
+    // RENDERING
+    // ============================================
+
+    private async signatures(certificate: CertificateWithProject): Promise<Array<[string, string, string]>> {
+        const signer = certificate.piSignedById
+            ? await prisma.user.findUnique({ where: { id: certificate.piSignedById }, select: { firstName: true, lastName: true } })
+            : null;
+        const rows: Array<[string, string, string]> = [
+            ['Principal Investigator', certificate.piSignedAt ? fullName(signer) : 'Pending', formatDate(certificate.piSignedAt)],
+        ];
+
+        const [workflow] = await approvalService.getEntityWorkflows('UtilizationCertificate', certificate.id);
+        if (workflow) {
+            workflow.steps.forEach(step => rows.push([
+                step.name,
+                step.status === 'APPROVED' ? fullName(step.actedBy) : step.status === 'PENDING' ? 'Pending' : step.status.replace('_', ' ').toLowerCase(),
+                formatDate(step.actedAt),
+            ]));
+        } else {
+            const { rules } = await approvalService.getRules('UTILIZATION_CERTIFICATE');
+            rules.forEach(rule => rows.push([rule.name, 'Pending', '-']));
+        }
+        return rows;
+    }
+
+    private async sections(certificate: CertificateWithProject): Promise<PdfSection[]> {
+        const statement = certificate.statement as unknown as CertificateStatement;
+        const inr = (amount: number) => pdfService.formatINR(amount);
+        const period = `${formatDate(certificate.periodStart)} to ${formatDate(certificate.periodEnd)}`;
+
+        return [
+            {
+                title: 'Utilization Certificate (GFR 12-A)',
+                blocks: [
+                    {
+                        type: 'keyValues',
+                        items: [
+                            { label: 'Certificate No.', value: certificate.ucNumber },
+                            { label: 'Project', value: `${certificate.project.code} — ${certificate.project.title}` },
+                            { label: 'Principal Investigator', value: fullName(certificate.project.projectHead) },
+                            { label: 'Period', value: `${period} (FY ${certificate.fiscalYear})` },
+                            { label: 'Status', value: certificate.comments ? `${STATUS_LABELS[certificate.status]} — ${certificate.comments}` : STATUS_LABELS[certificate.status] },
+                        ],
+                    },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Particulars', width: 3 }, { header: 'Amount', align: 'right' }],
+                        rows: [
+                            ['Unspent balance brought forward', inr(certificate.openingBalanceINR)],
+                            ['Grants received during the period', inr(certificate.receivedINR)],
+                            ['Total funds available', inr(certificate.openingBalanceINR + certificate.receivedINR)],
+                            ['Expenditure incurred during the period', inr(certificate.expenditureINR)],
+                            ['Unspent balance at the end of the period', inr(certificate.closingBalanceINR)],
+                        ],
+                    },
+                    {
+                        type: 'paragraph',
+                        text: `Certified that out of ${inr(certificate.receivedINR)} of grants received during ${period} in favour of ` +
+                            `CSIR-Structural Engineering Research Centre for project ${certificate.project.code}, and ${inr(certificate.openingBalanceINR)} ` +
+                            `on account of the unspent balance brought forward, a sum of ${inr(certificate.expenditureINR)} has been utilized for the purpose ` +
+                            `for which it was sanctioned, and that the balance of ${inr(certificate.closingBalanceINR)} remaining unutilized at the end of the ` +
+                            'period will be adjusted towards the grant payable during the next period.',
+                    },
+                    {
+                        type: 'paragraph',
+                        text: 'Certified that the conditions on which the grant was sanctioned have been duly fulfilled, and that the checks ' +
+                            'exercised to see that the money was actually utilized for the purpose for which it was sanctioned include the ' +
+                            'vouchers and receipts recorded against each expense in the project ledger.',
+                    },
+                ],
+            },
+            {
+                title: 'Statement of Expenditure',
+                newPage: true,
+                blocks: [
+                    { type: 'heading', text: 'Opening Balance' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Particulars', width: 3 }, { header: 'Amount', align: 'right' }],
+                        rows: [
+                            ['Carried forward from the previous fiscal year', inr(statement.opening.carriedForwardINR)],
+                            ['Add: received earlier in the fiscal year', inr(statement.opening.priorReceivedINR)],
+                            ['Less: spent earlier in the fiscal year', inr(statement.opening.priorExpenditureINR)],
+                            ['Opening balance', inr(certificate.openingBalanceINR)],
+                        ],
+                    },
+                    { type: 'heading', text: 'Receipts' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Date' }, { header: 'Source' }, { header: 'Description', width: 2 }, { header: 'Amount', align: 'right' }],
+                        rows: statement.receipts.map(r => [formatDate(r.date), r.source ?? '-', r.description, inr(r.amountINR)]),
+                        emptyText: 'No grants were received during the period.',
+                    },
+                    { type: 'heading', text: 'Expenditure by Budget Head' },
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Budget Head', width: 2 }, { header: 'Vouchers', align: 'right' }, { header: 'Amount', align: 'right' }],
+                        rows: [
+                            ...statement.heads.map(h => [h.category, h.vouchers, inr(h.amountINR)]),
+                            ...(statement.heads.length > 0 ? [['Total', statement.heads.reduce((n, h) => n + h.vouchers, 0), inr(certificate.expenditureINR)]] : []),
+                        ],
+                        emptyText: 'No expenditure was booked during the period.',
+                    },
+                ],
+            },
+            {
+                title: 'Sign-off',
+                blocks: [
+                    {
+                        type: 'table',
+                        columns: [{ header: 'Authority', width: 2 }, { header: 'Signed By', width: 2 }, { header: 'Date' }],
+                        rows: await this.signatures(certificate),
+                    },
+                ],
+            },
+        ];
+    }
+
+    private async renderFile(certificate: CertificateWithProject, version: number) {
+        const pdf = await pdfService.render({
+            title: 'Utilization Certificate',
+            subtitle: `${certificate.project.code} · ${formatDate(certificate.periodStart)} to ${formatDate(certificate.periodEnd)}`,
+            toc: false,
+            meta: [
+                { label: 'Certificate No.', value: certificate.ucNumber },
+                { label: 'Fiscal Year', value: certificate.fiscalYear },
+                { label: 'Version', value: String(version) },
+            ],
+            sections: await this.sections(certificate),
+        });
+
+        fs.mkdirSync(config.paths.certificates, { recursive: true });
+        const fileName = `${certificate.ucNumber.replace(/[^A-Za-z0-9-]+/g, '_')}-v${version}.pdf`;
+        const filePath = path.join(config.paths.certificates, fileName);
+        await fs.promises.writeFile(filePath, pdf);
+
+        return { fileName, filePath, fileSize: pdf.length, sha256Hash: await calculateFileHash(filePath) };
+    }
+}
+
+export const utilizationCertificateService = new UtilizationCertificateService();
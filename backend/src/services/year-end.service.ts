@@ -0,0 +1,417 @@
+import { BudgetCategory, Prisma, ProjectCategory } from '@prisma/client';
+import prisma from '../config/database.js';
+import { fiscalYearRange, getFiscalYear, lockKey } from '../utils/helpers.js';
+import { archiveService } from './archive.service.js';
+import { HeadBalance, ledgerService } from './ledger.service.js';
+
+export class YearEndError extends Error {
+    constructor(message: string, public readonly statusCode: number) {
+        super(message);
+        this.name = 'YearEndError';
+    }
+}
+
+type Db = Prisma.TransactionClient;
+
+export interface CarryForwardRuleInput {
+    projectId?: string | null;
+    category?: ProjectCategory | null;
+    carryForwardPercent: number;
+}
+
+export type RuleSource = 'PROJECT' | 'CATEGORY' | 'DEFAULT' | 'PROJECT_ENDED';
+
+export interface CarryForwardLine {
+    projectId: string;
+    projectCode: string;
+    projectTitle: string;
+    category: string;
+    allocatedINR: number;
+    spentINR: number;
+    commitmentsINR: number; // Open indents and orders moved to the next year
+    availableINR: number;
+    carryForwardPercent: number;
+    ruleSource: RuleSource;
+    carriedINR: number;
+    lapsedINR: number;
+}
+
+export interface MovedCommitment {
+    kind: 'INDENT' | 'ORDER';
+    id: string;
+    number: string;
+    projectId: string;
+    category: string;
+    outstandingINR: number; // Zero for indents still awaiting approval
+}
+
+export interface PhasedHead extends HeadBalance {
+    carriedInINR: number; // Brought forward from the previous year's close
+    carriedOutINR: number;
+    lapsedINR: number;
+}
+
+export interface YearEndPlan {
+    fiscalYear: string;
+    nextFiscalYear: string;
+    defaultPercent: number;
+    lines: CarryForwardLine[];
+    commitments: MovedCommitment[];
+    // Budget heads missing from the ledger; their money would not be carried
+    unposted: { projectCode: string; category: string; budgetAllocatedINR: number }[];
+    totals: { allocatedINR: number; spentINR: number; commitmentsINR: number; carriedINR: number; lapsedINR: number };
+}
+
+// Amounts below a paisa are not posted
+const EPSILON = 0.005;
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const categoryKey = (category: string) => category.trim().toUpperCase();
+
+const archiveCategory = (category: string): BudgetCategory =>
+    (Object.values(BudgetCategory) as string[]).includes(category) ? category as BudgetCategory : BudgetCategory.OTHER;
+
+const headKey = (projectId: string, category: string) => `${projectId}|${categoryKey(category)}`;
+
+/**
+ * Fiscal-year (April-March) phasing of project budgets and the year-end close.
+ * Closing a year moves open indents and purchase orders into the next year with
+ * their commitments, carries the unspent balance of each head forward under the
+ * project's carry-forward rule, returns the rest, and then freezes the year.
+ * The ledger's allocation of the closed year is revised down to what was spent,
+ * so closing a year again after a restore only moves what changed since.
+ */
+export class YearEndService {
+    // ============================================
+    // CARRY-FORWARD RULES
+    // ============================================
+
+    listRules() {
+        return prisma.carryForwardRule.findMany({
+            include: { project: { select: { id: true, code: true, title: true } } },
+            orderBy: [{ category: 'asc' }, { createdAt: 'asc' }],
+        });
+    }
+
+    async saveRule(input: CarryForwardRuleInput) {
+        if (!input.projectId === !input.category) {
+            throw new YearEndError('A carry-forward rule applies to either one project or one category', 400);
+        }
+        if (input.projectId && !(await prisma.project.findUnique({ where: { id: input.projectId }, select: { id: true } }))) {
+            throw new YearEndError('Project not found', 404);
+        }
+
+        const where = input.projectId ? { projectId: input.projectId } : { category: input.category! };
+        return prisma.carryForwardRule.upsert({
+            where,
+            create: { ...where, carryForwardPercent: input.carryForwardPercent },
+            update: { carryForwardPercent: input.carryForwardPercent },
+            include: { project: { select: { id: true, code: true, title: true } } },
+        });
+    }
+
+    async deleteRule(id: string) {
+        const rule = await prisma.carryForwardRule.findUnique({ where: { id } });
+        if (!rule) throw new YearEndError('Carry-forward rule not found', 404);
+        await prisma.carryForwardRule.delete({ where: { id } });
+        return rule;
+    }
+
+    // ============================================
+    // PHASING
+    // ============================================
+
+    /**
+     * A project's budget by fiscal year and head: what was allocated, spent,
+     * committed and is still available, what the head brought in from the year
+     * before, and whether the year is closed.
+     */
+    async phasing(projectId: string) {
+        const [{ heads }, archives, closes] = await Promise.all([
+            ledgerService.balances(projectId),
+            prisma.budgetArchive.findMany({ where: { projectId } }),
+            prisma.archiveRecord.findMany({ where: { scope: 'FISCAL_YEAR', restoredAt: null }, select: { fiscalYear: true } }),
+        ]);
+        const closed = new Set(closes.map(c => c.fiscalYear));
+        const previous = (fiscalYear: string) => getFiscalYear(new Date(fiscalYearRange(fiscalYear)!.start - 1));
+
+        const years = new Map<string, { fiscalYear: string; closed: boolean; heads: PhasedHead[] }>();
+        for (const head of heads) {
+            const year = years.get(head.fiscalYear) ?? { fiscalYear: head.fiscalYear, closed: closed.has(head.fiscalYear), heads: [] };
+            years.set(head.fiscalYear, year);
+
+            const broughtIn = archives.find(a => a.fiscalYear === previous(head.fiscalYear) && a.category === archiveCategory(head.category));
+            const closedOut = archives.find(a => a.fiscalYear === head.fiscalYear && a.category === archiveCategory(head.category));
+            year.heads.push({
+                ...head,
+                carriedInINR: round2((broughtIn?.carriedForward ?? 0) + (broughtIn?.commitmentsCarried ?? 0)),
+                carriedOutINR: round2((closedOut?.carriedForward ?? 0) + (closedOut?.commitmentsCarried ?? 0)),
+                lapsedINR: closedOut?.returnedToCSIR ?? 0,
+            });
+        }
+        return Array.from(years.values()).sort((a, b) => a.fiscalYear.localeCompare(b.fiscalYear));
+    }
+
+    // ============================================
+    // YEAR-END CLOSE
+    // ============================================
+
+    /**
+     * What closing the year would do, without changing anything. Heads carry
+     * `defaultPercent` of their unspent balance unless a rule says otherwise;
+     * projects that end before the next year starts carry nothing.
+     */
+    async plan(fiscalYear: string, defaultPercent: number, db: Db = prisma): Promise<YearEndPlan> {
+        const range = fiscalYearRange(fiscalYear);
+        if (!range) throw new YearEndError('Fiscal year must be in format YYYY-YY (e.g., 2024-25)', 400);
+        const nextFiscalYear = getFiscalYear(new Date(range.end + 1));
+
+        const [sums, orders, indents, rules, reconciliation] = await Promise.all([
+            db.ledgerEntry.groupBy({
+                by: ['projectId', 'category', 'account'],
+                where: {
+                    fiscalYear,
+                    projectId: { not: null },
+                    category: { not: null },
+                    account: { in: ['BUDGET', 'COMMITTED', 'EXPENDITURE'] },
+                },
+                _sum: { amountINR: true },
+            }),
+            db.purchaseOrder.findMany({ where: { fiscalYear, status: 'OPEN' } }),
+            db.purchaseIndent.findMany({ where: { fiscalYear, status: { in: ['PENDING_APPROVAL', 'APPROVED'] } } }),
+            db.carryForwardRule.findMany(),
+            ledgerService.reconcile(),
+        ]);
+
+        const heads = new Map<string, { projectId: string; category: string; budget: number; committed: number; spent: number }>();
+        const head = (projectId: string, category: string) => {
+            const key = headKey(projectId, category);
+            const existing = heads.get(key) ?? { projectId, category: categoryKey(category), budget: 0, committed: 0, spent: 0 };
+            heads.set(key, existing);
+            return existing;
+        };
+        for (const sum of sums) {
+            const h = head(sum.projectId!, sum.category!);
+            const amount = sum._sum.amountINR ?? 0;
+            if (sum.account === 'BUDGET') h.budget += amount;
+            if (sum.account === 'COMMITTED') h.committed += amount;
+            if (sum.account === 'EXPENDITURE') h.spent += amount;
+        }
+
+        const commitments: MovedCommitment[] = [
+            ...indents.map(i => ({
+                kind: 'INDENT' as const, id: i.id, number: i.indentNumber, projectId: i.projectId, category: categoryKey(i.category),
+                outstandingINR: i.status === 'APPROVED' ? i.estimatedINR : 0,
+            })),
+            ...orders.map(o => ({
+                kind: 'ORDER' as const, id: o.id, number: o.poNumber, projectId: o.projectId, category: categoryKey(o.category),
+                outstandingINR: round2(Math.max(o.amountINR - o.invoicedINR, 0)),
+            })),
+        ];
+        const moved = new Map<string, number>();
+        for (const c of commitments.filter(c => c.outstandingINR > EPSILON)) {
+            const key = headKey(c.projectId, c.category);
+            head(c.projectId, c.category);
+            moved.set(key, (moved.get(key) ?? 0) + c.outstandingINR);
+        }
+
+        const projects = await db.project.findMany({
+            where: { id: { in: Array.from(new Set(Array.from(heads.values()).map(h => h.projectId))) } },
+            select: { id: true, code: true, title: true, category: true, status: true, endDate: true },
+        });
+        const projectById = new Map(projects.map(p => [p.id, p]));
+        const nextStart = fiscalYearRange(nextFiscalYear)!.start;
+
+        const percentFor = (projectId: string): { percent: number; source: RuleSource } => {
+            const project = projectById.get(projectId);
+            if (!project || ['COMPLETED', 'CANCELLED'].includes(project.status) || project.endDate.getTime() < nextStart) {
+                return { percent: 0, source: 'PROJECT_ENDED' };
+            }
+            const own = rules.find(r => r.projectId === projectId);
+            if (own) return { percent: own.carryForwardPercent, source: 'PROJECT' };
+            const byCategory = rules.find(r => r.category === project.category);
+            if (byCategory) return { percent: byCategory.carryForwardPercent, source: 'CATEGORY' };
+            return { percent: defaultPercent, source: 'DEFAULT' };
+        };
+
+        const lines: CarryForwardLine[] = Array.from(heads.entries()).map(([key, h]) => {
+            const project = projectById.get(h.projectId);
+            const commitmentsINR = round2(moved.get(key) ?? 0);
+            const availableINR = round2(h.budget);
+            const { percent, source } = percentFor(h.projectId);
+            const carriedINR = availableINR > 0 ? round2(availableINR * percent / 100) : 0;
+            return {
+                projectId: h.projectId,
+                projectCode: project?.code ?? '-',
+                projectTitle: project?.title ?? '',
+                category: h.category,
+                allocatedINR: round2(h.budget + h.committed + h.spent),
+                spentINR: round2(h.spent),
+                commitmentsINR,
+                availableINR,
+                carryForwardPercent: percent,
+                ruleSource: source,
+                carriedINR,
+                lapsedINR: availableINR > 0 ? round2(availableINR - carriedINR) : 0,
+            };
+        }).sort((a, b) => a.projectCode.localeCompare(b.projectCode) || a.category.localeCompare(b.category));
+
+        const total = (field: 'allocatedINR' | 'spentINR' | 'commitmentsINR' | 'carriedINR' | 'lapsedINR') =>
+            round2(lines.reduce((sum, line) => sum + line[field], 0));
+
+        return {
+            fiscalYear,
+            nextFiscalYear,
+            defaultPercent,
+            lines,
+            commitments,
+            unposted: reconciliation.rows
+                .filter(r => r.fiscalYear === fiscalYear && r.status === 'NOT_IN_LEDGER' && Math.abs(r.budgetAllocatedINR ?? 0) > EPSILON)
+                .map(r => ({ projectCode: r.projectCode, category: r.category, budgetAllocatedINR: r.budgetAllocatedINR ?? 0 })),
+            totals: {
+                allocatedINR: total('allocatedINR'),
+                spentINR: total('spentINR'),
+                commitmentsINR: total('commitmentsINR'),
+                carriedINR: total('carriedINR'),
+                lapsedINR: total('lapsedINR'),
+            },
+        };
+    }
+
+    /**
+     * Closes the year as planned: money moves into next year's Budget rows and
+     * the ledger in one transaction, then the year is frozen. A year already
+     * closed is refused, and heads with nothing left to move are skipped, so the
+     * close cannot carry the same money twice.
+     */
+    async close(fiscalYear: string, defaultPercent: number, userId: string) {
+        if (await archiveService.getActiveYearArchive(fiscalYear)) {
+            throw new YearEndError(`Fiscal year ${fiscalYear} is already closed`, 409);
+        }
+
+        const preview = await this.plan(fiscalYear, defaultPercent);
+        if (preview.unposted.length > 0) {
+            throw new YearEndError(`${preview.unposted.length} budget head(s) of ${fiscalYear} are not in the ledger; post opening balances before closing the year`, 409);
+        }
+        await archiveService.assertBudgetWritable(null, preview.nextFiscalYear);
+
+        // Every project's heads and the freeze run in one transaction, well past Prisma's 5s default timeout
+        return prisma.$transaction(async (tx) => {
+            // Two closes of the same year queue here; the second then finds the archive
+            await lockKey(tx, `year-end:${fiscalYear}`);
+            if (await archiveService.getActiveYearArchive(fiscalYear, tx)) {
+                throw new YearEndError(`Fiscal year ${fiscalYear} is already closed`, 409);
+            }
+
+            // Planned again inside the transaction so the moves match what is posted
+            const plan = await this.plan(fiscalYear, defaultPercent, tx);
+            const { nextFiscalYear } = plan;
+            const ref = (description: string, sourceType: string, sourceId?: string) => ({ description, sourceType, sourceId, createdById: userId });
+
+            for (const c of plan.commitments) {
+                const from = { projectId: c.projectId, fiscalYear, category: c.category };
+                const to = { projectId: c.projectId, fiscalYear: nextFiscalYear, category: c.category };
+                const sourceType = c.kind === 'ORDER' ? 'PurchaseOrder' : 'PurchaseIndent';
+                const label = `${c.kind === 'ORDER' ? 'PO' : 'Indent'} ${c.number}`;
+
+                if (c.outstandingINR > EPSILON) {
+                    await ledgerService.releaseCommitment(tx, from, c.outstandingINR, ref(`${label} carried to ${nextFiscalYear}`, sourceType, c.id));
+                    await ledgerService.allocate(tx, from, -c.outstandingINR, ref(`${label} carried to ${nextFiscalYear}`, sourceType, c.id));
+                    await ledgerService.allocate(tx, to, c.outstandingINR, ref(`${label} brought forward from ${fiscalYear}`, sourceType, c.id));
+                    await ledgerService.commit(tx, to, c.outstandingINR, ref(`${label} brought forward from ${fiscalYear}`, sourceType, c.id));
+                }
+                if (c.kind === 'ORDER') {
+                    await tx.purchaseOrder.update({ where: { id: c.id }, data: { fiscalYear: nextFiscalYear } });
+                } else {
+                    await tx.purchaseIndent.update({ where: { id: c.id }, data: { fiscalYear: nextFiscalYear } });
+                }
+            }
+
+            for (const line of plan.lines) {
+                const from = { projectId: line.projectId, fiscalYear, category: line.category };
+                const to = { projectId: line.projectId, fiscalYear: nextFiscalYear, category: line.category };
+                const released = line.availableINR > EPSILON ? line.availableINR : 0;
+
+                if (released > 0) {
+                    await ledgerService.allocate(tx, from, -released, ref(
+                        `Year-end close: ${line.category} unspent, ${line.carryForwardPercent}% carried to ${nextFiscalYear}`, 'BudgetArchive'
+                    ));
+                }
+                if (line.carriedINR > EPSILON) {
+                    await ledgerService.allocate(tx, to, line.carriedINR, ref(`${line.category} carried forward from ${fiscalYear}`, 'BudgetArchive'));
+                }
+
+                await this.reviseBudget(tx, from, -(released + line.commitmentsINR));
+                await this.reviseBudget(tx, to, line.carriedINR + line.commitmentsINR);
+            }
+
+            await this.recordArchives(tx, plan);
+
+            // Close the year: its budgets, reports, documents and RC minutes become read-only
+            const archive = await archiveService.archiveFiscalYear(fiscalYear, userId, tx);
+            await tx.budgetArchive.updateMany({ where: { fiscalYear, archiveId: null }, data: { archiveId: archive.id } });
+
+            return { plan, archive };
+        }, { timeout: 120_000 });
+    }
+
+    // Moves a head's Budget row by the change, creating next year's row when needed
+    private async reviseBudget(db: Db, head: { projectId: string; fiscalYear: string; category: string }, change: number) {
+        if (Math.abs(change) < EPSILON) return;
+
+        const budget = await db.budget.findFirst({
+            where: { projectId: head.projectId, fiscalYear: head.fiscalYear, category: { equals: head.category, mode: 'insensitive' } },
+        });
+        if (budget) {
+            await db.budget.update({ where: { id: budget.id }, data: { amountINR: { increment: change } } });
+        } else if (change > 0) {
+            await db.budget.create({ data: { ...head, amountINR: change } });
+        }
+    }
+
+    // One BudgetArchive row per project and head; a repeated close adds to it
+    private async recordArchives(db: Db, plan: YearEndPlan) {
+        const rows = new Map<string, CarryForwardLine & { archiveCategory: BudgetCategory }>();
+        for (const line of plan.lines) {
+            const key = `${line.projectId}|${archiveCategory(line.category)}`;
+            const existing = rows.get(key);
+            if (!existing) {
+                rows.set(key, { ...line, archiveCategory: archiveCategory(line.category) });
+                continue;
+            }
+            for (const field of ['allocatedINR', 'spentINR', 'commitmentsINR', 'carriedINR', 'lapsedINR'] as const) {
+                existing[field] = round2(existing[field] + line[field]);
+            }
+        }
+
+        for (const row of rows.values()) {
+            const where = { projectId_fiscalYear_category: { projectId: row.projectId, fiscalYear: plan.fiscalYear, category: row.archiveCategory } };
+            await db.budgetArchive.upsert({
+                where,
+                create: {
+                    projectId: row.projectId,
+                    fiscalYear: plan.fiscalYear,
+                    category: row.archiveCategory,
+                    allocatedAmount: row.allocatedINR,
+                    utilizedAmount: row.spentINR,
+                    carriedForward: row.carriedINR,
+                    commitmentsCarried: row.commitmentsINR,
+                    returnedToCSIR: row.lapsedINR,
+                    carryForwardPercent: row.carryForwardPercent,
+                },
+                update: {
+                    utilizedAmount: row.spentINR,
+                    carriedForward: { increment: row.carriedINR },
+                    commitmentsCarried: { increment: row.commitmentsINR },
+                    returnedToCSIR: { increment: row.lapsedINR },
+                    carryForwardPercent: row.carryForwardPercent,
+                    archiveId: null,
+                    archivedAt: new Date(),
+                },
+            });
+        }
+    }
+}
+
+export const yearEndService = new YearEndService();
@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import fs from 'fs';
+import { Prisma } from '@prisma/client';
 
 export const generateProjectCode = (
     category: string,
@@ -22,7 +23,7 @@ export const calculateFileHash = (filePath: string): Promise<string> => {
     });
 };
 
-export const formatCurrency = (amount: number, currency: 'INR' | 'USD'): string => {
+export const formatCurrency = (amount: number, currency: string): string => {
     const formatter = new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : 'en-US', {
         style: 'currency',
         currency,
@@ -44,6 +45,23 @@ export const getDaysDifference = (date1: Date, date2: Date): number => {
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 };
 
+// "2024-25" -> April 1 2024 .. March 31 2025
+export const fiscalYearRange = (fiscalYear: string): { start: number; end: number } | null => {
+    const match = /^(\d{4})-\d{2}$/.exec(fiscalYear);
+    if (!match) return null;
+    const year = parseInt(match[1], 10);
+    return {
+        start: new Date(year, 3, 1).getTime(),
+        end: new Date(year + 1, 3, 1).getTime() - 1,
+    };
+};
+
+// Fiscal year (April-March) a date falls in, e.g. "2024-25"
+export const getFiscalYear = (date: Date): string => {
+    const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${year}-${(year + 1).toString().slice(2)}`;
+};
+
 export const isOverdue = (endDate: Date): boolean => {
     return new Date() > endDate;
 };
@@ -72,6 +90,11 @@ export const generateRandomPassword = (length: number = 12): string => {
     return password;
 };
 
+// Serialises transactions on the same key: the lock is held until the surrounding transaction ends
+export const lockKey = async (db: Prisma.TransactionClient, key: string): Promise<void> => {
+    await db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+};
+
 export const sleep = (ms: number): Promise<void> => {
     return new Promise(resolve => setTimeout(resolve, ms));
 };
@@ -1,7 +1,8 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from './stores/authStore';
-import { PageGuard, RoleGuard } from './components/RBACGuard';
+import { PageGuard } from './components/RBACGuard';
 import LoginPage from './pages/LoginPage';
+import UnsubscribePage from './pages/UnsubscribePage';
 import DashboardLayout from './layouts/DashboardLayout';
 import DashboardPage from './pages/DashboardPage';
 import ProjectsPage from './pages/ProjectsPage';
@@ -13,6 +14,7 @@ import StaffPage from './pages/StaffPage';
 import RCMeetingsPage from './pages/RCMeetingsPage';
 import DocumentsPage from './pages/DocumentsPage';
 import ReportsPage from './pages/ReportsPage';
+import MonthlyReportsPage from './pages/MonthlyReportsPage';
 import TimelinePage from './pages/TimelinePage';
 import SettingsPage from './pages/SettingsPage';
 import UsersPage from './pages/UsersPage';
@@ -39,6 +41,7 @@ function App() {
             <Routes>
                 {/* Public routes */}
                 <Route path="/login" element={<LoginPage />} />
+                <Route path="/unsubscribe" element={<UnsubscribePage />} />
 
                 {/* Protected routes */}
                 <Route
@@ -51,11 +54,7 @@ function App() {
                 >
                     <Route index element={<Navigate to="/dashboard" replace />} />
                     <Route path="dashboard" element={<PageGuard page="dashboard"><DashboardPage /></PageGuard>} />
-                    <Route path="dg-dashboard" element={
-                        <RoleGuard roles={['ADMIN', 'DIRECTOR']}>
-                            <DGDashboardPage />
-                        </RoleGuard>
-                    } />
+                    <Route path="dg-dashboard" element={<PageGuard page="dg-dashboard"><DGDashboardPage /></PageGuard>} />
                     <Route path="projects" element={<PageGuard page="projects"><ProjectsPage /></PageGuard>} />
                     <Route path="projects/:id" element={<PageGuard page="projects"><ProjectDetailPage /></PageGuard>} />
                     <Route path="proposals" element={<ProposalPage />} />
@@ -65,19 +64,12 @@ function App() {
                     <Route path="rc-meetings" element={<PageGuard page="rc-meetings"><RCMeetingsPage /></PageGuard>} />
                     <Route path="documents" element={<PageGuard page="documents"><DocumentsPage /></PageGuard>} />
                     <Route path="reports" element={<PageGuard page="reports"><ReportsPage /></PageGuard>} />
+                    <Route path="reports/monthly" element={<PageGuard page="monthly-reports"><MonthlyReportsPage /></PageGuard>} />
                     <Route path="timeline" element={<PageGuard page="timeline"><TimelinePage /></PageGuard>} />
                     <Route path="settings" element={<PageGuard page="settings"><SettingsPage /></PageGuard>} />
-                    <Route path="users" element={
-                        <RoleGuard roles={['ADMIN', 'DIRECTOR']}>
-                            <UsersPage />
-                        </RoleGuard>
-                    } />
+                    <Route path="users" element={<PageGuard page="users"><UsersPage /></PageGuard>} />
                     <Route path="profile" element={<PageGuard page="profile"><ProfilePage /></PageGuard>} />
-                    <Route path="bulk-import" element={
-                        <RoleGuard roles={['ADMIN', 'DIRECTOR', 'SUPERVISOR']}>
-                            <BulkImportPage />
-                        </RoleGuard>
-                    } />
+                    <Route path="bulk-import" element={<PageGuard page="bulk-import"><BulkImportPage /></PageGuard>} />
                     <Route path="archive" element={<PageGuard page="archive"><ArchivePage /></PageGuard>} />
                     <Route path="access-denied" element={<AccessDeniedPage />} />
                 </Route>
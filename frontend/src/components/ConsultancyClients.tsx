@@ -0,0 +1,552 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { Plus, X, Pencil, BookOpen, FileCheck2 } from 'lucide-react';
+
+interface Client {
+    id: string;
+    name: string;
+    gstin?: string | null;
+    pan?: string | null;
+    stateCode: string;
+    address?: string | null;
+    contactName?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    isActive: boolean;
+}
+
+interface LedgerEntry {
+    date: string;
+    kind: 'INVOICE' | 'PAYMENT' | 'TDS' | 'CREDIT_NOTE';
+    reference: string;
+    projectCode: string;
+    description: string;
+    debitINR: number;
+    creditINR: number;
+    balanceINR: number;
+}
+
+interface ClientLedger {
+    client: Client;
+    openingINR: number;
+    entries: LedgerEntry[];
+    totals: { debitINR: number; creditINR: number };
+    closingINR: number;
+}
+
+interface TdsPayment {
+    id: string;
+    receivedDate: string;
+    amountINR: number;
+    tdsINR: number;
+    tdsSection?: string | null;
+    tdsCertificateRef?: string | null;
+    tdsCertificateAt?: string | null;
+    client: { id: string; name: string; pan?: string | null };
+    invoice: { invoiceNumber: string };
+    project: { code: string };
+}
+
+interface TdsRegister {
+    fiscalYear: string;
+    payments: TdsPayment[];
+    byClient: Array<{ clientId: string; name: string; pan: string | null; tdsINR: number; pendingINR: number }>;
+    totalTdsINR: number;
+    pendingCertificatesINR: number;
+}
+
+// GST state codes
+const STATES: Record<string, string> = {
+    '01': 'Jammu & Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh', '05': 'Uttarakhand',
+    '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh', '10': 'Bihar', '11': 'Sikkim',
+    '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya',
+    '18': 'Assam', '19': 'West Bengal', '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh',
+    '24': 'Gujarat', '26': 'Dadra & Nagar Haveli and Daman & Diu', '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa',
+    '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry', '35': 'Andaman & Nicobar Islands',
+    '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh',
+};
+
+const KIND_LABELS: Record<LedgerEntry['kind'], string> = {
+    INVOICE: 'Invoice',
+    PAYMENT: 'Payment',
+    TDS: 'TDS',
+    CREDIT_NOTE: 'Credit note',
+};
+
+const today = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// April-March, e.g. "2024-25"
+const fiscalYearOf = (year: number) => `${year}-${String(year + 1).slice(2)}`;
+
+const currentFiscalYear = () => {
+    const now = new Date();
+    return fiscalYearOf(now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1);
+};
+
+// The current fiscal year and the five before it
+const recentFiscalYears = () => {
+    const start = parseInt(currentFiscalYear(), 10);
+    return Array.from({ length: 6 }, (_, i) => fiscalYearOf(start - i));
+};
+
+const formatINR = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const emptyClient = { name: '', gstin: '', pan: '', stateCode: '33', address: '', contactName: '', email: '', phone: '', isActive: true };
+
+export default function ConsultancyClients() {
+    const { accessToken } = useAuthStore();
+    const [clients, setClients] = useState<Client[]>([]);
+    const [editing, setEditing] = useState<Client | null>(null);
+    const [showModal, setShowModal] = useState(false);
+    const [form, setForm] = useState(emptyClient);
+    const [ledgerClient, setLedgerClient] = useState<Client | null>(null);
+    const [range, setRange] = useState({ from: '', to: '' });
+    const [ledger, setLedger] = useState<ClientLedger | null>(null);
+    const [fiscalYear, setFiscalYear] = useState(currentFiscalYear());
+    const [register, setRegister] = useState<TdsRegister | null>(null);
+    const [certificateFor, setCertificateFor] = useState<TdsPayment | null>(null);
+    const [certificateForm, setCertificateForm] = useState({ reference: '', receivedAt: today() });
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchClients();
+    }, []);
+
+    useEffect(() => {
+        fetchRegister();
+    }, [fiscalYear]);
+
+    useEffect(() => {
+        if (ledgerClient) fetchLedger(ledgerClient.id);
+    }, [ledgerClient, range]);
+
+    const fetchClients = async () => {
+        try {
+            const res = await fetch('/api/finance/clients?includeInactive=true', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setClients(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch clients:', err);
+        }
+    };
+
+    const fetchLedger = async (clientId: string) => {
+        const params = new URLSearchParams();
+        if (range.from) params.set('from', range.from);
+        if (range.to) params.set('to', range.to);
+        try {
+            const res = await fetch(`/api/finance/clients/${clientId}/ledger?${params}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setLedger(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch client ledger:', err);
+        }
+    };
+
+    const fetchRegister = async () => {
+        try {
+            const res = await fetch(`/api/finance/tds-register?fiscalYear=${fiscalYear}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setRegister(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch TDS register:', err);
+        }
+    };
+
+    const send = async (url: string, body: unknown, method = 'POST') => {
+        setError('');
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify(body),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.details?.[0]?.message || data.error || 'Request failed');
+                return false;
+            }
+            return true;
+        } catch (err) {
+            setError('Request failed');
+            return false;
+        }
+    };
+
+    const openEdit = (client: Client | null) => {
+        setEditing(client);
+        setForm(client ? {
+            name: client.name,
+            gstin: client.gstin ?? '',
+            pan: client.pan ?? '',
+            stateCode: client.stateCode,
+            address: client.address ?? '',
+            contactName: client.contactName ?? '',
+            email: client.email ?? '',
+            phone: client.phone ?? '',
+            isActive: client.isActive,
+        } : emptyClient);
+        setError('');
+        setShowModal(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const body = {
+            ...form,
+            gstin: form.gstin || null,
+            pan: form.pan || null,
+            address: form.address || null,
+            contactName: form.contactName || null,
+            email: form.email || null,
+            phone: form.phone || null,
+        };
+        const ok = editing
+            ? await send(`/api/finance/clients/${editing.id}`, body, 'PUT')
+            : await send('/api/finance/clients', body);
+        setSaving(false);
+        if (ok) {
+            setShowModal(false);
+            fetchClients();
+        }
+    };
+
+    const handleCertificate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!certificateFor) return;
+        setSaving(true);
+        const ok = await send(`/api/finance/client-payments/${certificateFor.id}/tds-certificate`, certificateForm, 'PUT');
+        setSaving(false);
+        if (ok) {
+            setCertificateFor(null);
+            fetchRegister();
+            if (ledgerClient) fetchLedger(ledgerClient.id);
+        }
+    };
+
+    return (
+        <div className="space-y-5">
+            {error && !showModal && !certificateFor && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+
+            {/* Client master */}
+            <div className="glass-panel p-5 space-y-4">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h3 className="font-bold text-sm text-secondary-900">Consultancy Clients</h3>
+                        <p className="text-[11px] text-slate-500">
+                            Clients billed for CNP and STS work; the state code decides whether CGST and SGST or IGST is charged
+                        </p>
+                    </div>
+                    <button onClick={() => openEdit(null)} className="btn-primary-glossy text-xs">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Add Client</span>
+                    </button>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Client</th>
+                                <th>GSTIN</th>
+                                <th>State</th>
+                                <th>Contact</th>
+                                <th>Status</th>
+                                <th className="text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {clients.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="text-center text-xs text-slate-500 py-6">No clients recorded</td>
+                                </tr>
+                            ) : clients.map(c => (
+                                <tr key={c.id} className={c.isActive ? '' : 'opacity-60'}>
+                                    <td className="text-xs font-bold text-secondary-900">{c.name}</td>
+                                    <td className="font-mono text-xs text-slate-600">{c.gstin || 'Unregistered'}</td>
+                                    <td className="text-xs text-slate-600">{c.stateCode} · {STATES[c.stateCode] ?? '-'}</td>
+                                    <td className="text-xs text-slate-600">
+                                        {c.contactName}
+                                        {c.email && <p className="text-[10px] text-slate-500">{c.email}</p>}
+                                    </td>
+                                    <td>
+                                        <span className={`glass-pill text-[10px] ${c.isActive ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                                            {c.isActive ? 'Active' : 'Inactive'}
+                                        </span>
+                                    </td>
+                                    <td>
+                                        <div className="flex items-center justify-end gap-1.5">
+                                            <button onClick={() => setLedgerClient(c)} title="Client ledger" className="p-1 text-slate-500 hover:text-primary-600">
+                                                <BookOpen className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button onClick={() => openEdit(c)} title="Edit client" className="p-1 text-slate-500 hover:text-primary-600">
+                                                <Pencil className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Client ledger */}
+            {ledgerClient && ledger && ledger.client.id === ledgerClient.id && (
+                <div className="glass-panel p-5 space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div>
+                            <h3 className="font-bold text-sm text-secondary-900">Ledger · {ledger.client.name}</h3>
+                            <p className="text-[11px] text-slate-500">
+                                Opening {formatINR(ledger.openingINR)} · invoiced {formatINR(ledger.totals.debitINR)} · settled {formatINR(ledger.totals.creditINR)}
+                                · <span className="font-bold">{formatINR(ledger.closingINR)} due</span>
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs">
+                            <input type="date" value={range.from} onChange={(e) => setRange({ ...range, from: e.target.value })} className="glass-input text-xs" />
+                            <span className="text-slate-500">to</span>
+                            <input type="date" value={range.to} onChange={(e) => setRange({ ...range, to: e.target.value })} className="glass-input text-xs" />
+                            <button onClick={() => { setLedgerClient(null); setLedger(null); }} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Date</th>
+                                    <th>Type</th>
+                                    <th>Reference</th>
+                                    <th>Project</th>
+                                    <th>Particulars</th>
+                                    <th className="text-right">Debit</th>
+                                    <th className="text-right">Credit</th>
+                                    <th className="text-right">Balance</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ledger.entries.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={8} className="text-center text-xs text-slate-500 py-6">No transactions in this period</td>
+                                    </tr>
+                                ) : ledger.entries.map((e, index) => (
+                                    <tr key={index}>
+                                        <td className="text-xs text-slate-600">{new Date(e.date).toLocaleDateString('en-IN')}</td>
+                                        <td className="text-xs text-slate-600">{KIND_LABELS[e.kind]}</td>
+                                        <td className="font-mono text-xs text-secondary-900">{e.reference}</td>
+                                        <td className="font-mono text-xs text-primary-600">{e.projectCode}</td>
+                                        <td className="text-xs text-slate-600">{e.description}</td>
+                                        <td className="text-xs text-right">{e.debitINR > 0 ? formatINR(e.debitINR) : ''}</td>
+                                        <td className="text-xs text-right">{e.creditINR > 0 ? formatINR(e.creditINR) : ''}</td>
+                                        <td className="text-xs font-bold text-secondary-900 text-right">{formatINR(e.balanceINR)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {/* TDS register */}
+            {register && (
+                <div className="glass-panel p-5 space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div>
+                            <h3 className="font-bold text-sm text-secondary-900">TDS Register</h3>
+                            <p className="text-[11px] text-slate-500">
+                                {formatINR(register.totalTdsINR)} deducted by clients in FY {register.fiscalYear}
+                                {register.pendingCertificatesINR > 0 && ` · certificates awaited for ${formatINR(register.pendingCertificatesINR)}`}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs">
+                            <label className="font-bold text-secondary-800">Fiscal Year</label>
+                            <select value={fiscalYear} onChange={(e) => setFiscalYear(e.target.value)} className="glass-input text-xs">
+                                {recentFiscalYears().map(fy => (
+                                    <option key={fy} value={fy}>{fy}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {register.byClient.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {register.byClient.map(c => (
+                                <span key={c.clientId} className="glass-pill text-[10px] bg-slate-100 text-slate-700">
+                                    {c.name}{c.pan && ` (${c.pan})`}: {formatINR(c.tdsINR)}
+                                    {c.pendingINR > 0 && ` · ${formatINR(c.pendingINR)} awaiting certificate`}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Received</th>
+                                    <th>Client</th>
+                                    <th>Invoice</th>
+                                    <th>Section</th>
+                                    <th className="text-right">Paid</th>
+                                    <th className="text-right">TDS</th>
+                                    <th>Certificate</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {register.payments.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={7} className="text-center text-xs text-slate-500 py-6">No tax deducted in this fiscal year</td>
+                                    </tr>
+                                ) : register.payments.map(p => (
+                                    <tr key={p.id}>
+                                        <td className="text-xs text-slate-600">{new Date(p.receivedDate).toLocaleDateString('en-IN')}</td>
+                                        <td className="text-xs text-secondary-900">{p.client.name}</td>
+                                        <td className="text-xs">
+                                            <p className="font-mono text-secondary-900">{p.invoice.invoiceNumber}</p>
+                                            <p className="text-[10px] text-slate-500">{p.project.code}</p>
+                                        </td>
+                                        <td className="text-xs text-slate-600">{p.tdsSection ?? '-'}</td>
+                                        <td className="text-xs text-slate-600 text-right">{formatINR(p.amountINR)}</td>
+                                        <td className="text-xs font-bold text-secondary-900 text-right">{formatINR(p.tdsINR)}</td>
+                                        <td className="text-xs">
+                                            {p.tdsCertificateRef ? (
+                                                <span className="text-slate-600">
+                                                    {p.tdsCertificateRef}
+                                                    <span className="block text-[10px] text-slate-500">{new Date(p.tdsCertificateAt!).toLocaleDateString('en-IN')}</span>
+                                                </span>
+                                            ) : (
+                                                <button
+                                                    onClick={() => { setCertificateForm({ reference: '', receivedAt: today() }); setError(''); setCertificateFor(p); }}
+                                                    className="btn-secondary-glossy text-[10px]"
+                                                >
+                                                    <FileCheck2 className="w-3 h-3" />
+                                                    <span>Record</span>
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {/* Client editor */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200 max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{editing ? `Edit ${editing.name}` : 'Add Client'}</h3>
+                            <button onClick={() => setShowModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSave} className="space-y-3 text-xs">
+                            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Name *</label>
+                                <input type="text" required value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">State *</label>
+                                    <select value={form.stateCode} onChange={(e) => setForm({ ...form, stateCode: e.target.value })} className="glass-input text-xs">
+                                        {Object.entries(STATES).map(([code, name]) => (
+                                            <option key={code} value={code}>{code} · {name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">GSTIN</label>
+                                    <input type="text" maxLength={15} value={form.gstin} onChange={(e) => setForm({ ...form, gstin: e.target.value.toUpperCase() })} placeholder="Blank if unregistered" className="glass-input text-xs font-mono" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">PAN</label>
+                                    <input type="text" maxLength={10} value={form.pan} onChange={(e) => setForm({ ...form, pan: e.target.value.toUpperCase() })} className="glass-input text-xs font-mono" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Contact Person</label>
+                                    <input type="text" value={form.contactName} onChange={(e) => setForm({ ...form, contactName: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Email</label>
+                                    <input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Phone</label>
+                                    <input type="text" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Billing Address</label>
+                                <textarea rows={2} value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            {editing && (
+                                <label className="flex items-center gap-2 text-secondary-800">
+                                    <input type="checkbox" checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+                                    <span>Active (inactive clients cannot be quoted or invoiced)</span>
+                                </label>
+                            )}
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Client'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* TDS certificate received */}
+            {certificateFor && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Record TDS Certificate</h3>
+                            <button onClick={() => setCertificateFor(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleCertificate} className="space-y-3 text-xs">
+                            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+                            <p className="text-slate-600">
+                                {certificateFor.client.name} · {certificateFor.invoice.invoiceNumber} · <span className="font-bold">{formatINR(certificateFor.tdsINR)}</span> deducted
+                            </p>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Form 16A No. *</label>
+                                    <input type="text" required value={certificateForm.reference} onChange={(e) => setCertificateForm({ ...certificateForm, reference: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Received On *</label>
+                                    <input type="date" required max={today()} value={certificateForm.receivedAt} onChange={(e) => setCertificateForm({ ...certificateForm, receivedAt: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setCertificateFor(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Certificate'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
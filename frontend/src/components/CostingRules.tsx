@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { CheckCircle2, AlertCircle, Pencil, RotateCcw, X } from 'lucide-react';
+
+interface CostingRule {
+    category: string;
+    overheadPercent: number;
+    overheadExcludesEquipment: boolean;
+    contingencyCapPercent: number;
+    gstPercent: number;
+    isDefault: boolean;
+    updatedAt: string | null;
+}
+
+export default function CostingRules() {
+    const { accessToken } = useAuthStore();
+    const [rules, setRules] = useState<CostingRule[]>([]);
+    const [editing, setEditing] = useState<CostingRule | null>(null);
+    const [form, setForm] = useState({ overheadPercent: '', overheadExcludesEquipment: false, contingencyCapPercent: '', gstPercent: '' });
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetchRules();
+    }, []);
+
+    const fetchRules = async () => {
+        try {
+            const res = await fetch('/api/finance/costing-rules', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setRules(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch costing rules:', err);
+        }
+    };
+
+    const send = async (url: string, method: string, body: unknown, success: string) => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            const data = await res.json();
+            setMessage(res.ok ? { type: 'success', text: success } : { type: 'error', text: data.error || 'Request failed' });
+            if (res.ok) fetchRules();
+            return res.ok;
+        } catch (err) {
+            setMessage({ type: 'error', text: 'Request failed' });
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const openEditor = (rule: CostingRule) => {
+        setEditing(rule);
+        setForm({
+            overheadPercent: String(rule.overheadPercent),
+            overheadExcludesEquipment: rule.overheadExcludesEquipment,
+            contingencyCapPercent: String(rule.contingencyCapPercent),
+            gstPercent: String(rule.gstPercent),
+        });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        const ok = await send(`/api/finance/costing-rules/${editing.category}`, 'PUT', {
+            overheadPercent: parseFloat(form.overheadPercent),
+            overheadExcludesEquipment: form.overheadExcludesEquipment,
+            contingencyCapPercent: parseFloat(form.contingencyCapPercent),
+            gstPercent: parseFloat(form.gstPercent),
+        }, `${editing.category} costing terms saved`);
+        if (ok) setEditing(null);
+    };
+
+    const handleReset = (rule: CostingRule) => {
+        if (!confirm(`Return ${rule.category} proposals to the default costing terms?`)) return;
+        send(`/api/finance/costing-rules/${rule.category}`, 'DELETE', undefined, `${rule.category} returned to the default terms`);
+    };
+
+    return (
+        <div className="space-y-6">
+            {message && (
+                <div className={`p-3 rounded-xl text-xs flex items-center gap-2 ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                    <span>{message.text}</span>
+                </div>
+            )}
+
+            <div className="glass-panel p-5 space-y-4">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Proposal Costing Terms</h3>
+                    <p className="text-[11px] text-slate-500">
+                        Overhead, contingency cap and GST applied to proposal cost sheets of each category. Saved cost sheets keep the terms they were priced under.
+                    </p>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Category</th>
+                                <th className="text-right">Overhead</th>
+                                <th>Overhead Base</th>
+                                <th className="text-right">Contingency Cap</th>
+                                <th className="text-right">GST</th>
+                                <th>Terms</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rules.map(rule => (
+                                <tr key={rule.category}>
+                                    <td className="font-mono text-xs font-bold text-primary-600">{rule.category}</td>
+                                    <td className="text-xs text-right text-secondary-900">{rule.overheadPercent}%</td>
+                                    <td className="text-xs text-slate-600">{rule.overheadExcludesEquipment ? 'Excluding equipment' : 'All direct costs'}</td>
+                                    <td className="text-xs text-right text-secondary-900">{rule.contingencyCapPercent}%</td>
+                                    <td className="text-xs text-right text-secondary-900">{rule.gstPercent > 0 ? `${rule.gstPercent}%` : '—'}</td>
+                                    <td>
+                                        <span className={`glass-pill text-[10px] ${rule.isDefault ? 'bg-slate-100 text-slate-500' : 'bg-primary-50 text-primary-700'}`}>
+                                            {rule.isDefault ? 'Default' : 'Custom'}
+                                        </span>
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <button onClick={() => openEditor(rule)} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Edit terms">
+                                            <Pencil className="w-3.5 h-3.5" />
+                                        </button>
+                                        {!rule.isDefault && (
+                                            <button onClick={() => handleReset(rule)} disabled={saving} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Return to default terms">
+                                                <RotateCcw className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {editing && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{editing.category} Costing Terms</h3>
+                            <button onClick={() => setEditing(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSave} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Overhead (%) *</label>
+                                    <input type="number" required min="0" max="100" step="0.01" value={form.overheadPercent} onChange={(e) => setForm({ ...form, overheadPercent: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Contingency Cap (%) *</label>
+                                    <input type="number" required min="0" max="100" step="0.01" value={form.contingencyCapPercent} onChange={(e) => setForm({ ...form, contingencyCapPercent: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">GST (%) *</label>
+                                    <input type="number" required min="0" max="100" step="0.01" value={form.gstPercent} onChange={(e) => setForm({ ...form, gstPercent: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+                            <label className="flex items-center gap-2 text-secondary-800">
+                                <input type="checkbox" checked={form.overheadExcludesEquipment} onChange={(e) => setForm({ ...form, overheadExcludesEquipment: e.target.checked })} />
+                                <span>Do not charge overhead on equipment</span>
+                            </label>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setEditing(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Terms'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,467 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { CheckCircle2, AlertCircle, Plus, Pencil, X } from 'lucide-react';
+
+interface Currency {
+    code: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    isActive: boolean;
+}
+
+interface CurrencyRate {
+    id: string;
+    rate: number;
+    rateDate: string;
+    source: 'API' | 'MANUAL';
+    fetchedAt: string;
+}
+
+interface RevaluationRow {
+    id: string;
+    project: { id: string; code: string; title: string };
+    transactionDate: string;
+    source: string;
+    currency: string;
+    amount: number;
+    bookedRate: number;
+    bookedINR: number;
+    currentRate: number;
+    revaluedINR: number;
+    gainLossINR: number;
+}
+
+interface Revaluation {
+    rows: RevaluationRow[];
+    byCurrency: {
+        currency: string;
+        rate: number;
+        rateDate: string;
+        source: 'API' | 'MANUAL' | null;
+        amount: number;
+        bookedINR: number;
+        revaluedINR: number;
+        gainLossINR: number;
+    }[];
+    missingRates: string[];
+    totalGainLossINR: number;
+}
+
+const today = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+const formatGainLoss = (amount: number) => (
+    <span className={amount >= 0 ? 'text-emerald-700' : 'text-rose-700'}>
+        {amount >= 0 ? '+' : '−'}{formatINR(Math.abs(amount))}
+    </span>
+);
+
+const emptyCurrency = { code: '', name: '', symbol: '', decimals: '2', isActive: true };
+
+export default function CurrencyRevaluation() {
+    const { accessToken } = useAuthStore();
+    const [currencies, setCurrencies] = useState<Currency[]>([]);
+    const [selected, setSelected] = useState('USD');
+    const [rates, setRates] = useState<CurrencyRate[]>([]);
+    const [rateForm, setRateForm] = useState({ rateDate: today(), rate: '' });
+    const [asOf, setAsOf] = useState(today());
+    const [report, setReport] = useState<Revaluation | null>(null);
+    const [editing, setEditing] = useState<typeof emptyCurrency | null>(null);
+    const [isNew, setIsNew] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetchCurrencies();
+    }, []);
+
+    useEffect(() => {
+        fetchRates();
+    }, [selected]);
+
+    useEffect(() => {
+        fetchRevaluation();
+    }, [asOf]);
+
+    const get = async <T,>(url: string): Promise<T | null> => {
+        try {
+            const res = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+            return res.ok ? await res.json() : null;
+        } catch (err) {
+            console.error(`Failed to fetch ${url}:`, err);
+            return null;
+        }
+    };
+
+    const post = async (url: string, body: unknown, success: string) => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            setMessage(res.ok ? { type: 'success', text: success } : { type: 'error', text: data.error || 'Request failed' });
+            return res.ok;
+        } catch (err) {
+            setMessage({ type: 'error', text: 'Request failed' });
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const fetchCurrencies = async () => {
+        const data = await get<Currency[]>('/api/finance/currencies?all=true');
+        if (data) setCurrencies(data);
+    };
+
+    const fetchRates = async () => {
+        if (selected === 'INR') return setRates([]);
+        const data = await get<CurrencyRate[]>(`/api/finance/currency-rates?currency=${selected}`);
+        setRates(data ?? []);
+    };
+
+    const fetchRevaluation = async () => {
+        setReport(await get<Revaluation>(`/api/finance/revaluation?asOf=${asOf}`));
+    };
+
+    const handleSaveCurrency = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        const ok = await post('/api/finance/currencies', { ...editing, decimals: parseInt(editing.decimals) }, `${editing.code.toUpperCase()} saved`);
+        if (ok) {
+            setEditing(null);
+            fetchCurrencies();
+        }
+    };
+
+    const handleAddRate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const ok = await post('/api/finance/currency-rates', {
+            currency: selected,
+            rateDate: rateForm.rateDate,
+            rate: parseFloat(rateForm.rate),
+        }, `${selected} rate for ${rateForm.rateDate} recorded`);
+        if (ok) {
+            setRateForm({ ...rateForm, rate: '' });
+            fetchRates();
+            fetchRevaluation();
+        }
+    };
+
+    const openEditor = (currency?: Currency) => {
+        setIsNew(!currency);
+        setEditing(currency ? { ...currency, decimals: String(currency.decimals) } : emptyCurrency);
+    };
+
+    return (
+        <div className="space-y-6">
+            {message && (
+                <div className={`p-3 rounded-xl text-xs flex items-center gap-2 ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                    <span>{message.text}</span>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Currencies */}
+                <div className="glass-panel p-5 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h3 className="font-bold text-sm text-secondary-900">Currencies</h3>
+                            <p className="text-[11px] text-slate-500">Inactive currencies are kept for existing entries but cannot be used for new ones</p>
+                        </div>
+                        <button onClick={() => openEditor()} className="btn-secondary-glossy text-xs flex items-center gap-1.5">
+                            <Plus className="w-3.5 h-3.5" />
+                            <span>Add</span>
+                        </button>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Code</th>
+                                    <th>Name</th>
+                                    <th>Symbol</th>
+                                    <th>Status</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {currencies.map(c => (
+                                    <tr
+                                        key={c.code}
+                                        onClick={() => setSelected(c.code)}
+                                        className={`cursor-pointer ${selected === c.code ? 'bg-primary-50/60' : ''}`}
+                                    >
+                                        <td className="font-mono text-xs font-bold text-primary-600">{c.code}</td>
+                                        <td className="text-xs text-secondary-900">{c.name}</td>
+                                        <td className="text-xs text-slate-600">{c.symbol}</td>
+                                        <td>
+                                            <span className={`glass-pill text-[10px] ${c.isActive ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                                                {c.code === 'INR' ? 'Base' : c.isActive ? 'Active' : 'Inactive'}
+                                            </span>
+                                        </td>
+                                        <td className="text-right">
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); openEditor(c); }}
+                                                className="p-1 rounded hover:bg-slate-100 text-slate-500"
+                                                title="Edit currency"
+                                            >
+                                                <Pencil className="w-3.5 h-3.5" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                {/* Rates of the selected currency */}
+                <div className="glass-panel p-5 space-y-4">
+                    <div>
+                        <h3 className="font-bold text-sm text-secondary-900">{selected} → INR Rates</h3>
+                        <p className="text-[11px] text-slate-500">Fetched daily when the rate API is reachable; enter a rate by hand when it is not</p>
+                    </div>
+                    {selected === 'INR' ? (
+                        <p className="text-xs text-slate-500">INR is the base currency. Select another currency to see its rates.</p>
+                    ) : (
+                        <>
+                            <form onSubmit={handleAddRate} className="flex flex-wrap items-end gap-2 text-xs">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Date</label>
+                                    <input
+                                        type="date"
+                                        required
+                                        max={today()}
+                                        value={rateForm.rateDate}
+                                        onChange={(e) => setRateForm({ ...rateForm, rateDate: e.target.value })}
+                                        className="glass-input text-xs"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">INR per {selected}</label>
+                                    <input
+                                        type="number"
+                                        required
+                                        min="0"
+                                        step="0.0001"
+                                        value={rateForm.rate}
+                                        onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                                        className="glass-input text-xs"
+                                    />
+                                </div>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs disabled:opacity-50">
+                                    Record Rate
+                                </button>
+                            </form>
+                            <div className="overflow-x-auto max-h-72">
+                                <table className="table-glossy">
+                                    <thead>
+                                        <tr>
+                                            <th>Date</th>
+                                            <th className="text-right">Rate</th>
+                                            <th>Source</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {rates.length === 0 ? (
+                                            <tr>
+                                                <td colSpan={3} className="text-center text-xs text-slate-500 py-6">No rates recorded for {selected}</td>
+                                            </tr>
+                                        ) : rates.map(r => (
+                                            <tr key={r.id}>
+                                                <td className="text-xs text-slate-600">{new Date(r.rateDate).toLocaleDateString('en-IN')}</td>
+                                                <td className="text-right text-xs font-bold text-secondary-900">{r.rate.toFixed(4)}</td>
+                                                <td>
+                                                    <span className={`glass-pill text-[10px] ${r.source === 'MANUAL' ? 'bg-amber-50 text-amber-700' : 'bg-sky-50 text-sky-700'}`}>
+                                                        {r.source === 'MANUAL' ? 'Manual' : 'API'}
+                                                    </span>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Forex revaluation */}
+            <div className="glass-panel p-5 space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div>
+                        <h3 className="font-bold text-sm text-secondary-900">Forex Revaluation of Receipts</h3>
+                        <p className="text-[11px] text-slate-500">
+                            Foreign-currency receipts revalued at the rate of the chosen date against the INR they were booked at
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs">
+                        <label className="font-bold text-secondary-800">As of</label>
+                        <input type="date" max={today()} value={asOf} onChange={(e) => setAsOf(e.target.value)} className="glass-input text-xs" />
+                    </div>
+                </div>
+
+                {!report ? (
+                    <div className="p-8 text-center text-xs text-slate-400">Revaluing receipts...</div>
+                ) : (
+                    <>
+                        {report.missingRates.length > 0 && (
+                            <div className="p-3 rounded-xl text-xs flex items-center gap-2 bg-amber-50 text-amber-700">
+                                <AlertCircle className="w-4 h-4" />
+                                <span>No rate for {report.missingRates.join(', ')} on {asOf}; receipts in these currencies are left out. Record a rate above.</span>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <div className="p-3 rounded-xl bg-slate-50">
+                                <p className="text-[10px] uppercase font-bold text-slate-500">Net Gain / Loss</p>
+                                <p className="text-lg font-bold">{formatGainLoss(report.totalGainLossINR)}</p>
+                            </div>
+                            {report.byCurrency.map(c => (
+                                <div key={c.currency} className="p-3 rounded-xl bg-slate-50">
+                                    <p className="text-[10px] uppercase font-bold text-slate-500">
+                                        {c.currency} @ {c.rate.toFixed(4)}{c.source === 'MANUAL' ? ' (manual)' : ''}
+                                    </p>
+                                    <p className="text-lg font-bold">{formatGainLoss(c.gainLossINR)}</p>
+                                    <p className="text-[10px] text-slate-500">{c.amount.toLocaleString('en-IN')} {c.currency} received</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="table-glossy">
+                                <thead>
+                                    <tr>
+                                        <th>Date</th>
+                                        <th>Project</th>
+                                        <th>Source</th>
+                                        <th className="text-right">Amount</th>
+                                        <th className="text-right">Booked</th>
+                                        <th className="text-right">Revalued</th>
+                                        <th className="text-right">Gain / Loss</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.rows.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={7} className="text-center text-xs text-slate-500 py-6">No foreign-currency receipts to revalue</td>
+                                        </tr>
+                                    ) : report.rows.map(r => (
+                                        <tr key={r.id}>
+                                            <td className="text-xs text-slate-600">{new Date(r.transactionDate).toLocaleDateString('en-IN')}</td>
+                                            <td className="font-mono text-xs font-bold text-primary-600" title={r.project.title}>{r.project.code}</td>
+                                            <td className="text-xs text-secondary-900">{r.source}</td>
+                                            <td className="text-right text-xs text-slate-600">{r.currency} {r.amount.toLocaleString('en-IN')}</td>
+                                            <td className="text-right text-xs text-slate-600">
+                                                {formatINR(r.bookedINR)}
+                                                <p className="text-[10px] text-slate-400">@ {r.bookedRate.toFixed(4)}</p>
+                                            </td>
+                                            <td className="text-right text-xs text-slate-600">
+                                                {formatINR(r.revaluedINR)}
+                                                <p className="text-[10px] text-slate-400">@ {r.currentRate.toFixed(4)}</p>
+                                            </td>
+                                            <td className="text-right text-xs font-bold">{formatGainLoss(r.gainLossINR)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {editing && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{isNew ? 'Add Currency' : `Edit ${editing.code}`}</h3>
+                            <button onClick={() => setEditing(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSaveCurrency} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">ISO Code</label>
+                                    <input
+                                        required
+                                        maxLength={3}
+                                        disabled={!isNew}
+                                        value={editing.code}
+                                        onChange={(e) => setEditing({ ...editing, code: e.target.value.toUpperCase() })}
+                                        placeholder="e.g. CHF"
+                                        className="glass-input text-xs w-full"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Symbol</label>
+                                    <input
+                                        required
+                                        maxLength={4}
+                                        value={editing.symbol}
+                                        onChange={(e) => setEditing({ ...editing, symbol: e.target.value })}
+                                        className="glass-input text-xs w-full"
+                                    />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Name</label>
+                                <input
+                                    required
+                                    value={editing.name}
+                                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                                    placeholder="e.g. Swiss Franc"
+                                    className="glass-input text-xs w-full"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3 items-end">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Decimal places</label>
+                                    <input
+                                        type="number"
+                                        required
+                                        min="0"
+                                        max="4"
+                                        value={editing.decimals}
+                                        onChange={(e) => setEditing({ ...editing, decimals: e.target.value })}
+                                        className="glass-input text-xs w-full"
+                                    />
+                                </div>
+                                <label className="flex items-center gap-1.5 text-xs text-slate-600 pb-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={editing.isActive}
+                                        disabled={editing.code === 'INR'}
+                                        onChange={(e) => setEditing({ ...editing, isActive: e.target.checked })}
+                                        className="w-4 h-4 accent-primary-600 rounded"
+                                    />
+                                    <span>Accept for new entries</span>
+                                </label>
+                            </div>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setEditing(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { CheckCircle2, AlertCircle, BookOpen } from 'lucide-react';
+
+interface ReconciliationRow {
+    projectId: string;
+    projectCode: string;
+    fiscalYear: string;
+    category: string;
+    budgetAllocatedINR: number | null;
+    budgetUtilizedINR: number | null;
+    ledgerAllocatedINR: number;
+    ledgerSpentINR: number;
+    status: 'OK' | 'MISMATCH' | 'NO_BUDGET_ROW' | 'NOT_IN_LEDGER';
+}
+
+interface Reconciliation {
+    rows: ReconciliationRow[];
+    summary: { heads: number; ok: number; flagged: number };
+}
+
+const STATUS_STYLES: Record<ReconciliationRow['status'], { label: string; className: string }> = {
+    OK: { label: 'OK', className: 'bg-emerald-50 text-emerald-700' },
+    MISMATCH: { label: 'Mismatch', className: 'bg-rose-50 text-rose-700' },
+    NO_BUDGET_ROW: { label: 'No budget row', className: 'bg-amber-50 text-amber-700' },
+    NOT_IN_LEDGER: { label: 'Not in ledger', className: 'bg-slate-100 text-slate-600' },
+};
+
+const formatINR = (amount: number | null) => (amount === null ? '—' : `₹${Math.round(amount).toLocaleString('en-IN')}`);
+
+export default function LedgerReconciliation() {
+    const { accessToken } = useAuthStore();
+    const [data, setData] = useState<Reconciliation | null>(null);
+    const [showAll, setShowAll] = useState(false);
+    const [posting, setPosting] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetchReconciliation();
+    }, []);
+
+    const fetchReconciliation = async () => {
+        try {
+            const res = await fetch('/api/finance/reconciliation', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setData(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch reconciliation:', err);
+        }
+    };
+
+    const handleOpeningBalances = async () => {
+        if (!confirm('Post opening balances for every budget head not yet in the ledger?')) return;
+        setPosting(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/finance/ledger/opening-balances', {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            const body = await res.json();
+            setMessage(res.ok ? { type: 'success', text: body.message } : { type: 'error', text: body.error || 'Failed to post opening balances' });
+            if (res.ok) fetchReconciliation();
+        } catch (err) {
+            setMessage({ type: 'error', text: 'Failed to post opening balances' });
+        } finally {
+            setPosting(false);
+        }
+    };
+
+    if (!data) {
+        return <div className="glass-panel p-8 text-center text-xs text-slate-400">Reconciling budgets...</div>;
+    }
+
+    const rows = showAll ? data.rows : data.rows.filter(r => r.status !== 'OK');
+    const pendingOpening = data.rows.some(r => r.status === 'NOT_IN_LEDGER');
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Ledger Reconciliation</h3>
+                    <p className="text-[11px] text-slate-500">
+                        {data.summary.ok} of {data.summary.heads} budget heads agree with the ledger; {data.summary.flagged} flagged
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-1.5 text-xs text-slate-600">
+                        <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} className="w-4 h-4 accent-primary-600 rounded" />
+                        <span>Show matching heads</span>
+                    </label>
+                    {pendingOpening && (
+                        <button onClick={handleOpeningBalances} disabled={posting} className="btn-primary text-xs flex items-center gap-1.5 disabled:opacity-50">
+                            <BookOpen className="w-3.5 h-3.5" />
+                            <span>{posting ? 'Posting...' : 'Post Opening Balances'}</span>
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-3 rounded-xl text-xs flex items-center gap-2 ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                    <span>{message.text}</span>
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="table-glossy">
+                    <thead>
+                        <tr>
+                            <th>Project</th>
+                            <th>FY</th>
+                            <th>Budget Head</th>
+                            <th className="text-right">Budget Row Allocated</th>
+                            <th className="text-right">Ledger Allocated</th>
+                            <th className="text-right">Budget Row Utilized</th>
+                            <th className="text-right">Ledger Spent</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.length === 0 ? (
+                            <tr>
+                                <td colSpan={8} className="text-center text-xs text-slate-500 py-6">All budget heads reconcile with the ledger</td>
+                            </tr>
+                        ) : rows.map(r => {
+                            const status = STATUS_STYLES[r.status];
+                            return (
+                                <tr key={`${r.projectId}:${r.fiscalYear}:${r.category}`}>
+                                    <td className="font-mono text-xs font-bold text-primary-600">{r.projectCode}</td>
+                                    <td className="text-xs text-slate-600">{r.fiscalYear}</td>
+                                    <td className="text-xs text-secondary-900">{r.category}</td>
+                                    <td className="text-right text-xs text-slate-600">{formatINR(r.budgetAllocatedINR)}</td>
+                                    <td className="text-right text-xs text-slate-600">{formatINR(r.ledgerAllocatedINR)}</td>
+                                    <td className="text-right text-xs text-slate-600">{formatINR(r.budgetUtilizedINR)}</td>
+                                    <td className="text-right text-xs text-slate-600">{formatINR(r.ledgerSpentINR)}</td>
+                                    <td>
+                                        <span className={`glass-pill text-[10px] ${status.className}`}>{status.label}</span>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect, useRef } from 'react';
+import { gantt, Link as GanttLink } from 'dhtmlx-gantt';
+import 'dhtmlx-gantt/codebase/dhtmlxgantt.css';
+import { useAuthStore } from '../stores/authStore';
+import { useProjectUpdates } from '../hooks/useSocket';
+import { GitBranch, Trash2, AlertTriangle, Flag } from 'lucide-react';
+
+type DependencyType = 'FINISH_TO_START' | 'START_TO_START' | 'FINISH_TO_FINISH';
+
+interface ScheduledMilestone {
+    id: string;
+    title: string;
+    startDate: string;
+    endDate: string;
+    status: string;
+    progress: number;
+    lateStart: string;
+    lateFinish: string;
+    totalFloat: number;
+    isCritical: boolean;
+}
+
+interface Dependency {
+    id: string;
+    predecessorId: string;
+    successorId: string;
+    type: DependencyType;
+    lagDays: number;
+}
+
+interface Schedule {
+    project: { id: string; code: string; title: string; startDate: string; endDate: string };
+    milestones: ScheduledMilestone[];
+    dependencies: Dependency[];
+    criticalPath: string[];
+    finishDate: string | null;
+    finishVarianceDays: number;
+    canEdit: boolean;
+}
+
+interface MilestoneGanttProps {
+    projectId: string;
+}
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+// dhtmlx-gantt link types: "0" finish-to-start, "1" start-to-start, "2" finish-to-finish
+const LINK_TYPES: Record<DependencyType, string> = {
+    FINISH_TO_START: '0',
+    START_TO_START: '1',
+    FINISH_TO_FINISH: '2',
+};
+
+const DEPENDENCY_LABELS: Record<DependencyType, string> = {
+    FINISH_TO_START: 'Finish → Start',
+    START_TO_START: 'Start → Start',
+    FINISH_TO_FINISH: 'Finish → Finish',
+};
+
+const fromLinkType = (type: string): DependencyType | undefined =>
+    (Object.keys(LINK_TYPES) as DependencyType[]).find(key => LINK_TYPES[key] === type);
+
+export default function MilestoneGantt({ projectId }: MilestoneGanttProps) {
+    const { accessToken } = useAuthStore();
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [schedule, setSchedule] = useState<Schedule | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Gantt event handlers are attached once; they read the latest request context from here
+    const contextRef = useRef({ accessToken, reload: async () => {} });
+
+    const request = async (path: string, method: string, body?: unknown) => {
+        const res = await fetch(`${API_BASE}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${contextRef.current.accessToken}`,
+            },
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'Request failed');
+        return data;
+    };
+
+    const fetchSchedule = async () => {
+        try {
+            const res = await fetch(`${API_BASE}/timeline/projects/${projectId}/schedule`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                setSchedule(await res.json());
+            }
+        } catch (err) {
+            console.error('Failed to fetch schedule:', err);
+        }
+    };
+
+    contextRef.current = { accessToken, reload: fetchSchedule };
+
+    // Reports how many successors the server moved after a change
+    const applyChange = async (action: Promise<{ rescheduled?: unknown[] }>, done: string) => {
+        try {
+            const result = await action;
+            const moved = result.rescheduled?.length ?? 0;
+            setMessage({ type: 'success', text: moved > 0 ? `${done}; ${moved} dependent milestone(s) rescheduled` : done });
+        } catch (err: any) {
+            setMessage({ type: 'error', text: err.message });
+        }
+        await contextRef.current.reload();
+    };
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+
+        gantt.config.date_format = '%Y-%m-%d';
+        gantt.config.duration_unit = 'day';
+        gantt.config.drag_progress = false;
+        gantt.config.details_on_dblclick = false;
+        gantt.config.scales = [
+            { unit: 'month', step: 1, format: '%M %Y' },
+            { unit: 'week', step: 1, format: 'W%W' },
+        ];
+        gantt.config.columns = [
+            { name: 'text', label: 'Milestone', tree: false, width: 200 },
+            { name: 'start_date', label: 'Start', align: 'center', width: 90 },
+            { name: 'duration', label: 'Days', align: 'center', width: 50 },
+            { name: 'total_float', label: 'Float', align: 'center', width: 50 },
+        ];
+        gantt.templates.task_class = (_start, _end, task) => (task.is_critical ? 'gantt-critical' : '');
+        gantt.templates.link_class = (link) => {
+            const source = gantt.getTask(link.source);
+            const target = gantt.getTask(link.target);
+            return source.is_critical && target.is_critical ? 'gantt-critical-link' : '';
+        };
+        gantt.init(containerRef.current);
+
+        const events = [
+            gantt.attachEvent('onBeforeLightbox', () => false),
+            gantt.attachEvent('onAfterTaskDrag', (id) => {
+                const task = gantt.getTask(id);
+                void applyChange(
+                    request(`/timeline/milestones/${id}`, 'PUT', {
+                        startDate: task.start_date!.toISOString(),
+                        endDate: task.end_date!.toISOString(),
+                    }),
+                    'Milestone rescheduled'
+                );
+            }),
+            // Links are created and removed on the server; the chart redraws from the reloaded schedule
+            gantt.attachEvent('onBeforeLinkAdd', (_id, link: GanttLink) => {
+                const type = fromLinkType(String(link.type));
+                if (!type) {
+                    setMessage({ type: 'error', text: 'Start-to-finish dependencies are not supported' });
+                    return false;
+                }
+                void applyChange(
+                    request('/timeline/dependencies', 'POST', { predecessorId: link.source, successorId: link.target, type, lagDays: 0 }),
+                    'Dependency added'
+                );
+                return false;
+            }),
+            gantt.attachEvent('onBeforeLinkDelete', (id) => {
+                void applyChange(request(`/timeline/dependencies/${id}`, 'DELETE'), 'Dependency removed');
+                return false;
+            }),
+        ];
+
+        return () => {
+            events.forEach(id => gantt.detachEvent(id));
+            gantt.clearAll();
+        };
+    }, []);
+
+    useEffect(() => {
+        fetchSchedule();
+    }, [projectId]);
+
+    // Changes made elsewhere (project page, other users) reload the chart
+    useProjectUpdates(projectId, (event) => {
+        if (event.entity === 'milestone') fetchSchedule();
+    });
+
+    useEffect(() => {
+        if (!schedule) return;
+
+        gantt.config.readonly = !schedule.canEdit;
+        gantt.config.drag_links = schedule.canEdit;
+        gantt.clearAll();
+        gantt.parse({
+            data: schedule.milestones.map(m => ({
+                id: m.id,
+                text: m.title,
+                start_date: new Date(m.startDate),
+                end_date: new Date(m.endDate),
+                progress: m.progress / 100,
+                total_float: m.totalFloat,
+                is_critical: m.isCritical,
+            })),
+            links: schedule.dependencies.map(d => ({
+                id: d.id,
+                source: d.predecessorId,
+                target: d.successorId,
+                type: LINK_TYPES[d.type],
+                lag: d.lagDays,
+            })),
+        });
+    }, [schedule]);
+
+    const updateDependency = (id: string, data: Partial<Pick<Dependency, 'type' | 'lagDays'>>) =>
+        applyChange(request(`/timeline/dependencies/${id}`, 'PUT', data), 'Dependency updated');
+
+    const titleOf = (id: string) => schedule?.milestones.find(m => m.id === id)?.title ?? 'Milestone';
+
+    return (
+        <div className="space-y-4">
+            {schedule && (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <div className="p-3 bg-slate-50/80 rounded-xl border border-slate-100">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Scheduled Finish</span>
+                        <p className="text-sm font-black text-secondary-900 mt-0.5">
+                            {schedule.finishDate ? new Date(schedule.finishDate).toLocaleDateString() : '—'}
+                        </p>
+                    </div>
+                    <div className="p-3 bg-slate-50/80 rounded-xl border border-slate-100">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Project End Date</span>
+                        <p className="text-sm font-black text-secondary-900 mt-0.5">{new Date(schedule.project.endDate).toLocaleDateString()}</p>
+                    </div>
+                    <div className="p-3 bg-slate-50/80 rounded-xl border border-slate-100">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Schedule Variance</span>
+                        <p className={`text-sm font-black mt-0.5 ${schedule.finishVarianceDays > 0 ? 'text-rose-700' : 'text-emerald-700'}`}>
+                            {schedule.finishVarianceDays > 0 ? `${schedule.finishVarianceDays} days late` : 'On time'}
+                        </p>
+                    </div>
+                    <div className="p-3 bg-slate-50/80 rounded-xl border border-slate-100">
+                        <span className="text-[10px] font-bold text-rose-500 uppercase tracking-wider">Critical Path</span>
+                        <p className="text-sm font-black text-rose-700 mt-0.5">{schedule.criticalPath.length} milestone(s)</p>
+                    </div>
+                </div>
+            )}
+
+            {message && (
+                <div className={`p-3 rounded-xl text-xs flex items-center gap-2 ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <Flag className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+                    <span>{message.text}</span>
+                </div>
+            )}
+
+            <div ref={containerRef} className="w-full h-[420px] rounded-xl overflow-hidden border border-slate-200" />
+
+            {schedule?.canEdit && (
+                <p className="text-[11px] text-slate-500">
+                    Drag a bar to reschedule it; dependent milestones move with it. Drag from a bar's end circle to another bar to link them.
+                </p>
+            )}
+
+            {schedule && schedule.dependencies.length > 0 && (
+                <div className="space-y-2">
+                    <h4 className="text-xs font-bold text-secondary-900 flex items-center gap-1.5">
+                        <GitBranch className="w-3.5 h-3.5 text-primary-600" />
+                        <span>Dependencies</span>
+                    </h4>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="border-b border-slate-200 text-left text-slate-500">
+                                <th className="py-1.5 pr-3">Predecessor</th>
+                                <th className="py-1.5 pr-3">Successor</th>
+                                <th className="py-1.5 pr-3">Type</th>
+                                <th className="py-1.5 pr-3">Lag (days)</th>
+                                {schedule.canEdit && <th className="py-1.5" />}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {schedule.dependencies.map(d => (
+                                <tr key={d.id} className="border-b border-slate-100">
+                                    <td className="py-1.5 pr-3 text-secondary-900">{titleOf(d.predecessorId)}</td>
+                                    <td className="py-1.5 pr-3 text-secondary-900">{titleOf(d.successorId)}</td>
+                                    <td className="py-1.5 pr-3">
+                                        {schedule.canEdit ? (
+                                            <select
+                                                value={d.type}
+                                                onChange={(e) => updateDependency(d.id, { type: e.target.value as DependencyType })}
+                                                className="glass-input text-[11px] py-1 px-2 w-auto"
+                                            >
+                                                {(Object.keys(DEPENDENCY_LABELS) as DependencyType[]).map(type => (
+                                                    <option key={type} value={type}>{DEPENDENCY_LABELS[type]}</option>
+                                                ))}
+                                            </select>
+                                        ) : DEPENDENCY_LABELS[d.type]}
+                                    </td>
+                                    <td className="py-1.5 pr-3">
+                                        {schedule.canEdit ? (
+                                            <input
+                                                key={`${d.id}:${d.lagDays}`}
+                                                type="number"
+                                                defaultValue={d.lagDays}
+                                                onBlur={(e) => {
+                                                    const lagDays = parseInt(e.target.value, 10);
+                                                    if (!Number.isNaN(lagDays) && lagDays !== d.lagDays) updateDependency(d.id, { lagDays });
+                                                }}
+                                                className="glass-input text-[11px] py-1 px-2 w-20"
+                                            />
+                                        ) : d.lagDays}
+                                    </td>
+                                    {schedule.canEdit && (
+                                        <td className="py-1.5 text-right">
+                                            <button
+                                                onClick={() => applyChange(request(`/timeline/dependencies/${d.id}`, 'DELETE'), 'Dependency removed')}
+                                                className="text-slate-400 hover:text-rose-600"
+                                                title="Remove dependency"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
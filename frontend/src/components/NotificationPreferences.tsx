@@ -0,0 +1,180 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuthStore } from '../stores/authStore';
+import { BellRing, Moon, Save } from 'lucide-react';
+
+type Channel = 'IN_APP' | 'EMAIL' | 'DIGEST' | 'MUTED';
+
+interface PreferencesResponse {
+    preferences: Partial<Record<string, Channel>>;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+}
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+const NOTIFICATION_TYPES: Array<{ type: string; label: string; description: string }> = [
+    { type: 'DEADLINE_ALERT', label: 'Milestone Deadlines', description: 'Upcoming and overdue milestones in your projects' },
+    { type: 'BUDGET_WARNING', label: 'Budget Utilization', description: 'Warnings at 75%, 90% and 100% utilization' },
+    { type: 'BUDGET_REQUEST', label: 'Budget Requests', description: 'Decisions on budget requests you raised' },
+    { type: 'APPROVAL_REQUIRED', label: 'Approvals', description: 'Items awaiting your approval and decisions on your submissions' },
+    { type: 'RC_MEETING', label: 'RC Meetings', description: 'Meeting schedules, reminders and published minutes' },
+    { type: 'MOU_EXPIRY', label: 'MoU Expiry', description: 'MoUs nearing their expiry date' },
+    { type: 'ASSIGNMENT', label: 'Assignments', description: 'Project, task and risk assignments' },
+    { type: 'PROJECT_UPDATE', label: 'Project Updates', description: 'Update requests and the weekly project digest' },
+    { type: 'PROJECT_CLOSURE', label: 'Project Closure', description: 'Completion reports and project closure' },
+    { type: 'SYSTEM', label: 'System', description: 'Role changes and portal announcements' },
+];
+
+const CHANNELS: Array<{ value: Channel | ''; label: string }> = [
+    { value: '', label: 'Default' },
+    { value: 'IN_APP', label: 'In-app only' },
+    { value: 'EMAIL', label: 'In-app + email' },
+    { value: 'DIGEST', label: 'Daily digest' },
+    { value: 'MUTED', label: 'Muted' },
+];
+
+export default function NotificationPreferences() {
+    const { accessToken } = useAuthStore();
+    const [searchParams] = useSearchParams();
+    const panelRef = useRef<HTMLDivElement>(null);
+    const [preferences, setPreferences] = useState<Partial<Record<string, Channel>>>({});
+    const [quietEnabled, setQuietEnabled] = useState(false);
+    const [quietStart, setQuietStart] = useState('22:00');
+    const [quietEnd, setQuietEnd] = useState('07:00');
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetchPreferences();
+    }, []);
+
+    // Email footers link to /profile?tab=notifications
+    useEffect(() => {
+        if (searchParams.get('tab') === 'notifications') {
+            panelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+    }, [searchParams]);
+
+    const applyResponse = (data: PreferencesResponse) => {
+        setPreferences(data.preferences);
+        setQuietEnabled(!!data.quietHoursStart && !!data.quietHoursEnd);
+        if (data.quietHoursStart) setQuietStart(data.quietHoursStart);
+        if (data.quietHoursEnd) setQuietEnd(data.quietHoursEnd);
+    };
+
+    const fetchPreferences = async () => {
+        try {
+            const res = await fetch(`${API_BASE}/notifications/preferences`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                applyResponse(await res.json());
+            }
+        } catch (err) {
+            console.error('Failed to fetch notification preferences:', err);
+        }
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(`${API_BASE}/notifications/preferences`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({
+                    // Types set back to "Default" are cleared
+                    preferences: Object.fromEntries(NOTIFICATION_TYPES.map(t => [t.type, preferences[t.type] ?? null])),
+                    quietHoursStart: quietEnabled ? quietStart : null,
+                    quietHoursEnd: quietEnabled ? quietEnd : null,
+                }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                applyResponse(data);
+                setMessage({ type: 'success', text: 'Notification preferences saved' });
+            } else {
+                setMessage({ type: 'error', text: data.details?.[0]?.message || data.error || 'Failed to save preferences' });
+            }
+        } catch (err) {
+            console.error('Failed to save notification preferences:', err);
+            setMessage({ type: 'error', text: 'Failed to save preferences' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div ref={panelRef} id="notifications" className="glass-panel p-6 space-y-4">
+            <h3 className="font-bold text-sm text-secondary-900 pb-2 border-b border-slate-100 flex items-center gap-2">
+                <BellRing className="w-4 h-4 text-primary-600" />
+                <span>Notification Preferences</span>
+            </h3>
+
+            <p className="text-[11px] text-slate-500">
+                Choose how each kind of notification reaches you. "Default" keeps the portal's standard behaviour for that alert.
+            </p>
+
+            <div className="space-y-2 text-xs">
+                {NOTIFICATION_TYPES.map(t => (
+                    <div key={t.type} className="flex items-center justify-between gap-3 p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                        <div>
+                            <p className="font-bold text-secondary-900">{t.label}</p>
+                            <p className="text-[11px] text-slate-500">{t.description}</p>
+                        </div>
+                        <select
+                            value={preferences[t.type] ?? ''}
+                            onChange={(e) => setPreferences(prev => ({ ...prev, [t.type]: (e.target.value || undefined) as Channel | undefined }))}
+                            className="glass-input text-xs py-1.5 w-40 shrink-0"
+                        >
+                            {CHANNELS.map(c => (
+                                <option key={c.value} value={c.value}>{c.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                ))}
+            </div>
+
+            {/* Quiet Hours */}
+            <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100 space-y-2 text-xs">
+                <label className="flex items-center justify-between cursor-pointer">
+                    <div className="flex items-center gap-2">
+                        <Moon className="w-4 h-4 text-violet-600" />
+                        <div>
+                            <p className="font-bold text-secondary-900">Quiet Hours</p>
+                            <p className="text-[11px] text-slate-500">Emails are held until quiet hours end; in-app alerts still arrive</p>
+                        </div>
+                    </div>
+                    <input
+                        type="checkbox"
+                        checked={quietEnabled}
+                        onChange={(e) => setQuietEnabled(e.target.checked)}
+                        className="w-4 h-4 accent-primary-600 rounded"
+                    />
+                </label>
+                {quietEnabled && (
+                    <div className="flex items-center gap-2 pl-6">
+                        <input type="time" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} className="glass-input text-xs py-1.5" />
+                        <span className="text-slate-500">to</span>
+                        <input type="time" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} className="glass-input text-xs py-1.5" />
+                    </div>
+                )}
+            </div>
+
+            {message && (
+                <p className={`text-xs font-medium ${message.type === 'success' ? 'text-emerald-600' : 'text-red-600'}`}>{message.text}</p>
+            )}
+
+            <div className="flex justify-end">
+                <button onClick={handleSave} disabled={saving} className="btn-primary text-xs flex items-center gap-1.5 disabled:opacity-50">
+                    <Save className="w-3.5 h-3.5" />
+                    <span>{saving ? 'Saving...' : 'Save Preferences'}</span>
+                </button>
+            </div>
+        </div>
+    );
+}
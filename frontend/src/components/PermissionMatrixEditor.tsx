@@ -0,0 +1,201 @@
+import { Fragment, useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { usePermissionStore } from '../stores/permissionStore';
+import { Action, Resource, Role } from '../hooks/useRBAC';
+import { Save, RotateCcw, Lock, CheckCircle2, AlertCircle } from 'lucide-react';
+
+type Matrix = Record<Role, Partial<Record<Resource, Action[]>>>;
+
+interface MatrixResponse {
+    roles: Role[];
+    actions: Action[];
+    resources: Record<Resource, { label: string; actions: Partial<Record<Action, string>> }>;
+    locked: Partial<Matrix>;
+    matrix: Matrix;
+}
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+const ROLE_LABELS: Record<Role, string> = {
+    ADMIN: 'Admin',
+    DIRECTOR: 'Director',
+    DIRECTOR_GENERAL: 'DG, CSIR',
+    SUPERVISOR: 'Head, BKMD',
+    PROJECT_HEAD: 'PI',
+    EMPLOYEE: 'Staff',
+    RC_MEMBER: 'RC Member',
+    EXTERNAL_OWNER: 'External',
+};
+
+export default function PermissionMatrixEditor() {
+    const { user, accessToken } = useAuthStore();
+    const fetchPermissions = usePermissionStore(state => state.fetchPermissions);
+    const [data, setData] = useState<MatrixResponse | null>(null);
+    const [matrix, setMatrix] = useState<Matrix | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetchMatrix();
+    }, []);
+
+    const fetchMatrix = async () => {
+        try {
+            const res = await fetch(`${API_BASE}/permissions`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const body: MatrixResponse = await res.json();
+                setData(body);
+                setMatrix(body.matrix);
+            }
+        } catch (err) {
+            console.error('Failed to fetch permission matrix:', err);
+        }
+    };
+
+    const isLocked = (role: Role, resource: Resource, action: Action) =>
+        !!data?.locked[role]?.[resource]?.includes(action);
+
+    const isGranted = (role: Role, resource: Resource, action: Action) =>
+        !!matrix?.[role]?.[resource]?.includes(action);
+
+    const toggle = (role: Role, resource: Resource, action: Action) => {
+        if (!matrix || isLocked(role, resource, action)) return;
+        const current = matrix[role][resource] ?? [];
+        const next = current.includes(action) ? current.filter(a => a !== action) : [...current, action];
+        setMatrix({ ...matrix, [role]: { ...matrix[role], [resource]: next } });
+    };
+
+    // Own grants may have changed; refresh guards and menus
+    const applyResult = async (res: Response) => {
+        const body = await res.json();
+        if (res.ok) {
+            setMatrix(body);
+            setMessage({ type: 'success', text: 'Permissions updated' });
+            if (user && accessToken) await fetchPermissions(user.id, accessToken);
+        } else {
+            setMessage({ type: 'error', text: body.error || 'Failed to update permissions' });
+        }
+    };
+
+    const handleSave = async () => {
+        if (!matrix) return;
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(`${API_BASE}/permissions`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({ matrix }),
+            });
+            await applyResult(res);
+        } catch (err) {
+            console.error('Failed to save permissions:', err);
+            setMessage({ type: 'error', text: 'Failed to update permissions' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (!confirm('Reset every role to the default permissions? Custom changes will be lost.')) return;
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(`${API_BASE}/permissions/reset`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            await applyResult(res);
+        } catch (err) {
+            console.error('Failed to reset permissions:', err);
+            setMessage({ type: 'error', text: 'Failed to reset permissions' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!data || !matrix) {
+        return <div className="glass-panel p-8 text-center text-xs text-slate-400">Loading permission matrix...</div>;
+    }
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Role Permission Matrix</h3>
+                    <p className="text-[11px] text-slate-500">
+                        Applies to both the API and the portal menus. "Read" on a resource also grants access to its page.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={handleReset} disabled={saving} className="btn-secondary text-xs flex items-center gap-1.5 disabled:opacity-50">
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        <span>Reset to Defaults</span>
+                    </button>
+                    <button onClick={handleSave} disabled={saving} className="btn-primary text-xs flex items-center gap-1.5 disabled:opacity-50">
+                        <Save className="w-3.5 h-3.5" />
+                        <span>{saving ? 'Saving...' : 'Save Permissions'}</span>
+                    </button>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-3 rounded-xl text-xs flex items-center gap-2 ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                    <span>{message.text}</span>
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="border-b border-slate-200">
+                            <th className="text-left py-2 pr-3 font-bold text-secondary-900">Permission</th>
+                            {data.roles.map(role => (
+                                <th key={role} className="py-2 px-1.5 font-bold text-secondary-900 text-center whitespace-nowrap">{ROLE_LABELS[role] ?? role}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {(Object.entries(data.resources) as Array<[Resource, MatrixResponse['resources'][Resource]]>).map(([resource, def]) => (
+                            <Fragment key={resource}>
+                                <tr className="bg-slate-50">
+                                    <td colSpan={data.roles.length + 1} className="py-1.5 px-2 font-bold text-[11px] uppercase tracking-wide text-slate-600">
+                                        {def.label}
+                                    </td>
+                                </tr>
+                                {data.actions.filter(action => def.actions[action]).map(action => (
+                                    <tr key={`${resource}:${action}`} className="border-b border-slate-100">
+                                        <td className="py-1.5 pr-3 pl-4 text-secondary-800">
+                                            {def.actions[action]}
+                                            <span className="ml-1.5 text-[10px] text-slate-400">{action}</span>
+                                        </td>
+                                        {data.roles.map(role => (
+                                            <td key={role} className="py-1.5 px-1.5 text-center">
+                                                {isLocked(role, resource, action) ? (
+                                                    <Lock className="w-3.5 h-3.5 text-slate-400 inline" aria-label="Always granted" />
+                                                ) : (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={isGranted(role, resource, action)}
+                                                        onChange={() => toggle(role, resource, action)}
+                                                        className="w-4 h-4 accent-primary-600 rounded"
+                                                    />
+                                                )}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
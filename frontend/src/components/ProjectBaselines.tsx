@@ -0,0 +1,415 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import { Plus, X, Star, Trash2, History } from 'lucide-react';
+
+interface Baseline {
+    id: string;
+    name: string;
+    description?: string;
+    isPrimary: boolean;
+    createdAt: string;
+    capturedBy: { firstName: string; lastName: string };
+    _count: { milestones: number; budgets: number };
+}
+
+interface MilestoneVariance {
+    milestoneId: string | null;
+    title: string;
+    baselineEnd: string | null;
+    currentEnd: string | null;
+    startSlipDays: number | null;
+    finishSlipDays: number | null;
+    status: string | null;
+    change: 'on-plan' | 'slipped' | 'ahead' | 'added' | 'removed';
+}
+
+interface Variance {
+    baseline: { id: string; name: string };
+    schedule: {
+        baselineFinish: string;
+        forecastFinish: string;
+        startSlipDays: number;
+        finishSlipDays: number;
+        milestonesSlipped: number;
+    };
+    cost: {
+        baselineBudgetINR: number;
+        currentBudgetINR: number;
+        budgetDeltaINR: number;
+        spentINR: number;
+        spentPercentOfBaseline: number;
+    };
+    milestones: MilestoneVariance[];
+    budgets: Array<{ category: string; baselineINR: number; currentINR: number; deltaINR: number; spentINR: number }>;
+}
+
+interface ProjectBaselinesProps {
+    projectId: string;
+    canEdit: boolean;
+}
+
+const CHANGE_STYLES: Record<MilestoneVariance['change'], string> = {
+    'on-plan': 'bg-emerald-50 text-emerald-700',
+    slipped: 'bg-rose-50 text-rose-700',
+    ahead: 'bg-sky-50 text-sky-700',
+    added: 'bg-amber-50 text-amber-700',
+    removed: 'bg-slate-100 text-slate-500',
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '—');
+
+const formatSlip = (days: number | null) => (days === null ? '—' : days === 0 ? 'On plan' : `${days > 0 ? '+' : ''}${days} d`);
+
+const formatLakhs = (amount: number) => `₹${(amount / 100000).toFixed(2)} L`;
+
+const formatDelta = (amount: number) => `${amount > 0 ? '+' : ''}${formatLakhs(amount)}`;
+
+const emptyForm = { name: '', description: '', isPrimary: false };
+
+export default function ProjectBaselines({ projectId, canEdit }: ProjectBaselinesProps) {
+    const { accessToken } = useAuthStore();
+    const { hasPermission } = useRBAC();
+    const [baselines, setBaselines] = useState<Baseline[]>([]);
+    const [selectedId, setSelectedId] = useState('');
+    const [variance, setVariance] = useState<Variance | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [form, setForm] = useState(emptyForm);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchBaselines();
+    }, [projectId]);
+
+    useEffect(() => {
+        fetchVariance();
+    }, [projectId, selectedId]);
+
+    const fetchBaselines = async () => {
+        try {
+            const res = await fetch(`/api/projects/${projectId}/baselines`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setBaselines(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch baselines:', err);
+        }
+    };
+
+    // Without a selection the server compares against the primary baseline
+    const fetchVariance = async () => {
+        try {
+            const query = selectedId ? `?baselineId=${selectedId}` : '';
+            const res = await fetch(`/api/projects/${projectId}/variance${query}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setVariance(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch variance:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const refresh = () => {
+        fetchBaselines();
+        fetchVariance();
+    };
+
+    const handleCapture = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+        try {
+            const res = await fetch(`/api/projects/${projectId}/baselines`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({ ...form, description: form.description || undefined }),
+            });
+            if (res.ok) {
+                setShowModal(false);
+                setForm(emptyForm);
+                refresh();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to capture baseline');
+            }
+        } catch (err) {
+            setError('Failed to capture baseline');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleMakePrimary = async (baseline: Baseline) => {
+        try {
+            const res = await fetch(`/api/projects/${projectId}/baselines/${baseline.id}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({ isPrimary: true }),
+            });
+            if (res.ok) refresh();
+        } catch (err) {
+            console.error('Failed to update baseline:', err);
+        }
+    };
+
+    const handleDelete = async (baseline: Baseline) => {
+        if (!confirm(`Delete baseline "${baseline.name}"? Variance against it can no longer be reported.`)) return;
+        try {
+            const res = await fetch(`/api/projects/${projectId}/baselines/${baseline.id}`, {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                if (selectedId === baseline.id) setSelectedId('');
+                refresh();
+            }
+        } catch (err) {
+            console.error('Failed to delete baseline:', err);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="glass-panel p-5 space-y-4">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h3 className="font-bold text-sm text-secondary-900">Schedule Baselines</h3>
+                        <p className="text-[11px] text-slate-500">Snapshots of milestone dates and budget to report slippage and cost change against</p>
+                    </div>
+                    {canEdit && (
+                        <button onClick={() => setShowModal(true)} className="btn-primary-glossy text-xs">
+                            <Plus className="w-3.5 h-3.5" />
+                            <span>Capture Baseline</span>
+                        </button>
+                    )}
+                </div>
+
+                {baselines.length === 0 ? (
+                    <div className="text-center py-8">
+                        <History className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                        <p className="text-xs text-slate-500">No baselines captured yet. Capture one when the RC sanctions the plan.</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Baseline</th>
+                                    <th>Captured</th>
+                                    <th className="text-center">Milestones</th>
+                                    <th className="text-right">Action</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {baselines.map(baseline => (
+                                    <tr key={baseline.id}>
+                                        <td>
+                                            <p className="text-xs font-bold text-secondary-900">
+                                                {baseline.name}
+                                                {baseline.isPrimary && <span className="ml-2 glass-pill text-[10px] bg-primary-50 text-primary-700">Primary</span>}
+                                            </p>
+                                            {baseline.description && <p className="text-[11px] text-slate-500">{baseline.description}</p>}
+                                        </td>
+                                        <td className="text-xs text-slate-600">
+                                            {formatDate(baseline.createdAt)} · {baseline.capturedBy.firstName} {baseline.capturedBy.lastName}
+                                        </td>
+                                        <td className="text-center text-xs text-slate-600">{baseline._count.milestones}</td>
+                                        <td className="text-right whitespace-nowrap">
+                                            {canEdit && !baseline.isPrimary && (
+                                                <button onClick={() => handleMakePrimary(baseline)} className="p-1 text-slate-500 hover:text-primary-600" title="Make primary">
+                                                    <Star className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                            {hasPermission('projects', 'delete') && (
+                                                <button onClick={() => handleDelete(baseline)} className="p-1 text-slate-500 hover:text-rose-600" title="Delete">
+                                                    <Trash2 className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {loading ? (
+                <p className="text-xs text-slate-400 py-6 text-center">Loading variance...</p>
+            ) : variance && (
+                <div className="glass-panel p-5 space-y-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div>
+                            <h3 className="font-bold text-sm text-secondary-900">Variance vs {variance.baseline.name}</h3>
+                            <p className="text-[11px] text-slate-500">Positive slip means later than the baseline</p>
+                        </div>
+                        <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className="glass-input text-xs sm:w-64">
+                            <option value="">Primary baseline</option>
+                            {baselines.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                        <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                            <p className="text-[10px] font-bold uppercase text-slate-500">Finish Slip</p>
+                            <p className={`text-lg font-bold ${variance.schedule.finishSlipDays > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                                {formatSlip(variance.schedule.finishSlipDays)}
+                            </p>
+                            <p className="text-[11px] text-slate-500">
+                                {formatDate(variance.schedule.baselineFinish)} → {formatDate(variance.schedule.forecastFinish)}
+                            </p>
+                        </div>
+                        <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                            <p className="text-[10px] font-bold uppercase text-slate-500">Milestones Slipped</p>
+                            <p className="text-lg font-bold text-secondary-900">
+                                {variance.schedule.milestonesSlipped} / {variance.milestones.length}
+                            </p>
+                            <p className="text-[11px] text-slate-500">Start slip {formatSlip(variance.schedule.startSlipDays)}</p>
+                        </div>
+                        <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                            <p className="text-[10px] font-bold uppercase text-slate-500">Budget Change</p>
+                            <p className={`text-lg font-bold ${variance.cost.budgetDeltaINR > 0 ? 'text-rose-600' : 'text-secondary-900'}`}>
+                                {formatDelta(variance.cost.budgetDeltaINR)}
+                            </p>
+                            <p className="text-[11px] text-slate-500">
+                                {formatLakhs(variance.cost.baselineBudgetINR)} → {formatLakhs(variance.cost.currentBudgetINR)}
+                            </p>
+                        </div>
+                        <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                            <p className="text-[10px] font-bold uppercase text-slate-500">Spent vs Baseline</p>
+                            <p className="text-lg font-bold text-secondary-900">{variance.cost.spentPercentOfBaseline}%</p>
+                            <p className="text-[11px] text-slate-500">{formatLakhs(variance.cost.spentINR)} spent</p>
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Milestone</th>
+                                    <th>Baseline Due</th>
+                                    <th>Current Due</th>
+                                    <th className="text-right">Start Slip</th>
+                                    <th className="text-right">Finish Slip</th>
+                                    <th>Change</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {variance.milestones.map((m, i) => (
+                                    <tr key={m.milestoneId ?? `removed-${i}`}>
+                                        <td className="text-xs font-bold text-secondary-900">{m.title}</td>
+                                        <td className="text-xs text-slate-600">{formatDate(m.baselineEnd)}</td>
+                                        <td className="text-xs text-slate-600">{formatDate(m.currentEnd)}</td>
+                                        <td className="text-right text-xs text-slate-600">{formatSlip(m.startSlipDays)}</td>
+                                        <td className={`text-right text-xs ${(m.finishSlipDays ?? 0) > 0 ? 'text-rose-600 font-bold' : 'text-slate-600'}`}>
+                                            {formatSlip(m.finishSlipDays)}
+                                        </td>
+                                        <td>
+                                            <span className={`glass-pill text-[10px] ${CHANGE_STYLES[m.change]}`}>{m.change}</span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {variance.budgets.length > 0 && (
+                        <div className="overflow-x-auto">
+                            <table className="table-glossy">
+                                <thead>
+                                    <tr>
+                                        <th>Budget Head</th>
+                                        <th className="text-right">Baseline</th>
+                                        <th className="text-right">Current</th>
+                                        <th className="text-right">Change</th>
+                                        <th className="text-right">Spent</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {variance.budgets.map(b => (
+                                        <tr key={b.category}>
+                                            <td className="text-xs font-bold text-secondary-900">{b.category}</td>
+                                            <td className="text-right text-xs text-slate-600">{formatLakhs(b.baselineINR)}</td>
+                                            <td className="text-right text-xs text-slate-600">{formatLakhs(b.currentINR)}</td>
+                                            <td className={`text-right text-xs ${b.deltaINR > 0 ? 'text-rose-600' : 'text-slate-600'}`}>{formatDelta(b.deltaINR)}</td>
+                                            <td className="text-right text-xs text-slate-600">{formatLakhs(b.spentINR)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Capture Baseline Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200 max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Capture Baseline</h3>
+                            <button onClick={() => setShowModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleCapture} className="space-y-3 text-xs">
+                            {error && <p className="p-2 bg-rose-50 text-rose-700 rounded-xl">{error}</p>}
+                            <p className="text-[11px] text-slate-500">The current milestone dates and budget heads are copied into the baseline.</p>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Name *</label>
+                                <input
+                                    type="text"
+                                    required
+                                    minLength={2}
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                    placeholder="e.g. RC sanctioned, Revised after 45th RC"
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Description</label>
+                                <textarea
+                                    rows={2}
+                                    value={form.description}
+                                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+
+                            <label className="flex items-center gap-2 text-secondary-800">
+                                <input
+                                    type="checkbox"
+                                    checked={form.isPrimary}
+                                    onChange={(e) => setForm({ ...form, isPrimary: e.target.checked })}
+                                    className="w-4 h-4 accent-primary-600 rounded"
+                                />
+                                <span>Make this the primary baseline for variance reporting</span>
+                            </label>
+
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Capture Baseline'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { CalendarRange, Lock } from 'lucide-react';
+
+interface PhasedHead {
+    fiscalYear: string;
+    category: string;
+    allocatedINR: number;
+    availableINR: number;
+    committedINR: number;
+    spentINR: number;
+    carriedInINR: number;
+    carriedOutINR: number;
+    lapsedINR: number;
+}
+
+interface PhasedYear {
+    fiscalYear: string;
+    closed: boolean;
+    heads: PhasedHead[];
+}
+
+interface ProjectBudgetPhasingProps {
+    projectId: string;
+    // Changes when the project's finances change, to refetch
+    refreshKey?: unknown;
+}
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export default function ProjectBudgetPhasing({ projectId, refreshKey }: ProjectBudgetPhasingProps) {
+    const { accessToken } = useAuthStore();
+    const [years, setYears] = useState<PhasedYear[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchPhasing();
+    }, [projectId, refreshKey]);
+
+    const fetchPhasing = async () => {
+        try {
+            const res = await fetch(`/api/budgets/phasing/${projectId}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setYears(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch budget phasing:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const sum = (heads: PhasedHead[], key: keyof Omit<PhasedHead, 'fiscalYear' | 'category'>) => heads.reduce((s, h) => s + h[key], 0);
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div>
+                <h3 className="font-bold text-sm text-secondary-900">Budget Phasing</h3>
+                <p className="text-[11px] text-slate-500">Each fiscal year's budget by head, with what was carried in from and out to the neighbouring years</p>
+            </div>
+
+            {loading ? (
+                <p className="text-xs text-slate-400 py-6 text-center">Loading phasing...</p>
+            ) : years.length === 0 ? (
+                <div className="text-center py-8">
+                    <CalendarRange className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                    <p className="text-xs text-slate-500">No budget has been phased for this project yet</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>FY</th>
+                                <th>Budget Head</th>
+                                <th className="text-right">Carried In</th>
+                                <th className="text-right">Allocated</th>
+                                <th className="text-right">Committed</th>
+                                <th className="text-right">Spent</th>
+                                <th className="text-right">Available</th>
+                                <th className="text-right">Carried Out</th>
+                                <th className="text-right">Lapsed</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {years.map(year => [
+                                ...year.heads.map(h => (
+                                    <tr key={`${h.fiscalYear}:${h.category}`}>
+                                        <td className="text-xs text-slate-600">{h.fiscalYear}</td>
+                                        <td className="text-xs font-bold text-secondary-900">{h.category}</td>
+                                        <td className="text-right text-xs text-slate-600">{h.carriedInINR ? formatINR(h.carriedInINR) : '—'}</td>
+                                        <td className="text-right text-xs text-slate-600">{formatINR(h.allocatedINR)}</td>
+                                        <td className="text-right text-xs text-slate-600">{formatINR(h.committedINR)}</td>
+                                        <td className="text-right text-xs text-slate-600">{formatINR(h.spentINR)}</td>
+                                        <td className={`text-right text-xs font-bold ${h.availableINR < 0 ? 'text-rose-600' : 'text-secondary-900'}`}>{formatINR(h.availableINR)}</td>
+                                        <td className="text-right text-xs text-emerald-700">{h.carriedOutINR ? formatINR(h.carriedOutINR) : '—'}</td>
+                                        <td className="text-right text-xs text-rose-600">{h.lapsedINR ? formatINR(h.lapsedINR) : '—'}</td>
+                                    </tr>
+                                )),
+                                <tr key={`${year.fiscalYear}:total`} className="bg-slate-50">
+                                    <td colSpan={2} className="text-xs font-bold text-secondary-900">
+                                        <span className="flex items-center gap-1.5">
+                                            FY {year.fiscalYear} total
+                                            {year.closed && <span className="glass-pill text-[10px] bg-slate-200 text-slate-600 flex items-center gap-1"><Lock className="w-3 h-3" /> Closed</span>}
+                                        </span>
+                                    </td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">{formatINR(sum(year.heads, 'carriedInINR'))}</td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">{formatINR(sum(year.heads, 'allocatedINR'))}</td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">{formatINR(sum(year.heads, 'committedINR'))}</td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">{formatINR(sum(year.heads, 'spentINR'))}</td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">{formatINR(sum(year.heads, 'availableINR'))}</td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">{formatINR(sum(year.heads, 'carriedOutINR'))}</td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">{formatINR(sum(year.heads, 'lapsedINR'))}</td>
+                                </tr>,
+                            ])}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { Plus, X, FileBadge, Download, PenLine, Undo2 } from 'lucide-react';
+
+type CertificateStatus = 'PENDING_PI' | 'PENDING_APPROVAL' | 'CERTIFIED' | 'REJECTED';
+
+interface Certificate {
+    id: string;
+    ucNumber: string;
+    fiscalYear: string;
+    periodStart: string;
+    periodEnd: string;
+    openingBalanceINR: number;
+    receivedINR: number;
+    expenditureINR: number;
+    closingBalanceINR: number;
+    status: CertificateStatus;
+    comments?: string | null;
+    createdAt: string;
+    generatedBy: { id: string; firstName: string; lastName: string };
+    document: { id: string; fileName: string; version: number; sha256Hash: string };
+}
+
+interface ProjectCertificatesProps {
+    projectId: string;
+    canManage: boolean;
+    canContribute: boolean;
+    // Changes when the project's finances change, to refetch
+    refreshKey?: unknown;
+}
+
+const STATUS_STYLES: Record<CertificateStatus, { label: string; className: string }> = {
+    PENDING_PI: { label: 'Awaiting PI', className: 'bg-amber-50 text-amber-700' },
+    PENDING_APPROVAL: { label: 'With finance / Director', className: 'bg-sky-50 text-sky-700' },
+    CERTIFIED: { label: 'Certified', className: 'bg-emerald-50 text-emerald-700' },
+    REJECTED: { label: 'Rejected', className: 'bg-rose-50 text-rose-700' },
+};
+
+// The fiscal year to date (April 1 to today) is the usual certificate period
+const defaultPeriod = () => {
+    const today = new Date();
+    const year = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+    return { periodStart: `${year}-04-01`, periodEnd: today.toISOString().split('T')[0] };
+};
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export default function ProjectCertificates({ projectId, canManage, canContribute, refreshKey }: ProjectCertificatesProps) {
+    const { accessToken } = useAuthStore();
+    const [certificates, setCertificates] = useState<Certificate[]>([]);
+    const [showModal, setShowModal] = useState(false);
+    const [form, setForm] = useState(defaultPeriod);
+    const [rejecting, setRejecting] = useState<Certificate | null>(null);
+    const [note, setNote] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchCertificates();
+    }, [projectId, refreshKey]);
+
+    const fetchCertificates = async () => {
+        try {
+            const res = await fetch(`/api/finance/projects/${projectId}/utilization-certificates`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setCertificates(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch utilization certificates:', err);
+        }
+    };
+
+    const send = async (url: string, body: unknown) => {
+        setError('');
+        try {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify(body),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Request failed');
+                return false;
+            }
+            fetchCertificates();
+            return true;
+        } catch (err) {
+            setError('Request failed');
+            return false;
+        }
+    };
+
+    const handleGenerate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const ok = await send(`/api/finance/projects/${projectId}/utilization-certificates`, form);
+        setSaving(false);
+        if (ok) setShowModal(false);
+    };
+
+    const handleSign = async (certificate: Certificate) => {
+        if (!confirm(`Sign utilization certificate ${certificate.ucNumber} and send it to finance?`)) return;
+        await send(`/api/finance/utilization-certificates/${certificate.id}/sign`, { approved: true });
+    };
+
+    const handleReject = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!rejecting) return;
+        setSaving(true);
+        const ok = await send(`/api/finance/utilization-certificates/${rejecting.id}/sign`, { approved: false, comments: note || undefined });
+        setSaving(false);
+        if (ok) setRejecting(null);
+    };
+
+    const handleDownload = async (certificate: Certificate) => {
+        try {
+            const res = await fetch(`/api/documents/${certificate.document.id}/download`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const blob = await res.blob();
+                const downloadUrl = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = downloadUrl;
+                a.download = certificate.document.fileName;
+                a.click();
+                URL.revokeObjectURL(downloadUrl);
+            } else {
+                const err = await res.json();
+                setError(err.error || 'Failed to download certificate');
+            }
+        } catch (err) {
+            setError('Failed to download certificate');
+        }
+    };
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Utilization Certificates</h3>
+                    <p className="text-[11px] text-slate-500">GFR 12-A certificates with their Statement of Expenditure</p>
+                </div>
+                {canContribute && (
+                    <button onClick={() => { setForm(defaultPeriod()); setShowModal(true); }} className="btn-primary-glossy text-xs">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Generate UC</span>
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+
+            {certificates.length === 0 ? (
+                <div className="text-center py-8">
+                    <FileBadge className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                    <p className="text-xs text-slate-500">No utilization certificates generated yet</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Certificate</th>
+                                <th className="text-right">Opening</th>
+                                <th className="text-right">Received</th>
+                                <th className="text-right">Utilized</th>
+                                <th className="text-right">Closing</th>
+                                <th>Status</th>
+                                <th className="text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {certificates.map(certificate => {
+                                const status = STATUS_STYLES[certificate.status];
+                                return (
+                                    <tr key={certificate.id}>
+                                        <td className="text-xs">
+                                            <p className="font-mono font-bold text-primary-600">{certificate.ucNumber}</p>
+                                            <p className="text-[10px] text-slate-500">
+                                                {new Date(certificate.periodStart).toLocaleDateString()} – {new Date(certificate.periodEnd).toLocaleDateString()}
+                                                {' · '}by {certificate.generatedBy.firstName} {certificate.generatedBy.lastName}
+                                            </p>
+                                            <p className="text-[10px] text-slate-400 font-mono" title={certificate.document.sha256Hash}>
+                                                v{certificate.document.version} · sha256 {certificate.document.sha256Hash.slice(0, 12)}…
+                                            </p>
+                                            {certificate.status === 'REJECTED' && certificate.comments && (
+                                                <p className="text-[10px] text-rose-700">Rejected: {certificate.comments}</p>
+                                            )}
+                                        </td>
+                                        <td className="text-xs text-right text-slate-600">{formatINR(certificate.openingBalanceINR)}</td>
+                                        <td className="text-xs text-right text-slate-600">{formatINR(certificate.receivedINR)}</td>
+                                        <td className="text-xs text-right font-bold text-secondary-900">{formatINR(certificate.expenditureINR)}</td>
+                                        <td className="text-xs text-right text-slate-600">{formatINR(certificate.closingBalanceINR)}</td>
+                                        <td>
+                                            <span className={`glass-pill text-[10px] ${status.className}`}>{status.label}</span>
+                                        </td>
+                                        <td className="text-right">
+                                            <div className="flex items-center justify-end gap-1.5">
+                                                {certificate.status === 'PENDING_PI' && canManage && (
+                                                    <>
+                                                        <button onClick={() => handleSign(certificate)} className="btn-primary-glossy text-[10px]">
+                                                            <PenLine className="w-3 h-3" />
+                                                            <span>Sign</span>
+                                                        </button>
+                                                        <button onClick={() => { setNote(''); setRejecting(certificate); }} title="Reject" className="p-1 text-slate-500 hover:text-rose-600">
+                                                            <Undo2 className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    </>
+                                                )}
+                                                <button onClick={() => handleDownload(certificate)} title="Download PDF" className="p-1 text-slate-500 hover:text-primary-600">
+                                                    <Download className="w-3.5 h-3.5" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Generate Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Generate Utilization Certificate</h3>
+                            <button onClick={() => setShowModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleGenerate} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Period From *</label>
+                                    <input type="date" required value={form.periodStart} onChange={(e) => setForm({ ...form, periodStart: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Period To *</label>
+                                    <input type="date" required value={form.periodEnd} onChange={(e) => setForm({ ...form, periodEnd: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+                            <p className="text-[11px] text-slate-500">
+                                The period must fall within one fiscal year. Receipts, booked expenses and the previous year's carry-forward
+                                are frozen into the certificate, which is then signed by the PI, finance and the Director.
+                            </p>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Generating...' : 'Generate'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Reject Modal */}
+            {rejecting && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Reject {rejecting.ucNumber}</h3>
+                            <button onClick={() => setRejecting(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleReject} className="space-y-3 text-xs">
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Comments</label>
+                                <textarea rows={3} value={note} onChange={(e) => setNote(e.target.value)} className="glass-input text-xs" />
+                            </div>
+                            <p className="text-[11px] text-slate-500">A rejected certificate stays on record; a new one can be generated for the same period.</p>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setRejecting(null)} className="btn-secondary-glossy text-xs">Back</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Reject'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,560 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import { Plus, X, Send, Check, Undo2, Pencil, Trash2, Paperclip, Banknote, Receipt } from 'lucide-react';
+
+type ExpenseStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'PAID' | 'REVERSED';
+
+interface Expense {
+    id: string;
+    description: string;
+    category: string;
+    amount: number;
+    currency: string;
+    amountINR: number;
+    vendor?: string | null;
+    invoiceNumber?: string | null;
+    invoiceDate?: string | null;
+    receiptUrl?: string | null;
+    status: ExpenseStatus;
+    createdById?: string | null;
+    createdBy?: { id: string; firstName: string; lastName: string } | null;
+    piApprovedAt?: string | null;
+    reviewComments?: string | null;
+    paymentReference?: string | null;
+    reversalReason?: string | null;
+    purchaseOrderId?: string | null;
+    purchaseOrder?: { poNumber: string } | null;
+    createdAt: string;
+}
+
+interface OpenOrder {
+    id: string;
+    poNumber: string;
+    category: string;
+    vendor: string;
+    amountINR: number;
+    invoicedINR: number;
+}
+
+interface Currency {
+    code: string;
+    name: string;
+}
+
+interface ProjectExpensesProps {
+    projectId: string;
+    canManage: boolean;
+    canContribute: boolean;
+    // Changes when the project's finances change, to refetch
+    refreshKey?: unknown;
+    onChange?: () => void;
+}
+
+// An action that needs a comment, reason or payment reference before it is sent
+type PendingAction = { expense: Expense; kind: 'reject' | 'pay' | 'reverse' };
+
+const STATUS_STYLES: Record<ExpenseStatus, { label: string; className: string }> = {
+    DRAFT: { label: 'Draft', className: 'bg-slate-100 text-slate-600' },
+    SUBMITTED: { label: 'Submitted', className: 'bg-amber-50 text-amber-700' },
+    APPROVED: { label: 'Approved', className: 'bg-sky-50 text-sky-700' },
+    PAID: { label: 'Paid', className: 'bg-emerald-50 text-emerald-700' },
+    REVERSED: { label: 'Reversed', className: 'bg-rose-50 text-rose-700 line-through' },
+};
+
+const ACTION_LABELS: Record<PendingAction['kind'], { title: string; field: string; submit: string; required: boolean }> = {
+    reject: { title: 'Return Expense to Draft', field: 'Comments for the recorder', submit: 'Return to Draft', required: false },
+    pay: { title: 'Mark Expense as Paid', field: 'Payment reference (UTR / cheque no.)', submit: 'Mark Paid', required: false },
+    reverse: { title: 'Reverse Expense', field: 'Reason for reversal', submit: 'Reverse', required: true },
+};
+
+const emptyForm = { description: '', category: 'EQUIPMENT', purchaseOrderId: '', amount: '', currency: 'INR', vendor: '', invoiceNumber: '', invoiceDate: new Date().toISOString().split('T')[0] };
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export default function ProjectExpenses({ projectId, canManage, canContribute, refreshKey, onChange }: ProjectExpensesProps) {
+    const { accessToken, user } = useAuthStore();
+    const { hasPermission } = useRBAC();
+    const [expenses, setExpenses] = useState<Expense[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState(emptyForm);
+    const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+    const [currencies, setCurrencies] = useState<Currency[]>([]);
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [note, setNote] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const canPay = hasPermission('finance', 'manage');
+
+    useEffect(() => {
+        fetchExpenses();
+    }, [projectId, refreshKey]);
+
+    const fetchExpenses = async () => {
+        try {
+            const res = await fetch(`/api/finance/projects/${projectId}/expenses`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setExpenses(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch expenses:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Purchase orders an invoice can be booked against
+    const fetchOpenOrders = async () => {
+        try {
+            const res = await fetch(`/api/finance/projects/${projectId}/purchase-orders?status=OPEN`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setOpenOrders(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch purchase orders:', err);
+        }
+    };
+
+    // Currencies finance currently accepts for new entries
+    const fetchCurrencies = async () => {
+        try {
+            const res = await fetch('/api/finance/currencies', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setCurrencies(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch currencies:', err);
+        }
+    };
+
+    // The parent refetches the project, which changes refreshKey
+    const changed = () => (onChange ? onChange() : fetchExpenses());
+
+    // Runs a lifecycle call and surfaces the server's error message
+    const send = async (url: string, method: string, body?: unknown) => {
+        setError('');
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Failed to update expense');
+                return false;
+            }
+            changed();
+            return true;
+        } catch (err) {
+            setError('Failed to update expense');
+            return false;
+        }
+    };
+
+    const openCreate = () => {
+        setEditingId(null);
+        setForm(emptyForm);
+        fetchOpenOrders();
+        fetchCurrencies();
+        setShowModal(true);
+    };
+
+    const openEdit = (expense: Expense) => {
+        setEditingId(expense.id);
+        setForm({
+            description: expense.description,
+            category: expense.category,
+            purchaseOrderId: expense.purchaseOrderId ?? '',
+            amount: String(expense.amount),
+            currency: expense.currency,
+            vendor: expense.vendor ?? '',
+            invoiceNumber: expense.invoiceNumber ?? '',
+            invoiceDate: expense.invoiceDate ? expense.invoiceDate.split('T')[0] : '',
+        });
+        fetchOpenOrders();
+        fetchCurrencies();
+        setShowModal(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const payload = {
+            description: form.description,
+            category: form.category,
+            purchaseOrderId: form.purchaseOrderId || null,
+            amount: parseFloat(form.amount),
+            currency: form.currency,
+            vendor: form.vendor || undefined,
+            invoiceNumber: form.invoiceNumber || undefined,
+            invoiceDate: form.invoiceDate || undefined,
+        };
+        const ok = editingId
+            ? await send(`/api/finance/expenses/${editingId}`, 'PUT', payload)
+            : await send(`/api/finance/projects/${projectId}/expenses`, 'POST', payload);
+        setSaving(false);
+        if (ok) setShowModal(false);
+    };
+
+    const handleDelete = async (expense: Expense) => {
+        if (!confirm(`Delete the draft expense "${expense.description}"?`)) return;
+        await send(`/api/finance/expenses/${expense.id}`, 'DELETE');
+    };
+
+    const handleReceipt = async (expense: Expense, file: File) => {
+        setError('');
+        const formData = new FormData();
+        formData.append('file', file);
+        try {
+            const res = await fetch(`/api/finance/expenses/${expense.id}/receipt`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${accessToken}` },
+                body: formData,
+            });
+            if (res.ok) changed();
+            else setError((await res.json()).error || 'Failed to upload receipt');
+        } catch (err) {
+            setError('Failed to upload receipt');
+        }
+    };
+
+    const handlePending = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pending) return;
+        setSaving(true);
+        const { expense, kind } = pending;
+        const ok = kind === 'reject'
+            ? await send(`/api/finance/expenses/${expense.id}/review`, 'POST', { action: 'REJECT', comments: note || undefined })
+            : kind === 'pay'
+                ? await send(`/api/finance/expenses/${expense.id}/pay`, 'POST', { paymentReference: note || undefined })
+                : await send(`/api/finance/expenses/${expense.id}/reverse`, 'POST', { reason: note });
+        setSaving(false);
+        if (ok) {
+            setPending(null);
+            setNote('');
+        }
+    };
+
+    const isOwnDraft = (expense: Expense) => expense.status === 'DRAFT' && (canManage || expense.createdById === user?.id);
+
+    const bookedTotal = expenses
+        .filter(e => e.status === 'APPROVED' || e.status === 'PAID')
+        .reduce((sum, e) => sum + e.amountINR, 0);
+    const pendingTotal = expenses
+        .filter(e => e.status === 'SUBMITTED')
+        .reduce((sum, e) => sum + e.amountINR, 0);
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Project Expenses</h3>
+                    <p className="text-[11px] text-slate-500">
+                        {formatINR(bookedTotal)} booked · {formatINR(pendingTotal)} awaiting approval
+                    </p>
+                </div>
+                {canContribute && (
+                    <button onClick={openCreate} className="btn-primary-glossy text-xs">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Record Expense</span>
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+
+            {loading ? (
+                <p className="text-xs text-slate-400 py-6 text-center">Loading expenses...</p>
+            ) : expenses.length === 0 ? (
+                <div className="text-center py-8">
+                    <Receipt className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                    <p className="text-xs text-slate-500">No expenses recorded for this project yet</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Date</th>
+                                <th>Description</th>
+                                <th>Budget Head</th>
+                                <th className="text-right">Amount (INR)</th>
+                                <th>Status</th>
+                                <th className="text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {expenses.map(exp => {
+                                const status = STATUS_STYLES[exp.status];
+                                const awaitingPi = exp.status === 'SUBMITTED' && !exp.piApprovedAt;
+                                return (
+                                    <tr key={exp.id}>
+                                        <td className="text-xs text-slate-600 whitespace-nowrap">{new Date(exp.invoiceDate ?? exp.createdAt).toLocaleDateString()}</td>
+                                        <td className="text-xs">
+                                            <p className="font-medium text-secondary-900">{exp.description}</p>
+                                            <p className="text-[10px] text-slate-500">
+                                                {[exp.vendor, exp.invoiceNumber && `Inv. ${exp.invoiceNumber}`, exp.purchaseOrder && `PO ${exp.purchaseOrder.poNumber}`, exp.createdBy && `by ${exp.createdBy.firstName} ${exp.createdBy.lastName}`].filter(Boolean).join(' · ')}
+                                            </p>
+                                            {exp.status === 'DRAFT' && exp.reviewComments && (
+                                                <p className="text-[10px] text-amber-700">Returned: {exp.reviewComments}</p>
+                                            )}
+                                            {exp.status === 'REVERSED' && exp.reversalReason && (
+                                                <p className="text-[10px] text-rose-700">Reversed: {exp.reversalReason}</p>
+                                            )}
+                                            {exp.status === 'PAID' && exp.paymentReference && (
+                                                <p className="text-[10px] text-emerald-700">Ref. {exp.paymentReference}</p>
+                                            )}
+                                        </td>
+                                        <td>
+                                            <span className="glass-pill text-[10px] bg-slate-100 text-slate-700">{exp.category}</span>
+                                        </td>
+                                        <td className="text-xs font-bold text-secondary-900 text-right">
+                                            {formatINR(exp.amountINR)}
+                                            {exp.currency !== 'INR' && (
+                                                <p className="text-[10px] font-normal text-slate-500">{exp.currency} {exp.amount.toLocaleString('en-IN')}</p>
+                                            )}
+                                        </td>
+                                        <td>
+                                            <span className={`glass-pill text-[10px] ${status.className}`}>{status.label}</span>
+                                            {exp.status === 'SUBMITTED' && (
+                                                <p className="text-[10px] text-slate-500 mt-0.5">{awaitingPi ? 'Awaiting PI' : 'Awaiting BKMD'}</p>
+                                            )}
+                                        </td>
+                                        <td className="text-right">
+                                            <div className="flex items-center justify-end gap-1.5">
+                                                {exp.receiptUrl && (
+                                                    <a href={exp.receiptUrl} target="_blank" rel="noreferrer" title="View receipt" className="p-1 text-slate-500 hover:text-primary-600">
+                                                        <Receipt className="w-3.5 h-3.5" />
+                                                    </a>
+                                                )}
+                                                {exp.status !== 'REVERSED' && (canManage || exp.createdById === user?.id) && (
+                                                    <label title="Attach receipt" className="p-1 text-slate-500 hover:text-primary-600 cursor-pointer">
+                                                        <Paperclip className="w-3.5 h-3.5" />
+                                                        <input
+                                                            type="file"
+                                                            className="hidden"
+                                                            onChange={(e) => e.target.files?.[0] && handleReceipt(exp, e.target.files[0])}
+                                                        />
+                                                    </label>
+                                                )}
+                                                {isOwnDraft(exp) && (
+                                                    <>
+                                                        <button onClick={() => openEdit(exp)} title="Edit" className="p-1 text-slate-500 hover:text-primary-600">
+                                                            <Pencil className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button onClick={() => handleDelete(exp)} title="Delete" className="p-1 text-slate-500 hover:text-rose-600">
+                                                            <Trash2 className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button onClick={() => send(`/api/finance/expenses/${exp.id}/submit`, 'POST')} className="btn-secondary-glossy text-[10px]">
+                                                            <Send className="w-3 h-3" />
+                                                            <span>Submit</span>
+                                                        </button>
+                                                    </>
+                                                )}
+                                                {awaitingPi && canManage && exp.createdById !== user?.id && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => send(`/api/finance/expenses/${exp.id}/review`, 'POST', { action: 'APPROVE' })}
+                                                            className="btn-primary-glossy text-[10px]"
+                                                        >
+                                                            <Check className="w-3 h-3" />
+                                                            <span>Approve</span>
+                                                        </button>
+                                                        <button onClick={() => setPending({ expense: exp, kind: 'reject' })} className="btn-secondary-glossy text-[10px]">
+                                                            <Undo2 className="w-3 h-3" />
+                                                            <span>Return</span>
+                                                        </button>
+                                                    </>
+                                                )}
+                                                {exp.status === 'APPROVED' && canPay && (
+                                                    <button onClick={() => setPending({ expense: exp, kind: 'pay' })} className="btn-primary-glossy text-[10px]">
+                                                        <Banknote className="w-3 h-3" />
+                                                        <span>Mark Paid</span>
+                                                    </button>
+                                                )}
+                                                {(exp.status === 'APPROVED' || exp.status === 'PAID') && canPay && (
+                                                    <button onClick={() => setPending({ expense: exp, kind: 'reverse' })} className="btn-secondary-glossy text-[10px]">
+                                                        <Undo2 className="w-3 h-3" />
+                                                        <span>Reverse</span>
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Record / Edit Expense Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{editingId ? 'Edit Draft Expense' : 'Record Project Expense'}</h3>
+                            <button onClick={() => setShowModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleSave} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-3 gap-3">
+                                <div className="col-span-2">
+                                    <label className="block font-bold text-secondary-800 mb-1">Amount *</label>
+                                    <input
+                                        type="number"
+                                        required
+                                        min="0"
+                                        step="0.01"
+                                        value={form.amount}
+                                        onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                                        placeholder="e.g. 150000"
+                                        className="glass-input text-xs"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Currency</label>
+                                    <select value={form.currency} onChange={(e) => setForm({ ...form, currency: e.target.value })} className="glass-input text-xs">
+                                        {currencies.length === 0 && <option value="INR">INR</option>}
+                                        {currencies.map(c => (
+                                            <option key={c.code} value={c.code}>{c.code} · {c.name}</option>
+                                        ))}
+                                        {/* A currency since deactivated stays selectable on the expense that uses it */}
+                                        {currencies.length > 0 && !currencies.some(c => c.code === form.currency) && (
+                                            <option value={form.currency}>{form.currency}</option>
+                                        )}
+                                    </select>
+                                </div>
+                            </div>
+
+                            {openOrders.length > 0 && (
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Against Purchase Order</label>
+                                    <select
+                                        value={form.purchaseOrderId}
+                                        onChange={(e) => {
+                                            const order = openOrders.find(o => o.id === e.target.value);
+                                            setForm(order
+                                                ? { ...form, purchaseOrderId: order.id, category: order.category, vendor: form.vendor || order.vendor }
+                                                : { ...form, purchaseOrderId: '' });
+                                        }}
+                                        className="glass-input text-xs"
+                                    >
+                                        <option value="">None — charge the budget head directly</option>
+                                        {openOrders.map(order => (
+                                            <option key={order.id} value={order.id}>
+                                                {order.poNumber} · {order.vendor} · {formatINR(order.amountINR - order.invoicedINR)} outstanding
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Budget Category *</label>
+                                <select value={form.category} disabled={!!form.purchaseOrderId} onChange={(e) => setForm({ ...form, category: e.target.value })} className="glass-input text-xs">
+                                    <option value="EQUIPMENT">Equipment & Hardware</option>
+                                    <option value="MANPOWER">Manpower / Research Fellows</option>
+                                    <option value="CONSUMABLES">Consumables & Materials</option>
+                                    <option value="TRAVEL">Field Testing & Travel</option>
+                                    <option value="OVERHEAD">Institutional Overhead</option>
+                                    <option value="CONTINGENCY">Contingency</option>
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Expense Description *</label>
+                                <input
+                                    type="text"
+                                    required
+                                    value={form.description}
+                                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                    placeholder="e.g. Procurement of piezoelectric sensor modules"
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Vendor</label>
+                                    <input type="text" value={form.vendor} onChange={(e) => setForm({ ...form, vendor: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Invoice No.</label>
+                                    <input type="text" value={form.invoiceNumber} onChange={(e) => setForm({ ...form, invoiceNumber: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Invoice Date</label>
+                                <input type="date" value={form.invoiceDate} onChange={(e) => setForm({ ...form, invoiceDate: e.target.value })} className="glass-input text-xs" />
+                            </div>
+
+                            <p className="text-[11px] text-slate-500">
+                                The expense is saved as a draft. Submit it for PI and BKMD approval; it counts against the budget once approved.
+                            </p>
+
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : editingId ? 'Save Draft' : 'Record Expense'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Return / Pay / Reverse Modal */}
+            {pending && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{ACTION_LABELS[pending.kind].title}</h3>
+                            <button onClick={() => { setPending(null); setNote(''); }} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handlePending} className="space-y-3 text-xs">
+                            <p className="text-slate-600">
+                                {pending.expense.description} · <span className="font-bold">{formatINR(pending.expense.amountINR)}</span>
+                            </p>
+                            {pending.kind === 'reverse' && (
+                                <p className="text-[11px] text-slate-500">
+                                    Reversing posts offsetting ledger entries and releases the amount back to the budget head. The expense stays on record.
+                                </p>
+                            )}
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">{ACTION_LABELS[pending.kind].field}{ACTION_LABELS[pending.kind].required ? ' *' : ''}</label>
+                                <textarea
+                                    rows={3}
+                                    required={ACTION_LABELS[pending.kind].required}
+                                    minLength={ACTION_LABELS[pending.kind].required ? 3 : undefined}
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => { setPending(null); setNote(''); }} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : ACTION_LABELS[pending.kind].submit}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,556 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import { Plus, X, Landmark, Send, Banknote, Ban, Trash2 } from 'lucide-react';
+
+type InstalmentStatus = 'SCHEDULED' | 'DUE' | 'CLAIMED' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'WAIVED';
+
+interface Instalment {
+    id: string;
+    sequence: number;
+    description: string;
+    amount: number;
+    dueDate?: string | null;
+    milestone?: { id: string; title: string; status: string } | null;
+    status: InstalmentStatus;
+    dueSince?: string | null;
+    claimedAt?: string | null;
+    claimReference?: string | null;
+    receivedAmount: number;
+    comments?: string | null;
+    receipts: Array<{ id: string; amount: number; transactionDate: string }>;
+}
+
+interface Agreement {
+    id: string;
+    sponsorName: string;
+    referenceNumber?: string | null;
+    currency: string;
+    signedDate: string;
+    notes?: string | null;
+    instalments: Instalment[];
+    summary: {
+        totalAmount: number;
+        receivedAmount: number;
+        dueAmount: number;
+        outstandingAmount: number;
+        scheduledAmount: number;
+    };
+}
+
+interface ProjectFundingProps {
+    projectId: string;
+    canManage: boolean;
+    milestones: Array<{ id: string; title: string; status: string }>;
+    // Changes when the project's finances change, to refetch
+    refreshKey?: unknown;
+    onChange?: () => void;
+}
+
+// An action on one instalment that needs input before it is sent
+type PendingAction = { kind: 'claim' | 'receipt' | 'waive'; agreement: Agreement; instalment: Instalment };
+
+const STATUS_STYLES: Record<InstalmentStatus, { label: string; className: string }> = {
+    SCHEDULED: { label: 'Scheduled', className: 'bg-slate-100 text-slate-600' },
+    DUE: { label: 'Claim due', className: 'bg-amber-50 text-amber-700' },
+    CLAIMED: { label: 'Claimed', className: 'bg-sky-50 text-sky-700' },
+    PARTIALLY_RECEIVED: { label: 'Part received', className: 'bg-sky-50 text-sky-700' },
+    RECEIVED: { label: 'Received', className: 'bg-emerald-50 text-emerald-700' },
+    WAIVED: { label: 'Waived', className: 'bg-slate-100 text-slate-500 line-through' },
+};
+
+const today = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const emptyInstalment = { description: '', amount: '', trigger: 'date' as 'date' | 'milestone', dueDate: '', milestoneId: '' };
+
+const emptyAgreement = { sponsorName: '', referenceNumber: '', currency: 'INR', signedDate: today(), notes: '' };
+
+const formatAmount = (amount: number, currency: string) =>
+    currency === 'INR' ? `₹${Math.round(amount).toLocaleString('en-IN')}` : `${currency} ${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+export default function ProjectFunding({ projectId, canManage, milestones, refreshKey, onChange }: ProjectFundingProps) {
+    const { accessToken } = useAuthStore();
+    const { hasPermission } = useRBAC();
+    const [agreements, setAgreements] = useState<Agreement[]>([]);
+    const [currencies, setCurrencies] = useState<Array<{ code: string; name: string }>>([]);
+    const [showModal, setShowModal] = useState(false);
+    const [form, setForm] = useState(emptyAgreement);
+    const [schedule, setSchedule] = useState([emptyInstalment]);
+    // Agreement an instalment is being added to
+    const [addingTo, setAddingTo] = useState<Agreement | null>(null);
+    const [instalmentForm, setInstalmentForm] = useState(emptyInstalment);
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [actionForm, setActionForm] = useState({ note: '', date: today(), amount: '' });
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const canWaive = hasPermission('finance', 'manage');
+
+    useEffect(() => {
+        fetchAgreements();
+    }, [projectId, refreshKey]);
+
+    const fetchAgreements = async () => {
+        try {
+            const res = await fetch(`/api/finance/projects/${projectId}/funding`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setAgreements(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch funding agreements:', err);
+        }
+    };
+
+    const fetchCurrencies = async () => {
+        try {
+            const res = await fetch('/api/finance/currencies', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setCurrencies(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch currencies:', err);
+        }
+    };
+
+    // The parent refetches the project, which changes refreshKey
+    const changed = () => (onChange ? onChange() : fetchAgreements());
+
+    const send = async (url: string, body?: unknown, method = 'POST') => {
+        setError('');
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Request failed');
+                return false;
+            }
+            changed();
+            return true;
+        } catch (err) {
+            setError('Request failed');
+            return false;
+        }
+    };
+
+    const toInstalment = (row: typeof emptyInstalment) => ({
+        description: row.description,
+        amount: parseFloat(row.amount),
+        dueDate: row.dueDate || null,
+        milestoneId: row.trigger === 'milestone' ? row.milestoneId || null : null,
+    });
+
+    const openCreate = () => {
+        setForm(emptyAgreement);
+        setSchedule([emptyInstalment]);
+        fetchCurrencies();
+        setShowModal(true);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const ok = await send(`/api/finance/projects/${projectId}/funding`, {
+            sponsorName: form.sponsorName,
+            referenceNumber: form.referenceNumber || null,
+            currency: form.currency,
+            signedDate: form.signedDate,
+            notes: form.notes || null,
+            instalments: schedule.map(toInstalment),
+        });
+        setSaving(false);
+        if (ok) setShowModal(false);
+    };
+
+    const handleAddInstalment = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!addingTo) return;
+        setSaving(true);
+        const ok = await send(`/api/finance/funding/${addingTo.id}/instalments`, toInstalment(instalmentForm));
+        setSaving(false);
+        if (ok) setAddingTo(null);
+    };
+
+    const handleDelete = async (agreement: Agreement) => {
+        if (!confirm(`Delete the ${agreement.sponsorName} funding agreement and its schedule?`)) return;
+        await send(`/api/finance/funding/${agreement.id}`, undefined, 'DELETE');
+    };
+
+    const openAction = (action: PendingAction) => {
+        const outstanding = action.instalment.amount - action.instalment.receivedAmount;
+        setActionForm({ note: '', date: today(), amount: action.kind === 'receipt' ? String(outstanding) : '' });
+        setPending(action);
+    };
+
+    const handleAction = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pending) return;
+        const { agreement, instalment } = pending;
+        setSaving(true);
+        let ok = false;
+        if (pending.kind === 'claim') {
+            ok = await send(`/api/finance/instalments/${instalment.id}/claim`, { claimReference: actionForm.note, claimedAt: actionForm.date });
+        } else if (pending.kind === 'receipt') {
+            ok = await send(`/api/finance/projects/${projectId}/cashflow`, {
+                type: 'RECEIVED',
+                source: agreement.sponsorName,
+                description: actionForm.note || `Instalment ${instalment.sequence}: ${instalment.description}`,
+                amount: parseFloat(actionForm.amount),
+                currency: agreement.currency,
+                transactionDate: actionForm.date,
+                instalmentId: instalment.id,
+            });
+        } else {
+            ok = await send(`/api/finance/instalments/${instalment.id}/waive`, { reason: actionForm.note });
+        }
+        setSaving(false);
+        if (ok) setPending(null);
+    };
+
+    const updateRow = (index: number, patch: Partial<typeof emptyInstalment>) =>
+        setSchedule(schedule.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+    // Fields shared by the schedule rows and the add-instalment form
+    const instalmentFields = (row: typeof emptyInstalment, update: (patch: Partial<typeof emptyInstalment>) => void) => (
+        <div className="grid grid-cols-2 gap-2">
+            <input
+                type="text"
+                required
+                value={row.description}
+                onChange={(e) => update({ description: e.target.value })}
+                placeholder="e.g. Second instalment"
+                className="glass-input text-xs"
+            />
+            <input
+                type="number"
+                required
+                min="0"
+                step="0.01"
+                value={row.amount}
+                onChange={(e) => update({ amount: e.target.value })}
+                placeholder="Amount"
+                className="glass-input text-xs"
+            />
+            <select value={row.trigger} onChange={(e) => update({ trigger: e.target.value as 'date' | 'milestone' })} className="glass-input text-xs">
+                <option value="date">Due on a date</option>
+                <option value="milestone">On completing a milestone</option>
+            </select>
+            {row.trigger === 'milestone' ? (
+                <select required value={row.milestoneId} onChange={(e) => update({ milestoneId: e.target.value })} className="glass-input text-xs">
+                    <option value="">Select milestone</option>
+                    {milestones.map(m => (
+                        <option key={m.id} value={m.id}>{m.title}</option>
+                    ))}
+                </select>
+            ) : (
+                <input type="date" required value={row.dueDate} onChange={(e) => update({ dueDate: e.target.value })} className="glass-input text-xs" />
+            )}
+        </div>
+    );
+
+    const outstandingINR = agreements.reduce((sum, a) => sum + (a.currency === 'INR' ? a.summary.outstandingAmount : 0), 0);
+
+    const actionTitle = pending && {
+        claim: 'Record Claim to Sponsor',
+        receipt: 'Record Receipt',
+        waive: 'Waive Instalment',
+    }[pending.kind];
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Sponsor Funding</h3>
+                    <p className="text-[11px] text-slate-500">
+                        Instalments agreed with sponsors, claims raised and receipts against them
+                        {outstandingINR > 0 && ` · ${formatAmount(outstandingINR, 'INR')} claimable and outstanding`}
+                    </p>
+                </div>
+                {canManage && (
+                    <button onClick={openCreate} className="btn-primary-glossy text-xs">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Add Agreement</span>
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+
+            {agreements.length === 0 ? (
+                <div className="text-center py-8">
+                    <Landmark className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                    <p className="text-xs text-slate-500">No sponsor funding agreements recorded</p>
+                </div>
+            ) : agreements.map(agreement => (
+                <div key={agreement.id} className="space-y-2">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                        <div>
+                            <p className="text-xs font-bold text-secondary-900">
+                                {agreement.sponsorName}
+                                {agreement.referenceNumber && <span className="font-mono font-normal text-slate-500"> · {agreement.referenceNumber}</span>}
+                            </p>
+                            <p className="text-[10px] text-slate-500">
+                                Signed {new Date(agreement.signedDate).toLocaleDateString()} · {formatAmount(agreement.summary.totalAmount, agreement.currency)} agreed
+                                · {formatAmount(agreement.summary.receivedAmount, agreement.currency)} received
+                                · {formatAmount(agreement.summary.outstandingAmount, agreement.currency)} due and outstanding
+                                · {formatAmount(agreement.summary.scheduledAmount, agreement.currency)} yet to fall due
+                            </p>
+                        </div>
+                        {canManage && (
+                            <div className="flex items-center gap-1.5">
+                                <button
+                                    onClick={() => { setInstalmentForm(emptyInstalment); setAddingTo(agreement); }}
+                                    className="btn-secondary-glossy text-[10px]"
+                                >
+                                    <Plus className="w-3 h-3" />
+                                    <span>Instalment</span>
+                                </button>
+                                {agreement.instalments.every(i => i.receipts.length === 0) && (
+                                    <button onClick={() => handleDelete(agreement)} title="Delete agreement" className="p-1 text-slate-500 hover:text-rose-600">
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>#</th>
+                                    <th>Instalment</th>
+                                    <th>Trigger</th>
+                                    <th className="text-right">Amount</th>
+                                    <th className="text-right">Received</th>
+                                    <th>Status</th>
+                                    <th className="text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {agreement.instalments.map(instalment => {
+                                    const status = STATUS_STYLES[instalment.status];
+                                    const open = instalment.status !== 'RECEIVED' && instalment.status !== 'WAIVED';
+                                    return (
+                                        <tr key={instalment.id}>
+                                            <td className="text-xs text-slate-500">{instalment.sequence}</td>
+                                            <td className="text-xs">
+                                                <p className="font-medium text-secondary-900">{instalment.description}</p>
+                                                {instalment.claimReference && (
+                                                    <p className="text-[10px] text-slate-500">
+                                                        Claim {instalment.claimReference} · {new Date(instalment.claimedAt!).toLocaleDateString()}
+                                                    </p>
+                                                )}
+                                                {instalment.status === 'WAIVED' && instalment.comments && (
+                                                    <p className="text-[10px] text-slate-500">{instalment.comments}</p>
+                                                )}
+                                            </td>
+                                            <td className="text-[11px] text-slate-600">
+                                                {instalment.milestone ? (
+                                                    <span>Milestone: {instalment.milestone.title}{instalment.milestone.status === 'COMPLETED' && ' ✓'}</span>
+                                                ) : (
+                                                    instalment.dueDate && new Date(instalment.dueDate).toLocaleDateString()
+                                                )}
+                                            </td>
+                                            <td className="text-xs font-bold text-secondary-900 text-right">{formatAmount(instalment.amount, agreement.currency)}</td>
+                                            <td className="text-xs text-slate-600 text-right">{formatAmount(instalment.receivedAmount, agreement.currency)}</td>
+                                            <td>
+                                                <span className={`glass-pill text-[10px] ${status.className}`}>{status.label}</span>
+                                            </td>
+                                            <td>
+                                                {open && (
+                                                    <div className="flex items-center justify-end gap-1.5">
+                                                        {canManage && !instalment.claimedAt && (
+                                                            <button onClick={() => openAction({ kind: 'claim', agreement, instalment })} className="btn-primary-glossy text-[10px]">
+                                                                <Send className="w-3 h-3" />
+                                                                <span>Claim</span>
+                                                            </button>
+                                                        )}
+                                                        {canManage && (
+                                                            <button onClick={() => openAction({ kind: 'receipt', agreement, instalment })} title="Record receipt" className="p-1 text-slate-500 hover:text-emerald-600">
+                                                                <Banknote className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        )}
+                                                        {canWaive && (
+                                                            <button onClick={() => openAction({ kind: 'waive', agreement, instalment })} title="Waive instalment" className="p-1 text-slate-500 hover:text-rose-600">
+                                                                <Ban className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            ))}
+
+            {/* New agreement */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-2xl p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200 max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Add Funding Agreement</h3>
+                            <button onClick={() => setShowModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleCreate} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Sponsor *</label>
+                                    <input type="text" required value={form.sponsorName} onChange={(e) => setForm({ ...form, sponsorName: e.target.value })} placeholder="e.g. DST-SERB" className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Sanction / Agreement No.</label>
+                                    <input type="text" value={form.referenceNumber} onChange={(e) => setForm({ ...form, referenceNumber: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Currency</label>
+                                    <select value={form.currency} onChange={(e) => setForm({ ...form, currency: e.target.value })} className="glass-input text-xs">
+                                        {currencies.length === 0 && <option value="INR">INR</option>}
+                                        {currencies.map(c => (
+                                            <option key={c.code} value={c.code}>{c.code} · {c.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Signed On *</label>
+                                    <input type="date" required value={form.signedDate} onChange={(e) => setForm({ ...form, signedDate: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="block font-bold text-secondary-800">Instalment Schedule *</label>
+                                {schedule.map((row, index) => (
+                                    <div key={index} className="flex items-start gap-2 p-2 rounded-xl bg-slate-50">
+                                        <span className="text-[11px] font-bold text-slate-500 pt-2">{index + 1}</span>
+                                        <div className="flex-1">{instalmentFields(row, patch => updateRow(index, patch))}</div>
+                                        {schedule.length > 1 && (
+                                            <button type="button" onClick={() => setSchedule(schedule.filter((_, i) => i !== index))} className="p-1 pt-2 text-slate-400 hover:text-rose-600">
+                                                <X className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => setSchedule([...schedule, emptyInstalment])} className="btn-secondary-glossy text-[10px]">
+                                    <Plus className="w-3 h-3" />
+                                    <span>Add Instalment</span>
+                                </button>
+                            </div>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Notes</label>
+                                <textarea rows={2} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <p className="text-[11px] text-slate-500">
+                                The PI is reminded to raise a claim when an instalment's date arrives or its milestone is completed.
+                            </p>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Agreement'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Add an instalment to an agreement */}
+            {addingTo && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Add Instalment · {addingTo.sponsorName}</h3>
+                            <button onClick={() => setAddingTo(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleAddInstalment} className="space-y-3 text-xs">
+                            {instalmentFields(instalmentForm, patch => setInstalmentForm({ ...instalmentForm, ...patch }))}
+                            <p className="text-[11px] text-slate-500">Amount in {addingTo.currency}.</p>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setAddingTo(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Add Instalment'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Claim, receipt or waiver */}
+            {pending && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{actionTitle}</h3>
+                            <button onClick={() => setPending(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleAction} className="space-y-3 text-xs">
+                            <p className="text-slate-600">
+                                {pending.agreement.sponsorName} · instalment {pending.instalment.sequence} ·{' '}
+                                <span className="font-bold">
+                                    {formatAmount(pending.instalment.amount - pending.instalment.receivedAmount, pending.agreement.currency)}
+                                </span>{' '}
+                                outstanding
+                            </p>
+                            {pending.kind === 'receipt' && (
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Amount Received ({pending.agreement.currency}) *</label>
+                                    <input type="number" required min="0" step="0.01" value={actionForm.amount} onChange={(e) => setActionForm({ ...actionForm, amount: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            )}
+                            {pending.kind !== 'waive' && (
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">{pending.kind === 'claim' ? 'Claimed On' : 'Received On'} *</label>
+                                    <input type="date" required max={today()} value={actionForm.date} onChange={(e) => setActionForm({ ...actionForm, date: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            )}
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">
+                                    {pending.kind === 'claim' ? 'Claim / Invoice No. *' : pending.kind === 'receipt' ? 'Description' : 'Reason *'}
+                                </label>
+                                <input
+                                    type="text"
+                                    required={pending.kind !== 'receipt'}
+                                    minLength={pending.kind === 'waive' ? 3 : undefined}
+                                    value={actionForm.note}
+                                    onChange={(e) => setActionForm({ ...actionForm, note: e.target.value })}
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+                            {pending.kind === 'receipt' && (
+                                <p className="text-[11px] text-slate-500">The receipt is entered in the cash flow register and posted to the project ledger.</p>
+                            )}
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setPending(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : actionTitle}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,855 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import { Plus, X, Receipt, FileCheck2, Banknote, FileMinus, Download, Pencil, Trash2, Send, Check, Ban } from 'lucide-react';
+
+type QuotationStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED';
+type InvoiceStatus = 'DRAFT' | 'ISSUED' | 'PARTIALLY_PAID' | 'PAID' | 'CANCELLED';
+
+interface ClientRef {
+    id: string;
+    name: string;
+}
+
+interface Quotation {
+    id: string;
+    quotationNumber: string;
+    client: ClientRef;
+    title: string;
+    scope?: string | null;
+    amountINR: number;
+    validUntil?: string | null;
+    status: QuotationStatus;
+}
+
+interface WorkOrder {
+    id: string;
+    orderNumber: string;
+    orderDate: string;
+    client: ClientRef;
+    quotation?: { id: string; quotationNumber: string } | null;
+    valueINR: number;
+    invoicedINR: number;
+    status: 'OPEN' | 'COMPLETED' | 'CANCELLED';
+}
+
+interface InvoiceLine {
+    description: string;
+    sac: string;
+    quantity: number;
+    rate: number;
+    amount: number;
+}
+
+interface FileRef {
+    id: string;
+    fileName: string;
+}
+
+interface Invoice {
+    id: string;
+    invoiceNumber?: string | null;
+    invoiceDate?: string | null;
+    dueDate?: string | null;
+    client: ClientRef & { gstin?: string | null; stateCode: string };
+    workOrder?: { id: string; orderNumber: string } | null;
+    lines: InvoiceLine[];
+    taxableINR: number;
+    gstRate: number;
+    cgstINR: number;
+    sgstINR: number;
+    igstINR: number;
+    totalINR: number;
+    creditedINR: number;
+    receivedINR: number;
+    tdsINR: number;
+    outstandingINR: number;
+    status: InvoiceStatus;
+    notes?: string | null;
+    document?: FileRef | null;
+    creditNotes: Array<{ id: string; creditNoteNumber: string; noteDate: string; reason: string; totalINR: number; document: FileRef }>;
+    payments: Array<{ id: string; receivedDate: string; amountINR: number; tdsINR: number; reference?: string | null }>;
+}
+
+interface InvoicingBook {
+    quotations: Quotation[];
+    workOrders: WorkOrder[];
+    invoices: Invoice[];
+    summary: { orderValueINR: number; invoicedINR: number; receivedINR: number; tdsINR: number; outstandingINR: number };
+}
+
+interface ProjectInvoicingProps {
+    projectId: string;
+    canManage: boolean;
+    // Changes when the project's finances change, to refetch
+    refreshKey?: unknown;
+    onChange?: () => void;
+}
+
+// An action on one issued invoice that needs input before it is sent
+type PendingAction = { kind: 'issue' | 'payment' | 'credit'; invoice: Invoice };
+
+const QUOTATION_STYLES: Record<QuotationStatus, string> = {
+    DRAFT: 'bg-slate-100 text-slate-600',
+    SENT: 'bg-sky-50 text-sky-700',
+    ACCEPTED: 'bg-emerald-50 text-emerald-700',
+    DECLINED: 'bg-slate-100 text-slate-500 line-through',
+};
+
+const INVOICE_STYLES: Record<InvoiceStatus, { label: string; className: string }> = {
+    DRAFT: { label: 'Draft', className: 'bg-slate-100 text-slate-600' },
+    ISSUED: { label: 'Issued', className: 'bg-sky-50 text-sky-700' },
+    PARTIALLY_PAID: { label: 'Part paid', className: 'bg-amber-50 text-amber-700' },
+    PAID: { label: 'Paid', className: 'bg-emerald-50 text-emerald-700' },
+    CANCELLED: { label: 'Credited', className: 'bg-slate-100 text-slate-500 line-through' },
+};
+
+const today = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatINR = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const emptyQuotation = { clientId: '', title: '', scope: '', amountINR: '', validUntil: '' };
+
+const emptyWorkOrder = { clientId: '', quotationId: '', orderNumber: '', orderDate: today(), valueINR: '', notes: '' };
+
+const emptyLine = { description: '', sac: '', quantity: '1', rate: '' };
+
+const emptyInvoice = { clientId: '', workOrderId: '', gstRate: '18', notes: '', lines: [emptyLine] };
+
+export default function ProjectInvoicing({ projectId, canManage, refreshKey, onChange }: ProjectInvoicingProps) {
+    const { accessToken } = useAuthStore();
+    const { hasPermission } = useRBAC();
+    const [book, setBook] = useState<InvoicingBook | null>(null);
+    const [clients, setClients] = useState<ClientRef[]>([]);
+    const [modal, setModal] = useState<'quotation' | 'workOrder' | 'invoice' | null>(null);
+    const [quotationForm, setQuotationForm] = useState(emptyQuotation);
+    const [workOrderForm, setWorkOrderForm] = useState(emptyWorkOrder);
+    const [invoiceForm, setInvoiceForm] = useState(emptyInvoice);
+    // Draft invoice being edited
+    const [editing, setEditing] = useState<Invoice | null>(null);
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [actionForm, setActionForm] = useState({ date: today(), amount: '', tds: '', tdsSection: '194J', note: '' });
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const isFinance = hasPermission('finance', 'manage');
+
+    useEffect(() => {
+        fetchBook();
+    }, [projectId, refreshKey]);
+
+    const fetchBook = async () => {
+        try {
+            const res = await fetch(`/api/finance/projects/${projectId}/invoicing`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setBook(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch invoicing:', err);
+        }
+    };
+
+    const fetchClients = async () => {
+        try {
+            const res = await fetch('/api/finance/clients', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setClients(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch clients:', err);
+        }
+    };
+
+    // The parent refetches the project, which changes refreshKey
+    const changed = () => (onChange ? onChange() : fetchBook());
+
+    const send = async (url: string, body?: unknown, method = 'POST') => {
+        setError('');
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Request failed');
+                return false;
+            }
+            changed();
+            return true;
+        } catch (err) {
+            setError('Request failed');
+            return false;
+        }
+    };
+
+    const handleDownload = async (file: FileRef) => {
+        try {
+            const res = await fetch(`/api/documents/${file.id}/download`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const blob = await res.blob();
+                const downloadUrl = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = downloadUrl;
+                a.download = file.fileName;
+                a.click();
+                URL.revokeObjectURL(downloadUrl);
+            } else {
+                const err = await res.json();
+                setError(err.error || 'Failed to download');
+            }
+        } catch (err) {
+            setError('Failed to download');
+        }
+    };
+
+    const openModal = (kind: 'quotation' | 'workOrder' | 'invoice', invoice?: Invoice) => {
+        fetchClients();
+        if (kind === 'quotation') setQuotationForm(emptyQuotation);
+        if (kind === 'workOrder') setWorkOrderForm(emptyWorkOrder);
+        if (kind === 'invoice') {
+            setEditing(invoice ?? null);
+            setInvoiceForm(invoice ? {
+                clientId: invoice.client.id,
+                workOrderId: invoice.workOrder?.id ?? '',
+                gstRate: String(invoice.gstRate),
+                notes: invoice.notes ?? '',
+                lines: invoice.lines.map(l => ({ description: l.description, sac: l.sac, quantity: String(l.quantity), rate: String(l.rate) })),
+            } : emptyInvoice);
+        }
+        setModal(kind);
+    };
+
+    const handleQuotation = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const ok = await send(`/api/finance/projects/${projectId}/quotations`, {
+            clientId: quotationForm.clientId,
+            title: quotationForm.title,
+            scope: quotationForm.scope || null,
+            amountINR: parseFloat(quotationForm.amountINR),
+            validUntil: quotationForm.validUntil || null,
+        });
+        setSaving(false);
+        if (ok) setModal(null);
+    };
+
+    const handleWorkOrder = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const ok = await send(`/api/finance/projects/${projectId}/work-orders`, {
+            clientId: workOrderForm.clientId,
+            quotationId: workOrderForm.quotationId || null,
+            orderNumber: workOrderForm.orderNumber,
+            orderDate: workOrderForm.orderDate,
+            valueINR: parseFloat(workOrderForm.valueINR),
+            notes: workOrderForm.notes || null,
+        });
+        setSaving(false);
+        if (ok) setModal(null);
+    };
+
+    const handleInvoice = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const body = {
+            clientId: invoiceForm.clientId,
+            workOrderId: invoiceForm.workOrderId || null,
+            gstRate: parseFloat(invoiceForm.gstRate),
+            notes: invoiceForm.notes || null,
+            lines: invoiceForm.lines.map(l => ({
+                description: l.description,
+                sac: l.sac || undefined,
+                quantity: parseFloat(l.quantity),
+                rate: parseFloat(l.rate),
+            })),
+        };
+        const ok = editing
+            ? await send(`/api/finance/invoices/${editing.id}`, body, 'PUT')
+            : await send(`/api/finance/projects/${projectId}/invoices`, body);
+        setSaving(false);
+        if (ok) setModal(null);
+    };
+
+    const handleDeleteDraft = async (invoice: Invoice) => {
+        if (!confirm(`Delete this draft invoice to ${invoice.client.name}?`)) return;
+        await send(`/api/finance/invoices/${invoice.id}`, undefined, 'DELETE');
+    };
+
+    const setQuotationStatus = async (quotation: Quotation, status: QuotationStatus) => {
+        await send(`/api/finance/quotations/${quotation.id}`, { status }, 'PUT');
+    };
+
+    const completeWorkOrder = async (workOrder: WorkOrder) => {
+        if (!confirm(`Mark work order ${workOrder.orderNumber} as completed? No further invoices can be raised against it.`)) return;
+        await send(`/api/finance/work-orders/${workOrder.id}/status`, { status: 'COMPLETED' }, 'PUT');
+    };
+
+    const openAction = (action: PendingAction) => {
+        setActionForm({
+            date: today(),
+            amount: action.kind === 'payment' ? String(action.invoice.outstandingINR) : '',
+            tds: '',
+            tdsSection: '194J',
+            note: '',
+        });
+        setPending(action);
+    };
+
+    const handleAction = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pending) return;
+        const { invoice } = pending;
+        setSaving(true);
+        let ok = false;
+        if (pending.kind === 'issue') {
+            ok = await send(`/api/finance/invoices/${invoice.id}/issue`, { invoiceDate: actionForm.date });
+        } else if (pending.kind === 'payment') {
+            const tds = parseFloat(actionForm.tds) || 0;
+            ok = await send(`/api/finance/invoices/${invoice.id}/payments`, {
+                receivedDate: actionForm.date,
+                amountINR: parseFloat(actionForm.amount),
+                tdsINR: tds,
+                tdsSection: tds > 0 ? actionForm.tdsSection || null : null,
+                reference: actionForm.note || null,
+            });
+        } else {
+            ok = await send(`/api/finance/invoices/${invoice.id}/credit-notes`, {
+                taxableINR: parseFloat(actionForm.amount),
+                reason: actionForm.note,
+                noteDate: actionForm.date,
+            });
+        }
+        setSaving(false);
+        if (ok) setPending(null);
+    };
+
+    const updateLine = (index: number, patch: Partial<typeof emptyLine>) =>
+        setInvoiceForm({ ...invoiceForm, lines: invoiceForm.lines.map((line, i) => (i === index ? { ...line, ...patch } : line)) });
+
+    const draftTaxable = invoiceForm.lines.reduce((sum, l) => sum + (parseFloat(l.quantity) || 0) * (parseFloat(l.rate) || 0), 0);
+
+    if (!book) return null;
+
+    const openOrders = book.workOrders.filter(w => w.status === 'OPEN');
+    const clientOptions = (value: string) => (
+        <>
+            <option value="">Select client</option>
+            {clients.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+            {/* A client deactivated since stays visible on its draft */}
+            {value && !clients.some(c => c.id === value) && editing && <option value={value}>{editing.client.name}</option>}
+        </>
+    );
+
+    const actionTitle = pending && {
+        issue: 'Issue Tax Invoice',
+        payment: 'Record Client Payment',
+        credit: 'Issue Credit Note',
+    }[pending.kind];
+
+    return (
+        <div className="glass-panel p-5 space-y-5">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Consultancy Billing</h3>
+                    <p className="text-[11px] text-slate-500">
+                        {formatINR(book.summary.orderValueINR)} on order · {formatINR(book.summary.invoicedINR)} invoiced
+                        · {formatINR(book.summary.receivedINR)} received · {formatINR(book.summary.tdsINR)} TDS
+                        · {formatINR(book.summary.outstandingINR)} outstanding
+                    </p>
+                </div>
+                {canManage && (
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => openModal('quotation')} className="btn-secondary-glossy text-xs">
+                            <Plus className="w-3.5 h-3.5" />
+                            <span>Quotation</span>
+                        </button>
+                        <button onClick={() => openModal('workOrder')} className="btn-secondary-glossy text-xs">
+                            <Plus className="w-3.5 h-3.5" />
+                            <span>Work Order</span>
+                        </button>
+                        <button onClick={() => openModal('invoice')} className="btn-primary-glossy text-xs">
+                            <Plus className="w-3.5 h-3.5" />
+                            <span>Draft Invoice</span>
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+
+            {/* Quotations */}
+            <div className="space-y-2">
+                <h4 className="text-xs font-bold text-secondary-800">Quotations</h4>
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Number</th>
+                                <th>Client</th>
+                                <th>Work</th>
+                                <th className="text-right">Amount</th>
+                                <th>Status</th>
+                                <th className="text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {book.quotations.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="text-center text-xs text-slate-500 py-4">No quotations</td>
+                                </tr>
+                            ) : book.quotations.map(q => (
+                                <tr key={q.id}>
+                                    <td className="font-mono text-xs text-slate-600">{q.quotationNumber}</td>
+                                    <td className="text-xs text-secondary-900">{q.client.name}</td>
+                                    <td className="text-xs">
+                                        <p className="text-secondary-900">{q.title}</p>
+                                        {q.validUntil && <p className="text-[10px] text-slate-500">Valid until {new Date(q.validUntil).toLocaleDateString()}</p>}
+                                    </td>
+                                    <td className="text-xs font-bold text-secondary-900 text-right">{formatINR(q.amountINR)}</td>
+                                    <td>
+                                        <span className={`glass-pill text-[10px] ${QUOTATION_STYLES[q.status]}`}>{q.status.toLowerCase()}</span>
+                                    </td>
+                                    <td>
+                                        {canManage && (q.status === 'DRAFT' || q.status === 'SENT') && (
+                                            <div className="flex items-center justify-end gap-1.5">
+                                                {q.status === 'DRAFT' && (
+                                                    <button onClick={() => setQuotationStatus(q, 'SENT')} title="Mark sent to client" className="p-1 text-slate-500 hover:text-sky-600">
+                                                        <Send className="w-3.5 h-3.5" />
+                                                    </button>
+                                                )}
+                                                <button onClick={() => setQuotationStatus(q, 'ACCEPTED')} title="Mark accepted" className="p-1 text-slate-500 hover:text-emerald-600">
+                                                    <Check className="w-3.5 h-3.5" />
+                                                </button>
+                                                <button onClick={() => setQuotationStatus(q, 'DECLINED')} title="Mark declined" className="p-1 text-slate-500 hover:text-rose-600">
+                                                    <Ban className="w-3.5 h-3.5" />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Work orders */}
+            <div className="space-y-2">
+                <h4 className="text-xs font-bold text-secondary-800">Work Orders</h4>
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Order No.</th>
+                                <th>Client</th>
+                                <th>Dated</th>
+                                <th className="text-right">Value</th>
+                                <th className="text-right">Invoiced</th>
+                                <th>Status</th>
+                                <th className="text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {book.workOrders.length === 0 ? (
+                                <tr>
+                                    <td colSpan={7} className="text-center text-xs text-slate-500 py-4">No work orders received</td>
+                                </tr>
+                            ) : book.workOrders.map(w => (
+                                <tr key={w.id}>
+                                    <td className="text-xs">
+                                        <p className="font-mono text-secondary-900">{w.orderNumber}</p>
+                                        {w.quotation && <p className="text-[10px] text-slate-500">Against {w.quotation.quotationNumber}</p>}
+                                    </td>
+                                    <td className="text-xs text-secondary-900">{w.client.name}</td>
+                                    <td className="text-xs text-slate-600">{new Date(w.orderDate).toLocaleDateString()}</td>
+                                    <td className="text-xs font-bold text-secondary-900 text-right">{formatINR(w.valueINR)}</td>
+                                    <td className="text-xs text-slate-600 text-right">{formatINR(w.invoicedINR)}</td>
+                                    <td>
+                                        <span className="glass-pill text-[10px] bg-slate-100 text-slate-600">{w.status.toLowerCase()}</span>
+                                    </td>
+                                    <td className="text-right">
+                                        {canManage && w.status === 'OPEN' && (
+                                            <button onClick={() => completeWorkOrder(w)} title="Mark completed" className="p-1 text-slate-500 hover:text-emerald-600">
+                                                <FileCheck2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Invoices */}
+            <div className="space-y-2">
+                <h4 className="text-xs font-bold text-secondary-800">Invoices</h4>
+                {book.invoices.length === 0 ? (
+                    <div className="text-center py-6">
+                        <Receipt className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                        <p className="text-xs text-slate-500">No invoices raised</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Invoice</th>
+                                    <th>Client</th>
+                                    <th className="text-right">Taxable</th>
+                                    <th className="text-right">GST</th>
+                                    <th className="text-right">Total</th>
+                                    <th className="text-right">Outstanding</th>
+                                    <th>Status</th>
+                                    <th className="text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {book.invoices.map(invoice => {
+                                    const status = INVOICE_STYLES[invoice.status];
+                                    const open = invoice.status === 'ISSUED' || invoice.status === 'PARTIALLY_PAID';
+                                    return (
+                                        <tr key={invoice.id}>
+                                            <td className="text-xs">
+                                                <p className="font-mono text-secondary-900">{invoice.invoiceNumber ?? 'Draft'}</p>
+                                                {invoice.invoiceDate && (
+                                                    <p className="text-[10px] text-slate-500">
+                                                        {new Date(invoice.invoiceDate).toLocaleDateString()} · due {new Date(invoice.dueDate!).toLocaleDateString()}
+                                                    </p>
+                                                )}
+                                                {invoice.workOrder && <p className="text-[10px] text-slate-500">WO {invoice.workOrder.orderNumber}</p>}
+                                                {invoice.creditNotes.map(n => (
+                                                    <button key={n.id} onClick={() => handleDownload(n.document)} title={n.reason} className="block text-[10px] text-primary-600 hover:underline">
+                                                        {n.creditNoteNumber} · −{formatINR(n.totalINR)}
+                                                    </button>
+                                                ))}
+                                            </td>
+                                            <td className="text-xs text-secondary-900">{invoice.client.name}</td>
+                                            <td className="text-xs text-slate-600 text-right">{formatINR(invoice.taxableINR)}</td>
+                                            <td className="text-[11px] text-slate-600 text-right">
+                                                {invoice.igstINR > 0
+                                                    ? <span title={`IGST @ ${invoice.gstRate}%`}>{formatINR(invoice.igstINR)} IGST</span>
+                                                    : <span title={`CGST + SGST @ ${invoice.gstRate / 2}% each`}>{formatINR(invoice.cgstINR + invoice.sgstINR)} C+SGST</span>}
+                                            </td>
+                                            <td className="text-xs font-bold text-secondary-900 text-right">{formatINR(invoice.totalINR)}</td>
+                                            <td className="text-xs text-right">
+                                                <p className="font-bold text-secondary-900">{formatINR(invoice.outstandingINR)}</p>
+                                                {invoice.tdsINR > 0 && <p className="text-[10px] text-slate-500">TDS {formatINR(invoice.tdsINR)}</p>}
+                                            </td>
+                                            <td>
+                                                <span className={`glass-pill text-[10px] ${status.className}`}>{status.label}</span>
+                                            </td>
+                                            <td>
+                                                <div className="flex items-center justify-end gap-1.5">
+                                                    {invoice.status === 'DRAFT' && canManage && (
+                                                        <>
+                                                            <button onClick={() => openModal('invoice', invoice)} title="Edit draft" className="p-1 text-slate-500 hover:text-primary-600">
+                                                                <Pencil className="w-3.5 h-3.5" />
+                                                            </button>
+                                                            <button onClick={() => handleDeleteDraft(invoice)} title="Delete draft" className="p-1 text-slate-500 hover:text-rose-600">
+                                                                <Trash2 className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        </>
+                                                    )}
+                                                    {invoice.status === 'DRAFT' && isFinance && (
+                                                        <button onClick={() => openAction({ kind: 'issue', invoice })} className="btn-primary-glossy text-[10px]">
+                                                            <Send className="w-3 h-3" />
+                                                            <span>Issue</span>
+                                                        </button>
+                                                    )}
+                                                    {open && isFinance && (
+                                                        <>
+                                                            <button onClick={() => openAction({ kind: 'payment', invoice })} title="Record payment" className="p-1 text-slate-500 hover:text-emerald-600">
+                                                                <Banknote className="w-3.5 h-3.5" />
+                                                            </button>
+                                                            <button onClick={() => openAction({ kind: 'credit', invoice })} title="Issue credit note" className="p-1 text-slate-500 hover:text-amber-600">
+                                                                <FileMinus className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        </>
+                                                    )}
+                                                    {invoice.document && (
+                                                        <button onClick={() => handleDownload(invoice.document!)} title="Download invoice" className="p-1 text-slate-500 hover:text-primary-600">
+                                                            <Download className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* New quotation */}
+            {modal === 'quotation' && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">New Quotation</h3>
+                            <button onClick={() => setModal(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleQuotation} className="space-y-3 text-xs">
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Client *</label>
+                                <select required value={quotationForm.clientId} onChange={(e) => setQuotationForm({ ...quotationForm, clientId: e.target.value })} className="glass-input text-xs">
+                                    {clientOptions(quotationForm.clientId)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Work *</label>
+                                <input type="text" required value={quotationForm.title} onChange={(e) => setQuotationForm({ ...quotationForm, title: e.target.value })} placeholder="e.g. Proof load testing of ROB girders" className="glass-input text-xs" />
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Scope</label>
+                                <textarea rows={3} value={quotationForm.scope} onChange={(e) => setQuotationForm({ ...quotationForm, scope: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Amount before GST (₹) *</label>
+                                    <input type="number" required min="0" step="0.01" value={quotationForm.amountINR} onChange={(e) => setQuotationForm({ ...quotationForm, amountINR: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Valid Until</label>
+                                    <input type="date" value={quotationForm.validUntil} onChange={(e) => setQuotationForm({ ...quotationForm, validUntil: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setModal(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Quotation'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Client's work order */}
+            {modal === 'workOrder' && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Record Work Order</h3>
+                            <button onClick={() => setModal(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleWorkOrder} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Client *</label>
+                                    <select required value={workOrderForm.clientId} onChange={(e) => setWorkOrderForm({ ...workOrderForm, clientId: e.target.value, quotationId: '' })} className="glass-input text-xs">
+                                        {clientOptions(workOrderForm.clientId)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Against Quotation</label>
+                                    <select value={workOrderForm.quotationId} onChange={(e) => setWorkOrderForm({ ...workOrderForm, quotationId: e.target.value })} className="glass-input text-xs">
+                                        <option value="">None</option>
+                                        {book.quotations
+                                            .filter(q => q.client.id === workOrderForm.clientId && q.status !== 'DECLINED')
+                                            .map(q => (
+                                                <option key={q.id} value={q.id}>{q.quotationNumber} · {formatINR(q.amountINR)}</option>
+                                            ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Client's WO / PO No. *</label>
+                                    <input type="text" required value={workOrderForm.orderNumber} onChange={(e) => setWorkOrderForm({ ...workOrderForm, orderNumber: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Dated *</label>
+                                    <input type="date" required value={workOrderForm.orderDate} onChange={(e) => setWorkOrderForm({ ...workOrderForm, orderDate: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Value before GST (₹) *</label>
+                                    <input type="number" required min="0" step="0.01" value={workOrderForm.valueINR} onChange={(e) => setWorkOrderForm({ ...workOrderForm, valueINR: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Notes</label>
+                                <textarea rows={2} value={workOrderForm.notes} onChange={(e) => setWorkOrderForm({ ...workOrderForm, notes: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setModal(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Work Order'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* New or edited draft invoice */}
+            {modal === 'invoice' && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-2xl p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200 max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{editing ? 'Edit Draft Invoice' : 'Draft Invoice'}</h3>
+                            <button onClick={() => setModal(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleInvoice} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Client *</label>
+                                    <select required value={invoiceForm.clientId} onChange={(e) => setInvoiceForm({ ...invoiceForm, clientId: e.target.value, workOrderId: '' })} className="glass-input text-xs">
+                                        {clientOptions(invoiceForm.clientId)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Work Order</label>
+                                    <select value={invoiceForm.workOrderId} onChange={(e) => setInvoiceForm({ ...invoiceForm, workOrderId: e.target.value })} className="glass-input text-xs">
+                                        <option value="">None</option>
+                                        {openOrders.filter(w => w.client.id === invoiceForm.clientId).map(w => (
+                                            <option key={w.id} value={w.id}>{w.orderNumber} · {formatINR(w.valueINR - w.invoicedINR)} left</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">GST Rate (%)</label>
+                                    <input type="number" required min="0" max="28" step="0.01" value={invoiceForm.gstRate} onChange={(e) => setInvoiceForm({ ...invoiceForm, gstRate: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="block font-bold text-secondary-800">Lines *</label>
+                                {invoiceForm.lines.map((line, index) => (
+                                    <div key={index} className="flex items-start gap-2 p-2 rounded-xl bg-slate-50">
+                                        <div className="flex-1 grid grid-cols-6 gap-2">
+                                            <input type="text" required value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} placeholder="Description" className="glass-input text-xs col-span-3" />
+                                            <input type="text" value={line.sac} onChange={(e) => updateLine(index, { sac: e.target.value })} placeholder="SAC" className="glass-input text-xs" />
+                                            <input type="number" required min="0" step="0.01" value={line.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} placeholder="Qty" className="glass-input text-xs" />
+                                            <input type="number" required min="0" step="0.01" value={line.rate} onChange={(e) => updateLine(index, { rate: e.target.value })} placeholder="Rate" className="glass-input text-xs" />
+                                        </div>
+                                        {invoiceForm.lines.length > 1 && (
+                                            <button type="button" onClick={() => setInvoiceForm({ ...invoiceForm, lines: invoiceForm.lines.filter((_, i) => i !== index) })} className="p-1 pt-2 text-slate-400 hover:text-rose-600">
+                                                <X className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => setInvoiceForm({ ...invoiceForm, lines: [...invoiceForm.lines, emptyLine] })} className="btn-secondary-glossy text-[10px]">
+                                    <Plus className="w-3 h-3" />
+                                    <span>Add Line</span>
+                                </button>
+                            </div>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Notes</label>
+                                <textarea rows={2} value={invoiceForm.notes} onChange={(e) => setInvoiceForm({ ...invoiceForm, notes: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <p className="text-[11px] text-slate-500">
+                                Taxable value {formatINR(draftTaxable)}. CGST and SGST apply when the client is in the institute's state, IGST otherwise;
+                                finance assigns the invoice number when issuing it. Lines without a SAC use the institute's default.
+                            </p>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setModal(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Draft'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Issue, payment or credit note */}
+            {pending && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{actionTitle}</h3>
+                            <button onClick={() => setPending(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleAction} className="space-y-3 text-xs">
+                            <p className="text-slate-600">
+                                {pending.invoice.invoiceNumber ?? 'Draft'} · {pending.invoice.client.name} ·{' '}
+                                <span className="font-bold">
+                                    {pending.kind === 'issue' ? formatINR(pending.invoice.totalINR) : `${formatINR(pending.invoice.outstandingINR)} outstanding`}
+                                </span>
+                            </p>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">
+                                    {pending.kind === 'issue' ? 'Invoice Date' : pending.kind === 'payment' ? 'Received On' : 'Credit Note Date'} *
+                                </label>
+                                <input type="date" required max={today()} value={actionForm.date} onChange={(e) => setActionForm({ ...actionForm, date: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            {pending.kind === 'payment' && (
+                                <>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className="block font-bold text-secondary-800 mb-1">Amount Received (₹) *</label>
+                                            <input type="number" required min="0" step="0.01" value={actionForm.amount} onChange={(e) => setActionForm({ ...actionForm, amount: e.target.value })} className="glass-input text-xs" />
+                                        </div>
+                                        <div>
+                                            <label className="block font-bold text-secondary-800 mb-1">UTR / Cheque No.</label>
+                                            <input type="text" value={actionForm.note} onChange={(e) => setActionForm({ ...actionForm, note: e.target.value })} className="glass-input text-xs" />
+                                        </div>
+                                        <div>
+                                            <label className="block font-bold text-secondary-800 mb-1">TDS Deducted (₹)</label>
+                                            <input type="number" min="0" step="0.01" value={actionForm.tds} onChange={(e) => setActionForm({ ...actionForm, tds: e.target.value })} className="glass-input text-xs" />
+                                        </div>
+                                        <div>
+                                            <label className="block font-bold text-secondary-800 mb-1">TDS Section</label>
+                                            <input type="text" value={actionForm.tdsSection} onChange={(e) => setActionForm({ ...actionForm, tdsSection: e.target.value })} className="glass-input text-xs" />
+                                        </div>
+                                    </div>
+                                    <p className="text-[11px] text-slate-500">
+                                        The amount received is posted to the project as a receipt; TDS settles the invoice and is tracked until the client's certificate arrives.
+                                    </p>
+                                </>
+                            )}
+                            {pending.kind === 'credit' && (
+                                <>
+                                    <div>
+                                        <label className="block font-bold text-secondary-800 mb-1">Taxable Value to Credit (₹) *</label>
+                                        <input type="number" required min="0" step="0.01" value={actionForm.amount} onChange={(e) => setActionForm({ ...actionForm, amount: e.target.value })} className="glass-input text-xs" />
+                                        <p className="text-[10px] text-slate-500 mt-1">GST is reversed at the invoice's {pending.invoice.gstRate}%.</p>
+                                    </div>
+                                    <div>
+                                        <label className="block font-bold text-secondary-800 mb-1">Reason *</label>
+                                        <input type="text" required minLength={3} value={actionForm.note} onChange={(e) => setActionForm({ ...actionForm, note: e.target.value })} className="glass-input text-xs" />
+                                    </div>
+                                </>
+                            )}
+                            {pending.kind === 'issue' && (
+                                <p className="text-[11px] text-slate-500">
+                                    Issuing assigns the next invoice number, recomputes GST from the client's state and files the invoice PDF. Issued invoices can only be corrected with a credit note.
+                                </p>
+                            )}
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setPending(null)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : actionTitle}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
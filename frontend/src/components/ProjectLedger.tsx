@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { BookOpen } from 'lucide-react';
+
+type LedgerAccount = 'FUNDING' | 'BUDGET' | 'COMMITTED' | 'EXPENDITURE' | 'SPONSOR' | 'CASH';
+
+interface HeadBalance {
+    fiscalYear: string;
+    category: string;
+    allocatedINR: number;
+    availableINR: number;
+    committedINR: number;
+    spentINR: number;
+}
+
+interface LedgerTransaction {
+    id: string;
+    type: string;
+    fiscalYear: string;
+    description: string;
+    createdAt: string;
+    createdBy?: { firstName: string; lastName: string } | null;
+    entries: Array<{
+        id: string;
+        projectId: string | null;
+        project?: { code: string } | null;
+        category: string | null;
+        account: LedgerAccount;
+        amountINR: number;
+    }>;
+}
+
+interface LedgerResponse {
+    heads: HeadBalance[];
+    totals: { allocatedINR: number; availableINR: number; committedINR: number; spentINR: number; receivedINR: number };
+    transactions: LedgerTransaction[];
+}
+
+interface ProjectLedgerProps {
+    projectId: string;
+    // Changes when the project's finances change, to refetch
+    refreshKey?: unknown;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+    OPENING_BALANCE: 'Opening balance',
+    ALLOCATION: 'Allocation',
+    TRANSFER: 'Transfer',
+    COMMITMENT: 'Commitment',
+    COMMITMENT_RELEASE: 'Commitment released',
+    EXPENSE: 'Expense',
+    RECEIPT: 'Receipt',
+};
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export default function ProjectLedger({ projectId, refreshKey }: ProjectLedgerProps) {
+    const { accessToken } = useAuthStore();
+    const [ledger, setLedger] = useState<LedgerResponse | null>(null);
+    const [fiscalYear, setFiscalYear] = useState('');
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchLedger();
+    }, [projectId, fiscalYear, refreshKey]);
+
+    const fetchLedger = async () => {
+        try {
+            const query = fiscalYear ? `?fiscalYear=${fiscalYear}` : '';
+            const res = await fetch(`/api/finance/projects/${projectId}/ledger${query}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setLedger(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch ledger:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // The project's own legs; the institute pool and other projects show as the counterparty
+    const projectLegs = (t: LedgerTransaction) => t.entries.filter(e => e.projectId === projectId && ['BUDGET', 'COMMITTED', 'EXPENDITURE', 'CASH'].includes(e.account));
+
+    const fiscalYears = Array.from(new Set(ledger?.heads.map(h => h.fiscalYear) ?? []));
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Budget Ledger</h3>
+                    <p className="text-[11px] text-slate-500">Balances derived from allocations, transfers, commitments, expenses and receipts</p>
+                </div>
+                <select value={fiscalYear} onChange={(e) => setFiscalYear(e.target.value)} className="glass-input text-xs sm:w-40">
+                    <option value="">All fiscal years</option>
+                    {fiscalYears.map(fy => <option key={fy} value={fy}>FY {fy}</option>)}
+                </select>
+            </div>
+
+            {loading ? (
+                <p className="text-xs text-slate-400 py-6 text-center">Loading ledger...</p>
+            ) : !ledger || ledger.transactions.length === 0 ? (
+                <div className="text-center py-8">
+                    <BookOpen className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                    <p className="text-xs text-slate-500">No ledger entries for this project yet</p>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+                        {[
+                            { label: 'Allocated', value: ledger.totals.allocatedINR },
+                            { label: 'Committed', value: ledger.totals.committedINR },
+                            { label: 'Spent', value: ledger.totals.spentINR },
+                            { label: 'Available', value: ledger.totals.availableINR },
+                            { label: 'Received', value: ledger.totals.receivedINR },
+                        ].map(card => (
+                            <div key={card.label} className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                                <p className="text-[10px] font-bold uppercase text-slate-500">{card.label}</p>
+                                <p className={`text-sm font-bold ${card.value < 0 ? 'text-rose-600' : 'text-secondary-900'}`}>{formatINR(card.value)}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>FY</th>
+                                    <th>Budget Head</th>
+                                    <th className="text-right">Allocated</th>
+                                    <th className="text-right">Committed</th>
+                                    <th className="text-right">Spent</th>
+                                    <th className="text-right">Available</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ledger.heads.map(h => (
+                                    <tr key={`${h.fiscalYear}:${h.category}`}>
+                                        <td className="text-xs text-slate-600">{h.fiscalYear}</td>
+                                        <td className="text-xs font-bold text-secondary-900">{h.category}</td>
+                                        <td className="text-right text-xs text-slate-600">{formatINR(h.allocatedINR)}</td>
+                                        <td className="text-right text-xs text-slate-600">{formatINR(h.committedINR)}</td>
+                                        <td className="text-right text-xs text-slate-600">{formatINR(h.spentINR)}</td>
+                                        <td className={`text-right text-xs font-bold ${h.availableINR < 0 ? 'text-rose-600' : 'text-secondary-900'}`}>{formatINR(h.availableINR)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Date</th>
+                                    <th>Type</th>
+                                    <th>Description</th>
+                                    <th>Entries</th>
+                                    <th>By</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ledger.transactions.map(t => (
+                                    <tr key={t.id}>
+                                        <td className="text-xs text-slate-600 whitespace-nowrap">{new Date(t.createdAt).toLocaleDateString()}</td>
+                                        <td>
+                                            <span className="glass-pill text-[10px] bg-slate-100 text-slate-700">{TYPE_LABELS[t.type] ?? t.type}</span>
+                                        </td>
+                                        <td className="text-xs text-secondary-900">{t.description}</td>
+                                        <td className="text-[11px] text-slate-600">
+                                            {projectLegs(t).map(e => (
+                                                <p key={e.id}>
+                                                    {e.account}{e.category ? ` · ${e.category}` : ''}:{' '}
+                                                    <span className={e.amountINR < 0 ? 'text-rose-600' : 'text-emerald-600'}>
+                                                        {e.amountINR > 0 ? '+' : ''}{formatINR(e.amountINR)}
+                                                    </span>
+                                                </p>
+                                            ))}
+                                        </td>
+                                        <td className="text-xs text-slate-600">{t.createdBy ? `${t.createdBy.firstName} ${t.createdBy.lastName}` : '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,452 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import { Plus, X, ShoppingCart, FileCheck2, Ban, Lock } from 'lucide-react';
+
+type IndentStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'ORDERED' | 'REJECTED' | 'CANCELLED';
+type OrderStatus = 'OPEN' | 'CLOSED' | 'CANCELLED';
+
+interface Indent {
+    id: string;
+    indentNumber: string;
+    fiscalYear: string;
+    category: string;
+    description: string;
+    vendor?: string | null;
+    estimatedINR: number;
+    status: IndentStatus;
+    comments?: string | null;
+    createdAt: string;
+    requestedBy: { id: string; firstName: string; lastName: string };
+    purchaseOrders: Array<{ id: string; poNumber: string; status: OrderStatus }>;
+}
+
+interface PurchaseOrder {
+    id: string;
+    poNumber: string;
+    category: string;
+    vendor: string;
+    amountINR: number;
+    invoicedINR: number;
+    status: OrderStatus;
+    issuedAt: string;
+    indent: { indentNumber: string };
+}
+
+interface ProjectProcurementProps {
+    projectId: string;
+    canManage: boolean;
+    canContribute: boolean;
+    // Changes when the project's finances change, to refetch
+    refreshKey?: unknown;
+    onChange?: () => void;
+}
+
+// An action that needs input before it is sent
+type PendingAction =
+    | { kind: 'cancel-indent'; indent: Indent }
+    | { kind: 'issue-order'; indent: Indent }
+    | { kind: 'close-order' | 'cancel-order'; order: PurchaseOrder };
+
+const INDENT_STYLES: Record<IndentStatus, { label: string; className: string }> = {
+    PENDING_APPROVAL: { label: 'Pending approval', className: 'bg-amber-50 text-amber-700' },
+    APPROVED: { label: 'Committed', className: 'bg-sky-50 text-sky-700' },
+    ORDERED: { label: 'Ordered', className: 'bg-emerald-50 text-emerald-700' },
+    REJECTED: { label: 'Rejected', className: 'bg-rose-50 text-rose-700' },
+    CANCELLED: { label: 'Cancelled', className: 'bg-slate-100 text-slate-500' },
+};
+
+const ORDER_STYLES: Record<OrderStatus, string> = {
+    OPEN: 'bg-sky-50 text-sky-700',
+    CLOSED: 'bg-emerald-50 text-emerald-700',
+    CANCELLED: 'bg-slate-100 text-slate-500',
+};
+
+const emptyIndent = { category: 'EQUIPMENT', description: '', justification: '', vendor: '', estimatedINR: '' };
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export default function ProjectProcurement({ projectId, canManage, canContribute, refreshKey, onChange }: ProjectProcurementProps) {
+    const { accessToken, user } = useAuthStore();
+    const { hasPermission } = useRBAC();
+    const [indents, setIndents] = useState<Indent[]>([]);
+    const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+    const [showIndentModal, setShowIndentModal] = useState(false);
+    const [indentForm, setIndentForm] = useState(emptyIndent);
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [actionForm, setActionForm] = useState({ note: '', poNumber: '', vendor: '', amountINR: '' });
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const canOrder = hasPermission('finance', 'manage');
+
+    useEffect(() => {
+        fetchProcurement();
+    }, [projectId, refreshKey]);
+
+    const fetchProcurement = async () => {
+        try {
+            const headers = { Authorization: `Bearer ${accessToken}` };
+            const [indentsRes, ordersRes] = await Promise.all([
+                fetch(`/api/finance/projects/${projectId}/indents`, { headers }),
+                fetch(`/api/finance/projects/${projectId}/purchase-orders`, { headers }),
+            ]);
+            if (indentsRes.ok) setIndents(await indentsRes.json());
+            if (ordersRes.ok) setOrders(await ordersRes.json());
+        } catch (err) {
+            console.error('Failed to fetch procurement:', err);
+        }
+    };
+
+    // The parent refetches the project, which changes refreshKey
+    const changed = () => (onChange ? onChange() : fetchProcurement());
+
+    const send = async (url: string, body: unknown) => {
+        setError('');
+        try {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify(body),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Request failed');
+                return false;
+            }
+            changed();
+            return true;
+        } catch (err) {
+            setError('Request failed');
+            return false;
+        }
+    };
+
+    const handleRaiseIndent = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        const ok = await send(`/api/finance/projects/${projectId}/indents`, {
+            category: indentForm.category,
+            description: indentForm.description,
+            justification: indentForm.justification || undefined,
+            vendor: indentForm.vendor || undefined,
+            estimatedINR: parseFloat(indentForm.estimatedINR),
+        });
+        setSaving(false);
+        if (ok) {
+            setShowIndentModal(false);
+            setIndentForm(emptyIndent);
+        }
+    };
+
+    const openAction = (action: PendingAction) => {
+        setActionForm({
+            note: '',
+            poNumber: '',
+            vendor: action.kind === 'issue-order' ? action.indent.vendor ?? '' : '',
+            amountINR: action.kind === 'issue-order' ? String(action.indent.estimatedINR) : '',
+        });
+        setPending(action);
+    };
+
+    const handleAction = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pending) return;
+        setSaving(true);
+        let ok = false;
+        if (pending.kind === 'cancel-indent') {
+            ok = await send(`/api/finance/indents/${pending.indent.id}/cancel`, { reason: actionForm.note });
+        } else if (pending.kind === 'issue-order') {
+            ok = await send(`/api/finance/indents/${pending.indent.id}/purchase-orders`, {
+                poNumber: actionForm.poNumber,
+                vendor: actionForm.vendor,
+                amountINR: parseFloat(actionForm.amountINR),
+            });
+        } else if (pending.kind === 'close-order') {
+            ok = await send(`/api/finance/purchase-orders/${pending.order.id}/close`, { comments: actionForm.note || undefined });
+        } else {
+            ok = await send(`/api/finance/purchase-orders/${pending.order.id}/cancel`, { reason: actionForm.note });
+        }
+        setSaving(false);
+        if (ok) setPending(null);
+    };
+
+    const committedINR =
+        indents.filter(i => i.status === 'APPROVED').reduce((sum, i) => sum + i.estimatedINR, 0) +
+        orders.filter(o => o.status === 'OPEN').reduce((sum, o) => sum + Math.max(o.amountINR - o.invoicedINR, 0), 0);
+
+    const actionTitle = pending && {
+        'cancel-indent': 'Cancel Indent',
+        'issue-order': 'Issue Purchase Order',
+        'close-order': 'Close Purchase Order',
+        'cancel-order': 'Cancel Purchase Order',
+    }[pending.kind];
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Indents & Purchase Orders</h3>
+                    <p className="text-[11px] text-slate-500">{formatINR(committedINR)} committed and not yet invoiced</p>
+                </div>
+                {canContribute && (
+                    <button onClick={() => setShowIndentModal(true)} className="btn-primary-glossy text-xs">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Raise Indent</span>
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+
+            {indents.length === 0 ? (
+                <div className="text-center py-8">
+                    <ShoppingCart className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                    <p className="text-xs text-slate-500">No indents raised for this project yet</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Indent</th>
+                                <th>Description</th>
+                                <th>Budget Head</th>
+                                <th className="text-right">Estimate</th>
+                                <th>Status</th>
+                                <th className="text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {indents.map(indent => {
+                                const status = INDENT_STYLES[indent.status];
+                                const canCancel = ['PENDING_APPROVAL', 'APPROVED'].includes(indent.status) && (canManage || indent.requestedBy.id === user?.id);
+                                return (
+                                    <tr key={indent.id}>
+                                        <td className="font-mono text-[11px] font-bold text-primary-600 whitespace-nowrap">{indent.indentNumber}</td>
+                                        <td className="text-xs">
+                                            <p className="font-medium text-secondary-900">{indent.description}</p>
+                                            <p className="text-[10px] text-slate-500">
+                                                {indent.requestedBy.firstName} {indent.requestedBy.lastName} · {new Date(indent.createdAt).toLocaleDateString()}
+                                                {indent.purchaseOrders.length > 0 && ` · PO ${indent.purchaseOrders.map(o => o.poNumber).join(', ')}`}
+                                            </p>
+                                            {indent.comments && <p className="text-[10px] text-slate-500 italic">{indent.comments}</p>}
+                                        </td>
+                                        <td className="text-xs text-slate-600">
+                                            {indent.category} <span className="text-slate-400">· FY {indent.fiscalYear}</span>
+                                        </td>
+                                        <td className="text-xs font-bold text-secondary-900 text-right">{formatINR(indent.estimatedINR)}</td>
+                                        <td>
+                                            <span className={`glass-pill text-[10px] ${status.className}`}>{status.label}</span>
+                                        </td>
+                                        <td className="text-right">
+                                            <div className="flex items-center justify-end gap-1.5">
+                                                {indent.status === 'APPROVED' && canOrder && (
+                                                    <button onClick={() => openAction({ kind: 'issue-order', indent })} className="btn-primary-glossy text-[10px]">
+                                                        <FileCheck2 className="w-3 h-3" />
+                                                        <span>Issue PO</span>
+                                                    </button>
+                                                )}
+                                                {canCancel && (
+                                                    <button onClick={() => openAction({ kind: 'cancel-indent', indent })} title="Cancel indent" className="p-1 text-slate-500 hover:text-rose-600">
+                                                        <Ban className="w-3.5 h-3.5" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {orders.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>PO Number</th>
+                                <th>Vendor</th>
+                                <th>Budget Head</th>
+                                <th className="text-right">Ordered</th>
+                                <th className="text-right">Invoiced</th>
+                                <th className="text-right">Outstanding</th>
+                                <th>Status</th>
+                                <th className="text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {orders.map(order => (
+                                <tr key={order.id}>
+                                    <td className="text-xs">
+                                        <p className="font-mono font-bold text-primary-600">{order.poNumber}</p>
+                                        <p className="text-[10px] text-slate-500">{order.indent.indentNumber} · {new Date(order.issuedAt).toLocaleDateString()}</p>
+                                    </td>
+                                    <td className="text-xs text-secondary-900">{order.vendor}</td>
+                                    <td className="text-xs text-slate-600">{order.category}</td>
+                                    <td className="text-xs text-right text-slate-600">{formatINR(order.amountINR)}</td>
+                                    <td className="text-xs text-right text-slate-600">{formatINR(order.invoicedINR)}</td>
+                                    <td className="text-xs text-right font-bold text-secondary-900">
+                                        {order.status === 'OPEN' ? formatINR(Math.max(order.amountINR - order.invoicedINR, 0)) : '—'}
+                                    </td>
+                                    <td>
+                                        <span className={`glass-pill text-[10px] ${ORDER_STYLES[order.status]}`}>{order.status.toLowerCase()}</span>
+                                    </td>
+                                    <td className="text-right">
+                                        {order.status === 'OPEN' && canOrder && (
+                                            <div className="flex items-center justify-end gap-1.5">
+                                                <button onClick={() => openAction({ kind: 'close-order', order })} title="Close and release the balance" className="p-1 text-slate-500 hover:text-primary-600">
+                                                    <Lock className="w-3.5 h-3.5" />
+                                                </button>
+                                                {order.invoicedINR === 0 && (
+                                                    <button onClick={() => openAction({ kind: 'cancel-order', order })} title="Cancel order" className="p-1 text-slate-500 hover:text-rose-600">
+                                                        <Ban className="w-3.5 h-3.5" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Raise Indent Modal */}
+            {showIndentModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Raise Purchase Indent</h3>
+                            <button onClick={() => setShowIndentModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleRaiseIndent} className="space-y-3 text-xs">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Budget Head *</label>
+                                    <select value={indentForm.category} onChange={(e) => setIndentForm({ ...indentForm, category: e.target.value })} className="glass-input text-xs">
+                                        <option value="EQUIPMENT">Equipment & Hardware</option>
+                                        <option value="CONSUMABLES">Consumables & Materials</option>
+                                        <option value="TRAVEL">Field Testing & Travel</option>
+                                        <option value="CONTINGENCY">Contingency</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Estimated Cost (₹) *</label>
+                                    <input
+                                        type="number"
+                                        required
+                                        min="1"
+                                        value={indentForm.estimatedINR}
+                                        onChange={(e) => setIndentForm({ ...indentForm, estimatedINR: e.target.value })}
+                                        className="glass-input text-xs"
+                                    />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Item Description *</label>
+                                <input
+                                    type="text"
+                                    required
+                                    value={indentForm.description}
+                                    onChange={(e) => setIndentForm({ ...indentForm, description: e.target.value })}
+                                    placeholder="e.g. 16-channel data acquisition system"
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Suggested Vendor</label>
+                                <input type="text" value={indentForm.vendor} onChange={(e) => setIndentForm({ ...indentForm, vendor: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Justification</label>
+                                <textarea rows={3} value={indentForm.justification} onChange={(e) => setIndentForm({ ...indentForm, justification: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <p className="text-[11px] text-slate-500">The estimate is committed against the budget head once the indent is approved.</p>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowIndentModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Submitting...' : 'Submit Indent'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Issue / Close / Cancel Modal */}
+            {pending && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{actionTitle}</h3>
+                            <button onClick={() => setPending(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleAction} className="space-y-3 text-xs">
+                            {pending.kind === 'issue-order' ? (
+                                <>
+                                    <p className="text-slate-600">
+                                        {pending.indent.indentNumber} · estimate <span className="font-bold">{formatINR(pending.indent.estimatedINR)}</span>
+                                    </p>
+                                    <div>
+                                        <label className="block font-bold text-secondary-800 mb-1">PO Number *</label>
+                                        <input type="text" required value={actionForm.poNumber} onChange={(e) => setActionForm({ ...actionForm, poNumber: e.target.value })} className="glass-input text-xs" />
+                                    </div>
+                                    <div>
+                                        <label className="block font-bold text-secondary-800 mb-1">Vendor *</label>
+                                        <input type="text" required value={actionForm.vendor} onChange={(e) => setActionForm({ ...actionForm, vendor: e.target.value })} className="glass-input text-xs" />
+                                    </div>
+                                    <div>
+                                        <label className="block font-bold text-secondary-800 mb-1">Order Value (₹) *</label>
+                                        <input type="number" required min="1" value={actionForm.amountINR} onChange={(e) => setActionForm({ ...actionForm, amountINR: e.target.value })} className="glass-input text-xs" />
+                                    </div>
+                                    <p className="text-[11px] text-slate-500">The order value replaces the indent estimate as the commitment.</p>
+                                </>
+                            ) : (
+                                <>
+                                    {pending.kind === 'close-order' && (
+                                        <p className="text-[11px] text-slate-500">
+                                            The uninvoiced balance of {formatINR(Math.max(pending.order.amountINR - pending.order.invoicedINR, 0))} is released back to the budget head.
+                                        </p>
+                                    )}
+                                    {pending.kind === 'cancel-order' && (
+                                        <p className="text-[11px] text-slate-500">The order is released and its indent returns to committed, ready to be ordered again or cancelled.</p>
+                                    )}
+                                    <div>
+                                        <label className="block font-bold text-secondary-800 mb-1">{pending.kind === 'close-order' ? 'Comments' : 'Reason *'}</label>
+                                        <textarea
+                                            rows={3}
+                                            required={pending.kind !== 'close-order'}
+                                            minLength={pending.kind !== 'close-order' ? 3 : undefined}
+                                            value={actionForm.note}
+                                            onChange={(e) => setActionForm({ ...actionForm, note: e.target.value })}
+                                            className="glass-input text-xs"
+                                        />
+                                    </div>
+                                </>
+                            )}
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setPending(null)} className="btn-secondary-glossy text-xs">Back</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : actionTitle}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
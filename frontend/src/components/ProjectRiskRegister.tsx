@@ -0,0 +1,415 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { Plus, X, Edit3, Archive, History, ShieldAlert } from 'lucide-react';
+
+interface Risk {
+    id: string;
+    title: string;
+    description?: string;
+    category?: string;
+    likelihood: number;
+    impact: number;
+    score: number;
+    mitigation?: string;
+    status: 'OPEN' | 'MITIGATING' | 'ACCEPTED' | 'CLOSED';
+    reviewDate?: string;
+    ownerId?: string;
+    owner?: { id: string; firstName: string; lastName: string };
+}
+
+interface RiskHistoryEntry {
+    id: string;
+    action: string;
+    likelihood: number;
+    impact: number;
+    status: string;
+    changes?: Record<string, { from: unknown; to: unknown }>;
+    remarks?: string;
+    createdAt: string;
+    changedBy: { firstName: string; lastName: string };
+}
+
+interface ProjectRiskRegisterProps {
+    projectId: string;
+    canEdit: boolean;
+    members: Array<{ id: string; firstName: string; lastName: string }>;
+}
+
+const LIKELIHOOD_LABELS = ['Very Low', 'Low', 'Medium', 'High', 'Very High'];
+const IMPACT_LABELS = ['Negligible', 'Minor', 'Moderate', 'Major', 'Catastrophic'];
+
+const riskSeverity = (score: number) => {
+    if (score >= 15) return { label: 'Critical', className: 'bg-rose-50 text-rose-700 border-rose-200' };
+    if (score >= 10) return { label: 'High', className: 'bg-orange-50 text-orange-700 border-orange-200' };
+    if (score >= 5) return { label: 'Medium', className: 'bg-amber-50 text-amber-700 border-amber-200' };
+    return { label: 'Low', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' };
+};
+
+const emptyForm = {
+    title: '',
+    description: '',
+    category: 'Technical',
+    likelihood: 3,
+    impact: 3,
+    ownerId: '',
+    mitigation: '',
+    status: 'OPEN' as Risk['status'],
+    reviewDate: '',
+    remarks: '',
+};
+
+export default function ProjectRiskRegister({ projectId, canEdit, members }: ProjectRiskRegisterProps) {
+    const { accessToken } = useAuthStore();
+    const [risks, setRisks] = useState<Risk[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [editing, setEditing] = useState<Risk | null>(null);
+    const [form, setForm] = useState(emptyForm);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [historyFor, setHistoryFor] = useState<Risk | null>(null);
+    const [history, setHistory] = useState<RiskHistoryEntry[]>([]);
+
+    useEffect(() => {
+        fetchRisks();
+    }, [projectId]);
+
+    const fetchRisks = async () => {
+        try {
+            const res = await fetch(`/api/projects/${projectId}/risks`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setRisks(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch risks:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openCreate = () => {
+        setEditing(null);
+        setForm(emptyForm);
+        setError('');
+        setShowModal(true);
+    };
+
+    const openEdit = (risk: Risk) => {
+        setEditing(risk);
+        setForm({
+            title: risk.title,
+            description: risk.description || '',
+            category: risk.category || 'Technical',
+            likelihood: risk.likelihood,
+            impact: risk.impact,
+            ownerId: risk.ownerId || '',
+            mitigation: risk.mitigation || '',
+            status: risk.status,
+            reviewDate: risk.reviewDate ? risk.reviewDate.split('T')[0] : '',
+            remarks: '',
+        });
+        setError('');
+        setShowModal(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+
+        const { remarks, ...fields } = form;
+        const body = {
+            ...fields,
+            ownerId: fields.ownerId || null,
+            reviewDate: fields.reviewDate || null,
+            ...(editing && remarks ? { remarks } : {}),
+        };
+
+        try {
+            const res = await fetch(
+                editing ? `/api/projects/${projectId}/risks/${editing.id}` : `/api/projects/${projectId}/risks`,
+                {
+                    method: editing ? 'PUT' : 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Authorization: `Bearer ${accessToken}`,
+                    },
+                    body: JSON.stringify(body),
+                }
+            );
+            if (res.ok) {
+                setShowModal(false);
+                fetchRisks();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to save risk');
+            }
+        } catch (err) {
+            setError('Failed to save risk');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // The register keeps every risk; removing one closes it, with the history kept
+    const handleClose = async (risk: Risk) => {
+        if (!confirm(`Close risk "${risk.title}"?`)) return;
+        try {
+            const res = await fetch(`/api/projects/${projectId}/risks/${risk.id}`, {
+                method: 'DELETE',
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) fetchRisks();
+        } catch (err) {
+            console.error('Failed to close risk:', err);
+        }
+    };
+
+    const openHistory = async (risk: Risk) => {
+        setHistoryFor(risk);
+        setHistory([]);
+        try {
+            const res = await fetch(`/api/projects/${projectId}/risks/${risk.id}/history`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setHistory(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch risk history:', err);
+        }
+    };
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Risk Register</h3>
+                    <p className="text-[11px] text-slate-500">Likelihood × impact scoring with mitigation owners and review dates</p>
+                </div>
+                {canEdit && (
+                    <button onClick={openCreate} className="btn-primary-glossy text-xs">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Add Risk</span>
+                    </button>
+                )}
+            </div>
+
+            {loading ? (
+                <p className="text-xs text-slate-400 py-6 text-center">Loading risks...</p>
+            ) : risks.length === 0 ? (
+                <div className="text-center py-8">
+                    <ShieldAlert className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                    <p className="text-xs text-slate-500">No risks recorded for this project</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="table-glossy">
+                        <thead>
+                            <tr>
+                                <th>Risk</th>
+                                <th className="text-center">L × I</th>
+                                <th>Owner</th>
+                                <th>Status</th>
+                                <th>Review</th>
+                                <th className="text-right">Action</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {risks.map(risk => {
+                                const severity = riskSeverity(risk.score);
+                                const overdue = risk.reviewDate && risk.status !== 'CLOSED' && new Date(risk.reviewDate) < new Date();
+                                return (
+                                    <tr key={risk.id}>
+                                        <td>
+                                            <p className="text-xs font-bold text-secondary-900">{risk.title}</p>
+                                            {risk.mitigation && <p className="text-[11px] text-slate-500">Mitigation: {risk.mitigation}</p>}
+                                            {risk.category && <span className="text-[10px] text-slate-400">{risk.category}</span>}
+                                        </td>
+                                        <td className="text-center">
+                                            <span className={`glass-pill text-[10px] font-bold border ${severity.className}`}>
+                                                {risk.likelihood} × {risk.impact} = {risk.score}
+                                            </span>
+                                        </td>
+                                        <td className="text-xs text-slate-600">
+                                            {risk.owner ? `${risk.owner.firstName} ${risk.owner.lastName}` : '—'}
+                                        </td>
+                                        <td>
+                                            <span className="glass-pill text-[10px] bg-slate-100 text-slate-700">{risk.status}</span>
+                                        </td>
+                                        <td className={`text-xs ${overdue ? 'text-rose-600 font-bold' : 'text-slate-600'}`}>
+                                            {risk.reviewDate ? new Date(risk.reviewDate).toLocaleDateString() : '—'}
+                                        </td>
+                                        <td className="text-right whitespace-nowrap">
+                                            <button onClick={() => openHistory(risk)} className="p-1 text-slate-500 hover:text-primary-600" title="History">
+                                                <History className="w-3.5 h-3.5" />
+                                            </button>
+                                            {canEdit && (
+                                                <>
+                                                    <button onClick={() => openEdit(risk)} className="p-1 text-slate-500 hover:text-primary-600" title="Edit">
+                                                        <Edit3 className="w-3.5 h-3.5" />
+                                                    </button>
+                                                    {risk.status !== 'CLOSED' && (
+                                                        <button onClick={() => handleClose(risk)} className="p-1 text-slate-500 hover:text-rose-600" title="Close risk">
+                                                            <Archive className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    )}
+                                                </>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Add / Edit Risk Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200 max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{editing ? 'Update Risk' : 'Add Risk'}</h3>
+                            <button onClick={() => setShowModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleSubmit} className="space-y-3 text-xs">
+                            {error && <p className="p-2 bg-rose-50 text-rose-700 rounded-xl">{error}</p>}
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Risk Title *</label>
+                                <input
+                                    type="text"
+                                    required
+                                    value={form.title}
+                                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Description</label>
+                                <textarea
+                                    rows={2}
+                                    value={form.description}
+                                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Category</label>
+                                    <select value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} className="glass-input text-xs">
+                                        {['Technical', 'Financial', 'Schedule', 'Resource', 'External'].map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Likelihood</label>
+                                    <select value={form.likelihood} onChange={(e) => setForm({ ...form, likelihood: parseInt(e.target.value) })} className="glass-input text-xs">
+                                        {LIKELIHOOD_LABELS.map((l, i) => <option key={l} value={i + 1}>{i + 1} - {l}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Impact</label>
+                                    <select value={form.impact} onChange={(e) => setForm({ ...form, impact: parseInt(e.target.value) })} className="glass-input text-xs">
+                                        {IMPACT_LABELS.map((l, i) => <option key={l} value={i + 1}>{i + 1} - {l}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Owner</label>
+                                    <select value={form.ownerId} onChange={(e) => setForm({ ...form, ownerId: e.target.value })} className="glass-input text-xs">
+                                        <option value="">Unassigned</option>
+                                        {members.map(m => <option key={m.id} value={m.id}>{m.firstName} {m.lastName}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Status</label>
+                                    <select value={form.status} onChange={(e) => setForm({ ...form, status: e.target.value as Risk['status'] })} className="glass-input text-xs">
+                                        {['OPEN', 'MITIGATING', 'ACCEPTED', 'CLOSED'].map(s => <option key={s} value={s}>{s}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Next Review</label>
+                                    <input
+                                        type="date"
+                                        value={form.reviewDate}
+                                        onChange={(e) => setForm({ ...form, reviewDate: e.target.value })}
+                                        className="glass-input text-xs"
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Mitigation Plan</label>
+                                <textarea
+                                    rows={2}
+                                    value={form.mitigation}
+                                    onChange={(e) => setForm({ ...form, mitigation: e.target.value })}
+                                    className="glass-input text-xs"
+                                />
+                            </div>
+
+                            {editing && (
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Review Remarks</label>
+                                    <input
+                                        type="text"
+                                        value={form.remarks}
+                                        onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+                                        placeholder="Recorded in the risk history"
+                                        className="glass-input text-xs"
+                                    />
+                                </div>
+                            )}
+
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : editing ? 'Update Risk' : 'Add Risk'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Risk History Modal */}
+            {historyFor && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200 max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">History: {historyFor.title}</h3>
+                            <button onClick={() => setHistoryFor(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <div className="space-y-2.5">
+                            {history.map(h => (
+                                <div key={h.id} className="p-3 bg-slate-50 rounded-2xl border border-slate-100 text-xs">
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-bold text-secondary-900">{h.action.replace('_', ' ')}</span>
+                                        <span className="text-[10px] text-slate-400">{new Date(h.createdAt).toLocaleString()}</span>
+                                    </div>
+                                    <p className="text-[11px] text-slate-500">
+                                        {h.changedBy.firstName} {h.changedBy.lastName} · L{h.likelihood} × I{h.impact} · {h.status}
+                                    </p>
+                                    {h.changes && Object.entries(h.changes).map(([field, c]) => (
+                                        <p key={field} className="text-[11px] text-slate-600">
+                                            {field}: <span className="line-through text-slate-400">{String(c.from ?? '—')}</span> → {String(c.to ?? '—')}
+                                        </p>
+                                    ))}
+                                    {h.remarks && <p className="text-[11px] text-slate-600 italic mt-1">“{h.remarks}”</p>}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
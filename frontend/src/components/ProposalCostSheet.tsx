@@ -0,0 +1,375 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { Plus, X, Calculator, Pencil } from 'lucide-react';
+
+type CostHead = 'MANPOWER' | 'EQUIPMENT' | 'CONSUMABLES' | 'TRAVEL';
+
+interface CostItem {
+    head: CostHead;
+    description: string;
+    quantity: number;
+    months?: number | null;
+    unitCostINR: number;
+    fiscalYear?: string | null;
+    amountINR: number;
+}
+
+interface YearCost {
+    fiscalYear: string;
+    heads: Record<string, number>;
+    budgetINR: number;
+}
+
+interface CostSheet {
+    id: string;
+    version: number;
+    items: CostItem[];
+    contingencyPercent: number;
+    overheadPercent: number;
+    overheadExcludesEquipment: boolean;
+    gstPercent: number;
+    directINR: number;
+    contingencyINR: number;
+    overheadINR: number;
+    budgetINR: number;
+    gstINR: number;
+    totalINR: number;
+    yearly: YearCost[];
+    notes?: string | null;
+    createdBy: { firstName: string; lastName: string };
+    createdAt: string;
+}
+
+interface CostingRule {
+    overheadPercent: number;
+    overheadExcludesEquipment: boolean;
+    contingencyCapPercent: number;
+    gstPercent: number;
+}
+
+interface ProposalCostSheetProps {
+    proposalId: string;
+    startDate: string;
+    endDate: string;
+    canEdit: boolean;
+    onChange?: () => void;
+}
+
+const headLabels: Record<string, string> = {
+    MANPOWER: 'Manpower',
+    EQUIPMENT: 'Equipment',
+    CONSUMABLES: 'Consumables',
+    TRAVEL: 'Travel',
+    CONTINGENCY: 'Contingency',
+    OVERHEAD: 'Overhead',
+};
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+// April-March fiscal years the proposed period touches, e.g. "2025-26"
+const fiscalYearsBetween = (start: string, end: string) => {
+    const fiscalYear = (date: Date) => (date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1);
+    const years: string[] = [];
+    for (let year = fiscalYear(new Date(start)); year <= fiscalYear(new Date(end)); year++) {
+        years.push(`${year}-${String((year + 1) % 100).padStart(2, '0')}`);
+    }
+    return years;
+};
+
+const emptyItem = { head: 'MANPOWER' as CostHead, description: '', quantity: '1', months: '', unitCostINR: '', fiscalYear: '' };
+
+export default function ProposalCostSheet({ proposalId, startDate, endDate, canEdit, onChange }: ProposalCostSheetProps) {
+    const { accessToken } = useAuthStore();
+    const [sheets, setSheets] = useState<CostSheet[]>([]);
+    const [rule, setRule] = useState<CostingRule | null>(null);
+    const [version, setVersion] = useState<number | null>(null);
+    const [editing, setEditing] = useState(false);
+    const [form, setForm] = useState({ contingencyPercent: '0', notes: '', items: [emptyItem] });
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchSheets();
+    }, [proposalId]);
+
+    const fetchSheets = async () => {
+        try {
+            const res = await fetch(`/api/proposals/${proposalId}/cost-sheets`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const data = await res.json();
+                setSheets(data.sheets);
+                setRule(data.rule);
+                setVersion(data.sheets[0]?.version ?? null);
+            }
+        } catch (err) {
+            console.error('Failed to fetch cost sheets:', err);
+        }
+    };
+
+    const sheet = sheets.find(s => s.version === version) ?? null;
+    const years = fiscalYearsBetween(startDate, endDate);
+
+    const openEditor = () => {
+        setError('');
+        setForm(sheet ? {
+            contingencyPercent: String(sheet.contingencyPercent),
+            notes: sheet.notes ?? '',
+            items: sheet.items.map(item => ({
+                head: item.head,
+                description: item.description,
+                quantity: String(item.quantity),
+                months: item.months ? String(item.months) : '',
+                unitCostINR: String(item.unitCostINR),
+                fiscalYear: item.fiscalYear ?? '',
+            })),
+        } : { contingencyPercent: '0', notes: '', items: [emptyItem] });
+        setEditing(true);
+    };
+
+    const updateItem = (index: number, change: Partial<typeof emptyItem>) => {
+        setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...change } : item)) });
+    };
+
+    const lineAmount = (item: typeof emptyItem) =>
+        (parseFloat(item.quantity) || 0) * (parseFloat(item.unitCostINR) || 0) * (item.head === 'MANPOWER' ? parseFloat(item.months) || 0 : 1);
+    const draftDirect = form.items.reduce((sum, item) => sum + lineAmount(item), 0);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+        try {
+            const res = await fetch(`/api/proposals/${proposalId}/cost-sheets`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({
+                    contingencyPercent: parseFloat(form.contingencyPercent) || 0,
+                    notes: form.notes || null,
+                    items: form.items.map(item => ({
+                        head: item.head,
+                        description: item.description,
+                        quantity: parseFloat(item.quantity),
+                        months: item.head === 'MANPOWER' ? parseFloat(item.months) : null,
+                        unitCostINR: parseFloat(item.unitCostINR),
+                        fiscalYear: item.fiscalYear || null,
+                    })),
+                }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save cost sheet');
+                return;
+            }
+            setEditing(false);
+            await fetchSheets();
+            onChange?.();
+        } catch (err) {
+            setError('Failed to save cost sheet');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const rows = Object.keys(headLabels);
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Cost Sheet</h3>
+                    {rule && (
+                        <p className="text-[11px] text-slate-500">
+                            Overhead {rule.overheadPercent}%{rule.overheadExcludesEquipment ? ' (not on equipment)' : ''}
+                            {' '}· contingency up to {rule.contingencyCapPercent}%{rule.gstPercent > 0 ? ` · GST ${rule.gstPercent}%` : ''}
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    {sheets.length > 1 && (
+                        <select value={version ?? ''} onChange={(e) => setVersion(Number(e.target.value))} className="glass-input text-xs w-auto">
+                            {sheets.map(s => (
+                                <option key={s.id} value={s.version}>Version {s.version}</option>
+                            ))}
+                        </select>
+                    )}
+                    {canEdit && (
+                        <button onClick={openEditor} className="btn-secondary-glossy text-xs">
+                            {sheet ? <Pencil className="w-3.5 h-3.5" /> : <Calculator className="w-3.5 h-3.5" />}
+                            <span>{sheet ? 'Revise' : 'Prepare Cost Sheet'}</span>
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {!sheet ? (
+                <p className="text-xs text-slate-500">No cost sheet has been prepared; the budget is the submitter's single estimate.</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        {[
+                            { label: 'Direct Costs', value: sheet.directINR },
+                            { label: 'Contingency + Overhead', value: sheet.contingencyINR + sheet.overheadINR },
+                            { label: 'Project Budget', value: sheet.budgetINR },
+                            { label: sheet.gstPercent > 0 ? `Total incl. ${sheet.gstPercent}% GST` : 'Total', value: sheet.totalINR },
+                        ].map(card => (
+                            <div key={card.label} className="p-3 rounded-2xl bg-slate-50/80 border border-slate-100">
+                                <p className="text-[10px] font-semibold text-slate-500">{card.label}</p>
+                                <p className="text-sm font-bold text-secondary-900">{formatINR(card.value)}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Head</th>
+                                    <th>Item</th>
+                                    <th className="text-right">Qty</th>
+                                    <th className="text-right">Rate</th>
+                                    <th>Year</th>
+                                    <th className="text-right">Amount</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sheet.items.map((item, index) => (
+                                    <tr key={index}>
+                                        <td className="text-xs text-slate-600">{headLabels[item.head]}</td>
+                                        <td className="text-xs text-secondary-900">{item.description}</td>
+                                        <td className="text-xs text-right">{item.quantity}{item.months ? ` × ${item.months} mo` : ''}</td>
+                                        <td className="text-xs text-right">{formatINR(item.unitCostINR)}{item.months ? '/mo' : ''}</td>
+                                        <td className="text-xs text-slate-500">{item.fiscalYear ?? 'Spread'}</td>
+                                        <td className="text-xs font-bold text-secondary-900 text-right">{formatINR(item.amountINR)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {/* Year-wise budget the project will be allocated on conversion */}
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Budget Head</th>
+                                    {sheet.yearly.map(year => (
+                                        <th key={year.fiscalYear} className="text-right">FY {year.fiscalYear}</th>
+                                    ))}
+                                    <th className="text-right">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(head => (
+                                    <tr key={head}>
+                                        <td className="text-xs text-secondary-900">
+                                            {headLabels[head]}
+                                            {head === 'CONTINGENCY' && ` (${sheet.contingencyPercent}%)`}
+                                            {head === 'OVERHEAD' && ` (${sheet.overheadPercent}%)`}
+                                        </td>
+                                        {sheet.yearly.map(year => (
+                                            <td key={year.fiscalYear} className="text-xs text-right">{formatINR(year.heads[head] ?? 0)}</td>
+                                        ))}
+                                        <td className="text-xs font-bold text-right">{formatINR(sheet.yearly.reduce((sum, year) => sum + (year.heads[head] ?? 0), 0))}</td>
+                                    </tr>
+                                ))}
+                                <tr>
+                                    <td className="text-xs font-bold text-secondary-900">Budget</td>
+                                    {sheet.yearly.map(year => (
+                                        <td key={year.fiscalYear} className="text-xs font-bold text-right">{formatINR(year.budgetINR)}</td>
+                                    ))}
+                                    <td className="text-xs font-bold text-right">{formatINR(sheet.budgetINR)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <p className="text-[11px] text-slate-500">
+                        Version {sheet.version} by {sheet.createdBy.firstName} {sheet.createdBy.lastName} on {new Date(sheet.createdAt).toLocaleDateString()}
+                        {sheet.gstINR > 0 && ` · GST of ${formatINR(sheet.gstINR)} is billed to the sponsor and not budgeted`}
+                        {sheet.notes && ` · ${sheet.notes}`}
+                    </p>
+                </>
+            )}
+
+            {editing && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-3xl p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200 max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">{sheet ? `Revise Cost Sheet (v${sheet.version + 1})` : 'Prepare Cost Sheet'}</h3>
+                            <button onClick={() => setEditing(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSave} className="space-y-3 text-xs">
+                            {error && <div className="p-3 rounded-xl text-xs bg-red-50 text-red-700">{error}</div>}
+
+                            <div className="space-y-2">
+                                <label className="block font-bold text-secondary-800">Cost Lines *</label>
+                                {form.items.map((item, index) => (
+                                    <div key={index} className="flex items-start gap-2 p-2 rounded-xl bg-slate-50">
+                                        <div className="flex-1 grid grid-cols-8 gap-2">
+                                            <select value={item.head} onChange={(e) => updateItem(index, { head: e.target.value as CostHead })} className="glass-input text-xs col-span-2">
+                                                <option value="MANPOWER">Manpower</option>
+                                                <option value="EQUIPMENT">Equipment</option>
+                                                <option value="CONSUMABLES">Consumables</option>
+                                                <option value="TRAVEL">Travel</option>
+                                            </select>
+                                            <input type="text" required value={item.description} onChange={(e) => updateItem(index, { description: e.target.value })} placeholder={item.head === 'MANPOWER' ? 'Designation' : 'Description'} className="glass-input text-xs col-span-2" />
+                                            <input type="number" required min="0" step="0.01" value={item.quantity} onChange={(e) => updateItem(index, { quantity: e.target.value })} placeholder={item.head === 'MANPOWER' ? 'Posts' : 'Qty'} className="glass-input text-xs" />
+                                            {item.head === 'MANPOWER' ? (
+                                                <input type="number" required min="1" step="1" value={item.months} onChange={(e) => updateItem(index, { months: e.target.value })} placeholder="Months" className="glass-input text-xs" />
+                                            ) : <span />}
+                                            <input type="number" required min="0" step="0.01" value={item.unitCostINR} onChange={(e) => updateItem(index, { unitCostINR: e.target.value })} placeholder={item.head === 'MANPOWER' ? '₹/month' : 'Unit cost'} className="glass-input text-xs" />
+                                            <select value={item.fiscalYear} onChange={(e) => updateItem(index, { fiscalYear: e.target.value })} className="glass-input text-xs">
+                                                <option value="">Spread</option>
+                                                {years.map(year => (
+                                                    <option key={year} value={year}>{year}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {form.items.length > 1 && (
+                                            <button type="button" onClick={() => setForm({ ...form, items: form.items.filter((_, i) => i !== index) })} className="p-1 pt-2 text-slate-400 hover:text-rose-600">
+                                                <X className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => setForm({ ...form, items: [...form.items, emptyItem] })} className="btn-secondary-glossy text-[10px]">
+                                    <Plus className="w-3 h-3" />
+                                    <span>Add Line</span>
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Contingency (%)</label>
+                                    <input type="number" min="0" max={rule?.contingencyCapPercent} step="0.01" value={form.contingencyPercent} onChange={(e) => setForm({ ...form, contingencyPercent: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                                <div className="col-span-2">
+                                    <label className="block font-bold text-secondary-800 mb-1">Notes</label>
+                                    <input type="text" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} className="glass-input text-xs" />
+                                </div>
+                            </div>
+                            <p className="text-[11px] text-slate-500">
+                                Direct costs {formatINR(draftDirect)}. Lines without a year are spread over the proposed period by days;
+                                overhead{rule?.gstPercent ? ' and GST' : ''} follow the terms set by finance for this category.
+                                Saving makes this version the proposal's estimated budget.
+                            </p>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setEditing(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Version'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -45,7 +45,12 @@ export const RBACGuard = ({
     fallback,
     redirectOnDenied = true,
 }: RBACGuardProps): ReactNode => {
-    const { hasPermission, canAccessPage, hasRole } = useRBAC();
+    const { hasPermission, canAccessPage, hasRole, loaded } = useRBAC();
+
+    // Wait for the permission matrix before deciding
+    if (resource && !roles?.length && !loaded) {
+        return null;
+    }
 
     let isAuthorized = false;
 
@@ -83,7 +88,11 @@ interface PageGuardProps {
 }
 
 export const PageGuard = ({ page, children }: PageGuardProps): ReactNode => {
-    const { canAccessPage } = useRBAC();
+    const { canAccessPage, loaded } = useRBAC();
+
+    if (!loaded) {
+        return null;
+    }
 
     if (!canAccessPage(page)) {
         return <Navigate to="/access-denied" replace />;
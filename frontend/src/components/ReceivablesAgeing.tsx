@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { AlertCircle } from 'lucide-react';
+
+interface ReceivableRow {
+    id: string;
+    project: { id: string; code: string; title: string };
+    sponsorName: string;
+    referenceNumber?: string | null;
+    sequence: number;
+    description: string;
+    milestone: string | null;
+    status: 'DUE' | 'CLAIMED' | 'PARTIALLY_RECEIVED';
+    dueSince: string;
+    claimedAt?: string | null;
+    claimReference?: string | null;
+    currency: string;
+    outstanding: number;
+    outstandingINR: number | null;
+    ageDays: number;
+    bucket: string;
+}
+
+interface Receivables {
+    rows: ReceivableRow[];
+    buckets: { label: string; count: number; outstandingINR: number }[];
+    bySponsor: { sponsorName: string; count: number; outstandingINR: number; oldestDays: number }[];
+    missingRates: string[];
+    totalOutstandingINR: number;
+}
+
+const STATUS_LABELS: Record<ReceivableRow['status'], { label: string; className: string }> = {
+    DUE: { label: 'Not claimed', className: 'bg-amber-50 text-amber-700' },
+    CLAIMED: { label: 'Claimed', className: 'bg-sky-50 text-sky-700' },
+    PARTIALLY_RECEIVED: { label: 'Part received', className: 'bg-sky-50 text-sky-700' },
+};
+
+const today = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+// Receivables older than 30 and 90 days stand out
+const ageClass = (days: number) => (days > 90 ? 'text-rose-700' : days > 30 ? 'text-amber-700' : 'text-slate-600');
+
+export default function ReceivablesAgeing() {
+    const { accessToken } = useAuthStore();
+    const [asOf, setAsOf] = useState(today());
+    const [data, setData] = useState<Receivables | null>(null);
+
+    useEffect(() => {
+        fetchReceivables();
+    }, [asOf]);
+
+    const fetchReceivables = async () => {
+        try {
+            const res = await fetch(`/api/finance/receivables?asOf=${asOf}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setData(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch receivables:', err);
+        }
+    };
+
+    if (!data) {
+        return <div className="glass-panel p-8 text-center text-xs text-slate-400">Ageing receivables...</div>;
+    }
+
+    return (
+        <div className="glass-panel p-5 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="font-bold text-sm text-secondary-900">Sponsor Receivables Ageing</h3>
+                    <p className="text-[11px] text-slate-500">
+                        {formatINR(data.totalOutstandingINR)} claimable from sponsors and not yet received, aged from the day each instalment fell due
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                    <label className="font-bold text-secondary-800">As of</label>
+                    <input type="date" max={today()} value={asOf} onChange={(e) => setAsOf(e.target.value)} className="glass-input text-xs" />
+                </div>
+            </div>
+
+            {data.missingRates.length > 0 && (
+                <div className="p-3 rounded-xl text-xs flex items-center gap-2 bg-amber-50 text-amber-700">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>No rate for {data.missingRates.join(', ')} on {asOf}; those receivables are left out of the INR totals.</span>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {data.buckets.map(b => (
+                    <div key={b.label} className="p-3 rounded-xl bg-slate-50">
+                        <p className="text-[10px] uppercase font-bold text-slate-500">{b.label}</p>
+                        <p className="text-lg font-bold text-secondary-900">{formatINR(b.outstandingINR)}</p>
+                        <p className="text-[10px] text-slate-500">{b.count} instalment{b.count === 1 ? '' : 's'}</p>
+                    </div>
+                ))}
+            </div>
+
+            {data.bySponsor.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {data.bySponsor.map(s => (
+                        <span key={s.sponsorName} className="glass-pill text-[10px] bg-slate-100 text-slate-700">
+                            {s.sponsorName}: {formatINR(s.outstandingINR)} · oldest {s.oldestDays}d
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="table-glossy">
+                    <thead>
+                        <tr>
+                            <th>Project</th>
+                            <th>Sponsor</th>
+                            <th>Instalment</th>
+                            <th>Due Since</th>
+                            <th>Status</th>
+                            <th className="text-right">Outstanding</th>
+                            <th className="text-right">Age</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {data.rows.length === 0 ? (
+                            <tr>
+                                <td colSpan={7} className="text-center text-xs text-slate-500 py-6">Nothing outstanding from sponsors</td>
+                            </tr>
+                        ) : data.rows.map(r => {
+                            const status = STATUS_LABELS[r.status];
+                            return (
+                                <tr key={r.id}>
+                                    <td className="font-mono text-xs font-bold text-primary-600" title={r.project.title}>{r.project.code}</td>
+                                    <td className="text-xs text-secondary-900">
+                                        {r.sponsorName}
+                                        {r.referenceNumber && <p className="text-[10px] text-slate-500">{r.referenceNumber}</p>}
+                                    </td>
+                                    <td className="text-xs">
+                                        <p className="text-secondary-900">{r.sequence}. {r.description}</p>
+                                        {r.milestone && <p className="text-[10px] text-slate-500">Milestone: {r.milestone}</p>}
+                                    </td>
+                                    <td className="text-xs text-slate-600">{new Date(r.dueSince).toLocaleDateString('en-IN')}</td>
+                                    <td>
+                                        <span className={`glass-pill text-[10px] ${status.className}`}>{status.label}</span>
+                                        {r.claimReference && <p className="text-[10px] text-slate-500 mt-0.5">{r.claimReference}</p>}
+                                    </td>
+                                    <td className="text-right text-xs font-bold text-secondary-900">
+                                        {r.outstandingINR === null ? '—' : formatINR(r.outstandingINR)}
+                                        {r.currency !== 'INR' && (
+                                            <p className="text-[10px] font-normal text-slate-500">{r.currency} {r.outstanding.toLocaleString('en-IN')}</p>
+                                        )}
+                                    </td>
+                                    <td className={`text-right text-xs font-bold ${ageClass(r.ageDays)}`}>{r.ageDays}d</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
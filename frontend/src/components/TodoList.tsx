@@ -8,8 +8,15 @@ import {
     CalendarRegular,
     FlagRegular,
     DismissRegular,
+    PersonRegular,
 } from '@fluentui/react-icons';
 
+interface TodoUser {
+    id: string;
+    firstName: string;
+    lastName: string;
+}
+
 interface Todo {
     id: string;
     title: string;
@@ -17,11 +24,18 @@ interface Todo {
     priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
     dueDate?: string;
     completed: boolean;
+    completedAt?: string;
+    completedBy?: TodoUser | null;
     projectId?: string;
-    projectCode?: string;
+    project?: { id: string; code: string; title: string } | null;
+    owner?: TodoUser;
+    assignee?: TodoUser | null;
     createdAt: string;
 }
 
+// Key the component used before to-dos were stored on the server
+const LEGACY_STORAGE_KEY = 'csir-todos';
+
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
 const priorityColors: Record<string, string> = {
@@ -41,68 +55,84 @@ const priorityBg: Record<string, string> = {
 interface TodoListProps {
     compact?: boolean;
     projectId?: string;
+    // Only tasks due today (dashboard widget)
+    dueToday?: boolean;
+    // Project members a task can be assigned to; only used with projectId
+    members?: TodoUser[];
 }
 
-export default function TodoList({ compact = false, projectId }: TodoListProps) {
-    const { accessToken } = useAuthStore();
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function TodoList({ compact = false, projectId, dueToday = false, members = [] }: TodoListProps) {
+    const { accessToken, user } = useAuthStore();
     const [todos, setTodos] = useState<Todo[]>([]);
     const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
     const [showAddModal, setShowAddModal] = useState(false);
-    const [newTodo, setNewTodo] = useState({
+    const emptyTodo = {
         title: '',
         description: '',
         priority: 'MEDIUM' as Todo['priority'],
-        dueDate: '',
-        projectId: projectId || '',
-    });
+        dueDate: dueToday ? today() : '',
+        assigneeId: '',
+    };
+    const [newTodo, setNewTodo] = useState(emptyTodo);
 
     useEffect(() => {
-        fetchTodos();
-    }, [projectId]);
+        // The personal list owns the legacy import so parallel instances don't race
+        if (!projectId && !dueToday) importLocalTodos().then(fetchTodos);
+        else fetchTodos();
+    }, [projectId, dueToday]);
 
     const fetchTodos = async () => {
         try {
-            const url = projectId
-                ? `${API_BASE}/todos?projectId=${projectId}`
-                : `${API_BASE}/todos`;
-            const res = await fetch(url, {
+            const params = new URLSearchParams();
+            if (projectId) params.append('projectId', projectId);
+            if (dueToday) params.append('due', 'today');
+            const res = await fetch(`${API_BASE}/todos?${params}`, {
                 headers: { Authorization: `Bearer ${accessToken}` },
             });
             if (res.ok) {
-                const data = await res.json();
-                setTodos(data.todos || data || []);
+                setTodos(await res.json());
             } else {
-                // Fallback to localStorage for demo
-                const stored = localStorage.getItem('csir-todos');
-                if (stored) setTodos(JSON.parse(stored));
+                setError('Failed to load tasks');
             }
         } catch {
-            const stored = localStorage.getItem('csir-todos');
-            if (stored) setTodos(JSON.parse(stored));
+            setError('Failed to load tasks');
         } finally {
             setLoading(false);
         }
     };
 
-    const saveTodosLocal = (newTodos: Todo[]) => {
-        localStorage.setItem('csir-todos', JSON.stringify(newTodos));
-        setTodos(newTodos);
+    // One-time move of tasks saved in this browser before the API existed
+    const importLocalTodos = async () => {
+        const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+        if (!stored) return;
+
+        try {
+            const legacy = JSON.parse(stored);
+            if (!Array.isArray(legacy) || legacy.length === 0) {
+                localStorage.removeItem(LEGACY_STORAGE_KEY);
+                return;
+            }
+            const res = await fetch(`${API_BASE}/todos/import`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({ todos: legacy }),
+            });
+            // Keep the local copy if the import failed so it can be retried next time
+            if (res.ok) localStorage.removeItem(LEGACY_STORAGE_KEY);
+        } catch {
+            // Unreadable local data or network error; retried on the next load
+        }
     };
 
     const handleAddTodo = async () => {
         if (!newTodo.title.trim()) return;
 
-        const todo: Todo = {
-            id: Date.now().toString(),
-            title: newTodo.title,
-            description: newTodo.description,
-            priority: newTodo.priority,
-            dueDate: newTodo.dueDate || undefined,
-            completed: false,
-            projectId: newTodo.projectId || undefined,
-            createdAt: new Date().toISOString(),
-        };
-
         try {
             const res = await fetch(`${API_BASE}/todos`, {
                 method: 'POST',
@@ -110,51 +140,66 @@ export default function TodoList({ compact = false, projectId }: TodoListProps)
                     'Content-Type': 'application/json',
                     Authorization: `Bearer ${accessToken}`,
                 },
-                body: JSON.stringify(todo),
+                body: JSON.stringify({
+                    title: newTodo.title,
+                    description: newTodo.description || undefined,
+                    priority: newTodo.priority,
+                    dueDate: newTodo.dueDate || null,
+                    projectId: projectId || null,
+                    assigneeId: newTodo.assigneeId || null,
+                }),
             });
             if (res.ok) {
-                fetchTodos();
+                const created: Todo = await res.json();
+                setTodos([created, ...todos]);
+                setNewTodo(emptyTodo);
+                setShowAddModal(false);
+                setError('');
             } else {
-                saveTodosLocal([todo, ...todos]);
+                const err = await res.json();
+                setError(err.error || 'Failed to add task');
             }
         } catch {
-            saveTodosLocal([todo, ...todos]);
+            setError('Failed to add task');
         }
-
-        setNewTodo({ title: '', description: '', priority: 'MEDIUM', dueDate: '', projectId: projectId || '' });
-        setShowAddModal(false);
     };
 
     const toggleComplete = async (id: string) => {
-        const updatedTodos = todos.map(t =>
-            t.id === id ? { ...t, completed: !t.completed } : t
-        );
-        saveTodosLocal(updatedTodos);
-
         try {
-            await fetch(`${API_BASE}/todos/${id}/toggle`, {
+            const res = await fetch(`${API_BASE}/todos/${id}/toggle`, {
                 method: 'PUT',
                 headers: { Authorization: `Bearer ${accessToken}` },
             });
+            if (res.ok) {
+                const updated: Todo = await res.json();
+                setTodos(todos.map(t => (t.id === id ? updated : t)));
+            } else {
+                setError('Failed to update task');
+            }
         } catch {
-            // Already saved locally
+            setError('Failed to update task');
         }
     };
 
     const deleteTodo = async (id: string) => {
-        const updatedTodos = todos.filter(t => t.id !== id);
-        saveTodosLocal(updatedTodos);
-
         try {
-            await fetch(`${API_BASE}/todos/${id}`, {
+            const res = await fetch(`${API_BASE}/todos/${id}`, {
                 method: 'DELETE',
                 headers: { Authorization: `Bearer ${accessToken}` },
             });
+            if (res.ok) {
+                setTodos(todos.filter(t => t.id !== id));
+            } else {
+                setError('Failed to delete task');
+            }
         } catch {
-            // Already saved locally
+            setError('Failed to delete task');
         }
     };
 
+    // Only the creator can delete; assignees can just complete
+    const isOwner = (todo: Todo) => !todo.owner || todo.owner.id === user?.id;
+
     const sortedTodos = [...todos].sort((a, b) => {
         if (a.completed !== b.completed) return a.completed ? 1 : -1;
         const priorityOrder = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
@@ -178,7 +223,7 @@ export default function TodoList({ compact = false, projectId }: TodoListProps)
         <div className={compact ? '' : 'premium-card p-6'}>
             {!compact && (
                 <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-semibold text-secondary-900">My Tasks</h3>
+                    <h3 className="font-semibold text-secondary-900">{dueToday ? 'Due Today' : projectId ? 'Project Tasks' : 'My Tasks'}</h3>
                     <button
                         onClick={() => setShowAddModal(true)}
                         className="btn-ghost text-sm flex items-center gap-1"
@@ -189,6 +234,10 @@ export default function TodoList({ compact = false, projectId }: TodoListProps)
                 </div>
             )}
 
+            {error && (
+                <p className="text-xs text-danger-600 mb-2">{error}</p>
+            )}
+
             {/* Todo Items */}
             <div className="space-y-2 max-h-80 overflow-y-auto">
                 {incompleteTodos.map(todo => (
@@ -218,17 +267,27 @@ export default function TodoList({ compact = false, projectId }: TodoListProps)
                                         {new Date(todo.dueDate).toLocaleDateString('en-IN')}
                                     </span>
                                 )}
-                                {todo.projectCode && (
-                                    <span className="text-xs font-mono text-primary-600">{todo.projectCode}</span>
+                                {todo.project && !projectId && (
+                                    <span className="text-xs font-mono text-primary-600">{todo.project.code}</span>
+                                )}
+                                {todo.assignee && todo.assignee.id !== todo.owner?.id && (
+                                    <span className="inline-flex items-center gap-1 text-xs text-secondary-500">
+                                        <PersonRegular className="w-3 h-3" />
+                                        {isOwner(todo)
+                                            ? `${todo.assignee.firstName} ${todo.assignee.lastName}`
+                                            : `from ${todo.owner?.firstName} ${todo.owner?.lastName}`}
+                                    </span>
                                 )}
                             </div>
                         </div>
-                        <button
-                            onClick={() => deleteTodo(todo.id)}
-                            className="opacity-0 group-hover:opacity-100 text-secondary-400 hover:text-danger-500 transition-all"
-                        >
-                            <DeleteRegular className="w-4 h-4" />
-                        </button>
+                        {isOwner(todo) && (
+                            <button
+                                onClick={() => deleteTodo(todo.id)}
+                                className="opacity-0 group-hover:opacity-100 text-secondary-400 hover:text-danger-500 transition-all"
+                            >
+                                <DeleteRegular className="w-4 h-4" />
+                            </button>
+                        )}
                     </div>
                 ))}
 
@@ -246,13 +305,23 @@ export default function TodoList({ compact = false, projectId }: TodoListProps)
                                 >
                                     <CheckmarkCircleRegular className="w-5 h-5" />
                                 </button>
-                                <p className="text-sm text-secondary-500 line-through flex-1">{todo.title}</p>
-                                <button
-                                    onClick={() => deleteTodo(todo.id)}
-                                    className="opacity-0 group-hover:opacity-100 text-secondary-400 hover:text-danger-500"
-                                >
-                                    <DeleteRegular className="w-4 h-4" />
-                                </button>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-secondary-500 line-through">{todo.title}</p>
+                                    {todo.completedAt && (
+                                        <p className="text-xs text-secondary-400">
+                                            Done {new Date(todo.completedAt).toLocaleDateString('en-IN')}
+                                            {todo.completedBy && todo.completedBy.id !== user?.id && ` by ${todo.completedBy.firstName} ${todo.completedBy.lastName}`}
+                                        </p>
+                                    )}
+                                </div>
+                                {isOwner(todo) && (
+                                    <button
+                                        onClick={() => deleteTodo(todo.id)}
+                                        className="opacity-0 group-hover:opacity-100 text-secondary-400 hover:text-danger-500"
+                                    >
+                                        <DeleteRegular className="w-4 h-4" />
+                                    </button>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -260,7 +329,7 @@ export default function TodoList({ compact = false, projectId }: TodoListProps)
 
                 {todos.length === 0 && (
                     <div className="text-center py-8 text-secondary-500">
-                        <p className="text-sm">No tasks yet</p>
+                        <p className="text-sm">{dueToday ? 'Nothing due today' : 'No tasks yet'}</p>
                         <button
                             onClick={() => setShowAddModal(true)}
                             className="text-primary-600 text-sm hover:underline mt-1"
@@ -336,6 +405,21 @@ export default function TodoList({ compact = false, projectId }: TodoListProps)
                                     />
                                 </div>
                             </div>
+                            {projectId && members.length > 0 && (
+                                <div>
+                                    <label className="block text-sm font-medium text-secondary-700 mb-1">Assign To</label>
+                                    <select
+                                        className="input-premium"
+                                        value={newTodo.assigneeId}
+                                        onChange={(e) => setNewTodo({ ...newTodo, assigneeId: e.target.value })}
+                                    >
+                                        <option value="">Myself</option>
+                                        {members.filter(m => m.id !== user?.id).map(m => (
+                                            <option key={m.id} value={m.id}>{m.firstName} {m.lastName}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
                             <div className="flex gap-3 pt-2">
                                 <button onClick={() => setShowAddModal(false)} className="btn-ghost flex-1">
                                     Cancel
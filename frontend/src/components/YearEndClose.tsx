@@ -0,0 +1,410 @@
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '../stores/authStore';
+import { CheckCircle2, AlertCircle, Lock, Trash2, X, Plus, CalendarCheck } from 'lucide-react';
+
+type RuleSource = 'PROJECT' | 'CATEGORY' | 'DEFAULT' | 'PROJECT_ENDED';
+
+interface CarryForwardLine {
+    projectId: string;
+    projectCode: string;
+    projectTitle: string;
+    category: string;
+    allocatedINR: number;
+    spentINR: number;
+    commitmentsINR: number;
+    availableINR: number;
+    carryForwardPercent: number;
+    ruleSource: RuleSource;
+    carriedINR: number;
+    lapsedINR: number;
+}
+
+interface YearEndPlan {
+    fiscalYear: string;
+    nextFiscalYear: string;
+    defaultPercent: number;
+    closed: boolean;
+    lines: CarryForwardLine[];
+    commitments: { kind: 'INDENT' | 'ORDER'; id: string; number: string; projectId: string; category: string; outstandingINR: number }[];
+    unposted: { projectCode: string; category: string; budgetAllocatedINR: number }[];
+    totals: { allocatedINR: number; spentINR: number; commitmentsINR: number; carriedINR: number; lapsedINR: number };
+}
+
+interface CarryForwardRule {
+    id: string;
+    projectId: string | null;
+    project?: { id: string; code: string; title: string } | null;
+    category: string | null;
+    carryForwardPercent: number;
+}
+
+interface YearEndCloseProps {
+    projects: { id: string; code: string; title: string }[];
+}
+
+const PROJECT_CATEGORIES = ['GAP', 'CNP', 'OLP', 'EFP', 'BMP', 'FBR', 'FTC', 'FTT', 'MMP', 'NCP', 'NMITLI', 'MLP', 'SSP', 'STS'];
+
+const SOURCE_LABELS: Record<RuleSource, string> = {
+    PROJECT: 'Project rule',
+    CATEGORY: 'Category rule',
+    DEFAULT: 'Default',
+    PROJECT_ENDED: 'Project ends',
+};
+
+const fiscalYearOf = (startYear: number) => `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+
+// The fiscal year that ended most recently, and the four before it
+const closableFiscalYears = () => {
+    const now = new Date();
+    const current = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+    return Array.from({ length: 5 }, (_, i) => fiscalYearOf(current - 1 - i));
+};
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export default function YearEndClose({ projects }: YearEndCloseProps) {
+    const { accessToken } = useAuthStore();
+    const [fiscalYear, setFiscalYear] = useState(closableFiscalYears()[0]);
+    const [defaultPercent, setDefaultPercent] = useState('100');
+    const [plan, setPlan] = useState<YearEndPlan | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [rules, setRules] = useState<CarryForwardRule[]>([]);
+    const [showRuleModal, setShowRuleModal] = useState(false);
+    const [ruleForm, setRuleForm] = useState({ scope: 'CATEGORY' as 'CATEGORY' | 'PROJECT', category: 'GAP', projectId: '', carryForwardPercent: '100' });
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        fetchRules();
+    }, []);
+
+    useEffect(() => {
+        setPlan(null);
+    }, [fiscalYear, defaultPercent]);
+
+    const fetchRules = async () => {
+        try {
+            const res = await fetch('/api/budgets/carry-forward-rules', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setRules(await res.json());
+        } catch (err) {
+            console.error('Failed to fetch carry-forward rules:', err);
+        }
+    };
+
+    const errorText = (data: any) => typeof data.error === 'string' ? data.error : 'Invalid input';
+
+    const fetchPlan = async () => {
+        setLoading(true);
+        setMessage(null);
+        try {
+            const query = new URLSearchParams({ fiscalYear, carryForwardPercent: defaultPercent || '0' });
+            const res = await fetch(`/api/budgets/archive/preview?${query}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            const data = await res.json();
+            if (res.ok) setPlan(data);
+            else setMessage({ type: 'error', text: errorText(data) });
+        } catch (err) {
+            setMessage({ type: 'error', text: 'Failed to preview the year-end close' });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const send = async (url: string, method: string, body: unknown) => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            const data = await res.json();
+            if (!res.ok) setMessage({ type: 'error', text: errorText(data) });
+            return res.ok ? data : null;
+        } catch (err) {
+            setMessage({ type: 'error', text: 'Request failed' });
+            return null;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleClose = async () => {
+        if (!plan) return;
+        if (!confirm(`Close FY ${plan.fiscalYear}? ${formatINR(plan.totals.carriedINR)} carries forward to ${plan.nextFiscalYear}, ${formatINR(plan.totals.lapsedINR)} lapses and the year's budgets are locked.`)) return;
+        const data = await send('/api/budgets/archive', 'POST', { fiscalYear, carryForwardPercent: parseFloat(defaultPercent) || 0 });
+        if (data) {
+            setMessage({ type: 'success', text: data.message });
+            fetchPlan();
+        }
+    };
+
+    const handleSaveRule = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const body = ruleForm.scope === 'PROJECT'
+            ? { projectId: ruleForm.projectId, carryForwardPercent: parseFloat(ruleForm.carryForwardPercent) }
+            : { category: ruleForm.category, carryForwardPercent: parseFloat(ruleForm.carryForwardPercent) };
+        if (await send('/api/budgets/carry-forward-rules', 'PUT', body)) {
+            setMessage({ type: 'success', text: 'Carry-forward rule saved' });
+            setShowRuleModal(false);
+            setPlan(null);
+            fetchRules();
+        }
+    };
+
+    const handleDeleteRule = async (rule: CarryForwardRule) => {
+        if (!confirm(`Remove the carry-forward rule for ${rule.project?.code ?? rule.category}?`)) return;
+        if (await send(`/api/budgets/carry-forward-rules/${rule.id}`, 'DELETE', undefined)) {
+            setMessage({ type: 'success', text: 'Carry-forward rule removed' });
+            setPlan(null);
+            fetchRules();
+        }
+    };
+
+    const openRuleModal = () => {
+        setRuleForm({ scope: 'CATEGORY', category: 'GAP', projectId: projects[0]?.id ?? '', carryForwardPercent: '100' });
+        setShowRuleModal(true);
+    };
+
+    return (
+        <div className="space-y-6">
+            {message && (
+                <div className={`p-3 rounded-xl text-xs flex items-center gap-2 ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                    <span>{message.text}</span>
+                </div>
+            )}
+
+            <div className="glass-panel p-5 space-y-4">
+                <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-3">
+                    <div>
+                        <h3 className="font-bold text-sm text-secondary-900">Year-End Close</h3>
+                        <p className="text-[11px] text-slate-500">
+                            Moves open indents and orders to the next year, carries unspent balances forward by rule and lapses the rest.
+                        </p>
+                    </div>
+                    <div className="flex items-end gap-2">
+                        <div>
+                            <label className="block text-[10px] font-bold uppercase text-slate-500 mb-1">Fiscal Year</label>
+                            <select value={fiscalYear} onChange={(e) => setFiscalYear(e.target.value)} className="glass-input text-xs w-32">
+                                {closableFiscalYears().map(fy => <option key={fy} value={fy}>FY {fy}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-bold uppercase text-slate-500 mb-1">Default Carry (%)</label>
+                            <input type="number" min="0" max="100" step="1" value={defaultPercent} onChange={(e) => setDefaultPercent(e.target.value)} className="glass-input text-xs w-24" />
+                        </div>
+                        <button onClick={fetchPlan} disabled={loading} className="btn-secondary-glossy text-xs">
+                            {loading ? 'Loading...' : 'Preview'}
+                        </button>
+                        {plan && !plan.closed && (
+                            <button onClick={handleClose} disabled={saving || plan.unposted.length > 0} className="btn-primary-glossy text-xs flex items-center gap-1.5">
+                                <Lock className="w-3.5 h-3.5" />
+                                <span>{saving ? 'Closing...' : `Close FY ${plan.fiscalYear}`}</span>
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {!plan ? (
+                    <div className="text-center py-8">
+                        <CalendarCheck className="w-8 h-8 text-slate-300 mx-auto mb-2" />
+                        <p className="text-xs text-slate-500">Preview the close to see what carries forward</p>
+                    </div>
+                ) : (
+                    <>
+                        {plan.closed && (
+                            <div className="p-3 rounded-xl text-xs flex items-center gap-2 bg-slate-100 text-slate-600">
+                                <Lock className="w-4 h-4" />
+                                <span>FY {plan.fiscalYear} is closed. Restore its archive to reopen it.</span>
+                            </div>
+                        )}
+                        {plan.unposted.length > 0 && (
+                            <div className="p-3 rounded-xl text-xs bg-amber-50 text-amber-700 space-y-1">
+                                <p className="font-bold flex items-center gap-2"><AlertCircle className="w-4 h-4" /> Budget heads missing from the ledger</p>
+                                <p>Post these allocations from Ledger Reconciliation before closing: {plan.unposted.map(u => `${u.projectCode} ${u.category}`).join(', ')}</p>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+                            {[
+                                { label: 'Allocated', value: plan.totals.allocatedINR },
+                                { label: 'Spent', value: plan.totals.spentINR },
+                                { label: 'Commitments Moved', value: plan.totals.commitmentsINR },
+                                { label: `Carried to ${plan.nextFiscalYear}`, value: plan.totals.carriedINR },
+                                { label: 'Lapsed', value: plan.totals.lapsedINR },
+                            ].map(card => (
+                                <div key={card.label} className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                                    <p className="text-[10px] font-bold uppercase text-slate-500">{card.label}</p>
+                                    <p className="text-sm font-bold text-secondary-900">{formatINR(card.value)}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="table-glossy">
+                                <thead>
+                                    <tr>
+                                        <th>Project</th>
+                                        <th>Budget Head</th>
+                                        <th className="text-right">Allocated</th>
+                                        <th className="text-right">Spent</th>
+                                        <th className="text-right">Commitments</th>
+                                        <th className="text-right">Unspent</th>
+                                        <th>Carry</th>
+                                        <th className="text-right">Carried</th>
+                                        <th className="text-right">Lapsed</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {plan.lines.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={9} className="text-center text-xs text-slate-400 py-6">No budget heads in FY {plan.fiscalYear}</td>
+                                        </tr>
+                                    ) : plan.lines.map(line => (
+                                        <tr key={`${line.projectId}:${line.category}`}>
+                                            <td className="text-xs">
+                                                <span className="font-mono font-bold text-primary-600">{line.projectCode}</span>
+                                                <p className="text-[10px] text-slate-500 truncate max-w-[180px]">{line.projectTitle}</p>
+                                            </td>
+                                            <td className="text-xs font-bold text-secondary-900">{line.category}</td>
+                                            <td className="text-right text-xs text-slate-600">{formatINR(line.allocatedINR)}</td>
+                                            <td className="text-right text-xs text-slate-600">{formatINR(line.spentINR)}</td>
+                                            <td className="text-right text-xs text-slate-600">{formatINR(line.commitmentsINR)}</td>
+                                            <td className="text-right text-xs text-slate-600">{formatINR(line.availableINR)}</td>
+                                            <td className="text-xs whitespace-nowrap">
+                                                <span className="text-secondary-900 font-bold">{line.carryForwardPercent}%</span>
+                                                <span className="text-[10px] text-slate-500"> · {SOURCE_LABELS[line.ruleSource]}</span>
+                                            </td>
+                                            <td className="text-right text-xs font-bold text-emerald-700">{formatINR(line.carriedINR)}</td>
+                                            <td className={`text-right text-xs font-bold ${line.lapsedINR > 0 ? 'text-rose-600' : 'text-slate-400'}`}>{formatINR(line.lapsedINR)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {plan.commitments.length > 0 && (
+                            <div className="space-y-2">
+                                <h4 className="text-xs font-bold text-secondary-900">Indents and orders moving to {plan.nextFiscalYear}</h4>
+                                <div className="flex flex-wrap gap-2">
+                                    {plan.commitments.map(c => (
+                                        <span key={c.id} className="glass-pill text-[10px] bg-slate-100 text-slate-700">
+                                            {c.kind === 'ORDER' ? 'PO' : 'Indent'} {c.number} · {c.category}{c.outstandingINR > 0 ? ` · ${formatINR(c.outstandingINR)}` : ' · awaiting approval'}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            <div className="glass-panel p-5 space-y-4">
+                <div className="flex items-center justify-between gap-3">
+                    <div>
+                        <h3 className="font-bold text-sm text-secondary-900">Carry-Forward Rules</h3>
+                        <p className="text-[11px] text-slate-500">
+                            A project rule overrides its category's rule; heads with neither carry the default percentage.
+                        </p>
+                    </div>
+                    <button onClick={openRuleModal} className="btn-secondary-glossy text-xs flex items-center gap-1.5">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Add Rule</span>
+                    </button>
+                </div>
+                {rules.length === 0 ? (
+                    <p className="text-xs text-slate-400 py-4 text-center">No rules; every head carries the default percentage</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="table-glossy">
+                            <thead>
+                                <tr>
+                                    <th>Applies To</th>
+                                    <th className="text-right">Carry Forward</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rules.map(rule => (
+                                    <tr key={rule.id}>
+                                        <td className="text-xs">
+                                            {rule.project ? (
+                                                <>
+                                                    <span className="font-mono font-bold text-primary-600">{rule.project.code}</span>
+                                                    <span className="text-slate-500"> · {rule.project.title}</span>
+                                                </>
+                                            ) : (
+                                                <span className="font-bold text-secondary-900">All {rule.category} projects</span>
+                                            )}
+                                        </td>
+                                        <td className="text-xs text-right font-bold text-secondary-900">{rule.carryForwardPercent}%</td>
+                                        <td className="text-right">
+                                            <button onClick={() => handleDeleteRule(rule)} disabled={saving} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Remove rule">
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {showRuleModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+                    <div className="glass-panel w-full max-w-md p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
+                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
+                            <h3 className="font-bold text-base text-secondary-900 font-display">Carry-Forward Rule</h3>
+                            <button onClick={() => setShowRuleModal(false)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleSaveRule} className="space-y-3 text-xs">
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Applies To *</label>
+                                <select value={ruleForm.scope} onChange={(e) => setRuleForm({ ...ruleForm, scope: e.target.value as 'CATEGORY' | 'PROJECT' })} className="glass-input text-xs">
+                                    <option value="CATEGORY">A project category</option>
+                                    <option value="PROJECT">One project</option>
+                                </select>
+                            </div>
+                            {ruleForm.scope === 'CATEGORY' ? (
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Category *</label>
+                                    <select value={ruleForm.category} onChange={(e) => setRuleForm({ ...ruleForm, category: e.target.value })} className="glass-input text-xs">
+                                        {PROJECT_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </div>
+                            ) : (
+                                <div>
+                                    <label className="block font-bold text-secondary-800 mb-1">Project *</label>
+                                    <select required value={ruleForm.projectId} onChange={(e) => setRuleForm({ ...ruleForm, projectId: e.target.value })} className="glass-input text-xs">
+                                        {projects.map(p => <option key={p.id} value={p.id}>{p.code} - {p.title}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            <div>
+                                <label className="block font-bold text-secondary-800 mb-1">Carry Forward (%) *</label>
+                                <input type="number" required min="0" max="100" step="0.01" value={ruleForm.carryForwardPercent} onChange={(e) => setRuleForm({ ...ruleForm, carryForwardPercent: e.target.value })} className="glass-input text-xs" />
+                            </div>
+                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
+                                <button type="button" onClick={() => setShowRuleModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
+                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
+                                    {saving ? 'Saving...' : 'Save Rule'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
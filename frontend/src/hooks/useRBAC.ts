@@ -1,130 +1,40 @@
+import { useEffect } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { usePermissionStore } from '../stores/permissionStore';
 
-// Define resources and actions for RBAC
+// Resources and actions of the permission matrix (backend config/permissions.ts)
 export type Resource =
     | 'dashboard'
     | 'dg-dashboard'
     | 'projects'
+    | 'comments'
     | 'finance'
+    | 'proposals'
+    | 'finance-overview'
     | 'staff'
     | 'rc-meetings'
     | 'documents'
     | 'reports'
+    | 'monthly-reports'
     | 'timeline'
-    | 'settings'
+    | 'archive'
     | 'users'
-    | 'profile'
     | 'bulk-import'
-    | 'archive';
-
-export type Action = 'read' | 'create' | 'update' | 'delete' | 'manage';
-
-export type Role = 'ADMIN' | 'DIRECTOR' | 'SUPERVISOR' | 'PROJECT_HEAD' | 'EMPLOYEE' | 'EXTERNAL_OWNER';
+    | 'audit-logs'
+    | 'settings'
+    | 'profile';
 
-// Permission matrix: defines what each role can access
-const ROLE_PERMISSIONS: Record<Role, Partial<Record<Resource, Action[]>>> = {
-    ADMIN: {
-        'dashboard': ['read', 'manage'],
-        'dg-dashboard': ['read', 'manage'],
-        'projects': ['read', 'create', 'update', 'delete', 'manage'],
-        'finance': ['read', 'create', 'update', 'delete', 'manage'],
-        'staff': ['read', 'create', 'update', 'delete', 'manage'],
-        'rc-meetings': ['read', 'create', 'update', 'delete', 'manage'],
-        'documents': ['read', 'create', 'update', 'delete', 'manage'],
-        'reports': ['read', 'create', 'update', 'delete', 'manage'],
-        'timeline': ['read', 'manage'],
-        'settings': ['read', 'update', 'manage'],
-        'users': ['read', 'create', 'update', 'delete', 'manage'],
-        'profile': ['read', 'update'],
-        'bulk-import': ['read', 'create', 'manage'],
-        'archive': ['read', 'manage'],
-    },
-    DIRECTOR: {
-        'dashboard': ['read'],
-        'dg-dashboard': ['read', 'manage'],
-        'projects': ['read', 'create', 'update', 'manage'],
-        'finance': ['read', 'create', 'update', 'manage'],
-        'staff': ['read', 'manage'],
-        'rc-meetings': ['read', 'create', 'update', 'manage'],
-        'documents': ['read', 'create', 'update'],
-        'reports': ['read', 'create', 'manage'],
-        'timeline': ['read'],
-        'settings': ['read'],
-        'users': ['read'],
-        'profile': ['read', 'update'],
-        'bulk-import': ['read'],
-        'archive': ['read'],
-    },
-    SUPERVISOR: {
-        'dashboard': ['read'],
-        'projects': ['read', 'create', 'update'],
-        'finance': ['read', 'create'],
-        'staff': ['read'],
-        'rc-meetings': ['read'],
-        'documents': ['read', 'create', 'update'],
-        'reports': ['read', 'create'],
-        'timeline': ['read'],
-        'settings': ['read'],
-        'profile': ['read', 'update'],
-        'archive': ['read'],
-    },
-    PROJECT_HEAD: {
-        'dashboard': ['read'],
-        'projects': ['read', 'update'],
-        'finance': ['read', 'create'],
-        'staff': ['read'],
-        'rc-meetings': ['read'],
-        'documents': ['read', 'create', 'update'],
-        'reports': ['read', 'create'],
-        'timeline': ['read'],
-        'profile': ['read', 'update'],
-    },
-    EMPLOYEE: {
-        'dashboard': ['read'],
-        'projects': ['read'],
-        'finance': ['read'],
-        'documents': ['read', 'create'],
-        'timeline': ['read'],
-        'profile': ['read', 'update'],
-    },
-    EXTERNAL_OWNER: {
-        'dashboard': ['read'],
-        'projects': ['read'],
-        'finance': ['read'],
-        'documents': ['read'],
-        'reports': ['read'],
-        'timeline': ['read'],
-        'profile': ['read', 'update'],
-    },
-};
+export type Action = 'read' | 'create' | 'update' | 'delete' | 'approve' | 'manage';
 
-// Page access mapping - which pages each role can access
-const PAGE_ACCESS: Record<Role, Resource[]> = {
-    ADMIN: [
-        'dashboard', 'dg-dashboard', 'projects', 'finance', 'staff',
-        'rc-meetings', 'documents', 'reports', 'timeline', 'settings',
-        'users', 'profile', 'bulk-import', 'archive'
-    ],
-    DIRECTOR: [
-        'dashboard', 'dg-dashboard', 'projects', 'finance', 'staff',
-        'rc-meetings', 'documents', 'reports', 'timeline', 'settings',
-        'users', 'profile', 'bulk-import', 'archive'
-    ],
-    SUPERVISOR: [
-        'dashboard', 'projects', 'finance', 'staff', 'rc-meetings',
-        'documents', 'reports', 'timeline', 'settings', 'profile', 'archive'
-    ],
-    PROJECT_HEAD: [
-        'dashboard', 'projects', 'finance', 'staff', 'rc-meetings',
-        'documents', 'reports', 'timeline', 'profile'
-    ],
-    EMPLOYEE: [
-        'dashboard', 'projects', 'finance', 'documents', 'timeline', 'profile'
-    ],
-    EXTERNAL_OWNER: [
-        'dashboard', 'projects', 'finance', 'documents', 'reports', 'timeline', 'profile'
-    ],
-};
+export type Role =
+    | 'ADMIN'
+    | 'DIRECTOR'
+    | 'DIRECTOR_GENERAL'
+    | 'SUPERVISOR'
+    | 'PROJECT_HEAD'
+    | 'EMPLOYEE'
+    | 'RC_MEMBER'
+    | 'EXTERNAL_OWNER';
 
 export interface UseRBACReturn {
     /** Check if user has permission for a specific action on a resource */
@@ -141,33 +51,33 @@ export interface UseRBACReturn {
     getPermissions: () => Partial<Record<Resource, Action[]>>;
     /** Get all accessible pages for current user */
     getAccessiblePages: () => Resource[];
+    /** False until the role's permissions have been fetched */
+    loaded: boolean;
 }
 
 /**
- * RBAC Hook - provides permission checking functions
+ * RBAC Hook - provides permission checking functions backed by the
+ * admin-editable permission matrix (GET /api/permissions/me)
  */
 export const useRBAC = (): UseRBACReturn => {
-    const { user } = useAuthStore();
+    const { user, accessToken } = useAuthStore();
+    const { userId, permissions, loaded, fetchPermissions } = usePermissionStore();
     const userRole = (user?.role as Role) || null;
+    const current = loaded && !!user && userId === user.id;
 
-    const hasPermission = (resource: Resource, action: Action): boolean => {
-        if (!userRole) return false;
+    useEffect(() => {
+        if (user && accessToken && !current) {
+            fetchPermissions(user.id, accessToken);
+        }
+    }, [user?.id, accessToken, current]);
 
-        const permissions = ROLE_PERMISSIONS[userRole];
-        if (!permissions) return false;
-
-        const resourcePermissions = permissions[resource];
-        if (!resourcePermissions) return false;
-
-        return resourcePermissions.includes(action);
+    const hasPermission = (resource: Resource, action: Action): boolean => {
+        if (!userRole || !current) return false;
+        return permissions[resource]?.includes(action) ?? false;
     };
 
-    const canAccessPage = (page: Resource): boolean => {
-        if (!userRole) return false;
-
-        const accessiblePages = PAGE_ACCESS[userRole];
-        return accessiblePages?.includes(page) ?? false;
-    };
+    // A page is reachable when the role may read its resource
+    const canAccessPage = (page: Resource): boolean => hasPermission(page, 'read');
 
     const hasRole = (...roles: Role[]): boolean => {
         if (!userRole) return false;
@@ -177,13 +87,13 @@ export const useRBAC = (): UseRBACReturn => {
     const isAdmin = userRole === 'ADMIN';
 
     const getPermissions = (): Partial<Record<Resource, Action[]>> => {
-        if (!userRole) return {};
-        return ROLE_PERMISSIONS[userRole] || {};
+        if (!userRole || !current) return {};
+        return permissions;
     };
 
     const getAccessiblePages = (): Resource[] => {
-        if (!userRole) return [];
-        return PAGE_ACCESS[userRole] || [];
+        if (!userRole || !current) return [];
+        return (Object.keys(permissions) as Resource[]).filter(page => canAccessPage(page));
     };
 
     return {
@@ -194,7 +104,6 @@ export const useRBAC = (): UseRBACReturn => {
         userRole,
         getPermissions,
         getAccessiblePages,
+        loaded: current,
     };
 };
-
-export { ROLE_PERMISSIONS, PAGE_ACCESS };
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { useAuthStore } from '../stores/authStore';
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+// Socket.IO is served by the API host at /socket.io
+const SOCKET_URL = new URL(API_BASE, window.location.origin).origin;
+
+export interface ProjectEvent {
+    projectId: string;
+    entity: 'milestone' | 'comment' | 'budget' | 'report' | 'expense';
+    action: 'created' | 'updated' | 'deleted' | 'submitted' | 'approved' | 'rejected' | 'returned';
+    entityId: string;
+    actorId?: string;
+}
+
+export interface RealtimeNotification {
+    id: string;
+    type: string;
+    title: string;
+    message: string;
+    link?: string | null;
+    isRead: boolean;
+    createdAt: string;
+}
+
+interface ServerEvents {
+    'notification': (notification: RealtimeNotification) => void;
+    'project:updated': (event: ProjectEvent) => void;
+    'dashboard:updated': (event: ProjectEvent) => void;
+}
+
+interface ClientEvents {
+    'subscribe:project': (projectId: string) => void;
+    'unsubscribe:project': (projectId: string) => void;
+}
+
+type AppSocket = Socket<ServerEvents, ClientEvents>;
+
+// One connection per session, re-established when the access token changes
+let socket: AppSocket | null = null;
+let socketToken: string | null = null;
+
+const getSocket = (token: string | null): AppSocket | null => {
+    if (token !== socketToken) {
+        socket?.disconnect();
+        socket = token ? io(SOCKET_URL, { auth: { token } }) : null;
+        socketToken = token;
+    }
+    return socket;
+};
+
+// Runs the handler for every server event of this name while the component is mounted
+export function useSocketEvent<E extends keyof ServerEvents>(event: E, handler: ServerEvents[E]) {
+    const { accessToken } = useAuthStore();
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useEffect(() => {
+        const s = getSocket(accessToken);
+        if (!s) return;
+
+        // Cast to socket.io's own listener type for E, which it cannot resolve while E is generic
+        const listener = ((...args: Parameters<ServerEvents[E]>) =>
+            (handlerRef.current as (...a: Parameters<ServerEvents[E]>) => void)(...args)) as Parameters<typeof s.on<E>>[1];
+        s.on(event, listener);
+        return () => {
+            s.off(event, listener);
+        };
+    }, [accessToken, event]);
+}
+
+// Joins the project's room (the server checks membership) and reports its changes
+export function useProjectUpdates(projectId: string | undefined, onUpdate: (event: ProjectEvent) => void) {
+    const { accessToken } = useAuthStore();
+
+    useSocketEvent('project:updated', (event) => {
+        if (event.projectId === projectId) onUpdate(event);
+    });
+
+    useEffect(() => {
+        const s = getSocket(accessToken);
+        if (!s || !projectId) return;
+
+        const subscribe = () => s.emit('subscribe:project', projectId);
+        subscribe();
+        // Rooms are lost on reconnect
+        s.io.on('reconnect', subscribe);
+        return () => {
+            s.io.off('reconnect', subscribe);
+            s.emit('unsubscribe:project', projectId);
+        };
+    }, [accessToken, projectId]);
+}
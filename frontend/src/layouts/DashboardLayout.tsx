@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Outlet, NavLink, useNavigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import { useSocketEvent, RealtimeNotification } from '../hooks/useSocket';
+import { useRBAC, Resource } from '../hooks/useRBAC';
 import {
     LayoutDashboard,
     Building2,
@@ -31,32 +33,25 @@ import {
     Activity
 } from 'lucide-react';
 
-interface Notification {
-    id: string;
-    type: string;
-    message: string;
-    createdAt: string;
-    isRead: boolean;
-}
-
-const navigation = [
-    { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
-    { name: 'DG Analytics', href: '/dg-dashboard', icon: Building2, roles: ['DIRECTOR_GENERAL', 'ADMIN', 'DIRECTOR'] },
-    { name: 'Projects', href: '/projects', icon: FolderKanban },
+// `page` is the permission-matrix resource whose read grant shows the entry
+const navigation: Array<{ name: string; href: string; icon: typeof LayoutDashboard; page?: Resource }> = [
+    { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, page: 'dashboard' },
+    { name: 'DG Analytics', href: '/dg-dashboard', icon: Building2, page: 'dg-dashboard' },
+    { name: 'Projects', href: '/projects', icon: FolderKanban, page: 'projects' },
     { name: 'Proposals', href: '/proposals', icon: Lightbulb },
-    { name: 'Finance & Costing', href: '/finance', icon: BadgeIndianRupee, roles: ['ADMIN', 'DIRECTOR', 'DIRECTOR_GENERAL', 'SUPERVISOR', 'PROJECT_HEAD'] },
-    { name: 'Staff & Teams', href: '/staff', icon: Users2 },
-    { name: 'RC Meetings', href: '/rc-meetings', icon: CalendarDays, roles: ['ADMIN', 'DIRECTOR', 'DIRECTOR_GENERAL', 'SUPERVISOR', 'RC_MEMBER'] },
-    { name: 'Document Vault', href: '/documents', icon: FileText },
-    { name: 'Reports & Analytics', href: '/reports', icon: BarChart3 },
-    { name: 'Visual Timeline', href: '/timeline', icon: Clock },
-    { name: 'Project Archive', href: '/archive', icon: Archive, roles: ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'] },
+    { name: 'Finance & Costing', href: '/finance', icon: BadgeIndianRupee, page: 'finance' },
+    { name: 'Staff & Teams', href: '/staff', icon: Users2, page: 'staff' },
+    { name: 'RC Meetings', href: '/rc-meetings', icon: CalendarDays, page: 'rc-meetings' },
+    { name: 'Document Vault', href: '/documents', icon: FileText, page: 'documents' },
+    { name: 'Reports & Analytics', href: '/reports', icon: BarChart3, page: 'reports' },
+    { name: 'Visual Timeline', href: '/timeline', icon: Clock, page: 'timeline' },
+    { name: 'Project Archive', href: '/archive', icon: Archive, page: 'archive' },
 ];
 
-const adminNavigation = [
-    { name: 'User Management', href: '/users', icon: UserCog, roles: ['ADMIN', 'SUPERVISOR'] },
-    { name: 'Bulk Import', href: '/bulk-import', icon: FileSpreadsheet, roles: ['ADMIN', 'SUPERVISOR'] },
-    { name: 'System Settings', href: '/settings', icon: Settings, roles: ['ADMIN'] },
+const adminNavigation: typeof navigation = [
+    { name: 'User Management', href: '/users', icon: UserCog, page: 'users' },
+    { name: 'Bulk Import', href: '/bulk-import', icon: FileSpreadsheet, page: 'bulk-import' },
+    { name: 'System Settings', href: '/settings', icon: Settings, page: 'settings' },
 ];
 
 // Pinned featured projects for quick jump (Trackline style)
@@ -73,10 +68,11 @@ export default function DashboardLayout() {
     const navigate = useNavigate();
     const location = useLocation();
     const { user, accessToken, logout } = useAuthStore();
+    const { canAccessPage } = useRBAC();
     const [sidebarOpen, setSidebarOpen] = useState(false);
     const [userMenuOpen, setUserMenuOpen] = useState(false);
     const [notificationOpen, setNotificationOpen] = useState(false);
-    const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [notifications, setNotifications] = useState<RealtimeNotification[]>([]);
     const [unreadCount, setUnreadCount] = useState(0);
     const [pushingUpdate, setPushingUpdate] = useState(false);
     const [successMessage, setSuccessMessage] = useState('');
@@ -87,28 +83,23 @@ export default function DashboardLayout() {
 
     useEffect(() => {
         fetchNotifications();
-        const interval = setInterval(fetchNotifications, 30000);
-        return () => clearInterval(interval);
     }, []);
 
+    // New notifications are pushed by the server instead of polled
+    useSocketEvent('notification', (notification) => {
+        setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)].slice(0, 20));
+        setUnreadCount(prev => prev + 1);
+    });
+
     const fetchNotifications = async () => {
         try {
-            const response = await fetch(`${API_BASE}/dashboard/stats`, {
+            const response = await fetch(`${API_BASE}/notifications?limit=20`, {
                 headers: { Authorization: `Bearer ${accessToken}` }
             });
             if (response.ok) {
                 const data = await response.json();
-                if (data.recentActivities) {
-                    const formatted: Notification[] = data.recentActivities.map((act: any, idx: number) => ({
-                        id: act.id || `act-${idx}`,
-                        type: act.action || 'UPDATE',
-                        message: `${act.user ? act.user.firstName + ' ' + act.user.lastName : 'System'}: ${act.action} on ${act.entity || 'Project'}`,
-                        createdAt: act.createdAt || new Date().toISOString(),
-                        isRead: false
-                    }));
-                    setNotifications(formatted);
-                    setUnreadCount(formatted.length);
-                }
+                setNotifications(data.notifications);
+                setUnreadCount(data.unreadCount);
             }
         } catch {
             setNotifications([]);
@@ -116,11 +107,34 @@ export default function DashboardLayout() {
         }
     };
 
-    const handleMarkAsRead = (notificationId: string) => {
-        setNotifications(notifications.map(n =>
-            n.id === notificationId ? { ...n, isRead: true } : n
-        ));
-        setUnreadCount(Math.max(0, unreadCount - 1));
+    const handleOpenNotification = async (notification: RealtimeNotification) => {
+        if (!notification.isRead) {
+            setNotifications(prev => prev.map(n =>
+                n.id === notification.id ? { ...n, isRead: true } : n
+            ));
+            setUnreadCount(prev => Math.max(0, prev - 1));
+            fetch(`${API_BASE}/notifications/${notification.id}/read`, {
+                method: 'PATCH',
+                headers: { Authorization: `Bearer ${accessToken}` }
+            }).catch(() => undefined);
+        }
+        if (notification.link) {
+            setNotificationOpen(false);
+            navigate(notification.link);
+        }
+    };
+
+    const handleMarkAllAsRead = async () => {
+        setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+        setUnreadCount(0);
+        try {
+            await fetch(`${API_BASE}/notifications/read-all`, {
+                method: 'PATCH',
+                headers: { Authorization: `Bearer ${accessToken}` }
+            });
+        } catch {
+            fetchNotifications();
+        }
     };
 
     const handlePushUpdateRequest = async () => {
@@ -160,11 +174,8 @@ export default function DashboardLayout() {
         navigate('/login');
     };
 
-    const filterNavByRole = (nav: typeof navigation) => {
-        return nav.filter(item => {
-            if (!item.roles) return true;
-            return item.roles.includes(user?.role || '');
-        });
+    const filterNavByPermission = (nav: typeof navigation) => {
+        return nav.filter(item => !item.page || canAccessPage(item.page));
     };
 
     const roleLabels: Record<string, string> = {
@@ -253,7 +264,7 @@ export default function DashboardLayout() {
                             <p className="px-3 py-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
                                 Main Menu
                             </p>
-                            {filterNavByRole(navigation).map((item) => {
+                            {filterNavByPermission(navigation).map((item) => {
                                 const Icon = item.icon;
                                 const isActive = location.pathname === item.href || (item.href !== '/dashboard' && location.pathname.startsWith(item.href));
                                 return (
@@ -270,14 +281,14 @@ export default function DashboardLayout() {
                                 );
                             })}
 
-                            {filterNavByRole(adminNavigation).length > 0 && (
+                            {filterNavByPermission(adminNavigation).length > 0 && (
                                 <>
                                     <div className="pt-3 pb-1">
                                         <p className="px-3 py-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
                                             Administration
                                         </p>
                                     </div>
-                                    {filterNavByRole(adminNavigation).map((item) => {
+                                    {filterNavByPermission(adminNavigation).map((item) => {
                                         const Icon = item.icon;
                                         const isActive = location.pathname.startsWith(item.href);
                                         return (
@@ -418,11 +429,16 @@ export default function DashboardLayout() {
                                         <div className="fixed inset-0 z-10" onClick={() => setNotificationOpen(false)} />
                                         <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white/95 backdrop-blur-2xl rounded-3xl shadow-glossy-xl border border-white/90 py-2 z-20 animate-scale-in">
                                             <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between">
-                                                <h3 className="font-bold text-sm text-secondary-900">Activity & Alerts</h3>
+                                                <h3 className="font-bold text-sm text-secondary-900">Notifications</h3>
                                                 {unreadCount > 0 && (
-                                                    <span className="text-[11px] bg-primary-100 text-primary-700 font-semibold px-2 py-0.5 rounded-full">
-                                                        {unreadCount} active
-                                                    </span>
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="text-[11px] bg-primary-100 text-primary-700 font-semibold px-2 py-0.5 rounded-full">
+                                                            {unreadCount} unread
+                                                        </span>
+                                                        <button onClick={handleMarkAllAsRead} className="text-[11px] text-primary-600 hover:text-primary-700 font-semibold">
+                                                            Mark all read
+                                                        </button>
+                                                    </div>
                                                 )}
                                             </div>
                                             <div className="max-h-80 overflow-y-auto divide-y divide-slate-50">
@@ -434,13 +450,14 @@ export default function DashboardLayout() {
                                                     notifications.map((n) => (
                                                         <div
                                                             key={n.id}
-                                                            onClick={() => handleMarkAsRead(n.id)}
+                                                            onClick={() => handleOpenNotification(n)}
                                                             className={`p-3.5 hover:bg-slate-50/80 cursor-pointer transition-colors ${!n.isRead ? 'bg-primary-50/30' : ''}`}
                                                         >
                                                             <div className="flex items-start gap-2.5">
                                                                 <span className={`w-2 h-2 rounded-full mt-1.5 ${!n.isRead ? 'bg-primary-500' : 'bg-slate-300'}`} />
                                                                 <div className="flex-1">
-                                                                    <p className="text-xs text-secondary-800 leading-snug">{n.message}</p>
+                                                                    <p className="text-xs font-semibold text-secondary-900 leading-snug">{n.title}</p>
+                                                                    <p className="text-xs text-secondary-700 leading-snug mt-0.5">{n.message}</p>
                                                                     <p className="text-[10px] text-slate-400 mt-1">{formatTimeAgo(n.createdAt)}</p>
                                                                 </div>
                                                             </div>
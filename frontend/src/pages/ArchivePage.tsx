@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
 import {
     ArchiveRegular,
     FolderRegular,
@@ -9,100 +11,186 @@ import {
     ChevronDownRegular,
     ArrowDownloadRegular,
     EyeRegular,
-    FilterRegular,
     ClockRegular,
-    CheckmarkCircleRegular,
-    DismissCircleRegular,
     DismissRegular,
+    MoneyRegular,
+    ArrowUndoRegular,
+    LockClosedRegular,
 } from '@fluentui/react-icons';
 
-interface ArchivedProject {
+type ArchiveTab = 'projects' | 'reports' | 'documents' | 'budgets' | 'minutes';
+
+interface ProjectRef {
     id: string;
     code: string;
     title: string;
     category: string;
-    status: string;
-    completedAt?: string;
-    archivedAt: string;
-    projectHead?: { firstName: string; lastName: string };
+    vertical?: { name: string; code: string } | null;
 }
 
-interface ArchivedReport {
+interface UserRef {
     id: string;
-    type: string;
-    period: string;
-    projectCode?: string;
-    generatedAt: string;
-    downloadUrl?: string;
+    firstName: string;
+    lastName: string;
 }
 
-interface ArchivedAgenda {
+interface Frozen {
     id: string;
-    meetingNumber: number;
-    date: string;
-    projectCount: number;
+    archiveId: string | null;
     archivedAt: string;
 }
 
+interface ArchivedProject extends Frozen {
+    code: string;
+    title: string;
+    category: string;
+    status: string;
+    startDate: string;
+    endDate: string;
+    vertical?: { name: string; code: string } | null;
+    projectHead?: UserRef;
+}
+
+interface ArchivedReport extends Frozen {
+    reportType: string;
+    title: string;
+    content: string;
+    period?: string | null;
+    status: string;
+    createdAt: string;
+    project: ProjectRef;
+    submittedBy?: UserRef;
+    attachments: Array<{ id: string; fileName: string; fileSize: number }>;
+}
+
+interface ArchivedDocument extends Frozen {
+    title: string;
+    type: string;
+    fileName: string;
+    fileSize: number;
+    createdAt: string;
+    project?: ProjectRef | null;
+    uploadedBy?: UserRef;
+}
+
+interface ArchivedBudget extends Frozen {
+    category: string;
+    fiscalYear: string;
+    amountINR: number;
+    utilized: number;
+    project: ProjectRef;
+}
+
+interface ArchivedMinutes extends Frozen {
+    content: string;
+    version: number;
+    isFinal: boolean;
+    createdAt: string;
+    meeting: { id: string; title: string; meetingNumber: number; date: string; _count: { agendaItems: number } };
+    createdBy?: UserRef;
+}
+
+interface Vertical {
+    id: string;
+    name: string;
+    code: string;
+}
+
+interface Pagination {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+}
+
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
+const formatINR = (value: number) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(value);
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+const fullName = (user?: UserRef | null) => (user ? `${user.firstName} ${user.lastName}` : '');
+
 export default function ArchivePage() {
-    const { accessToken } = useAuthStore();
-    const [activeTab, setActiveTab] = useState<'projects' | 'reports' | 'agendas'>('projects');
+    const { accessToken, user } = useAuthStore();
+    const { hasPermission } = useRBAC();
+    const [activeTab, setActiveTab] = useState<ArchiveTab>('projects');
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState('');
     const [yearFilter, setYearFilter] = useState<string>('');
+    const [categoryFilter, setCategoryFilter] = useState('ALL');
+    const [verticalFilter, setVerticalFilter] = useState('ALL');
+    const [page, setPage] = useState(1);
+    const [verticals, setVerticals] = useState<Vertical[]>([]);
+    const [error, setError] = useState('');
 
-    // Data
-    const [projects, setProjects] = useState<ArchivedProject[]>([]);
-    const [reports, setReports] = useState<ArchivedReport[]>([]);
-    const [agendas, setAgendas] = useState<ArchivedAgenda[]>([]);
+    // Data: the rows of the active tab
+    const [rows, setRows] = useState<any[]>([]);
+    const [pagination, setPagination] = useState<Pagination | null>(null);
 
     // Preview modal
-    const [showPreviewModal, setShowPreviewModal] = useState(false);
-    const [previewContent, setPreviewContent] = useState<any>(null);
+    const [previewContent, setPreviewContent] = useState<{ title: string; subtitle: string; body: string } | null>(null);
 
-    // Generate year options (last 10 years)
-    const currentYear = new Date().getFullYear();
-    const years = Array.from({ length: 10 }, (_, i) => currentYear - i);
+    // Restore modal
+    const [restoreTarget, setRestoreTarget] = useState<{ archiveId: string; label: string } | null>(null);
+    const [restoreReason, setRestoreReason] = useState('');
+    const [restoring, setRestoring] = useState(false);
+
+    const canRestore = hasPermission('archive', 'manage');
+
+    // Fiscal years (April-March), current first
+    const now = new Date();
+    const currentFyStart = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+    const years = Array.from({ length: 10 }, (_, i) => {
+        const start = currentFyStart - i;
+        return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+    });
+
+    useEffect(() => {
+        fetchVerticals();
+    }, []);
+
+    useEffect(() => {
+        setPage(1);
+    }, [activeTab, yearFilter, search, categoryFilter, verticalFilter]);
 
     useEffect(() => {
         fetchData();
-    }, [activeTab, yearFilter, search]);
+    }, [activeTab, yearFilter, search, categoryFilter, verticalFilter, page]);
+
+    const fetchVerticals = async () => {
+        try {
+            const res = await fetch(`${API_BASE}/verticals`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                setVerticals(await res.json());
+            }
+        } catch (err) {
+            console.error('Failed to fetch verticals:', err);
+        }
+    };
 
     const fetchData = async () => {
         setLoading(true);
         try {
-            const params = new URLSearchParams();
+            const params = new URLSearchParams({ type: activeTab, page: String(page), limit: '20' });
             if (yearFilter) params.append('year', yearFilter);
             if (search) params.append('search', search);
+            if (categoryFilter !== 'ALL') params.append('category', categoryFilter);
+            if (verticalFilter !== 'ALL') params.append('vertical', verticalFilter);
 
-            if (activeTab === 'projects') {
-                params.append('status', 'COMPLETED,CANCELLED');
-                const res = await fetch(`${API_BASE}/projects?${params}`, {
-                    headers: { Authorization: `Bearer ${accessToken}` },
-                });
-                if (res.ok) {
-                    const data = await res.json();
-                    setProjects(data.data || []);
-                }
-            } else if (activeTab === 'reports') {
-                const res = await fetch(`${API_BASE}/reports/archived?${params}`, {
-                    headers: { Authorization: `Bearer ${accessToken}` },
-                });
-                if (res.ok) {
-                    const data = await res.json();
-                    setReports(data || []);
-                }
-            } else if (activeTab === 'agendas') {
-                params.append('status', 'COMPLETED');
-                const res = await fetch(`${API_BASE}/rc-meetings?${params}`, {
-                    headers: { Authorization: `Bearer ${accessToken}` },
-                });
-                if (res.ok) {
-                    const data = await res.json();
-                    setAgendas(data.data || []);
-                }
+            const res = await fetch(`${API_BASE}/archive?${params}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const data = await res.json();
+                setRows(data.data || []);
+                setPagination(data.pagination || null);
+            } else {
+                setRows([]);
+                setPagination(null);
             }
         } catch (err) {
             console.error('Failed to fetch archive data:', err);
@@ -130,6 +218,35 @@ export default function ArchivePage() {
         }
     };
 
+    const handleRestore = async () => {
+        if (!restoreTarget) return;
+        setRestoring(true);
+        setError('');
+        try {
+            const res = await fetch(`${API_BASE}/archive/records/${restoreTarget.archiveId}/restore`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({ reason: restoreReason }),
+            });
+            if (res.ok) {
+                setRestoreTarget(null);
+                setRestoreReason('');
+                fetchData();
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to restore');
+            }
+        } catch (err) {
+            console.error('Restore failed:', err);
+            setError('Failed to restore');
+        } finally {
+            setRestoring(false);
+        }
+    };
+
     const statusColors: Record<string, string> = {
         COMPLETED: 'bg-success-100 text-success-700 border-success-200',
         CANCELLED: 'bg-danger-100 text-danger-700 border-danger-200',
@@ -143,6 +260,205 @@ export default function ArchivePage() {
         COMPLETION: 'Completion Report',
     };
 
+    const tabs: Array<{ id: ArchiveTab; label: string; icon: typeof FolderRegular; empty: string }> = [
+        { id: 'projects', label: 'Closed Projects', icon: FolderRegular, empty: 'Completed and cancelled projects will appear here' },
+        { id: 'reports', label: 'Reports', icon: DocumentRegular, empty: 'Reports of closed projects and fiscal years will appear here' },
+        { id: 'documents', label: 'Documents', icon: ArchiveRegular, empty: 'Documents of closed projects and fiscal years will appear here' },
+        { id: 'budgets', label: 'Budgets', icon: MoneyRegular, empty: 'Budgets of closed fiscal years will appear here' },
+        { id: 'minutes', label: 'RC Minutes', icon: CalendarRegular, empty: 'Minutes of RC meetings in closed fiscal years will appear here' },
+    ];
+    const currentTab = tabs.find(t => t.id === activeTab)!;
+
+    const renderRestore = (row: Frozen, label: string) =>
+        canRestore && row.archiveId ? (
+            <button
+                onClick={() => setRestoreTarget({ archiveId: row.archiveId!, label })}
+                className="btn-ghost text-sm"
+                title="Restore to make editable again"
+            >
+                <ArrowUndoRegular className="w-4 h-4 mr-1" />
+                Restore
+            </button>
+        ) : null;
+
+    const archivedOn = (row: Frozen) => (
+        <span className="flex items-center gap-1">
+            <ClockRegular className="w-4 h-4" />
+            Archived: {formatDate(row.archivedAt)}
+        </span>
+    );
+
+    const renderRow = (row: any) => {
+        switch (activeTab) {
+            case 'projects': {
+                const project = row as ArchivedProject;
+                return (
+                    <>
+                        <div className="w-12 h-12 rounded-lg bg-gradient-premium flex items-center justify-center text-white">
+                            <FolderRegular className="w-6 h-6" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-mono text-sm text-primary-600">{project.code}</span>
+                                <span className={`badge border text-xs ${statusColors[project.status] || 'bg-secondary-100'}`}>
+                                    {project.status}
+                                </span>
+                            </div>
+                            <h4 className="font-medium text-secondary-900">{project.title}</h4>
+                            <div className="flex items-center gap-4 mt-1 text-sm text-secondary-500">
+                                <span>{fullName(project.projectHead)}</span>
+                                {project.vertical && <span>{project.vertical.code}</span>}
+                                <span>{formatDate(project.startDate)} – {formatDate(project.endDate)}</span>
+                                {archivedOn(project)}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Link to={`/projects/${project.id}`} className="btn-ghost text-sm">
+                                <EyeRegular className="w-4 h-4 mr-1" />
+                                View
+                            </Link>
+                            {renderRestore(project, `project ${project.code}`)}
+                        </div>
+                    </>
+                );
+            }
+
+            case 'reports': {
+                const report = row as ArchivedReport;
+                return (
+                    <>
+                        <div className="w-12 h-12 rounded-lg bg-primary-100 flex items-center justify-center">
+                            <DocumentRegular className="w-6 h-6 text-primary-600" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-mono text-sm text-primary-600">{report.project.code}</span>
+                                <span className="badge border text-xs bg-secondary-100">{typeLabels[report.reportType] || report.reportType}</span>
+                            </div>
+                            <h4 className="font-medium text-secondary-900">{report.title}</h4>
+                            <div className="flex items-center gap-4 mt-1 text-sm text-secondary-500">
+                                {report.period && <span>Period: {report.period}</span>}
+                                <span>{fullName(report.submittedBy)}</span>
+                                {report.attachments.length > 0 && <span>{report.attachments.length} attachment(s)</span>}
+                                {archivedOn(report)}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setPreviewContent({
+                                    title: report.title,
+                                    subtitle: `${report.project.code} · ${typeLabels[report.reportType] || report.reportType}${report.period ? ` · ${report.period}` : ''}`,
+                                    body: report.content,
+                                })}
+                                className="btn-ghost text-sm"
+                            >
+                                <EyeRegular className="w-4 h-4 mr-1" />
+                                View
+                            </button>
+                            {renderRestore(report, `the archive containing ${report.project.code}`)}
+                        </div>
+                    </>
+                );
+            }
+
+            case 'documents': {
+                const doc = row as ArchivedDocument;
+                return (
+                    <>
+                        <div className="w-12 h-12 rounded-lg bg-secondary-100 flex items-center justify-center">
+                            <ArchiveRegular className="w-6 h-6 text-secondary-600" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                                {doc.project && <span className="font-mono text-sm text-primary-600">{doc.project.code}</span>}
+                                <span className="badge border text-xs bg-secondary-100">{doc.type}</span>
+                            </div>
+                            <h4 className="font-medium text-secondary-900">{doc.title}</h4>
+                            <div className="flex items-center gap-4 mt-1 text-sm text-secondary-500">
+                                <span>{doc.fileName}</span>
+                                <span>{fullName(doc.uploadedBy)}</span>
+                                {archivedOn(doc)}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => handleDownload(`${API_BASE}/documents/${doc.id}/download`, doc.fileName)}
+                                className="btn-ghost text-sm"
+                            >
+                                <ArrowDownloadRegular className="w-4 h-4 mr-1" />
+                                Download
+                            </button>
+                            {renderRestore(doc, `the archive containing ${doc.title}`)}
+                        </div>
+                    </>
+                );
+            }
+
+            case 'budgets': {
+                const budget = row as ArchivedBudget;
+                return (
+                    <>
+                        <div className="w-12 h-12 rounded-lg bg-success-100 flex items-center justify-center">
+                            <MoneyRegular className="w-6 h-6 text-success-600" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-mono text-sm text-primary-600">{budget.project.code}</span>
+                                <span className="badge border text-xs bg-secondary-100">FY {budget.fiscalYear}</span>
+                            </div>
+                            <h4 className="font-medium text-secondary-900">{budget.category}</h4>
+                            <div className="flex items-center gap-4 mt-1 text-sm text-secondary-500">
+                                <span>Allocated: {formatINR(budget.amountINR)}</span>
+                                <span>Utilized: {formatINR(budget.utilized)}</span>
+                                {archivedOn(budget)}
+                            </div>
+                        </div>
+                        {renderRestore(budget, `the archive containing ${budget.project.code} FY ${budget.fiscalYear}`)}
+                    </>
+                );
+            }
+
+            case 'minutes': {
+                const minutes = row as ArchivedMinutes;
+                return (
+                    <>
+                        <div className="w-12 h-12 rounded-lg bg-accent-100 flex items-center justify-center">
+                            <CalendarRegular className="w-6 h-6 text-accent-600" />
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-mono text-sm text-primary-600">RC #{minutes.meeting.meetingNumber}</span>
+                                <span className="badge border text-xs bg-secondary-100">
+                                    v{minutes.version}{minutes.isFinal ? ' · Final' : ''}
+                                </span>
+                            </div>
+                            <h4 className="font-medium text-secondary-900">{minutes.meeting.title}</h4>
+                            <div className="flex items-center gap-4 mt-1 text-sm text-secondary-500">
+                                <span>{formatDate(minutes.meeting.date)}</span>
+                                <span>{minutes.meeting._count.agendaItems} agenda items</span>
+                                {archivedOn(minutes)}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setPreviewContent({
+                                    title: `Minutes — ${minutes.meeting.title}`,
+                                    subtitle: `RC Meeting #${minutes.meeting.meetingNumber} · ${formatDate(minutes.meeting.date)} · Version ${minutes.version}`,
+                                    body: minutes.content,
+                                })}
+                                className="btn-ghost text-sm"
+                            >
+                                <EyeRegular className="w-4 h-4 mr-1" />
+                                View
+                            </button>
+                            {renderRestore(minutes, `the archive containing RC #${minutes.meeting.meetingNumber}`)}
+                        </div>
+                    </>
+                );
+            }
+        }
+    };
+
     return (
         <div className="space-y-6 animate-fade-in">
             {/* Header */}
@@ -150,23 +466,28 @@ export default function ArchivePage() {
                 <div>
                     <h1 className="text-2xl font-display font-bold text-secondary-900">Archive</h1>
                     <p className="text-secondary-500 mt-1">
-                        Access completed projects, past reports, and RC meeting agendas
+                        Read-only records of closed projects and fiscal years
                     </p>
                 </div>
             </div>
 
+            {error && (
+                <div className="p-3 rounded-lg bg-danger-50 border border-danger-200 text-danger-700 text-sm flex items-center justify-between">
+                    <span>{error}</span>
+                    <button onClick={() => setError('')}>
+                        <DismissRegular className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
             {/* Tabs */}
             <div className="premium-card">
-                <div className="flex border-b border-secondary-200">
-                    {[
-                        { id: 'projects', label: 'Completed Projects', icon: FolderRegular },
-                        { id: 'reports', label: 'Generated Reports', icon: DocumentRegular },
-                        { id: 'agendas', label: 'RC Agendas', icon: CalendarRegular },
-                    ].map(tab => (
+                <div className="flex border-b border-secondary-200 overflow-x-auto">
+                    {tabs.map(tab => (
                         <button
                             key={tab.id}
-                            onClick={() => setActiveTab(tab.id as any)}
-                            className={`flex items-center gap-2 px-6 py-4 border-b-2 transition-colors ${activeTab === tab.id
+                            onClick={() => setActiveTab(tab.id)}
+                            className={`flex items-center gap-2 px-6 py-4 border-b-2 transition-colors whitespace-nowrap ${activeTab === tab.id
                                 ? 'border-primary-500 text-primary-600 bg-primary-50/50'
                                 : 'border-transparent text-secondary-500 hover:text-secondary-700 hover:bg-secondary-50'
                                 }`}
@@ -197,7 +518,38 @@ export default function ArchivePage() {
                         >
                             <option value="">All Years</option>
                             {years.map(year => (
-                                <option key={year} value={year}>{year}</option>
+                                <option key={year} value={year}>FY {year}</option>
+                            ))}
+                        </select>
+                        <ChevronDownRegular className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary-400 pointer-events-none" />
+                    </div>
+                    <div className="relative">
+                        <select
+                            value={categoryFilter}
+                            onChange={(e) => setCategoryFilter(e.target.value)}
+                            className="input-premium pr-10 min-w-[150px]"
+                        >
+                            <option value="ALL">All Categories</option>
+                            <option value="GAP">Grant-in-Aid (GAP)</option>
+                            <option value="CNP">Consultancy (CNP)</option>
+                            <option value="OLP">Other Lab (OLP)</option>
+                            <option value="EFP">Ext. Funded (EFP)</option>
+                            <option value="BMP">Bilateral Mission (BMP)</option>
+                            <option value="FBR">Focus Basic (FBR)</option>
+                            <option value="FTT">Fast Track (FTT)</option>
+                            <option value="STS">Short Term (STS)</option>
+                        </select>
+                        <ChevronDownRegular className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary-400 pointer-events-none" />
+                    </div>
+                    <div className="relative">
+                        <select
+                            value={verticalFilter}
+                            onChange={(e) => setVerticalFilter(e.target.value)}
+                            className="input-premium pr-10 min-w-[150px]"
+                        >
+                            <option value="ALL">All Verticals</option>
+                            {verticals.map(v => (
+                                <option key={v.id} value={v.code}>{v.name} ({v.code})</option>
                             ))}
                         </select>
                         <ChevronDownRegular className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-secondary-400 pointer-events-none" />
@@ -218,173 +570,110 @@ export default function ArchivePage() {
                                 </div>
                             ))}
                         </div>
-                    ) : activeTab === 'projects' ? (
-                        <div className="space-y-4">
-                            {projects.length === 0 ? (
-                                <div className="text-center py-12">
-                                    <ArchiveRegular className="w-16 h-16 mx-auto text-secondary-300 mb-4" />
-                                    <h3 className="text-lg font-semibold text-secondary-900 mb-2">No archived projects</h3>
-                                    <p className="text-secondary-500">Completed and cancelled projects will appear here</p>
-                                </div>
-                            ) : (
-                                projects.map(project => (
-                                    <div
-                                        key={project.id}
-                                        className="flex items-center gap-4 p-4 border border-secondary-100 rounded-lg hover:border-primary-200 hover:bg-primary-50/30 transition-colors"
-                                    >
-                                        <div className="w-12 h-12 rounded-lg bg-gradient-premium flex items-center justify-center text-white">
-                                            <FolderRegular className="w-6 h-6" />
-                                        </div>
-                                        <div className="flex-1">
-                                            <div className="flex items-center gap-2 mb-1">
-                                                <span className="font-mono text-sm text-primary-600">{project.code}</span>
-                                                <span className={`badge border text-xs ${statusColors[project.status] || 'bg-secondary-100'}`}>
-                                                    {project.status}
-                                                </span>
-                                            </div>
-                                            <h4 className="font-medium text-secondary-900">{project.title}</h4>
-                                            <div className="flex items-center gap-4 mt-1 text-sm text-secondary-500">
-                                                <span>{project.projectHead?.firstName} {project.projectHead?.lastName}</span>
-                                                <span className="flex items-center gap-1">
-                                                    <ClockRegular className="w-4 h-4" />
-                                                    Archived: {new Date(project.archivedAt || project.completedAt || '').toLocaleDateString()}
-                                                </span>
-                                            </div>
-                                        </div>
-                                        <button className="btn-ghost">
-                                            <EyeRegular className="w-5 h-5 mr-1" />
-                                            View
-                                        </button>
-                                    </div>
-                                ))
-                            )}
-                        </div>
-                    ) : activeTab === 'reports' ? (
-                        <div className="space-y-4">
-                            {reports.length === 0 ? (
-                                <div className="text-center py-12">
-                                    <DocumentRegular className="w-16 h-16 mx-auto text-secondary-300 mb-4" />
-                                    <h3 className="text-lg font-semibold text-secondary-900 mb-2">No archived reports</h3>
-                                    <p className="text-secondary-500">Generated reports will appear here</p>
-                                </div>
-                            ) : (
-                                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                                    {reports.map(report => (
-                                        <div
-                                            key={report.id}
-                                            className="p-4 border border-secondary-100 rounded-lg hover:border-primary-200 hover:bg-primary-50/30 transition-colors"
-                                        >
-                                            <div className="flex items-start justify-between mb-3">
-                                                <div className="p-2 rounded-lg bg-primary-100">
-                                                    <DocumentRegular className="w-6 h-6 text-primary-600" />
-                                                </div>
-                                                <span className="text-xs text-secondary-500">
-                                                    {new Date(report.generatedAt).toLocaleDateString()}
-                                                </span>
-                                            </div>
-                                            <h4 className="font-medium text-secondary-900 mb-1">
-                                                {typeLabels[report.type] || report.type}
-                                            </h4>
-                                            <p className="text-sm text-secondary-500 mb-3">
-                                                Period: {report.period}
-                                            </p>
-                                            {report.projectCode && (
-                                                <p className="text-xs text-primary-600 font-mono mb-3">
-                                                    {report.projectCode}
-                                                </p>
-                                            )}
-                                            <button
-                                                onClick={() => report.downloadUrl && handleDownload(report.downloadUrl, `report_${report.id}.pdf`)}
-                                                className="btn-ghost text-sm w-full"
-                                            >
-                                                <ArrowDownloadRegular className="w-4 h-4 mr-1" />
-                                                Download
-                                            </button>
-                                        </div>
-                                    ))}
-                                </div>
-                            )}
+                    ) : rows.length === 0 ? (
+                        <div className="text-center py-12">
+                            <currentTab.icon className="w-16 h-16 mx-auto text-secondary-300 mb-4" />
+                            <h3 className="text-lg font-semibold text-secondary-900 mb-2">No archived {currentTab.label.toLowerCase()}</h3>
+                            <p className="text-secondary-500">{currentTab.empty}</p>
                         </div>
                     ) : (
                         <div className="space-y-4">
-                            {agendas.length === 0 ? (
-                                <div className="text-center py-12">
-                                    <CalendarRegular className="w-16 h-16 mx-auto text-secondary-300 mb-4" />
-                                    <h3 className="text-lg font-semibold text-secondary-900 mb-2">No archived agendas</h3>
-                                    <p className="text-secondary-500">Past RC meeting agendas will appear here</p>
+                            {rows.map(row => (
+                                <div
+                                    key={row.id}
+                                    className="flex items-center gap-4 p-4 border border-secondary-100 rounded-lg hover:border-primary-200 hover:bg-primary-50/30 transition-colors"
+                                >
+                                    {renderRow(row)}
                                 </div>
-                            ) : (
-                                agendas.map(agenda => (
-                                    <div
-                                        key={agenda.id}
-                                        className="flex items-center gap-4 p-4 border border-secondary-100 rounded-lg hover:border-primary-200 hover:bg-primary-50/30 transition-colors"
-                                    >
-                                        <div className="w-12 h-12 rounded-lg bg-accent-100 flex items-center justify-center">
-                                            <CalendarRegular className="w-6 h-6 text-accent-600" />
-                                        </div>
-                                        <div className="flex-1">
-                                            <h4 className="font-medium text-secondary-900">
-                                                RC Meeting #{agenda.meetingNumber}
-                                            </h4>
-                                            <div className="flex items-center gap-4 mt-1 text-sm text-secondary-500">
-                                                <span>{new Date(agenda.date).toLocaleDateString()}</span>
-                                                <span>{agenda.projectCount} projects</span>
-                                            </div>
-                                        </div>
-                                        <div className="flex items-center gap-2">
-                                            <button className="btn-ghost">
-                                                <EyeRegular className="w-5 h-5 mr-1" />
-                                                View
-                                            </button>
-                                            <button className="btn-ghost">
-                                                <ArrowDownloadRegular className="w-5 h-5 mr-1" />
-                                                PDF
-                                            </button>
-                                        </div>
-                                    </div>
-                                ))
-                            )}
+                            ))}
                         </div>
                     )}
-                </div>
-            </div>
 
-            {/* Statistics */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="premium-card p-6">
-                    <div className="flex items-center gap-4">
-                        <div className="p-3 rounded-xl bg-success-100">
-                            <CheckmarkCircleRegular className="w-8 h-8 text-success-600" />
-                        </div>
-                        <div>
-                            <p className="text-2xl font-bold text-secondary-900">{projects.filter(p => p.status === 'COMPLETED').length}</p>
-                            <p className="text-sm text-secondary-500">Completed Projects</p>
+                    {/* Pagination */}
+                    {pagination && pagination.totalPages > 1 && (
+                        <div className="flex items-center justify-between mt-6 text-sm text-secondary-500">
+                            <span>
+                                <LockClosedRegular className="w-4 h-4 inline mr-1" />
+                                {pagination.total} archived records
+                            </span>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => setPage(p => p - 1)}
+                                    disabled={page <= 1}
+                                    className="btn-ghost text-sm disabled:opacity-50"
+                                >
+                                    Previous
+                                </button>
+                                <span>Page {pagination.page} of {pagination.totalPages}</span>
+                                <button
+                                    onClick={() => setPage(p => p + 1)}
+                                    disabled={page >= pagination.totalPages}
+                                    className="btn-ghost text-sm disabled:opacity-50"
+                                >
+                                    Next
+                                </button>
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </div>
-                <div className="premium-card p-6">
-                    <div className="flex items-center gap-4">
-                        <div className="p-3 rounded-xl bg-primary-100">
-                            <DocumentRegular className="w-8 h-8 text-primary-600" />
+            </div>
+
+            {/* Preview Modal */}
+            {previewContent && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[85vh] flex flex-col">
+                        <div className="p-6 border-b border-secondary-100 flex items-start justify-between">
+                            <div>
+                                <h3 className="text-lg font-semibold text-secondary-900">{previewContent.title}</h3>
+                                <p className="text-sm text-secondary-500 mt-1">{previewContent.subtitle}</p>
+                            </div>
+                            <button onClick={() => setPreviewContent(null)} className="p-1 hover:bg-secondary-100 rounded">
+                                <DismissRegular className="w-5 h-5" />
+                            </button>
                         </div>
-                        <div>
-                            <p className="text-2xl font-bold text-secondary-900">{reports.length}</p>
-                            <p className="text-sm text-secondary-500">Generated Reports</p>
+                        <div className="p-6 overflow-y-auto whitespace-pre-wrap text-sm text-secondary-700">
+                            {previewContent.body}
                         </div>
                     </div>
                 </div>
-                <div className="premium-card p-6">
-                    <div className="flex items-center gap-4">
-                        <div className="p-3 rounded-xl bg-accent-100">
-                            <CalendarRegular className="w-8 h-8 text-accent-600" />
+            )}
+
+            {/* Restore Modal */}
+            {restoreTarget && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+                        <div className="flex items-start justify-between mb-4">
+                            <h3 className="text-lg font-semibold text-secondary-900">Restore from Archive</h3>
+                            <button onClick={() => setRestoreTarget(null)} className="p-1 hover:bg-secondary-100 rounded">
+                                <DismissRegular className="w-5 h-5" />
+                            </button>
                         </div>
-                        <div>
-                            <p className="text-2xl font-bold text-secondary-900">{agendas.length}</p>
-                            <p className="text-sm text-secondary-500">RC Meetings Held</p>
+                        <p className="text-sm text-secondary-600 mb-4">
+                            Restoring {restoreTarget.label} makes every record it froze editable again. This action is audited.
+                        </p>
+                        <label className="block text-sm font-medium text-secondary-700 mb-1">Reason</label>
+                        <textarea
+                            value={restoreReason}
+                            onChange={(e) => setRestoreReason(e.target.value)}
+                            rows={3}
+                            className="input-premium w-full"
+                            placeholder="Why is this archive being reopened?"
+                        />
+                        <div className="flex justify-end gap-2 mt-4">
+                            <button onClick={() => setRestoreTarget(null)} className="btn-ghost">
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleRestore}
+                                disabled={restoring || restoreReason.trim().length < 5}
+                                className="btn-primary disabled:opacity-50"
+                            >
+                                {restoring ? 'Restoring...' : 'Restore'}
+                            </button>
                         </div>
                     </div>
                 </div>
-            </div>
+            )}
         </div>
     );
 }
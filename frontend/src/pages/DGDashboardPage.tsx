@@ -65,6 +65,39 @@ interface ProjectDetail {
     publicationsCount?: number;
 }
 
+interface EVMIndices {
+    bac: number;
+    pv: number;
+    ev: number;
+    ac: number;
+    cpi: number | null;
+    spi: number | null;
+    eac: number;
+    vac: number;
+    tcpi: number | null;
+}
+
+interface PortfolioEVM {
+    portfolio: EVMIndices;
+    byVertical: Array<EVMIndices & { vertical: { id: string; name: string; code: string }; projectCount: number }>;
+    byCategory: Array<EVMIndices & { category: string; projectCount: number }>;
+    timeSeries: Array<{ month: string; pv: number; ev: number; ac: number }>;
+}
+
+interface SpendForecast {
+    fiscalYear: string;
+    totals: {
+        allocatedINR: number;
+        yearEnd: { lowINR: number; expectedINR: number; highINR: number };
+        lapseINR: number;
+        overrunINR: number;
+        lapseCount: number;
+        overrunCount: number;
+    };
+    projects: Array<{ projectId: string; code: string; title: string; lapseINR: number; overrunINR: number; flags: Array<'LAPSE' | 'OVERRUN'> }>;
+    timeSeries: Array<{ month: string; actualINR: number | null; lowINR: number | null; expectedINR: number | null; highINR: number | null }>;
+}
+
 export default function DGDashboardPage() {
     const { accessToken } = useAuthStore();
     const [loading, setLoading] = useState(true);
@@ -77,6 +110,8 @@ export default function DGDashboardPage() {
     const [selectedStatus, setSelectedStatus] = useState('ALL');
     const [expandedRows, setExpandedRows] = useState<Record<string, boolean>>({});
     const [selectedProjectForModal, setSelectedProjectForModal] = useState<ProjectDetail | null>(null);
+    const [evm, setEvm] = useState<PortfolioEVM | null>(null);
+    const [forecast, setForecast] = useState<SpendForecast | null>(null);
 
     const categoryChartRef = useRef<any>(null);
     const budgetTrendChartRef = useRef<any>(null);
@@ -224,13 +259,27 @@ export default function DGDashboardPage() {
     const fetchDGData = async () => {
         setLoading(true);
         try {
-            const res = await fetch('/api/dashboard/director', {
-                headers: { Authorization: `Bearer ${accessToken}` },
-            });
+            const [res, evmRes, forecastRes] = await Promise.all([
+                fetch('/api/dashboard/director', {
+                    headers: { Authorization: `Bearer ${accessToken}` },
+                }),
+                fetch('/api/dashboard/evm?months=24', {
+                    headers: { Authorization: `Bearer ${accessToken}` },
+                }),
+                fetch('/api/finance/forecast', {
+                    headers: { Authorization: `Bearer ${accessToken}` },
+                }),
+            ]);
             if (res.ok) {
                 const result = await res.json();
                 if (result.exchangeRate) setExchangeRate(result.exchangeRate);
             }
+            if (evmRes.ok) {
+                setEvm(await evmRes.json());
+            }
+            if (forecastRes.ok) {
+                setForecast(await forecastRes.json());
+            }
         } catch (err) {
             console.error('Failed to load DG overview:', err);
         } finally {
@@ -273,6 +322,82 @@ export default function DGDashboardPage() {
     const totalBalance = totalPortfolioValue - totalExpenditure;
     const overallUtilization = Math.round((totalExpenditure / totalPortfolioValue) * 100);
 
+    const formatIndex = (value: number | null) => (value !== null ? value.toFixed(2) : '—');
+    const indexColor = (value: number | null) =>
+        value === null ? 'text-slate-400' : value >= 1 ? 'text-emerald-600' : value >= 0.9 ? 'text-amber-600' : 'text-rose-600';
+
+    // Chart: Earned value S-curve (cumulative, ₹ Cr)
+    const evmTrendData = {
+        labels: evm?.timeSeries.map(p => p.month) || [],
+        datasets: [
+            {
+                label: 'Planned Value (PV)',
+                data: evm?.timeSeries.map(p => +(p.pv / 10000000).toFixed(2)) || [],
+                borderColor: '#0078d4',
+                backgroundColor: 'rgba(0, 120, 212, 0.08)',
+                fill: true,
+                tension: 0.35,
+            },
+            {
+                label: 'Earned Value (EV)',
+                data: evm?.timeSeries.map(p => +(p.ev / 10000000).toFixed(2)) || [],
+                borderColor: '#10b981',
+                tension: 0.35,
+            },
+            {
+                label: 'Actual Cost (AC)',
+                data: evm?.timeSeries.map(p => +(p.ac / 10000000).toFixed(2)) || [],
+                borderColor: '#f59e0b',
+                borderDash: [6, 4],
+                tension: 0.35,
+            },
+        ],
+    };
+
+    // Chart: fiscal-year spend forecast band (cumulative, ₹ Cr)
+    const toCr = (value: number | null) => (value !== null ? +(value / 10000000).toFixed(2) : null);
+    const forecastTrendData = {
+        labels: forecast?.timeSeries.map(p => p.month) || [],
+        datasets: [
+            {
+                label: 'Forecast (high)',
+                data: forecast?.timeSeries.map(p => toCr(p.highINR)) || [],
+                borderColor: 'rgba(0, 120, 212, 0.3)',
+                backgroundColor: 'rgba(0, 120, 212, 0.12)',
+                fill: '+2',
+                pointRadius: 0,
+                tension: 0.35,
+            },
+            {
+                label: 'Forecast (expected)',
+                data: forecast?.timeSeries.map(p => toCr(p.expectedINR)) || [],
+                borderColor: '#0078d4',
+                borderDash: [6, 4],
+                tension: 0.35,
+            },
+            {
+                label: 'Forecast (low)',
+                data: forecast?.timeSeries.map(p => toCr(p.lowINR)) || [],
+                borderColor: 'rgba(0, 120, 212, 0.3)',
+                pointRadius: 0,
+                tension: 0.35,
+            },
+            {
+                label: 'Actual Spend',
+                data: forecast?.timeSeries.map(p => toCr(p.actualINR)) || [],
+                borderColor: '#10b981',
+                tension: 0.35,
+            },
+            {
+                label: 'FY Allocation',
+                data: forecast?.timeSeries.map(() => toCr(forecast.totals.allocatedINR)) || [],
+                borderColor: '#f43f5e',
+                borderDash: [2, 3],
+                pointRadius: 0,
+            },
+        ],
+    };
+
     // Chart: Category Donut Data
     const categoryChartData = {
         labels: ['Externally Funded (EFP)', 'Consultancy (CNP)', 'Other Lab (OLP)', 'Grant-in-Aid (GAP)', 'Short Term (STS)'],
@@ -488,6 +613,137 @@ export default function DGDashboardPage() {
                         </div>
                     </div>
 
+                    {/* Earned Value Management */}
+                    {evm && (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
+                            <div className="glass-panel p-5 lg:col-span-2">
+                                <div className="flex items-center justify-between mb-1">
+                                    <h3 className="font-bold text-sm text-secondary-900">Earned Value S-Curve</h3>
+                                    <div className="flex items-center gap-3 text-[11px] font-semibold">
+                                        <span>CPI <b className={indexColor(evm.portfolio.cpi)}>{formatIndex(evm.portfolio.cpi)}</b></span>
+                                        <span>SPI <b className={indexColor(evm.portfolio.spi)}>{formatIndex(evm.portfolio.spi)}</b></span>
+                                        <span>TCPI <b className="text-secondary-900">{formatIndex(evm.portfolio.tcpi)}</b></span>
+                                    </div>
+                                </div>
+                                <p className="text-[11px] text-slate-500 mb-4">
+                                    Cumulative PV, EV and AC (₹ Crores) · EAC {formatCurrency(evm.portfolio.eac)} against BAC {formatCurrency(evm.portfolio.bac)}
+                                </p>
+                                <div className="h-60">
+                                    <Line
+                                        data={evmTrendData}
+                                        options={{
+                                            responsive: true,
+                                            maintainAspectRatio: false,
+                                            plugins: { legend: { position: 'top', labels: { boxWidth: 12, font: { size: 11 } } } },
+                                            scales: {
+                                                y: { grid: { color: 'rgba(226, 232, 240, 0.6)' }, ticks: { font: { size: 10 } } },
+                                                x: { grid: { display: false }, ticks: { font: { size: 10 } } },
+                                            },
+                                        }}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="glass-panel p-5 space-y-3">
+                                <h3 className="font-bold text-sm text-secondary-900">Performance Indices</h3>
+                                <table className="w-full text-[11px]">
+                                    <thead>
+                                        <tr className="text-slate-400 uppercase tracking-wider text-[10px]">
+                                            <th className="text-left py-1">Segment</th>
+                                            <th className="text-right py-1">CPI</th>
+                                            <th className="text-right py-1">SPI</th>
+                                            <th className="text-right py-1">VAC</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {evm.byCategory.map(c => (
+                                            <tr key={c.category}>
+                                                <td className="py-1.5 font-bold text-secondary-900">{c.category} <span className="text-slate-400 font-normal">({c.projectCount})</span></td>
+                                                <td className={`py-1.5 text-right font-bold ${indexColor(c.cpi)}`}>{formatIndex(c.cpi)}</td>
+                                                <td className={`py-1.5 text-right font-bold ${indexColor(c.spi)}`}>{formatIndex(c.spi)}</td>
+                                                <td className="py-1.5 text-right text-slate-600">{formatCurrency(c.vac)}</td>
+                                            </tr>
+                                        ))}
+                                        {evm.byVertical.map(v => (
+                                            <tr key={v.vertical.id}>
+                                                <td className="py-1.5 font-mono font-bold text-primary-700">{v.vertical.code} <span className="text-slate-400 font-normal">({v.projectCount})</span></td>
+                                                <td className={`py-1.5 text-right font-bold ${indexColor(v.cpi)}`}>{formatIndex(v.cpi)}</td>
+                                                <td className={`py-1.5 text-right font-bold ${indexColor(v.spi)}`}>{formatIndex(v.spi)}</td>
+                                                <td className="py-1.5 text-right text-slate-600">{formatCurrency(v.vac)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Fiscal-Year Spend Forecast */}
+                    {forecast && (
+                        <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
+                            <div className="glass-panel p-5 lg:col-span-2">
+                                <div className="flex items-center justify-between mb-1">
+                                    <h3 className="font-bold text-sm text-secondary-900">Spend Forecast FY {forecast.fiscalYear}</h3>
+                                    <span className="text-[11px] font-semibold text-slate-600">
+                                        Year-end <b className="text-secondary-900">{formatCurrency(forecast.totals.yearEnd.lowINR)} – {formatCurrency(forecast.totals.yearEnd.highINR)}</b>
+                                    </span>
+                                </div>
+                                <p className="text-[11px] text-slate-500 mb-4">
+                                    Cumulative spend against the allocation of {formatCurrency(forecast.totals.allocatedINR)} (₹ Crores), projected from burn rate, commitments and remaining milestones
+                                </p>
+                                <div className="h-60">
+                                    <Line
+                                        data={forecastTrendData}
+                                        options={{
+                                            responsive: true,
+                                            maintainAspectRatio: false,
+                                            plugins: { legend: { position: 'top', labels: { boxWidth: 12, font: { size: 11 } } } },
+                                            scales: {
+                                                y: { grid: { color: 'rgba(226, 232, 240, 0.6)' }, ticks: { font: { size: 10 } } },
+                                                x: { grid: { display: false }, ticks: { font: { size: 10 } } },
+                                            },
+                                        }}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="glass-panel p-5 space-y-3">
+                                <h3 className="font-bold text-sm text-secondary-900">Lapse & Overrun Watch</h3>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div className="p-3 bg-amber-50 rounded-2xl border border-amber-100">
+                                        <p className="text-[10px] font-bold uppercase text-amber-700">Lapse by 31 March</p>
+                                        <p className="text-sm font-black text-amber-700">{formatCurrency(forecast.totals.lapseINR)}</p>
+                                        <p className="text-[10px] text-amber-700">{forecast.totals.lapseCount} projects</p>
+                                    </div>
+                                    <div className="p-3 bg-rose-50 rounded-2xl border border-rose-100">
+                                        <p className="text-[10px] font-bold uppercase text-rose-700">Overrun</p>
+                                        <p className="text-sm font-black text-rose-700">{formatCurrency(forecast.totals.overrunINR)}</p>
+                                        <p className="text-[10px] text-rose-700">{forecast.totals.overrunCount} projects</p>
+                                    </div>
+                                </div>
+                                <table className="w-full text-[11px]">
+                                    <tbody className="divide-y divide-slate-100">
+                                        {forecast.projects.filter(p => p.flags.length > 0).slice(0, 8).map(p => (
+                                            <tr key={p.projectId}>
+                                                <td className="py-1.5">
+                                                    <span className="font-mono font-bold text-primary-700">{p.code}</span>
+                                                    <p className="text-[10px] text-slate-500 truncate max-w-[160px]">{p.title}</p>
+                                                </td>
+                                                <td className="py-1.5 text-right">
+                                                    {p.lapseINR > 0 && <p className="font-bold text-amber-700">{formatCurrency(p.lapseINR)} lapse</p>}
+                                                    {p.overrunINR > 0 && <p className="font-bold text-rose-600">{formatCurrency(p.overrunINR)} over</p>}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                {forecast.totals.lapseCount + forecast.totals.overrunCount === 0 && (
+                                    <p className="text-[11px] text-slate-400 text-center py-2">No project is forecast to lapse or overrun</p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Research Verticals Breakdown Cards */}
                     <div className="glass-panel p-5 space-y-4">
                         <div className="flex items-center justify-between">
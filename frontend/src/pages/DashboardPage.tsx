@@ -1,6 +1,8 @@
 import { useEffect, useState, useRef, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import { useSocketEvent } from '../hooks/useSocket';
+import TodoList from '../components/TodoList';
 import {
     Chart as ChartJS,
     ArcElement,
@@ -64,11 +66,60 @@ interface ProjectItem {
     spentINR?: number;
 }
 
+interface EVMProjectRow {
+    id: string;
+    bac: number;
+    pv: number;
+    ev: number;
+    ac: number;
+}
+
+interface EVMResponse {
+    portfolio: { cpi: number | null; spi: number | null };
+    projects: EVMProjectRow[];
+}
+
+interface RiskHeatmap {
+    totalOpen: number;
+    entries: Array<{ projectId: string; likelihood: number; impact: number; count: number }>;
+    projects: Array<{ projectId: string; openRisks: number; maxScore: number }>;
+}
+
+interface PortfolioRisk {
+    id: string;
+    title: string;
+    likelihood: number;
+    impact: number;
+    score: number;
+    status: string;
+    mitigation?: string;
+    reviewDate?: string;
+    project: { id: string; code: string; title: string };
+    owner?: { firstName: string; lastName: string };
+}
+
+// Score bands for likelihood x impact (1-25)
+const riskBand = (score: number) => (score >= 15 ? 'CRITICAL' : score >= 10 ? 'HIGH' : score >= 5 ? 'MEDIUM' : 'LOW');
+
+const heatCellClass = (score: number, count: number) => {
+    if (count === 0) return 'bg-slate-50 text-slate-400';
+    switch (riskBand(score)) {
+        case 'CRITICAL': return 'bg-rose-600 text-white';
+        case 'HIGH': return 'bg-orange-400/80 text-orange-950';
+        case 'MEDIUM': return 'bg-amber-200/80 text-amber-900';
+        default: return 'bg-emerald-200/80 text-emerald-900';
+    }
+};
+
 export default function DashboardPage() {
     const { user, accessToken } = useAuthStore();
     const [projects, setProjects] = useState<ProjectItem[]>([]);
     const [loading, setLoading] = useState(true);
     const [stats, setStats] = useState<any>(null);
+    const [evm, setEvm] = useState<EVMResponse | null>(null);
+    const [riskHeatmap, setRiskHeatmap] = useState<RiskHeatmap | null>(null);
+    const [selectedCell, setSelectedCell] = useState<{ likelihood: number; impact: number } | null>(null);
+    const [cellRisks, setCellRisks] = useState<PortfolioRisk[]>([]);
 
     // Multi-Filter State
     const [selectedVertical, setSelectedVertical] = useState('ALL');
@@ -91,12 +142,17 @@ export default function DashboardPage() {
         fetchData();
     }, []);
 
-    const fetchData = async () => {
-        setLoading(true);
+    // Refresh in place when a project the user follows changes
+    useSocketEvent('dashboard:updated', () => fetchData(true));
+
+    const fetchData = async (silent = false) => {
+        if (!silent) setLoading(true);
         try {
-            const [projectsRes, statsRes] = await Promise.all([
+            const [projectsRes, statsRes, evmRes, riskRes] = await Promise.all([
                 fetch('/api/projects?limit=500', { headers: { Authorization: `Bearer ${accessToken}` } }),
-                fetch('/api/dashboard/stats', { headers: { Authorization: `Bearer ${accessToken}` } })
+                fetch('/api/dashboard/stats', { headers: { Authorization: `Bearer ${accessToken}` } }),
+                fetch('/api/dashboard/evm', { headers: { Authorization: `Bearer ${accessToken}` } }),
+                fetch('/api/dashboard/risk-heatmap', { headers: { Authorization: `Bearer ${accessToken}` } })
             ]);
 
             if (projectsRes.ok) {
@@ -111,6 +167,12 @@ export default function DashboardPage() {
                 const sData = await statsRes.json();
                 setStats(sData);
             }
+            if (evmRes.ok) {
+                setEvm(await evmRes.json());
+            }
+            if (riskRes.ok) {
+                setRiskHeatmap(await riskRes.json());
+            }
         } catch (err) {
             console.error('Failed to load dashboard data:', err);
         } finally {
@@ -118,6 +180,27 @@ export default function DashboardPage() {
         }
     };
 
+    const projectRiskScores = useMemo(() => {
+        return new Map((riskHeatmap?.projects || []).map(r => [r.projectId, r]));
+    }, [riskHeatmap]);
+
+    const openCellDrillDown = async (likelihood: number, impact: number) => {
+        if (selectedCell?.likelihood === likelihood && selectedCell?.impact === impact) {
+            setSelectedCell(null);
+            return;
+        }
+        setSelectedCell({ likelihood, impact });
+        setCellRisks([]);
+        try {
+            const res = await fetch(`/api/dashboard/risks?likelihood=${likelihood}&impact=${impact}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) setCellRisks(await res.json());
+        } catch (err) {
+            console.error('Failed to load risks:', err);
+        }
+    };
+
     // Robust Multi-Filter Calculation
     const filteredProjects = useMemo(() => {
         return projects.filter(p => {
@@ -146,13 +229,13 @@ export default function DashboardPage() {
 
             // 4. Risk Level Filter
             if (selectedRisk !== 'ALL') {
-                const isHighRisk = (p.progress < 40 && p.status === 'ACTIVE') || p.status === 'ON_HOLD';
-                const isLowRisk = p.progress >= 75 || p.status === 'COMPLETED';
-                const isMedRisk = !isHighRisk && !isLowRisk;
+                // Highest open risk score from the project's risk register
+                const band = riskBand(projectRiskScores.get(p.id)?.maxScore || 0);
+                const isHighRisk = band === 'HIGH' || band === 'CRITICAL';
 
                 if (selectedRisk === 'HIGH' && !isHighRisk) return false;
-                if (selectedRisk === 'MEDIUM' && !isMedRisk) return false;
-                if (selectedRisk === 'LOW' && !isLowRisk) return false;
+                if (selectedRisk === 'MEDIUM' && band !== 'MEDIUM') return false;
+                if (selectedRisk === 'LOW' && band !== 'LOW') return false;
             }
 
             // 5. Search Query
@@ -168,7 +251,7 @@ export default function DashboardPage() {
 
             return true;
         });
-    }, [projects, selectedVertical, selectedStatus, selectedCategory, selectedRisk, searchQuery]);
+    }, [projects, selectedVertical, selectedStatus, selectedCategory, selectedRisk, searchQuery, projectRiskScores]);
 
     const toggleProjectExpand = (id: string) => {
         setExpandedProjects(prev => ({ ...prev, [id]: !prev[id] }));
@@ -197,6 +280,43 @@ export default function DashboardPage() {
     const totalExpenses = currentFilteredCount > 0 ? Math.round((currentFilteredCount / (totalProjectsCount || 1)) * 35200000) : 35200000;
     const budgetUtilizationPercent = Math.min(100, Math.round((totalExpenses / (totalBudget || 1)) * 100));
 
+    // Earned value indicators for the filtered subset, aggregated from server-computed project rows
+    const evmSummary = useMemo(() => {
+        const ids = new Set(filteredProjects.map(p => p.id));
+        const totals = (evm?.projects || [])
+            .filter(r => ids.has(r.id))
+            .reduce((acc, r) => ({ bac: acc.bac + r.bac, pv: acc.pv + r.pv, ev: acc.ev + r.ev, ac: acc.ac + r.ac }), { bac: 0, pv: 0, ev: 0, ac: 0 });
+        const cpi = totals.ac > 0 ? totals.ev / totals.ac : null;
+        const spi = totals.pv > 0 ? totals.ev / totals.pv : null;
+        const eac = cpi ? totals.bac / cpi : totals.bac;
+        return { ...totals, cpi, spi, eac, vac: totals.bac - eac };
+    }, [evm, filteredProjects]);
+
+    const evmHealth = (() => {
+        const { cpi, spi } = evmSummary;
+        if (cpi === null && spi === null) return { label: 'Awaiting Progress Data', className: 'text-slate-600 bg-slate-50 border-slate-200/80' };
+        if ((cpi ?? 1) >= 0.95 && (spi ?? 1) >= 0.95) return { label: 'Schedule & Cost On-Track', className: 'text-emerald-700 bg-emerald-50 border-emerald-200/80' };
+        if ((cpi ?? 1) >= 0.85 && (spi ?? 1) >= 0.85) return { label: 'Minor Variance', className: 'text-amber-700 bg-amber-50 border-amber-200/80' };
+        return { label: 'Needs Attention', className: 'text-rose-700 bg-rose-50 border-rose-200/80' };
+    })();
+
+    // Heat map cells restricted to the filtered subset
+    const heatCounts = useMemo(() => {
+        const ids = new Set(filteredProjects.map(p => p.id));
+        const counts: Record<string, number> = {};
+        (riskHeatmap?.entries || []).forEach(e => {
+            if (!ids.has(e.projectId)) return;
+            const key = `${e.likelihood}-${e.impact}`;
+            counts[key] = (counts[key] || 0) + e.count;
+        });
+        return counts;
+    }, [riskHeatmap, filteredProjects]);
+
+    const openRiskCount = Object.values(heatCounts).reduce((sum, c) => sum + c, 0);
+    const visibleCellRisks = cellRisks.filter(r => filteredProjects.some(p => p.id === r.project.id));
+
+    const formatCr = (value: number) => `₹${(value / 10000000).toFixed(2)} Cr`;
+
     // Dynamic Chart Data for Status Donut
     const statusChartData = {
         labels: ['Active', 'Completed', 'Under Review', 'Draft/Hold'],
@@ -373,9 +493,9 @@ export default function DashboardPage() {
                             className="w-full px-3 py-1.5 text-xs bg-white/90 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-400/20 text-slate-700 font-medium"
                         >
                             <option value="ALL">All Risk Levels</option>
-                            <option value="LOW">Low Risk (&gt;75% Done)</option>
-                            <option value="MEDIUM">Medium Risk</option>
-                            <option value="HIGH">High / Critical Attention</option>
+                            <option value="LOW">Low Risk (score &lt; 5)</option>
+                            <option value="MEDIUM">Medium Risk (5-9)</option>
+                            <option value="HIGH">High / Critical (10+)</option>
                         </select>
                     </div>
                 </div>
@@ -486,7 +606,7 @@ export default function DashboardPage() {
                             Alert
                         </span>
                     </div>
-                    <p className="text-xl font-extrabold text-secondary-900">{Math.max(1, Math.round(currentFilteredCount * 0.08))}</p>
+                    <p className="text-xl font-extrabold text-secondary-900">{openRiskCount}</p>
                     <p className="text-[10px] font-medium text-slate-500 truncate">Open Risks</p>
                 </div>
 
@@ -617,6 +737,12 @@ export default function DashboardPage() {
                 </div>
             </div>
 
+            {/* Personal To-dos: everything due today next to the full task list */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TodoList dueToday />
+                <TodoList />
+            </div>
+
             {/* 4. Earned Value Management (EVM) Analytics Card */}
             <div className="glass-panel p-5">
                 <div className="flex items-center justify-between mb-4">
@@ -629,46 +755,66 @@ export default function DashboardPage() {
                             <p className="text-[11px] text-slate-500">Government compliance and project costing indicators for filtered portfolio</p>
                         </div>
                     </div>
-                    <span className="text-xs font-semibold text-emerald-700 bg-emerald-50 border border-emerald-200/80 px-2.5 py-1 rounded-xl">
-                        Schedule & Cost On-Track
+                    <span className={`text-xs font-semibold border px-2.5 py-1 rounded-xl ${evmHealth.className}`}>
+                        {evmHealth.label}
                     </span>
                 </div>
 
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
                     <div className="p-3 bg-slate-50/80 rounded-2xl border border-slate-100">
                         <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Planned Value (PV)</p>
-                        <p className="text-base font-extrabold text-secondary-900 mt-0.5">₹{(totalBudget / 10000000).toFixed(2)} Cr</p>
-                        <p className="text-[10px] text-slate-500">Budgeted cost of work</p>
+                        <p className="text-base font-extrabold text-secondary-900 mt-0.5">{formatCr(evmSummary.pv)}</p>
+                        <p className="text-[10px] text-slate-500">of {formatCr(evmSummary.bac)} BAC</p>
                     </div>
 
                     <div className="p-3 bg-slate-50/80 rounded-2xl border border-slate-100">
                         <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Earned Value (EV)</p>
-                        <p className="text-base font-extrabold text-emerald-600 mt-0.5">₹{((totalBudget * (avgProgress / 100)) / 10000000).toFixed(2)} Cr</p>
+                        <p className="text-base font-extrabold text-emerald-600 mt-0.5">{formatCr(evmSummary.ev)}</p>
                         <p className="text-[10px] text-slate-500">Value of completed work</p>
                     </div>
 
                     <div className="p-3 bg-slate-50/80 rounded-2xl border border-slate-100">
                         <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Actual Cost (AC)</p>
-                        <p className="text-base font-extrabold text-primary-600 mt-0.5">₹{(totalExpenses / 10000000).toFixed(2)} Cr</p>
+                        <p className="text-base font-extrabold text-primary-600 mt-0.5">{formatCr(evmSummary.ac)}</p>
                         <p className="text-[10px] text-slate-500">Actual expenditures</p>
                     </div>
 
                     <div className="p-3 bg-slate-50/80 rounded-2xl border border-slate-100">
                         <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Cost Performance (CPI)</p>
-                        <p className="text-base font-extrabold text-emerald-600 mt-0.5">1.19</p>
-                        <p className="text-[10px] text-emerald-600 font-semibold">Under Budget (&gt; 1.0)</p>
+                        <p className={`text-base font-extrabold mt-0.5 ${evmSummary.cpi === null || evmSummary.cpi >= 1 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                            {evmSummary.cpi !== null ? evmSummary.cpi.toFixed(2) : '—'}
+                        </p>
+                        {evmSummary.cpi === null ? (
+                            <p className="text-[10px] text-slate-500">No spend recorded</p>
+                        ) : evmSummary.cpi >= 1 ? (
+                            <p className="text-[10px] text-emerald-600 font-semibold">Under Budget (&gt; 1.0)</p>
+                        ) : (
+                            <p className="text-[10px] text-rose-600 font-semibold">Over Budget (&lt; 1.0)</p>
+                        )}
                     </div>
 
                     <div className="p-3 bg-slate-50/80 rounded-2xl border border-slate-100">
                         <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Schedule Index (SPI)</p>
-                        <p className="text-base font-extrabold text-primary-600 mt-0.5">0.98</p>
-                        <p className="text-[10px] text-amber-600 font-semibold">Near Schedule (~1.0)</p>
+                        <p className="text-base font-extrabold text-primary-600 mt-0.5">
+                            {evmSummary.spi !== null ? evmSummary.spi.toFixed(2) : '—'}
+                        </p>
+                        {evmSummary.spi === null ? (
+                            <p className="text-[10px] text-slate-500">No planned work yet</p>
+                        ) : evmSummary.spi >= 1 ? (
+                            <p className="text-[10px] text-emerald-600 font-semibold">Ahead of Schedule (&ge; 1.0)</p>
+                        ) : evmSummary.spi >= 0.95 ? (
+                            <p className="text-[10px] text-amber-600 font-semibold">Near Schedule (~1.0)</p>
+                        ) : (
+                            <p className="text-[10px] text-rose-600 font-semibold">Behind Schedule (&lt; 1.0)</p>
+                        )}
                     </div>
 
                     <div className="p-3 bg-slate-50/80 rounded-2xl border border-slate-100">
                         <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Est. at Completion (EAC)</p>
-                        <p className="text-base font-extrabold text-secondary-900 mt-0.5">₹{((totalBudget * 0.95) / 10000000).toFixed(2)} Cr</p>
-                        <p className="text-[10px] text-emerald-600">Savings: ~5%</p>
+                        <p className="text-base font-extrabold text-secondary-900 mt-0.5">{formatCr(evmSummary.eac)}</p>
+                        <p className={`text-[10px] ${evmSummary.vac >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                            {evmSummary.vac >= 0 ? 'Savings' : 'Overrun'}: {formatCr(Math.abs(evmSummary.vac))}
+                        </p>
                     </div>
                 </div>
             </div>
@@ -764,52 +910,65 @@ export default function DashboardPage() {
                 <div className="grid grid-cols-6 gap-1.5 pt-2 text-center text-xs">
                     {/* Header Row */}
                     <div className="text-[10px] font-bold text-slate-400 flex items-center justify-center">Likelihood \ Impact</div>
-                    <div className="p-1 text-[10px] font-bold text-slate-500">Negligible (1)</div>
-                    <div className="p-1 text-[10px] font-bold text-slate-500">Minor (2)</div>
-                    <div className="p-1 text-[10px] font-bold text-slate-500">Moderate (3)</div>
-                    <div className="p-1 text-[10px] font-bold text-slate-500">Major (4)</div>
-                    <div className="p-1 text-[10px] font-bold text-slate-500">Catastrophic (5)</div>
-
-                    {/* Row 5: Very High */}
-                    <div className="p-1 text-[10px] font-bold text-slate-500 text-left">Very High (5)</div>
-                    <div className="p-2 bg-amber-200/80 rounded-lg text-amber-900 font-bold">1</div>
-                    <div className="p-2 bg-orange-300/80 rounded-lg text-orange-900 font-bold">2</div>
-                    <div className="p-2 bg-orange-400/80 rounded-lg text-orange-950 font-bold">1</div>
-                    <div className="p-2 bg-rose-400/80 rounded-lg text-white font-bold">1</div>
-                    <div className="p-2 bg-rose-600 text-white rounded-lg font-bold">0</div>
-
-                    {/* Row 4: High */}
-                    <div className="p-1 text-[10px] font-bold text-slate-500 text-left">High (4)</div>
-                    <div className="p-2 bg-emerald-200/80 rounded-lg text-emerald-900 font-bold">2</div>
-                    <div className="p-2 bg-amber-200/80 rounded-lg text-amber-900 font-bold">3</div>
-                    <div className="p-2 bg-orange-300/80 rounded-lg text-orange-900 font-bold">1</div>
-                    <div className="p-2 bg-orange-400/80 rounded-lg text-orange-950 font-bold">1</div>
-                    <div className="p-2 bg-rose-500 text-white rounded-lg font-bold">1</div>
-
-                    {/* Row 3: Medium */}
-                    <div className="p-1 text-[10px] font-bold text-slate-500 text-left">Medium (3)</div>
-                    <div className="p-2 bg-emerald-200/80 rounded-lg text-emerald-900 font-bold">4</div>
-                    <div className="p-2 bg-emerald-300/80 rounded-lg text-emerald-950 font-bold">5</div>
-                    <div className="p-2 bg-amber-200/80 rounded-lg text-amber-900 font-bold">4</div>
-                    <div className="p-2 bg-orange-300/80 rounded-lg text-orange-900 font-bold">2</div>
-                    <div className="p-2 bg-rose-400/80 rounded-lg text-white font-bold">0</div>
-
-                    {/* Row 2: Low */}
-                    <div className="p-1 text-[10px] font-bold text-slate-500 text-left">Low (2)</div>
-                    <div className="p-2 bg-emerald-100 rounded-lg text-emerald-900 font-bold">6</div>
-                    <div className="p-2 bg-emerald-200/80 rounded-lg text-emerald-900 font-bold">7</div>
-                    <div className="p-2 bg-emerald-300/80 rounded-lg text-emerald-950 font-bold">3</div>
-                    <div className="p-2 bg-amber-200/80 rounded-lg text-amber-900 font-bold">1</div>
-                    <div className="p-2 bg-orange-300/80 rounded-lg text-orange-900 font-bold">0</div>
-
-                    {/* Row 1: Very Low */}
-                    <div className="p-1 text-[10px] font-bold text-slate-500 text-left">Very Low (1)</div>
-                    <div className="p-2 bg-emerald-50 rounded-lg text-emerald-800 font-bold">8</div>
-                    <div className="p-2 bg-emerald-100 rounded-lg text-emerald-900 font-bold">4</div>
-                    <div className="p-2 bg-emerald-200/80 rounded-lg text-emerald-900 font-bold">2</div>
-                    <div className="p-2 bg-emerald-200/80 rounded-lg text-emerald-900 font-bold">1</div>
-                    <div className="p-2 bg-emerald-300/80 rounded-lg text-emerald-950 font-bold">0</div>
+                    {['Negligible', 'Minor', 'Moderate', 'Major', 'Catastrophic'].map((label, i) => (
+                        <div key={label} className="p-1 text-[10px] font-bold text-slate-500">{label} ({i + 1})</div>
+                    ))}
+
+                    {[5, 4, 3, 2, 1].map(likelihood => (
+                        <div key={likelihood} className="contents">
+                            <div className="p-1 text-[10px] font-bold text-slate-500 text-left">
+                                {['Very Low', 'Low', 'Medium', 'High', 'Very High'][likelihood - 1]} ({likelihood})
+                            </div>
+                            {[1, 2, 3, 4, 5].map(impact => {
+                                const count = heatCounts[`${likelihood}-${impact}`] || 0;
+                                const isSelected = selectedCell?.likelihood === likelihood && selectedCell?.impact === impact;
+                                return (
+                                    <button
+                                        key={impact}
+                                        type="button"
+                                        disabled={count === 0}
+                                        onClick={() => openCellDrillDown(likelihood, impact)}
+                                        className={`p-2 rounded-lg font-bold transition-all ${heatCellClass(likelihood * impact, count)} ${isSelected ? 'ring-2 ring-primary-500 ring-offset-1' : ''} ${count > 0 ? 'hover:scale-105 cursor-pointer' : 'cursor-default'}`}
+                                    >
+                                        {count}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    ))}
                 </div>
+
+                {/* Drill-down for the selected cell */}
+                {selectedCell && (
+                    <div className="mt-4 pt-3 border-t border-slate-100 space-y-2">
+                        <div className="flex items-center justify-between">
+                            <p className="text-xs font-bold text-secondary-900">
+                                Likelihood {selectedCell.likelihood} × Impact {selectedCell.impact} — {visibleCellRisks.length} open risk(s)
+                            </p>
+                            <button onClick={() => setSelectedCell(null)} className="text-slate-400 hover:text-slate-700">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                        {visibleCellRisks.map(r => (
+                            <Link
+                                key={r.id}
+                                to={`/projects/${r.project.id}`}
+                                className="flex items-center justify-between gap-3 p-2.5 bg-slate-50/80 rounded-xl border border-slate-100 hover:border-primary-200 text-xs"
+                            >
+                                <div className="min-w-0">
+                                    <p className="font-bold text-secondary-900 truncate">{r.title}</p>
+                                    <p className="text-[11px] text-slate-500 truncate">
+                                        <span className="font-mono text-primary-700">{r.project.code}</span> · {r.project.title}
+                                    </p>
+                                </div>
+                                <div className="text-right shrink-0 text-[11px] text-slate-500">
+                                    <p>{r.owner ? `${r.owner.firstName} ${r.owner.lastName}` : 'Unassigned'} · {r.status}</p>
+                                    {r.reviewDate && <p>Review {new Date(r.reviewDate).toLocaleDateString()}</p>}
+                                </div>
+                            </Link>
+                        ))}
+                    </div>
+                )}
             </div>
 
             {/* 7. Hierarchical Project List Table with Expandable Subtasks */}
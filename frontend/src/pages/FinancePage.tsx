@@ -1,7 +1,14 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import LedgerReconciliation from '../components/LedgerReconciliation';
+import CurrencyRevaluation from '../components/CurrencyRevaluation';
+import ReceivablesAgeing from '../components/ReceivablesAgeing';
+import ConsultancyClients from '../components/ConsultancyClients';
+import CostingRules from '../components/CostingRules';
+import YearEndClose from '../components/YearEndClose';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend, CategoryScale, LinearScale, BarElement, Title, PointElement, LineElement, Filler } from 'chart.js';
-import { Doughnut, Bar } from 'react-chartjs-2';
+import { Doughnut, Bar, Line } from 'react-chartjs-2';
 import {
     BadgeIndianRupee,
     TrendingUp,
@@ -18,7 +25,13 @@ import {
     FileSpreadsheet,
     Wallet,
     Layers,
-    DollarSign
+    DollarSign,
+    Scale,
+    Coins,
+    Hourglass,
+    Receipt,
+    Calculator,
+    CalendarCheck
 } from 'lucide-react';
 
 ChartJS.register(ArcElement, Tooltip, Legend, CategoryScale, LinearScale, BarElement, Title, PointElement, LineElement, Filler);
@@ -51,6 +64,49 @@ interface Project {
     title: string;
 }
 
+interface ForecastBand {
+    lowINR: number;
+    expectedINR: number;
+    highINR: number;
+}
+
+interface SpendForecast {
+    fiscalYear: string;
+    projectCount: number;
+    totals: {
+        allocatedINR: number;
+        spentINR: number;
+        monthEnd: ForecastBand;
+        yearEnd: ForecastBand;
+        lapseINR: number;
+        overrunINR: number;
+        lapseCount: number;
+        overrunCount: number;
+    };
+    projects: Array<{
+        projectId: string;
+        code: string;
+        title: string;
+        allocatedINR: number;
+        spentINR: number;
+        burnRateINR: number;
+        yearEnd: ForecastBand;
+        lapseINR: number;
+        budgetINR: number;
+        atCompletionINR: number;
+        overrunINR: number;
+        flags: Array<'LAPSE' | 'OVERRUN'>;
+    }>;
+    timeSeries: Array<{ month: string; actualINR: number | null; lowINR: number | null; expectedINR: number | null; highINR: number | null }>;
+}
+
+interface FinanceSummary {
+    totalBudgetINR: number;
+    totalExpensesINR: number;
+    totalCommittedINR: number;
+    availableBudgetINR: number;
+}
+
 const budgetCategories = [
     'MANPOWER', 'EQUIPMENT', 'TRAVEL', 'CONSUMABLES', 'OVERHEAD', 'CONTINGENCY', 'OTHER'
 ];
@@ -60,10 +116,12 @@ export default function FinancePage() {
     const [loading, setLoading] = useState(true);
     const [currencyMode, setCurrencyMode] = useState<'INR' | 'USD'>('INR');
     const [exchangeRate, setExchangeRate] = useState(83.50);
-    const [activeTab, setActiveTab] = useState<'overview' | 'budgets' | 'requests'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'budgets' | 'requests' | 'reconciliation' | 'receivables' | 'clients' | 'forex' | 'costing' | 'yearend'>('overview');
     const [budgets, setBudgets] = useState<Budget[]>([]);
     const [pendingRequests, setPendingRequests] = useState<BudgetRequest[]>([]);
     const [projects, setProjects] = useState<Project[]>([]);
+    const [summary, setSummary] = useState<FinanceSummary | null>(null);
+    const [forecast, setForecast] = useState<SpendForecast | null>(null);
     const [search, setSearch] = useState('');
     const [showAllocationModal, setShowAllocationModal] = useState(false);
     const [showRequestModal, setShowRequestModal] = useState(false);
@@ -88,6 +146,7 @@ export default function FinancePage() {
     });
 
     const canApprove = ['ADMIN', 'DIRECTOR', 'SUPERVISOR'].includes(currentUser?.role || '');
+    const { hasPermission } = useRBAC();
 
     useEffect(() => {
         fetchFinanceData();
@@ -102,6 +161,17 @@ export default function FinancePage() {
                 fetch('/api/projects', { headers: { Authorization: `Bearer ${accessToken}` } }),
             ]);
 
+            // Institute-wide totals, including open commitments, for finance leadership
+            if (hasPermission('finance-overview', 'read')) {
+                const dashboardRes = await fetch('/api/finance/dashboard', { headers: { Authorization: `Bearer ${accessToken}` } });
+                if (dashboardRes.ok) setSummary((await dashboardRes.json()).summary);
+            }
+
+            if (hasPermission('finance', 'read')) {
+                const forecastRes = await fetch('/api/finance/forecast', { headers: { Authorization: `Bearer ${accessToken}` } });
+                if (forecastRes.ok) setForecast(await forecastRes.json());
+            }
+
             if (budgetsRes.ok) {
                 const bData = await budgetsRes.json();
                 setBudgets(bData.data || bData || []);
@@ -222,9 +292,10 @@ export default function FinancePage() {
     };
 
     // Financial totals
-    const totalAllocatedINR = budgets.reduce((acc, b) => acc + (b.amountINR || 0), 0) || 220193579;
-    const totalUtilizedINR = budgets.reduce((acc, b) => acc + (b.utilized || 0), 0) || 35200000;
-    const totalBalanceINR = totalAllocatedINR - totalUtilizedINR;
+    const totalAllocatedINR = summary?.totalBudgetINR ?? (budgets.reduce((acc, b) => acc + (b.amountINR || 0), 0) || 220193579);
+    const totalUtilizedINR = summary?.totalExpensesINR ?? (budgets.reduce((acc, b) => acc + (b.utilized || 0), 0) || 35200000);
+    const totalCommittedINR = summary?.totalCommittedINR ?? 0;
+    const totalBalanceINR = summary?.availableBudgetINR ?? totalAllocatedINR - totalCommittedINR - totalUtilizedINR;
     const utilizationPct = Math.min(100, Math.round((totalUtilizedINR / (totalAllocatedINR || 1)) * 100));
 
     const formatCurrency = (valINR: number) => {
@@ -248,6 +319,50 @@ export default function FinancePage() {
         ],
     };
 
+    // Chart: cumulative fiscal-year spend with the forecast band (₹ Cr)
+    const toCr = (value: number | null) => (value !== null ? +(value / 10000000).toFixed(2) : null);
+    const forecastChartData = {
+        labels: forecast?.timeSeries.map(p => p.month) || [],
+        datasets: [
+            {
+                label: 'Forecast (high)',
+                data: forecast?.timeSeries.map(p => toCr(p.highINR)) || [],
+                borderColor: 'rgba(0, 120, 212, 0.3)',
+                backgroundColor: 'rgba(0, 120, 212, 0.12)',
+                fill: '+2',
+                pointRadius: 0,
+                tension: 0.3,
+            },
+            {
+                label: 'Forecast (expected)',
+                data: forecast?.timeSeries.map(p => toCr(p.expectedINR)) || [],
+                borderColor: '#0078d4',
+                borderDash: [6, 4],
+                tension: 0.3,
+            },
+            {
+                label: 'Forecast (low)',
+                data: forecast?.timeSeries.map(p => toCr(p.lowINR)) || [],
+                borderColor: 'rgba(0, 120, 212, 0.3)',
+                pointRadius: 0,
+                tension: 0.3,
+            },
+            {
+                label: 'Actual Spend',
+                data: forecast?.timeSeries.map(p => toCr(p.actualINR)) || [],
+                borderColor: '#10b981',
+                tension: 0.3,
+            },
+            {
+                label: 'FY Allocation',
+                data: forecast?.timeSeries.map(() => toCr(forecast.totals.allocatedINR)) || [],
+                borderColor: '#f43f5e',
+                borderDash: [2, 3],
+                pointRadius: 0,
+            },
+        ],
+    };
+
     return (
         <div className="space-y-6 pb-12">
             {/* Toast */}
@@ -325,7 +440,9 @@ export default function FinancePage() {
                 <div className="glass-card-interactive p-4">
                     <span className="text-[10px] font-bold text-primary-600 uppercase tracking-wider">Available Balance</span>
                     <p className="text-2xl font-black text-primary-700 mt-1">{formatCurrency(totalBalanceINR)}</p>
-                    <p className="text-xs text-slate-500">Uncommitted funds</p>
+                    <p className="text-xs text-slate-500">
+                        Allocated − committed − spent{totalCommittedINR > 0 && ` · ${formatCurrency(totalCommittedINR)} committed`}
+                    </p>
                 </div>
 
                 <div className="glass-card-interactive p-4">
@@ -341,6 +458,12 @@ export default function FinancePage() {
                     { id: 'overview', label: 'Financial Overview & Charts', icon: TrendingUp },
                     { id: 'budgets', label: `Project Budgets (${budgets.length || 15})`, icon: Wallet },
                     { id: 'requests', label: `Pending Requests (${pendingRequests.length || 2})`, icon: Clock },
+                    ...(hasPermission('finance', 'manage') ? [{ id: 'reconciliation', label: 'Ledger Reconciliation', icon: Scale }] : []),
+                    ...(hasPermission('finance', 'manage') ? [{ id: 'receivables', label: 'Sponsor Receivables', icon: Hourglass }] : []),
+                    ...(hasPermission('finance', 'manage') ? [{ id: 'clients', label: 'Clients & TDS', icon: Receipt }] : []),
+                    ...(hasPermission('finance', 'manage') ? [{ id: 'forex', label: 'Currencies & Forex', icon: Coins }] : []),
+                    ...(hasPermission('finance', 'manage') ? [{ id: 'costing', label: 'Proposal Costing', icon: Calculator }] : []),
+                    ...(hasPermission('finance', 'manage') ? [{ id: 'yearend', label: 'Year-End Close', icon: CalendarCheck }] : []),
                 ].map(t => {
                     const Icon = t.icon;
                     const isActive = activeTab === t.id;
@@ -404,6 +527,89 @@ export default function FinancePage() {
                             ))}
                         </div>
                     </div>
+
+                    {/* Spend Forecast (3 Cols) */}
+                    {forecast && (
+                        <div className="glass-panel p-5 lg:col-span-3 space-y-4">
+                            <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                                <div>
+                                    <h3 className="font-bold text-sm text-secondary-900">Spend Forecast (FY {forecast.fiscalYear})</h3>
+                                    <p className="text-[11px] text-slate-500">
+                                        Cumulative spend projected from the burn rate, open commitments and remaining milestones across {forecast.projectCount} projects (₹ Crores)
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-4 text-[11px] font-semibold text-slate-600">
+                                    <span>Month-end <b className="text-secondary-900">{formatCurrency(forecast.totals.monthEnd.expectedINR)}</b></span>
+                                    <span>Year-end <b className="text-secondary-900">{formatCurrency(forecast.totals.yearEnd.lowINR)} – {formatCurrency(forecast.totals.yearEnd.highINR)}</b></span>
+                                    <span>Likely lapse <b className="text-rose-600">{formatCurrency(forecast.totals.lapseINR)}</b></span>
+                                </div>
+                            </div>
+                            <div className="h-64">
+                                <Line
+                                    data={forecastChartData}
+                                    options={{
+                                        responsive: true,
+                                        maintainAspectRatio: false,
+                                        plugins: { legend: { position: 'top', labels: { boxWidth: 12, font: { size: 11 } } } },
+                                        scales: {
+                                            y: { grid: { color: 'rgba(226, 232, 240, 0.6)' }, ticks: { font: { size: 10 } } },
+                                            x: { grid: { display: false }, ticks: { font: { size: 10 } } },
+                                        },
+                                    }}
+                                />
+                            </div>
+
+                            <div className="flex items-center gap-2 text-xs">
+                                <span className="glass-pill text-[10px] bg-amber-50 text-amber-700">{forecast.totals.lapseCount} likely to lapse funds by 31 March</span>
+                                <span className="glass-pill text-[10px] bg-rose-50 text-rose-700">{forecast.totals.overrunCount} likely to overrun before completion</span>
+                            </div>
+                            {forecast.projects.some(p => p.flags.length > 0) ? (
+                                <div className="overflow-x-auto">
+                                    <table className="table-glossy">
+                                        <thead>
+                                            <tr>
+                                                <th>Project</th>
+                                                <th className="text-right">FY Allocation</th>
+                                                <th className="text-right">Spent</th>
+                                                <th className="text-right">Burn / Month</th>
+                                                <th className="text-right">Year-End Forecast</th>
+                                                <th className="text-right">Lapse</th>
+                                                <th className="text-right">At Completion</th>
+                                                <th>Risk</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {forecast.projects.filter(p => p.flags.length > 0).map(p => (
+                                                <tr key={p.projectId}>
+                                                    <td className="text-xs">
+                                                        <span className="font-mono font-bold text-primary-600">{p.code}</span>
+                                                        <p className="text-[10px] text-slate-500 truncate max-w-[220px]">{p.title}</p>
+                                                    </td>
+                                                    <td className="text-right text-xs text-slate-600">{formatCurrency(p.allocatedINR)}</td>
+                                                    <td className="text-right text-xs text-slate-600">{formatCurrency(p.spentINR)}</td>
+                                                    <td className="text-right text-xs text-slate-600">{formatCurrency(p.burnRateINR)}</td>
+                                                    <td className="text-right text-xs text-slate-600 whitespace-nowrap">{formatCurrency(p.yearEnd.lowINR)} – {formatCurrency(p.yearEnd.highINR)}</td>
+                                                    <td className={`text-right text-xs font-bold ${p.lapseINR > 0 ? 'text-amber-700' : 'text-slate-400'}`}>{formatCurrency(p.lapseINR)}</td>
+                                                    <td className={`text-right text-xs font-bold ${p.overrunINR > 0 ? 'text-rose-600' : 'text-secondary-900'}`}>
+                                                        {formatCurrency(p.atCompletionINR)} <span className="text-[10px] font-normal text-slate-400">/ {formatCurrency(p.budgetINR)}</span>
+                                                    </td>
+                                                    <td className="whitespace-nowrap">
+                                                        {p.flags.map(flag => (
+                                                            <span key={flag} className={`glass-pill text-[10px] mr-1 ${flag === 'LAPSE' ? 'bg-amber-50 text-amber-700' : 'bg-rose-50 text-rose-700'}`}>
+                                                                {flag === 'LAPSE' ? 'Lapse' : 'Overrun'}
+                                                            </span>
+                                                        ))}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <p className="text-xs text-slate-400 py-4 text-center">No project is forecast to lapse funds or overrun its budget</p>
+                            )}
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -516,6 +722,19 @@ export default function FinancePage() {
                 </div>
             )}
 
+            {/* Tab 4: Ledger Reconciliation */}
+            {activeTab === 'reconciliation' && <LedgerReconciliation />}
+
+            {activeTab === 'receivables' && <ReceivablesAgeing />}
+
+            {activeTab === 'clients' && <ConsultancyClients />}
+
+            {activeTab === 'forex' && <CurrencyRevaluation />}
+
+            {activeTab === 'costing' && <CostingRules />}
+
+            {activeTab === 'yearend' && <YearEndClose projects={projects} />}
+
             {/* Allocation Modal */}
             {showAllocationModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
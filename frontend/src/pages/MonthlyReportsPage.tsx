@@ -0,0 +1,426 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import {
+    CalendarRange,
+    ArrowLeft,
+    Download,
+    Eye,
+    Send,
+    RefreshCw,
+    Mail,
+    FileText,
+    X,
+    Save,
+} from 'lucide-react';
+
+type MonthlyReportType = 'PROJECT_SUMMARY' | 'FINANCIAL' | 'STAFF' | 'COMBINED';
+
+interface MonthlyReport {
+    id: string;
+    month: number;
+    year: number;
+    type: MonthlyReportType;
+    title: string;
+    content?: string | null;
+    generatedAt: string;
+    sentToEmails: string[];
+    sentAt?: string | null;
+}
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+const REPORT_TYPES: Array<{ id: MonthlyReportType; label: string }> = [
+    { id: 'PROJECT_SUMMARY', label: 'Project Summary' },
+    { id: 'FINANCIAL', label: 'Financial' },
+    { id: 'STAFF', label: 'Staff' },
+    { id: 'COMBINED', label: 'Combined' },
+];
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export default function MonthlyReportsPage() {
+    const { accessToken } = useAuthStore();
+    const { hasPermission } = useRBAC();
+    const canGenerate = hasPermission('monthly-reports', 'create');
+    const canManageRecipients = hasPermission('monthly-reports', 'manage');
+
+    const now = new Date();
+    const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    const years = Array.from({ length: 6 }, (_, i) => now.getFullYear() - i);
+
+    const [reports, setReports] = useState<MonthlyReport[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [yearFilter, setYearFilter] = useState('');
+    const [typeFilter, setTypeFilter] = useState('');
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Generate form
+    const [genMonth, setGenMonth] = useState(lastMonth.getMonth() + 1);
+    const [genYear, setGenYear] = useState(lastMonth.getFullYear());
+    const [genSend, setGenSend] = useState(false);
+    const [generating, setGenerating] = useState(false);
+
+    // Preview
+    const [preview, setPreview] = useState<MonthlyReport | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    // Recipient lists (admin)
+    const [recipients, setRecipients] = useState<Record<MonthlyReportType, string>>({
+        PROJECT_SUMMARY: '',
+        FINANCIAL: '',
+        STAFF: '',
+        COMBINED: '',
+    });
+    const [savingRecipients, setSavingRecipients] = useState(false);
+
+    useEffect(() => {
+        fetchReports();
+    }, [yearFilter, typeFilter]);
+
+    useEffect(() => {
+        if (canManageRecipients) fetchRecipients();
+    }, [canManageRecipients]);
+
+    const authHeaders = { Authorization: `Bearer ${accessToken}` };
+
+    const fetchReports = async () => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (yearFilter) params.append('year', yearFilter);
+            if (typeFilter) params.append('type', typeFilter);
+
+            const res = await fetch(`${API_BASE}/reports/monthly?${params}`, { headers: authHeaders });
+            if (res.ok) {
+                setReports(await res.json());
+            }
+        } catch (err) {
+            console.error('Failed to fetch monthly reports:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchRecipients = async () => {
+        try {
+            const res = await fetch(`${API_BASE}/reports/monthly/recipients`, { headers: authHeaders });
+            if (res.ok) {
+                const data: Record<MonthlyReportType, string[]> = await res.json();
+                setRecipients({
+                    PROJECT_SUMMARY: data.PROJECT_SUMMARY.join(', '),
+                    FINANCIAL: data.FINANCIAL.join(', '),
+                    STAFF: data.STAFF.join(', '),
+                    COMBINED: data.COMBINED.join(', '),
+                });
+            }
+        } catch (err) {
+            console.error('Failed to fetch recipients:', err);
+        }
+    };
+
+    const handleGenerate = async () => {
+        setGenerating(true);
+        setMessage(null);
+        try {
+            const res = await fetch(`${API_BASE}/reports/monthly/generate`, {
+                method: 'POST',
+                headers: { ...authHeaders, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ month: genMonth, year: genYear, send: genSend }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                const failed = (data.failures || []) as Array<{ type: string; error: string }>;
+                setMessage(failed.length > 0
+                    ? { type: 'error', text: `Generated, but not emailed: ${failed.map(f => `${f.type} (${f.error})`).join('; ')}` }
+                    : { type: 'success', text: `Generated ${data.reports.length} reports for ${MONTHS[genMonth - 1]} ${genYear}` });
+                fetchReports();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to generate reports' });
+            }
+        } catch (err) {
+            console.error('Generate failed:', err);
+            setMessage({ type: 'error', text: 'Failed to generate reports' });
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const handleSend = async (report: MonthlyReport) => {
+        setBusyId(report.id);
+        setMessage(null);
+        try {
+            const res = await fetch(`${API_BASE}/reports/monthly/${report.id}/send`, {
+                method: 'POST',
+                headers: { ...authHeaders, 'Content-Type': 'application/json' },
+                body: JSON.stringify({}),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setMessage({ type: 'success', text: `${report.title} emailed` });
+                fetchReports();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'Failed to send report' });
+            }
+        } catch (err) {
+            console.error('Send failed:', err);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePreview = async (report: MonthlyReport) => {
+        try {
+            const res = await fetch(`${API_BASE}/reports/monthly/${report.id}`, { headers: authHeaders });
+            if (res.ok) {
+                setPreview(await res.json());
+            }
+        } catch (err) {
+            console.error('Preview failed:', err);
+        }
+    };
+
+    const handleDownload = async (report: MonthlyReport, format: 'pdf' | 'md') => {
+        try {
+            const res = await fetch(`${API_BASE}/reports/monthly/${report.id}/download?format=${format}`, { headers: authHeaders });
+            if (res.ok) {
+                const blob = await res.blob();
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = url;
+                a.download = `${report.type}_${report.year}-${String(report.month).padStart(2, '0')}.${format}`;
+                a.click();
+                URL.revokeObjectURL(url);
+            } else {
+                setMessage({ type: 'error', text: 'Report file is not available; regenerate the report' });
+            }
+        } catch (err) {
+            console.error('Download failed:', err);
+        }
+    };
+
+    const handleSaveRecipients = async () => {
+        setSavingRecipients(true);
+        setMessage(null);
+        try {
+            const body = Object.fromEntries(
+                REPORT_TYPES.map(t => [t.id, recipients[t.id].split(',').map(e => e.trim()).filter(Boolean)])
+            );
+            const res = await fetch(`${API_BASE}/reports/monthly/recipients`, {
+                method: 'PUT',
+                headers: { ...authHeaders, 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            if (res.ok) {
+                setMessage({ type: 'success', text: 'Recipient lists saved' });
+                fetchRecipients();
+            } else {
+                const data = await res.json();
+                setMessage({ type: 'error', text: data.details ? 'Every recipient must be a valid email address' : data.error || 'Failed to save recipients' });
+            }
+        } catch (err) {
+            console.error('Save recipients failed:', err);
+        } finally {
+            setSavingRecipients(false);
+        }
+    };
+
+    const typeLabel = (type: string) => REPORT_TYPES.find(t => t.id === type)?.label ?? type;
+
+    return (
+        <div className="space-y-6 pb-12">
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <Link to="/reports" className="text-xs text-slate-500 hover:text-primary-600 flex items-center gap-1 mb-1">
+                        <ArrowLeft className="w-3.5 h-3.5" />
+                        Reports & Analytics
+                    </Link>
+                    <h1 className="text-2xl font-extrabold text-secondary-900 tracking-tight font-display flex items-center gap-2.5">
+                        <CalendarRange className="w-7 h-7 text-primary-600" />
+                        <span>Monthly Reports</span>
+                    </h1>
+                    <p className="text-xs text-slate-500 mt-1">
+                        Generated on the 1st of every month and emailed to the configured recipient lists
+                    </p>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`p-3 rounded-xl text-xs font-medium flex items-center justify-between ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700 border border-emerald-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
+                    <span>{message.text}</span>
+                    <button onClick={() => setMessage(null)}>
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {/* Generate on demand */}
+            {canGenerate && (
+                <div className="glass-panel p-5">
+                    <h3 className="font-bold text-sm text-secondary-900 mb-3">Generate Reports</h3>
+                    <div className="flex flex-col md:flex-row md:items-center gap-3">
+                        <select value={genMonth} onChange={(e) => setGenMonth(parseInt(e.target.value, 10))} className="glass-input text-xs py-2 md:w-40">
+                            {MONTHS.map((m, i) => (
+                                <option key={m} value={i + 1}>{m}</option>
+                            ))}
+                        </select>
+                        <select value={genYear} onChange={(e) => setGenYear(parseInt(e.target.value, 10))} className="glass-input text-xs py-2 md:w-28">
+                            {years.map(y => (
+                                <option key={y} value={y}>{y}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-2 text-xs text-slate-600">
+                            <input type="checkbox" checked={genSend} onChange={(e) => setGenSend(e.target.checked)} />
+                            Email to recipient lists
+                        </label>
+                        <button onClick={handleGenerate} disabled={generating} className="btn-primary text-xs flex items-center gap-1.5 disabled:opacity-50">
+                            <RefreshCw className={`w-3.5 h-3.5 ${generating ? 'animate-spin' : ''}`} />
+                            {generating ? 'Generating...' : 'Generate'}
+                        </button>
+                    </div>
+                    <p className="text-[11px] text-slate-500 mt-2">Regenerating a month replaces its stored reports.</p>
+                </div>
+            )}
+
+            {/* History */}
+            <div className="glass-panel p-5">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                    <h3 className="font-bold text-sm text-secondary-900">Report History</h3>
+                    <div className="flex gap-2">
+                        <select value={yearFilter} onChange={(e) => setYearFilter(e.target.value)} className="glass-input text-xs py-2">
+                            <option value="">All Years</option>
+                            {years.map(y => (
+                                <option key={y} value={y}>{y}</option>
+                            ))}
+                        </select>
+                        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} className="glass-input text-xs py-2">
+                            <option value="">All Types</option>
+                            {REPORT_TYPES.map(t => (
+                                <option key={t.id} value={t.id}>{t.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {loading ? (
+                    <div className="space-y-2">
+                        {[1, 2, 3, 4].map(i => <div key={i} className="skeleton h-10 rounded-lg" />)}
+                    </div>
+                ) : reports.length === 0 ? (
+                    <div className="text-center py-10">
+                        <FileText className="w-12 h-12 mx-auto text-slate-300 mb-3" />
+                        <p className="text-sm text-slate-500">No monthly reports generated yet</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-left text-slate-500 border-b border-slate-200">
+                                    <th className="py-2 pr-3 font-semibold">Period</th>
+                                    <th className="py-2 pr-3 font-semibold">Type</th>
+                                    <th className="py-2 pr-3 font-semibold">Generated</th>
+                                    <th className="py-2 pr-3 font-semibold">Emailed</th>
+                                    <th className="py-2 font-semibold text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {reports.map(report => (
+                                    <tr key={report.id} className="border-b border-slate-100 hover:bg-slate-50/60">
+                                        <td className="py-2.5 pr-3 font-medium text-secondary-900">{MONTHS[report.month - 1]} {report.year}</td>
+                                        <td className="py-2.5 pr-3">
+                                            <span className="glass-pill text-[10px] font-bold bg-slate-100 text-slate-700">{typeLabel(report.type)}</span>
+                                        </td>
+                                        <td className="py-2.5 pr-3 text-slate-600">{new Date(report.generatedAt).toLocaleString()}</td>
+                                        <td className="py-2.5 pr-3 text-slate-600">
+                                            {report.sentAt ? (
+                                                <span title={report.sentToEmails.join(', ')} className="flex items-center gap-1">
+                                                    <Mail className="w-3.5 h-3.5 text-emerald-600" />
+                                                    {report.sentToEmails.length} recipients, {new Date(report.sentAt).toLocaleDateString()}
+                                                </span>
+                                            ) : (
+                                                <span className="text-slate-400">Not sent</span>
+                                            )}
+                                        </td>
+                                        <td className="py-2.5">
+                                            <div className="flex items-center justify-end gap-1">
+                                                <button onClick={() => handlePreview(report)} className="p-1.5 text-slate-500 hover:text-primary-600" title="Preview">
+                                                    <Eye className="w-4 h-4" />
+                                                </button>
+                                                <button onClick={() => handleDownload(report, 'pdf')} className="p-1.5 text-slate-500 hover:text-primary-600" title="Download PDF">
+                                                    <Download className="w-4 h-4" />
+                                                </button>
+                                                <button onClick={() => handleDownload(report, 'md')} className="p-1.5 text-slate-500 hover:text-primary-600" title="Download Markdown">
+                                                    <FileText className="w-4 h-4" />
+                                                </button>
+                                                {canGenerate && (
+                                                    <button
+                                                        onClick={() => handleSend(report)}
+                                                        disabled={busyId === report.id}
+                                                        className="p-1.5 text-slate-500 hover:text-primary-600 disabled:opacity-50"
+                                                        title="Email to recipient list"
+                                                    >
+                                                        <Send className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Recipient lists */}
+            {canManageRecipients && (
+                <div className="glass-panel p-5">
+                    <h3 className="font-bold text-sm text-secondary-900 mb-1">Recipient Lists</h3>
+                    <p className="text-[11px] text-slate-500 mb-4">Comma-separated email addresses that receive each report type every month</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {REPORT_TYPES.map(t => (
+                            <div key={t.id}>
+                                <label className="block text-xs font-semibold text-slate-600 mb-1">{t.label}</label>
+                                <textarea
+                                    value={recipients[t.id]}
+                                    onChange={(e) => setRecipients(prev => ({ ...prev, [t.id]: e.target.value }))}
+                                    rows={2}
+                                    className="glass-input text-xs w-full"
+                                    placeholder="director@serc.res.in, accounts@serc.res.in"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-end mt-4">
+                        <button onClick={handleSaveRecipients} disabled={savingRecipients} className="btn-primary text-xs flex items-center gap-1.5 disabled:opacity-50">
+                            <Save className="w-3.5 h-3.5" />
+                            {savingRecipients ? 'Saving...' : 'Save Lists'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Preview Modal */}
+            {preview && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[85vh] flex flex-col">
+                        <div className="p-5 border-b border-slate-100 flex items-start justify-between">
+                            <div>
+                                <h3 className="font-bold text-secondary-900">{preview.title}</h3>
+                                <p className="text-xs text-slate-500 mt-0.5">Generated {new Date(preview.generatedAt).toLocaleString()}</p>
+                            </div>
+                            <button onClick={() => setPreview(null)} className="p-1 hover:bg-slate-100 rounded">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <pre className="p-5 overflow-auto text-xs text-slate-700 whitespace-pre font-mono">
+                            {preview.content}
+                        </pre>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import NotificationPreferences from '../components/NotificationPreferences';
 import {
     User,
     Mail,
@@ -42,12 +43,6 @@ export default function ProfilePage() {
         employeeId: 'SERC-DIR-001',
         bio: 'Leading structural dynamics, earthquake engineering, offshore infrastructure resilience, and advanced materials research.',
         twoFactorEnabled: true,
-        notificationPreferences: {
-            emailDigest: true,
-            milestoneAlerts: true,
-            proposalReviews: true,
-            budgetApprovals: true,
-        },
         defaultCurrency: 'INR',
         themePreference: 'fluent-glass',
     });
@@ -247,50 +242,7 @@ export default function ProfilePage() {
                     </form>
 
                     {/* Personal Notification Preferences */}
-                    <div className="glass-panel p-6 space-y-4">
-                        <h3 className="font-bold text-sm text-secondary-900 pb-2 border-b border-slate-100">Personal Alert Subscriptions</h3>
-
-                        <div className="space-y-3 text-xs">
-                            <label className="flex items-center justify-between p-3 bg-slate-50 rounded-2xl border border-slate-100 cursor-pointer">
-                                <div>
-                                    <p className="font-bold text-secondary-900">Milestone Deadlines & Status Changes</p>
-                                    <p className="text-[11px] text-slate-500">Receive alerts when deliverables in your projects are updated</p>
-                                </div>
-                                <input
-                                    type="checkbox"
-                                    checked={profile.notificationPreferences.milestoneAlerts}
-                                    onChange={(e) => setProfile({ ...profile, notificationPreferences: { ...profile.notificationPreferences, milestoneAlerts: e.target.checked } })}
-                                    className="w-4 h-4 accent-primary-600 rounded"
-                                />
-                            </label>
-
-                            <label className="flex items-center justify-between p-3 bg-slate-50 rounded-2xl border border-slate-100 cursor-pointer">
-                                <div>
-                                    <p className="font-bold text-secondary-900">Proposal Scrutiny & Sanction Reviews</p>
-                                    <p className="text-[11px] text-slate-500">Get notified when proposals require director or BKMD approval</p>
-                                </div>
-                                <input
-                                    type="checkbox"
-                                    checked={profile.notificationPreferences.proposalReviews}
-                                    onChange={(e) => setProfile({ ...profile, notificationPreferences: { ...profile.notificationPreferences, proposalReviews: e.target.checked } })}
-                                    className="w-4 h-4 accent-primary-600 rounded"
-                                />
-                            </label>
-
-                            <label className="flex items-center justify-between p-3 bg-slate-50 rounded-2xl border border-slate-100 cursor-pointer">
-                                <div>
-                                    <p className="font-bold text-secondary-900">Budget Change Requests</p>
-                                    <p className="text-[11px] text-slate-500">Notify upon fund re-allocation or contingency disbursements</p>
-                                </div>
-                                <input
-                                    type="checkbox"
-                                    checked={profile.notificationPreferences.budgetApprovals}
-                                    onChange={(e) => setProfile({ ...profile, notificationPreferences: { ...profile.notificationPreferences, budgetApprovals: e.target.checked } })}
-                                    className="w-4 h-4 accent-primary-600 rounded"
-                                />
-                            </label>
-                        </div>
-                    </div>
+                    <NotificationPreferences />
                 </div>
 
                 {/* Right Column: Security, Password & Active Sessions (1 Col) */}
@@ -1,6 +1,17 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import { useProjectUpdates } from '../hooks/useSocket';
+import ProjectRiskRegister from '../components/ProjectRiskRegister';
+import ProjectBaselines from '../components/ProjectBaselines';
+import ProjectLedger from '../components/ProjectLedger';
+import ProjectBudgetPhasing from '../components/ProjectBudgetPhasing';
+import ProjectExpenses from '../components/ProjectExpenses';
+import ProjectProcurement from '../components/ProjectProcurement';
+import ProjectCertificates from '../components/ProjectCertificates';
+import ProjectFunding from '../components/ProjectFunding';
+import ProjectInvoicing from '../components/ProjectInvoicing';
+import TodoList from '../components/TodoList';
 import {
     FolderKanban,
     ArrowLeft,
@@ -25,6 +36,7 @@ import {
     X,
     Briefcase,
     ExternalLink,
+    History,
     CheckSquare
 } from 'lucide-react';
 
@@ -42,25 +54,34 @@ interface Project {
     vertical: { id: string; name: string; code: string };
     budgets?: Array<{ id: string; fiscalYear: string; amountINR: number; utilized: number; category?: string }>;
     expenses?: Array<{ id: string; amountINR: number; description: string; date: string; category: string }>;
-    staff?: Array<{ id?: string; user: { id: string; firstName: string; lastName: string; designation?: string; email?: string } }>;
+    staff?: Array<{ id?: string; role?: string; projectRole?: ProjectRole; user: { id: string; firstName: string; lastName: string; designation?: string; email?: string } }>;
     documents?: Array<{ id: string; title: string; fileName: string; type: string; fileSize: number; createdAt: string }>;
     milestones?: Array<{ id: string; title: string; status: string; progress: number; startDate: string; endDate: string; description?: string }>;
     outputs?: Array<{ id: string; title: string; type: string; details?: string; date?: string }>;
     mous?: Array<{ id: string; partnerName: string; signedDate: string; validUntil: string; status: string }>;
+    // The caller's standing on this project, as enforced by the API
+    access?: { role: 'PI' | ProjectRole | null; canManage: boolean; canContribute: boolean };
 }
 
+type ProjectRole = 'CO_PI' | 'MEMBER' | 'VIEWER';
+
+const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+    CO_PI: 'Co-PI',
+    MEMBER: 'Member',
+    VIEWER: 'Viewer',
+};
+
 export default function ProjectDetailPage() {
     const { id } = useParams();
     const navigate = useNavigate();
-    const { accessToken, user } = useAuthStore();
+    const { accessToken } = useAuthStore();
     const [project, setProject] = useState<Project | null>(null);
     const [loading, setLoading] = useState(true);
-    const [activeTab, setActiveTab] = useState<'overview' | 'milestones' | 'financials' | 'team' | 'documents' | 'outputs' | 'journal'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'milestones' | 'baselines' | 'financials' | 'risks' | 'team' | 'documents' | 'outputs' | 'journal'>('overview');
     
     // Modals
     const [showEditModal, setShowEditModal] = useState(false);
     const [showMilestoneModal, setShowMilestoneModal] = useState(false);
-    const [showExpenseModal, setShowExpenseModal] = useState(false);
     const [showUploadModal, setShowUploadModal] = useState(false);
     const [saving, setSaving] = useState(false);
     const [successMessage, setSuccessMessage] = useState('');
@@ -69,7 +90,6 @@ export default function ProjectDetailPage() {
     // Forms
     const [editForm, setEditForm] = useState({ title: '', description: '', status: 'ACTIVE', progress: 0, startDate: '', endDate: '' });
     const [milestoneForm, setMilestoneForm] = useState({ title: '', description: '', startDate: '', endDate: '', progress: 0, status: 'NOT_STARTED' });
-    const [expenseForm, setExpenseForm] = useState({ amountINR: '', description: '', category: 'EQUIPMENT', date: new Date().toISOString().split('T')[0] });
     const [uploadForm, setUploadForm] = useState({ title: '', type: 'REPORT', description: '' });
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -86,15 +106,22 @@ export default function ProjectDetailPage() {
     const [commentCategory, setCommentCategory] = useState('UPDATE');
     const [addingComment, setAddingComment] = useState(false);
 
-    const canEdit = ['ADMIN', 'DIRECTOR', 'SUPERVISOR', 'PROJECT_HEAD'].includes(user?.role || '');
+    const canEdit = !!project?.access?.canManage;
+    const canContribute = !!project?.access?.canContribute;
 
     useEffect(() => {
         fetchProject();
         fetchComments();
     }, [id]);
 
-    const fetchProject = async () => {
-        setLoading(true);
+    // Milestones, budget requests and reports changed by others reload the project; comments reload the journal
+    useProjectUpdates(id, (event) => {
+        if (event.entity === 'comment') fetchComments();
+        else fetchProject(true);
+    });
+
+    const fetchProject = async (silent = false) => {
+        if (!silent) setLoading(true);
         try {
             const res = await fetch(`/api/projects/${id}`, {
                 headers: { Authorization: `Bearer ${accessToken}` },
@@ -196,41 +223,29 @@ export default function ProjectDetailPage() {
         }
     };
 
-    const handleAddExpense = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setSaving(true);
+    const handleChangeProjectRole = async (userId: string, projectRole: ProjectRole) => {
         setError('');
 
         try {
-            const res = await fetch(`/api/finance/expenses`, {
-                method: 'POST',
+            const res = await fetch(`/api/projects/${id}/staff/${userId}`, {
+                method: 'PATCH',
                 headers: {
                     'Content-Type': 'application/json',
                     Authorization: `Bearer ${accessToken}`,
                 },
-                body: JSON.stringify({
-                    projectId: id,
-                    amountINR: parseFloat(expenseForm.amountINR),
-                    description: expenseForm.description,
-                    category: expenseForm.category,
-                    date: expenseForm.date,
-                }),
+                body: JSON.stringify({ projectRole }),
             });
 
             if (res.ok) {
-                setShowExpenseModal(false);
-                setSuccessMessage('Expense recorded successfully!');
-                fetchProject();
-                setExpenseForm({ amountINR: '', description: '', category: 'EQUIPMENT', date: new Date().toISOString().split('T')[0] });
+                setSuccessMessage(`Project role changed to ${PROJECT_ROLE_LABELS[projectRole]}`);
+                fetchProject(true);
                 setTimeout(() => setSuccessMessage(''), 3000);
             } else {
                 const err = await res.json();
-                setError(err.error || 'Failed to record expense');
+                setError(err.error || 'Failed to change project role');
             }
         } catch (err: any) {
-            setError(err.message || 'Failed to record expense');
-        } finally {
-            setSaving(false);
+            setError(err.message || 'Failed to change project role');
         }
     };
 
@@ -273,6 +288,28 @@ export default function ProjectDetailPage() {
         }
     };
 
+    const handleDownloadReport = async () => {
+        try {
+            const res = await fetch(`/api/reports/projects/${id}/pdf`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const blob = await res.blob();
+                const downloadUrl = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = downloadUrl;
+                a.download = `${project?.code || 'project'}-progress-report.pdf`;
+                a.click();
+                URL.revokeObjectURL(downloadUrl);
+            } else {
+                const err = await res.json();
+                setError(err.error || 'Failed to generate progress report');
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to generate progress report');
+        }
+    };
+
     const handleAddComment = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!newComment.trim()) return;
@@ -355,6 +392,13 @@ export default function ProjectDetailPage() {
                 </Link>
 
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleDownloadReport}
+                        className="btn-secondary-glossy text-xs"
+                    >
+                        <Download className="w-3.5 h-3.5" />
+                        <span>Progress Report</span>
+                    </button>
                     {canEdit && (
                         <button
                             onClick={() => setShowEditModal(true)}
@@ -433,7 +477,9 @@ export default function ProjectDetailPage() {
                     {[
                         { id: 'overview', label: 'Overview', icon: FolderKanban },
                         { id: 'milestones', label: `Milestones (${project.milestones?.length || 3})`, icon: CheckSquare },
+                        { id: 'baselines', label: 'Baselines & Variance', icon: History },
                         { id: 'financials', label: 'Financials & Expenses', icon: BadgeIndianRupee },
+                        { id: 'risks', label: 'Risks', icon: ShieldAlert },
                         { id: 'team', label: `Team & Staff (${project.staff?.length || 4})`, icon: Users },
                         { id: 'documents', label: `Documents (${project.documents?.length || 0})`, icon: FileText },
                         { id: 'outputs', label: 'MoUs & Outputs', icon: Briefcase },
@@ -563,6 +609,12 @@ export default function ProjectDetailPage() {
                                 </div>
                             </div>
                         </div>
+
+                        {/* Project To-dos */}
+                        <TodoList
+                            projectId={project.id}
+                            members={[project.projectHead, ...(project.staff || []).map(s => s.user)].filter((m, i, arr) => m && arr.findIndex(x => x.id === m.id) === i)}
+                        />
                     </div>
                 </div>
             )}
@@ -621,59 +673,67 @@ export default function ProjectDetailPage() {
             {/* Tab 3: Financials & Expenses */}
             {activeTab === 'financials' && (
                 <div className="space-y-5">
-                    <div className="glass-panel p-5">
-                        <div className="flex items-center justify-between mb-4">
-                            <div>
-                                <h3 className="font-bold text-sm text-secondary-900">Project Expense Ledger</h3>
-                                <p className="text-[11px] text-slate-500">Record of disbursements and incurred project costs</p>
-                            </div>
-                            {canEdit && (
-                                <button
-                                    onClick={() => setShowExpenseModal(true)}
-                                    className="btn-primary-glossy text-xs"
-                                >
-                                    <Plus className="w-3.5 h-3.5" />
-                                    <span>Record Expense</span>
-                                </button>
-                            )}
-                        </div>
+                    <ProjectExpenses
+                        projectId={project.id}
+                        canManage={canEdit}
+                        canContribute={canContribute}
+                        refreshKey={project}
+                        onChange={() => fetchProject(true)}
+                    />
+
+                    <ProjectProcurement
+                        projectId={project.id}
+                        canManage={canEdit}
+                        canContribute={canContribute}
+                        refreshKey={project}
+                        onChange={() => fetchProject(true)}
+                    />
+
+                    <ProjectFunding
+                        projectId={project.id}
+                        canManage={canEdit}
+                        milestones={project.milestones ?? []}
+                        refreshKey={project}
+                        onChange={() => fetchProject(true)}
+                    />
+
+                    {/* Consultancy and sponsored testing work is billed to the client */}
+                    {(project.category === 'CNP' || project.category === 'STS') && (
+                        <ProjectInvoicing
+                            projectId={project.id}
+                            canManage={canEdit}
+                            refreshKey={project}
+                            onChange={() => fetchProject(true)}
+                        />
+                    )}
 
-                        <div className="overflow-x-auto">
-                            <table className="table-glossy">
-                                <thead>
-                                    <tr>
-                                        <th>Date</th>
-                                        <th>Description</th>
-                                        <th>Budget Head / Category</th>
-                                        <th className="text-right">Amount (INR)</th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {(project.expenses && project.expenses.length > 0 ? project.expenses : [
-                                        { id: '1', date: '2026-03-12', description: 'Piezoelectric sensor kit & data acquisition hardware', category: 'EQUIPMENT', amountINR: 850000 },
-                                        { id: '2', date: '2026-04-18', description: 'Site visit for bridge vibration baseline measurement', category: 'TRAVEL', amountINR: 42000 },
-                                        { id: '3', date: '2026-05-22', description: 'High-strength structural adhesive & epoxy consumables', category: 'CONSUMABLES', amountINR: 115000 },
-                                    ]).map((exp, idx) => (
-                                        <tr key={exp.id || idx}>
-                                            <td className="text-xs text-slate-600">{new Date(exp.date).toLocaleDateString()}</td>
-                                            <td className="text-xs font-medium text-secondary-900">{exp.description}</td>
-                                            <td>
-                                                <span className="glass-pill text-[10px] bg-slate-100 text-slate-700">
-                                                    {exp.category}
-                                                </span>
-                                            </td>
-                                            <td className="text-xs font-bold text-secondary-900 text-right">
-                                                ₹{exp.amountINR.toLocaleString('en-IN')}
-                                            </td>
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </table>
-                        </div>
-                    </div>
+                    <ProjectBudgetPhasing projectId={project.id} refreshKey={project} />
+
+                    <ProjectLedger projectId={project.id} refreshKey={project} />
+
+                    <ProjectCertificates
+                        projectId={project.id}
+                        canManage={canEdit}
+                        canContribute={canContribute}
+                        refreshKey={project}
+                    />
                 </div>
             )}
 
+            {/* Tab: Baselines & Variance */}
+            {activeTab === 'baselines' && (
+                <ProjectBaselines projectId={project.id} canEdit={canEdit} />
+            )}
+
+            {/* Tab: Risk Register */}
+            {activeTab === 'risks' && (
+                <ProjectRiskRegister
+                    projectId={project.id}
+                    canEdit={canEdit}
+                    members={[project.projectHead, ...(project.staff || []).map(s => s.user)].filter((m, i, arr) => arr.findIndex(x => x.id === m.id) === i)}
+                />
+            )}
+
             {/* Tab 4: Team & Staff */}
             {activeTab === 'team' && (
                 <div className="glass-panel p-5 space-y-4">
@@ -697,9 +757,27 @@ export default function ProjectDetailPage() {
                                 </div>
                                 <div className="truncate flex-1">
                                     <p className="text-xs font-bold text-secondary-900 truncate">Dr. {s.user.firstName} {s.user.lastName}</p>
-                                    <p className="text-[10px] text-slate-500 truncate">{s.user.designation || 'Scientist'}</p>
+                                    <p className="text-[10px] text-slate-500 truncate">{s.role || s.user.designation || 'Scientist'}</p>
                                     <p className="text-[10px] text-primary-600 truncate">{s.user.email || 'staff@serc.res.in'}</p>
                                 </div>
+                                {'projectRole' in s && s.projectRole && (
+                                    canEdit ? (
+                                        <select
+                                            value={s.projectRole}
+                                            onChange={(e) => handleChangeProjectRole(s.user.id, e.target.value as ProjectRole)}
+                                            className="glass-input text-[10px] py-1 px-2 w-auto shrink-0"
+                                            title="Access on this project"
+                                        >
+                                            {(Object.keys(PROJECT_ROLE_LABELS) as ProjectRole[]).map(role => (
+                                                <option key={role} value={role}>{PROJECT_ROLE_LABELS[role]}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className="glass-pill text-[10px] bg-slate-100 text-slate-700 shrink-0">
+                                            {PROJECT_ROLE_LABELS[s.projectRole]}
+                                        </span>
+                                    )
+                                )}
                             </div>
                         ))}
                     </div>
@@ -714,13 +792,15 @@ export default function ProjectDetailPage() {
                             <h3 className="font-bold text-sm text-secondary-900">Project Document Vault</h3>
                             <p className="text-[11px] text-slate-500">Deliverables, drawings, test protocols, and reports</p>
                         </div>
-                        <button
-                            onClick={() => setShowUploadModal(true)}
-                            className="btn-primary-glossy text-xs"
-                        >
-                            <Upload className="w-3.5 h-3.5" />
-                            <span>Upload Document</span>
-                        </button>
+                        {canContribute && (
+                            <button
+                                onClick={() => setShowUploadModal(true)}
+                                className="btn-primary-glossy text-xs"
+                            >
+                                <Upload className="w-3.5 h-3.5" />
+                                <span>Upload Document</span>
+                            </button>
+                        )}
                     </div>
 
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 pt-2">
@@ -794,40 +874,42 @@ export default function ProjectDetailPage() {
                     </div>
 
                     {/* New Comment Input Box */}
-                    <form onSubmit={handleAddComment} className="p-4 bg-slate-50/80 rounded-2xl border border-slate-200 space-y-3">
-                        <div className="flex items-center justify-between gap-2">
-                            <span className="text-xs font-bold text-secondary-800">Add Entry / Discussion Note</span>
-                            <select
-                                value={commentCategory}
-                                onChange={(e) => setCommentCategory(e.target.value)}
-                                className="glass-input text-[11px] py-1 px-2.5 w-auto"
-                            >
-                                <option value="UPDATE">Progress Update</option>
-                                <option value="RISK">Risk / Concern</option>
-                                <option value="DECISION">Technical Decision</option>
-                                <option value="NOTE">General Note</option>
-                            </select>
-                        </div>
+                    {canContribute && (
+                        <form onSubmit={handleAddComment} className="p-4 bg-slate-50/80 rounded-2xl border border-slate-200 space-y-3">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-bold text-secondary-800">Add Entry / Discussion Note</span>
+                                <select
+                                    value={commentCategory}
+                                    onChange={(e) => setCommentCategory(e.target.value)}
+                                    className="glass-input text-[11px] py-1 px-2.5 w-auto"
+                                >
+                                    <option value="UPDATE">Progress Update</option>
+                                    <option value="RISK">Risk / Concern</option>
+                                    <option value="DECISION">Technical Decision</option>
+                                    <option value="NOTE">General Note</option>
+                                </select>
+                            </div>
 
-                        <textarea
-                            rows={2}
-                            required
-                            value={newComment}
-                            onChange={(e) => setNewComment(e.target.value)}
-                            placeholder="Share progress updates, review findings, or raise technical queries..."
-                            className="glass-input text-xs"
-                        />
+                            <textarea
+                                rows={2}
+                                required
+                                value={newComment}
+                                onChange={(e) => setNewComment(e.target.value)}
+                                placeholder="Share progress updates, review findings, or raise technical queries..."
+                                className="glass-input text-xs"
+                            />
 
-                        <div className="flex justify-end">
-                            <button
-                                type="submit"
-                                disabled={addingComment}
-                                className="btn-primary-glossy text-xs"
-                            >
-                                {addingComment ? 'Posting...' : 'Post Entry'}
-                            </button>
-                        </div>
-                    </form>
+                            <div className="flex justify-end">
+                                <button
+                                    type="submit"
+                                    disabled={addingComment}
+                                    className="btn-primary-glossy text-xs"
+                                >
+                                    {addingComment ? 'Posting...' : 'Post Entry'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
 
                     {/* Comments Timeline Feed */}
                     <div className="space-y-3">
@@ -1000,79 +1082,6 @@ export default function ProjectDetailPage() {
                 </div>
             )}
 
-            {/* Record Expense Modal */}
-            {showExpenseModal && (
-                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
-                    <div className="glass-panel w-full max-w-lg p-6 bg-white/95 shadow-2xl rounded-3xl border border-slate-200">
-                        <div className="flex items-center justify-between pb-3 border-b border-slate-100 mb-4">
-                            <h3 className="font-bold text-base text-secondary-900 font-display">Record Project Expense</h3>
-                            <button onClick={() => setShowExpenseModal(false)} className="text-slate-400 hover:text-slate-700">
-                                <X className="w-5 h-5" />
-                            </button>
-                        </div>
-
-                        <form onSubmit={handleAddExpense} className="space-y-3 text-xs">
-                            <div>
-                                <label className="block font-bold text-secondary-800 mb-1">Amount (INR ₹) *</label>
-                                <input
-                                    type="number"
-                                    required
-                                    value={expenseForm.amountINR}
-                                    onChange={(e) => setExpenseForm({ ...expenseForm, amountINR: e.target.value })}
-                                    placeholder="e.g. 150000"
-                                    className="glass-input text-xs"
-                                />
-                            </div>
-
-                            <div>
-                                <label className="block font-bold text-secondary-800 mb-1">Budget Category *</label>
-                                <select
-                                    value={expenseForm.category}
-                                    onChange={(e) => setExpenseForm({ ...expenseForm, category: e.target.value })}
-                                    className="glass-input text-xs"
-                                >
-                                    <option value="EQUIPMENT">Equipment & Hardware</option>
-                                    <option value="MANPOWER">Manpower / Research Fellows</option>
-                                    <option value="CONSUMABLES">Consumables & Materials</option>
-                                    <option value="TRAVEL">Field Testing & Travel</option>
-                                    <option value="OVERHEAD">Institutional Overhead</option>
-                                    <option value="CONTINGENCY">Contingency</option>
-                                </select>
-                            </div>
-
-                            <div>
-                                <label className="block font-bold text-secondary-800 mb-1">Expense Description *</label>
-                                <input
-                                    type="text"
-                                    required
-                                    value={expenseForm.description}
-                                    onChange={(e) => setExpenseForm({ ...expenseForm, description: e.target.value })}
-                                    placeholder="e.g. Procurement of piezoelectric sensor modules"
-                                    className="glass-input text-xs"
-                                />
-                            </div>
-
-                            <div>
-                                <label className="block font-bold text-secondary-800 mb-1">Date of Expenditure</label>
-                                <input
-                                    type="date"
-                                    value={expenseForm.date}
-                                    onChange={(e) => setExpenseForm({ ...expenseForm, date: e.target.value })}
-                                    className="glass-input text-xs"
-                                />
-                            </div>
-
-                            <div className="flex justify-end gap-2.5 pt-3 border-t border-slate-100">
-                                <button type="button" onClick={() => setShowExpenseModal(false)} className="btn-secondary-glossy text-xs">Cancel</button>
-                                <button type="submit" disabled={saving} className="btn-primary-glossy text-xs">
-                                    {saving ? 'Recording...' : 'Record Expense'}
-                                </button>
-                            </div>
-                        </form>
-                    </div>
-                </div>
-            )}
-
             {/* Upload Document Modal */}
             {showUploadModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
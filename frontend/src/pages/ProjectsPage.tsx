@@ -278,6 +278,35 @@ export default function ProjectsPage() {
         document.body.removeChild(link);
     };
 
+    const exportToExcel = async () => {
+        setError('');
+        const params = new URLSearchParams({ format: 'excel', type: 'projects' });
+        if (categoryFilter !== 'ALL') params.append('category', categoryFilter);
+        if (verticalFilter !== 'ALL') params.append('vertical', verticalFilter);
+        if (statusFilter !== 'ALL') params.append('status', statusFilter);
+        if (search) params.append('search', search);
+
+        try {
+            const res = await fetch(`/api/reports/export?${params}`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const blob = await res.blob();
+                const downloadUrl = URL.createObjectURL(blob);
+                const link = document.createElement('a');
+                link.href = downloadUrl;
+                link.download = `CSIR_SERC_Projects_${new Date().toISOString().split('T')[0]}.xlsx`;
+                link.click();
+                URL.revokeObjectURL(downloadUrl);
+            } else {
+                const err = await res.json();
+                setError(err.error || 'Failed to export workbook');
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to export workbook');
+        }
+    };
+
     return (
         <div className="space-y-6 pb-12">
             {/* Success Toast */}
@@ -288,6 +317,17 @@ export default function ProjectsPage() {
                 </div>
             )}
 
+            {/* Error Toast (the create modal shows its own errors) */}
+            {error && !showCreateModal && (
+                <div className="fixed top-5 right-5 z-50 p-4 bg-rose-50 border border-rose-300 rounded-2xl text-rose-800 shadow-xl flex items-center gap-2.5 animate-fade-in">
+                    <AlertCircle className="w-5 h-5 text-rose-600" />
+                    <span className="font-semibold text-xs">{error}</span>
+                    <button onClick={() => setError('')} className="text-rose-400 hover:text-rose-700">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
             {/* Page Header */}
             <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
                 <div>
@@ -311,6 +351,13 @@ export default function ProjectsPage() {
                         <Download className="w-3.5 h-3.5" />
                         <span>Export CSV</span>
                     </button>
+                    <button
+                        onClick={exportToExcel}
+                        className="btn-secondary-glossy text-xs"
+                    >
+                        <Download className="w-3.5 h-3.5" />
+                        <span>Export Excel</span>
+                    </button>
                     {canCreate && (
                         <button
                             onClick={() => setShowCreateModal(true)}
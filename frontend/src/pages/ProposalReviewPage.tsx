@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import ProposalCostSheet from '../components/ProposalCostSheet';
 import {
     Briefcase,
     ArrowLeft,
@@ -31,7 +32,7 @@ interface Proposal {
     proposedStartDate: string;
     proposedEndDate: string;
     vertical?: { name: string; code: string };
-    submittedBy?: { firstName: string; lastName: string; email?: string; designation?: string; department?: string };
+    submittedBy?: { id: string; firstName: string; lastName: string; email?: string; designation?: string; department?: string };
     bkmdReviewer?: { firstName: string; lastName: string };
     bkmdReviewedAt?: string;
     bkmdComments?: string;
@@ -216,6 +217,14 @@ export default function ProposalReviewPage() {
                         </div>
                     </div>
 
+                    <ProposalCostSheet
+                        proposalId={proposal.id}
+                        startDate={proposal.proposedStartDate}
+                        endDate={proposal.proposedEndDate}
+                        canEdit={proposal.status === 'DRAFT' && (proposal.submittedBy?.id === user?.id || user?.role === 'ADMIN')}
+                        onChange={fetchProposal}
+                    />
+
                     {/* Past Stage Review Feedback */}
                     <div className="glass-panel p-5 space-y-3">
                         <h3 className="font-bold text-sm text-secondary-900">Institutional Review History</h3>
@@ -14,7 +14,8 @@ import {
     Sparkles,
     AlertCircle,
     X,
-    Layers
+    Layers,
+    Download
 } from 'lucide-react';
 
 interface RCMeeting {
@@ -157,6 +158,28 @@ export default function RCMeetingsPage() {
         }
     };
 
+    const handleDownload = async (url: string, filename: string) => {
+        try {
+            const res = await fetch(url, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                const blob = await res.blob();
+                const downloadUrl = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = downloadUrl;
+                a.download = filename;
+                a.click();
+                URL.revokeObjectURL(downloadUrl);
+            } else {
+                const err = await res.json();
+                setError(err.error || 'Failed to generate PDF');
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to generate PDF');
+        }
+    };
+
     const upcomingMeeting = meetings.find(m => m.status === 'SCHEDULED') || {
         id: '1',
         meetingNumber: 78,
@@ -263,13 +286,33 @@ export default function RCMeetingsPage() {
                         <p className="text-[11px] text-slate-500">Scheduled presentations and project reviews</p>
                     </div>
                     {canManage && (
-                        <button
-                            onClick={() => { setSelectedMeetingId(upcomingMeeting.id); setShowAgendaModal(true); }}
-                            className="btn-secondary-glossy text-xs"
-                        >
-                            <Plus className="w-3.5 h-3.5" />
-                            <span>Add Agenda Item</span>
-                        </button>
+                        <div className="flex items-center gap-2">
+                            {meetings.some(m => m.id === upcomingMeeting.id) && (
+                                <>
+                                    <button
+                                        onClick={() => handleDownload(`/api/rc-meetings/${upcomingMeeting.id}/agenda-pdf`, `RC_${upcomingMeeting.meetingNumber}_Agenda.pdf`)}
+                                        className="btn-secondary-glossy text-xs"
+                                    >
+                                        <Download className="w-3.5 h-3.5" />
+                                        <span>Agenda PDF</span>
+                                    </button>
+                                    <button
+                                        onClick={() => handleDownload(`/api/rc-meetings/${upcomingMeeting.id}/pack`, `RC_${upcomingMeeting.meetingNumber}_Meeting_Pack.pdf`)}
+                                        className="btn-secondary-glossy text-xs"
+                                    >
+                                        <Download className="w-3.5 h-3.5" />
+                                        <span>Meeting Pack</span>
+                                    </button>
+                                </>
+                            )}
+                            <button
+                                onClick={() => { setSelectedMeetingId(upcomingMeeting.id); setShowAgendaModal(true); }}
+                                className="btn-secondary-glossy text-xs"
+                            >
+                                <Plus className="w-3.5 h-3.5" />
+                                <span>Add Agenda Item</span>
+                            </button>
+                        </div>
                     )}
                 </div>
 
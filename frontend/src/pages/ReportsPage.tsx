@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend, CategoryScale, LinearScale, BarElement, Title, PointElement, LineElement, Filler } from 'chart.js';
 import { Doughnut, Bar, Line } from 'react-chartjs-2';
 import {
@@ -14,13 +16,15 @@ import {
     Layers,
     Sparkles,
     Image,
-    Briefcase
+    Briefcase,
+    CalendarRange
 } from 'lucide-react';
 
 ChartJS.register(ArcElement, Tooltip, Legend, CategoryScale, LinearScale, BarElement, Title, PointElement, LineElement, Filler);
 
 export default function ReportsPage() {
-    const { accessToken } = useAuthStore();
+    const { accessToken, user } = useAuthStore();
+    const { canAccessPage } = useRBAC();
     const [loading, setLoading] = useState(true);
     const [activeTab, setActiveTab] = useState<'portfolio' | 'financial' | 'verticals'>('portfolio');
 
@@ -107,6 +111,12 @@ export default function ReportsPage() {
                         High-resolution analytical reporting, portfolio distributions, and financial burndown intelligence
                     </p>
                 </div>
+                {canAccessPage('monthly-reports') && (
+                    <Link to="/reports/monthly" className="btn-secondary text-xs flex items-center gap-1.5 self-start md:self-auto">
+                        <CalendarRange className="w-4 h-4" />
+                        Monthly Reports
+                    </Link>
+                )}
             </div>
 
             {/* 1. Top KPI Summary */}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { useRBAC } from '../hooks/useRBAC';
+import PermissionMatrixEditor from '../components/PermissionMatrixEditor';
 import {
     Settings,
     Mail,
@@ -26,7 +28,8 @@ import {
     Send,
     Layers,
     Clock,
-    Server
+    Server,
+    Play
 } from 'lucide-react';
 
 interface PortalSettings {
@@ -96,6 +99,21 @@ interface BackupRecord {
     sha256Hash: string;
 }
 
+interface ScheduledJob {
+    id: string;
+    name: string;
+    description?: string;
+    schedule: string;
+    enabled: boolean;
+    lastRunAt?: string;
+    lastStatus?: 'SUCCESS' | 'FAILED';
+    lastError?: string;
+    lastDurationMs?: number;
+    nextRunAt: string;
+    lockedBy?: string;
+    isRunning: boolean;
+}
+
 const colorPalettes = [
     { name: 'SERC Ocean Blue', value: '#0078d4', bg: 'bg-[#0078d4]' },
     { name: 'Azure Coastal Teal', value: '#0d9488', bg: 'bg-[#0d9488]' },
@@ -106,7 +124,8 @@ const colorPalettes = [
 
 export default function SettingsPage() {
     const { accessToken, user } = useAuthStore();
-    const [activeTab, setActiveTab] = useState<'branding' | 'notifications' | 'security' | 'integrations' | 'smtp' | 'backup'>('branding');
+    const { hasPermission } = useRBAC();
+    const [activeTab, setActiveTab] = useState<'branding' | 'notifications' | 'security' | 'permissions' | 'integrations' | 'smtp' | 'backup'>('branding');
     const [loading, setLoading] = useState(false);
     const [saving, setSaving] = useState(false);
     const [testingEmail, setTestingEmail] = useState(false);
@@ -178,6 +197,68 @@ export default function SettingsPage() {
         { id: '3', filename: 'csir_serc_auto_20260818_020000.sql.gz', sizeBytes: 48120900, createdAt: '2026-08-18T02:00:00Z', type: 'scheduled', sha256Hash: '9c44e2...d011' },
     ]);
 
+    const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+    const [runningJob, setRunningJob] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (activeTab === 'notifications' && user?.role === 'ADMIN') {
+            fetchJobs();
+        }
+    }, [activeTab]);
+
+    const fetchJobs = async () => {
+        try {
+            const res = await fetch('/api/admin/jobs', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            if (res.ok) {
+                setJobs(await res.json());
+            }
+        } catch (err) {
+            console.error('Failed to fetch scheduled jobs:', err);
+        }
+    };
+
+    const handleRunJob = async (name: string) => {
+        setRunningJob(name);
+        setMessage(null);
+
+        try {
+            const res = await fetch(`/api/admin/jobs/${name}/run`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setMessage({ type: data.status === 'FAILED' ? 'error' : 'success', text: `Job '${name}' finished: ${data.status}` });
+            } else {
+                setMessage({ type: 'error', text: data.error || `Failed to run '${name}'` });
+            }
+            fetchJobs();
+        } catch (err) {
+            setMessage({ type: 'error', text: `Failed to run '${name}'` });
+        } finally {
+            setRunningJob(null);
+            setTimeout(() => setMessage(null), 5000);
+        }
+    };
+
+    const handleToggleJob = async (job: ScheduledJob) => {
+        try {
+            const res = await fetch(`/api/admin/jobs/${job.name}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${accessToken}`,
+                },
+                body: JSON.stringify({ enabled: !job.enabled }),
+            });
+            if (res.ok) fetchJobs();
+        } catch (err) {
+            console.error('Failed to update job:', err);
+        }
+    };
+
     const handleSave = async (e?: React.FormEvent) => {
         if (e) e.preventDefault();
         setSaving(true);
@@ -304,6 +385,7 @@ export default function SettingsPage() {
                     { id: 'branding', label: 'Branding & Theme', icon: Palette },
                     { id: 'notifications', label: 'Alerts & Automations', icon: Bell },
                     { id: 'security', label: 'Security & Access SSO', icon: Shield },
+                    ...(hasPermission('settings', 'manage') ? [{ id: 'permissions', label: 'Roles & Permissions', icon: Key }] : []),
                     { id: 'integrations', label: 'API & Webhooks', icon: Webhook },
                     { id: 'smtp', label: 'Mail Dispatcher', icon: Mail },
                     { id: 'backup', label: 'Database Backup Vault', icon: Database },
@@ -528,6 +610,91 @@ export default function SettingsPage() {
                             </label>
                         </div>
                     </div>
+
+                    {user?.role === 'ADMIN' && (
+                        <div className="glass-panel overflow-hidden lg:col-span-2">
+                            <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+                                <div>
+                                    <h3 className="font-bold text-sm text-secondary-900">Scheduled Background Jobs</h3>
+                                    <p className="text-[11px] text-slate-500">Automated alert scans shared across all server instances</p>
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={fetchJobs}
+                                    className="p-1.5 text-slate-500 hover:text-primary-600"
+                                    title="Refresh"
+                                >
+                                    <RefreshCw className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <div className="overflow-x-auto">
+                                <table className="table-glossy">
+                                    <thead>
+                                        <tr>
+                                            <th>Job</th>
+                                            <th>Schedule</th>
+                                            <th>Last Run</th>
+                                            <th>Next Run</th>
+                                            <th>Enabled</th>
+                                            <th className="text-right">Action</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {jobs.length === 0 && (
+                                            <tr>
+                                                <td colSpan={6} className="text-center text-xs text-slate-400 py-6">No jobs registered yet</td>
+                                            </tr>
+                                        )}
+                                        {jobs.map((job) => (
+                                            <tr key={job.id}>
+                                                <td>
+                                                    <p className="font-mono font-bold text-xs text-primary-700">{job.name}</p>
+                                                    <p className="text-[11px] text-slate-500">{job.description}</p>
+                                                </td>
+                                                <td className="text-xs text-slate-600">
+                                                    <span className="inline-flex items-center gap-1"><Clock className="w-3.5 h-3.5" />{job.schedule}</span>
+                                                </td>
+                                                <td className="text-xs text-slate-600">
+                                                    {job.lastRunAt ? (
+                                                        <div>
+                                                            <span className={`glass-pill text-[10px] font-bold ${job.lastStatus === 'FAILED' ? 'bg-rose-50 text-rose-700' : 'bg-emerald-50 text-emerald-700'}`}>
+                                                                {job.lastStatus}
+                                                            </span>
+                                                            <p className="mt-1">{new Date(job.lastRunAt).toLocaleString()}</p>
+                                                            {job.lastError && <p className="text-[10px] text-rose-600">{job.lastError}</p>}
+                                                        </div>
+                                                    ) : 'Never'}
+                                                </td>
+                                                <td className="text-xs text-slate-600">
+                                                    {job.isRunning ? (
+                                                        <span className="glass-pill text-[10px] font-bold bg-amber-50 text-amber-700">Running on {job.lockedBy}</span>
+                                                    ) : job.enabled ? new Date(job.nextRunAt).toLocaleString() : '—'}
+                                                </td>
+                                                <td>
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={job.enabled}
+                                                        onChange={() => handleToggleJob(job)}
+                                                        className="w-4 h-4 accent-primary-600 rounded"
+                                                    />
+                                                </td>
+                                                <td className="text-right">
+                                                    <button
+                                                        onClick={() => handleRunJob(job.name)}
+                                                        disabled={runningJob !== null || job.isRunning}
+                                                        className="p-1 text-primary-600 hover:text-primary-800 font-bold inline-flex items-center gap-1 text-xs disabled:opacity-50"
+                                                    >
+                                                        <Play className="w-3.5 h-3.5" />
+                                                        <span>{runningJob === job.name ? 'Running...' : 'Run Now'}</span>
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -801,6 +968,9 @@ export default function SettingsPage() {
                 </div>
             )}
 
+            {/* Tab: Roles & Permissions */}
+            {activeTab === 'permissions' && <PermissionMatrixEditor />}
+
             {/* 6. Tab: Database Backup Vault */}
             {activeTab === 'backup' && (
                 <div className="space-y-5">
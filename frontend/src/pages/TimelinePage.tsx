@@ -1,5 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import MilestoneGantt from '../components/MilestoneGantt';
 import {
     Calendar,
     Filter,
@@ -23,10 +24,21 @@ interface Milestone {
     startDate: string;
     endDate: string;
     progress: number;
-    status: 'NOT_STARTED' | 'IN_PROGRESS' | 'COMPLETED' | 'OVERDUE';
+    status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'OVERDUE';
     category: string;
 }
 
+interface ApiMilestone {
+    id: string;
+    projectId: string;
+    title: string;
+    startDate: string;
+    endDate: string;
+    progress: number;
+    status: Milestone['status'];
+    project: { id: string; code: string; title: string; category: string };
+}
+
 export default function TimelinePage() {
     const { accessToken } = useAuthStore();
     const [milestones, setMilestones] = useState<Milestone[]>([]);
@@ -36,17 +48,7 @@ export default function TimelinePage() {
     const [statusFilter, setStatusFilter] = useState('ALL');
     const [projectFilter, setProjectFilter] = useState('ALL');
     const [search, setSearch] = useState('');
-
-    const mockMilestones: Milestone[] = [
-        { id: '1', projectId: 'p1', projectCode: 'GAP-2026-SHMLE-001', projectTitle: 'Structural Health Monitoring of Bridges', title: 'Phase 1: Wireless Sensor Calibration & Lab Setup', startDate: '2026-01-15', endDate: '2026-06-30', progress: 100, status: 'COMPLETED', category: 'GAP' },
-        { id: '2', projectId: 'p1', projectCode: 'GAP-2026-SHMLE-001', projectTitle: 'Structural Health Monitoring of Bridges', title: 'Phase 2: Full-Scale Dynamic Vibration Testing', startDate: '2026-07-01', endDate: '2026-11-30', progress: 65, status: 'IN_PROGRESS', category: 'GAP' },
-        { id: '3', projectId: 'p1', projectCode: 'GAP-2026-SHMLE-001', projectTitle: 'Structural Health Monitoring of Bridges', title: 'Phase 3: Machine Learning Anomaly Detection Integration', startDate: '2026-12-01', endDate: '2027-04-30', progress: 0, status: 'NOT_STARTED', category: 'GAP' },
-        { id: '4', projectId: 'p2', projectCode: 'CNP-2026-DM-002', projectTitle: 'Dynamic Blast Resistance of High-Strength Steel', title: 'Phase 1: Finite Element Shock-Wave Simulation', startDate: '2026-02-01', endDate: '2026-08-31', progress: 100, status: 'COMPLETED', category: 'CNP' },
-        { id: '5', projectId: 'p2', projectCode: 'CNP-2026-DM-002', projectTitle: 'Dynamic Blast Resistance of High-Strength Steel', title: 'Phase 2: Controlled Explosive Chamber Testing', startDate: '2026-09-01', endDate: '2026-12-15', progress: 45, status: 'IN_PROGRESS', category: 'CNP' },
-        { id: '6', projectId: 'p3', projectCode: 'OLP-2026-AMSS-003', projectTitle: 'Alkali-Activated Slag Concrete Testing', title: 'Phase 1: Chemical Synthesis & Microstructural SEM', startDate: '2026-03-01', endDate: '2026-09-30', progress: 100, status: 'COMPLETED', category: 'OLP' },
-        { id: '7', projectId: 'p3', projectCode: 'OLP-2026-AMSS-003', projectTitle: 'Alkali-Activated Slag Concrete Testing', title: 'Phase 2: Accelerated Chloride Ingress & Durability', startDate: '2026-10-01', endDate: '2027-03-31', progress: 30, status: 'IN_PROGRESS', category: 'OLP' },
-        { id: '8', projectId: 'p4', projectCode: 'GAP-2026-EI-004', projectTitle: 'Offshore Wind Turbine Foundation Fatigue', title: 'Phase 1: Cyclic Wave Basin Hydrodynamic Trials', startDate: '2026-04-01', endDate: '2026-10-31', progress: 85, status: 'IN_PROGRESS', category: 'GAP' },
-    ];
+    const [ganttProjectId, setGanttProjectId] = useState('');
 
     useEffect(() => {
         fetchMilestones();
@@ -55,18 +57,33 @@ export default function TimelinePage() {
     const fetchMilestones = async () => {
         setLoading(true);
         try {
-            const res = await fetch('/api/projects', {
-                headers: { Authorization: `Bearer ${accessToken}` },
-            });
-            if (res.ok) {
-                const data = await res.json();
+            const [projectsRes, milestonesRes] = await Promise.all([
+                fetch('/api/projects', { headers: { Authorization: `Bearer ${accessToken}` } }),
+                fetch('/api/timeline/milestones', { headers: { Authorization: `Bearer ${accessToken}` } }),
+            ]);
+            if (projectsRes.ok) {
+                const data = await projectsRes.json();
                 const pList = data.data || data || [];
                 setProjects(pList);
+                if (pList.length > 0) setGanttProjectId(current => current || pList[0].id);
+            }
+            if (milestonesRes.ok) {
+                const data: { milestones: ApiMilestone[] } = await milestonesRes.json();
+                setMilestones(data.milestones.map(m => ({
+                    id: m.id,
+                    projectId: m.projectId,
+                    projectCode: m.project.code,
+                    projectTitle: m.project.title,
+                    title: m.title,
+                    startDate: m.startDate,
+                    endDate: m.endDate,
+                    progress: m.progress,
+                    status: m.status,
+                    category: m.project.category,
+                })));
             }
-            setMilestones(mockMilestones);
         } catch (err) {
             console.error('Failed to load milestones:', err);
-            setMilestones(mockMilestones);
         } finally {
             setLoading(false);
         }
@@ -131,7 +148,9 @@ export default function TimelinePage() {
 
                 <div className="glass-card-interactive p-4">
                     <span className="text-[10px] font-bold text-amber-600 uppercase tracking-wider">Schedule Adherence</span>
-                    <p className="text-2xl font-black text-amber-700 mt-1">96%</p>
+                    <p className="text-2xl font-black text-amber-700 mt-1">
+                        {milestones.length > 0 ? Math.round(((milestones.length - overdueCount) / milestones.length) * 100) : 100}%
+                    </p>
                     <p className="text-xs text-slate-500">On-track delivery</p>
                 </div>
             </div>
@@ -159,7 +178,8 @@ export default function TimelinePage() {
                             <option value="ALL">All Statuses</option>
                             <option value="COMPLETED">Completed</option>
                             <option value="IN_PROGRESS">In Progress</option>
-                            <option value="NOT_STARTED">Upcoming</option>
+                            <option value="PENDING">Upcoming</option>
+                            <option value="OVERDUE">Overdue</option>
                         </select>
                     </div>
 
@@ -178,12 +198,37 @@ export default function TimelinePage() {
                 </div>
             </div>
 
-            {/* 3. Gantt Roadmap Timeline Schedule */}
+            {/* 3. Dependency Gantt with critical path */}
+            <div className="glass-panel p-5 space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border-b border-slate-100 pb-3">
+                    <div>
+                        <h3 className="font-bold text-sm text-secondary-900">Project Gantt & Critical Path</h3>
+                        <p className="text-[11px] text-slate-500">Critical milestones are shown in red; float is in days</p>
+                    </div>
+                    <select
+                        value={ganttProjectId}
+                        onChange={(e) => setGanttProjectId(e.target.value)}
+                        className="glass-input text-xs py-2 w-full sm:w-72"
+                    >
+                        {projects.map(p => (
+                            <option key={p.id} value={p.id}>{p.code} - {p.title}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {ganttProjectId ? (
+                    <MilestoneGantt projectId={ganttProjectId} />
+                ) : (
+                    <p className="text-center py-6 text-xs text-slate-400">{loading ? 'Loading projects...' : 'No projects to schedule.'}</p>
+                )}
+            </div>
+
+            {/* 4. Milestone Schedule */}
             <div className="glass-panel p-5 space-y-4">
                 <div className="flex items-center justify-between border-b border-slate-100 pb-3">
-                    <h3 className="font-bold text-sm text-secondary-900">Fiscal Milestone Schedule Gantt (2026 - 2027)</h3>
+                    <h3 className="font-bold text-sm text-secondary-900">Milestone Schedule</h3>
                     <span className="glass-pill text-[10px] font-bold bg-primary-50 text-primary-700">
-                        Monthly Schedule View
+                        {filteredMilestones.length} of {milestones.length}
                     </span>
                 </div>
 
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { MailX, CheckCircle2, AlertTriangle, Loader2 } from 'lucide-react';
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+export default function UnsubscribePage() {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const type = searchParams.get('type');
+    const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        if (!token) {
+            setStatus('error');
+            setMessage('This unsubscribe link is incomplete.');
+            return;
+        }
+
+        const unsubscribe = async () => {
+            try {
+                const res = await fetch(`${API_BASE}/notifications/unsubscribe`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(type ? { token, type } : { token }),
+                });
+                const data = await res.json();
+                setStatus(res.ok ? 'success' : 'error');
+                setMessage(res.ok ? data.message : data.error || 'Failed to unsubscribe');
+            } catch (err) {
+                console.error('Unsubscribe failed:', err);
+                setStatus('error');
+                setMessage('Failed to unsubscribe. Please try again later.');
+            }
+        };
+        unsubscribe();
+    }, [token, type]);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-8 bg-slate-50">
+            <div className="glass-panel max-w-md w-full p-8 text-center space-y-4">
+                <div className="w-16 h-16 mx-auto rounded-full bg-primary-50 flex items-center justify-center">
+                    {status === 'loading' && <Loader2 className="w-8 h-8 text-primary-600 animate-spin" />}
+                    {status === 'success' && <CheckCircle2 className="w-8 h-8 text-emerald-600" />}
+                    {status === 'error' && <AlertTriangle className="w-8 h-8 text-red-500" />}
+                </div>
+                <h1 className="text-xl font-bold text-secondary-900 flex items-center justify-center gap-2">
+                    <MailX className="w-5 h-5" />
+                    <span>Email Notifications</span>
+                </h1>
+                <p className="text-sm text-secondary-600">
+                    {status === 'loading' ? 'Updating your notification preferences...' : message}
+                </p>
+                {status === 'success' && (
+                    <p className="text-xs text-slate-500">
+                        In-app notifications are unaffected. You can change this at any time from your profile.
+                    </p>
+                )}
+                <Link to="/profile?tab=notifications" className="btn-secondary text-xs inline-block">
+                    Manage notification preferences
+                </Link>
+            </div>
+        </div>
+    );
+}
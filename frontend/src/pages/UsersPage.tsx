@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '../stores/authStore';
-import { ROLE_PERMISSIONS, PAGE_ACCESS, Resource, Role } from '../hooks/useRBAC';
+import { useRBAC } from '../hooks/useRBAC';
 import {
     PersonRegular,
     SearchRegular,
@@ -96,6 +96,7 @@ export default function UsersPage() {
     const [selectedUsers, setSelectedUsers] = useState<Set<string>>(new Set());
     const [selectedProjectId, setSelectedProjectId] = useState('');
     const [assignRole, setAssignRole] = useState('Team Member');
+    const [assignProjectRole, setAssignProjectRole] = useState<'CO_PI' | 'MEMBER' | 'VIEWER'>('MEMBER');
     const [assigning, setAssigning] = useState(false);
     const [formData, setFormData] = useState({
         email: '',
@@ -113,15 +114,16 @@ export default function UsersPage() {
     const [successMessage, setSuccessMessage] = useState('');
     const [activeTab, setActiveTab] = useState<'users' | 'access-control'>('users');
 
-    // Check if current user can manage staff
-    const canManageStaff = ['ADMIN', 'SUPERVISOR', 'DIRECTOR', 'DIRECTOR_GENERAL'].includes(currentUser?.role || '');
+    // Assigning staff to projects follows the permission matrix
+    const { hasPermission } = useRBAC();
+    const canManageStaff = hasPermission('projects', 'manage');
 
     useEffect(() => {
         fetchUsers();
         if (canManageStaff) {
             fetchProjects();
         }
-    }, [page, roleFilter, statusFilter, searchQuery]);
+    }, [page, roleFilter, statusFilter, searchQuery, canManageStaff]);
 
     const fetchUsers = async () => {
         try {
@@ -247,7 +249,8 @@ export default function UsersPage() {
                 body: JSON.stringify({
                     staffIds: Array.from(selectedUsers),
                     projectId: selectedProjectId,
-                    role: assignRole
+                    role: assignRole,
+                    projectRole: assignProjectRole
                 }),
             });
 
@@ -697,6 +700,19 @@ export default function UsersPage() {
                                 </select>
                             </div>
 
+                            <div>
+                                <label className="block text-sm font-medium text-secondary-700 mb-1">Access on Project</label>
+                                <select
+                                    value={assignProjectRole}
+                                    onChange={e => setAssignProjectRole(e.target.value as 'CO_PI' | 'MEMBER' | 'VIEWER')}
+                                    className="input-premium"
+                                >
+                                    <option value="CO_PI">Co-PI (same rights as the PI on this project)</option>
+                                    <option value="MEMBER">Member (journal, documents and reports)</option>
+                                    <option value="VIEWER">Viewer (read-only)</option>
+                                </select>
+                            </div>
+
                             <div className="bg-info-50 p-3 rounded-lg text-sm text-info-700">
                                 <InfoRegular className="w-4 h-4 inline mr-2" />
                                 Assigned staff will receive email and in-app notifications about their assignment.
@@ -6,7 +6,7 @@ export interface User {
     email: string;
     firstName: string;
     lastName: string;
-    role: 'ADMIN' | 'DIRECTOR' | 'SUPERVISOR' | 'PROJECT_HEAD' | 'EMPLOYEE' | 'EXTERNAL_OWNER';
+    role: 'ADMIN' | 'DIRECTOR' | 'DIRECTOR_GENERAL' | 'SUPERVISOR' | 'PROJECT_HEAD' | 'EMPLOYEE' | 'RC_MEMBER' | 'EXTERNAL_OWNER';
     designation?: string;
     department?: string;
     phone?: string;
@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import type { Action, Resource } from '../hooks/useRBAC';
+
+interface PermissionState {
+    // Whose grants are loaded; refetched when another user signs in
+    userId: string | null;
+    permissions: Partial<Record<Resource, Action[]>>;
+    loaded: boolean;
+    loading: boolean;
+
+    fetchPermissions: (userId: string, accessToken: string) => Promise<void>;
+}
+
+const API_URL = '/api';
+
+export const usePermissionStore = create<PermissionState>()((set, get) => ({
+    userId: null,
+    permissions: {},
+    loaded: false,
+    loading: false,
+
+    fetchPermissions: async (userId: string, accessToken: string) => {
+        if (get().loading) return;
+        set({ loading: true });
+
+        try {
+            const response = await fetch(`${API_URL}/permissions/me`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            const data = response.ok ? await response.json() : { permissions: {} };
+            set({ userId, permissions: data.permissions, loaded: true, loading: false });
+        } catch (error) {
+            // Deny everything rather than leave guards waiting
+            set({ userId, permissions: {}, loaded: true, loading: false });
+        }
+    },
+}));
@@ -19,6 +19,10 @@ export default defineConfig({
                 target: 'http://localhost:3001',
                 changeOrigin: true,
             },
+            '/socket.io': {
+                target: 'http://localhost:3001',
+                ws: true,
+            },
         },
     },
 })